@@ -320,6 +320,21 @@
     return list.map((f) => linkRow(icon, f.name, f.description || '', f.path)).join('');
   }
 
+  function httpMockRows(mock, folder, startArgs) {
+    if (mock && mock.running && mock.folder === folder) {
+      return (
+        actionRow('Stop mock server', 'cursor-toys.stopHttpMockServer', `${mock.url} · ${mock.routeCount} routes`) +
+        actionRow('Open mock server log', 'cursor-toys.openHttpMockServerLog')
+      );
+    }
+    return actionRow(
+      'Start mock server',
+      'cursor-toys.startHttpMockServer',
+      'Serve these requests locally from their saved responses',
+      startArgs
+    );
+  }
+
   function httpFileRows(list, icon, emptyTxt) {
     if (!list || !list.length) return `<div class="empty">${esc(emptyTxt || 'Empty')}</div>`;
 
@@ -515,7 +530,8 @@
         count: (p.http || []).length,
         body:
           httpFileRows(p.http || [], I.globe, 'No personal HTTP requests') +
-          actionRow('New personal HTTP request', 'cursor-toys.newHttpRequest', undefined, ['personal']),
+          actionRow('New personal HTTP request', 'cursor-toys.newHttpRequest', undefined, ['personal']) +
+          httpMockRows(model.httpMockServer, p.httpPath, ['personal']),
       },
       {
         id: 'p-note',
@@ -708,7 +724,8 @@
           count: p.http.length,
           body:
             httpFileRows(p.http, I.globe, 'No HTTP requests') +
-            actionRow('New HTTP request', 'cursor-toys.newHttpRequest', undefined, [p.root]),
+            actionRow('New HTTP request', 'cursor-toys.newHttpRequest', undefined, [p.root]) +
+            httpMockRows(model.httpMockServer, p.httpPath, [p.root]),
         },
         {
           id: secId(sk, 'note'),
@@ -0,0 +1,194 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { formatJsonSchemaViolations, validateJsonSchema } from './assertionJsonSchema';
+
+const USER_SCHEMA = {
+  type: 'object',
+  required: ['id', 'name', 'email'],
+  additionalProperties: false,
+  properties: {
+    id: { type: 'integer', minimum: 1 },
+    name: { type: 'string', minLength: 1 },
+    email: { type: 'string', format: 'email' },
+    tags: { type: 'array', items: { type: 'string' }, uniqueItems: true },
+  },
+};
+
+function pointers(instance: unknown, schema: unknown, options = {}): string[] {
+  return validateJsonSchema(instance, schema, options).map((v) => `${v.instancePath} ${v.keyword}`);
+}
+
+function runTests(): void {
+  testBasicKeywords();
+  testRefs();
+  testFileRefs();
+  testCombinators();
+  testArraysAndUnevaluated();
+  testFormatViolations();
+  console.log('All assertionJsonSchema tests passed.');
+}
+
+function testBasicKeywords(): void {
+  assert.deepStrictEqual(pointers({ id: 1, name: 'Ann', email: 'ann@example.com' }, USER_SCHEMA), []);
+  assert.deepStrictEqual(
+    pointers({ id: 0, name: '', email: 'nope', tags: ['a', 'a', 3], extra: true }, USER_SCHEMA),
+    [
+      '/id minimum',
+      '/name minLength',
+      '/email format',
+      '/tags/2 type',
+      '/tags/1 uniqueItems',
+      '/extra additionalProperties',
+    ]
+  );
+  assert.deepStrictEqual(pointers({ id: 1.5 }, USER_SCHEMA), ['/name required', '/email required', '/id type']);
+  assert.deepStrictEqual(pointers('x', true), []);
+  assert.deepStrictEqual(pointers('x', false), [' false']);
+  assert.deepStrictEqual(pointers({ 'a/b': 1 }, { properties: { 'a/b': { const: 2 } } }), ['/a~1b const']);
+  assert.deepStrictEqual(pointers(7, { type: ['string', 'null'] }), [' type']);
+  assert.deepStrictEqual(pointers(10, { exclusiveMaximum: 10, multipleOf: 5 }), [' exclusiveMaximum']);
+
+  // Inherited names such as `constructor` are not properties of the value
+  assert.deepStrictEqual(pointers({}, { required: ['constructor', 'toString'] }), ['/constructor required', '/toString required']);
+  assert.deepStrictEqual(pointers({}, { properties: { constructor: { type: 'string' } } }), []);
+  assert.deepStrictEqual(
+    pointers({ a: 1 }, { dependentRequired: { a: ['hasOwnProperty'], constructor: ['b'] } }),
+    ['/hasOwnProperty dependentRequired']
+  );
+}
+
+function testRefs(): void {
+  const schema = {
+    $defs: {
+      user: { type: 'object', required: ['id'], properties: { id: { type: 'integer' } } },
+      named: { $anchor: 'named', required: ['name'] },
+    },
+    type: 'array',
+    items: { allOf: [{ $ref: '#/$defs/user' }, { $ref: '#named' }] },
+  };
+  assert.deepStrictEqual(pointers([{ id: 1, name: 'a' }, { id: 'x' }], schema), ['/1/id type', '/1/name required']);
+
+  // draft-07 definitions and recursive refs
+  const tree = {
+    definitions: {
+      node: {
+        type: 'object',
+        properties: { value: { type: 'number' }, children: { type: 'array', items: { $ref: '#/definitions/node' } } },
+      },
+    },
+    $ref: '#/definitions/node',
+  };
+  assert.deepStrictEqual(pointers({ value: 1, children: [{ value: 2, children: [{ value: 'x' }] }] }, tree), [
+    '/children/0/children/0/value type',
+  ]);
+  assert.throws(() => validateJsonSchema(1, { $ref: '#/$defs/missing' }), /\$ref target not found/);
+  assert.throws(() => validateJsonSchema(1, { $ref: 'https://example.com/schema.json' }), /remote \$ref is not supported/);
+  assert.throws(() => validateJsonSchema(1, { $ref: 'user.json' }), /needs a request file or workspace folder/);
+
+  // Absolute-URI refs resolve to the schemas read so far by their $id; relative ones
+  // resolve against the enclosing $id
+  const identified = {
+    $id: 'https://example.com/schemas/user.json',
+    $defs: {
+      address: { $id: 'https://example.com/schemas/address.json', type: 'object', required: ['city'] },
+      tag: { $id: 'tag.json', type: 'string', $defs: { short: { maxLength: 3 } } },
+      name: { type: 'string' },
+    },
+    properties: {
+      home: { $ref: 'https://example.com/schemas/address.json' },
+      tags: { type: 'array', items: { $ref: 'tag.json' } },
+      code: { $ref: 'https://example.com/schemas/tag.json#/$defs/short' },
+      name: { $ref: 'https://example.com/schemas/user.json#/$defs/name' },
+    },
+  };
+  assert.deepStrictEqual(pointers({ home: {}, tags: ['a', 1], code: 'abcd', name: 2 }, identified), [
+    '/home/city required',
+    '/tags/1 type',
+    '/code maxLength',
+    '/name type',
+  ]);
+  assert.throws(
+    () => validateJsonSchema(1, { $ref: 'https://example.com/other.json', enum: [{ $id: 'https://example.com/other.json' }] }),
+    /remote \$ref is not supported/
+  );
+}
+
+function testFileRefs(): void {
+  const files: Record<string, unknown> = {
+    [path.resolve('/schemas/user.json')]: {
+      type: 'object',
+      properties: { address: { $ref: 'common/address.json#/$defs/address' } },
+    },
+    [path.resolve('/schemas/common/address.json')]: {
+      $defs: { address: { type: 'object', required: ['city'], properties: { zip: { $ref: '#/$defs/zip' } } }, zip: { pattern: '^\\d{5}$' } },
+    },
+  };
+  const loaded: string[] = [];
+  const loadFile = (filePath: string): unknown => {
+    loaded.push(filePath);
+    if (!(filePath in files)) {
+      throw new Error(`ENOENT: ${filePath}`);
+    }
+    return files[filePath];
+  };
+  const schema = { type: 'array', items: { $ref: 'user.json' } };
+  assert.deepStrictEqual(
+    pointers([{ address: { city: 'Berlin', zip: '10115' } }, { address: { zip: 'abc' } }], schema, {
+      baseDir: '/schemas',
+      loadFile,
+    }),
+    ['/1/address/city required', '/1/address/zip pattern']
+  );
+  assert.deepStrictEqual(loaded, [path.resolve('/schemas/user.json'), path.resolve('/schemas/common/address.json')], 'files are read once');
+
+  // A file read for one $ref makes its $id available to later ones
+  files[path.resolve('/schemas/money.json')] = { $id: 'urn:example:money', type: 'number', minimum: 0 };
+  const prices = {
+    type: 'array',
+    prefixItems: [{ $ref: 'money.json' }],
+    items: { $ref: 'urn:example:money' },
+  };
+  assert.deepStrictEqual(pointers([1, 2, -3], prices, { baseDir: '/schemas', loadFile }), ['/2 minimum']);
+}
+
+function testCombinators(): void {
+  const shape = {
+    oneOf: [
+      { properties: { kind: { const: 'circle' } }, required: ['radius'] },
+      { properties: { kind: { const: 'square' } }, required: ['side'] },
+    ],
+  };
+  assert.deepStrictEqual(pointers({ kind: 'circle', radius: 1 }, shape), []);
+  assert.deepStrictEqual(pointers({ kind: 'circle' }, shape), [' oneOf']);
+  assert.deepStrictEqual(pointers({ kind: 'x', radius: 1, side: 1 }, { ...shape, oneOf: [{}, {}] }), [' oneOf']);
+  assert.deepStrictEqual(pointers(5, { not: { type: 'number' } }), [' not']);
+  const conditional = { if: { properties: { country: { const: 'US' } } }, then: { required: ['state'] }, else: { required: ['region'] } };
+  assert.deepStrictEqual(pointers({ country: 'US' }, conditional), ['/state required']);
+  assert.deepStrictEqual(pointers({ country: 'DE', region: 'BY' }, conditional), []);
+  assert.deepStrictEqual(pointers({ a: 1 }, { dependentRequired: { a: ['b'] } }), ['/b dependentRequired']);
+}
+
+function testArraysAndUnevaluated(): void {
+  const tuple = { prefixItems: [{ type: 'string' }, { type: 'number' }], items: false };
+  assert.deepStrictEqual(pointers(['a', 1], tuple), []);
+  assert.deepStrictEqual(pointers([1, 1, true], tuple), ['/0 type', '/2 false']);
+  // draft-07 tuple form
+  assert.deepStrictEqual(pointers(['a', 'b'], { items: [{ type: 'string' }], additionalItems: { type: 'number' } }), ['/1 type']);
+  assert.deepStrictEqual(pointers([1, 2], { contains: { type: 'string' } }), [' contains']);
+
+  const base = {
+    allOf: [{ properties: { id: { type: 'integer' } } }],
+    properties: { name: { type: 'string' } },
+    unevaluatedProperties: false,
+  };
+  assert.deepStrictEqual(pointers({ id: 1, name: 'a' }, base), []);
+  assert.deepStrictEqual(pointers({ id: 1, name: 'a', role: 'x' }, base), ['/role unevaluatedProperties']);
+}
+
+function testFormatViolations(): void {
+  const lines = formatJsonSchemaViolations(validateJsonSchema({ id: 'x' }, USER_SCHEMA));
+  assert.deepStrictEqual(lines.slice(0, 2), ['/name: is required but missing', '/email: is required but missing']);
+  assert.ok(lines[2].startsWith('/id: must be '), lines[2]);
+}
+
+runTests();
@@ -0,0 +1,593 @@
+/**
+ * JSON Schema validation for the `matchesSchema` assertion operator.
+ * Covers draft-07 and 2020-12 validation keywords, `$ref` to local definitions, anchors,
+ * other schema files (JSON or YAML, resolved relative to the referencing file) and `$id`s
+ * of the schemas read so far.
+ */
+import * as fs from 'fs';
+import * as net from 'net';
+import * as path from 'path';
+import { parseYaml } from './yamlLite';
+
+/** One violation: where in the instance, which keyword, and why. */
+export interface JsonSchemaViolation {
+  /** JSON pointer into the validated value (`''` is the value itself). */
+  instancePath: string;
+  keyword: string;
+  message: string;
+}
+
+export interface JsonSchemaValidateOptions {
+  /** File the schema was read from; relative `$ref` files resolve against its folder. */
+  schemaFile?: string;
+  /** Folder relative `$ref` files resolve against when the schema is inline. */
+  baseDir?: string;
+  /** Reads a referenced schema file (defaults to loadJsonSchemaFile). */
+  loadFile?: (filePath: string) => unknown;
+}
+
+type SchemaObject = Record<string, unknown>;
+
+interface SchemaScope {
+  /** Absolute path of the document, undefined for an inline schema. */
+  file?: string;
+  root: unknown;
+  /** Absolute `$id` of the enclosing schema resource; relative `$ref`s resolve against it. */
+  baseUri?: string;
+}
+
+interface ValidationContext {
+  baseDir?: string;
+  loadFile: (filePath: string) => unknown;
+  files: Map<string, unknown>;
+  /** Schema resources by absolute `$id` (without fragment), from every document read so far. */
+  ids: Map<string, SchemaScope>;
+}
+
+interface Evaluation {
+  violations: JsonSchemaViolation[];
+  /** Properties / items evaluated by this schema (for unevaluated*). */
+  properties: Set<string>;
+  items: Set<number>;
+}
+
+const MAX_REF_DEPTH = 64;
+
+const ABSOLUTE_URI_RE = /^[a-z][a-z0-9+.-]*:/i;
+
+/** Keywords whose values are data, not subschemas; `$id`s inside them are not indexed. */
+const DATA_KEYWORDS = new Set(['const', 'enum', 'default', 'examples']);
+
+const FORMATS: Record<string, (value: string) => boolean> = {
+  'date-time': (v) => /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/.test(v) && !isNaN(Date.parse(v)),
+  date: (v) => /^\d{4}-\d{2}-\d{2}$/.test(v) && !isNaN(Date.parse(`${v}T00:00:00Z`)),
+  time: (v) => /^\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})?$/.test(v),
+  email: (v) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v),
+  uri: (v) => /^[a-zA-Z][a-zA-Z0-9+.-]*:[^\s]*$/.test(v),
+  uuid: (v) => /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/.test(v),
+  ipv4: (v) => net.isIPv4(v),
+  ipv6: (v) => net.isIPv6(v),
+  hostname: (v) => /^(?=.{1,253}$)[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/.test(v),
+  regex: (v) => {
+    try {
+      new RegExp(v, 'u');
+      return true;
+    } catch {
+      return false;
+    }
+  },
+};
+
+/**
+ * Reads a JSON or YAML (`.yaml` / `.yml`) schema file
+ */
+export function loadJsonSchemaFile(filePath: string): unknown {
+  const text = fs.readFileSync(filePath, 'utf8');
+  return /\.ya?ml$/i.test(filePath) ? parseYaml(text) : JSON.parse(text);
+}
+
+/**
+ * Validates a value against a schema
+ * @returns Every violation, in document order; empty when the value is valid
+ */
+export function validateJsonSchema(
+  instance: unknown,
+  schema: unknown,
+  options: JsonSchemaValidateOptions = {}
+): JsonSchemaViolation[] {
+  const schemaFile = options.schemaFile ? path.resolve(options.schemaFile) : undefined;
+  const ctx: ValidationContext = {
+    baseDir: schemaFile ? path.dirname(schemaFile) : options.baseDir && path.resolve(options.baseDir),
+    loadFile: options.loadFile ?? loadJsonSchemaFile,
+    files: new Map(),
+    ids: new Map(),
+  };
+  if (schemaFile) {
+    ctx.files.set(schemaFile, schema);
+  }
+  indexSchemaIds(schema, schemaFile, undefined, ctx.ids);
+  return validateNode(instance, schema, '', { file: schemaFile, root: schema, baseUri: resourceId(schema) }, ctx, 0)
+    .violations;
+}
+
+/**
+ * Formats violations as `pointer: message` lines (`(root)` for the value itself)
+ */
+export function formatJsonSchemaViolations(violations: JsonSchemaViolation[]): string[] {
+  return violations.map((v) => `${v.instancePath || '(root)'}: ${v.message}`);
+}
+
+function isSchemaObject(value: unknown): value is SchemaObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/** Own properties only, so `constructor` or `__proto__` never count as present */
+function hasOwn(value: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(value, key);
+}
+
+function escapePointer(segment: string | number): string {
+  return String(segment).replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+  }
+  const aKeys = Object.keys(a as object);
+  const bRecord = b as Record<string, unknown>;
+  return (
+    aKeys.length === Object.keys(bRecord).length &&
+    aKeys.every((key) => hasOwn(bRecord, key) && deepEqual((a as Record<string, unknown>)[key], bRecord[key]))
+  );
+}
+
+/**
+ * Absolute form of a URI reference without its fragment, undefined when it is relative and
+ * there is no base
+ */
+function resolveUri(reference: string, base: string | undefined): string | undefined {
+  try {
+    const url = new URL(reference, base);
+    url.hash = '';
+    return url.href;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Absolute `$id` a schema declares, resolved against its parent's (not a `#anchor` id)
+ */
+function resourceId(node: unknown, parentUri?: string): string | undefined {
+  return isSchemaObject(node) && typeof node.$id === 'string' && !node.$id.startsWith('#')
+    ? resolveUri(node.$id, parentUri)
+    : undefined;
+}
+
+/**
+ * Records every schema resource of a document that has an absolute `$id`; the first
+ * document read wins when two declare the same one
+ */
+function indexSchemaIds(node: unknown, file: string | undefined, parentUri: string | undefined, ids: Map<string, SchemaScope>): void {
+  if (Array.isArray(node)) {
+    node.forEach((item) => indexSchemaIds(item, file, parentUri, ids));
+    return;
+  }
+  if (!isSchemaObject(node)) {
+    return;
+  }
+  const id = resourceId(node, parentUri);
+  if (id && !ids.has(id)) {
+    ids.set(id, { file, root: node, baseUri: id });
+  }
+  for (const [key, child] of Object.entries(node)) {
+    if (!DATA_KEYWORDS.has(key)) {
+      indexSchemaIds(child, file, id ?? parentUri, ids);
+    }
+  }
+}
+
+function findAnchor(node: unknown, anchor: string): unknown {
+  if (!node || typeof node !== 'object') {
+    return undefined;
+  }
+  if (isSchemaObject(node) && (node.$anchor === anchor || node.$dynamicAnchor === anchor || node.$id === `#${anchor}`)) {
+    return node;
+  }
+  for (const child of Object.values(node)) {
+    const found = findAnchor(child, anchor);
+    if (found !== undefined) {
+      return found;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolves a `$ref` against the current document: `#/pointer`, `#anchor`, the `$id` of a
+ * schema read so far (absolute, or relative to the enclosing `$id`), `file.json`,
+ * `file.json#/pointer`
+ */
+function resolveRef(ref: string, scope: SchemaScope, ctx: ValidationContext): { schema: unknown; scope: SchemaScope } {
+  const hashIndex = ref.indexOf('#');
+  const filePart = hashIndex === -1 ? ref : ref.slice(0, hashIndex);
+  const fragment = hashIndex === -1 ? '' : decodeURIComponent(ref.slice(hashIndex + 1));
+  let target = scope;
+  const absolute = ABSOLUTE_URI_RE.test(filePart);
+  const uri = filePart && (absolute || scope.baseUri) ? resolveUri(filePart, scope.baseUri) : undefined;
+  const indexed = uri === undefined ? undefined : ctx.ids.get(uri);
+  if (indexed) {
+    target = indexed;
+  } else if (filePart) {
+    if (absolute && !/^file:/i.test(filePart)) {
+      throw new Error(`remote $ref is not supported: ${ref} (no schema read so far has this $id)`);
+    }
+    const relative = filePart.replace(/^file:\/\//i, '');
+    const dir = scope.file ? path.dirname(scope.file) : ctx.baseDir;
+    if (!dir && !path.isAbsolute(relative)) {
+      throw new Error(`$ref ${ref} needs a request file or workspace folder to resolve against`);
+    }
+    const file = path.resolve(dir ?? '', relative);
+    if (!ctx.files.has(file)) {
+      const loaded = ctx.loadFile(file);
+      ctx.files.set(file, loaded);
+      indexSchemaIds(loaded, file, undefined, ctx.ids);
+    }
+    const root = ctx.files.get(file);
+    target = { file, root, baseUri: resourceId(root) };
+  }
+  if (!fragment) {
+    return { schema: target.root, scope: target };
+  }
+  if (!fragment.startsWith('/')) {
+    const anchored = findAnchor(target.root, fragment);
+    if (anchored === undefined) {
+      throw new Error(`$ref anchor not found: ${ref}`);
+    }
+    return { schema: anchored, scope: target };
+  }
+  let node: unknown = target.root;
+  for (const segment of fragment.slice(1).split('/')) {
+    const key = segment.replace(/~1/g, '/').replace(/~0/g, '~');
+    if (!node || typeof node !== 'object' || !hasOwn(node, key)) {
+      throw new Error(`$ref target not found: ${ref}`);
+    }
+    node = Array.isArray(node) ? node[Number(key)] : isSchemaObject(node) ? node[key] : undefined;
+  }
+  return { schema: node, scope: target };
+}
+
+function validateNode(
+  instance: unknown,
+  schema: unknown,
+  pointer: string,
+  scope: SchemaScope,
+  ctx: ValidationContext,
+  depth: number
+): Evaluation {
+  const evaluation: Evaluation = { violations: [], properties: new Set(), items: new Set() };
+  const fail = (keyword: string, message: string, at = pointer): void => {
+    evaluation.violations.push({ instancePath: at, keyword, message });
+  };
+  const merge = (child: Evaluation, keepAnnotations = true): void => {
+    evaluation.violations.push(...child.violations);
+    if (keepAnnotations && child.violations.length === 0) {
+      child.properties.forEach((p) => evaluation.properties.add(p));
+      child.items.forEach((i) => evaluation.items.add(i));
+    }
+  };
+  const sub = (value: unknown, subschema: unknown, at = pointer, subScope = scope): Evaluation =>
+    validateNode(value, subschema, at, subScope, ctx, depth);
+
+  if (schema === true || schema === undefined) {
+    return evaluation;
+  }
+  if (schema === false) {
+    fail('false', 'no value is allowed here');
+    return evaluation;
+  }
+  if (!isSchemaObject(schema)) {
+    throw new Error(`invalid schema at ${pointer || '(root)'}`);
+  }
+  const s = schema;
+  const id = resourceId(s, scope.baseUri);
+  if (id) {
+    scope = { ...scope, baseUri: id };
+  }
+
+  for (const refKeyword of ['$ref', '$dynamicRef']) {
+    const ref = s[refKeyword];
+    if (typeof ref === 'string') {
+      if (depth >= MAX_REF_DEPTH) {
+        throw new Error(`$ref nesting deeper than ${MAX_REF_DEPTH} levels (circular reference?)`);
+      }
+      const resolved = resolveRef(ref, scope, ctx);
+      merge(validateNode(instance, resolved.schema, pointer, resolved.scope, ctx, depth + 1));
+      // draft-07 ignores siblings of $ref; applying them is harmless for valid schemas
+    }
+  }
+
+  // Any type
+  if (s.type !== undefined) {
+    const types: unknown[] = Array.isArray(s.type) ? s.type : [s.type];
+    if (!types.some((t) => typeof t === 'string' && matchesType(instance, t))) {
+      fail('type', `must be ${types.join(' or ')} (got ${typeOf(instance)})`);
+    }
+  }
+  if (Array.isArray(s.enum) && !s.enum.some((v) => deepEqual(v, instance))) {
+    fail('enum', `must be one of ${JSON.stringify(s.enum)}`);
+  }
+  if (hasOwn(s, 'const') && !deepEqual(s.const, instance)) {
+    fail('const', `must be ${JSON.stringify(s.const)}`);
+  }
+
+  // Combinators
+  if (Array.isArray(s.allOf)) {
+    s.allOf.forEach((subschema) => merge(sub(instance, subschema)));
+  }
+  if (Array.isArray(s.anyOf)) {
+    const results = s.anyOf.map((subschema): Evaluation => sub(instance, subschema));
+    const passing = results.filter((r) => r.violations.length === 0);
+    if (passing.length === 0) {
+      fail('anyOf', `must match at least one schema in anyOf (${results.map((r) => r.violations[0]?.message).filter(Boolean).join('; ')})`);
+    }
+    passing.forEach((r) => merge(r));
+  }
+  if (Array.isArray(s.oneOf)) {
+    const results = s.oneOf.map((subschema): Evaluation => sub(instance, subschema));
+    const passing = results.filter((r) => r.violations.length === 0);
+    if (passing.length !== 1) {
+      fail('oneOf', `must match exactly one schema in oneOf (matched ${passing.length})`);
+    } else {
+      merge(passing[0]);
+    }
+  }
+  if (s.not !== undefined && sub(instance, s.not).violations.length === 0) {
+    fail('not', 'must not match the schema in "not"');
+  }
+  if (s.if !== undefined) {
+    const condition = sub(instance, s.if);
+    if (condition.violations.length === 0) {
+      merge(condition);
+      if (s.then !== undefined) {
+        merge(sub(instance, s.then));
+      }
+    } else if (s.else !== undefined) {
+      merge(sub(instance, s.else));
+    }
+  }
+
+  if (typeof instance === 'number') {
+    if (typeof s.multipleOf === 'number' && Math.abs(instance / s.multipleOf - Math.round(instance / s.multipleOf)) > 1e-9) {
+      fail('multipleOf', `must be a multiple of ${s.multipleOf}`);
+    }
+    if (typeof s.maximum === 'number' && (s.exclusiveMaximum === true ? instance >= s.maximum : instance > s.maximum)) {
+      fail('maximum', `must be ${s.exclusiveMaximum === true ? '<' : '<='} ${s.maximum}`);
+    }
+    if (typeof s.exclusiveMaximum === 'number' && instance >= s.exclusiveMaximum) {
+      fail('exclusiveMaximum', `must be < ${s.exclusiveMaximum}`);
+    }
+    if (typeof s.minimum === 'number' && (s.exclusiveMinimum === true ? instance <= s.minimum : instance < s.minimum)) {
+      fail('minimum', `must be ${s.exclusiveMinimum === true ? '>' : '>='} ${s.minimum}`);
+    }
+    if (typeof s.exclusiveMinimum === 'number' && instance <= s.exclusiveMinimum) {
+      fail('exclusiveMinimum', `must be > ${s.exclusiveMinimum}`);
+    }
+  }
+
+  if (typeof instance === 'string') {
+    const length = [...instance].length;
+    if (typeof s.maxLength === 'number' && length > s.maxLength) {
+      fail('maxLength', `must have at most ${s.maxLength} characters`);
+    }
+    if (typeof s.minLength === 'number' && length < s.minLength) {
+      fail('minLength', `must have at least ${s.minLength} characters`);
+    }
+    if (typeof s.pattern === 'string' && !new RegExp(s.pattern, 'u').test(instance)) {
+      fail('pattern', `must match pattern ${s.pattern}`);
+    }
+    if (typeof s.format === 'string' && hasOwn(FORMATS, s.format) && !FORMATS[s.format](instance)) {
+      fail('format', `must be a valid ${s.format}`);
+    }
+  }
+
+  if (Array.isArray(instance)) {
+    validateArray(instance, s, pointer, evaluation, sub, fail);
+  }
+  if (instance && typeof instance === 'object' && !Array.isArray(instance)) {
+    validateObject(instance as SchemaObject, s, pointer, evaluation, sub, fail);
+  }
+  return evaluation;
+}
+
+type SubValidate = (value: unknown, subschema: unknown, at?: string) => Evaluation;
+type Fail = (keyword: string, message: string, at?: string) => void;
+
+function validateArray(
+  instance: unknown[],
+  s: SchemaObject,
+  pointer: string,
+  evaluation: Evaluation,
+  sub: SubValidate,
+  fail: Fail
+): void {
+  const itemPointer = (i: number): string => `${pointer}/${i}`;
+  const check = (i: number, subschema: unknown): void => {
+    const result = sub(instance[i], subschema, itemPointer(i));
+    evaluation.violations.push(...result.violations);
+    evaluation.items.add(i);
+  };
+  // 2020-12: prefixItems + items; draft-07: items as array + additionalItems
+  const prefix: unknown[] | undefined = Array.isArray(s.prefixItems) ? s.prefixItems : Array.isArray(s.items) ? s.items : undefined;
+  const rest = Array.isArray(s.items) ? s.additionalItems : s.items;
+  prefix?.forEach((subschema, i) => i < instance.length && check(i, subschema));
+  if (rest !== undefined) {
+    for (let i = prefix?.length ?? 0; i < instance.length; i++) {
+      check(i, rest);
+    }
+  }
+
+  if (s.contains !== undefined) {
+    const matching = instance
+      .map((item, i) => (sub(item, s.contains, itemPointer(i)).violations.length === 0 ? i : -1))
+      .filter((i) => i >= 0);
+    matching.forEach((i) => evaluation.items.add(i));
+    const min = typeof s.minContains === 'number' ? s.minContains : 1;
+    if (matching.length < min) {
+      fail('contains', `must contain at least ${min} matching item(s) (found ${matching.length})`);
+    }
+    if (typeof s.maxContains === 'number' && matching.length > s.maxContains) {
+      fail('maxContains', `must contain at most ${s.maxContains} matching item(s) (found ${matching.length})`);
+    }
+  }
+  if (typeof s.maxItems === 'number' && instance.length > s.maxItems) {
+    fail('maxItems', `must have at most ${s.maxItems} items`);
+  }
+  if (typeof s.minItems === 'number' && instance.length < s.minItems) {
+    fail('minItems', `must have at least ${s.minItems} items`);
+  }
+  if (s.uniqueItems === true) {
+    for (let i = 1; i < instance.length; i++) {
+      const duplicate = instance.slice(0, i).findIndex((item) => deepEqual(item, instance[i]));
+      if (duplicate !== -1) {
+        fail('uniqueItems', `must not repeat item ${duplicate}`, itemPointer(i));
+      }
+    }
+  }
+  if (s.unevaluatedItems !== undefined) {
+    for (let i = 0; i < instance.length; i++) {
+      if (!evaluation.items.has(i)) {
+        check(i, s.unevaluatedItems);
+      }
+    }
+  }
+}
+
+function validateObject(
+  instance: SchemaObject,
+  s: SchemaObject,
+  pointer: string,
+  evaluation: Evaluation,
+  sub: SubValidate,
+  fail: Fail
+): void {
+  const keys = Object.keys(instance);
+  const propPointer = (key: string): string => `${pointer}/${escapePointer(key)}`;
+  const check = (key: string, subschema: unknown): void => {
+    evaluation.violations.push(...sub(instance[key], subschema, propPointer(key)).violations);
+    evaluation.properties.add(key);
+  };
+
+  if (Array.isArray(s.required)) {
+    for (const key of s.required) {
+      if (typeof key === 'string' && !hasOwn(instance, key)) {
+        fail('required', 'is required but missing', propPointer(key));
+      }
+    }
+  }
+  if (typeof s.maxProperties === 'number' && keys.length > s.maxProperties) {
+    fail('maxProperties', `must have at most ${s.maxProperties} properties`);
+  }
+  if (typeof s.minProperties === 'number' && keys.length < s.minProperties) {
+    fail('minProperties', `must have at least ${s.minProperties} properties`);
+  }
+
+  const matched = new Set<string>();
+  if (isSchemaObject(s.properties)) {
+    for (const [key, subschema] of Object.entries(s.properties)) {
+      if (hasOwn(instance, key)) {
+        check(key, subschema);
+        matched.add(key);
+      }
+    }
+  }
+  if (isSchemaObject(s.patternProperties)) {
+    for (const [pattern, subschema] of Object.entries(s.patternProperties)) {
+      const re = new RegExp(pattern, 'u');
+      keys.filter((key) => re.test(key)).forEach((key) => {
+        check(key, subschema);
+        matched.add(key);
+      });
+    }
+  }
+  if (s.additionalProperties !== undefined) {
+    for (const key of keys.filter((k) => !matched.has(k))) {
+      if (s.additionalProperties === false) {
+        fail('additionalProperties', 'is not allowed (additional property)', propPointer(key));
+        evaluation.properties.add(key);
+      } else {
+        check(key, s.additionalProperties);
+      }
+    }
+  }
+  if (s.propertyNames !== undefined) {
+    for (const key of keys) {
+      if (sub(key, s.propertyNames, propPointer(key)).violations.length > 0) {
+        fail('propertyNames', `property name "${key}" is invalid`, propPointer(key));
+      }
+    }
+  }
+
+  // dependentRequired / dependentSchemas (2020-12) and dependencies (draft-07)
+  const dependentRequired: SchemaObject = isSchemaObject(s.dependentRequired) ? { ...s.dependentRequired } : {};
+  const dependentSchemas: SchemaObject = isSchemaObject(s.dependentSchemas) ? { ...s.dependentSchemas } : {};
+  for (const [key, value] of Object.entries(isSchemaObject(s.dependencies) ? s.dependencies : {})) {
+    (Array.isArray(value) ? dependentRequired : dependentSchemas)[key] = value;
+  }
+  for (const [key, required] of Object.entries(dependentRequired)) {
+    if (hasOwn(instance, key) && Array.isArray(required)) {
+      for (const name of required) {
+        if (typeof name === 'string' && !hasOwn(instance, name)) {
+          fail('dependentRequired', `is required when "${key}" is present`, propPointer(name));
+        }
+      }
+    }
+  }
+  for (const [key, subschema] of Object.entries(dependentSchemas)) {
+    if (hasOwn(instance, key)) {
+      const result = sub(instance, subschema);
+      evaluation.violations.push(...result.violations);
+      if (result.violations.length === 0) {
+        result.properties.forEach((p) => evaluation.properties.add(p));
+      }
+    }
+  }
+
+  if (s.unevaluatedProperties !== undefined) {
+    for (const key of keys.filter((k) => !evaluation.properties.has(k))) {
+      if (s.unevaluatedProperties === false) {
+        fail('unevaluatedProperties', 'is not allowed (unevaluated property)', propPointer(key));
+      } else {
+        check(key, s.unevaluatedProperties);
+      }
+    }
+  }
+}
@@ -1,11 +1,13 @@
 import * as assert from 'assert';
-import { extractAssertions } from './assertionParser';
+import { extractAssertions, formatAssertionOperator } from './assertionParser';
 
 function runTests(): void {
   testTwoParamNoValueOperators();
   testThreeParamWithDescriptionNoValue();
   testThreeParamWithValue();
   testFourParamWithDescription();
+  testSchemaExpectedValues();
+  testQuantifiers();
   console.log('All assertionParser tests passed.');
 }
 
@@ -57,4 +59,36 @@ function testFourParamWithDescription(): void {
   assert.strictEqual(assertions[0].expected, 200);
 }
 
+function testSchemaExpectedValues(): void {
+  const content = `/*
+ * @assert("res.body", "matchesSchema", "./schemas/user.json")
+ * @assert("res.body.items[0]", "matchesSchema", {"type": "object", "required": ["id"]})
+ */`;
+  const assertions = extractAssertions(content);
+  assert.strictEqual(assertions.length, 2);
+  assert.strictEqual(assertions[0].operator, 'matchesSchema');
+  assert.strictEqual(assertions[0].expected, './schemas/user.json');
+  assert.deepStrictEqual(assertions[1].expected, { type: 'object', required: ['id'] });
+}
+
+function testQuantifiers(): void {
+  const content = `/*
+ * @assert("$.items[*].status", "all equals", "active")
+ * @assert("ids", "$..id", "ANY isNumber")
+ * @assert("xpath://Order/@id", "any", 1)
+ */`;
+  const assertions = extractAssertions(content);
+  assert.strictEqual(assertions.length, 3);
+  assert.strictEqual(assertions[0].expression, '$.items[*].status');
+  assert.strictEqual(assertions[0].quantifier, 'all');
+  assert.strictEqual(assertions[0].operator, 'equals');
+  assert.strictEqual(formatAssertionOperator(assertions[0]), 'all equals');
+  assert.strictEqual(assertions[1].description, 'ids');
+  assert.strictEqual(assertions[1].quantifier, 'any');
+  assert.strictEqual(assertions[1].operator, 'isNumber');
+  assert.strictEqual(assertions[1].expected, null);
+  assert.strictEqual(assertions[2].quantifier, undefined, 'a quantifier needs an operator');
+  assert.ok(!('quantifier' in extractAssertions('/*\n * @assert("res.status", "equals", 200)\n */')[0]));
+}
+
 runTests();
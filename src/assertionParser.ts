@@ -1,4 +1,4 @@
-import { Assertion, AssertionOperator } from './assertionTypes';
+import { Assertion, AssertionOperator, AssertionQuantifier } from './assertionTypes';
 import { ASSERT_OPERATORS_NO_VALUE } from './httpRequestEditorAssertMeta';
 
 const KNOWN_OPERATORS = new Set<string>([
@@ -31,10 +31,30 @@ const KNOWN_OPERATORS = new Set<string>([
   'notIn',
   'between',
   'length',
+  'matchesSchema',
 ]);
 
+const QUANTIFIER_RE = /^(all|any)\s+(\S+)$/i;
+
 function normalizeOperatorToken(value: string): string {
-  return value.trim().replace(/^["']|["']$/g, '');
+  const token = value.trim().replace(/^["']|["']$/g, '');
+  return token.match(QUANTIFIER_RE)?.[2] ?? token;
+}
+
+/**
+ * Operator and optional `all` / `any` quantifier of an operator token ("all equals")
+ */
+function parseOperator(value: string): Pick<Assertion, 'operator' | 'quantifier'> {
+  const quantifier = value.trim().replace(/^["']|["']$/g, '').match(QUANTIFIER_RE)?.[1];
+  const operator = canonicalizeOperator(value);
+  return quantifier ? { operator, quantifier: quantifier.toLowerCase() as AssertionQuantifier } : { operator };
+}
+
+/**
+ * Operator as written in `@assert`, including its quantifier ("all equals")
+ */
+export function formatAssertionOperator(assertion: Pick<Assertion, 'operator' | 'quantifier'>): string {
+  return assertion.quantifier ? `${assertion.quantifier} ${assertion.operator}` : assertion.operator;
 }
 
 function canonicalizeOperator(value: string): AssertionOperator {
@@ -150,14 +170,13 @@ function parseAssertionLine(line: string): Assertion | null {
   if (match4) {
     const description = match4[1].trim();
     const expression = match4[2].trim();
-    const operator = canonicalizeOperator(match4[3]);
     const expectedRaw = match4[4].trim();
     const expected = parseExpectedValue(expectedRaw);
     
     return {
       description,
       expression,
-      operator,
+      ...parseOperator(match4[3]),
       expected,
     };
   }
@@ -176,7 +195,7 @@ function parseAssertionLine(line: string): Assertion | null {
       return {
         description,
         expression,
-        operator: canonicalizeOperator(operatorRaw),
+        ...parseOperator(operatorRaw),
         expected: null,
       };
     }
@@ -196,7 +215,7 @@ function parseAssertionLine(line: string): Assertion | null {
       return {
         description: first,
         expression: second,
-        operator: canonicalizeOperator(expectedRaw),
+        ...parseOperator(expectedRaw),
         expected: null,
       };
     }
@@ -205,7 +224,7 @@ function parseAssertionLine(line: string): Assertion | null {
 
     return {
       expression: first,
-      operator: canonicalizeOperator(second),
+      ...parseOperator(second),
       expected,
     };
   }
@@ -216,11 +235,10 @@ function parseAssertionLine(line: string): Assertion | null {
   
   if (matchNoValue) {
     const expression = matchNoValue[1].trim();
-    const operator = canonicalizeOperator(matchNoValue[2]);
 
     return {
       expression,
-      operator,
+      ...parseOperator(matchNoValue[2]),
       expected: null,
     };
   }
@@ -230,11 +248,12 @@ function parseAssertionLine(line: string): Assertion | null {
 
 /**
  * Parses the expected value from assertion
- * Supports: numbers (200), booleans (true/false), strings ("text"), null, regex (/pattern/), arrays ([1,2,3])
+ * Supports: numbers (200), booleans (true/false), strings ("text"), null, regex (/pattern/), arrays ([1,2,3]),
+ * objects ({"type": "object"}, inline JSON Schemas)
  * @param value Raw value string
  * @returns Parsed value
  */
-function parseExpectedValue(value: string): string | number | boolean | null | RegExp | any[] {
+function parseExpectedValue(value: string): Assertion['expected'] {
   const trimmed = value.trim();
   
   // null
@@ -263,6 +282,18 @@ function parseExpectedValue(value: string): string | number | boolean | null | R
     }
   }
   
+  // object: {"type": "object", ...}
+  if (trimmed.startsWith('{') && trimmed.endsWith('}')) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        return parsed;
+      }
+    } catch {
+      // Invalid object format, continue to fallback
+    }
+  }
+  
   // number (integer or float)
   if (/^-?\d+(\.\d+)?$/.test(trimmed)) {
     return parseFloat(trimmed);
@@ -2,6 +2,8 @@
  * Types and interfaces for HTTP request assertions
  */
 
+import type { HttpRedirectHop, HttpStreamMessage, HttpTimings } from './httpResponseTypes';
+
 /**
  * Supported assertion operators
  */
@@ -39,16 +41,24 @@ export type AssertionOperator =
   | 'in'
   | 'notIn'
   | 'between'
-  | 'length';
+  | 'length'
+  // JSON Schema (inline object or schema file path)
+  | 'matchesSchema';
+
+/**
+ * `all` / `any` operator prefix: applies the operator to each item of an array result
+ */
+export type AssertionQuantifier = 'all' | 'any';
 
 /**
  * Assertion definition extracted from @assert() annotation
  */
 export interface Assertion {
   description?: string;  // Optional description of what is being tested
-  expression: string;  // e.g., "res.status", "res.body.userId"
+  expression: string;  // e.g., "res.status", "res.body.userId", "$..items[*].id", "jmespath:items[0]", "xpath://id"
   operator: AssertionOperator;
-  expected: string | number | boolean | null | RegExp | any[];
+  quantifier?: AssertionQuantifier;  // "all equals" / "any gt": every / some array item must pass
+  expected: string | number | boolean | null | RegExp | any[] | Record<string, any>;
   line?: number;  // Original line number in the file
   raw?: string;   // Raw assertion text for debugging
 }
@@ -61,6 +71,8 @@ export interface AssertionResult {
   passed: boolean;
   actualValue?: any;
   error?: string;
+  /** Individual failures, e.g. `pointer: message` per JSON Schema violation */
+  details?: string[];
 }
 
 /**
@@ -70,4 +82,8 @@ export interface ResponseData {
   status: number;
   headers: Record<string, string>;
   body: any;  // Parsed JSON or raw string
+  timings?: HttpTimings;  // Phase timings in ms (built-in engine only)
+  redirects?: HttpRedirectHop[];  // Followed redirects, oldest first
+  messages?: HttpStreamMessage[];  // WS / SSE stream log, in arrival order
+  events?: Record<string, HttpStreamMessage>;  // First received message per event name
 }
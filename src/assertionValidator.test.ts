@@ -1,5 +1,8 @@
 import * as assert from 'assert';
-import { validateAssertions } from './assertionValidator';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { formatAssertionResults, validateAssertions } from './assertionValidator';
 import type { Assertion } from './assertionTypes';
 import type { HttpRequestResult } from './httpRequestExecutor';
 
@@ -8,6 +11,10 @@ function runTests(): void {
   testIsJsonOnBody();
   testNestedPath();
   testOperatorCaseInsensitive();
+  testGraphqlDataAndErrors();
+  testMatchesSchema();
+  testBodyQueries();
+  testQuantifiers();
   console.log('All assertionValidator tests passed.');
 }
 
@@ -76,4 +83,125 @@ function testOperatorCaseInsensitive(): void {
   assert.strictEqual(results[0].passed, true);
 }
 
+function testGraphqlDataAndErrors(): void {
+  const assertions: Assertion[] = [
+    { expression: 'res.body.data.user.name', operator: 'equals', expected: 'Ada' },
+    { expression: 'res.body.errors', operator: 'isUndefined', expected: null },
+    { expression: 'res.body.errors[0].message', operator: 'contains', expected: 'denied' },
+  ];
+  const ok = validateAssertions(assertions.slice(0, 2), mockResponse(JSON.stringify({ data: { user: { name: 'Ada' } } })));
+  assert.deepStrictEqual(ok.map((r) => r.passed), [true, true]);
+
+  const failed = validateAssertions(
+    assertions.slice(1),
+    mockResponse(JSON.stringify({ data: null, errors: [{ message: 'Access denied' }] }))
+  );
+  assert.deepStrictEqual(failed.map((r) => r.passed), [false, true]);
+}
+
+const ORDERS = JSON.stringify({
+  items: [
+    { id: 1, price: 5, status: 'active' },
+    { id: 2, price: 15, status: 'active' },
+    { id: 3, price: 25, status: 'gone' },
+  ],
+});
+
+function testBodyQueries(): void {
+  const assertions: Assertion[] = [
+    { expression: '$..items[?(@.price > 10)].id', operator: 'equals', expected: [2, 3] },
+    { expression: '$.items[?(@.id == 2)].status', operator: 'contains', expected: 'active' },
+    { expression: '$.items[*]', operator: 'length', expected: 3 },
+    { expression: 'jmespath:items[?price < `10`] | [0].id', operator: 'equals', expected: 1 },
+    { expression: 'jmes:length(items)', operator: 'gte', expected: 3 },
+    { expression: '$.items[0]', operator: 'equals', expected: { id: 1, price: 5, status: 'active' } },
+  ];
+  const results = validateAssertions(assertions, mockResponse(ORDERS));
+  assert.deepStrictEqual(results.map((r) => r.passed), [true, true, true, true, true, true]);
+
+  const soap = '<Envelope><Body><Order id="7"><Total>12.5</Total></Order></Body></Envelope>';
+  const xml = validateAssertions(
+    [
+      { expression: 'xpath://Order/@id', operator: 'equals', expected: '7' },
+      { expression: 'xpath:number(//Total)', operator: 'gt', expected: 10 },
+      { expression: '//Missing', operator: 'isUndefined', expected: null },
+    ],
+    { ...mockResponse(soap), headers: { 'content-type': 'text/xml' } }
+  );
+  assert.deepStrictEqual(xml.map((r) => r.passed), [true, true, true]);
+
+  const [broken] = validateAssertions([{ expression: '$.items[', operator: 'isDefined', expected: null }], mockResponse(ORDERS));
+  assert.strictEqual(broken.passed, false);
+  assert.ok(broken.error?.includes('JSONPath'));
+  const [xpathOnJson] = validateAssertions([{ expression: '//id', operator: 'isDefined', expected: null }], mockResponse(ORDERS));
+  assert.strictEqual(xpathOnJson.error, 'XPath expressions need an XML response body');
+}
+
+function testQuantifiers(): void {
+  const assertions: Assertion[] = [
+    { expression: '$.items[*].status', operator: 'equals', quantifier: 'all', expected: 'active' },
+    { expression: '$.items[*].status', operator: 'equals', quantifier: 'any', expected: 'gone' },
+    { expression: '$.items[*].price', operator: 'between', quantifier: 'all', expected: [1, 30] },
+    { expression: '$.items[?(@.id > 9)].id', operator: 'isNumber', quantifier: 'all', expected: null },
+    { expression: '$.items[*]', operator: 'matchesSchema', quantifier: 'all', expected: { required: ['id', 'status'] } },
+  ];
+  const results = validateAssertions(assertions, mockResponse(ORDERS));
+  assert.deepStrictEqual(results.map((r) => r.passed), [false, true, true, false, true]);
+  assert.strictEqual(results[0].actualValue, '2/3 items passed');
+  assert.deepStrictEqual(results[0].details, ['[2]: "gone"']);
+  assert.strictEqual(results[3].actualValue, 'no items', '`all` fails when nothing matched');
+
+  const text = formatAssertionResults(results);
+  assert.ok(text.includes('✗ $.items[*].status all equals "active" (actual: "2/3 items passed")\n    [2]: "gone"\n'), text);
+}
+
+function testMatchesSchema(): void {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'assert-schema-'));
+  try {
+    fs.mkdirSync(path.join(dir, 'schemas'));
+    fs.writeFileSync(
+      path.join(dir, 'schemas', 'user.json'),
+      JSON.stringify({ type: 'object', required: ['id'], properties: { id: { type: 'integer' }, role: { $ref: 'role.json' } } })
+    );
+    fs.writeFileSync(path.join(dir, 'schemas', 'role.json'), JSON.stringify({ enum: ['admin', 'user'] }));
+    const assertions: Assertion[] = [
+      { expression: 'res.body', operator: 'matchesSchema', expected: 'schemas/user.json' },
+      { expression: 'res.body.tags', operator: 'matchesSchema', expected: { type: 'array', items: { type: 'string' } } },
+    ];
+    const ok = validateAssertions(assertions, mockResponse(JSON.stringify({ id: 1, role: 'admin', tags: ['a'] })), { baseDir: dir });
+    assert.deepStrictEqual(ok.map((r) => [r.passed, r.actualValue]), [[true, 'valid'], [true, 'valid']]);
+
+    const failed = validateAssertions(assertions, mockResponse(JSON.stringify({ id: 'x', role: 'root', tags: [1, 'b', 2] })), { baseDir: dir });
+    assert.deepStrictEqual(failed.map((r) => r.passed), [false, false]);
+    assert.strictEqual(failed[0].actualValue, '2 schema violations');
+    assert.deepStrictEqual(failed[1].details, ['/0: must be string (got integer)', '/2: must be string (got integer)']);
+
+    const text = formatAssertionResults(failed);
+    assert.ok(text.includes('✗ res.body matchesSchema "schemas/user.json" (actual: "2 schema violations")\n    /id: '), text);
+    assert.ok(text.includes('✗ res.body.tags matchesSchema (inline schema)'), text);
+    assert.ok(text.includes('    /2: must be string (got integer)\n'), text);
+
+    const missing = validateAssertions([{ expression: 'res.body', operator: 'matchesSchema', expected: 'nope.json' }], mockResponse('{}'), { baseDir: dir });
+    assert.strictEqual(missing[0].passed, false);
+    assert.ok(missing[0].error?.includes('nope.json'));
+
+    // Unsaved request: relative paths use the workspace root, never the process folder
+    const fromRoot = validateAssertions(assertions.slice(0, 1), mockResponse('{"id":1}'), { workspaceRoot: dir });
+    assert.strictEqual(fromRoot[0].passed, true);
+    const unresolved = validateAssertions(assertions.slice(0, 1), mockResponse('{"id":1}'));
+    assert.strictEqual(unresolved[0].passed, false);
+    assert.strictEqual(
+      unresolved[0].error,
+      'matchesSchema cannot resolve "schemas/user.json": save the request file or open a workspace folder'
+    );
+    const absolute = validateAssertions(
+      [{ expression: 'res.body', operator: 'matchesSchema', expected: path.join(dir, 'schemas', 'user.json') }],
+      mockResponse('{"id":1}')
+    );
+    assert.strictEqual(absolute[0].passed, true);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
 runTests();
@@ -1,14 +1,30 @@
+import * as path from 'path';
 import { Assertion, AssertionResult, ResponseData, AssertionOperator } from './assertionTypes';
 import { HttpRequestResult } from './httpRequestExecutor';
+import { indexStreamEvents } from './httpStream';
+import { formatJsonSchemaViolations, loadJsonSchemaFile, validateJsonSchema } from './assertionJsonSchema';
+import { formatAssertionOperator } from './assertionParser';
+import { evaluateBodyQuery, parseBodyQuery } from './httpBodyQuery';
+import { jsonValuesEqual } from './httpJsonPath';
 
 const KNOWN_OPERATORS: AssertionOperator[] = [
   'equals', 'notEquals', 'gt', 'gte', 'lt', 'lte',
   'contains', 'notContains', 'startsWith', 'endsWith', 'matches', 'notMatches',
   'isNull', 'isNotNull', 'isEmpty', 'isNotEmpty', 'isDefined', 'isUndefined',
   'isTruthy', 'isFalsy', 'isNumber', 'isString', 'isBoolean', 'isArray', 'isJson',
-  'in', 'notIn', 'between', 'length',
+  'in', 'notIn', 'between', 'length', 'matchesSchema',
 ];
 
+/**
+ * Options for validateAssertions
+ */
+export interface ValidateAssertionsOptions {
+  /** Folder of the request file; `matchesSchema` file paths resolve against it */
+  baseDir?: string;
+  /** Workspace root; `matchesSchema` file paths resolve against it when there is no request file */
+  workspaceRoot?: string;
+}
+
 function canonicalizeOperator(value: string): AssertionOperator {
   const token = String(value).trim().toLowerCase();
   for (const op of KNOWN_OPERATORS) {
@@ -23,11 +39,13 @@ function canonicalizeOperator(value: string): AssertionOperator {
  * Validates assertions against HTTP response
  * @param assertions Array of assertions to validate
  * @param response HTTP response result
+ * @param options Request file context
  * @returns Array of assertion results
  */
 export function validateAssertions(
   assertions: Assertion[],
-  response: HttpRequestResult
+  response: HttpRequestResult,
+  options: ValidateAssertionsOptions = {}
 ): AssertionResult[] {
   const results: AssertionResult[] = [];
   
@@ -36,11 +54,17 @@ export function validateAssertions(
     status: response.statusCode,
     headers: response.headers,
     body: parseResponseBody(response.body),
+    timings: response.timings,
+    redirects: response.redirects,
   };
+  if (response.messages) {
+    responseData.messages = response.messages;
+    responseData.events = indexStreamEvents(response.messages);
+  }
   
   for (const assertion of assertions) {
     try {
-      const result = evaluateAssertion(assertion, responseData);
+      const result = evaluateAssertion(assertion, responseData, options);
       results.push(result);
     } catch (error) {
       results.push({
@@ -75,17 +99,25 @@ function parseResponseBody(body: string): any {
  * Evaluates a single assertion
  * @param assertion The assertion to evaluate
  * @param responseData Response data
+ * @param options Request file context
  * @returns Assertion result
  */
 function evaluateAssertion(
   assertion: Assertion,
-  responseData: ResponseData
+  responseData: ResponseData,
+  options: ValidateAssertionsOptions
 ): AssertionResult {
   // Resolve the expression to get actual value
   const actualValue = resolveExpression(assertion.expression, responseData);
   
   // Evaluate based on operator (case-insensitive)
   const normalizedOperator = canonicalizeOperator(assertion.operator);
+  if (assertion.quantifier) {
+    return evaluateQuantifiedAssertion(assertion, normalizedOperator, actualValue, options);
+  }
+  if (normalizedOperator === 'matchesSchema') {
+    return evaluateSchemaAssertion(assertion, actualValue, options);
+  }
   const passed = evaluateOperator(
     normalizedOperator,
     actualValue,
@@ -100,12 +132,95 @@ function evaluateAssertion(
 }
 
 /**
- * Resolves an expression like "res.status" or "res.body.userId" to its actual value
+ * Applies the operator to every item of an array value (a single value counts as one item);
+ * `all` fails when there are no items
+ * @param assertion The quantified assertion
+ * @param operator Canonical operator
+ * @param actualValue Resolved value of the expression
+ * @param options Request file context
+ * @returns Assertion result listing the failing items of an `all` assertion
+ */
+function evaluateQuantifiedAssertion(
+  assertion: Assertion,
+  operator: AssertionOperator,
+  actualValue: any,
+  options: ValidateAssertionsOptions
+): AssertionResult {
+  const items: any[] = Array.isArray(actualValue) ? actualValue : actualValue === undefined ? [] : [actualValue];
+  const failures: string[] = [];
+  let passedCount = 0;
+  items.forEach((item, index) => {
+    const passed = operator === 'matchesSchema'
+      ? evaluateSchemaAssertion(assertion, item, options).passed
+      : evaluateOperator(operator, item, assertion.expected);
+    if (passed) {
+      passedCount++;
+    } else {
+      failures.push(`[${index}]: ${formatValue(item)}`);
+    }
+  });
+  const passed = assertion.quantifier === 'all'
+    ? items.length > 0 && failures.length === 0
+    : passedCount > 0;
+  return {
+    assertion,
+    passed,
+    actualValue: items.length === 0 ? 'no items' : `${passedCount}/${items.length} items passed`,
+    details: !passed && assertion.quantifier === 'all' && failures.length > 0 ? failures : undefined,
+  };
+}
+
+/**
+ * Validates a value against the assertion's JSON Schema (inline object or file path)
+ * @param assertion The `matchesSchema` assertion
+ * @param actualValue Resolved value of the expression
+ * @param options Request file context
+ * @returns Assertion result with one detail line per violation
+ */
+function evaluateSchemaAssertion(
+  assertion: Assertion,
+  actualValue: any,
+  options: ValidateAssertionsOptions
+): AssertionResult {
+  const baseDir = options.baseDir ?? options.workspaceRoot;
+  let schema: unknown = assertion.expected;
+  let schemaFile: string | undefined;
+  if (typeof assertion.expected === 'string') {
+    if (!baseDir && !path.isAbsolute(assertion.expected)) {
+      throw new Error(
+        `matchesSchema cannot resolve "${assertion.expected}": save the request file or open a workspace folder`
+      );
+    }
+    schemaFile = path.resolve(baseDir ?? '', assertion.expected);
+    schema = loadJsonSchemaFile(schemaFile);
+  } else if (typeof assertion.expected === 'boolean') {
+    schema = assertion.expected;
+  } else if (!assertion.expected || typeof assertion.expected !== 'object' || Array.isArray(assertion.expected) || assertion.expected instanceof RegExp) {
+    throw new Error('matchesSchema expects an inline schema object or a schema file path');
+  }
+  const violations = validateJsonSchema(actualValue, schema, { schemaFile, baseDir });
+  return {
+    assertion,
+    passed: violations.length === 0,
+    actualValue: violations.length === 0 ? 'valid' : `${violations.length} schema violation${violations.length === 1 ? '' : 's'}`,
+    details: violations.length === 0 ? undefined : formatJsonSchemaViolations(violations),
+  };
+}
+
+/**
+ * Resolves an expression like "res.status", "res.body.userId" or a body query
+ * ("$..items[*].id", "jmespath:items[0].id", "xpath://id") to its actual value
  * @param expression Expression to resolve
  * @param responseData Response data
  * @returns Resolved value
  */
 function resolveExpression(expression: string, responseData: ResponseData): any {
+  // JSONPath / JMESPath / XPath over the body
+  const query = parseBodyQuery(expression);
+  if (query) {
+    return evaluateBodyQuery(responseData.body, query);
+  }
+
   // Split expression by dots, but handle bracket notation too
   // e.g., "res.body.users[0].name" -> ["res", "body", "users[0]", "name"]
   const parts = expression.split('.');
@@ -151,10 +266,10 @@ function evaluateOperator(
   switch (operator) {
     // Comparison
     case 'equals':
-      return actual === expected;
+      return jsonValuesEqual(actual, expected);
     
     case 'notEquals':
-      return actual !== expected;
+      return !jsonValuesEqual(actual, expected);
     
     case 'gt':
       return typeof actual === 'number' && typeof expected === 'number' && actual > expected;
@@ -170,9 +285,15 @@ function evaluateOperator(
     
     // String operations
     case 'contains':
+      if (Array.isArray(actual)) {
+        return actual.some((item) => jsonValuesEqual(item, expected));
+      }
       return typeof actual === 'string' && typeof expected === 'string' && actual.includes(expected);
     
     case 'notContains':
+      if (Array.isArray(actual)) {
+        return !actual.some((item) => jsonValuesEqual(item, expected));
+      }
       return typeof actual === 'string' && typeof expected === 'string' && !actual.includes(expected);
     
     case 'startsWith':
@@ -296,10 +417,12 @@ export function formatAssertionResults(results: AssertionResult[]): string {
     const symbol = result.passed ? '✓' : '✗';
     const { expression, operator, expected } = result.assertion;
     
-    let line = `${symbol} ${expression} ${operator}`;
+    let line = `${symbol} ${expression} ${formatAssertionOperator(result.assertion)}`;
     
     // Add expected value if operator needs it
-    if (!['isDefined', 'isUndefined', 'isNull', 'isNotNull', 'isEmpty', 'isNotEmpty', 
+    if (operator === 'matchesSchema' && typeof expected !== 'string') {
+      line += ' (inline schema)';
+    } else if (!['isDefined', 'isUndefined', 'isNull', 'isNotNull', 'isEmpty', 'isNotEmpty', 
           'isTruthy', 'isFalsy', 'isNumber', 'isString', 'isBoolean', 'isArray', 'isJson'].includes(operator)) {
       line += ` ${formatValue(expected)}`;
     }
@@ -314,6 +437,13 @@ export function formatAssertionResults(results: AssertionResult[]): string {
     }
     
     output += line + '\n';
+    
+    // One line per violation (e.g. JSON Schema pointers)
+    if (!result.passed && result.details) {
+      for (const detail of result.details) {
+        output += `    ${detail}\n`;
+      }
+    }
   }
   
   const passed = results.filter(r => r.passed).length;
@@ -328,7 +458,7 @@ export function formatAssertionResults(results: AssertionResult[]): string {
  * @param value Value to format
  * @returns Formatted string
  */
-function formatValue(value: any): string {
+export function formatValue(value: any): string {
   if (value === null) return 'null';
   if (value === undefined) return 'undefined';
   if (value instanceof RegExp) return value.toString();
@@ -1,7 +1,8 @@
 import * as vscode from 'vscode';
 import { fetchConsolidatedUsage } from '../cursorUsage';
 import { fetchAllProviderUsage } from '../providerUsage/usageFetcher';
-import { getBaseFolderName } from '../utils';
+import { getBaseFolderName, getHttpPath, getPersonalHttpPath } from '../utils';
+import { HttpMockServerManager } from '../httpMockServerManager';
 import { buildConfigSettingsItems } from '../cursorToysSettingsTreeProvider';
 import { UTILS_ITEMS, type UtilsTreeItemModel } from '../utilsTreeProvider';
 import {
@@ -59,6 +60,8 @@ export interface ControlProjectScope {
   rules: ControlAssetItem[];
   skills: ControlAssetItem[];
   http: ControlAssetItem[];
+  /** HTTP folder of the project (what the mock server serves) */
+  httpPath: string;
   notepads: ControlAssetItem[];
   kanban: ControlAssetItem[];
   plans: ControlAssetItem[];
@@ -66,6 +69,15 @@ export interface ControlProjectScope {
   inlineAnnotations: ControlInlineAnnotationsData;
 }
 
+/** State of the HTTP mock server, shown in the HTTP sections */
+export interface ControlHttpMockServer {
+  running: boolean;
+  /** Served folder */
+  folder?: string;
+  url?: string;
+  routeCount: number;
+}
+
 export interface ControlUsageBar {
   label: string;
   percent: number | null;
@@ -103,6 +115,7 @@ export interface ControlModel {
     rules: ControlAssetItem[];
     agents: ControlAssetItem[];
     http: ControlAssetItem[];
+    httpPath: string;
     notepads: ControlAssetItem[];
     kanban: ControlAssetItem[];
     plans: ControlAssetItem[];
@@ -116,6 +129,7 @@ export interface ControlModel {
   };
   config: ControlConfigScope;
   projects: ControlProjectScope[];
+  httpMockServer: ControlHttpMockServer;
   usageSections: ControlUsageSection[];
 }
 
@@ -344,6 +358,7 @@ export async function buildControlModel(
       rules: pRules,
       skills: pSkills,
       http: pHttp,
+      httpPath: getHttpPath(root),
       notepads: pNotepads,
       kanban: pKanban,
       plans: pPlans,
@@ -353,6 +368,7 @@ export async function buildControlModel(
   }
 
   const usageSections = await buildUsageSections(context);
+  const mockStatus = HttpMockServerManager.getInstance().getStatus();
   const orderMap = getControlPanelOrder(context);
   const projectOrder: Record<string, string[]> = {};
   for (const project of projects) {
@@ -378,6 +394,7 @@ export async function buildControlModel(
       rules,
       agents,
       http,
+      httpPath: getPersonalHttpPath(),
       notepads,
       kanban,
       plans,
@@ -394,6 +411,12 @@ export async function buildControlModel(
       settingsCategories: buildConfigSettingsItems(getConfig()),
     },
     projects,
+    httpMockServer: {
+      running: mockStatus.running,
+      folder: mockStatus.folder,
+      url: mockStatus.url,
+      routeCount: mockStatus.routes.length,
+    },
     usageSections,
   };
 }
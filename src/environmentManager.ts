@@ -379,6 +379,55 @@ TIMEOUT=10000
     }
   }
 
+  /**
+   * Appends variables the environment does not define yet to `.env.{name}` (or `.env`
+   * when that file does not exist); existing values are never overwritten
+   * @returns Names of the variables that were added
+   */
+  public addMissingVariables(
+    envName: string,
+    workspacePath: string,
+    variables: Record<string, string>,
+    envRoot?: string
+  ): string[] {
+    const root = this.resolveEnvRoot(workspacePath, envRoot);
+    const filePath = getEnvFilePath(root, envName);
+    return this.appendMissingVariables(
+      root,
+      fs.existsSync(filePath) ? filePath : getEnvFilePath(root, 'default'),
+      variables
+    );
+  }
+
+  /**
+   * Like {@link addMissingVariables}, but always writes `.env.{name}`, creating it when missing
+   * @returns Names of the variables that were added
+   */
+  public mergeEnvironmentVariables(
+    envName: string,
+    workspacePath: string,
+    variables: Record<string, string>,
+    envRoot?: string
+  ): string[] {
+    const root = this.resolveEnvRoot(workspacePath, envRoot);
+    return this.appendMissingVariables(root, getEnvFilePath(root, envName), variables);
+  }
+
+  private appendMissingVariables(root: string, filePath: string, variables: Record<string, string>): string[] {
+    const content = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : '';
+    const existing = this.parseEnvFile(content);
+    const added = Object.keys(variables).filter((name) => !existing.has(name.toLowerCase()));
+    if (added.length === 0) {
+      return [];
+    }
+
+    const lines = added.map((name) => `${name}=${variables[name]}`);
+    const separator = content && !content.endsWith('\n') ? '\n' : '';
+    fs.writeFileSync(filePath, `${content}${separator}${lines.join('\n')}\n`, 'utf8');
+    this.clearEnvRootCache(root);
+    return added;
+  }
+
   /**
    * Creates default .env and .env.example at the project root when missing
    */
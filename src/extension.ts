@@ -38,18 +38,33 @@ import { UserSkillsTreeProvider, SkillFileItem } from './userSkillsTreeProvider'
 import { createHooksFile, hooksFileExists, validateHooksFile } from './hooksManager';
 import { sendToChat, sendSelectionToChat, buildPromptDeeplink, MAX_DEEPLINK_LENGTH } from './sendToChat';
 import { AnnotationPanel, AnnotationParams } from './annotationPanel';
-import { executeHttpRequestFromFile, getExecutionTime, copyCurlCommand } from './httpRequestExecutor';
+import {
+  executeHttpRequestFromFile,
+  getExecutionTime,
+  copyCurlCommand,
+  copyHttpRequestAsCode,
+  updateHttpSnapshot,
+} from './httpRequestExecutor';
+import type { HttpCodegenLanguage } from './httpCodegen';
 import {
   HttpRequestEditorProvider,
   openHttpRequestEditor,
 } from './httpRequestEditorProvider';
-import { createNewHttpRequest } from './httpRequestEditorCommands';
-import {
-  runHttpCliTests,
-  requireHttpTestWorkspaceContext,
-  toHttpFolderRelativePath,
-} from './httpCliRunner';
+import { createNewHttpRequest, pasteCurlAsHttpRequest } from './httpRequestEditorCommands';
+import { requireHttpTestWorkspaceContext, toHttpFolderRelativePath } from './httpCliRunner';
 import { EnvironmentManager } from './environmentManager';
+import { registerHttpCookieJarCommands } from './httpCookieJarCommands';
+import { registerHttpAuthCommands } from './httpAuthCommands';
+import { registerHttpTlsCommands } from './httpTlsCommands';
+import { registerHttpLoadTestCommands } from './httpLoadTestCommands';
+import { registerHttpEnvCompareCommands } from './httpEnvCompareCommands';
+import { registerHttpSecretCommands } from './httpSecretCommands';
+import { registerHttpMockServerCommands } from './httpMockServerCommands';
+import { HttpTestExplorer } from './httpTestController';
+import { registerHttpGraphqlCommands } from './httpGraphqlCommands';
+import { registerHttpCollectionCommands } from './httpCollectionCommands';
+import { registerHttpHistoryCommands } from './httpHistoryCommands';
+import { registerHttpOpenApiCommands } from './httpOpenApiCommands';
 import { HttpVariableHoverProvider, HttpEnvironmentCompletionProvider, HttpEnvironmentDecorationProvider, HttpRequestDefinitionProvider, HttpRequestDocumentFormattingProvider } from './httpEnvironmentProviders';
 import { minifyFile, formatMinificationStats, detectFileType } from './minifier';
 import { trimClipboardAuto, trimClipboardWithPrompt } from './clipboardProcessor';
@@ -299,6 +314,20 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
   // Initialize Environment Manager and setup file watchers
   const envManager = EnvironmentManager.getInstance();
   envManager.setupFileWatchers();
+  registerHttpCookieJarCommands(context);
+  registerHttpAuthCommands(context);
+  registerHttpTlsCommands(context);
+  registerHttpLoadTestCommands(context);
+  registerHttpEnvCompareCommands(context);
+  registerHttpSecretCommands(context);
+  registerHttpMockServerCommands(context);
+  const httpTestExplorer = HttpTestExplorer.getInstance();
+  httpTestExplorer.initialize();
+  context.subscriptions.push(httpTestExplorer);
+  registerHttpGraphqlCommands(context);
+  registerHttpOpenApiCommands(context);
+  registerHttpCollectionCommands(context);
+  registerHttpHistoryCommands(context);
   
 
   // Show release notes when extension is updated (async, non-blocking)
@@ -447,7 +476,8 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     httpCompletionProvider,
     ' ',
     '{',
-    ':'
+    ':',
+    '('
   );
 
   const httpDefinitionDisposable = vscode.languages.registerDefinitionProvider(
@@ -2176,6 +2206,12 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     (workspacePath?: string, scope?: string) => createNewHttpRequest(workspacePath, scope)
   );
 
+  // Command to add the cURL command on the clipboard as a new request block
+  const pasteCurlAsHttpRequestCommand = vscode.commands.registerCommand(
+    'cursor-toys.pasteCurlAsHttpRequest',
+    (uri?: vscode.Uri) => pasteCurlAsHttpRequest(uri)
+  );
+
   const refreshUserHttp = vscode.commands.registerCommand(
     'cursor-toys.refreshUserHttp',
     () => {
@@ -3945,6 +3981,19 @@ Detailed instructions for the agent.
     }
   );
 
+  // Command to re-record the golden file of a # @snapshot request
+  const updateHttpSnapshotCommand = vscode.commands.registerCommand(
+    'cursor-toys.updateHttpSnapshot',
+    async (uri?: vscode.Uri, startLine?: number, endLine?: number, sectionTitle?: string) => {
+      const requestUri = uri ?? vscode.window.activeTextEditor?.document.uri;
+      if (!requestUri) {
+        vscode.window.showErrorMessage('No file selected');
+        return;
+      }
+      await updateHttpSnapshot(requestUri, startLine, endLine, sectionTitle);
+    }
+  );
+
   // Command to copy cURL command
   const copyCurlCommandCommand = vscode.commands.registerCommand(
     'cursor-toys.copyCurlCommand',
@@ -3966,6 +4015,19 @@ Detailed instructions for the agent.
     }
   );
 
+  // Command to copy a request as code (fetch, axios, Python, Go, Java, C#, PowerShell)
+  const copyHttpRequestAsCodeCommand = vscode.commands.registerCommand(
+    'cursor-toys.copyHttpRequestAsCode',
+    async (uri?: vscode.Uri, startLine?: number, endLine?: number, language?: HttpCodegenLanguage) => {
+      const requestUri = uri ?? vscode.window.activeTextEditor?.document.uri;
+      if (!requestUri) {
+        vscode.window.showErrorMessage('No file selected');
+        return;
+      }
+      await copyHttpRequestAsCode(requestUri, startLine, endLine, language);
+    }
+  );
+
   function resolveHttpFilePath(arg: HttpTreeItem | vscode.Uri | undefined): string | null {
     if (arg instanceof vscode.Uri) {
       return arg.fsPath;
@@ -3983,67 +4045,28 @@ Detailed instructions for the agent.
     return arg.folderPath ?? arg.filePath ?? null;
   }
 
-  // Command to run assertions using CLI (editor / CodeLens)
+  // Command to run assertions in the Test Explorer from the editor / CodeLens
   const runAssertionsCommand = vscode.commands.registerCommand(
     'cursor-toys.runAssertions',
     async (uri?: vscode.Uri) => {
-      let requestUri: vscode.Uri;
-
-      if (uri) {
-        requestUri = uri;
-      } else {
-        const editor = vscode.window.activeTextEditor;
-        if (!editor) {
-          vscode.window.showErrorMessage('No file selected');
-          return;
-        }
-        requestUri = editor.document.uri;
-      }
-
-      const ctx = requireHttpTestWorkspaceContext();
-      if (!ctx) {
+      const requestUri = uri ?? vscode.window.activeTextEditor?.document.uri;
+      if (!requestUri) {
+        vscode.window.showErrorMessage('No file selected');
         return;
       }
-
-      runHttpCliTests({
-        workspacePath: ctx.workspacePath,
-        scope: 'file',
-        filePath: requestUri.fsPath,
-      });
+      await HttpTestExplorer.getInstance().runFile(requestUri.fsPath);
     }
   );
 
   const runHttpTestsFile = vscode.commands.registerCommand(
     'cursor-toys.runHttpTestsFile',
     async (arg?: HttpTreeItem | vscode.Uri) => {
-      const filePath = resolveHttpFilePath(arg);
-      if (!filePath) {
-        const editor = vscode.window.activeTextEditor;
-        if (!editor) {
-          vscode.window.showErrorMessage('No HTTP request file selected');
-          return;
-        }
-        const ctx = requireHttpTestWorkspaceContext();
-        if (!ctx) {
-          return;
-        }
-        runHttpCliTests({
-          workspacePath: ctx.workspacePath,
-          scope: 'file',
-          filePath: editor.document.uri.fsPath,
-        });
-        return;
-      }
-
-      const ctx = requireHttpTestWorkspaceContext();
-      if (!ctx) {
+      const target = resolveHttpFilePath(arg) ?? vscode.window.activeTextEditor?.document.uri.fsPath;
+      if (!target) {
+        vscode.window.showErrorMessage('No HTTP request file selected');
         return;
       }
-      runHttpCliTests({
-        workspacePath: ctx.workspacePath,
-        scope: 'file',
-        filePath,
-      });
+      await HttpTestExplorer.getInstance().runFile(target);
     }
   );
 
@@ -4065,25 +4088,21 @@ Detailed instructions for the agent.
         return;
       }
 
-      runHttpCliTests({
-        workspacePath: ctx.workspacePath,
-        scope: 'folder',
-        folderRelativePath: folderRelative,
-      });
+      await HttpTestExplorer.getInstance().runFolder(folderRelative);
     }
   );
 
   const runHttpTestsAll = vscode.commands.registerCommand(
     'cursor-toys.runHttpTestsAll',
     async () => {
-      const ctx = requireHttpTestWorkspaceContext();
-      if (!ctx) {
-        return;
-      }
-      runHttpCliTests({
-        workspacePath: ctx.workspacePath,
-        scope: 'all',
-      });
+      await HttpTestExplorer.getInstance().runAll();
+    }
+  );
+
+  const openLastHttpTestReport = vscode.commands.registerCommand(
+    'cursor-toys.openLastHttpTestReport',
+    async () => {
+      await HttpTestExplorer.getInstance().openLastReport();
     }
   );
 
@@ -5141,6 +5160,7 @@ Detailed instructions for the agent.
     openHttpRequest,
     openHttpRequestAsText,
     newHttpRequest,
+    pasteCurlAsHttpRequestCommand,
     refreshUserHttp,
     userProjectsExplorerTreeView,
     userClipboardExplorerTreeView,
@@ -5206,10 +5226,13 @@ Detailed instructions for the agent.
     copySelectionAsPromptCommand,
     sendHttpRequestCommand,
     copyCurlCommandCommand,
+    copyHttpRequestAsCodeCommand,
+    updateHttpSnapshotCommand,
     runAssertionsCommand,
     runHttpTestsFile,
     runHttpTestsFolder,
     runHttpTestsAll,
+    openLastHttpTestReport,
     selectEnvironmentCommand,
     createEnvironmentCommand,
     generateHttpLlmsCommand,
@@ -0,0 +1,336 @@
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import {
+  authorizationCredential,
+  buildBasicAuthorization,
+  buildDigestAuthorization,
+  buildOAuth2TokenRequest,
+  formatOAuth2Authorization,
+  getHeaderValue,
+  OAuth2TokenCache,
+  oauth2CacheKey,
+  obtainOAuth2Token,
+  parseAuthLine,
+  parseDigestChallenge,
+  resolveAuthSettings,
+  serializeAuthDirective,
+  signAwsRequest,
+  stripSignedAuthHeaders,
+  type OAuth2Options,
+  type OAuth2TokenRequest,
+} from './httpAuth';
+import { executeNodeHttpRequest } from './httpNodeEngine';
+
+const AWS_CREDENTIALS = {
+  accessKeyId: 'AKIDEXAMPLE',
+  secretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY',
+};
+const AWS_TEST_DATE = new Date('2015-08-30T12:36:00Z');
+
+const DIGEST_REALM = 'api@test';
+const DIGEST_NONCE = 'dcd98b7102dd2f0e8b11d0f600bfb0c093';
+
+async function runTests(): Promise<void> {
+  testParseAuthLine();
+  testResolveAuthSettings();
+  testBasic();
+  testDigestRfc7616();
+  testAwsSignatureV4();
+  testOAuth2TokenRequest();
+
+  const tokenCalls: string[] = [];
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      const form = new URLSearchParams(Buffer.concat(chunks).toString('utf8'));
+      if (req.url === '/token') {
+        const grant = form.get('grant_type') ?? '';
+        tokenCalls.push(grant);
+        const json = (status: number, data: object): void => {
+          res.writeHead(status, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify(data));
+        };
+        if (req.headers.authorization !== buildBasicAuthorization('app', 's3cr%2Ft') && form.get('client_id') !== 'app') {
+          json(401, { error: 'invalid_client' });
+        } else if (grant === 'client_credentials') {
+          json(200, { access_token: `cc-${tokenCalls.length}`, token_type: 'bearer', expires_in: 3600, refresh_token: 'r1' });
+        } else if (grant === 'password' && form.get('password') === 'pw') {
+          json(200, { access_token: `pw-${form.get('username')}`, expires_in: 60 });
+        } else if (grant === 'refresh_token' && form.get('refresh_token') === 'r1') {
+          json(200, { access_token: `refreshed-${tokenCalls.length}`, token_type: 'Bearer', expires_in: 3600 });
+        } else {
+          json(400, { error: 'invalid_grant', error_description: 'Bad credentials' });
+        }
+        return;
+      }
+      if (req.url?.startsWith('/digest')) {
+        const params = Object.fromEntries(
+          [...(req.headers.authorization ?? '').matchAll(/(\w+)="?([^",]*)"?/g)].map((m) => [m[1], m[2]])
+        );
+        const md5 = (v: string): string => crypto.createHash('md5').update(v).digest('hex');
+        const expected = md5(
+          `${md5(`ann:${DIGEST_REALM}:pw`)}:${DIGEST_NONCE}:${params.nc}:${params.cnonce}:auth:${md5(`${req.method}:${req.url}`)}`
+        );
+        if (params.username === 'ann' && params.uri === req.url && params.response === expected) {
+          res.writeHead(200);
+          res.end('welcome');
+        } else {
+          res.writeHead(401, {
+            'WWW-Authenticate': `Basic realm="fallback", Digest realm="${DIGEST_REALM}", qop="auth,auth-int", nonce="${DIGEST_NONCE}", opaque="x"`,
+          });
+          res.end('denied');
+        }
+        return;
+      }
+      res.writeHead(404);
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const send = async (request: OAuth2TokenRequest) =>
+    executeNodeHttpRequest(request, { timeoutSeconds: 5, maxRedirects: 0 });
+
+  try {
+    await testOAuth2ClientCredentials(base, send, tokenCalls);
+    await testOAuth2PasswordAndErrors(base, send);
+    await testDigestRoundTrip(base);
+  } finally {
+    server.close();
+  }
+  console.log('All httpAuth tests passed.');
+}
+
+function testParseAuthLine(): void {
+  assert.deepStrictEqual(parseAuthLine('# @auth basic {{USER}} "p w"'), {
+    type: 'basic',
+    options: { username: '{{USER}}', password: 'p w' },
+  });
+  assert.deepStrictEqual(parseAuthLine('// @auth basic a b'), null);
+  assert.deepStrictEqual(parseAuthLine('# @auth sigv4 region=eu-west-1 service=execute-api'), {
+    type: 'aws',
+    options: { region: 'eu-west-1', service: 'execute-api' },
+  });
+  const oauth = parseAuthLine('# @auth oauth2 grant=password tokenurl={{TOKEN_URL}} scope="read write" clientId=app');
+  assert.deepStrictEqual(oauth?.options, { grant: 'password', tokenUrl: '{{TOKEN_URL}}', scope: 'read write', clientId: 'app' });
+  assert.strictEqual(
+    serializeAuthDirective(oauth!),
+    '# @auth oauth2 grant=password tokenUrl={{TOKEN_URL}} clientId=app scope="read write"'
+  );
+  assert.deepStrictEqual(parseAuthLine(serializeAuthDirective({ type: 'digest', options: { password: 'a "b"', username: 'x' } })), {
+    type: 'digest',
+    options: { username: 'x', password: 'a "b"' },
+  });
+  assert.strictEqual(parseAuthLine('# @auth kerberos'), null);
+}
+
+function testResolveAuthSettings(): void {
+  const env: Record<string, string> = { AUTH_USERNAME: 'env-user', AWS_ACCESS_KEY_ID: 'AK', AWS_SECRET_ACCESS_KEY: 'SK', AWS_REGION: 'us-east-1' };
+  const lookup = (name: string): string | undefined => env[name];
+  assert.deepStrictEqual(resolveAuthSettings({ type: 'basic', options: {} }, lookup), {
+    type: 'basic',
+    username: 'env-user',
+    password: '',
+  });
+  assert.strictEqual(resolveAuthSettings({ type: 'aws', options: { service: 's3' } }, lookup).type, 'aws');
+  assert.throws(() => resolveAuthSettings({ type: 'aws', options: {} }, lookup), /needs service$/);
+  assert.throws(
+    () => resolveAuthSettings({ type: 'oauth2', options: { grant: 'password' } }, lookup),
+    /needs tokenUrl \(or OAUTH2_TOKEN_URL\), clientId \(or OAUTH2_CLIENT_ID\), username, password/
+  );
+  assert.throws(() => resolveAuthSettings({ type: 'oauth2', options: { grant: 'implicit' } }, lookup), /grant must be/);
+  const oauth = resolveAuthSettings({ type: 'oauth2', options: { tokenUrl: 'https://t', clientId: 'c', clientAuth: 'BODY' } }, lookup);
+  assert.ok(oauth.type === 'oauth2' && oauth.oauth2.grant === 'client_credentials' && oauth.oauth2.clientAuth === 'body');
+}
+
+function testBasic(): void {
+  assert.strictEqual(buildBasicAuthorization('Aladdin', 'open sesame'), 'Basic QWxhZGRpbjpvcGVuIHNlc2FtZQ==');
+}
+
+function testDigestRfc7616(): void {
+  // RFC 7616 §3.9.1
+  const header =
+    'Digest realm="http-auth@example.org", qop="auth, auth-int", algorithm=SHA-256, ' +
+    'nonce="7ypf/xlj9XXwfDPEoM4URrv/xwf94BcCAzFZH4GiTo0v", opaque="FQhe/qaU925kfnzjCev0ciny7QMkPqMAFRtzCUYo5tdS"';
+  const challenge = parseDigestChallenge(header)!;
+  assert.strictEqual(challenge.realm, 'http-auth@example.org');
+  assert.strictEqual(challenge.algorithm, 'SHA-256');
+  const request = {
+    method: 'GET',
+    uri: '/dir/index.html',
+    username: 'Mufasa',
+    password: 'Circle of Life',
+    cnonce: 'f2/wE4q74E6zIJEtWaHKaf5wv/H5QzzpXusqGemxURZJ',
+  };
+  const sha256 = buildDigestAuthorization(challenge, request);
+  assert.match(sha256, /response="753927fa0e85d155564e2e272a28d1802ca10daf4496794697cf8db5856cb6c1"/);
+  assert.match(sha256, /qop=auth, nc=00000001, cnonce="f2\/wE4q74E6zIJEtWaHKaf5wv\/H5QzzpXusqGemxURZJ"/);
+  assert.match(sha256, /opaque="FQhe\/qaU925kfnzjCev0ciny7QMkPqMAFRtzCUYo5tdS"$/);
+  const md5 = buildDigestAuthorization({ ...challenge, algorithm: 'MD5' }, request);
+  assert.match(md5, /response="8ca523f5e9506fed4657c9700eebdbec"/);
+  assert.strictEqual(parseDigestChallenge('Bearer realm="x"'), null);
+  assert.throws(() => buildDigestAuthorization({ ...challenge, algorithm: 'SHA-512-256' }, request), /Unsupported Digest algorithm/);
+}
+
+function testAwsSignatureV4(): void {
+  // AWS SigV4 test suite: get-vanilla
+  const vanilla = signAwsRequest(
+    { method: 'GET', url: 'https://example.amazonaws.com/', headers: {} },
+    { ...AWS_CREDENTIALS, region: 'us-east-1', service: 'service' },
+    AWS_TEST_DATE
+  );
+  assert.strictEqual(vanilla['X-Amz-Date'], '20150830T123600Z');
+  assert.strictEqual(
+    vanilla.Authorization,
+    'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, ' +
+      'SignedHeaders=host;x-amz-date, Signature=5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31'
+  );
+
+  // AWS documentation example: IAM ListUsers
+  const iam = signAwsRequest(
+    {
+      method: 'GET',
+      url: 'https://iam.amazonaws.com/?Version=2010-05-08&Action=ListUsers',
+      headers: { 'content-type': 'application/x-www-form-urlencoded; charset=utf-8', authorization: 'stale' },
+    },
+    { ...AWS_CREDENTIALS, region: 'us-east-1', service: 'iam' },
+    AWS_TEST_DATE
+  );
+  assert.ok(!('authorization' in iam), 'an existing Authorization header is replaced');
+  assert.match(iam.Authorization, /SignedHeaders=content-type;host;x-amz-date, Signature=5d672d79c15b13162d9279b0855cfba6789a8edb4c82c400e06b5924a6f2b5d7$/);
+
+  const s3 = signAwsRequest(
+    { method: 'PUT', url: 'https://bucket.s3.amazonaws.com/a b.txt', headers: {}, body: 'hi' },
+    { ...AWS_CREDENTIALS, sessionToken: 'TOKEN', region: 'eu-west-1', service: 's3' },
+    AWS_TEST_DATE
+  );
+  assert.strictEqual(s3['X-Amz-Content-Sha256'], crypto.createHash('sha256').update('hi').digest('hex'));
+  assert.strictEqual(s3['X-Amz-Security-Token'], 'TOKEN');
+  assert.match(s3.Authorization, /SignedHeaders=host;x-amz-content-sha256;x-amz-date;x-amz-security-token,/);
+
+  // Replays drop the old signature; other headers and plain credentials stay
+  assert.deepStrictEqual(stripSignedAuthHeaders({ ...s3, Accept: 'text/plain' }), { Accept: 'text/plain' });
+  assert.deepStrictEqual(
+    stripSignedAuthHeaders({ authorization: 'Digest username="ann", nonce="n1"', 'X-Amz-Date': 'kept' }),
+    { 'X-Amz-Date': 'kept' }
+  );
+  const basic = { Authorization: buildBasicAuthorization('ann', 'pw') };
+  assert.deepStrictEqual(stripSignedAuthHeaders(basic), basic);
+
+  // The values derived from a secret, so they can be masked like the secret itself
+  assert.strictEqual(authorizationCredential(basic.Authorization), Buffer.from('ann:pw').toString('base64'));
+  assert.strictEqual(authorizationCredential(s3.Authorization), s3.Authorization.match(/Signature=(\w+)/)?.[1]);
+  assert.strictEqual(
+    authorizationCredential('Digest username="ann", nc=00000001, response="6629fae49393a05397450978507c4ef1", opaque="x"'),
+    '6629fae49393a05397450978507c4ef1'
+  );
+  assert.strictEqual(authorizationCredential('Bearer abc'), null);
+}
+
+function testOAuth2TokenRequest(): void {
+  const options: OAuth2Options = {
+    grant: 'password',
+    tokenUrl: 'https://auth.test/token',
+    clientId: 'app',
+    clientSecret: 's3cr/t',
+    scope: 'read',
+    username: 'ann',
+    password: 'pw',
+    clientAuth: 'body',
+  };
+  const request = buildOAuth2TokenRequest(options);
+  assert.strictEqual(request.body, 'grant_type=password&username=ann&password=pw&scope=read&client_id=app&client_secret=s3cr%2Ft');
+  assert.strictEqual(request.headers.Authorization, undefined);
+  const refresh = buildOAuth2TokenRequest({ ...options, clientAuth: 'basic' }, 'r9');
+  assert.strictEqual(refresh.body, 'grant_type=refresh_token&refresh_token=r9&scope=read');
+  assert.strictEqual(refresh.headers.Authorization, buildBasicAuthorization('app', 's3cr%2Ft'));
+  assert.notStrictEqual(oauth2CacheKey('dev', options), oauth2CacheKey('prod', options), 'tokens are cached per environment');
+}
+
+async function testOAuth2ClientCredentials(
+  base: string,
+  send: (request: OAuth2TokenRequest) => ReturnType<typeof executeNodeHttpRequest>,
+  tokenCalls: string[]
+): Promise<void> {
+  const options: OAuth2Options = {
+    grant: 'client_credentials',
+    tokenUrl: `${base}/token`,
+    clientId: 'app',
+    clientSecret: 's3cr/t',
+    clientAuth: 'basic',
+  };
+  const cache = new OAuth2TokenCache();
+  const key = oauth2CacheKey('dev', options);
+  let now = 1_000_000;
+  const clock = (): number => now;
+
+  const first = await obtainOAuth2Token(options, key, send, cache, clock);
+  assert.strictEqual(formatOAuth2Authorization(first), 'Bearer cc-1');
+  assert.strictEqual(first.expiresAt, now + 3_600_000);
+  const cached = await obtainOAuth2Token(options, key, send, cache, clock);
+  assert.strictEqual(cached.accessToken, 'cc-1');
+  assert.deepStrictEqual(tokenCalls, ['client_credentials'], 'a fresh token is reused');
+
+  now += 3_600_000 - 10_000;
+  const refreshed = await obtainOAuth2Token(options, key, send, cache, clock);
+  assert.strictEqual(refreshed.accessToken, 'refreshed-2', 'tokens about to expire are refreshed');
+  assert.strictEqual(refreshed.refreshToken, 'r1', 'the previous refresh token is kept');
+
+  cache.set(key, { ...refreshed, expiresAt: now - 1, refreshToken: 'revoked' });
+  const regranted = await obtainOAuth2Token(options, key, send, cache, clock);
+  assert.strictEqual(regranted.accessToken, 'cc-4', 'a rejected refresh falls back to the configured grant');
+  assert.deepStrictEqual(tokenCalls, ['client_credentials', 'refresh_token', 'refresh_token', 'client_credentials']);
+}
+
+async function testOAuth2PasswordAndErrors(
+  base: string,
+  send: (request: OAuth2TokenRequest) => ReturnType<typeof executeNodeHttpRequest>
+): Promise<void> {
+  const options: OAuth2Options = {
+    grant: 'password',
+    tokenUrl: `${base}/token`,
+    clientId: 'app',
+    username: 'ann',
+    password: 'pw',
+    clientAuth: 'body',
+  };
+  const cache = new OAuth2TokenCache();
+  const token = await obtainOAuth2Token(options, 'k', send, cache);
+  assert.strictEqual(formatOAuth2Authorization(token), 'Bearer pw-ann');
+  await assert.rejects(
+    obtainOAuth2Token({ ...options, password: 'wrong' }, 'k2', send, cache),
+    /invalid_grant: Bad credentials/
+  );
+  await assert.rejects(
+    obtainOAuth2Token({ ...options, clientId: 'other' }, 'k3', send, cache),
+    /invalid_client/
+  );
+  await assert.rejects(
+    obtainOAuth2Token({ ...options, tokenUrl: 'http://127.0.0.1:1/token' }, 'k4', send, cache),
+    /ECONNREFUSED|connect/
+  );
+  assert.strictEqual(cache.size, 1, 'failed requests are not cached');
+}
+
+async function testDigestRoundTrip(base: string): Promise<void> {
+  const url = `${base}/digest?page=1`;
+  const denied = await executeNodeHttpRequest({ method: 'GET', url }, { timeoutSeconds: 5, maxRedirects: 0 });
+  assert.strictEqual(denied.statusCode, 401);
+  const challenge = parseDigestChallenge(getHeaderValue(denied.headers, 'www-authenticate'));
+  assert.deepStrictEqual(challenge, { realm: DIGEST_REALM, nonce: DIGEST_NONCE, qop: 'auth,auth-int', opaque: 'x', algorithm: undefined });
+  const authorization = buildDigestAuthorization(challenge!, { method: 'GET', uri: '/digest?page=1', username: 'ann', password: 'pw' });
+  const allowed = await executeNodeHttpRequest(
+    { method: 'GET', url, headers: { Authorization: authorization } },
+    { timeoutSeconds: 5, maxRedirects: 0 }
+  );
+  assert.strictEqual(allowed.statusCode, 200);
+  assert.strictEqual(allowed.body, 'welcome');
+}
+
+runTests().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,666 @@
+/**
+ * `# @auth` credentials: Basic, HTTP Digest (RFC 7616), AWS Signature V4 and OAuth2
+ * client-credentials / password / refresh-token grants with a per-environment token cache.
+ * Pure helpers — no VS Code dependencies; token requests go through a caller-supplied sender.
+ */
+import * as crypto from 'crypto';
+
+export type HttpAuthType = 'basic' | 'digest' | 'oauth2' | 'aws';
+
+/** A `# @auth <type> key=value ...` line, option values as written */
+export interface HttpAuthDirective {
+  type: HttpAuthType;
+  options: Record<string, string>;
+}
+
+export type OAuth2Grant = 'client_credentials' | 'password' | 'refresh_token';
+
+export interface OAuth2Options {
+  grant: OAuth2Grant;
+  tokenUrl: string;
+  clientId: string;
+  clientSecret?: string;
+  scope?: string;
+  audience?: string;
+  username?: string;
+  password?: string;
+  refreshToken?: string;
+  /** Where the client credentials go: an `Authorization: Basic` header or the form body */
+  clientAuth: 'basic' | 'body';
+}
+
+export interface AwsSigV4Options {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+  region: string;
+  service: string;
+}
+
+/** Credentials of a block, with `{{variables}}` and environment fallbacks resolved */
+export type HttpAuthSettings =
+  | { type: 'basic' | 'digest'; username: string; password: string }
+  | ({ type: 'aws' } & AwsSigV4Options)
+  | { type: 'oauth2'; oauth2: OAuth2Options };
+
+/** Option keys per provider, in the order the editor shows them */
+export const AUTH_OPTION_KEYS: Record<HttpAuthType, string[]> = {
+  basic: ['username', 'password'],
+  digest: ['username', 'password'],
+  oauth2: ['grant', 'tokenUrl', 'clientId', 'clientSecret', 'scope', 'audience', 'username', 'password', 'refreshToken', 'clientAuth'],
+  aws: ['region', 'service', 'accessKeyId', 'secretAccessKey', 'sessionToken'],
+};
+
+/** Environment variables read when an option is omitted */
+export const AUTH_ENV_FALLBACKS: Record<HttpAuthType, Record<string, string>> = {
+  basic: { username: 'AUTH_USERNAME', password: 'AUTH_PASSWORD' },
+  digest: { username: 'AUTH_USERNAME', password: 'AUTH_PASSWORD' },
+  oauth2: {
+    tokenUrl: 'OAUTH2_TOKEN_URL',
+    clientId: 'OAUTH2_CLIENT_ID',
+    clientSecret: 'OAUTH2_CLIENT_SECRET',
+    scope: 'OAUTH2_SCOPE',
+    refreshToken: 'OAUTH2_REFRESH_TOKEN',
+  },
+  aws: {
+    accessKeyId: 'AWS_ACCESS_KEY_ID',
+    secretAccessKey: 'AWS_SECRET_ACCESS_KEY',
+    sessionToken: 'AWS_SESSION_TOKEN',
+    region: 'AWS_REGION',
+  },
+};
+
+const AUTH_LINE_RE = /^#\s*@auth\s+([\w-]+)(?:\s+(.*))?$/i;
+const DIRECTIVE_OPTION_RE = /([A-Za-z]\w*)=("(?:[^"\\]|\\.)*"|\S*)|("(?:[^"\\]|\\.)*"|\S+)/g;
+const AUTH_TYPE_ALIASES: Record<string, HttpAuthType> = {
+  basic: 'basic',
+  digest: 'digest',
+  oauth2: 'oauth2',
+  aws: 'aws',
+  sigv4: 'aws',
+  'aws-sigv4': 'aws',
+};
+const OAUTH2_GRANTS = new Set<OAuth2Grant>(['client_credentials', 'password', 'refresh_token']);
+
+function unquote(value: string): string {
+  return value.startsWith('"') && value.endsWith('"') && value.length >= 2
+    ? value.slice(1, -1).replace(/\\(.)/g, '$1')
+    : value;
+}
+
+/**
+ * Splits directive options into `key=value` pairs (keys matched case-insensitively
+ * against `knownKeys`) and plain words; `"quoted values"` may contain spaces
+ */
+export function parseDirectiveOptions(
+  text: string,
+  knownKeys: string[]
+): { options: Record<string, string>; positional: string[] } {
+  const options: Record<string, string> = {};
+  const positional: string[] = [];
+  for (const token of text.matchAll(DIRECTIVE_OPTION_RE)) {
+    if (token[1]) {
+      const key = knownKeys.find((k) => k.toLowerCase() === token[1].toLowerCase()) ?? token[1];
+      options[key] = unquote(token[2]);
+    } else {
+      positional.push(unquote(token[3]));
+    }
+  }
+  return { options, positional };
+}
+
+/**
+ * Parses a `# @auth` line (null otherwise, for findBlockDirective). Basic and Digest also
+ * take the username and password as two plain words: `# @auth basic {{USER}} {{PASS}}`.
+ */
+export function parseAuthLine(line: string): HttpAuthDirective | null {
+  const match = line.trim().match(AUTH_LINE_RE);
+  const type = match ? AUTH_TYPE_ALIASES[match[1].toLowerCase()] : undefined;
+  if (!match || !type) {
+    return null;
+  }
+  const { options, positional } = parseDirectiveOptions(match[2] ?? '', AUTH_OPTION_KEYS[type]);
+  if (type === 'basic' || type === 'digest') {
+    options.username ??= positional[0];
+    options.password ??= positional[1];
+    for (const key of ['username', 'password']) {
+      if (options[key] === undefined) {
+        delete options[key];
+      }
+    }
+  }
+  return { type, options };
+}
+
+function quoteOption(value: string): string {
+  return /[\s"]/.test(value) || value === '' ? `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"` : value;
+}
+
+/**
+ * Writes a directive back as a `# @auth` line, known options first
+ */
+export function serializeAuthDirective(directive: HttpAuthDirective): string {
+  return [`# @auth ${directive.type}`, ...formatDirectiveOptions(directive.options, AUTH_OPTION_KEYS[directive.type])].join(' ');
+}
+
+/**
+ * `key=value` words for a directive line, `knownKeys` first; empty values are left out
+ */
+export function formatDirectiveOptions(options: Record<string, string>, knownKeys: string[]): string[] {
+  const keys = [
+    ...knownKeys.filter((k) => k in options),
+    ...Object.keys(options).filter((k) => !knownKeys.includes(k)),
+  ];
+  return keys
+    .filter((k) => options[k] !== undefined && options[k] !== '')
+    .map((k) => `${k}=${quoteOption(options[k])}`);
+}
+
+/**
+ * Resolves a directive's options, reading omitted ones from `AUTH_ENV_FALLBACKS`
+ * @param directive The parsed `# @auth` line, `{{variables}}` already replaced
+ * @param lookup Reads an environment variable by name
+ * @throws Error naming the missing options
+ */
+export function resolveAuthSettings(
+  directive: HttpAuthDirective,
+  lookup: (name: string) => string | undefined
+): HttpAuthSettings {
+  const fallbacks = AUTH_ENV_FALLBACKS[directive.type];
+  const option = (key: string): string | undefined => {
+    const value = directive.options[key] ?? (fallbacks[key] ? lookup(fallbacks[key]) : undefined);
+    return value === undefined || value === '' ? undefined : value;
+  };
+  const require = (keys: string[]): void => {
+    const missing = keys.filter((key) => option(key) === undefined);
+    if (missing.length > 0) {
+      const hints = missing.map((key) => (fallbacks[key] ? `${key} (or ${fallbacks[key]})` : key));
+      throw new Error(`# @auth ${directive.type} needs ${hints.join(', ')}`);
+    }
+  };
+
+  switch (directive.type) {
+    case 'basic':
+    case 'digest':
+      require(['username']);
+      return { type: directive.type, username: option('username')!, password: option('password') ?? '' };
+    case 'aws':
+      require(['accessKeyId', 'secretAccessKey', 'region', 'service']);
+      return {
+        type: 'aws',
+        accessKeyId: option('accessKeyId')!,
+        secretAccessKey: option('secretAccessKey')!,
+        sessionToken: option('sessionToken'),
+        region: option('region')!,
+        service: option('service')!,
+      };
+    case 'oauth2': {
+      const grant = (option('grant') ?? 'client_credentials').toLowerCase().replace(/-/g, '_') as OAuth2Grant;
+      if (!OAUTH2_GRANTS.has(grant)) {
+        throw new Error(`# @auth oauth2 grant must be client_credentials, password or refresh_token (got ${grant})`);
+      }
+      require([
+        'tokenUrl',
+        'clientId',
+        ...(grant === 'password' ? ['username', 'password'] : []),
+        ...(grant === 'refresh_token' ? ['refreshToken'] : []),
+      ]);
+      return {
+        type: 'oauth2',
+        oauth2: {
+          grant,
+          tokenUrl: option('tokenUrl')!,
+          clientId: option('clientId')!,
+          clientSecret: option('clientSecret'),
+          scope: option('scope'),
+          audience: option('audience'),
+          username: option('username'),
+          password: option('password'),
+          refreshToken: option('refreshToken'),
+          clientAuth: option('clientAuth')?.toLowerCase() === 'body' ? 'body' : 'basic',
+        },
+      };
+    }
+  }
+}
+
+function findHeaderKey(headers: Record<string, string>, name: string): string | undefined {
+  return Object.keys(headers).find((key) => key.toLowerCase() === name.toLowerCase());
+}
+
+function withoutHeaders(headers: Record<string, string>, names: string[]): Record<string, string> {
+  const drop = new Set(names.map((n) => n.toLowerCase()));
+  return Object.fromEntries(Object.entries(headers).filter(([key]) => !drop.has(key.toLowerCase())));
+}
+
+/**
+ * Sets the `Authorization` header, replacing one written in the request
+ */
+export function setAuthorizationHeader(headers: Record<string, string>, value: string): Record<string, string> {
+  return { ...withoutHeaders(headers, ['authorization']), Authorization: value };
+}
+
+/**
+ * Drops a signature captured with a sent request — SigV4 `Authorization` with its `X-Amz-*`
+ * signing headers, or a Digest `Authorization` — so a replay does not send a stale one
+ */
+export function stripSignedAuthHeaders(headers: Record<string, string>): Record<string, string> {
+  const authorization = getHeaderValue(headers, 'authorization') ?? '';
+  if (/^AWS4-HMAC-SHA256\s/i.test(authorization)) {
+    return withoutHeaders(headers, ['authorization', 'x-amz-date', 'x-amz-security-token', 'x-amz-content-sha256']);
+  }
+  if (/^Digest\s/i.test(authorization)) {
+    return withoutHeaders(headers, ['authorization']);
+  }
+  return { ...headers };
+}
+
+/**
+ * The part of an `Authorization` value computed from a password or secret key — the Basic
+ * credential, the Digest `response` or the SigV4 `Signature` — null for other schemes
+ */
+export function authorizationCredential(authorization: string): string | null {
+  const value = authorization.trim();
+  if (/^Basic\s/i.test(value)) {
+    return value.slice('Basic'.length).trim() || null;
+  }
+  if (/^Digest\s/i.test(value)) {
+    return value.match(/(?:^|[\s,])response="?([0-9a-f]+)"?/i)?.[1] ?? null;
+  }
+  if (/^AWS4-HMAC-SHA256\s/i.test(value)) {
+    return value.match(/Signature=([0-9a-f]+)/i)?.[1] ?? null;
+  }
+  return null;
+}
+
+/**
+ * `Basic base64(username:password)`
+ */
+export function buildBasicAuthorization(username: string, password: string): string {
+  return `Basic ${Buffer.from(`${username}:${password}`, 'utf8').toString('base64')}`;
+}
+
+// --- HTTP Digest ---
+
+/** Parameters of a `WWW-Authenticate: Digest ...` challenge */
+export interface DigestChallenge {
+  realm: string;
+  nonce: string;
+  qop?: string;
+  opaque?: string;
+  algorithm?: string;
+}
+
+/**
+ * Reads the Digest challenge from a `WWW-Authenticate` value (other schemes are skipped)
+ */
+export function parseDigestChallenge(header: string | undefined): DigestChallenge | null {
+  const start = header?.search(/(^|[\s,])Digest\s/i) ?? -1;
+  if (!header || start < 0) {
+    return null;
+  }
+  const params: Record<string, string> = {};
+  const re = /([A-Za-z][\w-]*)\s*=\s*("(?:[^"\\]|\\.)*"|[^\s,]*)|([A-Za-z][\w-]*)\s+(?=[A-Za-z][\w-]*\s*=)/g;
+  re.lastIndex = start + header.slice(start).search(/Digest/i) + 'Digest'.length;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(header)) !== null) {
+    if (match[3]) {
+      // Start of the next scheme's challenge
+      break;
+    }
+    const key = match[1].toLowerCase();
+    if (!(key in params)) {
+      params[key] = unquote(match[2]);
+    }
+  }
+  if (params.realm === undefined || !params.nonce) {
+    return null;
+  }
+  return {
+    realm: params.realm,
+    nonce: params.nonce,
+    qop: params.qop,
+    opaque: params.opaque,
+    algorithm: params.algorithm,
+  };
+}
+
+export interface DigestRequest {
+  method: string;
+  /** Request target: path and query */
+  uri: string;
+  username: string;
+  password: string;
+  body?: Buffer | string;
+  /** Fixed client nonce (tests); random otherwise */
+  cnonce?: string;
+  nonceCount?: number;
+}
+
+/**
+ * Builds the `Authorization: Digest ...` answer to a challenge (MD5, SHA-256 and
+ * their `-sess` variants; `qop=auth` preferred over `auth-int`)
+ */
+export function buildDigestAuthorization(challenge: DigestChallenge, request: DigestRequest): string {
+  const algorithm = (challenge.algorithm ?? 'MD5').toUpperCase();
+  const hashName = algorithm.startsWith('SHA-256') ? 'sha256' : algorithm.startsWith('MD5') ? 'md5' : null;
+  if (!hashName) {
+    throw new Error(`Unsupported Digest algorithm ${challenge.algorithm}`);
+  }
+  const hash = (value: string | Buffer): string => crypto.createHash(hashName).update(value).digest('hex');
+  const offered = (challenge.qop ?? '').split(',').map((q) => q.trim().toLowerCase()).filter(Boolean);
+  const qop = offered.includes('auth') ? 'auth' : offered.includes('auth-int') ? 'auth-int' : undefined;
+  const cnonce = request.cnonce ?? crypto.randomBytes(8).toString('hex');
+  const nc = (request.nonceCount ?? 1).toString(16).padStart(8, '0');
+
+  let ha1 = hash(`${request.username}:${challenge.realm}:${request.password}`);
+  if (algorithm.endsWith('-SESS')) {
+    ha1 = hash(`${ha1}:${challenge.nonce}:${cnonce}`);
+  }
+  const ha2 = qop === 'auth-int'
+    ? hash(`${request.method}:${request.uri}:${hash(request.body ?? '')}`)
+    : hash(`${request.method}:${request.uri}`);
+  const response = qop
+    ? hash(`${ha1}:${challenge.nonce}:${nc}:${cnonce}:${qop}:${ha2}`)
+    : hash(`${ha1}:${challenge.nonce}:${ha2}`);
+
+  const parts = [
+    `username="${request.username.replace(/(["\\])/g, '\\$1')}"`,
+    `realm="${challenge.realm}"`,
+    `nonce="${challenge.nonce}"`,
+    `uri="${request.uri}"`,
+    `algorithm=${challenge.algorithm ?? 'MD5'}`,
+  ];
+  if (qop) {
+    parts.push(`qop=${qop}`, `nc=${nc}`, `cnonce="${cnonce}"`);
+  }
+  parts.push(`response="${response}"`);
+  if (challenge.opaque !== undefined) {
+    parts.push(`opaque="${challenge.opaque}"`);
+  }
+  return `Digest ${parts.join(', ')}`;
+}
+
+// --- AWS Signature V4 ---
+
+export interface SignableRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: Buffer | string;
+}
+
+function uriEncode(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function toAmzDate(now: Date): string {
+  return now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Signs a request with AWS Signature Version 4. Signs `host`, `content-type` and
+ * `x-amz-*` headers only, so headers the transport adds later do not break the signature.
+ * @returns The request headers plus `X-Amz-Date`, `Authorization` and, when set,
+ * `X-Amz-Security-Token` (S3 also gets `X-Amz-Content-Sha256`)
+ */
+export function signAwsRequest(
+  request: SignableRequest,
+  options: AwsSigV4Options,
+  now: Date = new Date()
+): Record<string, string> {
+  const url = new URL(request.url);
+  const service = options.service.toLowerCase();
+  const amzDate = toAmzDate(now);
+  const dateStamp = amzDate.slice(0, 8);
+  const sha256 = (value: string | Buffer): string => crypto.createHash('sha256').update(value).digest('hex');
+  const hmac = (key: string | Buffer, value: string): Buffer => crypto.createHmac('sha256', key).update(value).digest();
+  const payloadHash = sha256(request.body ?? '');
+
+  const headers = withoutHeaders(request.headers, ['authorization', 'x-amz-date', 'x-amz-security-token', 'x-amz-content-sha256']);
+  headers['X-Amz-Date'] = amzDate;
+  if (options.sessionToken) {
+    headers['X-Amz-Security-Token'] = options.sessionToken;
+  }
+  if (service === 's3') {
+    headers['X-Amz-Content-Sha256'] = payloadHash;
+  }
+
+  const signed = new Map<string, string>([['host', url.host]]);
+  for (const [key, value] of Object.entries(headers)) {
+    const name = key.toLowerCase();
+    if (name === 'content-type' || name.startsWith('x-amz-')) {
+      signed.set(name, value.trim().replace(/\s+/g, ' '));
+    }
+  }
+  const signedNames = [...signed.keys()].sort();
+  const canonicalHeaders = signedNames.map((name) => `${name}:${signed.get(name)}\n`).join('');
+
+  const segments = (url.pathname || '/').split('/').map((segment) => uriEncode(safeDecode(segment)));
+  const canonicalUri = (service === 's3' ? segments : segments.map(uriEncode)).join('/') || '/';
+  const canonicalQuery = [...url.searchParams.entries()]
+    .map(([key, value]) => [uriEncode(key), uriEncode(value)])
+    .sort(([ak, av], [bk, bv]) => (ak === bk ? (av < bv ? -1 : av > bv ? 1 : 0) : ak < bk ? -1 : 1))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+
+  const canonicalRequest = [
+    request.method.toUpperCase(),
+    canonicalUri,
+    canonicalQuery,
+    canonicalHeaders,
+    signedNames.join(';'),
+    payloadHash,
+  ].join('\n');
+  const scope = `${dateStamp}/${options.region}/${service}/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${options.secretAccessKey}`, dateStamp), options.region), service), 'aws4_request');
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  headers.Authorization =
+    `AWS4-HMAC-SHA256 Credential=${options.accessKeyId}/${scope}, ` +
+    `SignedHeaders=${signedNames.join(';')}, Signature=${signature}`;
+  return headers;
+}
+
+// --- OAuth2 ---
+
+export interface OAuth2Token {
+  accessToken: string;
+  tokenType: string;
+  /** Epoch ms; undefined when the server sent no `expires_in` */
+  expiresAt?: number;
+  refreshToken?: string;
+}
+
+export interface OAuth2TokenRequest {
+  method: 'POST';
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/** What a token request sender returns (a subset of HttpRequestResult) */
+export interface OAuth2TokenResponse {
+  statusCode: number;
+  statusText: string;
+  body: string;
+  error?: string;
+}
+
+/** Tokens this close to expiry are renewed before use */
+export const OAUTH2_EXPIRY_SKEW_MS = 30_000;
+
+/**
+ * Form-encoded token request for the configured grant, or a refresh-token grant when
+ * `refreshToken` is given
+ */
+export function buildOAuth2TokenRequest(options: OAuth2Options, refreshToken?: string): OAuth2TokenRequest {
+  const form = new URLSearchParams();
+  const grant: OAuth2Grant = refreshToken ? 'refresh_token' : options.grant;
+  form.set('grant_type', grant);
+  if (grant === 'password') {
+    form.set('username', options.username ?? '');
+    form.set('password', options.password ?? '');
+  } else if (grant === 'refresh_token') {
+    form.set('refresh_token', refreshToken ?? options.refreshToken ?? '');
+  }
+  if (options.scope) {
+    form.set('scope', options.scope);
+  }
+  if (options.audience) {
+    form.set('audience', options.audience);
+  }
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    Accept: 'application/json',
+  };
+  if (options.clientAuth === 'basic') {
+    // RFC 6749 §2.3.1: client id and secret are form-encoded before Basic encoding
+    headers.Authorization = buildBasicAuthorization(
+      encodeURIComponent(options.clientId),
+      encodeURIComponent(options.clientSecret ?? '')
+    );
+  } else {
+    form.set('client_id', options.clientId);
+    if (options.clientSecret) {
+      form.set('client_secret', options.clientSecret);
+    }
+  }
+  return { method: 'POST', url: options.tokenUrl, headers, body: form.toString() };
+}
+
+/**
+ * Reads a token endpoint response
+ * @throws Error with the endpoint's `error` / `error_description` when no token was issued
+ */
+export function parseOAuth2TokenResponse(response: OAuth2TokenResponse, now: number = Date.now()): OAuth2Token {
+  if (response.error || response.statusCode === 0) {
+    throw new Error(response.error || response.statusText || 'Token endpoint unreachable');
+  }
+  let data: Record<string, unknown> = {};
+  try {
+    const parsed = JSON.parse(response.body);
+    data = parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    // Some servers answer with a form-encoded body
+    data = Object.fromEntries(new URLSearchParams(response.body));
+  }
+  if (response.statusCode >= 400 || typeof data.access_token !== 'string') {
+    const reason = [data.error, data.error_description].filter((v) => typeof v === 'string' && v).join(': ');
+    throw new Error(reason || `HTTP ${response.statusCode} ${response.statusText}`.trim());
+  }
+  const expiresIn = Number(data.expires_in);
+  return {
+    accessToken: data.access_token,
+    tokenType: typeof data.token_type === 'string' && data.token_type ? data.token_type : 'Bearer',
+    expiresAt: Number.isFinite(expiresIn) && expiresIn > 0 ? now + expiresIn * 1000 : undefined,
+    refreshToken: typeof data.refresh_token === 'string' ? data.refresh_token : undefined,
+  };
+}
+
+/**
+ * `Authorization` value for a token (`bearer` token types are written as `Bearer`)
+ */
+export function formatOAuth2Authorization(token: OAuth2Token): string {
+  const type = token.tokenType.toLowerCase() === 'bearer' ? 'Bearer' : token.tokenType;
+  return `${type} ${token.accessToken}`;
+}
+
+/**
+ * Cache key: one token per environment, endpoint, client, user and scope
+ */
+export function oauth2CacheKey(envName: string | null, options: OAuth2Options): string {
+  return [envName ?? '', options.grant, options.tokenUrl, options.clientId, options.username ?? '', options.scope ?? '', options.audience ?? ''].join('|');
+}
+
+/**
+ * OAuth2 tokens kept in memory until they expire (or the window reloads)
+ */
+export class OAuth2TokenCache {
+  private static instance: OAuth2TokenCache | undefined;
+  private readonly tokens = new Map<string, OAuth2Token>();
+
+  static getInstance(): OAuth2TokenCache {
+    if (!OAuth2TokenCache.instance) {
+      OAuth2TokenCache.instance = new OAuth2TokenCache();
+    }
+    return OAuth2TokenCache.instance;
+  }
+
+  get(key: string): OAuth2Token | undefined {
+    return this.tokens.get(key);
+  }
+
+  set(key: string, token: OAuth2Token): void {
+    this.tokens.set(key, token);
+  }
+
+  get size(): number {
+    return this.tokens.size;
+  }
+
+  clear(): void {
+    this.tokens.clear();
+  }
+}
+
+/**
+ * Whether a token can still be used at `now`
+ */
+export function isOAuth2TokenFresh(token: OAuth2Token, now: number = Date.now()): boolean {
+  return token.expiresAt === undefined || token.expiresAt - OAUTH2_EXPIRY_SKEW_MS > now;
+}
+
+/**
+ * Returns a cached token while it is fresh; otherwise refreshes it with its refresh token
+ * (falling back to the configured grant) and caches the result
+ * @param options OAuth2 settings of the block
+ * @param cacheKey From oauth2CacheKey
+ * @param send Sends a token request
+ */
+export async function obtainOAuth2Token(
+  options: OAuth2Options,
+  cacheKey: string,
+  send: (request: OAuth2TokenRequest) => Promise<OAuth2TokenResponse>,
+  cache: OAuth2TokenCache = OAuth2TokenCache.getInstance(),
+  now: () => number = Date.now
+): Promise<OAuth2Token> {
+  const cached = cache.get(cacheKey);
+  if (cached && isOAuth2TokenFresh(cached, now())) {
+    return cached;
+  }
+  if (cached?.refreshToken) {
+    try {
+      const refreshed = parseOAuth2TokenResponse(
+        await send(buildOAuth2TokenRequest(options, cached.refreshToken)),
+        now()
+      );
+      // Servers may omit a new refresh token; keep using the old one
+      refreshed.refreshToken ??= cached.refreshToken;
+      cache.set(cacheKey, refreshed);
+      return refreshed;
+    } catch {
+      // Expired or revoked refresh token: fall through to the configured grant
+    }
+  }
+  const token = parseOAuth2TokenResponse(await send(buildOAuth2TokenRequest(options)), now());
+  cache.set(cacheKey, token);
+  return token;
+}
+
+/**
+ * Header lookup for response headers of any case
+ */
+export function getHeaderValue(headers: Record<string, string>, name: string): string | undefined {
+  const key = findHeaderKey(headers, name);
+  return key === undefined ? undefined : headers[key];
+}
@@ -0,0 +1,20 @@
+import * as vscode from 'vscode';
+import { OAuth2TokenCache } from './httpAuth';
+
+/**
+ * Registers the command that drops cached `# @auth oauth2` tokens.
+ */
+export function registerHttpAuthCommands(context: vscode.ExtensionContext): void {
+  context.subscriptions.push(
+    vscode.commands.registerCommand('cursor-toys.clearHttpAuthTokens', () => {
+      const cache = OAuth2TokenCache.getInstance();
+      const count = cache.size;
+      cache.clear();
+      vscode.window.showInformationMessage(
+        count > 0
+          ? `Cleared ${count} cached OAuth2 token${count === 1 ? '' : 's'}.`
+          : 'No OAuth2 tokens are cached.'
+      );
+    })
+  );
+}
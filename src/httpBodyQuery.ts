@@ -0,0 +1,62 @@
+/**
+ * Query expressions over response bodies, shared by `@assert` and response chaining:
+ * `$…` is JSONPath, `jmespath:…` (or `jmes:…`) JMESPath and `xpath:…` (or a path starting
+ * with `/`) XPath over an XML body.
+ * Pure helpers — no VS Code dependencies.
+ */
+import { evaluateJmesPath } from './httpJmesPath';
+import { evaluateJsonPath } from './httpJsonPath';
+import { evaluateXPath } from './httpXPath';
+
+export type BodyQueryLanguage = 'jsonpath' | 'jmespath' | 'xpath';
+
+export interface BodyQuery {
+  language: BodyQueryLanguage;
+  /** Expression without its language prefix. */
+  query: string;
+}
+
+const PREFIX_RE = /^(jmespath|jmes|xpath|jsonpath):\s*/i;
+
+/**
+ * Detects a body query expression; null for anything else (e.g. `res.body.id`)
+ */
+export function parseBodyQuery(expression: string): BodyQuery | null {
+  const trimmed = expression.trim();
+  const prefix = trimmed.match(PREFIX_RE);
+  if (prefix) {
+    const name = prefix[1].toLowerCase();
+    const language: BodyQueryLanguage = name === 'jmes' ? 'jmespath' : (name as BodyQueryLanguage);
+    return { language, query: trimmed.slice(prefix[0].length) };
+  }
+  if (trimmed.startsWith('$')) {
+    return { language: 'jsonpath', query: trimmed };
+  }
+  if (trimmed.startsWith('/')) {
+    return { language: 'xpath', query: trimmed };
+  }
+  return null;
+}
+
+/**
+ * Evaluates a body query. JSON bodies may be given as text or already parsed; XPath needs
+ * the XML text. JSONPath / JMESPath over a non-JSON body give undefined.
+ * @throws When the expression is malformed, or XPath is used on a non-XML body
+ */
+export function evaluateBodyQuery(body: unknown, query: BodyQuery): unknown {
+  if (query.language === 'xpath') {
+    if (typeof body !== 'string') {
+      throw new Error('XPath expressions need an XML response body');
+    }
+    return evaluateXPath(body, query.query);
+  }
+  let json = body;
+  if (typeof body === 'string') {
+    try {
+      json = JSON.parse(body);
+    } catch {
+      return undefined;
+    }
+  }
+  return query.language === 'jmespath' ? evaluateJmesPath(json, query.query) : evaluateJsonPath(json, query.query);
+}
@@ -1,17 +1,6 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { getBaseFolderName, getHttpPath } from './utils';
-
-export type HttpCliTestScope = 'file' | 'folder' | 'all';
-
-export interface RunHttpCliTestsOptions {
-  workspacePath: string;
-  scope: HttpCliTestScope;
-  /** Absolute path to a .req/.request file (scope `file`). */
-  filePath?: string;
-  /** Path relative to `.{baseFolder}/http/` (scope `folder`). */
-  folderRelativePath?: string;
-}
+import { getHttpPath } from './utils';
 
 /**
  * Reads the npm package spec for `cursortoys` CLI invocations (default: `@latest`).
@@ -33,40 +22,6 @@ export function buildCursortoysNpxCommand(args: string): string {
   return `npx cursortoys@${spec} ${args}`;
 }
 
-/**
- * Runs `npx cursortoys@<spec> http test` in a terminal for a file, http subfolder, or entire http tree.
- */
-export function runHttpCliTests(options: RunHttpCliTestsOptions): void {
-  const { workspacePath, scope, filePath, folderRelativePath } = options;
-  const baseFolder = getBaseFolderName();
-  const args = [
-    buildCursortoysNpxCommand('http test'),
-    `-p "${workspacePath}"`,
-    `--base-folder "${baseFolder}"`,
-  ];
-
-  if (scope === 'file') {
-    if (!filePath) {
-      vscode.window.showErrorMessage('No HTTP request file selected');
-      return;
-    }
-    args.push(`-f "${filePath}"`);
-  } else if (scope === 'folder') {
-    if (!folderRelativePath) {
-      vscode.window.showErrorMessage('No HTTP folder selected');
-      return;
-    }
-    args.push(`--folder "${folderRelativePath.replace(/\\/g, '/')}"`);
-  }
-
-  const terminal = vscode.window.createTerminal({
-    name: 'CursorToys - HTTP Tests',
-    cwd: workspacePath,
-  });
-  terminal.show();
-  terminal.sendText(args.join(' '));
-}
-
 /**
  * Resolves workspace root and validates the http directory exists.
  */
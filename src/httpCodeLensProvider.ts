@@ -5,6 +5,8 @@ import {
   getHttpRequestBlocks,
   rangeHasVariables,
 } from './httpRequestParser';
+import { findBlockDirective } from './httpRequestChaining';
+import { parseSnapshotLine } from './httpSnapshot';
 
 export class HttpCodeLensProvider implements vscode.CodeLensProvider {
   private codeLenses: vscode.CodeLens[] = [];
@@ -146,6 +148,50 @@ export class HttpCodeLensProvider implements vscode.CodeLensProvider {
           arguments: [document.uri, block.startLine, block.endLine],
         })
       );
+
+      this.codeLenses.push(
+        new vscode.CodeLens(new vscode.Range(block.titleLine, 0, block.titleLine, 0), {
+          title: '$(code) Copy as…',
+          command: 'cursor-toys.copyHttpRequestAsCode',
+          arguments: [document.uri, block.startLine, block.endLine],
+        })
+      );
+
+      this.codeLenses.push(
+        new vscode.CodeLens(new vscode.Range(block.titleLine, 0, block.titleLine, 0), {
+          title: '$(dashboard) Run Load Test',
+          command: 'cursor-toys.runHttpLoadTest',
+          arguments: [document.uri, block.startLine, block.endLine, block.title],
+        })
+      );
+
+      this.codeLenses.push(
+        new vscode.CodeLens(new vscode.Range(block.titleLine, 0, block.titleLine, 0), {
+          title: '$(diff) Compare Environments',
+          command: 'cursor-toys.compareHttpEnvironments',
+          arguments: [document.uri, block.startLine, block.endLine, block.title],
+        })
+      );
+
+      if (findBlockDirective(lines, block.startLine, block.endLine, parseSnapshotLine)) {
+        this.codeLenses.push(
+          new vscode.CodeLens(new vscode.Range(block.titleLine, 0, block.titleLine, 0), {
+            title: '$(file-symlink-file) Update Snapshot',
+            command: 'cursor-toys.updateHttpSnapshot',
+            arguments: [document.uri, block.startLine, block.endLine, block.title],
+          })
+        );
+      }
+
+      if (block.kind === 'graphql') {
+        this.codeLenses.push(
+          new vscode.CodeLens(new vscode.Range(block.titleLine, 0, block.titleLine, 0), {
+            title: '$(symbol-structure) Fetch Schema',
+            command: 'cursor-toys.fetchGraphqlSchema',
+            arguments: [document.uri, block.startLine, block.endLine],
+          })
+        );
+      }
     }
 
     if (this.codeLenses.length === 0) {
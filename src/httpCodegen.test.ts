@@ -0,0 +1,269 @@
+import * as assert from 'assert';
+import { generateHttpRequestCode, HTTP_CODEGEN_LANGUAGES, isHttpCodegenLanguage } from './httpCodegen';
+import type { HttpRequestConfig } from './httpRequestParse';
+
+const JSON_REQUEST: HttpRequestConfig = {
+  method: 'POST',
+  url: 'https://api.example.com/users?notify=1',
+  headers: { 'Content-Type': 'application/json', 'Content-Length': '16', Authorization: "Bearer it's" },
+  body: '{\n  "name": "Ada"\n}',
+};
+
+const TEMPLATE_REQUEST: HttpRequestConfig = {
+  method: 'PUT',
+  url: '{{baseUrl}}/users/{{user-id}}',
+  headers: { Authorization: 'Bearer {{token}}' },
+  body: '{"name": "{{login.response.body.name}}"}',
+};
+
+const MULTIPART_REQUEST: HttpRequestConfig = {
+  method: 'POST',
+  url: 'https://api.example.com/upload',
+  headers: { 'Content-Type': 'multipart/form-data; boundary=XYZ' },
+  body: [
+    '--XYZ',
+    'Content-Disposition: form-data; name="title"',
+    '',
+    'Report',
+    '--XYZ',
+    'Content-Disposition: form-data; name="file"; filename="a.png"',
+    'Content-Type: image/png',
+    '',
+    '< ./files/a.png',
+    '--XYZ--',
+  ].join('\n'),
+};
+
+const FORM_REQUEST: HttpRequestConfig = {
+  method: 'PURGE',
+  url: 'https://api.example.com/cache',
+  headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+  body: 'key=a b\nscope=all',
+};
+
+function runTests(): void {
+  testLanguages();
+  testFetch();
+  testAxiosAndPython();
+  testGoJavaCSharp();
+  testPowerShell();
+  testPlaceholders();
+  testBodyModes();
+  testNotes();
+  console.log('All httpCodegen tests passed.');
+}
+
+function testLanguages(): void {
+  assert.deepStrictEqual(
+    HTTP_CODEGEN_LANGUAGES.map((l) => l.id),
+    ['fetch', 'axios', 'python', 'go', 'java', 'csharp', 'powershell']
+  );
+  assert.ok(isHttpCodegenLanguage('go'));
+  assert.ok(!isHttpCodegenLanguage('ruby'));
+}
+
+function testFetch(): void {
+  assert.strictEqual(
+    generateHttpRequestCode(JSON_REQUEST, 'fetch'),
+    [
+      "const response = await fetch('https://api.example.com/users?notify=1', {",
+      "  method: 'POST',",
+      '  headers: {',
+      "    'Content-Type': 'application/json',",
+      "    'Authorization': 'Bearer it\\'s',",
+      '  },',
+      '  body: `{',
+      '  "name": "Ada"',
+      '}`,',
+      '});',
+      '',
+      'console.log(response.status);',
+      'console.log(await response.text());',
+      '',
+    ].join('\n')
+  );
+  assert.strictEqual(
+    generateHttpRequestCode({ method: 'GET', url: 'https://example.com/`x`' }, 'fetch').split('\n')[0],
+    "const response = await fetch('https://example.com/`x`');"
+  );
+}
+
+function testAxiosAndPython(): void {
+  const axios = generateHttpRequestCode(JSON_REQUEST, 'axios');
+  assert.ok(axios.startsWith("import axios from 'axios';\n\nconst response = await axios({\n  method: 'post',"));
+  assert.match(axios, /\n {2}data: `\{\n {2}"name": "Ada"\n\}`,\n/);
+  assert.ok(!axios.includes('Content-Length'));
+
+  assert.strictEqual(
+    generateHttpRequestCode(JSON_REQUEST, 'python'),
+    [
+      'import requests',
+      '',
+      'url = "https://api.example.com/users?notify=1"',
+      'headers = {',
+      '    "Content-Type": "application/json",',
+      '    "Authorization": "Bearer it\'s",',
+      '}',
+      'payload = "{\\n  \\"name\\": \\"Ada\\"\\n}"',
+      '',
+      'response = requests.request("POST", url, headers=headers, data=payload)',
+      '',
+      'print(response.status_code)',
+      'print(response.text)',
+      '',
+    ].join('\n')
+  );
+}
+
+function testGoJavaCSharp(): void {
+  const go = generateHttpRequestCode(JSON_REQUEST, 'go');
+  assert.ok(go.startsWith('package main\n\nimport (\n\t"fmt"\n\t"io"\n\t"net/http"\n\t"strings"\n)\n\nfunc main() {\n'));
+  assert.ok(go.includes('\tbody := strings.NewReader("{\\n  \\"name\\": \\"Ada\\"\\n}")\n'));
+  assert.ok(go.includes('\treq, err := http.NewRequest("POST", "https://api.example.com/users?notify=1", body)\n'));
+  assert.ok(go.includes('\treq.Header.Set("Authorization", "Bearer it\'s")\n'));
+  assert.ok(go.endsWith('\tfmt.Println(string(data))\n}\n'));
+  assert.ok(generateHttpRequestCode({ url: 'https://example.com' }, 'go').includes('http.NewRequest("GET", "https://example.com", nil)'));
+
+  const java = generateHttpRequestCode({ ...JSON_REQUEST, headers: { ...JSON_REQUEST.headers, Host: 'x' } }, 'java');
+  assert.ok(java.startsWith('import java.net.URI;\nimport java.net.http.HttpClient;'));
+  assert.ok(java.includes('            .header("Content-Type", "application/json")\n'));
+  assert.ok(!java.includes('"Host"'));
+  assert.ok(java.includes('.method("POST", HttpRequest.BodyPublishers.ofString("{\\n  \\"name\\": \\"Ada\\"\\n}"))'));
+  assert.ok(generateHttpRequestCode({ method: 'DELETE', url: 'https://example.com' }, 'java').includes('.method("DELETE", HttpRequest.BodyPublishers.noBody())'));
+
+  const csharp = generateHttpRequestCode(JSON_REQUEST, 'csharp');
+  assert.ok(csharp.startsWith('using System.Net.Http.Headers;\n\nusing var client = new HttpClient();\n'));
+  assert.ok(csharp.includes('request.Headers.TryAddWithoutValidation("Authorization", "Bearer it\'s");'));
+  assert.ok(csharp.includes('request.Content.Headers.ContentType = MediaTypeHeaderValue.Parse("application/json");'));
+  // Content headers need content to live on
+  const noBody = generateHttpRequestCode({ method: 'GET', url: 'https://example.com', headers: { 'Content-Type': 'text/plain' } }, 'csharp');
+  assert.ok(!noBody.includes('Content-Type'));
+}
+
+function testPowerShell(): void {
+  assert.strictEqual(
+    generateHttpRequestCode(JSON_REQUEST, 'powershell'),
+    [
+      '$headers = @{',
+      "    'Authorization' = 'Bearer it''s'",
+      '}',
+      "$body = '{",
+      '  "name": "Ada"',
+      "}'",
+      '',
+      '$params = @{',
+      "    Uri = 'https://api.example.com/users?notify=1'",
+      "    Method = 'Post'",
+      '    Headers = $headers',
+      "    ContentType = 'application/json'",
+      '    Body = $body',
+      '}',
+      '$response = Invoke-RestMethod @params',
+      '',
+      '$response',
+      '',
+    ].join('\n')
+  );
+  assert.ok(generateHttpRequestCode(FORM_REQUEST, 'powershell').includes("    CustomMethod = 'PURGE'\n"));
+}
+
+function testPlaceholders(): void {
+  // Without placeholders the text is copied as is
+  assert.ok(generateHttpRequestCode(TEMPLATE_REQUEST, 'fetch').includes("fetch('{{baseUrl}}/users/{{user-id}}', {"));
+
+  const fetch = generateHttpRequestCode(TEMPLATE_REQUEST, 'fetch', { placeholders: true });
+  assert.ok(
+    fetch.startsWith(
+      [
+        'const baseUrl = process.env.BASE_URL;',
+        'const userId = process.env.USER_ID;',
+        'const token = process.env.TOKEN;',
+        'const loginResponseBodyName = process.env.LOGIN_RESPONSE_BODY_NAME;',
+        '',
+        'const response = await fetch(`${baseUrl}/users/${userId}`, {',
+      ].join('\n')
+    )
+  );
+  assert.ok(fetch.includes("    'Authorization': `Bearer ${token}`,\n"));
+  assert.ok(fetch.includes('  body: `{"name": "${loginResponseBodyName}"}`,\n'));
+
+  const python = generateHttpRequestCode(TEMPLATE_REQUEST, 'python', { placeholders: true });
+  assert.ok(python.startsWith('import os\nimport requests\n\nbase_url = os.environ.get("BASE_URL", "")\nuser_id = '));
+  assert.ok(python.includes('url = f"{base_url}/users/{user_id}"\n'));
+  assert.ok(python.includes('payload = f"{{\\"name\\": \\"{login_response_body_name}\\"}}"\n'));
+
+  const go = generateHttpRequestCode(TEMPLATE_REQUEST, 'go', { placeholders: true });
+  assert.ok(go.includes('\t"os"\n'));
+  assert.ok(go.includes('\tbaseUrl := os.Getenv("BASE_URL")\n'));
+  assert.ok(go.includes('http.NewRequest("PUT", baseUrl + "/users/" + userId, body)'));
+
+  assert.ok(generateHttpRequestCode(TEMPLATE_REQUEST, 'java', { placeholders: true }).includes('.uri(URI.create(baseUrl + "/users/" + userId))'));
+  assert.ok(
+    generateHttpRequestCode(TEMPLATE_REQUEST, 'csharp', { placeholders: true }).includes(
+      'var token = Environment.GetEnvironmentVariable("TOKEN");'
+    )
+  );
+
+  const powershell = generateHttpRequestCode(TEMPLATE_REQUEST, 'powershell', { placeholders: true });
+  assert.ok(powershell.startsWith('$baseUrl = $env:BASE_URL\n'));
+  assert.ok(powershell.includes('    Uri = "${baseUrl}/users/${userId}"\n'));
+  assert.ok(powershell.includes('$body = "{`"name`": `"${loginResponseBodyName}`"}"\n'));
+
+  // Names that map to the same identifier get a suffix; digits cannot start one
+  const clash = generateHttpRequestCode({ url: '{{a-b}}/{{a_b}}/{{2fa}}' }, 'fetch', { placeholders: true });
+  assert.ok(clash.startsWith('const aB = process.env.A_B;\nconst aB2 = process.env.A_B;\nconst v2fa = process.env._2FA;\n'));
+}
+
+function testBodyModes(): void {
+  const resolvePath = (filePath: string): string => `/work/${filePath.replace(/^\.\//, '')}`;
+
+  const fetch = generateHttpRequestCode(MULTIPART_REQUEST, 'fetch', { resolvePath });
+  assert.ok(fetch.startsWith("import fs from 'node:fs';\n\nconst form = new FormData();\nform.append('title', 'Report');\n"));
+  assert.ok(fetch.includes("form.append('file', new Blob([fs.readFileSync('/work/files/a.png')], { type: 'image/png' }), 'a.png');"));
+  assert.ok(!fetch.includes('multipart/form-data'));
+
+  const python = generateHttpRequestCode(MULTIPART_REQUEST, 'python', { resolvePath });
+  assert.ok(python.includes('    ("title", (None, "Report")),\n    ("file", ("a.png", open("/work/files/a.png", "rb"), "image/png")),\n'));
+  assert.ok(python.includes('requests.request("POST", url, files=files)'));
+
+  const go = generateHttpRequestCode(MULTIPART_REQUEST, 'go', { resolvePath });
+  assert.ok(go.includes('\twriter.WriteField("title", "Report")\n'));
+  assert.ok(go.includes('\t\tpart, err := writer.CreateFormFile("file", "a.png")\n'));
+  assert.ok(go.includes('\treq.Header.Set("Content-Type", writer.FormDataContentType())\n'));
+
+  // Java sends the parts as written, with the file bytes in between
+  const java = generateHttpRequestCode(MULTIPART_REQUEST, 'java', { resolvePath });
+  assert.ok(java.includes('.header("Content-Type", "multipart/form-data; boundary=XYZ")'));
+  assert.ok(java.includes('Content-Type: image/png\\r\\n\\r\\n".getBytes(StandardCharsets.UTF_8),\n            Files.readAllBytes(Path.of("/work/files/a.png")),\n            "\\r\\n--XYZ--\\r\\n".getBytes(StandardCharsets.UTF_8)\n'));
+
+  const csharp = generateHttpRequestCode(MULTIPART_REQUEST, 'csharp', { resolvePath });
+  assert.ok(csharp.includes('var file1 = new ByteArrayContent(File.ReadAllBytes("/work/files/a.png"));\nfile1.Headers.ContentType = MediaTypeHeaderValue.Parse("image/png");\nform.Add(file1, "file", "a.png");'));
+
+  assert.ok(generateHttpRequestCode(MULTIPART_REQUEST, 'powershell', { resolvePath }).includes("    'file' = Get-Item -Path '/work/files/a.png'\n"));
+
+  // urlencoded lines become form fields
+  assert.ok(generateHttpRequestCode(FORM_REQUEST, 'fetch').includes("  body: new URLSearchParams([\n    ['key', 'a b'],\n    ['scope', 'all'],\n  ]),"));
+  assert.ok(generateHttpRequestCode(FORM_REQUEST, 'go').includes('\tform.Add("key", "a b")\n'));
+  assert.ok(generateHttpRequestCode(FORM_REQUEST, 'java').includes('String form = "key=" + URLEncoder.encode("a b", StandardCharsets.UTF_8)\n    + "&scope=" + URLEncoder.encode("all", StandardCharsets.UTF_8);'.replace(/\n/g, '\n        ')));
+  const csharpForm = generateHttpRequestCode(FORM_REQUEST, 'csharp');
+  assert.ok(csharpForm.includes('new KeyValuePair<string, string>("key", "a b"),'));
+  assert.ok(!csharpForm.includes('x-www-form-urlencoded'));
+
+  // A single `< file` line is the whole body
+  const file: HttpRequestConfig = { method: 'POST', url: 'https://example.com', body: '< ./big.json' };
+  assert.ok(generateHttpRequestCode(file, 'fetch', { resolvePath }).includes("  body: fs.readFileSync('/work/big.json'),"));
+  assert.ok(generateHttpRequestCode(file, 'java', { resolvePath }).includes('HttpRequest.BodyPublishers.ofFile(Path.of("/work/big.json"))'));
+  assert.ok(generateHttpRequestCode(file, 'powershell', { resolvePath }).includes("    InFile = '/work/big.json'"));
+
+  // Object bodies (GraphQL) are sent as JSON
+  const graphql: HttpRequestConfig = { method: 'POST', url: 'https://example.com/graphql', body: { query: '{ me { id } }' } };
+  assert.ok(generateHttpRequestCode(graphql, 'python').includes('payload = "{\\n  \\"query\\": \\"{ me { id } }\\"\\n}"'));
+}
+
+function testNotes(): void {
+  const notes = ['Digest auth is not applied.'];
+  assert.ok(generateHttpRequestCode(JSON_REQUEST, 'go', { notes }).startsWith('// Digest auth is not applied.\n\npackage main\n'));
+  assert.ok(generateHttpRequestCode(JSON_REQUEST, 'python', { notes }).startsWith('# Digest auth is not applied.\n\nimport requests\n'));
+}
+
+runTests();
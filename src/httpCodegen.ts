@@ -0,0 +1,756 @@
+/**
+ * "Copy as…" code generation: turns a parsed request into JavaScript (fetch, axios), Python
+ * requests, Go net/http, Java HttpClient, C# HttpClient or PowerShell Invoke-RestMethod code.
+ * Pure helpers — no VS Code dependencies.
+ */
+import * as path from 'path';
+import {
+  detectBodyMode,
+  getMultipartBoundary,
+  parseFileReferenceLine,
+  parseMultipartFields,
+  parseUrlencodedFields,
+} from './httpRequestBody';
+import type { HttpRequestConfig } from './httpRequestParse';
+
+export type HttpCodegenLanguage = 'fetch' | 'axios' | 'python' | 'go' | 'java' | 'csharp' | 'powershell';
+
+export interface HttpCodegenLanguageInfo {
+  id: HttpCodegenLanguage;
+  label: string;
+  /** VS Code language id of the generated code */
+  languageId: string;
+}
+
+export const HTTP_CODEGEN_LANGUAGES: HttpCodegenLanguageInfo[] = [
+  { id: 'fetch', label: 'JavaScript (fetch)', languageId: 'javascript' },
+  { id: 'axios', label: 'JavaScript (axios)', languageId: 'javascript' },
+  { id: 'python', label: 'Python (requests)', languageId: 'python' },
+  { id: 'go', label: 'Go (net/http)', languageId: 'go' },
+  { id: 'java', label: 'Java (HttpClient)', languageId: 'java' },
+  { id: 'csharp', label: 'C# (HttpClient)', languageId: 'csharp' },
+  { id: 'powershell', label: 'PowerShell (Invoke-RestMethod)', languageId: 'powershell' },
+];
+
+export function isHttpCodegenLanguage(value: unknown): value is HttpCodegenLanguage {
+  return HTTP_CODEGEN_LANGUAGES.some((language) => language.id === value);
+}
+
+export interface HttpCodegenOptions {
+  /** Turn `{{variables}}` left in the request into variables read from environment variables */
+  placeholders?: boolean;
+  /** Path written for a `< ./file` reference (default: as written) */
+  resolvePath?: (filePath: string) => string;
+  /** Comment lines put above the code (e.g. auth the snippet does not apply) */
+  notes?: string[];
+}
+
+/** Literal text or a `{{variable}}` kept as a placeholder */
+type Segment = string | { variable: string };
+
+interface Placeholder {
+  name: string;
+  /** camelCase identifier (snake_case in Python) */
+  identifier: string;
+  /** Environment variable the snippet reads the value from */
+  envName: string;
+}
+
+interface MultipartPart {
+  name: string;
+  value: string;
+  file: boolean;
+  contentType?: string;
+}
+
+type CodegenBody =
+  | { kind: 'none' }
+  | { kind: 'text'; text: string }
+  | { kind: 'form'; fields: Array<[string, string]> }
+  /** `chunks`: the wire form, text between file contents (for languages without a multipart API) */
+  | { kind: 'multipart'; parts: MultipartPart[]; chunks: Array<string | { file: string }> }
+  | { kind: 'file'; path: string };
+
+interface CodegenRequest {
+  method: string;
+  url: string;
+  headers: Array<[string, string]>;
+  body: CodegenBody;
+  notes: string[];
+}
+
+interface Codegen {
+  segments(value: string): Segment[];
+  placeholders(): Placeholder[];
+}
+
+const PLACEHOLDER_RE = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+/** Headers the HTTP clients compute themselves */
+const COMPUTED_HEADERS = new Set(['content-length', 'transfer-encoding']);
+
+/** Headers Java's HttpClient refuses to set */
+const JAVA_RESTRICTED_HEADERS = new Set(['connection', 'expect', 'host', 'upgrade']);
+
+/** Headers .NET keeps on the content rather than the request */
+const CSHARP_CONTENT_HEADERS = new Set([
+  'allow',
+  'content-disposition',
+  'content-encoding',
+  'content-language',
+  'content-location',
+  'content-md5',
+  'content-range',
+  'content-type',
+  'expires',
+  'last-modified',
+]);
+
+const POWERSHELL_METHODS = ['Get', 'Head', 'Post', 'Put', 'Delete', 'Trace', 'Options', 'Merge', 'Patch'];
+
+function nameWords(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word.toLowerCase());
+}
+
+function toIdentifier(name: string, snake: boolean): string {
+  const words = nameWords(name);
+  const identifier = snake
+    ? words.join('_')
+    : words.map((word, i) => (i === 0 ? word : word[0].toUpperCase() + word.slice(1))).join('');
+  if (!identifier) {
+    return 'value';
+  }
+  return /^\d/.test(identifier) ? `v${identifier}` : identifier;
+}
+
+function createCodegen(placeholders: boolean, snake: boolean): Codegen {
+  const found = new Map<string, Placeholder>();
+  const taken = new Set<string>();
+  const placeholderFor = (name: string): Placeholder => {
+    let placeholder = found.get(name);
+    if (!placeholder) {
+      const base = toIdentifier(name, snake);
+      let identifier = base;
+      for (let n = 2; taken.has(identifier); n++) {
+        identifier = `${base}${n}`;
+      }
+      taken.add(identifier);
+      const envName = nameWords(name).join('_').toUpperCase() || 'VALUE';
+      placeholder = { name, identifier, envName: /^\d/.test(envName) ? `_${envName}` : envName };
+      found.set(name, placeholder);
+    }
+    return placeholder;
+  };
+  return {
+    segments(value: string): Segment[] {
+      if (!placeholders) {
+        return [value];
+      }
+      const segments: Segment[] = [];
+      let last = 0;
+      for (const match of value.matchAll(PLACEHOLDER_RE)) {
+        if (match.index! > last) {
+          segments.push(value.slice(last, match.index));
+        }
+        segments.push({ variable: placeholderFor(match[1]).identifier });
+        last = match.index! + match[0].length;
+      }
+      if (last < value.length || segments.length === 0) {
+        segments.push(value.slice(last));
+      }
+      return segments;
+    },
+    placeholders: () => [...found.values()],
+  };
+}
+
+function isLiteral(segments: Segment[]): segments is string[] {
+  return segments.every((segment) => typeof segment === 'string');
+}
+
+function getHeader(headers: Array<[string, string]>, name: string): string | undefined {
+  return headers.find(([key]) => key.toLowerCase() === name)?.[1];
+}
+
+function withoutHeader(headers: Array<[string, string]>, name: string): Array<[string, string]> {
+  return headers.filter(([key]) => key.toLowerCase() !== name);
+}
+
+/**
+ * Splits a request into method, URL, headers and a body of one of the modes the generators know
+ */
+function toCodegenRequest(config: HttpRequestConfig, options: HttpCodegenOptions): CodegenRequest {
+  const resolvePath = options.resolvePath ?? ((filePath: string) => filePath);
+  const headers = Object.entries(config.headers ?? {}).filter(([key]) => !COMPUTED_HEADERS.has(key.toLowerCase()));
+  const request: CodegenRequest = {
+    method: (config.method || 'GET').toUpperCase(),
+    url: config.url,
+    headers,
+    body: { kind: 'none' },
+    notes: options.notes ?? [],
+  };
+  const text =
+    config.body === undefined || config.body === null
+      ? ''
+      : typeof config.body === 'string'
+        ? config.body
+        : JSON.stringify(config.body, null, 2);
+  if (!text) {
+    return request;
+  }
+
+  const headerMap = Object.fromEntries(headers);
+  const mode = detectBodyMode(headerMap, text);
+  if (mode === 'multipart') {
+    const boundary = getMultipartBoundary(getHeader(headers, 'content-type'))!;
+    const parts = parseMultipartFields(text, boundary)
+      .filter((field) => field.key)
+      .map((field) => ({
+        name: field.key,
+        value: field.type === 'file' ? resolvePath(field.value) : field.value,
+        file: field.type === 'file',
+        ...(field.contentType ? { contentType: field.contentType } : {}),
+      }));
+    const chunks: Array<string | { file: string }> = [];
+    let pending = '';
+    text.split(/\r?\n/).forEach((line, index) => {
+      if (index > 0) {
+        pending += '\r\n';
+      }
+      const ref = parseFileReferenceLine(line);
+      if (ref) {
+        chunks.push(pending, { file: resolvePath(ref.path) });
+        pending = '';
+      } else {
+        pending += line;
+      }
+    });
+    chunks.push(`${pending}\r\n`);
+    request.body = { kind: 'multipart', parts, chunks: chunks.filter((chunk) => chunk !== '') };
+  } else if (mode === 'file') {
+    request.body = { kind: 'file', path: resolvePath(parseFileReferenceLine(text.trim())!.path) };
+  } else if (mode === 'urlencoded' && text.trim().split(/\r?\n/).length > 1) {
+    request.body = { kind: 'form', fields: parseUrlencodedFields(text).map((field) => [field.key, field.value]) };
+  } else {
+    request.body = { kind: 'text', text };
+  }
+  return request;
+}
+
+// --- String literals --------------------------------------------------------------------------
+
+function escapeJsTemplate(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${').replace(/\r/g, '\\r');
+}
+
+function jsString(segments: Segment[]): string {
+  if (isLiteral(segments)) {
+    const text = segments.join('');
+    if (text.includes('\n')) {
+      return `\`${escapeJsTemplate(text)}\``;
+    }
+    return `'${text
+      .replace(/\\/g, '\\\\')
+      .replace(/'/g, "\\'")
+      .replace(/\r/g, '\\r')
+      .replace(/\t/g, '\\t')}'`;
+  }
+  return `\`${segments
+    .map((segment) => (typeof segment === 'string' ? escapeJsTemplate(segment) : `\${${segment.variable}}`))
+    .join('')}\``;
+}
+
+function pythonString(segments: Segment[]): string {
+  if (isLiteral(segments)) {
+    return JSON.stringify(segments.join(''));
+  }
+  return `f"${segments
+    .map((segment) =>
+      typeof segment === 'string'
+        ? JSON.stringify(segment).slice(1, -1).replace(/\{/g, '{{').replace(/\}/g, '}}')
+        : `{${segment.variable}}`
+    )
+    .join('')}"`;
+}
+
+/** `"a" + name + "b"` for languages with C-style string literals (Go, Java, C#) */
+function concatString(segments: Segment[], literal: (text: string) => string = (text) => JSON.stringify(text)): string {
+  return segments
+    .filter((segment) => segment !== '' || segments.length === 1)
+    .map((segment) => (typeof segment === 'string' ? literal(segment) : segment.variable))
+    .join(' + ');
+}
+
+function powershellString(segments: Segment[]): string {
+  if (isLiteral(segments)) {
+    return `'${segments.join('').replace(/'/g, "''")}'`;
+  }
+  return `"${segments
+    .map((segment) =>
+      typeof segment === 'string' ? segment.replace(/[`"$]/g, (char) => `\`${char}`) : `\${${segment.variable}}`
+    )
+    .join('')}"`;
+}
+
+function commentLines(notes: string[], prefix: string): string[] {
+  return notes.map((note) => `${prefix} ${note}`);
+}
+
+// --- Generators -------------------------------------------------------------------------------
+
+function generateJavaScript(request: CodegenRequest, codegen: Codegen, axios: boolean): string {
+  const str = (value: string): string => jsString(codegen.segments(value));
+  const { body } = request;
+  const headers = body.kind === 'multipart' ? withoutHeader(request.headers, 'content-type') : request.headers;
+  const usesFiles = body.kind === 'file' || (body.kind === 'multipart' && body.parts.some((part) => part.file));
+
+  const setup: string[] = [];
+  let bodyExpression: string | undefined;
+  if (body.kind === 'text') {
+    bodyExpression = str(body.text);
+  } else if (body.kind === 'file') {
+    bodyExpression = `fs.readFileSync(${str(body.path)})`;
+  } else if (body.kind === 'form') {
+    bodyExpression = `new URLSearchParams([\n${body.fields
+      .map(([key, value]) => `    [${str(key)}, ${str(value)}],`)
+      .join('\n')}\n  ])`;
+  } else if (body.kind === 'multipart') {
+    setup.push('const form = new FormData();');
+    for (const part of body.parts) {
+      if (part.file) {
+        const type = part.contentType ? `, { type: ${str(part.contentType)} }` : '';
+        setup.push(
+          `form.append(${str(part.name)}, new Blob([fs.readFileSync(${str(part.value)})]${type}), ${jsString([
+            path.basename(part.value),
+          ])});`
+        );
+      } else {
+        setup.push(`form.append(${str(part.name)}, ${str(part.value)});`);
+      }
+    }
+    bodyExpression = 'form';
+  }
+
+  const headerLines =
+    headers.length > 0
+      ? ['  headers: {', ...headers.map(([key, value]) => `    ${jsString([key])}: ${str(value)},`), '  },']
+      : [];
+  let call: string[];
+  if (axios) {
+    call = [
+      'const response = await axios({',
+      `  method: '${request.method.toLowerCase()}',`,
+      `  url: ${str(request.url)},`,
+      ...headerLines,
+      ...(bodyExpression ? [`  data: ${bodyExpression},`] : []),
+      '});',
+    ];
+  } else if (request.method === 'GET' && headerLines.length === 0 && !bodyExpression) {
+    call = [`const response = await fetch(${str(request.url)});`];
+  } else {
+    call = [
+      `const response = await fetch(${str(request.url)}, {`,
+      `  method: '${request.method}',`,
+      ...headerLines,
+      ...(bodyExpression ? [`  body: ${bodyExpression},`] : []),
+      '});',
+    ];
+  }
+
+  const imports = [...(axios ? ["import axios from 'axios';"] : []), ...(usesFiles ? ["import fs from 'node:fs';"] : [])];
+  const declarations = codegen
+    .placeholders()
+    .map((p) => `const ${p.identifier} = process.env.${p.envName};`);
+  return joinSections([
+    commentLines(request.notes, '//'),
+    imports,
+    declarations,
+    setup,
+    call,
+    axios
+      ? ['console.log(response.status);', 'console.log(response.data);']
+      : ['console.log(response.status);', 'console.log(await response.text());'],
+  ]);
+}
+
+function generatePython(request: CodegenRequest, codegen: Codegen): string {
+  const str = (value: string): string => pythonString(codegen.segments(value));
+  const { body } = request;
+  const headers = body.kind === 'multipart' ? withoutHeader(request.headers, 'content-type') : request.headers;
+
+  const setup = [`url = ${str(request.url)}`];
+  const args = [JSON.stringify(request.method), 'url'];
+  if (headers.length > 0) {
+    setup.push('headers = {', ...headers.map(([key, value]) => `    ${pythonString([key])}: ${str(value)},`), '}');
+    args.push('headers=headers');
+  }
+  if (body.kind === 'text') {
+    setup.push(`payload = ${str(body.text)}`);
+    args.push('data=payload');
+  } else if (body.kind === 'file') {
+    setup.push(`payload = open(${str(body.path)}, "rb")`);
+    args.push('data=payload');
+  } else if (body.kind === 'form') {
+    setup.push('payload = [', ...body.fields.map(([key, value]) => `    (${str(key)}, ${str(value)}),`), ']');
+    args.push('data=payload');
+  } else if (body.kind === 'multipart') {
+    // Text parts go in `files` too, so requests always sends multipart/form-data
+    setup.push(
+      'files = [',
+      ...body.parts.map((part) => {
+        const content = part.file
+          ? `(${pythonString([path.basename(part.value)])}, open(${str(part.value)}, "rb")${
+              part.contentType ? `, ${str(part.contentType)}` : ''
+            })`
+          : `(None, ${str(part.value)})`;
+        return `    (${str(part.name)}, ${content}),`;
+      }),
+      ']'
+    );
+    args.push('files=files');
+  }
+
+  const placeholders = codegen.placeholders();
+  return joinSections([
+    commentLines(request.notes, '#'),
+    [...(placeholders.length > 0 ? ['import os'] : []), 'import requests'],
+    placeholders.map((p) => `${p.identifier} = os.environ.get(${JSON.stringify(p.envName)}, "")`),
+    setup,
+    [`response = requests.request(${args.join(', ')})`],
+    ['print(response.status_code)', 'print(response.text)'],
+  ]);
+}
+
+function generateGo(request: CodegenRequest, codegen: Codegen): string {
+  const str = (value: string): string => concatString(codegen.segments(value));
+  const { body } = request;
+  const imports = new Set(['fmt', 'io', 'net/http']);
+  const panicOnError = ['if err != nil {', '\tpanic(err)', '}'];
+
+  const setup: string[] = [];
+  let bodyVariable = 'nil';
+  let headers = request.headers;
+  if (body.kind === 'text') {
+    imports.add('strings');
+    setup.push(`body := strings.NewReader(${str(body.text)})`);
+    bodyVariable = 'body';
+  } else if (body.kind === 'file') {
+    imports.add('os');
+    setup.push(`body, err := os.Open(${str(body.path)})`, ...panicOnError, 'defer body.Close()');
+    bodyVariable = 'body';
+  } else if (body.kind === 'form') {
+    imports.add('net/url').add('strings');
+    setup.push(
+      'form := url.Values{}',
+      ...body.fields.map(([key, value]) => `form.Add(${str(key)}, ${str(value)})`),
+      'body := strings.NewReader(form.Encode())'
+    );
+    bodyVariable = 'body';
+  } else if (body.kind === 'multipart') {
+    imports.add('bytes').add('mime/multipart');
+    setup.push('body := &bytes.Buffer{}', 'writer := multipart.NewWriter(body)');
+    for (const part of body.parts) {
+      if (part.file) {
+        imports.add('os');
+        setup.push(
+          '{',
+          `\tfile, err := os.Open(${str(part.value)})`,
+          ...panicOnError.map((line) => `\t${line}`),
+          `\tpart, err := writer.CreateFormFile(${str(part.name)}, ${JSON.stringify(path.basename(part.value))})`,
+          ...panicOnError.map((line) => `\t${line}`),
+          '\tio.Copy(part, file)',
+          '\tfile.Close()',
+          '}'
+        );
+      } else {
+        setup.push(`writer.WriteField(${str(part.name)}, ${str(part.value)})`);
+      }
+    }
+    setup.push('writer.Close()');
+    bodyVariable = 'body';
+    headers = withoutHeader(headers, 'content-type');
+  }
+
+  const requestLines = [
+    `req, err := http.NewRequest(${JSON.stringify(request.method)}, ${str(request.url)}, ${bodyVariable})`,
+    ...panicOnError,
+    ...headers.map(([key, value]) => `req.Header.Set(${JSON.stringify(key)}, ${str(value)})`),
+    ...(body.kind === 'multipart' ? ['req.Header.Set("Content-Type", writer.FormDataContentType())'] : []),
+  ];
+  const placeholders = codegen.placeholders();
+  if (placeholders.length > 0) {
+    imports.add('os');
+  }
+  const main = joinSections([
+    placeholders.map((p) => `${p.identifier} := os.Getenv(${JSON.stringify(p.envName)})`),
+    setup,
+    requestLines,
+    [
+      'res, err := http.DefaultClient.Do(req)',
+      ...panicOnError,
+      'defer res.Body.Close()',
+      'data, err := io.ReadAll(res.Body)',
+      ...panicOnError,
+    ],
+    ['fmt.Println(res.Status)', 'fmt.Println(string(data))'],
+  ]);
+  return joinSections([
+    commentLines(request.notes, '//'),
+    ['package main'],
+    ['import (', ...[...imports].sort().map((name) => `\t${JSON.stringify(name)}`), ')'],
+    ['func main() {', ...indent(main, '\t'), '}'],
+  ]);
+}
+
+function generateJava(request: CodegenRequest, codegen: Codegen): string {
+  const str = (value: string): string => concatString(codegen.segments(value));
+  const { body } = request;
+  const imports = new Set([
+    'java.net.URI',
+    'java.net.http.HttpClient',
+    'java.net.http.HttpRequest',
+    'java.net.http.HttpResponse',
+  ]);
+  const headers = request.headers.filter(([key]) => !JAVA_RESTRICTED_HEADERS.has(key.toLowerCase()));
+
+  const setup: string[] = [];
+  let publisher = 'HttpRequest.BodyPublishers.noBody()';
+  if (body.kind === 'text') {
+    publisher = `HttpRequest.BodyPublishers.ofString(${str(body.text)})`;
+  } else if (body.kind === 'file') {
+    imports.add('java.nio.file.Path');
+    publisher = `HttpRequest.BodyPublishers.ofFile(Path.of(${str(body.path)}))`;
+  } else if (body.kind === 'form') {
+    imports.add('java.net.URLEncoder').add('java.nio.charset.StandardCharsets');
+    const pairs = body.fields.map(
+      ([key, value], i) =>
+        `${JSON.stringify(`${i > 0 ? '&' : ''}${encodeURIComponent(key)}=`)} + URLEncoder.encode(${str(value)}, StandardCharsets.UTF_8)`
+    );
+    setup.push(`String form = ${pairs.join('\n    + ')};`);
+    publisher = 'HttpRequest.BodyPublishers.ofString(form)';
+  } else if (body.kind === 'multipart') {
+    // Sent as written: the text between parts plus the contents of `< file` parts
+    imports.add('java.nio.charset.StandardCharsets').add('java.util.List');
+    const chunks = body.chunks.map((chunk) => {
+      if (typeof chunk === 'string') {
+        return `${str(chunk)}.getBytes(StandardCharsets.UTF_8)`;
+      }
+      imports.add('java.nio.file.Files').add('java.nio.file.Path');
+      return `Files.readAllBytes(Path.of(${str(chunk.file)}))`;
+    });
+    setup.push(`List<byte[]> multipart = List.of(\n    ${chunks.join(',\n    ')}\n);`);
+    publisher = 'HttpRequest.BodyPublishers.ofByteArrays(multipart)';
+  }
+
+  const requestLines = [
+    'HttpRequest request = HttpRequest.newBuilder()',
+    `    .uri(URI.create(${str(request.url)}))`,
+    ...headers.map(([key, value]) => `    .header(${JSON.stringify(key)}, ${str(value)})`),
+    `    .method(${JSON.stringify(request.method)}, ${publisher})`,
+    '    .build();',
+    'HttpResponse<String> response = HttpClient.newHttpClient()',
+    '    .send(request, HttpResponse.BodyHandlers.ofString());',
+  ];
+  const main = joinSections([
+    codegen.placeholders().map((p) => `String ${p.identifier} = System.getenv(${JSON.stringify(p.envName)});`),
+    setup,
+    requestLines,
+    ['System.out.println(response.statusCode());', 'System.out.println(response.body());'],
+  ]);
+  return joinSections([
+    commentLines(request.notes, '//'),
+    [...imports].sort().map((name) => `import ${name};`),
+    [
+      'public class Main {',
+      '    public static void main(String[] args) throws Exception {',
+      ...indent(main, '        '),
+      '    }',
+      '}',
+    ],
+  ]);
+}
+
+function generateCSharp(request: CodegenRequest, codegen: Codegen): string {
+  const str = (value: string): string => concatString(codegen.segments(value));
+  const { body } = request;
+  const requestHeaders = request.headers.filter(([key]) => !CSHARP_CONTENT_HEADERS.has(key.toLowerCase()));
+  let contentHeaders = request.headers.filter(([key]) => CSHARP_CONTENT_HEADERS.has(key.toLowerCase()));
+  let usesHeaders = false;
+
+  const requestLines = [
+    'using var client = new HttpClient();',
+    `var request = new HttpRequestMessage(new HttpMethod(${JSON.stringify(request.method)}), ${str(request.url)});`,
+    ...requestHeaders.map(
+      ([key, value]) => `request.Headers.TryAddWithoutValidation(${JSON.stringify(key)}, ${str(value)});`
+    ),
+  ];
+  const content: string[] = [];
+  if (body.kind === 'text') {
+    content.push(`request.Content = new StringContent(${str(body.text)});`);
+  } else if (body.kind === 'file') {
+    content.push(`request.Content = new ByteArrayContent(File.ReadAllBytes(${str(body.path)}));`);
+  } else if (body.kind === 'form') {
+    contentHeaders = withoutHeader(contentHeaders, 'content-type');
+    content.push(
+      'request.Content = new FormUrlEncodedContent(new[]',
+      '{',
+      ...body.fields.map(([key, value]) => `    new KeyValuePair<string, string>(${str(key)}, ${str(value)}),`),
+      '});'
+    );
+  } else if (body.kind === 'multipart') {
+    contentHeaders = withoutHeader(contentHeaders, 'content-type');
+    content.push('var form = new MultipartFormDataContent();');
+    let files = 0;
+    for (const part of body.parts) {
+      if (part.file) {
+        const name = `file${++files}`;
+        content.push(`var ${name} = new ByteArrayContent(File.ReadAllBytes(${str(part.value)}));`);
+        if (part.contentType) {
+          usesHeaders = true;
+          content.push(`${name}.Headers.ContentType = MediaTypeHeaderValue.Parse(${str(part.contentType)});`);
+        }
+        content.push(`form.Add(${name}, ${str(part.name)}, ${JSON.stringify(path.basename(part.value))});`);
+      } else {
+        content.push(`form.Add(new StringContent(${str(part.value)}), ${str(part.name)});`);
+      }
+    }
+    content.push('request.Content = form;');
+  }
+  if (content.length > 0) {
+    for (const [key, value] of contentHeaders) {
+      if (key.toLowerCase() === 'content-type') {
+        usesHeaders = true;
+        content.push(`request.Content.Headers.ContentType = MediaTypeHeaderValue.Parse(${str(value)});`);
+      } else {
+        content.push(`request.Content.Headers.TryAddWithoutValidation(${JSON.stringify(key)}, ${str(value)});`);
+      }
+    }
+  }
+
+  return joinSections([
+    commentLines(request.notes, '//'),
+    usesHeaders ? ['using System.Net.Http.Headers;'] : [],
+    codegen
+      .placeholders()
+      .map((p) => `var ${p.identifier} = Environment.GetEnvironmentVariable(${JSON.stringify(p.envName)});`),
+    [...requestLines, ...content],
+    [
+      'var response = await client.SendAsync(request);',
+      'Console.WriteLine((int)response.StatusCode);',
+      'Console.WriteLine(await response.Content.ReadAsStringAsync());',
+    ],
+  ]);
+}
+
+function generatePowerShell(request: CodegenRequest, codegen: Codegen): string {
+  const str = (value: string): string => powershellString(codegen.segments(value));
+  const { body } = request;
+  const contentType = getHeader(request.headers, 'content-type');
+  const headers = withoutHeader(request.headers, 'content-type');
+
+  const setup: string[] = [];
+  const method = POWERSHELL_METHODS.find((name) => name.toUpperCase() === request.method);
+  const params = [
+    `Uri = ${str(request.url)}`,
+    method ? `Method = '${method}'` : `CustomMethod = ${powershellString([request.method])}`,
+  ];
+  if (headers.length > 0) {
+    setup.push('$headers = @{', ...headers.map(([key, value]) => `    ${powershellString([key])} = ${str(value)}`), '}');
+    params.push('Headers = $headers');
+  }
+  if (contentType && body.kind !== 'multipart') {
+    params.push(`ContentType = ${str(contentType)}`);
+  }
+  if (body.kind === 'text') {
+    setup.push(`$body = ${str(body.text)}`);
+    params.push('Body = $body');
+  } else if (body.kind === 'file') {
+    params.push(`InFile = ${str(body.path)}`);
+  } else if (body.kind === 'form') {
+    setup.push('$body = @{', ...body.fields.map(([key, value]) => `    ${str(key)} = ${str(value)}`), '}');
+    params.push('Body = $body');
+  } else if (body.kind === 'multipart') {
+    setup.push(
+      '$form = @{',
+      ...body.parts.map(
+        (part) => `    ${str(part.name)} = ${part.file ? `Get-Item -Path ${str(part.value)}` : str(part.value)}`
+      ),
+      '}'
+    );
+    params.push('Form = $form');
+  }
+
+  return joinSections([
+    commentLines(request.notes, '#'),
+    codegen.placeholders().map((p) => `$${p.identifier} = $env:${p.envName}`),
+    setup,
+    ['$params = @{', ...params.map((param) => `    ${param}`), '}', '$response = Invoke-RestMethod @params'],
+    ['$response'],
+  ]);
+}
+
+function bodyStrings(body: CodegenBody): string[] {
+  switch (body.kind) {
+    case 'text':
+      return [body.text];
+    case 'file':
+      return [body.path];
+    case 'form':
+      return body.fields.flat();
+    case 'multipart':
+      return body.parts.flatMap((part) => [part.name, part.value]);
+    default:
+      return [];
+  }
+}
+
+function indent(text: string, prefix: string): string[] {
+  return text.split('\n').map((line) => (line ? `${prefix}${line}` : line));
+}
+
+function joinSections(sections: string[][]): string {
+  return sections
+    .filter((section) => section.length > 0)
+    .map((section) => section.join('\n'))
+    .join('\n\n');
+}
+
+/**
+ * Generates code that sends the request
+ * @param config Parsed request; `{{variables}}` still in it become placeholders with `options.placeholders`
+ * @param language Target language / client
+ * @param options Placeholder mode, file path mapping and leading notes
+ * @returns The code, ending with a newline
+ */
+export function generateHttpRequestCode(
+  config: HttpRequestConfig,
+  language: HttpCodegenLanguage,
+  options: HttpCodegenOptions = {}
+): string {
+  const request = toCodegenRequest(config, options);
+  const codegen = createCodegen(options.placeholders === true, language === 'python');
+  // Declare placeholders in request order: URL, headers, then body
+  [request.url, ...request.headers.map(([, value]) => value), ...bodyStrings(request.body)].forEach((value) =>
+    codegen.segments(value)
+  );
+  switch (language) {
+    case 'fetch':
+      return `${generateJavaScript(request, codegen, false)}\n`;
+    case 'axios':
+      return `${generateJavaScript(request, codegen, true)}\n`;
+    case 'python':
+      return `${generatePython(request, codegen)}\n`;
+    case 'go':
+      return `${generateGo(request, codegen)}\n`;
+    case 'java':
+      return `${generateJava(request, codegen)}\n`;
+    case 'csharp':
+      return `${generateCSharp(request, codegen)}\n`;
+    case 'powershell':
+      return `${generatePowerShell(request, codegen)}\n`;
+  }
+}
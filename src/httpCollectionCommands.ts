@@ -0,0 +1,194 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { EnvironmentManager } from './environmentManager';
+import {
+  detectCollectionFormat,
+  importInsomniaExport,
+  importPostmanCollection,
+  importPostmanEnvironment,
+  type CollectionEnvironment,
+  type CollectionImportResult,
+} from './httpCollectionImport';
+import { exportPostmanCollection, type PostmanExportFile } from './httpPostmanExport';
+import { isHttpRequestExtension } from './httpRequestExtensions';
+import { getFileExtension, getHttpPath } from './utils';
+
+async function readText(uri: vscode.Uri): Promise<string> {
+  return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+}
+
+async function fileExists(uri: vscode.Uri): Promise<boolean> {
+  try {
+    await vscode.workspace.fs.stat(uri);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Imports Postman collections / environments and Insomnia exports (several files can be
+ * picked at once). Existing `.req` files are left untouched.
+ */
+async function importCollections(): Promise<void> {
+  const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  if (!workspacePath) {
+    vscode.window.showErrorMessage('Open a workspace folder to import a collection.');
+    return;
+  }
+  const selected = await vscode.window.showOpenDialog({
+    title: 'Select Postman Collection / Environment or Insomnia Export',
+    filters: { 'Postman / Insomnia': ['json'] },
+    canSelectMany: true,
+  });
+  if (!selected || selected.length === 0) {
+    return;
+  }
+
+  const documents: unknown[] = [];
+  for (const uri of selected) {
+    try {
+      const doc = JSON.parse(await readText(uri));
+      if (!detectCollectionFormat(doc)) {
+        throw new Error('not a Postman collection, Postman environment or Insomnia v4 export');
+      }
+      documents.push(doc);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      vscode.window.showErrorMessage(`Failed to import ${path.basename(uri.fsPath)}: ${message}`);
+      return;
+    }
+  }
+
+  const environments: CollectionEnvironment[] = documents
+    .filter((doc) => detectCollectionFormat(doc) === 'postman-environment')
+    .map(importPostmanEnvironment);
+  const results: CollectionImportResult[] = documents.map((doc) => {
+    const format = detectCollectionFormat(doc);
+    if (format === 'postman') {
+      return importPostmanCollection(doc, environments[0]?.name ?? 'dev');
+    }
+    return format === 'insomnia' ? importInsomniaExport(doc) : null;
+  }).filter((result): result is CollectionImportResult => result !== null);
+
+  const httpPath = getHttpPath(workspacePath);
+  const envManager = EnvironmentManager.getInstance();
+  let created = 0;
+  let skipped = 0;
+  const envNames = new Set<string>();
+  const warnings = new Set<string>();
+  for (const result of results) {
+    for (const file of result.files) {
+      const fileUri = vscode.Uri.file(path.join(httpPath, result.folderName, ...file.relativePath.split('/')));
+      if (await fileExists(fileUri)) {
+        skipped++;
+        continue;
+      }
+      await vscode.workspace.fs.createDirectory(vscode.Uri.file(path.dirname(fileUri.fsPath)));
+      await vscode.workspace.fs.writeFile(fileUri, Buffer.from(file.content, 'utf8'));
+      created++;
+    }
+
+    const resultEnvironments = [...result.environments, ...environments];
+    try {
+      for (const env of resultEnvironments) {
+        envManager.mergeEnvironmentVariables(env.name, workspacePath, { ...result.variables, ...env.variables });
+        envNames.add(env.name);
+      }
+      if (resultEnvironments.length === 0 && Object.keys(result.variables).length > 0) {
+        envManager.addMissingVariables('dev', workspacePath, result.variables);
+      }
+    } catch (error) {
+      console.error('Failed to write imported environment variables', error);
+    }
+    result.warnings.forEach((warning) => warnings.add(warning));
+  }
+  if (results.length === 0) {
+    // Only environments were picked
+    for (const env of environments) {
+      envManager.mergeEnvironmentVariables(env.name, workspacePath, env.variables);
+      envNames.add(env.name);
+    }
+  }
+
+  const summary = [`${created} request file(s) created`];
+  if (skipped > 0) {
+    summary.push(`${skipped} existing file(s) left unchanged`);
+  }
+  if (envNames.size > 0) {
+    summary.push(`environments: ${[...envNames].join(', ')}`);
+  }
+  const title = results.map((r) => `"${r.title}"`).join(', ') || 'environments';
+  vscode.window.showInformationMessage(`Imported ${title} (${summary.join('; ')}).`);
+  if (warnings.size > 0) {
+    vscode.window.showWarningMessage(`Import notes: ${[...warnings].join(' ')}`);
+  }
+}
+
+async function collectRequestFiles(root: vscode.Uri, relative = ''): Promise<PostmanExportFile[]> {
+  const files: PostmanExportFile[] = [];
+  for (const [name, type] of await vscode.workspace.fs.readDirectory(vscode.Uri.joinPath(root, relative))) {
+    const childRelative = relative ? `${relative}/${name}` : name;
+    if (type === vscode.FileType.Directory) {
+      files.push(...(await collectRequestFiles(root, childRelative)));
+    } else if (type === vscode.FileType.File && isHttpRequestExtension(getFileExtension(name).toLowerCase())) {
+      files.push({ relativePath: childRelative, content: await readText(vscode.Uri.joinPath(root, childRelative)) });
+    }
+  }
+  return files;
+}
+
+/**
+ * Exports a folder of `.req` files to a Postman Collection v2.1 JSON file.
+ */
+async function exportToPostman(folderUri?: vscode.Uri): Promise<void> {
+  let folder = folderUri;
+  if (!folder) {
+    const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    const selected = await vscode.window.showOpenDialog({
+      title: 'Select HTTP Request Folder to Export',
+      canSelectFolders: true,
+      canSelectFiles: false,
+      canSelectMany: false,
+      defaultUri: workspacePath ? vscode.Uri.file(getHttpPath(workspacePath)) : undefined,
+    });
+    if (!selected || selected.length === 0) {
+      return;
+    }
+    folder = selected[0];
+  }
+
+  const files = await collectRequestFiles(folder);
+  const name = path.basename(folder.fsPath);
+  const result = exportPostmanCollection(name, files);
+  if (result.requestCount === 0) {
+    vscode.window.showWarningMessage(`No HTTP requests found in ${name}.`);
+    return;
+  }
+
+  const target = await vscode.window.showSaveDialog({
+    title: 'Save Postman Collection',
+    defaultUri: vscode.Uri.file(path.join(path.dirname(folder.fsPath), `${name}.postman_collection.json`)),
+    filters: { 'Postman Collection': ['json'] },
+  });
+  if (!target) {
+    return;
+  }
+  await vscode.workspace.fs.writeFile(target, Buffer.from(`${JSON.stringify(result.collection, null, 2)}\n`, 'utf8'));
+  vscode.window.showInformationMessage(`Exported ${result.requestCount} request(s) to ${path.basename(target.fsPath)}.`);
+  if (result.warnings.length > 0) {
+    vscode.window.showWarningMessage(`Export notes: ${result.warnings.join(' ')}`);
+  }
+}
+
+/**
+ * Registers the Postman / Insomnia import and Postman export commands.
+ */
+export function registerHttpCollectionCommands(context: vscode.ExtensionContext): void {
+  context.subscriptions.push(
+    vscode.commands.registerCommand('cursor-toys.importHttpCollection', () => importCollections()),
+    vscode.commands.registerCommand('cursor-toys.exportPostmanCollection', (uri?: vscode.Uri) =>
+      exportToPostman(uri instanceof vscode.Uri ? uri : undefined)
+    )
+  );
+}
@@ -0,0 +1,249 @@
+import * as assert from 'assert';
+import { extractAssertions } from './assertionParser';
+import {
+  detectCollectionFormat,
+  importInsomniaExport,
+  importPostmanCollection,
+  importPostmanEnvironment,
+  toCollectionEnvName,
+  translateTestScript,
+} from './httpCollectionImport';
+import { parseRestClientFormat } from './httpRequestParse';
+
+const POSTMAN_COLLECTION = {
+  info: {
+    name: 'Shop API',
+    schema: 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json',
+  },
+  auth: { type: 'bearer', bearer: [{ key: 'token', value: '{{token}}', type: 'string' }] },
+  variable: [{ key: 'base-url', value: 'https://shop.example.com' }],
+  item: [
+    {
+      name: 'Users',
+      item: [
+        {
+          name: 'Get user',
+          event: [
+            {
+              listen: 'test',
+              script: {
+                exec: [
+                  'pm.test("Status code is 200", function () {',
+                  '    pm.response.to.have.status(200);',
+                  '});',
+                  'var jsonData = pm.response.json();',
+                  'pm.test("Has name", function () {',
+                  '    pm.expect(jsonData.name).to.eql("Ann");',
+                  '    pm.expect(jsonData.roles).to.be.an("array");',
+                  '});',
+                  'pm.environment.set("userId", jsonData.id);',
+                ],
+              },
+            },
+          ],
+          request: {
+            method: 'GET',
+            header: [
+              { key: 'Accept', value: 'application/json' },
+              { key: 'X-Debug', value: '1', disabled: true },
+            ],
+            url: {
+              raw: '{{base-url}}/users/:id?expand=roles',
+              host: ['{{base-url}}'],
+              path: ['users', ':id'],
+              variable: [{ key: 'id', value: '42' }],
+            },
+          },
+        },
+        {
+          name: 'Create user',
+          request: {
+            method: 'POST',
+            auth: { type: 'basic', basic: [{ key: 'username', value: 'ann' }, { key: 'password', value: 'secret' }] },
+            url: '{{base-url}}/users',
+            body: { mode: 'raw', raw: '{"name": "Ann"}', options: { raw: { language: 'json' } } },
+          },
+        },
+      ],
+    },
+    {
+      name: 'Login',
+      request: {
+        method: 'POST',
+        auth: { type: 'noauth' },
+        url: '{{base-url}}/login',
+        body: {
+          mode: 'urlencoded',
+          urlencoded: [
+            { key: 'user', value: 'ann' },
+            { key: 'debug', value: '1', disabled: true },
+          ],
+        },
+      },
+    },
+    {
+      name: 'Search',
+      request: {
+        method: 'POST',
+        url: '{{base-url}}/graphql',
+        body: { mode: 'graphql', graphql: { query: 'query { users { id } }', variables: '' } },
+      },
+    },
+  ],
+};
+
+function runTests(): void {
+  testDetectFormat();
+  testTranslateTestScript();
+  testPostmanImport();
+  testPostmanEnvironment();
+  testInsomniaImport();
+  console.log('All httpCollectionImport tests passed.');
+}
+
+function testDetectFormat(): void {
+  assert.strictEqual(detectCollectionFormat(POSTMAN_COLLECTION), 'postman');
+  assert.strictEqual(detectCollectionFormat({ name: 'Dev', values: [] }), 'postman-environment');
+  assert.strictEqual(detectCollectionFormat({ _type: 'export', resources: [] }), 'insomnia');
+  assert.strictEqual(detectCollectionFormat({ openapi: '3.0.0' }), null);
+  assert.throws(() => importPostmanCollection({}), /Not a Postman collection/);
+  assert.strictEqual(toCollectionEnvName('Staging EU'), 'staging_eu');
+}
+
+function testTranslateTestScript(): void {
+  const { assertions, unconverted } = translateTestScript(
+    [
+      "pm.test('fast', () => pm.expect(pm.response.responseTime).to.be.below(500));",
+      'pm.test("type", function () { pm.response.to.have.header("Content-Type", "application/json"); });',
+      'pm.expect(pm.response.json().items[0].id).to.exist;',
+      'pm.expect(pm.response.code).to.be.oneOf([200, 201]);',
+      "pm.expect(pm.response.text()).to.include('ok');",
+      'pm.expect(pm.response.json().tags).to.have.lengthOf(2);',
+      'pm.expect(pm.response.json().deleted).to.not.be.true;',
+      'pm.expect(pm.response.json().email).to.match(/@example\\.com$/);',
+      'console.log(pm.response.json());',
+    ].join('\n')
+  );
+  assert.deepStrictEqual(assertions, [
+    '@assert("fast", "res.timings.total", "lt", 500)',
+    '@assert("type", "res.headers.content-type", "equals", "application/json")',
+    '@assert("res.body.items[0].id isDefined", "res.body.items[0].id", "isDefined")',
+    '@assert("res.status in", "res.status", "in", [200,201])',
+    '@assert("res.body contains", "res.body", "contains", "ok")',
+    '@assert("res.body.tags length", "res.body.tags", "length", 2)',
+    '@assert("res.body.deleted notEquals", "res.body.deleted", "notEquals", true)',
+    '@assert("res.body.email matches", "res.body.email", "matches", /@example\\.com$/)',
+  ]);
+  assert.deepStrictEqual(unconverted, ['console.log(pm.response.json())']);
+}
+
+function testPostmanImport(): void {
+  const result = importPostmanCollection(POSTMAN_COLLECTION, 'staging');
+  assert.strictEqual(result.folderName, 'shop-api');
+  assert.deepStrictEqual(result.variables, { base_url: 'https://shop.example.com' });
+  assert.deepStrictEqual(
+    result.files.map((f) => f.relativePath),
+    ['users/get-user.req', 'users/create-user.req', 'login.req', 'search.req']
+  );
+
+  const get = result.files[0].content;
+  assert.ok(get.startsWith('# @env staging\n\n## Get user\n# @var id=42\n'));
+  assert.ok(get.includes('#   pm.environment.set("userId", jsonData.id)'));
+  assert.ok(get.includes('GET {{base_url}}/users/{{id}}?expand=roles\nAccept: application/json\nAuthorization: Bearer {{token}}\n'));
+  assert.ok(!get.includes('X-Debug'));
+  assert.deepStrictEqual(
+    extractAssertions(get).map((a) => [a.description, a.expression, a.operator, a.expected]),
+    [
+      ['Status code is 200', 'res.status', 'equals', 200],
+      ['Has name', 'res.body.name', 'equals', 'Ann'],
+      ['Has name', 'res.body.roles', 'isArray', null],
+    ]
+  );
+
+  const create = parseRestClientFormat(result.files[1].content);
+  assert.deepStrictEqual(create?.headers, {
+    Authorization: `Basic ${Buffer.from('ann:secret').toString('base64')}`,
+    'Content-Type': 'application/json',
+  });
+  assert.strictEqual(create?.body, '{"name": "Ann"}');
+
+  const login = result.files[2].content;
+  assert.ok(!login.includes('Authorization'));
+  assert.ok(login.includes('Content-Type: application/x-www-form-urlencoded\n\nuser=ann\n'));
+
+  assert.ok(result.files[3].content.includes('GRAPHQL {{base_url}}/graphql\nAuthorization: Bearer {{token}}\n\nquery { users { id } }\n'));
+}
+
+function testPostmanEnvironment(): void {
+  const env = importPostmanEnvironment({
+    name: 'Staging EU',
+    values: [
+      { key: 'token', value: 'abc', enabled: true },
+      { key: 'old', value: 'x', enabled: false },
+      { key: 'api.key', value: '{{token}}' },
+    ],
+    _postman_variable_scope: 'environment',
+  });
+  assert.deepStrictEqual(env, { name: 'staging_eu', variables: { token: 'abc', api_key: '{{token}}' } });
+}
+
+function testInsomniaImport(): void {
+  const result = importInsomniaExport({
+    _type: 'export',
+    __export_format: 4,
+    resources: [
+      { _id: 'wrk_1', _type: 'workspace', name: 'Billing' },
+      { _id: 'env_base', _type: 'environment', parentId: 'wrk_1', name: 'Base', data: { api: { url: 'http://localhost' } } },
+      { _id: 'env_prod', _type: 'environment', parentId: 'env_base', name: 'Production', data: { api: { url: 'https://billing.example.com' } } },
+      { _id: 'fld_1', _type: 'request_group', parentId: 'wrk_1', name: 'Invoices', authentication: { type: 'bearer', token: '{{ _.token }}' } },
+      {
+        _id: 'req_1',
+        _type: 'request',
+        parentId: 'fld_1',
+        name: 'List invoices',
+        method: 'GET',
+        url: '{{ _.api.url }}/invoices',
+        parameters: [{ name: 'page', value: '1' }, { name: 'x', value: 'y', disabled: true }],
+        headers: [{ name: 'X-Request-Id', value: "{% uuid 'v4' %}" }],
+        authentication: {},
+      },
+      {
+        _id: 'req_2',
+        _type: 'request',
+        parentId: 'wrk_1',
+        name: 'Upload',
+        method: 'POST',
+        url: '{{ _.api.url }}/upload',
+        body: { mimeType: 'multipart/form-data', params: [{ name: 'file', type: 'file', fileName: './invoice.pdf' }] },
+        authentication: { type: 'apikey', key: 'X-Key', value: '{{ _.key }}', addTo: 'header' },
+      },
+      {
+        _id: 'ut_1',
+        _type: 'unit_test',
+        parentId: 'uts_1',
+        requestId: 'req_1',
+        name: 'Returns 200',
+        code: 'const response = await insomnia.send();\nexpect(response.status).to.equal(200);',
+      },
+    ],
+  });
+
+  assert.strictEqual(result.title, 'Billing');
+  assert.deepStrictEqual(result.variables, { api_url: 'http://localhost' });
+  assert.deepStrictEqual(result.environments, [{ name: 'production', variables: { api_url: 'https://billing.example.com' } }]);
+  assert.deepStrictEqual(result.files.map((f) => f.relativePath), ['invoices/list-invoices.req', 'upload.req']);
+
+  const list = result.files[0].content;
+  assert.ok(list.startsWith('# @env production\n'));
+  assert.ok(list.includes('GET {{api_url}}/invoices?page=1\nX-Request-Id: {{$guid}}\nAuthorization: Bearer {{token}}\n'));
+  assert.deepStrictEqual(extractAssertions(list).map((a) => [a.description, a.expression, a.expected]), [
+    ['Returns 200', 'res.status', 200],
+  ]);
+
+  const upload = result.files[1].content;
+  assert.ok(upload.includes('X-Key: {{key}}'));
+  assert.ok(upload.includes('Content-Type: multipart/form-data; boundary=----CursorToysFormBoundary'));
+  assert.ok(upload.includes('< ./invoice.pdf'));
+}
+
+runTests();
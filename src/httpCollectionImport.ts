@@ -0,0 +1,850 @@
+/**
+ * Postman Collection v2.1 / Insomnia v4 import: folders become directories, requests become
+ * `.req` files, environments become `.env.{name}` variables and simple test scripts become
+ * `@assert` lines. Pure helpers — no VS Code dependencies.
+ */
+import {
+  DEFAULT_MULTIPART_BOUNDARY,
+  serializeMultipartFields,
+  serializeUrlencodedFields,
+  type HttpRequestBodyField,
+} from './httpRequestBody';
+import { toHttpRequestFileSlug, uniqueHttpRequestFileSlug } from './httpRequestFileNaming';
+
+type JsonObject = Record<string, any>;
+
+export type CollectionFormat = 'postman' | 'postman-environment' | 'insomnia';
+
+/** A generated request file, relative to the collection folder. */
+export interface CollectionRequestFile {
+  relativePath: string;
+  content: string;
+}
+
+export interface CollectionEnvironment {
+  /** `.env.{name}` suffix, usable in `# @env` (word characters only). */
+  name: string;
+  variables: Record<string, string>;
+}
+
+export interface CollectionImportResult {
+  title: string;
+  /** Folder name for the collection under the HTTP path. */
+  folderName: string;
+  files: CollectionRequestFile[];
+  /** Collection-level variables (defaults shared by every environment). */
+  variables: Record<string, string>;
+  environments: CollectionEnvironment[];
+  /** Things that could not be converted (auth types, template tags, ...). */
+  warnings: string[];
+}
+
+/** Request in a tool-neutral shape, rendered to `.req` text by {@link buildCollectionRequestFile}. */
+interface ImportedRequest {
+  name: string;
+  method: string;
+  url: string;
+  headers: Array<{ key: string; value: string }>;
+  body?: string;
+  /** Added as `Content-Type` when the headers do not set one. */
+  contentType?: string;
+  /** `# @var` lines (Postman path variables). */
+  vars: Array<{ key: string; value: string }>;
+  assertions: string[];
+  /** Comment lines for anything left unconverted. */
+  notes: string[];
+}
+
+interface AuthResult {
+  headers: Array<{ key: string; value: string }>;
+  query: Array<{ key: string; value: string }>;
+  notes: string[];
+}
+
+const POSTMAN_DYNAMIC_VARIABLES = new Set(['$guid', '$timestamp', '$randomInt', '$isoTimestamp']);
+
+/**
+ * Tells Postman collections, Postman environments and Insomnia v4 exports apart
+ */
+export function detectCollectionFormat(doc: unknown): CollectionFormat | null {
+  if (!doc || typeof doc !== 'object') {
+    return null;
+  }
+  const d = doc as JsonObject;
+  if (d._type === 'export' && Array.isArray(d.resources)) {
+    return 'insomnia';
+  }
+  if (d.info && Array.isArray(d.item)) {
+    return 'postman';
+  }
+  if (Array.isArray(d.values) && (d._postman_variable_scope === 'environment' || typeof d.name === 'string')) {
+    return 'postman-environment';
+  }
+  return null;
+}
+
+/** Variable name usable in `{{...}}`, `# @var` and `.env` files (`api-key` → `api_key`). */
+export function toCollectionVariableName(name: string): string {
+  const cleaned = name.trim().replace(/[^a-zA-Z0-9_]+/g, '_').replace(/^_+|_+$/g, '');
+  return /^[a-zA-Z_]/.test(cleaned) ? cleaned : `v_${cleaned}`;
+}
+
+/** Environment name usable in `# @env` (`Staging EU` → `staging_eu`). */
+export function toCollectionEnvName(name: string): string {
+  const cleaned = name.trim().toLowerCase().replace(/\W+/g, '_').replace(/^_+|_+$/g, '');
+  return cleaned || 'imported';
+}
+
+/**
+ * Rewrites Postman `{{var}}` / Insomnia `{{ _.var }}` placeholders to `{{var}}` with
+ * names the resolver accepts; Postman dynamic variables are kept.
+ */
+function convertTemplate(text: string, warnings?: Set<string>): string {
+  return text
+    .replace(/\{\{\s*([^{}]+?)\s*\}\}/g, (_m, raw: string) => {
+      if (raw.startsWith('$')) {
+        if (!POSTMAN_DYNAMIC_VARIABLES.has(raw)) {
+          warnings?.add(`Dynamic variable {{${raw}}} has no equivalent and was kept as written.`);
+        }
+        return raw === '$isoTimestamp' ? '{{$datetime iso8601}}' : `{{${raw}}}`;
+      }
+      return `{{${toCollectionVariableName(raw.replace(/^_\./, ''))}}}`;
+    })
+    .replace(/\{%\s*(\w+)([^%]*)%\}/g, (match, tag: string) => {
+      if (tag === 'uuid') {
+        return '{{$guid}}';
+      }
+      if (tag === 'now') {
+        return '{{$timestamp}}';
+      }
+      warnings?.add(`Insomnia template tag {% ${tag} %} is not supported and was kept as written.`);
+      return match;
+    });
+}
+
+function escapeDescription(text: string): string {
+  return text.replace(/"/g, "'").replace(/\s+/g, ' ').trim();
+}
+
+function formatLiteral(value: unknown): string {
+  return typeof value === 'string' ? JSON.stringify(value) : JSON.stringify(value ?? null);
+}
+
+/**
+ * Parses a JavaScript literal argument (`200`, `'ok'`, `"ok"`, `true`, `[1, 2]`, `/re/`)
+ * into the text of an `@assert` expected value; null when it is not a literal.
+ */
+function parseScriptLiteral(raw: string): string | null {
+  const text = raw.trim();
+  if (/^-?\d+(\.\d+)?$/.test(text) || /^(true|false|null)$/.test(text)) {
+    return text;
+  }
+  const quoted = text.match(/^(['"`])(.*)\1$/);
+  if (quoted && !quoted[2].includes('${')) {
+    return formatLiteral(quoted[2].replace(/\\(['"`\\])/g, '$1'));
+  }
+  if (/^\/.+\/[gimsuy]*$/.test(text)) {
+    return text;
+  }
+  if (text.startsWith('[') && text.endsWith(']')) {
+    try {
+      return JSON.stringify(JSON.parse(text.replace(/'/g, '"')));
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+/** Maps a chai assertion chain to an `@assert` operator and expected value. */
+function translateChain(chain: string, arg: string | undefined): { operator: string; expected?: string } | null {
+  const negated = /(^|\.)not\./.test(`${chain}.`);
+  const words = chain.replace(/(^|\.)(to|be|been|is|that|which|and|has|have|with|at|of|same|does|deep|not)(?=\.|$)/g, '$1')
+    .split('.')
+    .filter(Boolean);
+  const last = words[words.length - 1];
+  const literal = arg !== undefined ? parseScriptLiteral(arg) : null;
+  const withValue = (operator: string) => (literal === null ? null : { operator, expected: literal });
+
+  switch (last) {
+    case 'eql':
+    case 'equal':
+    case 'equals':
+    case 'eq':
+      if (literal?.startsWith('[') || literal?.startsWith('/')) {
+        return null;
+      }
+      return withValue(negated ? 'notEquals' : 'equals');
+    case 'above':
+    case 'gt':
+    case 'greaterThan':
+      return negated ? null : withValue('gt');
+    case 'least':
+    case 'gte':
+      return negated ? null : withValue('gte');
+    case 'below':
+    case 'lt':
+    case 'lessThan':
+      return negated ? null : withValue('lt');
+    case 'most':
+    case 'lte':
+      return negated ? null : withValue('lte');
+    case 'include':
+    case 'includes':
+    case 'contain':
+    case 'contains':
+      return literal?.startsWith('"') ? withValue(negated ? 'notContains' : 'contains') : null;
+    case 'match':
+      return literal?.startsWith('/') ? withValue(negated ? 'notMatches' : 'matches') : null;
+    case 'oneOf':
+      return literal?.startsWith('[') ? withValue(negated ? 'notIn' : 'in') : null;
+    case 'lengthOf':
+    case 'length':
+      return negated ? null : withValue('length');
+    case 'exist':
+    case 'exists':
+      return { operator: negated ? 'isUndefined' : 'isDefined' };
+    case 'undefined':
+      return { operator: negated ? 'isDefined' : 'isUndefined' };
+    case 'null':
+      return { operator: negated ? 'isNotNull' : 'isNull' };
+    case 'empty':
+      return { operator: negated ? 'isNotEmpty' : 'isEmpty' };
+    case 'true':
+    case 'false':
+      return { operator: negated ? 'notEquals' : 'equals', expected: last };
+    case 'ok':
+      return { operator: negated ? 'isFalsy' : 'isTruthy' };
+    case 'a':
+    case 'an': {
+      if (negated) {
+        return null;
+      }
+      const type = literal ? String(JSON.parse(literal)).toLowerCase() : '';
+      const operator = { array: 'isArray', string: 'isString', number: 'isNumber', boolean: 'isBoolean' }[type];
+      return operator ? { operator } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Translates a Postman (`pm.*`) or Insomnia unit test script into `@assert` lines. Statements
+ * that are not simple expectations are returned in `unconverted`.
+ */
+export function translateTestScript(script: string): { assertions: string[]; unconverted: string[] } {
+  const assertions: string[] = [];
+  const unconverted: string[] = [];
+  /** Expression prefixes that stand for response parts (`jsonData` → `res.body`). */
+  const aliases = new Map<string, string>([
+    ['pm.response.code', 'res.status'],
+    ['pm.response.responseTime', 'res.timings.total'],
+    ['pm.response.text()', 'res.body'],
+    ['pm.response.json()', 'res.body'],
+    ['responseCode.code', 'res.status'],
+    ['responseBody', 'res.body'],
+    ['responseTime', 'res.timings.total'],
+  ]);
+  let testName = '';
+
+  const toExpression = (raw: string): string | null => {
+    let text = raw.replace(/\s+/g, '').replace(/\[(['"])([^'"]+)\1\]/g, '.$2');
+    const header = text.match(/^(?:pm\.response\.headers\.get|\w+\.headers\.get)\((['"])(.+)\1\)$/);
+    if (header) {
+      return `res.headers.${header[2].toLowerCase()}`;
+    }
+    for (const [alias, target] of [...aliases].sort((a, b) => b[0].length - a[0].length)) {
+      if (text === alias || text.startsWith(`${alias}.`) || text.startsWith(`${alias}[`)) {
+        text = target + text.slice(alias.length);
+        return /^res(\.[\w$-]+|\[\d+\])*$/.test(text) ? text : null;
+      }
+    }
+    return null;
+  };
+  const push = (expression: string, operator: string, expected?: string): void => {
+    const description = escapeDescription(testName || `${expression} ${operator}`);
+    assertions.push(
+      expected === undefined
+        ? `@assert("${description}", "${expression}", "${operator}")`
+        : `@assert("${description}", "${expression}", "${operator}", ${expected})`
+    );
+  };
+
+  const statements = script
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+    .split(/\n|;(?=\s*\S)/)
+    .map((line) => line.replace(/(^|\s)\/\/.*$/, '').trim().replace(/;$/, ''))
+    .filter(Boolean);
+  for (let i = 0; i < statements.length; i++) {
+    const statement = statements[i];
+    const test = statement.match(/^(?:pm\.test|it|test)\(\s*(['"`])(.+?)\1\s*,/);
+    if (test) {
+      testName = test[2];
+      const callback = statement.slice(test[0].length).match(/^\s*(?:async\s*)?(?:function\s*\(\s*\)|\(\s*\)\s*=>)\s*(\{?)(.*)$/);
+      // `() => expect(...))`: the body ends with the closing parenthesis of the test call
+      const rest = callback?.[1] ? callback[2].trim() : callback?.[2].trim().replace(/\)\s*;?$/, '');
+      if (rest) {
+        statements.splice(i + 1, 0, rest, ...(callback?.[1] ? [] : ['})']));
+      }
+      continue;
+    }
+    if (/^[})\];,\s]*$/.test(statement)) {
+      if (/^\}\s*\)/.test(statement)) {
+        testName = '';
+      }
+      continue;
+    }
+    if (/^describe\b/.test(statement)) {
+      continue;
+    }
+
+    const alias = statement.match(/^(?:var|let|const)\s+(\w+)\s*=\s*(?:await\s+)?(.+?);?$/);
+    if (alias) {
+      const value = alias[2].replace(/\s+/g, '');
+      if (/^insomnia\.send\(\)$/.test(value)) {
+        aliases.set(`${alias[1]}.status`, 'res.status');
+        aliases.set(`${alias[1]}.data`, 'res.body');
+        continue;
+      }
+      const jsonParse = value.match(/^JSON\.parse\((.+)\)$/);
+      const target = toExpression(jsonParse ? jsonParse[1] : value);
+      if (target) {
+        aliases.set(alias[1], target);
+        continue;
+      }
+      unconverted.push(statement);
+      continue;
+    }
+
+    const status = statement.match(/^pm\.response\.to\.(not\.)?(?:have\.|be\.)?status\((\d{3})\);?$/);
+    if (status) {
+      push('res.status', status[1] ? 'notEquals' : 'equals', status[2]);
+      continue;
+    }
+    if (/^pm\.response\.to\.be\.(ok|success);?$/.test(statement)) {
+      push('res.status', 'between', '[200, 299]');
+      continue;
+    }
+    const header = statement.match(/^pm\.response\.to\.(not\.)?(?:have|be)\.header\(\s*(['"])(.+?)\2\s*(?:,\s*(.+?))?\);?$/);
+    if (header) {
+      const expression = `res.headers.${header[3].toLowerCase()}`;
+      const literal = header[4] !== undefined ? parseScriptLiteral(header[4]) : null;
+      if (header[4] !== undefined && literal === null) {
+        unconverted.push(statement);
+      } else if (literal !== null) {
+        push(expression, header[1] ? 'notEquals' : 'equals', literal);
+      } else {
+        push(expression, header[1] ? 'isUndefined' : 'isDefined');
+      }
+      continue;
+    }
+
+    const expectation = statement.match(/^(?:pm\.)?expect\((.+?)\)\.((?:\w+\.)*\w+)(?:\((.*)\))?;?$/);
+    if (expectation) {
+      const expression = toExpression(expectation[1]);
+      const translated = expression ? translateChain(expectation[2], expectation[3]) : null;
+      if (expression && translated) {
+        push(expression, translated.operator, translated.expected);
+        continue;
+      }
+    }
+    unconverted.push(statement);
+  }
+
+  return { assertions, unconverted };
+}
+
+/**
+ * Renders an imported request as a `.req` file
+ */
+function buildCollectionRequestFile(request: ImportedRequest, envName: string): string {
+  const lines: string[] = [`# @env ${envName}`, '', `## ${request.name.replace(/\s+/g, ' ').trim()}`];
+  for (const v of request.vars) {
+    lines.push(`# @var ${v.key}=${v.value}`);
+  }
+  for (const note of request.notes) {
+    lines.push(`# ${note}`);
+  }
+  if (request.assertions.length > 0) {
+    lines.push('/*', ...request.assertions.map((a) => ` * ${a}`), ' */');
+  }
+  lines.push(`${request.method} ${request.url}`);
+  const hasContentType = request.headers.some((h) => h.key.toLowerCase() === 'content-type');
+  for (const header of request.headers) {
+    lines.push(`${header.key}: ${header.value}`);
+  }
+  if (request.body !== undefined && request.contentType && !hasContentType) {
+    lines.push(`Content-Type: ${request.contentType}`);
+  }
+  if (request.body !== undefined && request.body !== '') {
+    lines.push('', request.body);
+  }
+  lines.push('', '###', '');
+  return lines.join('\n');
+}
+
+function appendQuery(url: string, query: Array<{ key: string; value: string }>): string {
+  if (query.length === 0) {
+    return url;
+  }
+  const pairs = query.map((q) => `${q.key}=${q.value}`).join('&');
+  return `${url}${url.includes('?') ? '&' : '?'}${pairs}`;
+}
+
+/** Request headers plus auth headers the request does not set itself. */
+function mergeHeaders(
+  headers: Array<{ key: string; value: string }>,
+  authHeaders: Array<{ key: string; value: string }>
+): Array<{ key: string; value: string }> {
+  const own = new Set(headers.map((h) => h.key.toLowerCase()));
+  return [...headers, ...authHeaders.filter((h) => !own.has(h.key.toLowerCase()))];
+}
+
+function basicAuth(username: string, password: string, result: AuthResult): void {
+  if (/\{\{/.test(username + password)) {
+    result.headers.push({ key: 'Authorization', value: 'Basic {{basicAuth}}' });
+    result.notes.push(`Basic auth: set basicAuth to base64 of "${username}:${password}"`);
+    return;
+  }
+  result.headers.push({
+    key: 'Authorization',
+    value: `Basic ${Buffer.from(`${username}:${password}`, 'utf8').toString('base64')}`,
+  });
+}
+
+/** Assigns unique slugs to the files of one folder. */
+class FolderNames {
+  private readonly taken = new Map<string, Set<string>>();
+
+  public next(folder: string, name: string, fallback: string): string {
+    const set = this.taken.get(folder) ?? new Set<string>();
+    this.taken.set(folder, set);
+    return uniqueHttpRequestFileSlug(toHttpRequestFileSlug(name, fallback), set);
+  }
+}
+
+// --- Postman ---
+
+function postmanParam(auth: JsonObject, type: string, key: string): string {
+  const params = auth[type];
+  if (Array.isArray(params)) {
+    const found = params.find((p: JsonObject) => p.key === key);
+    return found?.value !== undefined ? String(found.value) : '';
+  }
+  return params && typeof params === 'object' && params[key] !== undefined ? String(params[key]) : '';
+}
+
+function convertPostmanAuth(auth: JsonObject | undefined, warnings: Set<string>): AuthResult {
+  const result: AuthResult = { headers: [], query: [], notes: [] };
+  const type = String(auth?.type ?? 'noauth');
+  const param = (key: string) => convertTemplate(postmanParam(auth ?? {}, type, key), warnings);
+  switch (type) {
+    case 'noauth':
+      break;
+    case 'bearer':
+      result.headers.push({ key: 'Authorization', value: `Bearer ${param('token')}` });
+      break;
+    case 'basic':
+      basicAuth(param('username'), param('password'), result);
+      break;
+    case 'apikey': {
+      const entry = { key: param('key') || 'X-API-Key', value: param('value') };
+      (postmanParam(auth ?? {}, type, 'in') === 'query' ? result.query : result.headers).push(entry);
+      break;
+    }
+    case 'oauth2':
+      result.headers.push({ key: 'Authorization', value: `Bearer ${param('accessToken') || '{{accessToken}}'}` });
+      result.notes.push('OAuth 2.0: the token is not refreshed automatically');
+      break;
+    default:
+      result.notes.push(`Postman ${type} auth was not converted`);
+      warnings.add(`Postman "${type}" auth is not supported; affected requests are marked with a comment.`);
+  }
+  return result;
+}
+
+function postmanUrl(url: unknown): { url: string; vars: Array<{ key: string; value: string }> } {
+  if (typeof url === 'string') {
+    return { url, vars: [] };
+  }
+  const u = (url ?? {}) as JsonObject;
+  let raw: string = u.raw ?? '';
+  if (!raw) {
+    const host = Array.isArray(u.host) ? u.host.join('.') : String(u.host ?? '');
+    const path = Array.isArray(u.path) ? u.path.join('/') : String(u.path ?? '');
+    const query = (u.query ?? []).filter((q: JsonObject) => !q.disabled).map((q: JsonObject) => `${q.key}=${q.value ?? ''}`);
+    raw = `${u.protocol ? `${u.protocol}://` : ''}${host}${path ? `/${path}` : ''}${query.length ? `?${query.join('&')}` : ''}`;
+  }
+  const vars: Array<{ key: string; value: string }> = [];
+  for (const v of u.variable ?? []) {
+    if (!v?.key) {
+      continue;
+    }
+    const name = toCollectionVariableName(String(v.key));
+    raw = raw.replace(new RegExp(`/:${String(v.key).replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?=/|\\?|#|$)`, 'g'), `/{{${name}}}`);
+    vars.push({ key: name, value: String(v.value ?? '') });
+  }
+  return { url: raw, vars };
+}
+
+function postmanBody(body: JsonObject | undefined, warnings: Set<string>): {
+  body?: string;
+  contentType?: string;
+  graphql?: boolean;
+} {
+  if (!body || body.disabled) {
+    return {};
+  }
+  const enabled = (fields: JsonObject[] | undefined) => (fields ?? []).filter((f) => !f.disabled);
+  switch (body.mode) {
+    case 'raw': {
+      const language = body.options?.raw?.language;
+      const contentType = {
+        json: 'application/json',
+        xml: 'application/xml',
+        html: 'text/html',
+        javascript: 'application/javascript',
+        text: 'text/plain',
+      }[String(language)];
+      return { body: convertTemplate(String(body.raw ?? ''), warnings), contentType };
+    }
+    case 'urlencoded': {
+      const fields: HttpRequestBodyField[] = enabled(body.urlencoded).map((f) => ({
+        key: String(f.key),
+        value: convertTemplate(String(f.value ?? ''), warnings),
+        type: 'text',
+      }));
+      return { body: serializeUrlencodedFields(fields), contentType: 'application/x-www-form-urlencoded' };
+    }
+    case 'formdata': {
+      const fields: HttpRequestBodyField[] = enabled(body.formdata).map((f) => {
+        if (f.type === 'file') {
+          const src = Array.isArray(f.src) ? f.src[0] : f.src;
+          return { key: String(f.key), value: String(src || `./${f.key}`), type: 'file' as const };
+        }
+        return {
+          key: String(f.key),
+          value: convertTemplate(String(f.value ?? ''), warnings),
+          type: 'text' as const,
+          ...(f.contentType ? { contentType: String(f.contentType) } : {}),
+        };
+      });
+      return {
+        body: serializeMultipartFields(fields, DEFAULT_MULTIPART_BOUNDARY),
+        contentType: `multipart/form-data; boundary=${DEFAULT_MULTIPART_BOUNDARY}`,
+      };
+    }
+    case 'file':
+      return body.file?.src ? { body: `< ${body.file.src}` } : {};
+    case 'graphql': {
+      const query = String(body.graphql?.query ?? '').trim();
+      const variables = String(body.graphql?.variables ?? '').trim();
+      return {
+        body: convertTemplate(variables && variables !== '{}' ? `${query}\n\n${variables}` : query, warnings),
+        graphql: true,
+      };
+    }
+    default:
+      return {};
+  }
+}
+
+function scriptText(events: JsonObject[] | undefined, listen: string): string {
+  const event = (events ?? []).find((e) => e.listen === listen && !e.disabled);
+  const exec = event?.script?.exec;
+  return Array.isArray(exec) ? exec.join('\n') : String(exec ?? '');
+}
+
+/**
+ * Converts a Postman Collection v2.1 (or v2.0) export
+ */
+export function importPostmanCollection(doc: unknown, envName = 'dev'): CollectionImportResult {
+  if (detectCollectionFormat(doc) !== 'postman') {
+    throw new Error('Not a Postman collection (missing "info" / "item").');
+  }
+  const collection = doc as JsonObject;
+  const warnings = new Set<string>();
+  const files: CollectionRequestFile[] = [];
+  const names = new FolderNames();
+  const title = String(collection.info?.name || 'Postman Collection');
+
+  const visit = (items: JsonObject[], folder: string, inheritedAuth: JsonObject | undefined, inheritedTests: string) => {
+    const folders = new Set<string>();
+    for (const item of items) {
+      const auth = item.auth && item.auth.type !== 'inherit' ? item.auth : inheritedAuth;
+      if (Array.isArray(item.item)) {
+        const name = uniqueHttpRequestFileSlug(toHttpRequestFileSlug(String(item.name ?? ''), 'folder'), folders);
+        visit(item.item, folder ? `${folder}/${name}` : name, auth, `${inheritedTests}\n${scriptText(item.event, 'test')}`);
+        continue;
+      }
+      if (!item.request) {
+        continue;
+      }
+      const request: JsonObject = typeof item.request === 'string' ? { url: item.request } : item.request;
+      const name = String(item.name || 'request');
+      const { url, vars } = postmanUrl(request.url);
+      const authResult = convertPostmanAuth(request.auth && request.auth.type !== 'inherit' ? request.auth : auth, warnings);
+      const body = postmanBody(request.body, warnings);
+      const headers = (request.header ?? [])
+        .filter((h: JsonObject) => !h.disabled && h.key)
+        .map((h: JsonObject) => ({ key: String(h.key), value: convertTemplate(String(h.value ?? ''), warnings) }));
+
+      const notes = [...authResult.notes];
+      const script = translateTestScript(`${inheritedTests}\n${scriptText(item.event, 'test')}`);
+      if (script.unconverted.length > 0) {
+        notes.push('Postman test statements not converted:', ...script.unconverted.map((s) => `  ${s}`));
+      }
+      if (scriptText(item.event, 'prerequest').trim()) {
+        notes.push('Postman pre-request script was not converted');
+      }
+
+      const fileName = names.next(folder, name, 'request');
+      files.push({
+        relativePath: folder ? `${folder}/${fileName}.req` : `${fileName}.req`,
+        content: buildCollectionRequestFile(
+          {
+            name,
+            method: body.graphql ? 'GRAPHQL' : String(request.method || 'GET').toUpperCase(),
+            url: appendQuery(convertTemplate(url, warnings), authResult.query),
+            headers: mergeHeaders(headers, authResult.headers),
+            body: body.body,
+            contentType: body.contentType,
+            vars: vars.map((v) => ({ key: v.key, value: convertTemplate(v.value, warnings) })),
+            assertions: script.assertions,
+            notes,
+          },
+          envName
+        ),
+      });
+    }
+  };
+  visit(collection.item, '', collection.auth, scriptText(collection.event, 'test'));
+
+  const variables: Record<string, string> = {};
+  for (const v of collection.variable ?? []) {
+    if (v?.key && !v.disabled) {
+      variables[toCollectionVariableName(String(v.key))] = convertTemplate(String(v.value ?? ''));
+    }
+  }
+
+  return {
+    title,
+    folderName: toHttpRequestFileSlug(title, 'postman-collection'),
+    files,
+    variables,
+    environments: [],
+    warnings: [...warnings],
+  };
+}
+
+/**
+ * Converts a Postman environment export
+ */
+export function importPostmanEnvironment(doc: unknown): CollectionEnvironment {
+  if (detectCollectionFormat(doc) !== 'postman-environment') {
+    throw new Error('Not a Postman environment (missing "values").');
+  }
+  const env = doc as JsonObject;
+  const variables: Record<string, string> = {};
+  for (const v of env.values) {
+    if (v?.key && v.enabled !== false) {
+      variables[toCollectionVariableName(String(v.key))] = convertTemplate(String(v.value ?? ''));
+    }
+  }
+  return { name: toCollectionEnvName(String(env.name ?? '')), variables };
+}
+
+// --- Insomnia ---
+
+/** Flattens nested Insomnia environment data (`{ api: { url } }` → `api_url`). */
+function flattenInsomniaData(data: unknown, prefix = '', into: Record<string, string> = {}): Record<string, string> {
+  for (const [key, value] of Object.entries((data ?? {}) as JsonObject)) {
+    const name = prefix ? `${prefix}_${key}` : key;
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      flattenInsomniaData(value, name, into);
+    } else {
+      into[toCollectionVariableName(name)] = convertTemplate(typeof value === 'string' ? value : JSON.stringify(value));
+    }
+  }
+  return into;
+}
+
+function convertInsomniaAuth(auth: JsonObject | undefined, warnings: Set<string>): AuthResult {
+  const result: AuthResult = { headers: [], query: [], notes: [] };
+  if (!auth?.type || auth.type === 'none' || auth.disabled) {
+    return result;
+  }
+  const field = (key: string) => convertTemplate(String(auth[key] ?? ''), warnings);
+  switch (auth.type) {
+    case 'bearer':
+      result.headers.push({ key: 'Authorization', value: `${field('prefix') || 'Bearer'} ${field('token')}` });
+      break;
+    case 'basic':
+      basicAuth(field('username'), field('password'), result);
+      break;
+    case 'apikey': {
+      const entry = { key: field('key') || 'X-API-Key', value: field('value') };
+      (auth.addTo === 'queryParams' ? result.query : result.headers).push(entry);
+      break;
+    }
+    case 'oauth2':
+      result.headers.push({ key: 'Authorization', value: `Bearer ${field('accessToken') || '{{accessToken}}'}` });
+      result.notes.push('OAuth 2.0: the token is not refreshed automatically');
+      break;
+    default:
+      result.notes.push(`Insomnia ${auth.type} auth was not converted`);
+      warnings.add(`Insomnia "${auth.type}" auth is not supported; affected requests are marked with a comment.`);
+  }
+  return result;
+}
+
+function insomniaBody(body: JsonObject | undefined, warnings: Set<string>): {
+  body?: string;
+  contentType?: string;
+  graphql?: boolean;
+} {
+  if (!body?.mimeType && !body?.text) {
+    return {};
+  }
+  const mimeType = String(body.mimeType ?? '');
+  const params = (body.params ?? []).filter((p: JsonObject) => !p.disabled);
+  if (mimeType === 'application/x-www-form-urlencoded') {
+    const fields: HttpRequestBodyField[] = params.map((p: JsonObject) => ({
+      key: String(p.name),
+      value: convertTemplate(String(p.value ?? ''), warnings),
+      type: 'text',
+    }));
+    return { body: serializeUrlencodedFields(fields), contentType: mimeType };
+  }
+  if (mimeType === 'multipart/form-data') {
+    const fields: HttpRequestBodyField[] = params.map((p: JsonObject) =>
+      p.type === 'file'
+        ? { key: String(p.name), value: String(p.fileName || `./${p.name}`), type: 'file' as const }
+        : { key: String(p.name), value: convertTemplate(String(p.value ?? ''), warnings), type: 'text' as const }
+    );
+    return {
+      body: serializeMultipartFields(fields, DEFAULT_MULTIPART_BOUNDARY),
+      contentType: `multipart/form-data; boundary=${DEFAULT_MULTIPART_BOUNDARY}`,
+    };
+  }
+  if (mimeType === 'application/graphql') {
+    try {
+      const parsed = JSON.parse(String(body.text ?? '{}'));
+      const variables = parsed.variables && Object.keys(parsed.variables).length > 0
+        ? `\n\n${JSON.stringify(parsed.variables, null, 2)}`
+        : '';
+      return { body: convertTemplate(`${String(parsed.query ?? '').trim()}${variables}`, warnings), graphql: true };
+    } catch {
+      return { body: convertTemplate(String(body.text ?? ''), warnings), contentType: 'application/json' };
+    }
+  }
+  if (body.fileName) {
+    return { body: `< ${body.fileName}`, contentType: mimeType || undefined };
+  }
+  return { body: convertTemplate(String(body.text ?? ''), warnings), contentType: mimeType || undefined };
+}
+
+/**
+ * Converts an Insomnia v4 export (`_type: "export"`); sub environments become named
+ * environments, the base environment the shared variables
+ */
+export function importInsomniaExport(doc: unknown): CollectionImportResult {
+  if (detectCollectionFormat(doc) !== 'insomnia') {
+    throw new Error('Not an Insomnia export (missing "_type": "export" / "resources").');
+  }
+  const resources: JsonObject[] = (doc as JsonObject).resources;
+  const warnings = new Set<string>();
+  const byId = new Map(resources.map((r) => [r._id, r]));
+  const workspace = resources.find((r) => r._type === 'workspace');
+  const title = String(workspace?.name || 'Insomnia Export');
+
+  const baseEnv = resources.find((r) => r._type === 'environment' && r.parentId === workspace?._id)
+    ?? resources.find((r) => r._type === 'environment' && !byId.has(r.parentId));
+  const variables = flattenInsomniaData(baseEnv?.data);
+  const environments: CollectionEnvironment[] = resources
+    .filter((r) => r._type === 'environment' && r !== baseEnv)
+    .map((r) => ({ name: toCollectionEnvName(String(r.name ?? '')), variables: flattenInsomniaData(r.data) }));
+  const envName = environments[0]?.name ?? 'dev';
+
+  const folderPaths = new Map<string, string>();
+  const folderNames = new Map<string, Set<string>>();
+  const folderOf = (parentId: string | undefined): string => {
+    const parent = parentId ? byId.get(parentId) : undefined;
+    if (!parent || parent._type !== 'request_group') {
+      return '';
+    }
+    if (!folderPaths.has(parent._id)) {
+      const outer = folderOf(parent.parentId);
+      const taken = folderNames.get(outer) ?? new Set<string>();
+      folderNames.set(outer, taken);
+      const name = uniqueHttpRequestFileSlug(toHttpRequestFileSlug(String(parent.name ?? ''), 'folder'), taken);
+      folderPaths.set(parent._id, outer ? `${outer}/${name}` : name);
+    }
+    return folderPaths.get(parent._id)!;
+  };
+  const inheritedAuth = (parentId: string | undefined): JsonObject | undefined => {
+    for (let parent = parentId ? byId.get(parentId) : undefined; parent; parent = byId.get(parent.parentId)) {
+      if (parent.authentication?.type) {
+        return parent.authentication;
+      }
+    }
+    return undefined;
+  };
+
+  const names = new FolderNames();
+  const files: CollectionRequestFile[] = [];
+  for (const request of resources.filter((r) => r._type === 'request')) {
+    const folder = folderOf(request.parentId);
+    const name = String(request.name || 'request');
+    const auth = convertInsomniaAuth(
+      request.authentication?.type ? request.authentication : inheritedAuth(request.parentId),
+      warnings
+    );
+    const body = insomniaBody(request.body, warnings);
+    const headers = (request.headers ?? [])
+      .filter((h: JsonObject) => !h.disabled && h.name)
+      .map((h: JsonObject) => ({ key: String(h.name), value: convertTemplate(String(h.value ?? ''), warnings) }));
+    const query = (request.parameters ?? [])
+      .filter((p: JsonObject) => !p.disabled && p.name)
+      .map((p: JsonObject) => ({ key: String(p.name), value: convertTemplate(String(p.value ?? ''), warnings) }));
+
+    const assertions: string[] = [];
+    const notes = [...auth.notes];
+    for (const test of resources.filter((r) => r._type === 'unit_test' && r.requestId === request._id)) {
+      const script = translateTestScript(`it(${JSON.stringify(String(test.name ?? 'test'))}, () => {\n${test.code ?? ''}\n})`);
+      assertions.push(...script.assertions);
+      if (script.unconverted.length > 0) {
+        notes.push('Insomnia test statements not converted:', ...script.unconverted.map((s) => `  ${s}`));
+      }
+    }
+
+    const fileName = names.next(folder, name, 'request');
+    files.push({
+      relativePath: folder ? `${folder}/${fileName}.req` : `${fileName}.req`,
+      content: buildCollectionRequestFile(
+        {
+          name,
+          method: body.graphql ? 'GRAPHQL' : String(request.method || 'GET').toUpperCase(),
+          url: appendQuery(convertTemplate(String(request.url ?? ''), warnings), [...query, ...auth.query]),
+          headers: mergeHeaders(headers, auth.headers),
+          body: body.body,
+          contentType: body.contentType,
+          vars: [],
+          assertions,
+          notes,
+        },
+        envName
+      ),
+    });
+  }
+
+  return {
+    title,
+    folderName: toHttpRequestFileSlug(title, 'insomnia-export'),
+    files,
+    variables,
+    environments,
+    warnings: [...warnings],
+  };
+}
@@ -0,0 +1,124 @@
+import * as assert from 'assert';
+import {
+  cookieJarKey,
+  CookieJar,
+  defaultCookiePath,
+  domainMatches,
+  mergeCookieHeader,
+  parseCookieJarKey,
+  parseNoCookieJarLine,
+  parseSetCookie,
+  pathMatches,
+} from './httpCookieJar';
+
+const NOW = Date.parse('2026-01-01T00:00:00Z');
+
+function runTests(): void {
+  testDomainAndPathMatching();
+  testParseSetCookie();
+  testJarSendsMatchingCookies();
+  testJarReplacesAndDeletes();
+  testJarExpiry();
+  testMergeCookieHeader();
+  testKeysAndDirective();
+  console.log('All httpCookieJar tests passed.');
+}
+
+function testDomainAndPathMatching(): void {
+  assert.strictEqual(domainMatches('api.example.com', 'example.com'), true);
+  assert.strictEqual(domainMatches('example.com', '.example.com'), true);
+  assert.strictEqual(domainMatches('badexample.com', 'example.com'), false);
+  assert.strictEqual(domainMatches('1.2.3.4', '2.3.4'), false);
+  assert.strictEqual(defaultCookiePath('/api/v1/login'), '/api/v1');
+  assert.strictEqual(defaultCookiePath('/login'), '/');
+  assert.strictEqual(pathMatches('/api/v1', '/api'), true);
+  assert.strictEqual(pathMatches('/apiv1', '/api'), false);
+  assert.strictEqual(pathMatches('/api/', '/api/'), true);
+}
+
+function testParseSetCookie(): void {
+  const cookie = parseSetCookie(
+    'sid=abc; Domain=.Example.com; Path=/; Max-Age=60; Secure; HttpOnly; SameSite=Lax',
+    'https://api.example.com/login',
+    NOW
+  );
+  assert.ok(cookie);
+  assert.strictEqual(cookie!.domain, 'example.com');
+  assert.strictEqual(cookie!.hostOnly, false);
+  assert.strictEqual(cookie!.secure, true);
+  assert.strictEqual(cookie!.httpOnly, true);
+  assert.strictEqual(cookie!.sameSite, 'Lax');
+  assert.strictEqual(cookie!.expires, new Date(NOW + 60_000).toISOString());
+
+  const hostOnly = parseSetCookie('csrf=t1', 'https://api.example.com/auth/form', NOW);
+  assert.strictEqual(hostOnly!.hostOnly, true);
+  assert.strictEqual(hostOnly!.path, '/auth');
+  assert.strictEqual(hostOnly!.expires, undefined);
+
+  // Domain that does not cover the request host is rejected
+  assert.strictEqual(parseSetCookie('x=1; Domain=other.com', 'https://api.example.com/', NOW), null);
+  assert.strictEqual(parseSetCookie('novalue', 'https://api.example.com/', NOW), null);
+}
+
+function testJarSendsMatchingCookies(): void {
+  const jar = new CookieJar();
+  jar.setCookies(
+    ['sid=abc; Domain=example.com; Path=/', 'csrf=t1; Path=/api', 'sec=s; Secure; Path=/'],
+    'https://api.example.com/login',
+    NOW
+  );
+  assert.strictEqual(jar.getCookieHeader('https://api.example.com/api/items', NOW), 'csrf=t1; sid=abc; sec=s');
+  assert.strictEqual(jar.getCookieHeader('https://www.example.com/api/items', NOW), 'sid=abc');
+  // Secure cookies are not sent over plain http
+  assert.strictEqual(jar.getCookieHeader('http://api.example.com/', NOW), 'sid=abc');
+  assert.strictEqual(jar.getCookieHeader('https://example.org/', NOW), '');
+}
+
+function testJarReplacesAndDeletes(): void {
+  const jar = new CookieJar();
+  jar.setCookies(['sid=one; Path=/'], 'https://example.com/', NOW);
+  jar.setCookies(['sid=two; Path=/'], 'https://example.com/', NOW + 1000);
+  assert.strictEqual(jar.list(NOW + 1000).length, 1);
+  assert.strictEqual(jar.getCookieHeader('https://example.com/', NOW + 1000), 'sid=two');
+
+  jar.setCookies(['sid=; Path=/; Max-Age=0'], 'https://example.com/', NOW + 2000);
+  assert.strictEqual(jar.getCookieHeader('https://example.com/', NOW + 2000), '');
+
+  jar.setCookies(['a=1; Path=/'], 'https://example.com/', NOW);
+  assert.strictEqual(jar.remove('a', 'example.com', '/'), true);
+  assert.strictEqual(jar.list(NOW).length, 0);
+}
+
+function testJarExpiry(): void {
+  const jar = new CookieJar();
+  jar.setCookies(
+    ['short=1; Max-Age=10', 'dated=2; Expires=Thu, 01 Jan 2026 00:01:00 GMT'],
+    'https://example.com/',
+    NOW
+  );
+  assert.strictEqual(jar.getCookieHeader('https://example.com/', NOW + 5_000), 'short=1; dated=2');
+  assert.strictEqual(jar.getCookieHeader('https://example.com/', NOW + 30_000), 'dated=2');
+  assert.strictEqual(jar.getCookieHeader('https://example.com/', NOW + 120_000), '');
+
+  // Round-trips through the stored JSON shape
+  const restored = new CookieJar(JSON.parse(JSON.stringify(new CookieJar(jar.list(NOW)).list(NOW))));
+  assert.deepStrictEqual(restored.list(NOW), jar.list(NOW));
+}
+
+function testMergeCookieHeader(): void {
+  assert.strictEqual(mergeCookieHeader(undefined, 'a=1'), 'a=1');
+  assert.strictEqual(mergeCookieHeader('b=2', ''), 'b=2');
+  assert.strictEqual(mergeCookieHeader('a=explicit', 'a=1; c=3'), 'a=explicit; c=3');
+}
+
+function testKeysAndDirective(): void {
+  const key = cookieJarKey('C:\\work\\api', null);
+  assert.strictEqual(key, 'C:\\work\\api:default');
+  assert.deepStrictEqual(parseCookieJarKey(key), { envRoot: 'C:\\work\\api', envName: 'default' });
+  assert.strictEqual(cookieJarKey('/w', 'qa'), '/w:qa');
+  assert.strictEqual(parseNoCookieJarLine('# @no-cookie-jar'), true);
+  assert.strictEqual(parseNoCookieJarLine('  #@no-cookie-jar  '), true);
+  assert.strictEqual(parseNoCookieJarLine('# @name login'), null);
+}
+
+runTests();
@@ -0,0 +1,289 @@
+/**
+ * RFC 6265 cookie jar: parses `Set-Cookie`, applies domain / path / expiry rules
+ * and builds the `Cookie` header for a URL. Pure helpers — no VS Code dependencies.
+ */
+
+/** A cookie as stored in the jar (and in the editable jar file). */
+export interface StoredCookie {
+  name: string;
+  value: string;
+  /** Lowercase domain without a leading dot. */
+  domain: string;
+  path: string;
+  /** True when the cookie had no Domain attribute (exact host match only). */
+  hostOnly: boolean;
+  secure: boolean;
+  httpOnly: boolean;
+  sameSite?: string;
+  /** ISO date; absent for session cookies. */
+  expires?: string;
+  /** ISO date; orders cookies with equal path length. */
+  created: string;
+}
+
+const IPV4_RE = /^\d{1,3}(\.\d{1,3}){3}$/;
+const NO_COOKIE_JAR_RE = /^#\s*@no-cookie-jar\s*$/i;
+
+/** Environment used for the jar key when a request has no `@env`. */
+export const DEFAULT_COOKIE_JAR_ENV = 'default';
+
+/**
+ * Jar key for an environment, matching EnvironmentManager's `${envRoot}:${envName}` cache key.
+ */
+export function cookieJarKey(envRoot: string, envName: string | null): string {
+  return `${envRoot}:${envName || DEFAULT_COOKIE_JAR_ENV}`;
+}
+
+/**
+ * Splits a jar key back into env root and environment name.
+ */
+export function parseCookieJarKey(key: string): { envRoot: string; envName: string } {
+  const sep = key.lastIndexOf(':');
+  return sep < 0
+    ? { envRoot: '', envName: key }
+    : { envRoot: key.slice(0, sep), envName: key.slice(sep + 1) };
+}
+
+/**
+ * True for a `# @no-cookie-jar` line (null otherwise, for findBlockDirective).
+ */
+export function parseNoCookieJarLine(line: string): true | null {
+  return NO_COOKIE_JAR_RE.test(line.trim()) ? true : null;
+}
+
+/**
+ * RFC 6265 §5.1.3 domain matching.
+ */
+export function domainMatches(host: string, domain: string): boolean {
+  const h = host.toLowerCase();
+  const d = domain.toLowerCase().replace(/^\./, '');
+  if (h === d) {
+    return true;
+  }
+  return h.endsWith(`.${d}`) && !IPV4_RE.test(h) && !h.includes(':');
+}
+
+/**
+ * RFC 6265 §5.1.4 default path: the request path up to (not including) its last `/`.
+ */
+export function defaultCookiePath(requestPath: string): string {
+  if (!requestPath.startsWith('/')) {
+    return '/';
+  }
+  const lastSlash = requestPath.lastIndexOf('/');
+  return lastSlash <= 0 ? '/' : requestPath.slice(0, lastSlash);
+}
+
+/**
+ * RFC 6265 §5.1.4 path matching.
+ */
+export function pathMatches(requestPath: string, cookiePath: string): boolean {
+  if (requestPath === cookiePath) {
+    return true;
+  }
+  if (!requestPath.startsWith(cookiePath)) {
+    return false;
+  }
+  return cookiePath.endsWith('/') || requestPath.charAt(cookiePath.length) === '/';
+}
+
+function isExpired(cookie: StoredCookie, now: number): boolean {
+  return cookie.expires !== undefined && Date.parse(cookie.expires) <= now;
+}
+
+/**
+ * Parses one `Set-Cookie` value received from `requestUrl`.
+ * Returns null when the header is malformed or its Domain does not cover the host.
+ * An already-expired result means "delete this cookie".
+ */
+export function parseSetCookie(header: string, requestUrl: string, now = Date.now()): StoredCookie | null {
+  let url: URL;
+  try {
+    url = new URL(requestUrl);
+  } catch {
+    return null;
+  }
+  const [pair, ...attributes] = header.split(';');
+  const eq = pair.indexOf('=');
+  if (eq < 0) {
+    return null;
+  }
+  const name = pair.slice(0, eq).trim();
+  const value = pair.slice(eq + 1).trim();
+  if (!name) {
+    return null;
+  }
+
+  const host = url.hostname.toLowerCase();
+  const cookie: StoredCookie = {
+    name,
+    value,
+    domain: host,
+    path: defaultCookiePath(url.pathname),
+    hostOnly: true,
+    secure: false,
+    httpOnly: false,
+    created: new Date(now).toISOString(),
+  };
+
+  let maxAge: number | undefined;
+  let expires: number | undefined;
+  for (const attribute of attributes) {
+    const sep = attribute.indexOf('=');
+    const key = (sep < 0 ? attribute : attribute.slice(0, sep)).trim().toLowerCase();
+    const attrValue = sep < 0 ? '' : attribute.slice(sep + 1).trim();
+    switch (key) {
+      case 'domain': {
+        const domain = attrValue.replace(/^\./, '').toLowerCase();
+        if (!domain) {
+          break;
+        }
+        if (!domainMatches(host, domain)) {
+          return null;
+        }
+        cookie.domain = domain;
+        cookie.hostOnly = false;
+        break;
+      }
+      case 'path':
+        if (attrValue.startsWith('/')) {
+          cookie.path = attrValue;
+        }
+        break;
+      case 'max-age':
+        if (/^-?\d+$/.test(attrValue)) {
+          maxAge = parseInt(attrValue, 10);
+        }
+        break;
+      case 'expires': {
+        const parsed = Date.parse(attrValue);
+        if (!Number.isNaN(parsed)) {
+          expires = parsed;
+        }
+        break;
+      }
+      case 'secure':
+        cookie.secure = true;
+        break;
+      case 'httponly':
+        cookie.httpOnly = true;
+        break;
+      case 'samesite':
+        cookie.sameSite = attrValue;
+        break;
+    }
+  }
+
+  // Max-Age wins over Expires (§5.3 step 3)
+  if (maxAge !== undefined) {
+    cookie.expires = new Date(maxAge <= 0 ? 0 : now + maxAge * 1000).toISOString();
+  } else if (expires !== undefined) {
+    cookie.expires = new Date(expires).toISOString();
+  }
+  return cookie;
+}
+
+/**
+ * In-memory cookie jar; serialize with `toJSON()` and rebuild with the constructor.
+ */
+export class CookieJar {
+  private cookies: StoredCookie[];
+
+  constructor(cookies: StoredCookie[] = []) {
+    this.cookies = cookies.filter((c) => c && typeof c.name === 'string' && typeof c.domain === 'string');
+  }
+
+  /**
+   * Stores every `Set-Cookie` value from a response; replaces cookies with the same
+   * name/domain/path and deletes them when the new one is already expired.
+   */
+  setCookies(headers: string[], requestUrl: string, now = Date.now()): void {
+    for (const header of headers) {
+      const cookie = parseSetCookie(header, requestUrl, now);
+      if (!cookie) {
+        continue;
+      }
+      const existing = this.cookies.findIndex(
+        (c) => c.name === cookie.name && c.domain === cookie.domain && c.path === cookie.path
+      );
+      if (existing >= 0) {
+        cookie.created = this.cookies[existing].created;
+        this.cookies.splice(existing, 1);
+      }
+      if (!isExpired(cookie, now)) {
+        this.cookies.push(cookie);
+      }
+    }
+  }
+
+  /**
+   * Cookies to send to `requestUrl`: longer paths first, then oldest first (§5.4).
+   */
+  getCookies(requestUrl: string, now = Date.now()): StoredCookie[] {
+    let url: URL;
+    try {
+      url = new URL(requestUrl);
+    } catch {
+      return [];
+    }
+    const host = url.hostname.toLowerCase();
+    const secureContext = url.protocol === 'https:' || host === 'localhost' || host === '127.0.0.1';
+    return this.list(now)
+      .filter((c) => (c.hostOnly ? host === c.domain : domainMatches(host, c.domain)))
+      .filter((c) => pathMatches(url.pathname || '/', c.path))
+      .filter((c) => !c.secure || secureContext)
+      .sort((a, b) => b.path.length - a.path.length || a.created.localeCompare(b.created));
+  }
+
+  /**
+   * `Cookie` header value for `requestUrl`, or an empty string.
+   */
+  getCookieHeader(requestUrl: string, now = Date.now()): string {
+    return this.getCookies(requestUrl, now)
+      .map((c) => `${c.name}=${c.value}`)
+      .join('; ');
+  }
+
+  /**
+   * All live cookies (expired ones are dropped).
+   */
+  list(now = Date.now()): StoredCookie[] {
+    this.cookies = this.cookies.filter((c) => !isExpired(c, now));
+    return [...this.cookies];
+  }
+
+  remove(name: string, domain: string, path: string): boolean {
+    const before = this.cookies.length;
+    this.cookies = this.cookies.filter(
+      (c) => !(c.name === name && c.domain === domain && c.path === path)
+    );
+    return this.cookies.length !== before;
+  }
+
+  clear(): void {
+    this.cookies = [];
+  }
+
+  toJSON(): StoredCookie[] {
+    return this.list();
+  }
+}
+
+/**
+ * Combines an explicit `Cookie` header with jar cookies; explicit names win.
+ */
+export function mergeCookieHeader(explicit: string | undefined, jarHeader: string): string {
+  if (!explicit || !explicit.trim()) {
+    return jarHeader;
+  }
+  if (!jarHeader) {
+    return explicit;
+  }
+  const explicitNames = new Set(
+    explicit.split(';').map((part) => part.split('=')[0].trim()).filter(Boolean)
+  );
+  const extra = jarHeader
+    .split('; ')
+    .filter((part) => !explicitNames.has(part.split('=')[0].trim()));
+  return extra.length ? `${explicit}; ${extra.join('; ')}` : explicit;
+}
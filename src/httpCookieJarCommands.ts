@@ -0,0 +1,155 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { cookieJarKey, type StoredCookie } from './httpCookieJar';
+import { HttpCookieJarManager } from './httpCookieJarManager';
+import { getEnvironmentForSection } from './httpRequestExecutor';
+import { getHttpEnvContext, isHttpRequestFile } from './utils';
+
+interface JarPickItem extends vscode.QuickPickItem {
+  key?: string;
+}
+
+interface CookiePickItem extends vscode.QuickPickItem {
+  cookie: StoredCookie;
+}
+
+/**
+ * Jar of the active request file's environment, when one is open
+ */
+function getActiveJarKey(): string | undefined {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor || !isHttpRequestFile(editor.document.uri.fsPath)) {
+    return undefined;
+  }
+  const envCtx = getHttpEnvContext(editor.document.uri.fsPath);
+  const envRoot = envCtx?.envRoot ?? path.dirname(editor.document.uri.fsPath);
+  return cookieJarKey(envRoot, getEnvironmentForSection(editor.document, editor.selection.active.line));
+}
+
+async function pickJar(placeHolder: string, includeAll: boolean): Promise<string | null | undefined> {
+  const manager = HttpCookieJarManager.getInstance();
+  const jars = manager.listJars();
+  if (jars.length === 0) {
+    vscode.window.showInformationMessage('The HTTP cookie jar is empty.');
+    return undefined;
+  }
+
+  const activeKey = getActiveJarKey();
+  const items: JarPickItem[] = jars.map((jar) => ({
+    label: jar.envName,
+    description: `${jar.cookies.length} cookie${jar.cookies.length === 1 ? '' : 's'}${jar.key === activeKey ? ' (current file)' : ''}`,
+    detail: jar.envRoot,
+    key: jar.key,
+  }));
+  items.sort((a, b) => Number(b.key === activeKey) - Number(a.key === activeKey));
+  if (includeAll && jars.length > 1) {
+    items.push({ label: 'All environments', description: 'Every cookie jar' });
+  }
+
+  const selected = await vscode.window.showQuickPick(items, { placeHolder });
+  if (!selected) {
+    return undefined;
+  }
+  return selected.key ?? null;
+}
+
+function describeCookie(cookie: StoredCookie): string {
+  const flags = [
+    cookie.hostOnly ? cookie.domain : `.${cookie.domain}`,
+    cookie.path,
+    cookie.secure ? 'Secure' : '',
+    cookie.httpOnly ? 'HttpOnly' : '',
+  ].filter(Boolean);
+  return flags.join('  ');
+}
+
+/**
+ * Registers view / edit / clear commands for the HTTP cookie jar.
+ */
+export function registerHttpCookieJarCommands(context: vscode.ExtensionContext): void {
+  const manager = HttpCookieJarManager.getInstance();
+  manager.initialize(context.globalStorageUri.fsPath);
+  context.subscriptions.push(manager);
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('cursor-toys.viewHttpCookies', async () => {
+      const key = await pickJar('Select a cookie jar to view', false);
+      if (!key) {
+        return;
+      }
+      const jar = manager.getJar(key);
+      const items: CookiePickItem[] = jar.list().map((cookie) => ({
+        label: `${cookie.name}=${cookie.value}`,
+        description: describeCookie(cookie),
+        detail: cookie.expires ? `Expires ${new Date(cookie.expires).toLocaleString()}` : 'Session cookie',
+        cookie,
+      }));
+      const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: 'Select a cookie to copy its value or delete it',
+        matchOnDescription: true,
+      });
+      if (!selected) {
+        return;
+      }
+      const action = await vscode.window.showQuickPick(['Copy Value', 'Delete Cookie'], {
+        placeHolder: selected.cookie.name,
+      });
+      if (action === 'Copy Value') {
+        await vscode.env.clipboard.writeText(selected.cookie.value);
+        vscode.window.showInformationMessage(`Copied value of cookie '${selected.cookie.name}'.`);
+      } else if (action === 'Delete Cookie') {
+        jar.remove(selected.cookie.name, selected.cookie.domain, selected.cookie.path);
+        manager.save();
+        vscode.window.showInformationMessage(`Deleted cookie '${selected.cookie.name}'.`);
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('cursor-toys.editHttpCookies', async () => {
+      const storePath = manager.getStorePath();
+      if (!storePath) {
+        return;
+      }
+      if (!fs.existsSync(storePath)) {
+        manager.save();
+      }
+      const document = await vscode.workspace.openTextDocument(vscode.Uri.file(storePath));
+      await vscode.window.showTextDocument(document);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.workspace.onDidSaveTextDocument((document) => {
+      const storePath = manager.getStorePath();
+      if (!storePath || path.resolve(document.uri.fsPath) !== path.resolve(storePath)) {
+        return;
+      }
+      try {
+        JSON.parse(document.getText());
+      } catch {
+        vscode.window.showErrorMessage('Cookie jar file is not valid JSON; the previous cookies are kept.');
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('cursor-toys.clearHttpCookies', async () => {
+      const key = await pickJar('Select a cookie jar to clear', true);
+      if (key === undefined) {
+        return;
+      }
+      const confirm = await vscode.window.showWarningMessage(
+        key ? 'Clear all cookies of this environment?' : 'Clear the cookie jars of all environments?',
+        { modal: true },
+        'Clear'
+      );
+      if (confirm !== 'Clear') {
+        return;
+      }
+      manager.clear(key ?? undefined);
+      vscode.window.showInformationMessage('HTTP cookies cleared.');
+    })
+  );
+}
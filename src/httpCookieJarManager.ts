@@ -0,0 +1,134 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CookieJar, parseCookieJarKey, type StoredCookie } from './httpCookieJar';
+
+const STORE_FILE_NAME = 'http-cookie-jars.json';
+
+/**
+ * Persistent cookie jars, one per environment (`${envRoot}:${envName}`).
+ * Jars live in a JSON file in the extension's global storage so cookies never end up
+ * in the workspace; the file is re-read when it changes on disk (manual edits).
+ */
+export class HttpCookieJarManager {
+  private static instance: HttpCookieJarManager;
+  private storePath: string | undefined;
+  private jars: Map<string, CookieJar> = new Map();
+  private loadedMtimeMs = -1;
+  private _onDidChangeJars = new vscode.EventEmitter<void>();
+  readonly onDidChangeJars = this._onDidChangeJars.event;
+
+  private constructor() {
+    // Storage is attached on activation; until then jars are in-memory only
+  }
+
+  /**
+   * Returns the singleton HttpCookieJarManager instance
+   */
+  public static getInstance(): HttpCookieJarManager {
+    if (!HttpCookieJarManager.instance) {
+      HttpCookieJarManager.instance = new HttpCookieJarManager();
+    }
+    return HttpCookieJarManager.instance;
+  }
+
+  /**
+   * Persists jars under the given storage folder (context.globalStorageUri)
+   */
+  public initialize(storageDir: string): void {
+    this.storePath = path.join(storageDir, STORE_FILE_NAME);
+    this.loadedMtimeMs = -1;
+    this.jars.clear();
+  }
+
+  public getStorePath(): string | undefined {
+    return this.storePath;
+  }
+
+  /**
+   * Returns the jar for a key, creating an empty one when missing
+   */
+  public getJar(key: string): CookieJar {
+    this.reloadIfChanged();
+    let jar = this.jars.get(key);
+    if (!jar) {
+      jar = new CookieJar();
+      this.jars.set(key, jar);
+    }
+    return jar;
+  }
+
+  /**
+   * Lists jars that hold at least one live cookie
+   */
+  public listJars(): Array<{ key: string; envRoot: string; envName: string; cookies: StoredCookie[] }> {
+    this.reloadIfChanged();
+    return [...this.jars.entries()]
+      .map(([key, jar]) => ({ key, ...parseCookieJarKey(key), cookies: jar.list() }))
+      .filter((entry) => entry.cookies.length > 0)
+      .sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  /**
+   * Writes every jar to disk and notifies listeners
+   */
+  public save(): void {
+    if (this.storePath) {
+      const data: Record<string, StoredCookie[]> = {};
+      for (const [key, jar] of this.jars.entries()) {
+        const cookies = jar.toJSON();
+        if (cookies.length > 0) {
+          data[key] = cookies;
+        }
+      }
+      try {
+        fs.mkdirSync(path.dirname(this.storePath), { recursive: true });
+        fs.writeFileSync(this.storePath, JSON.stringify(data, null, 2) + '\n', 'utf8');
+        this.loadedMtimeMs = fs.statSync(this.storePath).mtimeMs;
+      } catch (error) {
+        console.error('Error saving HTTP cookie jars:', error);
+      }
+    }
+    this._onDidChangeJars.fire();
+  }
+
+  /**
+   * Clears one jar, or every jar when no key is given
+   */
+  public clear(key?: string): void {
+    this.reloadIfChanged();
+    if (key) {
+      this.jars.delete(key);
+    } else {
+      this.jars.clear();
+    }
+    this.save();
+  }
+
+  private reloadIfChanged(): void {
+    if (!this.storePath || !fs.existsSync(this.storePath)) {
+      return;
+    }
+    try {
+      const mtimeMs = fs.statSync(this.storePath).mtimeMs;
+      if (mtimeMs === this.loadedMtimeMs) {
+        return;
+      }
+      const parsed = JSON.parse(fs.readFileSync(this.storePath, 'utf8')) as Record<string, StoredCookie[]>;
+      this.jars.clear();
+      for (const [key, cookies] of Object.entries(parsed ?? {})) {
+        if (Array.isArray(cookies)) {
+          this.jars.set(key, new CookieJar(cookies));
+        }
+      }
+      this.loadedMtimeMs = mtimeMs;
+    } catch (error) {
+      // Keep the last good jars when a manual edit left invalid JSON
+      console.error('Error loading HTTP cookie jars:', error);
+    }
+  }
+
+  public dispose(): void {
+    this._onDidChangeJars.dispose();
+  }
+}
@@ -0,0 +1,320 @@
+import * as assert from 'assert';
+import * as child_process from 'child_process';
+import { CookieJar, mergeCookieHeader } from './httpCookieJar';
+import {
+  buildCurlArgs,
+  curlRequestToConfig,
+  curlTlsDirective,
+  describeCurlConnectionOptions,
+  detectShellDialect,
+  parseCurlCommand,
+  quoteCurlArgument,
+  tokenizeShellCommand,
+} from './httpCurlCommand';
+import { DEFAULT_MULTIPART_BOUNDARY } from './httpRequestBody';
+
+function runTests(): void {
+  testPosixQuoting();
+  testAnsiCQuoting();
+  testCommentsAndCommandEnd();
+  testCmdDialect();
+  testCombinedShortOptions();
+  testHeaders();
+  testDataPieces();
+  testDataUrlencode();
+  testMultipart();
+  testQueryAndGet();
+  testUploadAndHead();
+  testAuth();
+  testCookiesAndCompressed();
+  testTlsAndTransfer();
+  testIgnoredFlags();
+  testConfig();
+  testNotCurl();
+  testBuildCurlArgs();
+  console.log('All httpCurlCommand tests passed.');
+}
+
+function header(request: { headers: Array<{ key: string; value: string }> }, name: string): string | undefined {
+  return request.headers.find((h) => h.key.toLowerCase() === name.toLowerCase())?.value;
+}
+
+function testPosixQuoting(): void {
+  assert.deepStrictEqual(
+    tokenizeShellCommand(`curl 'a b' "c \\"d\\" \\$e \\n" f\\ g 'it'\\''s'`),
+    ['curl', 'a b', 'c "d" $e \\n', 'f g', "it's"]
+  );
+  assert.deepStrictEqual(
+    tokenizeShellCommand('curl https://x.test \\\n  -H "A: 1" \\\r\n  -d \'{\n  "n": 1\n}\''),
+    ['curl', 'https://x.test', '-H', 'A: 1', '-d', '{\n  "n": 1\n}']
+  );
+  assert.deepStrictEqual(tokenizeShellCommand(`curl "" ''`), ['curl', '', '']);
+  assert.deepStrictEqual(tokenizeShellCommand('curl.exe `\n  -s x'), ['curl.exe', '-s', 'x']);
+}
+
+function testAnsiCQuoting(): void {
+  assert.deepStrictEqual(
+    tokenizeShellCommand(`curl --data-raw $'{"a":"line\\nnext","q":\\'x\\'}'`),
+    ['curl', '--data-raw', '{"a":"line\nnext","q":\'x\'}']
+  );
+  assert.deepStrictEqual(tokenizeShellCommand(`curl $'caf\\xc3\\xa9 \\u00e9 \\t\\101'`), ['curl', 'café é \tA']);
+}
+
+function testCommentsAndCommandEnd(): void {
+  assert.deepStrictEqual(tokenizeShellCommand('# get a user\ncurl https://x.test/a#frag | jq .'), [
+    'curl',
+    'https://x.test/a#frag',
+  ]);
+  assert.deepStrictEqual(tokenizeShellCommand('curl https://x.test?a=1&b=2 && echo done'), [
+    'curl',
+    'https://x.test?a=1&b=2',
+  ]);
+}
+
+function testCmdDialect(): void {
+  const chrome = [
+    'curl ^"https://api.example.com/items?q=1^&r=2^" ^',
+    '  -H ^"accept: */*^" ^',
+    '  -H ^"content-type: application/json^" ^',
+    '  --data-raw ^"^{^\\^"name^\\^":^\\^"Ada 100^%^\\^"^}^" ^',
+    '  --compressed',
+  ].join('\r\n');
+  assert.strictEqual(detectShellDialect(chrome), 'cmd');
+  assert.deepStrictEqual(tokenizeShellCommand(chrome), [
+    'curl',
+    'https://api.example.com/items?q=1&r=2',
+    '-H',
+    'accept: */*',
+    '-H',
+    'content-type: application/json',
+    '--data-raw',
+    '{"name":"Ada 100%"}',
+    '--compressed',
+  ]);
+  assert.deepStrictEqual(tokenizeShellCommand('curl "a ""b"" c" \\\\"d', 'cmd'), ['curl', 'a "b" c', '\\d']);
+  assert.strictEqual(detectShellDialect(`curl 'https://x.test'`), 'posix');
+}
+
+function testCombinedShortOptions(): void {
+  const request = parseCurlCommand('curl -sSLXPOST -HAccept:text/plain https://x.test -d@body.json')!;
+  assert.strictEqual(request.method, 'POST');
+  assert.strictEqual(request.transfer.followRedirects, true);
+  assert.strictEqual(header(request, 'accept'), 'text/plain');
+  assert.strictEqual(request.bodyMode, 'file');
+  assert.strictEqual(request.bodyFile, 'body.json');
+  assert.deepStrictEqual(request.ignored, []);
+}
+
+function testHeaders(): void {
+  const request = parseCurlCommand(
+    `curl https://x.test -H 'X-Empty;' -H 'Content-Type:' -A 'agent/1' -e https://ref.test -d 'a=1'`
+  )!;
+  assert.strictEqual(header(request, 'x-empty'), '');
+  assert.strictEqual(header(request, 'user-agent'), 'agent/1');
+  assert.strictEqual(header(request, 'referer'), 'https://ref.test');
+  // `Content-Type:` removes the header curl would add for -d
+  assert.strictEqual(header(request, 'content-type'), undefined);
+}
+
+function testDataPieces(): void {
+  const request = parseCurlCommand(`curl https://x.test -d a=1 --data-raw '@literal' -d 'b=2'`)!;
+  assert.strictEqual(request.method, 'POST');
+  assert.strictEqual(request.bodyMode, 'raw');
+  assert.strictEqual(request.body, 'a=1&@literal&b=2');
+  assert.strictEqual(header(request, 'content-type'), 'application/x-www-form-urlencoded');
+
+  const json = parseCurlCommand(`curl https://x.test --json '{"a":1}'`)!;
+  assert.strictEqual(json.body, '{"a":1}');
+  assert.strictEqual(header(json, 'content-type'), 'application/json');
+  assert.strictEqual(header(json, 'accept'), 'application/json');
+
+  const binary = parseCurlCommand(`curl -X PUT https://x.test --data-binary @img.png -H 'Content-Type: image/png'`)!;
+  assert.strictEqual(binary.method, 'PUT');
+  assert.strictEqual(binary.bodyFile, 'img.png');
+  assert.strictEqual(header(binary, 'content-type'), 'image/png');
+}
+
+function testDataUrlencode(): void {
+  const fields = parseCurlCommand(`curl https://x.test --data-urlencode 'q=a b&c' --data-urlencode 'name=Ada'`)!;
+  assert.strictEqual(fields.bodyMode, 'urlencoded');
+  assert.deepStrictEqual(fields.bodyFields, [
+    { key: 'q', value: 'a b&c', type: 'text' },
+    { key: 'name', value: 'Ada', type: 'text' },
+  ]);
+
+  const mixed = parseCurlCommand(`curl https://x.test -d a=1 --data-urlencode "msg=hi (there)!" --data-urlencode =x/y`)!;
+  assert.strictEqual(mixed.bodyMode, 'raw');
+  assert.strictEqual(mixed.body, 'a=1&msg=hi%20%28there%29%21&x%2Fy');
+}
+
+function testMultipart(): void {
+  const request = parseCurlCommand(
+    `curl https://x.test/upload -F 'file=@./photo.jpg;type=image/jpeg' -F name=Ada -F 'note=<notes.txt' --form-string 'raw=@not-a-file'`
+  )!;
+  assert.strictEqual(request.method, 'POST');
+  assert.strictEqual(request.bodyMode, 'multipart');
+  assert.strictEqual(header(request, 'content-type'), `multipart/form-data; boundary=${DEFAULT_MULTIPART_BOUNDARY}`);
+  assert.deepStrictEqual(request.bodyFields, [
+    { key: 'file', value: './photo.jpg', type: 'file', contentType: 'image/jpeg' },
+    { key: 'name', value: 'Ada', type: 'text' },
+    { key: 'note', value: 'notes.txt', type: 'file' },
+    { key: 'raw', value: '@not-a-file', type: 'text' },
+  ]);
+  const config = curlRequestToConfig(request);
+  assert.ok(String(config.body).includes('< ./photo.jpg'));
+  assert.ok(String(config.body).endsWith(`--${DEFAULT_MULTIPART_BOUNDARY}--`));
+}
+
+function testQueryAndGet(): void {
+  const request = parseCurlCommand(
+    `curl -G 'https://x.test/search?page=1' -d limit=5 --data-urlencode 'q=a b' --url-query 'sort=-date' --url-query '+raw=%41'`
+  )!;
+  assert.strictEqual(request.method, 'GET');
+  assert.strictEqual(request.bodyMode, 'none');
+  assert.strictEqual(request.url, 'https://x.test/search?page=1&limit=5&q=a%20b&sort=-date&raw=%41');
+  assert.strictEqual(parseCurlCommand('curl example.com/a')!.url, 'http://example.com/a');
+}
+
+function testUploadAndHead(): void {
+  const upload = parseCurlCommand('curl -T report.csv https://x.test/files/report.csv')!;
+  assert.strictEqual(upload.method, 'PUT');
+  assert.strictEqual(upload.bodyMode, 'file');
+  assert.strictEqual(upload.bodyFile, 'report.csv');
+  assert.strictEqual(parseCurlCommand('curl -I https://x.test')!.method, 'HEAD');
+}
+
+function testAuth(): void {
+  const basic = parseCurlCommand('curl -u ada:s3cr:et https://x.test')!;
+  assert.deepStrictEqual(basic.auth, { type: 'basic', options: { username: 'ada', password: 's3cr:et' } });
+  assert.strictEqual(
+    curlRequestToConfig(basic).headers?.Authorization,
+    `Basic ${Buffer.from('ada:s3cr:et').toString('base64')}`
+  );
+
+  const digest = parseCurlCommand('curl --digest --user ada:pw https://x.test')!;
+  assert.deepStrictEqual(digest.auth, { type: 'digest', options: { username: 'ada', password: 'pw' } });
+  assert.strictEqual(curlRequestToConfig(digest).headers?.Authorization, undefined);
+
+  const aws = parseCurlCommand(`curl --aws-sigv4 'aws:amz:eu-west-1:s3' -u AKID:SECRET https://b.s3.amazonaws.com/k`)!;
+  assert.deepStrictEqual(aws.auth, {
+    type: 'aws',
+    options: { region: 'eu-west-1', service: 's3', accessKeyId: 'AKID', secretAccessKey: 'SECRET' },
+  });
+
+  const bearer = parseCurlCommand('curl --oauth2-bearer tok123 https://x.test')!;
+  assert.strictEqual(header(bearer, 'authorization'), 'Bearer tok123');
+}
+
+function testCookiesAndCompressed(): void {
+  const request = parseCurlCommand(
+    `curl https://x.test -H 'Cookie: a=1' -b 'b=2; c=3' --cookie d=4 -b jar.txt --compressed`
+  )!;
+  assert.strictEqual(header(request, 'cookie'), 'a=1; b=2; c=3; d=4');
+  assert.strictEqual(header(request, 'accept-encoding'), 'deflate, gzip, br');
+  assert.deepStrictEqual(request.ignored, ['-b jar.txt']);
+}
+
+function testTlsAndTransfer(): void {
+  const request = parseCurlCommand(
+    `curl -k --cert 'C:\\certs\\client.pem:pw' --key client.key --cacert ca.pem -x http://proxy:8080 -m 30 --connect-timeout 5 --max-redirs 3 -L https://x.test`
+  )!;
+  assert.deepStrictEqual(request.tls, {
+    insecure: true,
+    cert: 'C:\\certs\\client.pem',
+    certPassword: 'pw',
+    key: 'client.key',
+    cacert: 'ca.pem',
+  });
+  assert.deepStrictEqual(request.transfer, {
+    proxy: 'http://proxy:8080',
+    maxTime: 30,
+    connectTimeout: 5,
+    maxRedirects: 3,
+    followRedirects: true,
+  });
+  assert.deepStrictEqual(curlTlsDirective(request), {
+    options: {
+      proxy: 'http://proxy:8080',
+      cert: 'C:\\certs\\client.pem',
+      key: 'client.key',
+      passphrase: 'pw',
+      ca: 'ca.pem',
+      verify: 'false',
+    },
+  });
+  assert.deepStrictEqual(describeCurlConnectionOptions(request), [
+    '-L',
+    '--max-redirs 3',
+    '-m 30',
+    '--connect-timeout 5',
+  ]);
+}
+
+function testIgnoredFlags(): void {
+  const request = parseCurlCommand(
+    'curl -s -S -v -o out.json -w "%{http_code}" --http2 --ntlm -c jar.txt --frobnicate -d @- https://x.test https://y.test'
+  )!;
+  assert.deepStrictEqual(request.ignored, ['--ntlm', '-c jar.txt', '--frobnicate', '-d @-', 'https://y.test']);
+  assert.strictEqual(request.url, 'https://x.test');
+}
+
+function testConfig(): void {
+  const config = curlRequestToConfig(
+    parseCurlCommand(`curl 'https://x.test/items' -H 'Content-Type: application/json' -d '{"id":1}'`)!
+  );
+  assert.deepStrictEqual(config, {
+    method: 'POST',
+    url: 'https://x.test/items',
+    headers: { 'Content-Type': 'application/json' },
+    body: '{"id":1}',
+  });
+  assert.strictEqual(curlRequestToConfig(parseCurlCommand('curl https://x.test')!).body, undefined);
+}
+
+function testNotCurl(): void {
+  assert.strictEqual(parseCurlCommand('wget https://x.test'), null);
+  assert.strictEqual(parseCurlCommand('curl -s'), null);
+  assert.ok(parseCurlCommand('/usr/bin/curl https://x.test'));
+}
+
+function testBuildCurlArgs(): void {
+  // A server-set cookie must reach curl as data, never as shell syntax
+  const jar = new CookieJar();
+  jar.setCookies(['a=$(touch${IFS}/tmp/x)`id`; Path=/'], 'https://x.test/login');
+  const cookie = mergeCookieHeader('b="1"', jar.getCookieHeader('https://x.test/me'));
+  const args = buildCurlArgs({
+    method: 'POST',
+    url: 'https://x.test/me?q=$(id)',
+    headers: { Cookie: cookie, 'Content-Type': 'text/plain' },
+    body: "it's $HOME",
+  }, { tls: { verify: false, cert: '/certs/my cert.pem' } });
+  assert.deepStrictEqual(args, [
+    '-i', '-s', '-S', '-w', '\\nHTTPSTATUS:%{http_code}',
+    '-X', 'POST',
+    '--cert', '/certs/my cert.pem', '-k',
+    '-H', 'Cookie: b="1"; a=$(touch${IFS}/tmp/x)`id`',
+    '-H', 'Content-Type: text/plain',
+    '-d', "it's $HOME",
+    'https://x.test/me?q=$(id)',
+  ]);
+  assert.deepStrictEqual(
+    buildCurlArgs({ url: 'https://x.test', headers: { 'Content-Type': 'multipart/form-data' }, body: 'x' }, {
+      body: ['--data-binary', '@/tmp/body.bin'],
+      dropContentType: true,
+    }),
+    ['-i', '-s', '-S', '-w', '\\nHTTPSTATUS:%{http_code}', '--data-binary', '@/tmp/body.bin', 'https://x.test']
+  );
+
+  const quoted = args.map(quoteCurlArgument);
+  assert.strictEqual(quoted[0], '-i');
+  assert.strictEqual(quoted[11], '"Cookie: b=\\"1\\"; a=\\$(touch\\${IFS}/tmp/x)\\`id\\`"');
+  assert.deepStrictEqual(tokenizeShellCommand(['curl', ...quoted].join(' ')), ['curl', ...args]);
+  if (process.platform !== 'win32') {
+    const echoed = child_process.execFileSync('sh', ['-c', `printf %s ${quoted[11]} ${quoted[15]}`], { encoding: 'utf8' });
+    assert.strictEqual(echoed, `${args[11]}${args[15]}`, 'a shell prints the values instead of running them');
+  }
+}
+
+if (require.main === module) {
+  runTests();
+}
@@ -0,0 +1,1039 @@
+/**
+ * curl command lines: a POSIX shell / Windows cmd tokenizer and a model of curl's request
+ * options (data flags, multipart parts, query, auth, cookies, TLS and transfer options).
+ * Pure helpers — no VS Code dependencies.
+ */
+import { buildBasicAuthorization, setAuthorizationHeader } from './httpAuth';
+import {
+  DEFAULT_MULTIPART_BOUNDARY,
+  serializeMultipartFields,
+  serializeUrlencodedFields,
+} from './httpRequestBody';
+import type { HttpAuthDirective } from './httpAuth';
+import type { HttpRequestBodyField, HttpRequestBodyMode } from './httpRequestBody';
+import type { HttpRequestConfig } from './httpRequestParse';
+import { selectProxy, type HttpTlsDirective, type HttpTlsSettings } from './httpTls';
+
+export type ShellDialect = 'posix' | 'cmd';
+
+export interface CurlTlsOptions {
+  /** `-k`: skip certificate verification */
+  insecure?: boolean;
+  cert?: string;
+  certType?: string;
+  /** Password written after the certificate path (`--cert file:password`) or with `--pass` */
+  certPassword?: string;
+  key?: string;
+  keyType?: string;
+  cacert?: string;
+  capath?: string;
+}
+
+export interface CurlTransferOptions {
+  followRedirects?: boolean;
+  maxRedirects?: number;
+  /** `-m`, in seconds */
+  maxTime?: number;
+  /** `--connect-timeout`, in seconds */
+  connectTimeout?: number;
+  proxy?: string;
+  proxyUser?: string;
+  noProxy?: string;
+}
+
+/** A curl command line mapped onto the request model */
+export interface CurlRequest {
+  method: string;
+  url: string;
+  headers: Array<{ key: string; value: string }>;
+  /** `none` when curl sends no body */
+  bodyMode: HttpRequestBodyMode | 'none';
+  /** Body text in `raw` mode, as sent */
+  body: string;
+  /** Urlencoded fields or multipart parts */
+  bodyFields: HttpRequestBodyField[];
+  /** Path sent as the whole body in `file` mode (`--data-binary @file`, `-T file`) */
+  bodyFile?: string;
+  auth?: HttpAuthDirective;
+  tls: CurlTlsOptions;
+  transfer: CurlTransferOptions;
+  /** Flags that have no equivalent in the request model, as written (`--ntlm`, `-c jar.txt`) */
+  ignored: string[];
+}
+
+/**
+ * `^"` quoting or `^` line continuations mark a Windows cmd copy (devtools "Copy as cURL (cmd)").
+ */
+export function detectShellDialect(text: string): ShellDialect {
+  return /\^"|\^\r?\n/.test(text) ? 'cmd' : 'posix';
+}
+
+/**
+ * Splits a command line into arguments the way the shell would before running it.
+ * POSIX: single and double quotes, `$'...'` ANSI-C strings, backslash escapes and
+ * continuations, `#` comments; parsing stops at an unquoted `|`, `;` or `&&`.
+ * cmd: `^` escapes and continuations, then the MSVCRT rules for `"` and `\"`.
+ */
+export function tokenizeShellCommand(text: string, dialect: ShellDialect = detectShellDialect(text)): string[] {
+  return dialect === 'cmd' ? tokenizeCmd(text) : tokenizePosix(text);
+}
+
+function tokenizePosix(text: string): string[] {
+  const tokens: string[] = [];
+  let current: string | null = null;
+  let i = 0;
+
+  const append = (value: string): void => {
+    current = (current ?? '') + value;
+  };
+  const flush = (): void => {
+    if (current !== null) {
+      tokens.push(current);
+      current = null;
+    }
+  };
+
+  while (i < text.length) {
+    const c = text[i];
+    const rest = text.slice(i, i + 3);
+    if (c === ' ' || c === '\t' || c === '\n' || c === '\r') {
+      flush();
+      i++;
+    } else if (/^[\\`]\r?\n/.test(rest)) {
+      // `\` (or PowerShell's backtick) at the end of a line continues the command
+      i += rest[1] === '\r' ? 3 : 2;
+    } else if (c === '\\') {
+      append(text[i + 1] ?? '');
+      i += 2;
+    } else if (c === "'") {
+      const end = text.indexOf("'", i + 1);
+      const stop = end < 0 ? text.length : end;
+      append(text.slice(i + 1, stop));
+      i = stop + 1;
+    } else if (c === '$' && text[i + 1] === "'") {
+      const { value, end } = readAnsiCString(text, i + 2);
+      append(value);
+      i = end;
+    } else if (c === '"') {
+      let value = '';
+      i++;
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === '\\' && i + 1 < text.length) {
+          const next = text[i + 1];
+          if (next === '\n') {
+            i += 2;
+            continue;
+          }
+          if ('$`"\\'.includes(next)) {
+            value += next;
+            i += 2;
+            continue;
+          }
+        }
+        value += text[i];
+        i++;
+      }
+      append(value);
+      i++;
+    } else if (c === '#' && current === null) {
+      const end = text.indexOf('\n', i);
+      i = end < 0 ? text.length : end;
+    } else if (c === '|' || c === ';' || (c === '&' && text[i + 1] === '&')) {
+      break;
+    } else {
+      append(c);
+      i++;
+    }
+  }
+  flush();
+  return tokens;
+}
+
+const ANSI_C_ESCAPES: Record<string, string> = {
+  a: '\x07',
+  b: '\b',
+  e: '\x1b',
+  E: '\x1b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  v: '\v',
+  '\\': '\\',
+  "'": "'",
+  '"': '"',
+  '?': '?',
+};
+
+/**
+ * Reads a `$'...'` string from just after the opening quote. `\xHH` and octal escapes are
+ * bytes, decoded as UTF-8 together so `\xc3\xa9` gives `é`.
+ */
+function readAnsiCString(text: string, start: number): { value: string; end: number } {
+  let value = '';
+  let bytes: number[] = [];
+  const flushBytes = (): void => {
+    if (bytes.length > 0) {
+      value += Buffer.from(bytes).toString('utf8');
+      bytes = [];
+    }
+  };
+
+  let i = start;
+  while (i < text.length && text[i] !== "'") {
+    if (text[i] !== '\\' || i + 1 >= text.length) {
+      flushBytes();
+      value += text[i];
+      i++;
+      continue;
+    }
+    const tail = text.slice(i + 1);
+    const hex = /^x([0-9a-fA-F]{1,2})/.exec(tail);
+    const octal = /^([0-7]{1,3})/.exec(tail);
+    const unicode = /^(?:u([0-9a-fA-F]{1,4})|U([0-9a-fA-F]{1,8}))/.exec(tail);
+    if (hex) {
+      bytes.push(parseInt(hex[1], 16));
+      i += 1 + hex[0].length;
+      continue;
+    }
+    if (octal) {
+      bytes.push(parseInt(octal[1], 8) & 0xff);
+      i += 1 + octal[0].length;
+      continue;
+    }
+    flushBytes();
+    if (unicode) {
+      value += String.fromCodePoint(parseInt(unicode[1] ?? unicode[2], 16));
+      i += 1 + unicode[0].length;
+    } else if (tail[0] in ANSI_C_ESCAPES) {
+      value += ANSI_C_ESCAPES[tail[0]];
+      i += 2;
+    } else {
+      value += `\\${tail[0]}`;
+      i += 2;
+    }
+  }
+  flushBytes();
+  return { value, end: i + 1 };
+}
+
+function tokenizeCmd(text: string): string[] {
+  // cmd.exe drops `^` escapes (and `^` + newline continuations) outside its own quotes
+  let line = '';
+  let cmdQuoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (c === '^' && !cmdQuoted) {
+      if (text[i + 1] === '\r' && text[i + 2] === '\n') {
+        i += 2;
+      } else if (text[i + 1] === '\n') {
+        i += 1;
+      } else if (i + 1 < text.length) {
+        line += text[i + 1];
+        i += 1;
+      }
+      continue;
+    }
+    if (c === '"') {
+      cmdQuoted = !cmdQuoted;
+    }
+    line += c;
+  }
+
+  // The program splits its own arguments: `"` toggles quoting, `\"` is a quote, `""` in quotes too
+  const tokens: string[] = [];
+  let current: string | null = null;
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (c === '\\') {
+      let count = 0;
+      while (line[i + count] === '\\') {
+        count++;
+      }
+      if (line[i + count] === '"') {
+        current = (current ?? '') + '\\'.repeat(Math.floor(count / 2));
+        if (count % 2 === 1) {
+          current += '"';
+          i += count;
+        } else {
+          i += count - 1;
+        }
+        continue;
+      }
+      current = (current ?? '') + '\\'.repeat(count);
+      i += count - 1;
+    } else if (c === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current = (current ?? '') + '"';
+        i++;
+      } else {
+        quoted = !quoted;
+        current = current ?? '';
+      }
+    } else if (!quoted && /\s/.test(c)) {
+      if (current !== null) {
+        tokens.push(current);
+        current = null;
+      }
+    } else {
+      current = (current ?? '') + c;
+    }
+  }
+  if (current !== null) {
+    tokens.push(current);
+  }
+  return tokens;
+}
+
+// --- curl options ---
+
+/** Single-letter options and the long option each stands for */
+const SHORT_OPTIONS: Record<string, string> = {
+  '#': 'progress-bar',
+  '0': 'http1.0',
+  '4': 'ipv4',
+  '6': 'ipv6',
+  A: 'user-agent',
+  b: 'cookie',
+  c: 'cookie-jar',
+  C: 'continue-at',
+  d: 'data',
+  D: 'dump-header',
+  e: 'referer',
+  E: 'cert',
+  f: 'fail',
+  F: 'form',
+  g: 'globoff',
+  G: 'get',
+  H: 'header',
+  i: 'include',
+  I: 'head',
+  j: 'junk-session-cookies',
+  J: 'remote-header-name',
+  k: 'insecure',
+  K: 'config',
+  L: 'location',
+  m: 'max-time',
+  n: 'netrc',
+  N: 'no-buffer',
+  o: 'output',
+  O: 'remote-name',
+  r: 'range',
+  R: 'remote-time',
+  s: 'silent',
+  S: 'show-error',
+  T: 'upload-file',
+  u: 'user',
+  U: 'proxy-user',
+  v: 'verbose',
+  w: 'write-out',
+  x: 'proxy',
+  X: 'request',
+  Y: 'speed-limit',
+  y: 'speed-time',
+  z: 'time-cond',
+  Z: 'parallel',
+};
+
+/** Long options that consume the next argument */
+const OPTIONS_WITH_ARGUMENT = new Set([
+  'abstract-unix-socket', 'alt-svc', 'aws-sigv4', 'cacert', 'capath', 'cert', 'cert-type',
+  'ciphers', 'config', 'connect-timeout', 'connect-to', 'continue-at', 'cookie', 'cookie-jar',
+  'create-file-mode', 'crlfile', 'data', 'data-ascii', 'data-binary', 'data-raw', 'data-urlencode',
+  'dns-servers', 'doh-url', 'dump-header', 'etag-compare', 'etag-save', 'expect100-timeout', 'form',
+  'form-string', 'header', 'hsts', 'interface', 'json', 'keepalive-time', 'key', 'key-type',
+  'limit-rate', 'local-port', 'max-filesize', 'max-redirs', 'max-time', 'noproxy', 'oauth2-bearer',
+  'output', 'output-dir', 'parallel-max', 'pass', 'pinnedpubkey', 'preproxy', 'proto',
+  'proto-redir', 'proxy', 'proxy-cacert', 'proxy-cert', 'proxy-header', 'proxy-key', 'proxy-pass',
+  'proxy-user', 'range', 'rate', 'referer', 'request', 'request-target', 'resolve', 'retry',
+  'retry-delay', 'retry-max-time', 'service-name', 'socks4', 'socks4a', 'socks5',
+  'socks5-hostname', 'speed-limit', 'speed-time', 'stderr', 'time-cond', 'tls-max', 'trace',
+  'trace-ascii', 'unix-socket', 'upload-file', 'url', 'url-query', 'user', 'user-agent',
+  'variable', 'write-out',
+]);
+
+/** Options that only change what curl prints or how it retries; they don't change the request */
+const OUTPUT_OPTIONS = new Set([
+  'create-dirs', 'dump-header', 'fail', 'fail-early', 'fail-with-body', 'globoff', 'http1.0',
+  'http1.1', 'http2', 'http2-prior-knowledge', 'http3', 'http3-only', 'include', 'ipv4', 'ipv6',
+  'keepalive-time', 'limit-rate', 'no-buffer', 'no-keepalive', 'no-progress-meter', 'output',
+  'output-dir', 'parallel', 'parallel-max', 'path-as-is', 'progress-bar', 'remote-header-name',
+  'remote-name', 'remote-time', 'retry', 'retry-all-errors', 'retry-connrefused', 'retry-delay',
+  'retry-max-time', 'show-error', 'silent', 'stderr', 'styled-output', 'tcp-fastopen',
+  'tcp-nodelay', 'tls-max', 'tlsv1', 'tlsv1.0', 'tlsv1.1', 'tlsv1.2', 'tlsv1.3', 'trace',
+  'trace-ascii', 'verbose', 'write-out',
+]);
+
+type CurlDataPiece =
+  | { kind: 'text'; value: string }
+  | { kind: 'file'; path: string }
+  | { kind: 'urlencode'; name?: string; value: string }
+  | { kind: 'urlencode-file'; name?: string; path: string };
+
+/** Percent-encodes like curl's `--data-urlencode` (everything but unreserved characters) */
+function curlEscape(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/** `content`, `=content`, `name=content`, `@file` or `name@file` */
+function parseUrlencodePiece(value: string): CurlDataPiece {
+  const eq = value.indexOf('=');
+  const at = value.indexOf('@');
+  if (at >= 0 && (eq < 0 || at < eq)) {
+    const name = value.slice(0, at);
+    return { kind: 'urlencode-file', ...(name ? { name } : {}), path: value.slice(at + 1) };
+  }
+  if (eq < 0) {
+    return { kind: 'urlencode', value };
+  }
+  const name = value.slice(0, eq);
+  return { kind: 'urlencode', ...(name ? { name } : {}), value: value.slice(eq + 1) };
+}
+
+/** `name=value`, `name=@file;type=...;filename=...` or `name=<file` (`-F`) */
+function parseFormField(value: string, literal: boolean): HttpRequestBodyField | null {
+  const eq = value.indexOf('=');
+  if (eq <= 0) {
+    return null;
+  }
+  const key = value.slice(0, eq);
+  const content = value.slice(eq + 1);
+  if (literal || (!content.startsWith('@') && !content.startsWith('<'))) {
+    const typed = literal ? null : /^(.*?);type=([^;]+)$/.exec(content);
+    return typed
+      ? { key, value: typed[1], type: 'text', contentType: typed[2] }
+      : { key, value: content, type: 'text' };
+  }
+  const [filePath, ...params] = content.slice(1).split(';');
+  const type = params.find((p) => /^type=/i.test(p.trim()))?.trim().slice(5);
+  // `<file` (file content without a filename) is kept as a file part too
+  return { key, value: filePath.replace(/^"(.*)"$/, '$1'), type: 'file', ...(type ? { contentType: type } : {}) };
+}
+
+/** Splits `--cert file:password`, leaving a Windows drive letter alone */
+function splitCertPassword(value: string): { cert: string; password?: string } {
+  const from = /^[A-Za-z]:[\\/]/.test(value) ? 2 : 0;
+  const colon = value.indexOf(':', from);
+  return colon < 0 ? { cert: value } : { cert: value.slice(0, colon), password: value.slice(colon + 1) };
+}
+
+/**
+ * Parses a curl command line (POSIX or cmd quoting) into the request model.
+ * Returns null when the text is not a curl command or has no URL.
+ */
+export function parseCurlCommand(text: string): CurlRequest | null {
+  const tokens = tokenizeShellCommand(text.trim());
+  const program = tokens[0]?.split(/[\\/]/).pop() ?? '';
+  if (!/^curl(\.exe)?$/i.test(program)) {
+    return null;
+  }
+  return parseCurlArguments(tokens.slice(1));
+}
+
+/**
+ * Maps curl arguments (without the `curl` program name) onto the request model.
+ */
+export function parseCurlArguments(args: string[]): CurlRequest | null {
+  const urls: string[] = [];
+  const headers: Array<{ key: string; value: string }> = [];
+  const removedHeaders = new Set<string>();
+  const data: CurlDataPiece[] = [];
+  const form: HttpRequestBodyField[] = [];
+  const query: string[] = [];
+  const cookies: string[] = [];
+  const tls: CurlTlsOptions = {};
+  const transfer: CurlTransferOptions = {};
+  const ignored: string[] = [];
+  let method: string | undefined;
+  let get = false;
+  let head = false;
+  let json = false;
+  let compressed = false;
+  let uploadFile: string | undefined;
+  let user: string | undefined;
+  let authScheme: 'basic' | 'digest' = 'basic';
+  let awsSigV4: string | undefined;
+  let bearer: string | undefined;
+
+  const setHeader = (key: string, value: string): void => {
+    const index = headers.findIndex((h) => h.key.toLowerCase() === key.toLowerCase());
+    if (index >= 0) {
+      headers[index] = { key: headers[index].key, value };
+    } else {
+      headers.push({ key, value });
+    }
+  };
+  const hasHeader = (key: string): boolean =>
+    headers.some((h) => h.key.toLowerCase() === key.toLowerCase()) || removedHeaders.has(key.toLowerCase());
+
+  const apply = (name: string, value: string | undefined, written: string): void => {
+    const arg = value ?? '';
+    const ignore = (): void => {
+      ignored.push(value === undefined ? written : `${written} ${value}`);
+    };
+    switch (name) {
+      case 'url':
+        urls.push(arg);
+        break;
+      case 'request':
+        method = arg.toUpperCase();
+        break;
+      case 'header': {
+        const colon = arg.indexOf(':');
+        const semicolon = arg.indexOf(';');
+        if (arg.startsWith('@')) {
+          ignore();
+        } else if (colon > 0) {
+          const key = arg.slice(0, colon).trim();
+          const headerValue = arg.slice(colon + 1).trim();
+          if (headerValue) {
+            headers.push({ key, value: headerValue });
+          } else {
+            // `Name:` removes a header curl would add
+            removedHeaders.add(key.toLowerCase());
+            for (let i = headers.length - 1; i >= 0; i--) {
+              if (headers[i].key.toLowerCase() === key.toLowerCase()) {
+                headers.splice(i, 1);
+              }
+            }
+          }
+        } else if (semicolon > 0 && !arg.slice(semicolon + 1).trim()) {
+          // `Name;` sends the header with an empty value
+          headers.push({ key: arg.slice(0, semicolon).trim(), value: '' });
+        } else {
+          ignore();
+        }
+        break;
+      }
+      case 'user-agent':
+        setHeader('User-Agent', arg);
+        break;
+      case 'referer':
+        if (arg.replace(/;?auto$/, '')) {
+          setHeader('Referer', arg.replace(/;?auto$/, ''));
+        }
+        break;
+      case 'data':
+      case 'data-ascii':
+      case 'data-binary':
+      case 'json':
+        if (arg === '@-') {
+          ignore();
+        } else if (arg.startsWith('@')) {
+          data.push({ kind: 'file', path: arg.slice(1) });
+        } else {
+          data.push({ kind: 'text', value: arg });
+        }
+        json = json || name === 'json';
+        break;
+      case 'data-raw':
+        data.push({ kind: 'text', value: arg });
+        break;
+      case 'data-urlencode':
+        data.push(parseUrlencodePiece(arg));
+        break;
+      case 'form':
+      case 'form-string': {
+        const field = parseFormField(arg, name === 'form-string');
+        if (field) {
+          form.push(field);
+        } else {
+          ignore();
+        }
+        break;
+      }
+      case 'get':
+        get = true;
+        break;
+      case 'head':
+        head = true;
+        break;
+      case 'upload-file':
+        if (arg === '-' || arg === '.') {
+          ignore();
+        } else {
+          uploadFile = arg;
+        }
+        break;
+      case 'url-query':
+        // `+name=value` is sent as written, anything else is encoded like --data-urlencode
+        if (arg.startsWith('+')) {
+          query.push(arg.slice(1));
+        } else {
+          const piece = parseUrlencodePiece(arg);
+          if (piece.kind === 'urlencode') {
+            query.push(piece.name ? `${piece.name}=${curlEscape(piece.value)}` : curlEscape(piece.value));
+          } else {
+            ignore();
+          }
+        }
+        break;
+      case 'user':
+        user = arg;
+        break;
+      case 'basic':
+      case 'digest':
+        authScheme = name;
+        break;
+      case 'aws-sigv4':
+        awsSigV4 = arg;
+        break;
+      case 'oauth2-bearer':
+        bearer = arg;
+        break;
+      case 'cookie':
+        if (arg.includes('=')) {
+          cookies.push(arg.trim().replace(/;$/, ''));
+        } else {
+          // a cookie file to read
+          ignore();
+        }
+        break;
+      case 'compressed':
+        compressed = true;
+        break;
+      case 'insecure':
+        tls.insecure = true;
+        break;
+      case 'cert': {
+        const { cert, password } = splitCertPassword(arg);
+        tls.cert = cert;
+        if (password !== undefined) {
+          tls.certPassword = password;
+        }
+        break;
+      }
+      case 'cert-type':
+        tls.certType = arg;
+        break;
+      case 'pass':
+        tls.certPassword = arg;
+        break;
+      case 'key':
+        tls.key = arg;
+        break;
+      case 'key-type':
+        tls.keyType = arg;
+        break;
+      case 'cacert':
+        tls.cacert = arg;
+        break;
+      case 'capath':
+        tls.capath = arg;
+        break;
+      case 'location':
+        transfer.followRedirects = true;
+        break;
+      case 'no-location':
+        transfer.followRedirects = false;
+        break;
+      case 'max-redirs':
+        transfer.maxRedirects = Number(arg);
+        break;
+      case 'max-time':
+        transfer.maxTime = Number(arg);
+        break;
+      case 'connect-timeout':
+        transfer.connectTimeout = Number(arg);
+        break;
+      case 'proxy':
+        transfer.proxy = arg;
+        break;
+      case 'proxy-user':
+        transfer.proxyUser = arg;
+        break;
+      case 'noproxy':
+        transfer.noProxy = arg;
+        break;
+      default:
+        if (!OUTPUT_OPTIONS.has(name) && !OUTPUT_OPTIONS.has(name.replace(/^no-/, ''))) {
+          ignore();
+        }
+    }
+  };
+
+  let endOfOptions = false;
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (endOfOptions || !arg.startsWith('-') || arg === '-') {
+      urls.push(arg);
+      continue;
+    }
+    if (arg === '--') {
+      endOfOptions = true;
+      continue;
+    }
+    if (arg.startsWith('--')) {
+      const name = arg.slice(2).toLowerCase();
+      if (OPTIONS_WITH_ARGUMENT.has(name)) {
+        if (i + 1 >= args.length) {
+          ignored.push(arg);
+          continue;
+        }
+        apply(name, args[++i], arg);
+      } else {
+        apply(name, undefined, arg);
+      }
+      continue;
+    }
+    // Short options combine (`-sSL`) and take their argument attached or next (`-XPOST`, `-X POST`)
+    for (let k = 1; k < arg.length; k++) {
+      const letter = arg[k];
+      const name = SHORT_OPTIONS[letter];
+      if (!name) {
+        ignored.push(`-${letter}`);
+        continue;
+      }
+      if (!OPTIONS_WITH_ARGUMENT.has(name)) {
+        apply(name, undefined, `-${letter}`);
+        continue;
+      }
+      const attached = arg.slice(k + 1);
+      if (attached) {
+        apply(name, attached, `-${letter}`);
+      } else if (i + 1 < args.length) {
+        apply(name, args[++i], `-${letter}`);
+      } else {
+        ignored.push(`-${letter}`);
+      }
+      break;
+    }
+  }
+
+  if (urls.length === 0) {
+    return null;
+  }
+  ignored.push(...urls.slice(1));
+  let url = /^[a-z][a-z0-9+.-]*:\/\//i.test(urls[0]) || urls[0].startsWith('{{') ? urls[0] : `http://${urls[0]}`;
+
+  // Each data piece as sent; pieces read from files can only travel alone, as the whole body
+  const encodePiece = (piece: CurlDataPiece): string | null => {
+    switch (piece.kind) {
+      case 'text':
+        return piece.value;
+      case 'urlencode':
+        return piece.name ? `${piece.name}=${curlEscape(piece.value)}` : curlEscape(piece.value);
+      default:
+        ignored.push(piece.kind === 'file' ? `-d @${piece.path}` : `--data-urlencode ${piece.name ?? ''}@${piece.path}`);
+        return null;
+    }
+  };
+
+  let bodyMode: CurlRequest['bodyMode'] = 'none';
+  let body = '';
+  let bodyFields: HttpRequestBodyField[] = [];
+  let bodyFile: string | undefined;
+
+  if (get && data.length > 0) {
+    query.unshift(...data.map(encodePiece).filter((p): p is string => p !== null));
+  }
+  if (query.length > 0) {
+    url += (url.includes('?') ? '&' : '?') + query.join('&');
+  }
+
+  if (form.length > 0) {
+    bodyMode = 'multipart';
+    bodyFields = form;
+    setHeader('Content-Type', `multipart/form-data; boundary=${DEFAULT_MULTIPART_BOUNDARY}`);
+    if (data.length > 0 && !get) {
+      ignored.push('-d (curl does not combine -d with -F)');
+    }
+  } else if (uploadFile) {
+    bodyMode = 'file';
+    bodyFile = uploadFile;
+  } else if (data.length > 0 && !get) {
+    const first = data[0];
+    if (data.length === 1 && first.kind === 'file') {
+      bodyMode = 'file';
+      bodyFile = first.path;
+    } else if (data.length > 1 && data.every((p) => p.kind === 'urlencode' && p.name)) {
+      bodyMode = 'urlencoded';
+      bodyFields = data.map((p) => ({
+        key: (p as { name: string }).name,
+        value: (p as { value: string }).value,
+        type: 'text' as const,
+      }));
+    } else {
+      bodyMode = 'raw';
+      body = data.map(encodePiece).filter((p): p is string => p !== null).join('&');
+    }
+    if (json) {
+      if (!hasHeader('content-type')) {
+        setHeader('Content-Type', 'application/json');
+      }
+      if (!hasHeader('accept')) {
+        setHeader('Accept', 'application/json');
+      }
+    } else if (!hasHeader('content-type') && !body.includes('\n')) {
+      // curl labels -d bodies as a form; a multi-line body would then be re-encoded line by line
+      setHeader('Content-Type', 'application/x-www-form-urlencoded');
+    }
+  }
+
+  if (cookies.length > 0) {
+    const existing = headers.find((h) => h.key.toLowerCase() === 'cookie');
+    setHeader('Cookie', [existing?.value, ...cookies].filter(Boolean).join('; '));
+  }
+  if (compressed && !hasHeader('accept-encoding')) {
+    setHeader('Accept-Encoding', 'deflate, gzip, br');
+  }
+  if (bearer !== undefined) {
+    setHeader('Authorization', `Bearer ${bearer}`);
+  }
+
+  let auth: HttpAuthDirective | undefined;
+  const colon = user?.indexOf(':') ?? -1;
+  const username = user === undefined ? undefined : colon < 0 ? user : user.slice(0, colon);
+  const password = user === undefined || colon < 0 ? '' : user.slice(colon + 1);
+  if (awsSigV4 !== undefined) {
+    // `provider1[:provider2[:region[:service]]]`
+    const [, , region, service] = awsSigV4.split(':');
+    auth = {
+      type: 'aws',
+      options: {
+        ...(region ? { region } : {}),
+        ...(service ? { service } : {}),
+        ...(username ? { accessKeyId: username } : {}),
+        ...(password ? { secretAccessKey: password } : {}),
+      },
+    };
+  } else if (username !== undefined) {
+    auth = { type: authScheme, options: { username, password } };
+  }
+
+  return {
+    method: method ?? (head ? 'HEAD' : uploadFile ? 'PUT' : bodyMode !== 'none' ? 'POST' : 'GET'),
+    url,
+    headers,
+    bodyMode,
+    body,
+    bodyFields,
+    ...(bodyFile !== undefined ? { bodyFile } : {}),
+    ...(auth ? { auth } : {}),
+    tls,
+    transfer,
+    ignored,
+  };
+}
+
+const CURL_PROXY_SCHEME_RE = /^[a-z][a-z0-9+.-]*:\/\//i;
+
+/** `-x` value as a `# @tls proxy=` URL (curl assumes `http://`); null for SOCKS and other schemes */
+function curlProxyUrl(proxy: string, proxyUser: string | undefined): string | null {
+  const url = CURL_PROXY_SCHEME_RE.test(proxy) ? proxy : `http://${proxy}`;
+  if (!/^http:\/\//i.test(url)) {
+    return null;
+  }
+  if (proxyUser === undefined || /^http:\/\/[^/]*@/i.test(url)) {
+    return url;
+  }
+  const colon = proxyUser.indexOf(':');
+  const credentials = colon < 0
+    ? encodeURIComponent(proxyUser)
+    : `${encodeURIComponent(proxyUser.slice(0, colon))}:${encodeURIComponent(proxyUser.slice(colon + 1))}`;
+  return url.replace(/^http:\/\//i, `http://${credentials}@`);
+}
+
+/**
+ * `# @tls` options for the curl TLS and proxy flags a request block can carry:
+ * `-k`, PEM or P12 `--cert` / `--key` with `--pass`, `--cacert`, an HTTP `-x` with `-U`, `--noproxy`
+ */
+export function curlTlsDirective(request: CurlRequest): HttpTlsDirective | null {
+  const { tls, transfer } = request;
+  const options: Record<string, string> = {};
+  const proxy = transfer.proxy !== undefined ? curlProxyUrl(transfer.proxy, transfer.proxyUser) : null;
+  if (proxy) {
+    options.proxy = proxy;
+  }
+  if (transfer.noProxy !== undefined) {
+    options.noProxy = transfer.noProxy;
+  }
+  const certType = tls.certType?.toUpperCase() ?? 'PEM';
+  if (tls.cert !== undefined && certType === 'PEM') {
+    options.cert = tls.cert;
+    if (tls.key !== undefined && (tls.keyType?.toUpperCase() ?? 'PEM') === 'PEM') {
+      options.key = tls.key;
+    }
+  } else if (tls.cert !== undefined && certType === 'P12') {
+    options.pfx = tls.cert;
+  }
+  if (tls.certPassword !== undefined && (options.cert || options.pfx)) {
+    options.passphrase = tls.certPassword;
+  }
+  if (tls.cacert !== undefined) {
+    options.ca = tls.cacert;
+  }
+  if (tls.insecure) {
+    options.verify = 'false';
+  }
+  return Object.keys(options).length > 0 ? { options } : null;
+}
+
+/**
+ * TLS and transfer options as curl flags, for the options curlTlsDirective cannot carry.
+ */
+export function describeCurlConnectionOptions(request: CurlRequest): string[] {
+  const { tls, transfer } = request;
+  const mapped = curlTlsDirective(request)?.options ?? {};
+  const certMapped = mapped.cert !== undefined || mapped.pfx !== undefined;
+  const flags: string[] = [];
+  for (const [flag, value] of [
+    ['--cert', certMapped ? undefined : tls.cert],
+    ['--cert-type', certMapped ? undefined : tls.certType],
+    ['--key', mapped.key !== undefined ? undefined : tls.key],
+    ['--key-type', mapped.key !== undefined ? undefined : tls.keyType],
+    ['--capath', tls.capath],
+    ['-x', mapped.proxy !== undefined ? undefined : transfer.proxy],
+  ] as const) {
+    if (value !== undefined) {
+      flags.push(`${flag} ${value}`);
+    }
+  }
+  if (tls.certPassword !== undefined && mapped.passphrase === undefined) {
+    flags.push('--pass ***');
+  }
+  if (transfer.proxyUser !== undefined && mapped.proxy === undefined) {
+    flags.push('-U ***');
+  }
+  if (transfer.followRedirects !== undefined) {
+    flags.push(transfer.followRedirects ? '-L' : '--no-location');
+  }
+  if (transfer.maxRedirects !== undefined) {
+    flags.push(`--max-redirs ${transfer.maxRedirects}`);
+  }
+  if (transfer.maxTime !== undefined) {
+    flags.push(`-m ${transfer.maxTime}`);
+  }
+  if (transfer.connectTimeout !== undefined) {
+    flags.push(`--connect-timeout ${transfer.connectTimeout}`);
+  }
+  return flags;
+}
+
+/**
+ * Request body text in `.req` form for the request's body mode (`< path` for files).
+ */
+export function formatCurlRequestBody(request: CurlRequest): string | undefined {
+  switch (request.bodyMode) {
+    case 'raw':
+      return request.body;
+    case 'urlencoded':
+      return serializeUrlencodedFields(request.bodyFields);
+    case 'multipart':
+      return serializeMultipartFields(request.bodyFields, DEFAULT_MULTIPART_BOUNDARY);
+    case 'file':
+      return `< ${request.bodyFile}`;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * The request as the executor sends it. Basic credentials become an `Authorization`
+ * header; Digest and AWS need a `# @auth` line and are left to the caller.
+ */
+export function curlRequestToConfig(request: CurlRequest): HttpRequestConfig {
+  let headers: Record<string, string> = {};
+  for (const header of request.headers) {
+    headers[header.key] = header.value;
+  }
+  if (request.auth?.type === 'basic') {
+    headers = setAuthorizationHeader(
+      headers,
+      buildBasicAuthorization(request.auth.options.username ?? '', request.auth.options.password ?? '')
+    );
+  }
+  return {
+    method: request.method,
+    url: request.url,
+    headers,
+    body: formatCurlRequestBody(request),
+  };
+}
+
+/** Options of buildCurlArgs */
+export interface CurlArgsOptions {
+  /** Proxy and TLS settings of the request, absolute paths */
+  tls?: HttpTlsSettings;
+  /** Body arguments sent instead of `-d` (for example `--data-binary @file`) */
+  body?: string[];
+  /** Leave out `Content-Type` (curl writes its own multipart boundary) */
+  dropContentType?: boolean;
+}
+
+const SHELL_SAFE_RE = /^[A-Za-z0-9_@%+=:,./-]+$/;
+
+/**
+ * curl flags for proxy, client certificate and verification settings
+ * @throws Error for a proxy that is not an `http://` URL
+ */
+function buildCurlTlsArgs(settings: HttpTlsSettings, url: string): string[] {
+  const args: string[] = [];
+  const proxy = selectProxy(settings, new URL(url));
+  if (proxy) {
+    args.push('--proxy', proxy.href);
+  } else if (settings.httpProxy || settings.httpsProxy) {
+    // Bypassed by the no-proxy list; keep curl from falling back to *_proxy variables
+    args.push('--noproxy', '*');
+  }
+  if (settings.cert) {
+    args.push('--cert', settings.cert);
+    if (settings.key) {
+      args.push('--key', settings.key);
+    }
+  }
+  if (settings.pfx) {
+    args.push('--cert-type', 'P12', '--cert', settings.pfx);
+  }
+  if (settings.passphrase !== undefined) {
+    args.push('--pass', settings.passphrase);
+  }
+  if (settings.ca) {
+    args.push('--cacert', settings.ca);
+  }
+  if (!settings.verify) {
+    args.push('-k');
+  }
+  if (settings.minVersion) {
+    args.push(settings.minVersion === 'TLSv1' ? '--tlsv1.0' : `--tlsv${settings.minVersion.slice(4)}`);
+  }
+  return args;
+}
+
+/**
+ * curl arguments that send the request and print the status line, the headers and a final
+ * `HTTPSTATUS:code` marker. Values are passed as they are: run them without a shell or quote
+ * each one with quoteCurlArgument.
+ * @throws Error for a proxy that is not an `http://` URL
+ */
+export function buildCurlArgs(config: HttpRequestConfig, options: CurlArgsOptions = {}): string[] {
+  const args = ['-i', '-s', '-S', '-w', '\\nHTTPSTATUS:%{http_code}'];
+  if (config.method && config.method !== 'GET') {
+    args.push('-X', config.method);
+  }
+  if (options.tls) {
+    args.push(...buildCurlTlsArgs(options.tls, config.url));
+  }
+  for (const [key, value] of Object.entries(config.headers ?? {})) {
+    if (options.dropContentType && key.toLowerCase() === 'content-type') {
+      continue;
+    }
+    args.push('-H', `${key}: ${value}`);
+  }
+  if (options.body) {
+    args.push(...options.body);
+  } else if (config.body) {
+    args.push('-d', typeof config.body === 'string' ? config.body : JSON.stringify(config.body));
+  }
+  args.push(config.url);
+  return args;
+}
+
+/**
+ * An argument as written in a POSIX shell command: bare when it has no special characters,
+ * otherwise in double quotes with `"`, `\`, `$` and backticks escaped
+ */
+export function quoteCurlArgument(value: string): string {
+  return SHELL_SAFE_RE.test(value) ? value : `"${value.replace(/(["\\$`])/g, '\\$1')}"`;
+}
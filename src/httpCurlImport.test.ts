@@ -1,6 +1,6 @@
 import * as assert from 'assert';
 import { isCurlCommand, normalizeCurlInput } from './httpRequestParse';
-import { curlToFormData } from './httpCurlImport';
+import { curlToFormData, formatCurlImportBlock, parseCurlImport } from './httpCurlImport';
 
 function runTests(): void {
   testNormalizeMultilineCurl();
@@ -9,6 +9,10 @@ function runTests(): void {
   testPostWithHeadersAndBody();
   testPostInferredFromData();
   testRequestFlag();
+  testMultilineBodyKept();
+  testImportAuthAndIgnored();
+  testImportBlock();
+  testImportTlsBlock();
   console.log('All httpCurlImport tests passed.');
 }
 
@@ -57,6 +61,66 @@ function testRequestFlag(): void {
   assert.strictEqual(form!.method, 'DELETE');
 }
 
+function testMultilineBodyKept(): void {
+  const form = curlToFormData(`curl https://api.example.com/items \\
+  -H 'Content-Type: application/json' \\
+  --data-raw '{
+  "name": "Ada  Lovelace"
+}'`);
+  assert.ok(form);
+  assert.strictEqual(form!.body, '{\n  "name": "Ada  Lovelace"\n}');
+}
+
+function testImportAuthAndIgnored(): void {
+  const imported = parseCurlImport(`curl -k -u ada:pw -F 'file=@a.png' https://api.example.com/upload`);
+  assert.ok(imported);
+  assert.deepStrictEqual(imported!.auth, { type: 'basic', options: { username: 'ada', password: 'pw' } });
+  assert.strictEqual(imported!.form.bodyMode, 'multipart');
+  assert.deepStrictEqual(imported!.form.bodyFields, [{ key: 'file', value: 'a.png', type: 'file' }]);
+  assert.deepStrictEqual(imported!.tls, { options: { verify: 'false' } });
+  assert.deepStrictEqual(imported!.ignored, []);
+}
+
+function testImportBlock(): void {
+  const imported = parseCurlImport(`curl --digest -u ada:pw --ntlm 'https://api.example.com/users/1?x=1'`)!;
+  assert.strictEqual(
+    formatCurlImportBlock(imported),
+    [
+      '## GET /users/1',
+      '# @auth digest username=ada password=pw',
+      '# Ignored curl flags: --ntlm',
+      'GET https://api.example.com/users/1?x=1',
+      'Accept: application/json',
+      '',
+      '###',
+      '',
+    ].join('\n')
+  );
+}
+
+function testImportTlsBlock(): void {
+  const imported = parseCurlImport(
+    `curl -k --cert client.pem:pw --key client.key --cacert ca.pem -x proxy:3128 -U ann:s3 --noproxy localhost --capath /etc/ssl https://api.example.com/`
+  )!;
+  assert.strictEqual(
+    formatCurlImportBlock(imported),
+    [
+      '## GET /',
+      '# @tls proxy=http://ann:s3@proxy:3128 noProxy=localhost cert=client.pem key=client.key passphrase=pw ca=ca.pem verify=false',
+      '# Ignored curl flags: --capath /etc/ssl',
+      'GET https://api.example.com/',
+      'Accept: application/json',
+      '',
+      '###',
+      '',
+    ].join('\n')
+  );
+  // SOCKS proxies and DER certificates have no `# @tls` form
+  const socks = parseCurlImport('curl -x socks5://proxy:1080 --cert-type DER --cert c.der https://x.test')!;
+  assert.strictEqual(socks.tls, undefined);
+  assert.deepStrictEqual(socks.ignored, ['--cert c.der', '--cert-type DER', '-x socks5://proxy:1080']);
+}
+
 if (require.main === module) {
   runTests();
 }
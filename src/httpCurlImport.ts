@@ -1,40 +1,83 @@
-import { isCurlCommand, normalizeCurlInput, parseHttpRequest } from './httpRequestParse';
+import { curlTlsDirective, describeCurlConnectionOptions, parseCurlCommand } from './httpCurlCommand';
+import { serializeAuthDirective } from './httpAuth';
+import { serializeRestClientRequest } from './httpRequestEditorSerializer';
+import { serializeTlsDirective } from './httpTls';
+import type { HttpAuthDirective } from './httpAuth';
 import type { HttpRequestFormData } from './httpRequestEditorTypes';
+import type { HttpTlsDirective } from './httpTls';
+
+/** A pasted cURL command as editor fields, its `# @auth` / `# @tls` lines and the flags left out */
+export interface CurlImport {
+  form: HttpRequestFormData;
+  auth?: HttpAuthDirective;
+  /** Proxy, client certificate and verification flags (`-x`, `--cert`, `-k`) */
+  tls?: HttpTlsDirective;
+  /** curl flags the request block cannot express, as written */
+  ignored: string[];
+}
 
 /**
- * Converts a pasted cURL command into editor form fields (Postman/Insomnia-style import).
+ * Converts a pasted cURL command (POSIX or Windows cmd quoting) into editor form fields,
+ * credentials for `# @auth`, connection options for `# @tls` and a report of the flags
+ * that were dropped.
  */
-export function curlToFormData(text: string): HttpRequestFormData | null {
-  if (!isCurlCommand(text)) {
-    return null;
-  }
-
-  const config = parseHttpRequest(normalizeCurlInput(text));
-  if (!config?.url) {
+export function parseCurlImport(text: string): CurlImport | null {
+  const request = parseCurlCommand(text);
+  if (!request) {
     return null;
   }
 
-  const headers = Object.entries(config.headers ?? {}).map(([key, value]) => ({
-    key,
-    value,
-  }));
-
+  const headers = request.headers.map((h) => ({ ...h }));
   if (headers.length === 0) {
     headers.push({ key: 'Accept', value: 'application/json' });
   }
 
-  let body = '';
-  if (config.body !== undefined && config.body !== null) {
-    body =
-      typeof config.body === 'string'
-        ? config.body
-        : JSON.stringify(config.body, null, 2);
-  }
+  const form: HttpRequestFormData = {
+    method: request.method,
+    url: request.url,
+    headers,
+    body: request.bodyMode === 'raw' ? request.body : '',
+    bodyMode: request.bodyMode === 'none' ? 'raw' : request.bodyMode,
+    ...(request.bodyFields.length > 0 ? { bodyFields: request.bodyFields } : {}),
+    ...(request.bodyFile !== undefined ? { bodyFile: request.bodyFile } : {}),
+  };
 
+  const tls = curlTlsDirective(request);
   return {
-    method: (config.method ?? 'GET').toUpperCase(),
-    url: config.url,
-    headers,
-    body,
+    form,
+    ...(request.auth ? { auth: request.auth } : {}),
+    ...(tls ? { tls } : {}),
+    ignored: [...request.ignored, ...describeCurlConnectionOptions(request)],
   };
 }
+
+/**
+ * Converts a pasted cURL command into editor form fields (Postman/Insomnia-style import).
+ */
+export function curlToFormData(text: string): HttpRequestFormData | null {
+  return parseCurlImport(text)?.form ?? null;
+}
+
+/**
+ * A `##` section for a request file: title, `# @auth`, `# @tls`, a note listing ignored
+ * flags and the request lines, closed by `###`.
+ */
+export function formatCurlImportBlock(imported: CurlImport, title?: string): string {
+  const lines = [`## ${title?.trim() || defaultBlockTitle(imported.form)}`];
+  if (imported.auth) {
+    lines.push(serializeAuthDirective(imported.auth));
+  }
+  if (imported.tls) {
+    lines.push(serializeTlsDirective(imported.tls));
+  }
+  if (imported.ignored.length > 0) {
+    lines.push(`# Ignored curl flags: ${imported.ignored.join(' ')}`);
+  }
+  lines.push(serializeRestClientRequest(imported.form), '', '###', '');
+  return lines.join('\n');
+}
+
+function defaultBlockTitle(form: HttpRequestFormData): string {
+  const path = form.url.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/?#]*/i, '').split(/[?#]/)[0];
+  return `${form.method} ${path || '/'}`;
+}
@@ -0,0 +1,199 @@
+import * as assert from 'assert';
+import type { AssertionResult } from './assertionTypes';
+import {
+  buildDatasetRowResult,
+  formatDatasetRun,
+  labelDatasetAssertionResults,
+  lookupDatasetValue,
+  mergeDatasetAssertionResults,
+  parseCsv,
+  parseDatasetContent,
+  parseDatasetLine,
+  selectDatasetRows,
+} from './httpDataset';
+
+function runTests(): void {
+  testParseDatasetLine();
+  testParseCsv();
+  testParseDatasetContent();
+  testSelectDatasetRows();
+  testLookupDatasetValue();
+  testBuildDatasetRowResult();
+  testMergeDatasetAssertionResults();
+  testFormatDatasetRun();
+  console.log('All httpDataset tests passed.');
+}
+
+function testParseDatasetLine(): void {
+  assert.deepStrictEqual(parseDatasetLine('# @dataset ./users.csv'), { file: './users.csv', stopOnFailure: false });
+  assert.deepStrictEqual(parseDatasetLine('# @dataset data/skus.json rows=2-10 stopOnFailure'), {
+    file: 'data/skus.json',
+    from: 2,
+    to: 10,
+    stopOnFailure: true,
+  });
+  assert.deepStrictEqual(parseDatasetLine('#@dataset "./my users.csv" rows=5- stop-on-failure'), {
+    file: './my users.csv',
+    from: 5,
+    to: undefined,
+    stopOnFailure: true,
+  });
+  assert.deepStrictEqual(parseDatasetLine('# @dataset users.tsv rows=3 stopOnFailure=false'), {
+    file: 'users.tsv',
+    from: 3,
+    to: 3,
+    stopOnFailure: false,
+  });
+  assert.deepStrictEqual(parseDatasetLine('# @dataset users.csv rows=-4'), {
+    file: 'users.csv',
+    from: undefined,
+    to: 4,
+    stopOnFailure: false,
+  });
+  // Malformed ranges are ignored
+  assert.deepStrictEqual(parseDatasetLine('# @dataset users.csv rows=0-x'), { file: 'users.csv', stopOnFailure: false });
+  assert.strictEqual(parseDatasetLine('# @dataset'), null);
+  assert.strictEqual(parseDatasetLine('# @dataset rows=1-2'), null);
+  assert.strictEqual(parseDatasetLine('# @name users'), null);
+}
+
+function testParseCsv(): void {
+  assert.deepStrictEqual(parseCsv('\uFEFFa,b\r\n1,"x, ""y"""\r\n\r\n2,"multi\nline"\n'), [
+    ['a', 'b'],
+    ['1', 'x, "y"'],
+    ['2', 'multi\nline'],
+  ]);
+  assert.deepStrictEqual(parseCsv('a\tb\n1\t2', '\t'), [['a', 'b'], ['1', '2']]);
+  assert.deepStrictEqual(parseCsv('a,b\n1,'), [['a', 'b'], ['1', '']]);
+  assert.deepStrictEqual(parseCsv(''), []);
+}
+
+function testParseDatasetContent(): void {
+  assert.deepStrictEqual(parseDatasetContent(' name , email \nAnn,ann@example.com\nBob\n', 'users.csv'), [
+    { name: 'Ann', email: 'ann@example.com' },
+    { name: 'Bob', email: '' },
+  ]);
+  assert.deepStrictEqual(parseDatasetContent('sku\tqty\nA-1\t3\n', 'skus.TSV'), [{ sku: 'A-1', qty: '3' }]);
+  assert.deepStrictEqual(parseDatasetContent('[{"id":1,"tags":["a"]}]', 'rows.json'), [{ id: 1, tags: ['a'] }]);
+  assert.deepStrictEqual(parseDatasetContent('', 'empty.csv'), []);
+  assert.throws(() => parseDatasetContent('{"id":1}', 'rows.json'), /rows\.json must hold a JSON array of objects/);
+  assert.throws(() => parseDatasetContent('[1, 2]', 'rows.json'), /JSON array of objects/);
+  assert.throws(() => parseDatasetContent('[', 'rows.json'), SyntaxError);
+  assert.throws(() => parseDatasetContent('a', 'rows.xlsx'), /Unsupported dataset file rows\.xlsx/);
+}
+
+function testSelectDatasetRows(): void {
+  const rows = [{ n: '1' }, { n: '2' }, { n: '3' }, { n: '4' }];
+  assert.deepStrictEqual(selectDatasetRows(rows, {}).map((r) => r.index), [1, 2, 3, 4]);
+  assert.deepStrictEqual(selectDatasetRows(rows, { from: 2, to: 3 }), [
+    { index: 2, row: { n: '2' } },
+    { index: 3, row: { n: '3' } },
+  ]);
+  assert.deepStrictEqual(selectDatasetRows(rows, { from: 3, to: 99 }).map((r) => r.index), [3, 4]);
+  assert.deepStrictEqual(selectDatasetRows(rows, { from: 9 }), []);
+}
+
+function testLookupDatasetValue(): void {
+  const row = { Email: 'ann@example.com', 'address.city': 'Lisbon', profile: { address: { zip: '1000' } }, n: 0 };
+  assert.strictEqual(lookupDatasetValue(row, 'Email'), 'ann@example.com');
+  assert.strictEqual(lookupDatasetValue(row, 'email'), 'ann@example.com');
+  assert.strictEqual(lookupDatasetValue(row, 'address.city'), 'Lisbon');
+  assert.strictEqual(lookupDatasetValue(row, 'profile.address.zip'), '1000');
+  assert.strictEqual(lookupDatasetValue(row, 'n'), 0);
+  assert.strictEqual(lookupDatasetValue(row, 'profile.missing'), undefined);
+  assert.strictEqual(lookupDatasetValue(row, 'missing'), undefined);
+}
+
+const STATUS_200: AssertionResult = {
+  assertion: { description: 'Status is 200', expression: 'res.status', operator: 'equals', expected: 200 },
+  passed: true,
+  actualValue: 200,
+};
+
+function failed(description: string, error: string): AssertionResult {
+  return {
+    assertion: { description, expression: 'res.body.id', operator: 'isNotEmpty', expected: null },
+    passed: false,
+    error,
+  };
+}
+
+function testBuildDatasetRowResult(): void {
+  const ok = buildDatasetRowResult(1, { name: 'Ann', tags: ['a'] }, 'POST /users', { statusCode: 201, statusText: 'Created' }, 12, [STATUS_200]);
+  assert.deepStrictEqual(ok, {
+    index: 1,
+    values: { name: 'Ann', tags: '["a"]' },
+    requestLabel: 'POST /users',
+    statusCode: 201,
+    statusText: 'Created',
+    durationMs: 12,
+    passed: true,
+    assertionsPassed: 1,
+    assertionsTotal: 1,
+    failures: [],
+  });
+  const failing = buildDatasetRowResult(2, {}, 'POST /users', { statusCode: 200, statusText: 'OK' }, 5, [
+    STATUS_200,
+    failed('Has id', 'Value is empty'),
+  ]);
+  assert.strictEqual(failing.passed, false);
+  assert.deepStrictEqual(failing.failures, ['Has id: Value is empty']);
+  // Without assertions the status decides
+  assert.strictEqual(buildDatasetRowResult(3, {}, 'GET /', { statusCode: 404, statusText: 'Not Found' }, 1, []).passed, false);
+  assert.strictEqual(buildDatasetRowResult(3, {}, 'GET /', { statusCode: 204, statusText: 'No Content' }, 1, []).passed, true);
+  const error = buildDatasetRowResult(4, {}, 'GET /', { statusCode: 0, statusText: 'Error', error: 'ECONNREFUSED' }, 1, [STATUS_200]);
+  assert.strictEqual(error.passed, false);
+  assert.deepStrictEqual(error.failures, ['ECONNREFUSED']);
+}
+
+function testMergeDatasetAssertionResults(): void {
+  const scriptPass: AssertionResult = {
+    assertion: { description: 'token saved', expression: 'client.test("token saved")', operator: 'isTruthy', expected: null },
+    passed: true,
+  };
+  const rows = [
+    { index: 1, results: [STATUS_200, STATUS_200, scriptPass] },
+    { index: 2, results: [STATUS_200, failed('Has id', 'Value is empty'), failed('token saved', 'no token')] },
+    { index: 3, results: [STATUS_200, failed('Has id', 'Still empty'), scriptPass] },
+  ];
+  const merged = mergeDatasetAssertionResults(rows, 2);
+  assert.strictEqual(merged.length, 3);
+  assert.strictEqual(merged[0], STATUS_200);
+  assert.strictEqual(merged[1].assertion.description, 'Row 2: Has id');
+  assert.strictEqual(merged[1].error, 'Value is empty');
+  assert.strictEqual(merged[2].assertion.description, 'Row 2: token saved');
+  assert.deepStrictEqual(mergeDatasetAssertionResults([rows[0]], 2), rows[0].results);
+  assert.deepStrictEqual(mergeDatasetAssertionResults([], 2), []);
+
+  const labelled = labelDatasetAssertionResults([{ index: 7, results: [STATUS_200] }]);
+  assert.strictEqual(labelled[0].assertion.description, 'Row 7: Status is 200');
+  assert.strictEqual(STATUS_200.assertion.description, 'Status is 200');
+}
+
+function testFormatDatasetRun(): void {
+  const text = formatDatasetRun({
+    file: './users.csv',
+    selectedRows: 3,
+    stoppedEarly: true,
+    rows: [
+      buildDatasetRowResult(1, { name: 'Ann' }, 'POST /users', { statusCode: 201, statusText: 'Created' }, 12, [STATUS_200]),
+      buildDatasetRowResult(2, { name: 'Bob' }, 'POST /users', { statusCode: 200, statusText: 'OK' }, 5, [
+        failed('Has id', 'Value is empty'),
+      ]),
+    ],
+  });
+  assert.strictEqual(
+    text,
+    [
+      'Dataset ./users.csv: 1/2 rows passed (stopped after 2 of 3)',
+      '',
+      '✓ Row 1: 201 Created (12 ms, 1/1 assertions)',
+      '    name=Ann',
+      '✗ Row 2: 200 OK (5 ms, 0/1 assertions)',
+      '    name=Bob',
+      '    Has id: Value is empty',
+    ].join('\n')
+  );
+}
+
+runTests();
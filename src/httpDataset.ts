@@ -0,0 +1,332 @@
+/**
+ * `# @dataset ./users.csv` data-driven iterations: the block is sent once per row of a
+ * CSV / TSV / JSON file, with the row's columns available as `{{row.column}}`.
+ * Pure helpers — no VS Code dependencies.
+ */
+import * as path from 'path';
+import type { AssertionResult } from './assertionTypes';
+
+const DATASET_LINE_RE = /^#\s*@dataset\s+(.+)$/i;
+const DATASET_TOKEN_RE = /([A-Za-z]\w*)=("(?:[^"\\]|\\.)*"|\S*)|("(?:[^"\\]|\\.)*"|\S+)/g;
+
+/** One row of a dataset; JSON rows may nest objects and arrays. */
+export type HttpDatasetRow = Record<string, unknown>;
+
+/**
+ * Options of a `# @dataset <file> [rows=2-10] [stopOnFailure]` line
+ */
+export interface HttpDatasetDirective {
+  /** Dataset file, relative to the request file */
+  file: string;
+  /** First row to send (1-based, inclusive) */
+  from?: number;
+  /** Last row to send (1-based, inclusive) */
+  to?: number;
+  /** Stop at the first row whose request fails or whose assertions fail */
+  stopOnFailure: boolean;
+}
+
+/** One sent row of a dataset run. */
+export interface HttpDatasetRowResult {
+  /** 1-based row number in the dataset file (header excluded) */
+  index: number;
+  /** Row values as substituted for `{{row.column}}` */
+  values: Record<string, string>;
+  /** `METHOD url` as sent; undefined when the row could not be prepared */
+  requestLabel?: string;
+  statusCode: number;
+  statusText: string;
+  durationMs: number;
+  passed: boolean;
+  assertionsPassed: number;
+  assertionsTotal: number;
+  /** `description: reason` of each failed assertion, or the request error */
+  failures: string[];
+}
+
+/** Aggregated result of a `# @dataset` block. */
+export interface HttpDatasetRun {
+  /** Dataset file as written in the directive */
+  file: string;
+  /** Rows selected by the directive's range */
+  selectedRows: number;
+  rows: HttpDatasetRowResult[];
+  /** True when stop-on-failure or a cancel ended the run before the last selected row */
+  stoppedEarly: boolean;
+}
+
+function unquote(value: string): string {
+  return value.startsWith('"') && value.endsWith('"') && value.length >= 2
+    ? value.slice(1, -1).replace(/\\(.)/g, '$1')
+    : value;
+}
+
+/**
+ * Parses a `rows=` range: `3`, `2-10`, `5-` or `-10` (1-based, inclusive)
+ */
+function parseRowRange(value: string): { from?: number; to?: number } | null {
+  const match = value.trim().match(/^(\d*)\s*(?:(-)\s*(\d*))?$/);
+  if (!match || (!match[1] && !match[3])) {
+    return null;
+  }
+  const from = match[1] ? Number(match[1]) : undefined;
+  const to = match[2] ? (match[3] ? Number(match[3]) : undefined) : from;
+  if ((from !== undefined && from < 1) || (to !== undefined && to < 1)) {
+    return null;
+  }
+  return { from, to };
+}
+
+/**
+ * Parses a `# @dataset` line (null otherwise, for findBlockDirective)
+ */
+export function parseDatasetLine(line: string): HttpDatasetDirective | null {
+  const match = line.trim().match(DATASET_LINE_RE);
+  if (!match) {
+    return null;
+  }
+  const directive: HttpDatasetDirective = { file: '', stopOnFailure: false };
+  for (const token of match[1].matchAll(DATASET_TOKEN_RE)) {
+    const key = token[1]?.toLowerCase();
+    if (key === 'rows') {
+      Object.assign(directive, parseRowRange(unquote(token[2])) ?? {});
+    } else if (key === 'stoponfailure') {
+      directive.stopOnFailure = unquote(token[2]).toLowerCase() !== 'false';
+    } else if (!key && /^stop-?on-?failure$/i.test(token[3])) {
+      directive.stopOnFailure = true;
+    } else if (!key && !directive.file) {
+      directive.file = unquote(token[3]);
+    }
+  }
+  return directive.file ? directive : null;
+}
+
+/**
+ * Splits CSV text into records (RFC 4180: quoted fields may hold delimiters, quotes and newlines)
+ * @param text File content
+ * @param delimiter Field delimiter
+ */
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source[i + 1] === '\n') {
+        i++;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+/**
+ * Parses a dataset file: CSV / TSV with a header row, or a JSON array of objects
+ * @param content File content
+ * @param fileName File name; the extension selects the format
+ * @throws When the content is not a usable dataset
+ */
+export function parseDatasetContent(content: string, fileName: string): HttpDatasetRow[] {
+  const ext = path.extname(fileName).toLowerCase();
+  if (ext === '.json') {
+    const parsed: unknown = JSON.parse(content.replace(/^\uFEFF/, ''));
+    if (!Array.isArray(parsed) || parsed.some((row) => !row || typeof row !== 'object' || Array.isArray(row))) {
+      throw new Error(`${path.basename(fileName)} must hold a JSON array of objects.`);
+    }
+    return parsed as HttpDatasetRow[];
+  }
+  if (ext !== '.csv' && ext !== '.tsv') {
+    throw new Error(`Unsupported dataset file ${path.basename(fileName)}: use .csv, .tsv or .json.`);
+  }
+  const [header, ...records] = parseCsv(content, ext === '.tsv' ? '\t' : ',');
+  if (!header) {
+    return [];
+  }
+  const columns = header.map((name) => name.trim());
+  return records.map((record) =>
+    Object.fromEntries(columns.map((column, i) => [column, record[i] ?? '']))
+  );
+}
+
+/**
+ * Rows within the directive's range, with their 1-based numbers
+ */
+export function selectDatasetRows(
+  rows: HttpDatasetRow[],
+  directive: Pick<HttpDatasetDirective, 'from' | 'to'>
+): Array<{ index: number; row: HttpDatasetRow }> {
+  const from = directive.from ?? 1;
+  const to = Math.min(directive.to ?? rows.length, rows.length);
+  const selected: Array<{ index: number; row: HttpDatasetRow }> = [];
+  for (let index = from; index <= to; index++) {
+    selected.push({ index, row: rows[index - 1] });
+  }
+  return selected;
+}
+
+/**
+ * Text of a row value as substituted into the request
+ */
+export function formatDatasetValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Looks up `{{row.<key>}}`: an exact column first, then case-insensitive, then a dotted
+ * path into nested JSON values. Undefined when nothing matches.
+ */
+export function lookupDatasetValue(row: HttpDatasetRow, key: string): unknown {
+  if (Object.prototype.hasOwnProperty.call(row, key)) {
+    return row[key];
+  }
+  const column = Object.keys(row).find((name) => name.toLowerCase() === key.toLowerCase());
+  if (column !== undefined) {
+    return row[column];
+  }
+  const dot = key.indexOf('.');
+  if (dot > 0) {
+    const head = lookupDatasetValue(row, key.slice(0, dot));
+    if (head && typeof head === 'object') {
+      return lookupDatasetValue(head as HttpDatasetRow, key.slice(dot + 1));
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Builds the result of one row from its response and assertions. A row passes when the
+ * request got a response and every assertion passed; without assertions, a status below 400.
+ */
+export function buildDatasetRowResult(
+  index: number,
+  row: HttpDatasetRow,
+  requestLabel: string,
+  response: { statusCode: number; statusText: string; error?: string },
+  durationMs: number,
+  assertionResults: AssertionResult[]
+): HttpDatasetRowResult {
+  const failedAssertions = assertionResults.filter((r) => !r.passed);
+  const failures = failedAssertions.map(
+    (r) => `${r.assertion.description || r.assertion.expression}: ${r.error ?? 'failed'}`
+  );
+  const sent = response.statusCode > 0;
+  if (!sent) {
+    failures.unshift(response.error || response.statusText || 'Request failed');
+  }
+  return {
+    index,
+    values: Object.fromEntries(Object.entries(row).map(([key, value]) => [key, formatDatasetValue(value)])),
+    requestLabel,
+    statusCode: response.statusCode,
+    statusText: response.statusText,
+    durationMs,
+    passed: sent && (assertionResults.length > 0 ? failedAssertions.length === 0 : response.statusCode < 400),
+    assertionsPassed: assertionResults.length - failedAssertions.length,
+    assertionsTotal: assertionResults.length,
+    failures,
+  };
+}
+
+/**
+ * Assertion results of every row in one list, each description prefixed with `Row N:`
+ */
+export function labelDatasetAssertionResults(
+  rows: Array<{ index: number; results: AssertionResult[] }>
+): AssertionResult[] {
+  return rows.flatMap(({ index, results }) =>
+    results.map((result) => ({
+      ...result,
+      assertion: {
+        ...result.assertion,
+        description: `Row ${index}: ${result.assertion.description || result.assertion.expression}`,
+      },
+    }))
+  );
+}
+
+/**
+ * Folds per-row results into one result per assertion (Test Explorer runs): the first
+ * failing row's result, labelled with its row, or the last row's passing result.
+ * Results past `assertCount` (script tests, snapshot) keep every failure and the last row's passes.
+ * @param rows Results of each row, in send order
+ * @param assertCount How many leading results belong to `@assert` lines
+ */
+export function mergeDatasetAssertionResults(
+  rows: Array<{ index: number; results: AssertionResult[] }>,
+  assertCount: number
+): AssertionResult[] {
+  if (rows.length === 0) {
+    return [];
+  }
+  const labelled = (index: number, result: AssertionResult): AssertionResult =>
+    labelDatasetAssertionResults([{ index, results: [result] }])[0];
+  const last = rows[rows.length - 1];
+  const merged: AssertionResult[] = [];
+  for (let i = 0; i < assertCount; i++) {
+    const failing = rows.find((row) => row.results[i] && !row.results[i].passed);
+    if (failing) {
+      merged.push(labelled(failing.index, failing.results[i]));
+    } else if (last.results[i]) {
+      merged.push(last.results[i]);
+    }
+  }
+  const extraFailures = rows.flatMap((row) =>
+    row.results.slice(assertCount).filter((r) => !r.passed).map((r) => labelled(row.index, r))
+  );
+  return [...merged, ...(extraFailures.length > 0 ? extraFailures : last.results.slice(assertCount))];
+}
+
+/**
+ * Plain-text table of a dataset run (Raw tab, saved response files)
+ */
+export function formatDatasetRun(run: HttpDatasetRun): string {
+  const passed = run.rows.filter((row) => row.passed).length;
+  const lines = [
+    `Dataset ${run.file}: ${passed}/${run.rows.length} rows passed` +
+      (run.stoppedEarly ? ` (stopped after ${run.rows.length} of ${run.selectedRows})` : ''),
+    '',
+  ];
+  for (const row of run.rows) {
+    const status = row.statusCode > 0 ? `${row.statusCode} ${row.statusText}` : row.statusText || 'failed';
+    const assertions = row.assertionsTotal > 0 ? `, ${row.assertionsPassed}/${row.assertionsTotal} assertions` : '';
+    lines.push(`${row.passed ? '✓' : '✗'} Row ${row.index}: ${status} (${row.durationMs} ms${assertions})`);
+    const preview = Object.entries(row.values).map(([key, value]) => `${key}=${value}`).join(', ');
+    if (preview) {
+      lines.push(`    ${preview.length > 200 ? `${preview.slice(0, 197)}...` : preview}`);
+    }
+    for (const failure of row.failures) {
+      lines.push(`    ${failure.replace(/\n/g, '\n    ')}`);
+    }
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,181 @@
+import * as assert from 'assert';
+import {
+  compareEnvironmentResponses,
+  DEFAULT_COMPARE_IGNORED_HEADERS,
+  describeComparison,
+  formatCompareBody,
+  formatComparisonMarkdown,
+  mergeCompareRules,
+  parseCompareLine,
+  serializeCompareRules,
+  type HttpCompareSide,
+} from './httpEnvCompare';
+
+function side(envName: string, overrides: Partial<HttpCompareSide> = {}): HttpCompareSide {
+  return {
+    envName,
+    requestLabel: `GET https://${envName}.example.test/users/1`,
+    statusCode: 200,
+    statusText: 'OK',
+    headers: { 'Content-Type': 'application/json', Date: `Mon, 0${envName.length} Jan 2024 00:00:00 GMT` },
+    body: JSON.stringify({ id: 1, name: 'Ann', roles: ['admin'], meta: { requestId: envName, version: '1.2' } }),
+    durationMs: 100,
+    ...overrides,
+  };
+}
+
+function testParseCompareLine(): void {
+  assert.deepStrictEqual(parseCompareLine('# @compare ignore=$.id,$..updatedAt headers=X-Version,x-build'), {
+    ignorePaths: ['$.id', '$..updatedAt'],
+    ignoreHeaders: ['x-version', 'x-build'],
+  });
+  assert.deepStrictEqual(parseCompareLine('#@COMPARE'), { ignorePaths: [], ignoreHeaders: [] });
+  assert.strictEqual(parseCompareLine('# @comparator'), null);
+  assert.strictEqual(parseCompareLine('GET https://x.test'), null);
+}
+
+function testMergeCompareRules(): void {
+  const rules = mergeCompareRules(['Date', 'etag'], { ignorePaths: ['$.id'], ignoreHeaders: ['date', 'x-version'] }, null, {
+    ignorePaths: ['$.id', '$.meta.requestId'],
+    ignoreHeaders: [],
+  });
+  assert.deepStrictEqual(rules, {
+    ignorePaths: ['$.id', '$.meta.requestId'],
+    ignoreHeaders: ['date', 'etag', 'x-version'],
+  });
+  assert.throws(() => mergeCompareRules([], { ignorePaths: ['$.items[oops'], ignoreHeaders: [] }), /Invalid ignore path: \$\.items\[oops/);
+  assert.strictEqual(
+    serializeCompareRules(rules, ['date', 'etag']),
+    '# @compare ignore=$.id,$.meta.requestId headers=x-version'
+  );
+  assert.strictEqual(serializeCompareRules({ ignorePaths: [], ignoreHeaders: ['date'] }, ['date']), '# @compare');
+  assert.deepStrictEqual(parseCompareLine(serializeCompareRules(rules, [])), {
+    ignorePaths: rules.ignorePaths,
+    ignoreHeaders: rules.ignoreHeaders,
+  });
+}
+
+function testCompareEnvironmentResponses(): void {
+  const rules = mergeCompareRules(DEFAULT_COMPARE_IGNORED_HEADERS, parseCompareLine('# @compare ignore=$.meta.requestId'));
+  const same = compareEnvironmentResponses(side('dev'), side('staging'), rules);
+  assert.strictEqual(same.equal, true, 'Date and the request id are ignored');
+  assert.strictEqual(same.bodyKind, 'json');
+  assert.deepStrictEqual(
+    same.headers.map((h) => [h.name, h.same, h.ignored]),
+    [
+      ['content-type', true, false],
+      ['date', false, true],
+    ]
+  );
+  assert.strictEqual(describeComparison(same), 'No differences');
+
+  const reordered = side('staging', {
+    body: JSON.stringify({ meta: { version: '1.2', requestId: 'x' }, roles: ['admin'], name: 'Ann', id: 1 }),
+  });
+  assert.strictEqual(compareEnvironmentResponses(side('dev'), reordered, rules).equal, true, 'key order is ignored');
+
+  const drifted = compareEnvironmentResponses(
+    side('dev'),
+    side('staging', {
+      statusCode: 201,
+      statusText: 'Created',
+      headers: { 'content-type': 'application/json', 'X-Version': '2' },
+      body: JSON.stringify({ id: 1, name: 'Ann', roles: ['admin', 'ops'], meta: { version: '1.3' } }),
+    }),
+    rules
+  );
+  assert.strictEqual(drifted.equal, false);
+  assert.strictEqual(drifted.statusMatches, false);
+  assert.deepStrictEqual(
+    drifted.headers.filter((h) => !h.same && !h.ignored).map((h) => [h.name, h.left, h.right]),
+    [['x-version', undefined, '2']]
+  );
+  assert.deepStrictEqual(
+    drifted.bodyDiffs.map((d) => [d.kind, d.path]),
+    [
+      ['removed', '$.meta.requestId'],
+      ['changed', '$.meta.version'],
+      ['added', '$.roles[1]'],
+    ],
+    'a masked field missing on one side still shows'
+  );
+  assert.strictEqual(describeComparison(drifted), '5 differences (status, 1 header, 3 body fields)');
+
+  const text = compareEnvironmentResponses(
+    side('dev', { body: 'pong' }),
+    side('prod', { body: 'pong!' }),
+    rules
+  );
+  assert.strictEqual(text.bodyKind, 'text');
+  assert.deepStrictEqual(text.bodyDiffs, [{ path: '$', kind: 'changed', before: 'pong', after: 'pong!' }]);
+  assert.strictEqual(describeComparison(text), '1 difference (body)');
+
+  assert.strictEqual(formatCompareBody('{"b":1,"a":[2]}'), '{\n  "a": [\n    2\n  ],\n  "b": 1\n}');
+  assert.strictEqual(formatCompareBody('plain'), 'plain');
+}
+
+function testFormatComparisonMarkdown(): void {
+  const rules = mergeCompareRules(['date'], { ignorePaths: ['$.meta.requestId'], ignoreHeaders: [] });
+  const markdown = formatComparisonMarkdown(
+    compareEnvironmentResponses(
+      side('dev'),
+      side('staging', {
+        headers: { 'Content-Type': 'application/json; v=2', Date: 'later', Link: '<a>; rel="x|y"' },
+        body: JSON.stringify({ id: 1, name: 'Ann', roles: ['admin'], meta: { requestId: 'x', version: '1.3' } }),
+        durationMs: 80,
+      }),
+      rules
+    ),
+    'Get user'
+  );
+  assert.strictEqual(
+    markdown,
+    [
+      '## Get user: dev vs staging',
+      '',
+      '**❌ 3 differences (2 headers, 1 body field)**',
+      '',
+      '| | dev | staging |',
+      '|---|---|---|',
+      '| Request | `GET https://dev.example.test/users/1` | `GET https://staging.example.test/users/1` |',
+      '| Status | `200 OK` | `200 OK` |',
+      '| Time | 100 ms | 80 ms |',
+      '',
+      '### Headers',
+      '',
+      '| Header | dev | staging |',
+      '|---|---|---|',
+      '| content-type | `application/json` | `application/json; v=2` |',
+      '| link | — | `<a>; rel="x\\|y"` |',
+      '',
+      '### Body',
+      '',
+      '```',
+      '~ $.meta.version: "1.2" → "1.3"',
+      '```',
+      '',
+      '- Ignored body paths: `$.meta.requestId`',
+      '- Ignored headers that differ: date',
+      '',
+    ].join('\n')
+  );
+
+  const failed = formatComparisonMarkdown(
+    compareEnvironmentResponses(side('dev'), side('prod', { statusCode: 0, statusText: 'Error', error: 'ECONNREFUSED', body: '' }), rules),
+    'Get user'
+  );
+  assert.ok(failed.includes('| Status | `200 OK` | `No response (ECONNREFUSED)` |'));
+  assert.ok(failed.includes('The bodies differ'));
+}
+
+function runTests(): void {
+  testParseCompareLine();
+  testMergeCompareRules();
+  testCompareEnvironmentResponses();
+  testFormatComparisonMarkdown();
+  console.log('All httpEnvCompare tests passed.');
+}
+
+if (require.main === module) {
+  runTests();
+}
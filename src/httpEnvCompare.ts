@@ -0,0 +1,282 @@
+/**
+ * Compares the responses of one request block sent in two environments: status, headers and
+ * a JSON-aware body diff, with ignore rules for volatile fields and a Markdown export.
+ * Pure helpers — no VS Code dependencies.
+ */
+import { canonicalizeJson, diffJsonValues, type JsonDifference } from './httpHistory';
+import { formatSnapshotDiff, maskSnapshotPaths, parseSnapshotPath } from './httpSnapshot';
+
+const COMPARE_RE = /^#\s*@compare(?:\s+(.*))?$/i;
+
+/** Headers that differ between any two sends and are ignored unless the settings say otherwise */
+export const DEFAULT_COMPARE_IGNORED_HEADERS = [
+  'age',
+  'cf-ray',
+  'content-length',
+  'date',
+  'etag',
+  'expires',
+  'last-modified',
+  'server-timing',
+  'set-cookie',
+  'x-amzn-requestid',
+  'x-amzn-trace-id',
+  'x-correlation-id',
+  'x-request-id',
+  'x-runtime',
+  'x-trace-id',
+];
+
+/** What a comparison leaves out */
+export interface HttpCompareRules {
+  /** Body paths (`$.id`, `$.items[*].updatedAt`, `$..etag`) whose values are not compared */
+  ignorePaths: string[];
+  /** Lowercase header names that are not compared */
+  ignoreHeaders: string[];
+}
+
+/** One environment's side of a comparison */
+export interface HttpCompareSide {
+  envName: string;
+  /** `METHOD url` as sent */
+  requestLabel: string;
+  /** 0 when no response arrived */
+  statusCode: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+  durationMs: number;
+  error?: string;
+}
+
+export interface HttpHeaderComparison {
+  /** Lowercase header name */
+  name: string;
+  left?: string;
+  right?: string;
+  same: boolean;
+  ignored: boolean;
+}
+
+export interface HttpEnvComparison {
+  left: HttpCompareSide;
+  right: HttpCompareSide;
+  rules: HttpCompareRules;
+  statusMatches: boolean;
+  /** Every header of either side, sorted by name */
+  headers: HttpHeaderComparison[];
+  /** `json` when both bodies parse as JSON; text bodies are compared as a whole */
+  bodyKind: 'json' | 'text';
+  bodyDiffs: JsonDifference[];
+  /** True when status, compared headers and body all match */
+  equal: boolean;
+}
+
+/**
+ * Parses a `# @compare ignore=$.id,$..updatedAt headers=x-version` line (null otherwise,
+ * for findBlockDirective). `headers` lists extra headers to ignore.
+ */
+export function parseCompareLine(line: string): HttpCompareRules | null {
+  const match = line.trim().match(COMPARE_RE);
+  if (!match) {
+    return null;
+  }
+  const rules: HttpCompareRules = { ignorePaths: [], ignoreHeaders: [] };
+  const split = (value: string): string[] => value.split(',').map((v) => v.trim()).filter(Boolean);
+  for (const token of (match[1] ?? '').trim().split(/\s+/).filter(Boolean)) {
+    const option = token.match(/^(ignore|headers)=(.*)$/i);
+    if (option?.[1].toLowerCase() === 'ignore') {
+      rules.ignorePaths.push(...split(option[2]));
+    } else if (option) {
+      rules.ignoreHeaders.push(...split(option[2]).map((h) => h.toLowerCase()));
+    }
+  }
+  return rules;
+}
+
+/**
+ * Rules of the `# @compare` line merged over the ignored headers from the settings,
+ * without duplicates
+ * @throws Error for a malformed ignore path
+ */
+export function mergeCompareRules(defaultHeaders: string[], ...rules: Array<HttpCompareRules | null>): HttpCompareRules {
+  const ignorePaths = [...new Set(rules.flatMap((r) => r?.ignorePaths ?? []))];
+  for (const pattern of ignorePaths) {
+    try {
+      parseSnapshotPath(pattern);
+    } catch {
+      throw new Error(`Invalid ignore path: ${pattern}`);
+    }
+  }
+  return {
+    ignorePaths,
+    ignoreHeaders: [
+      ...new Set([...defaultHeaders, ...rules.flatMap((r) => r?.ignoreHeaders ?? [])].map((h) => h.trim().toLowerCase())),
+    ].filter(Boolean),
+  };
+}
+
+/**
+ * Writes rules back as a `# @compare` line; headers already ignored by the settings are left out
+ */
+export function serializeCompareRules(rules: HttpCompareRules, defaultHeaders: string[]): string {
+  const defaults = new Set(defaultHeaders.map((h) => h.toLowerCase()));
+  const headers = rules.ignoreHeaders.filter((h) => !defaults.has(h));
+  return [
+    '# @compare',
+    ...(rules.ignorePaths.length > 0 ? [`ignore=${rules.ignorePaths.join(',')}`] : []),
+    ...(headers.length > 0 ? [`headers=${headers.join(',')}`] : []),
+  ].join(' ');
+}
+
+function parseJsonBody(body: string): { ok: true; value: unknown } | { ok: false } {
+  const trimmed = body.trim();
+  if (!trimmed) {
+    return { ok: false };
+  }
+  try {
+    return { ok: true, value: JSON.parse(trimmed) };
+  } catch {
+    return { ok: false };
+  }
+}
+
+function lowercaseHeaders(headers: Record<string, string>): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    result[name.toLowerCase()] = value;
+  }
+  return result;
+}
+
+/**
+ * Compares two sides. Ignored body paths are masked on both sides, so only a field that
+ * is present on one side and missing on the other still shows up.
+ * @throws Error for a malformed ignore path
+ */
+export function compareEnvironmentResponses(
+  left: HttpCompareSide,
+  right: HttpCompareSide,
+  rules: HttpCompareRules
+): HttpEnvComparison {
+  const leftHeaders = lowercaseHeaders(left.headers);
+  const rightHeaders = lowercaseHeaders(right.headers);
+  const ignoredHeaders = new Set(rules.ignoreHeaders);
+  const headers = [...new Set([...Object.keys(leftHeaders), ...Object.keys(rightHeaders)])].sort().map((name) => ({
+    name,
+    left: leftHeaders[name],
+    right: rightHeaders[name],
+    same: leftHeaders[name] === rightHeaders[name],
+    ignored: ignoredHeaders.has(name),
+  }));
+
+  const leftJson = parseJsonBody(left.body);
+  const rightJson = parseJsonBody(right.body);
+  let bodyKind: HttpEnvComparison['bodyKind'] = 'text';
+  let bodyDiffs: JsonDifference[];
+  if (leftJson.ok && rightJson.ok) {
+    bodyKind = 'json';
+    bodyDiffs = diffJsonValues(
+      canonicalizeJson(maskSnapshotPaths(leftJson.value, rules.ignorePaths)),
+      canonicalizeJson(maskSnapshotPaths(rightJson.value, rules.ignorePaths))
+    );
+  } else {
+    bodyDiffs = left.body === right.body ? [] : [{ path: '$', kind: 'changed', before: left.body, after: right.body }];
+  }
+
+  const statusMatches = left.statusCode === right.statusCode;
+  return {
+    left,
+    right,
+    rules,
+    statusMatches,
+    headers,
+    bodyKind,
+    bodyDiffs,
+    equal: statusMatches && headers.every((h) => h.same || h.ignored) && bodyDiffs.length === 0,
+  };
+}
+
+/**
+ * Body of a side for the side-by-side view: JSON re-printed with sorted keys
+ */
+export function formatCompareBody(body: string): string {
+  const parsed = parseJsonBody(body);
+  return parsed.ok ? JSON.stringify(canonicalizeJson(parsed.value), null, 2) : body;
+}
+
+/**
+ * `3 differences (status, 1 header, 1 body field)` or `No differences`
+ */
+export function describeComparison(comparison: HttpEnvComparison): string {
+  const headerCount = comparison.headers.filter((h) => !h.same && !h.ignored).length;
+  const parts = [
+    ...(comparison.statusMatches ? [] : ['status']),
+    ...(headerCount > 0 ? [`${headerCount} header${headerCount === 1 ? '' : 's'}`] : []),
+    ...(comparison.bodyDiffs.length > 0
+      ? [
+          comparison.bodyKind === 'json'
+            ? `${comparison.bodyDiffs.length} body field${comparison.bodyDiffs.length === 1 ? '' : 's'}`
+            : 'body',
+        ]
+      : []),
+  ];
+  const total = (comparison.statusMatches ? 0 : 1) + headerCount + comparison.bodyDiffs.length;
+  return parts.length === 0 ? 'No differences' : `${total} difference${total === 1 ? '' : 's'} (${parts.join(', ')})`;
+}
+
+function markdownCell(value: string | undefined): string {
+  return value === undefined ? '—' : `\`${value.replace(/\|/g, '\\|').replace(/`/g, "'").replace(/\r?\n/g, ' ')}\``;
+}
+
+function statusLine(side: HttpCompareSide): string {
+  return side.statusCode > 0 ? `${side.statusCode} ${side.statusText}`.trimEnd() : `No response (${side.error ?? side.statusText})`;
+}
+
+/**
+ * Markdown report for a release ticket: summary table, differing headers and the body diff
+ * @param title Request title for the heading
+ */
+export function formatComparisonMarkdown(comparison: HttpEnvComparison, title: string): string {
+  const { left, right, rules } = comparison;
+  const lines = [
+    `## ${title}: ${left.envName} vs ${right.envName}`,
+    '',
+    `**${comparison.equal ? '✅' : '❌'} ${describeComparison(comparison)}**`,
+    '',
+    `| | ${left.envName} | ${right.envName} |`,
+    '|---|---|---|',
+    `| Request | ${markdownCell(left.requestLabel)} | ${markdownCell(right.requestLabel)} |`,
+    `| Status | ${markdownCell(statusLine(left))} | ${markdownCell(statusLine(right))} |`,
+    `| Time | ${left.durationMs} ms | ${right.durationMs} ms |`,
+  ];
+
+  const headers = comparison.headers.filter((h) => !h.same && !h.ignored);
+  if (headers.length > 0) {
+    lines.push('', '### Headers', '', `| Header | ${left.envName} | ${right.envName} |`, '|---|---|---|');
+    for (const header of headers) {
+      lines.push(`| ${header.name} | ${markdownCell(header.left)} | ${markdownCell(header.right)} |`);
+    }
+  }
+
+  if (comparison.bodyDiffs.length > 0) {
+    lines.push('', '### Body', '');
+    if (comparison.bodyKind === 'json') {
+      lines.push('```', formatSnapshotDiff(comparison.bodyDiffs, comparison.bodyDiffs.length), '```');
+    } else {
+      lines.push(`The bodies differ (${left.body.length} vs ${right.body.length} characters).`);
+    }
+  }
+
+  const ignoredHeaders = comparison.headers.filter((h) => h.ignored && !h.same).map((h) => h.name);
+  if (rules.ignorePaths.length > 0 || ignoredHeaders.length > 0) {
+    lines.push('');
+    if (rules.ignorePaths.length > 0) {
+      lines.push(`- Ignored body paths: ${rules.ignorePaths.map((p) => `\`${p}\``).join(', ')}`);
+    }
+    if (ignoredHeaders.length > 0) {
+      lines.push(`- Ignored headers that differ: ${ignoredHeaders.join(', ')}`);
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
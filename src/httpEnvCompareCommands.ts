@@ -0,0 +1,155 @@
+import * as vscode from 'vscode';
+import { EnvironmentManager } from './environmentManager';
+import {
+  compareEnvironmentResponses,
+  DEFAULT_COMPARE_IGNORED_HEADERS,
+  describeComparison,
+  mergeCompareRules,
+  parseCompareLine,
+  type HttpCompareRules,
+} from './httpEnvCompare';
+import { HttpEnvComparePanel } from './httpEnvComparePanel';
+import { findBlockDirective } from './httpRequestChaining';
+import { getEnvironmentForSection, runHttpEnvironmentComparison } from './httpRequestExecutor';
+import { getHttpRequestBlocks } from './httpRequestParser';
+import { buildHttpResponsePanelKey } from './httpResponsePanel';
+import { getHttpEnvContext } from './utils';
+
+/**
+ * Asks for the two environments, the block's own environment offered first.
+ * Undefined when the user cancelled.
+ */
+async function promptEnvironmentPair(available: string[], preferred: string | null): Promise<string[] | undefined> {
+  const ordered = preferred && available.includes(preferred)
+    ? [preferred, ...available.filter((env) => env !== preferred)]
+    : available;
+  const left = await vscode.window.showQuickPick(ordered, {
+    title: 'Compare Environments (1/2)',
+    placeHolder: 'Environment to compare from',
+  });
+  if (!left) {
+    return undefined;
+  }
+  const right = await vscode.window.showQuickPick(
+    ordered.filter((env) => env !== left),
+    { title: 'Compare Environments (2/2)', placeHolder: `Compare ${left} with` }
+  );
+  return right ? [left, right] : undefined;
+}
+
+/**
+ * Sends one request block in two environments and shows the differences.
+ * @param uri Request file; the active editor when omitted
+ * @param startLine Block start; the block at the cursor when omitted
+ * @param endLine Block end
+ * @param sectionTitle Block title, for the panel
+ * @param presetEnvs Environments to compare without prompting (Run again)
+ */
+async function compareEnvironmentsCommand(
+  uri?: vscode.Uri,
+  startLine?: number,
+  endLine?: number,
+  sectionTitle?: string,
+  presetEnvs?: string[]
+): Promise<void> {
+  const requestUri = uri ?? vscode.window.activeTextEditor?.document.uri;
+  if (!requestUri) {
+    vscode.window.showErrorMessage('No file selected');
+    return;
+  }
+  const document = await vscode.workspace.openTextDocument(requestUri);
+  if (startLine === undefined || endLine === undefined) {
+    const cursorLine = vscode.window.activeTextEditor?.document.uri.toString() === requestUri.toString()
+      ? vscode.window.activeTextEditor.selection.active.line
+      : 0;
+    const blocks = getHttpRequestBlocks(document);
+    const block = blocks.find((b) => cursorLine >= b.startLine && cursorLine <= b.endLine) ?? blocks[0];
+    if (!block) {
+      vscode.window.showErrorMessage('No HTTP request found in this file.');
+      return;
+    }
+    startLine = block.startLine;
+    endLine = block.endLine;
+    sectionTitle = block.title;
+  }
+
+  const envCtx = getHttpEnvContext(requestUri.fsPath);
+  const workspacePath = envCtx?.workspacePath ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? '';
+  const available = EnvironmentManager.getInstance().getAvailableEnvironments(workspacePath, envCtx?.envRoot);
+  let envNames = presetEnvs?.length === 2 && presetEnvs.every((env) => available.includes(env)) ? presetEnvs : undefined;
+  if (!envNames) {
+    if (available.length < 2) {
+      vscode.window.showErrorMessage(
+        'Compare Environments needs at least two environments (for example .env.dev and .env.staging).'
+      );
+      return;
+    }
+    envNames = await promptEnvironmentPair(
+      available,
+      getEnvironmentForSection(document, startLine) ?? EnvironmentManager.getInstance().getActiveEnvironment()
+    );
+    if (!envNames) {
+      return;
+    }
+  }
+
+  const defaultIgnoredHeaders = vscode.workspace
+    .getConfiguration('cursorToys')
+    .get<string[]>('httpCompareIgnoredHeaders', DEFAULT_COMPARE_IGNORED_HEADERS);
+  let rules: HttpCompareRules;
+  try {
+    rules = mergeCompareRules(
+      defaultIgnoredHeaders,
+      findBlockDirective(document.getText().split('\n'), startLine, endLine, parseCompareLine)
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage(`Invalid # @compare line: ${error instanceof Error ? error.message : String(error)}`);
+    return;
+  }
+
+  const blockStart = startLine;
+  const blockEnd = endLine;
+  const pair = envNames;
+  let sides: Awaited<ReturnType<typeof runHttpEnvironmentComparison>>;
+  try {
+    sides = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Comparing ${pair.join(' and ')}${sectionTitle ? `: ${sectionTitle}` : ''}`,
+      },
+      () => runHttpEnvironmentComparison(document, blockStart, blockEnd, pair)
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage(`Compare Environments failed: ${error instanceof Error ? error.message : String(error)}`);
+    return;
+  }
+  if (!sides) {
+    return;
+  }
+
+  HttpEnvComparePanel.show(
+    `${buildHttpResponsePanelKey(requestUri, blockStart, blockEnd, sectionTitle)}|compare`,
+    sides,
+    { requestUri, startLine: blockStart, endLine: blockEnd, sectionTitle, envNames: pair, rules, defaultIgnoredHeaders }
+  );
+  const comparison = compareEnvironmentResponses(sides[0], sides[1], rules);
+  const summary = `${pair.join(' vs ')}: ${describeComparison(comparison)}`;
+  if (comparison.equal) {
+    vscode.window.showInformationMessage(summary);
+  } else {
+    vscode.window.showWarningMessage(summary);
+  }
+}
+
+/**
+ * Registers the command behind the Compare Environments CodeLens.
+ */
+export function registerHttpEnvCompareCommands(context: vscode.ExtensionContext): void {
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'cursor-toys.compareHttpEnvironments',
+      (uri?: vscode.Uri, startLine?: number, endLine?: number, sectionTitle?: string, envNames?: string[]) =>
+        compareEnvironmentsCommand(uri instanceof vscode.Uri ? uri : undefined, startLine, endLine, sectionTitle, envNames)
+    )
+  );
+}
@@ -0,0 +1,347 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import {
+  compareEnvironmentResponses,
+  describeComparison,
+  formatCompareBody,
+  formatComparisonMarkdown,
+  mergeCompareRules,
+  serializeCompareRules,
+  type HttpCompareRules,
+  type HttpCompareSide,
+  type HttpEnvComparison,
+} from './httpEnvCompare';
+import type { JsonDifference } from './httpHistory';
+import type { HttpResendContext } from './httpResponsePanel';
+import { HttpSecretStore } from './httpSecretStore';
+import {
+  buildPanelHeader,
+  buildWebviewDocument,
+  configurePanelWebview,
+  escapeWebviewHtml,
+  getExtensionUri,
+} from './webviewUi';
+
+/** Characters of each body shown side by side; the Markdown export and the diff use all of it */
+const MAX_BODY_PREVIEW_CHARS = 200 * 1024;
+
+const HTTP_ENV_COMPARE_STYLES = `
+  .compare-body { padding: 12px 14px 16px; }
+  .toolbar { display: flex; align-items: center; gap: 8px; margin-bottom: 12px; flex-wrap: wrap; }
+  .ignore-row { display: flex; align-items: center; gap: 8px; margin-bottom: 16px; }
+  .ignore-row .ct-input { flex: 1; font-family: var(--ct-mono); font-size: 12px; }
+  section { margin-bottom: 16px; }
+  section h2 { font-size: 11px; font-family: var(--ct-mono); letter-spacing: 0.1em; text-transform: uppercase; color: var(--ct-mute2); margin: 0 0 8px; }
+  table.cmp { width: 100%; border-collapse: collapse; table-layout: fixed; font-size: 12px; }
+  table.cmp th, table.cmp td { text-align: left; vertical-align: top; padding: 4px 8px; border-bottom: 1px solid var(--ct-hair-soft); word-break: break-all; }
+  table.cmp th { font-weight: 600; color: var(--ct-mute); }
+  table.cmp col.name { width: 28%; }
+  table.cmp td.val { font-family: var(--ct-mono); }
+  table.cmp tr.diff td.val { background: color-mix(in srgb, var(--ct-warn) 12%, transparent); }
+  table.cmp tr.ignored td { color: var(--ct-mute2); }
+  table.cmp tr.same td { color: var(--ct-mute); }
+  table.cmp .kind { font-family: var(--ct-mono); color: var(--ct-mute2); margin-right: 6px; }
+  table.cmp .ignore-btn { float: right; }
+  .missing { color: var(--ct-mute2); font-style: italic; }
+  .side-by-side { display: grid; grid-template-columns: 1fr 1fr; gap: 8px; }
+  .side-by-side h3 { font-size: 12px; margin: 0 0 4px; }
+  .side-by-side pre { margin: 0; padding: 8px; max-height: 480px; overflow: auto; border: 1px solid var(--ct-hair); border-radius: 6px; font-family: var(--ct-mono); font-size: 12px; white-space: pre-wrap; word-break: break-all; }
+  label.toggle { font-size: 11px; color: var(--ct-mute2); display: inline-flex; gap: 4px; align-items: center; }
+  body.hide-same tr.same { display: none; }
+`;
+
+/** What the panel needs to send the comparison again */
+export interface HttpEnvCompareContext extends HttpResendContext {
+  envNames: string[];
+  /** Rules from the block's `# @compare` line and the settings */
+  rules: HttpCompareRules;
+  /** Ignored headers from `cursorToys.httpCompareIgnoredHeaders` */
+  defaultIgnoredHeaders: string[];
+}
+
+/**
+ * Webview comparison of one request block in two environments (one panel per block), with
+ * editable ignore paths, Run again and a Markdown export.
+ */
+export class HttpEnvComparePanel {
+  private static readonly panels = new Map<string, HttpEnvComparePanel>();
+
+  static show(key: string, sides: HttpCompareSide[], context: HttpEnvCompareContext): void {
+    sides = HttpSecretStore.getInstance().maskDeep(sides);
+    const existing = HttpEnvComparePanel.panels.get(key);
+    if (existing) {
+      existing.sides = sides;
+      existing.context = context;
+      // Paths added in the panel stay ignored when the comparison runs again
+      existing.rules = mergeCompareRules(context.rules.ignoreHeaders, context.rules, {
+        ignorePaths: existing.rules.ignorePaths,
+        ignoreHeaders: [],
+      });
+      existing.render();
+      existing.panel.reveal(vscode.ViewColumn.Beside, true);
+      return;
+    }
+    HttpEnvComparePanel.panels.set(key, new HttpEnvComparePanel(key, sides, context));
+  }
+
+  private readonly panel: vscode.WebviewPanel;
+  private rules: HttpCompareRules;
+
+  private constructor(
+    private readonly key: string,
+    private sides: HttpCompareSide[],
+    private context: HttpEnvCompareContext
+  ) {
+    this.rules = context.rules;
+    this.panel = vscode.window.createWebviewPanel(
+      'cursorToys.httpEnvCompare',
+      'Compare Environments',
+      { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+      { enableScripts: true, retainContextWhenHidden: true }
+    );
+    const extensionUri = getExtensionUri();
+    if (extensionUri) {
+      configurePanelWebview(this.panel.webview, extensionUri);
+    }
+    this.panel.onDidDispose(() => HttpEnvComparePanel.panels.delete(this.key));
+    this.panel.webview.onDidReceiveMessage((msg: { command?: string; paths?: string; path?: string }) =>
+      this.handleMessage(msg)
+    );
+    this.render();
+  }
+
+  private get comparison(): HttpEnvComparison {
+    return compareEnvironmentResponses(this.sides[0], this.sides[1], this.rules);
+  }
+
+  private get title(): string {
+    return this.context.sectionTitle ?? this.sides[0].requestLabel;
+  }
+
+  private async handleMessage(msg: { command?: string; paths?: string; path?: string }): Promise<void> {
+    switch (msg.command) {
+      case 'setIgnorePaths':
+        this.setIgnorePaths((msg.paths ?? '').split(',').map((p) => p.trim()).filter(Boolean));
+        return;
+      case 'ignorePath':
+        if (msg.path) {
+          this.setIgnorePaths([...this.rules.ignorePaths, msg.path]);
+        }
+        return;
+      case 'copyMarkdown':
+        await vscode.env.clipboard.writeText(formatComparisonMarkdown(this.comparison, this.title));
+        vscode.window.showInformationMessage('Comparison copied as Markdown.');
+        return;
+      case 'exportMarkdown':
+        await this.exportMarkdown();
+        return;
+      case 'copyDirective':
+        await vscode.env.clipboard.writeText(serializeCompareRules(this.rules, this.context.defaultIgnoredHeaders));
+        vscode.window.showInformationMessage('Copied the # @compare line. Paste it above the request line to keep these rules.');
+        return;
+      case 'rerun': {
+        const { requestUri, startLine, endLine, sectionTitle, envNames } = this.context;
+        await vscode.commands.executeCommand(
+          'cursor-toys.compareHttpEnvironments',
+          requestUri,
+          startLine,
+          endLine,
+          sectionTitle,
+          envNames
+        );
+        return;
+      }
+    }
+  }
+
+  private setIgnorePaths(ignorePaths: string[]): void {
+    try {
+      this.rules = mergeCompareRules(this.rules.ignoreHeaders, { ignorePaths, ignoreHeaders: [] });
+    } catch (error) {
+      vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+      return;
+    }
+    this.render();
+  }
+
+  private async exportMarkdown(): Promise<void> {
+    const requestFile = this.context.requestUri.fsPath;
+    const envs = this.sides.map((side) => side.envName).join('-vs-');
+    const target = await vscode.window.showSaveDialog({
+      title: 'Export Environment Comparison',
+      defaultUri: vscode.Uri.file(path.join(path.dirname(requestFile), `${path.parse(requestFile).name}.compare-${envs}.md`)),
+      filters: { Markdown: ['md'] },
+    });
+    if (!target) {
+      return;
+    }
+    try {
+      await vscode.workspace.fs.writeFile(target, Buffer.from(formatComparisonMarkdown(this.comparison, this.title), 'utf8'));
+      vscode.window.showInformationMessage(`Comparison saved to ${path.basename(target.fsPath)}.`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      vscode.window.showErrorMessage(`Could not save the comparison: ${message}`);
+    }
+  }
+
+  private render(): void {
+    const title = this.title;
+    const envs = this.sides.map((side) => side.envName).join(' ↔ ');
+    this.panel.title = `Compare · ${envs} · ${title.length > 30 ? `${title.slice(0, 29)}…` : title}`;
+    this.panel.webview.html = buildHtml(this.comparison, title, this.panel.webview);
+  }
+}
+
+function cell(value: string | undefined): string {
+  return value === undefined ? '<span class="missing">missing</span>' : escapeWebviewHtml(value);
+}
+
+function formatDiffValue(value: unknown, present: boolean): string {
+  if (!present) {
+    return cell(undefined);
+  }
+  const text = JSON.stringify(value) ?? String(value);
+  return escapeWebviewHtml(text.length > 500 ? `${text.slice(0, 499)}…` : text);
+}
+
+function statusText(side: HttpCompareSide): string {
+  return side.statusCode > 0 ? `${side.statusCode} ${side.statusText}`.trimEnd() : `No response: ${side.error ?? side.statusText}`;
+}
+
+function buildSummary(comparison: HttpEnvComparison): string {
+  const { left, right } = comparison;
+  const row = (label: string, a: string, b: string, state: 'diff' | 'same' | 'info'): string =>
+    `<tr class="${state}"><th>${label}</th><td class="val">${a}</td><td class="val">${b}</td></tr>`;
+  return (
+    `<section><h2>Summary</h2><table class="cmp"><colgroup><col class="name" /><col /><col /></colgroup>` +
+    `<tr><th></th><th>${escapeWebviewHtml(left.envName)}</th><th>${escapeWebviewHtml(right.envName)}</th></tr>` +
+    row('Request', escapeWebviewHtml(left.requestLabel), escapeWebviewHtml(right.requestLabel), 'info') +
+    row('Status', escapeWebviewHtml(statusText(left)), escapeWebviewHtml(statusText(right)), comparison.statusMatches ? 'same' : 'diff') +
+    row('Time', `${left.durationMs} ms`, `${right.durationMs} ms`, 'info') +
+    `</table></section>`
+  );
+}
+
+function buildHeaders(comparison: HttpEnvComparison): string {
+  if (comparison.headers.length === 0) {
+    return `<section><h2>Headers</h2><p class="empty-state">No headers.</p></section>`;
+  }
+  const rows = comparison.headers
+    .map((header) => {
+      const state = header.same ? 'same' : header.ignored ? 'ignored' : 'diff';
+      const tag = header.ignored && !header.same ? ' <span class="hint">(ignored)</span>' : '';
+      return (
+        `<tr class="${state}"><td>${escapeWebviewHtml(header.name)}${tag}</td>` +
+        `<td class="val">${cell(header.left)}</td><td class="val">${cell(header.right)}</td></tr>`
+      );
+    })
+    .join('');
+  return (
+    `<section><h2>Headers</h2><table class="cmp"><colgroup><col class="name" /><col /><col /></colgroup>` +
+    `<tr><th>Header</th><th>${escapeWebviewHtml(comparison.left.envName)}</th><th>${escapeWebviewHtml(comparison.right.envName)}</th></tr>` +
+    rows +
+    `</table></section>`
+  );
+}
+
+function buildBodyDiff(comparison: HttpEnvComparison): string {
+  const { left, right, bodyDiffs } = comparison;
+  let diff: string;
+  if (bodyDiffs.length === 0) {
+    diff = '<p class="empty-state">The bodies match.</p>';
+  } else if (comparison.bodyKind === 'text') {
+    diff = '<p class="hint">The bodies are not both JSON and differ; compare them below.</p>';
+  } else {
+    const kindLabel: Record<JsonDifference['kind'], string> = { added: '+', removed: '−', changed: '~' };
+    diff =
+      `<table class="cmp"><colgroup><col class="name" /><col /><col /></colgroup>` +
+      `<tr><th>Path</th><th>${escapeWebviewHtml(left.envName)}</th><th>${escapeWebviewHtml(right.envName)}</th></tr>` +
+      bodyDiffs
+        .map(
+          (d) =>
+            `<tr class="diff"><td><span class="kind">${kindLabel[d.kind]}</span>${escapeWebviewHtml(d.path)}` +
+            `<button type="button" class="ct-btn secondary ignore-btn" data-path="${escapeWebviewHtml(d.path)}" title="Ignore this path">Ignore</button></td>` +
+            `<td class="val">${formatDiffValue(d.before, d.kind !== 'added')}</td>` +
+            `<td class="val">${formatDiffValue(d.after, d.kind !== 'removed')}</td></tr>`
+        )
+        .join('') +
+      `</table>`;
+  }
+  const preview = (side: HttpCompareSide): string => {
+    const text = formatCompareBody(side.body);
+    const shown = text.length > MAX_BODY_PREVIEW_CHARS ? `${text.slice(0, MAX_BODY_PREVIEW_CHARS)}\n…` : text;
+    return `<div><h3>${escapeWebviewHtml(side.envName)}</h3><pre>${escapeWebviewHtml(shown) || '<span class="missing">empty</span>'}</pre></div>`;
+  };
+  return (
+    `<section><h2>Body${comparison.bodyKind === 'json' ? ' (JSON, key order ignored)' : ''}</h2>${diff}</section>` +
+    `<section><h2>Bodies side by side</h2><div class="side-by-side">${preview(left)}${preview(right)}</div></section>`
+  );
+}
+
+function buildHtml(comparison: HttpEnvComparison, title: string, webview: vscode.Webview): string {
+  const summary = describeComparison(comparison);
+  const badge = `<span class="badge ${comparison.equal ? 'badge-pass' : 'badge-fail'}">${escapeWebviewHtml(summary)}</span>`;
+  const body =
+    buildPanelHeader({ title: 'CursorToys', subtitle: 'Compare environments' }) +
+    `<div class="compare-body fade-in">` +
+    `<div class="toolbar">` +
+    `<span class="hint">${escapeWebviewHtml(title)} · ${escapeWebviewHtml(comparison.left.envName)} ↔ ${escapeWebviewHtml(comparison.right.envName)}</span>` +
+    badge +
+    `<span class="ct-spacer"></span>` +
+    `<label class="toggle"><input type="checkbox" id="hideSame" checked /> Only differences</label>` +
+    `<button type="button" id="rerunBtn" class="ct-btn primary">Run again</button>` +
+    `<button type="button" id="copyMdBtn" class="ct-btn secondary">Copy Markdown</button>` +
+    `<button type="button" id="exportBtn" class="ct-btn secondary">Export Markdown…</button>` +
+    `</div>` +
+    `<div class="ignore-row">` +
+    `<input type="text" id="ignorePaths" class="ct-input" spellcheck="false" aria-label="Ignored body paths"` +
+    ` placeholder="Ignored body paths, e.g. $.id, $.items[*].updatedAt, $..requestId"` +
+    ` value="${escapeWebviewHtml(comparison.rules.ignorePaths.join(', '))}" />` +
+    `<button type="button" id="applyIgnoreBtn" class="ct-btn secondary">Apply</button>` +
+    `<button type="button" id="copyDirectiveBtn" class="ct-btn secondary" title="Copy these rules as a # @compare line">Copy # @compare</button>` +
+    `</div>` +
+    buildSummary(comparison) +
+    buildHeaders(comparison) +
+    buildBodyDiff(comparison) +
+    `</div>`;
+
+  const scripts = `
+    const vscode = acquireVsCodeApi();
+    const state = vscode.getState() || { hideSame: true };
+    const hideSame = document.getElementById('hideSame');
+    const applyHideSame = () => document.body.classList.toggle('hide-same', hideSame.checked);
+    hideSame.checked = state.hideSame !== false;
+    applyHideSame();
+    hideSame.addEventListener('change', () => {
+      applyHideSame();
+      vscode.setState({ hideSame: hideSame.checked });
+    });
+    const ignoreInput = document.getElementById('ignorePaths');
+    const applyIgnore = () => vscode.postMessage({ command: 'setIgnorePaths', paths: ignoreInput.value });
+    document.getElementById('applyIgnoreBtn')?.addEventListener('click', applyIgnore);
+    ignoreInput.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') {
+        applyIgnore();
+      }
+    });
+    document.querySelectorAll('.ignore-btn').forEach((btn) => {
+      btn.addEventListener('click', () => vscode.postMessage({ command: 'ignorePath', path: btn.getAttribute('data-path') }));
+    });
+    document.getElementById('rerunBtn')?.addEventListener('click', () => vscode.postMessage({ command: 'rerun' }));
+    document.getElementById('copyMdBtn')?.addEventListener('click', () => vscode.postMessage({ command: 'copyMarkdown' }));
+    document.getElementById('exportBtn')?.addEventListener('click', () => vscode.postMessage({ command: 'exportMarkdown' }));
+    document.getElementById('copyDirectiveBtn')?.addEventListener('click', () => vscode.postMessage({ command: 'copyDirective' }));`;
+
+  const extensionUri = getExtensionUri();
+  if (!extensionUri) {
+    return `<!DOCTYPE html><html><body>${body}<script>${scripts}</script></body></html>`;
+  }
+  return buildWebviewDocument({
+    webview,
+    extensionUri,
+    title: 'Compare Environments',
+    body,
+    extraStyles: HTTP_ENV_COMPARE_STYLES,
+    scripts,
+  });
+}
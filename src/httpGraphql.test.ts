@@ -0,0 +1,228 @@
+import * as assert from 'assert';
+import {
+  buildGraphqlRequestBody,
+  getGraphqlCompletionContext,
+  getGraphqlEndpoint,
+  getGraphqlOperationName,
+  listGraphqlCompletions,
+  parseGraphqlSchemaLine,
+  parseGraphqlSdl,
+  schemaFromIntrospection,
+  splitGraphqlDocument,
+} from './httpGraphql';
+import { parseHttpRequest } from './httpRequestParse';
+
+const SDL = `
+schema { query: Query mutation: Mutation }
+
+"""A person"""
+type User implements Node @key(fields: "id") {
+  id: ID!
+  name: String
+  "Posts, newest first"
+  posts(first: Int = 10, filter: PostFilter = { published: true }): [Post!]!
+}
+
+type Post { id: ID! title: String author: User }
+
+interface Node { id: ID! }
+
+enum Role { type ADMIN }
+
+input PostFilter { published: Boolean = false }
+
+type Query {
+  viewer: User
+  user(id: ID!): User
+}
+
+type Mutation { createPost(title: String!): Post }
+
+extend type Query { posts: [Post] }
+`;
+
+function runTests(): void {
+  testSplitDocument();
+  testRequestBody();
+  testParseGraphqlBlock();
+  testDirectives();
+  testParseSdl();
+  testIntrospection();
+  testFieldCompletion();
+  testArgumentCompletion();
+  console.log('All httpGraphql tests passed.');
+}
+
+function testSplitDocument(): void {
+  const body = 'query GetUser($id: ID!) {\n  user(id: $id) {\n\n    name\n  }\n}\n\n{\n  "id": "42"\n}';
+  const split = splitGraphqlDocument(body);
+  assert.strictEqual(split.query, 'query GetUser($id: ID!) {\n  user(id: $id) {\n\n    name\n  }\n}');
+  assert.strictEqual(split.variables, '{\n  "id": "42"\n}');
+
+  // A shorthand query after a fragment is not a variables object
+  const shorthand = 'fragment F on User { id }\n\n{ viewer { ...F } }';
+  assert.deepStrictEqual(splitGraphqlDocument(shorthand), { query: shorthand });
+  assert.strictEqual(splitGraphqlDocument('{ viewer { id } }\n\n{}').variables, '{}');
+}
+
+function testRequestBody(): void {
+  assert.strictEqual(getGraphqlOperationName('query GetUser { user { id } }'), 'GetUser');
+  assert.strictEqual(getGraphqlOperationName('{ viewer { id } }'), undefined);
+  assert.strictEqual(getGraphqlOperationName('query { a }\nmutation Save { b }'), 'Save');
+
+  const body = JSON.parse(buildGraphqlRequestBody('query GetUser($id: ID!) { user(id: $id) { name } }\n\n{ "id": 7 }'));
+  assert.deepStrictEqual(body, {
+    query: 'query GetUser($id: ID!) { user(id: $id) { name } }',
+    variables: { id: 7 },
+    operationName: 'GetUser',
+  });
+
+  assert.deepStrictEqual(JSON.parse(buildGraphqlRequestBody('{ viewer { id } }')), { query: '{ viewer { id } }' });
+  // Invalid variables are sent as written
+  assert.strictEqual(buildGraphqlRequestBody('{ a }\n\n{ "id": }'), '{"query":"{ a }","variables":{ "id": }}');
+}
+
+function testParseGraphqlBlock(): void {
+  const config = parseHttpRequest(
+    'GRAPHQL https://api.example.com/graphql\nAuthorization: Bearer x\n\nquery { viewer { id } }\n\n{"n": 1}'
+  );
+  assert.ok(config);
+  assert.strictEqual(config.method, 'POST');
+  assert.strictEqual(config.url, 'https://api.example.com/graphql');
+  assert.strictEqual(config.headers?.['Content-Type'], 'application/json');
+  assert.strictEqual(config.headers?.Authorization, 'Bearer x');
+  assert.deepStrictEqual(JSON.parse(config.body as string), { query: 'query { viewer { id } }', variables: { n: 1 } });
+
+  const own = parseHttpRequest('GRAPHQL {{BASE}}/graphql\ncontent-type: application/graphql+json\n\n{ a }');
+  assert.deepStrictEqual(own?.headers, { 'content-type': 'application/graphql+json' });
+}
+
+function testDirectives(): void {
+  assert.strictEqual(getGraphqlEndpoint('GRAPHQL {{BASE}}/graphql'), '{{BASE}}/graphql');
+  assert.strictEqual(getGraphqlEndpoint('POST {{BASE}}/graphql'), null);
+  assert.strictEqual(parseGraphqlSchemaLine('# @schema ./schema.graphql'), './schema.graphql');
+  assert.strictEqual(parseGraphqlSchemaLine('# @schema "../api/schema.json"'), '../api/schema.json');
+  assert.strictEqual(parseGraphqlSchemaLine('# @name schema'), null);
+}
+
+function testParseSdl(): void {
+  const schema = parseGraphqlSdl(SDL);
+  assert.strictEqual(schema.queryType, 'Query');
+  assert.strictEqual(schema.mutationType, 'Mutation');
+  assert.strictEqual(schema.subscriptionType, undefined);
+  assert.deepStrictEqual(schema.types.Query.map((f) => f.name), ['viewer', 'user', 'posts']);
+  const posts = schema.types.User.find((f) => f.name === 'posts');
+  assert.strictEqual(posts?.type, '[Post!]!');
+  assert.strictEqual(posts?.description, 'Posts, newest first');
+  assert.deepStrictEqual(posts?.args.map((a) => `${a.name}: ${a.type}`), ['first: Int', 'filter: PostFilter']);
+  assert.deepStrictEqual(schema.types.PostFilter.map((f) => f.name), ['published']);
+  assert.strictEqual(schema.types.Role, undefined);
+}
+
+function testIntrospection(): void {
+  const ref = (name: string) => ({ kind: 'OBJECT', name, ofType: null });
+  const schema = schemaFromIntrospection({
+    data: {
+      __schema: {
+        queryType: { name: 'Root' },
+        mutationType: null,
+        subscriptionType: null,
+        types: [
+          {
+            name: 'Root',
+            kind: 'OBJECT',
+            fields: [
+              {
+                name: 'users',
+                args: [{ name: 'ids', type: { kind: 'LIST', name: null, ofType: { kind: 'NON_NULL', name: null, ofType: ref('ID') } } }],
+                type: { kind: 'NON_NULL', name: null, ofType: { kind: 'LIST', name: null, ofType: ref('User') } },
+              },
+            ],
+          },
+          { name: 'User', kind: 'OBJECT', fields: [{ name: 'id', args: [], type: ref('ID') }] },
+          { name: '__Type', kind: 'OBJECT', fields: [{ name: 'kind', args: [], type: ref('String') }] },
+        ],
+      },
+    },
+  });
+  assert.ok(schema);
+  assert.strictEqual(schema.queryType, 'Root');
+  assert.strictEqual(schema.mutationType, undefined);
+  assert.strictEqual(schema.types.Root[0].type, '[User]!');
+  assert.strictEqual(schema.types.Root[0].args[0].type, '[ID!]');
+  assert.strictEqual(schema.types.__Type, undefined);
+  assert.strictEqual(schemaFromIntrospection({ errors: [{ message: 'disabled' }] }), null);
+
+  // Malformed entries are skipped rather than copied through
+  const partial = schemaFromIntrospection({
+    __schema: {
+      queryType: { name: 7 },
+      types: [
+        null,
+        { name: 3, fields: [] },
+        { name: 'Q', fields: ['x', { name: 'a', args: 'none', description: 'A field', type: { kind: 'SCALAR', name: 'Int' } }] },
+      ],
+    },
+  });
+  assert.deepStrictEqual(partial, {
+    queryType: undefined,
+    mutationType: undefined,
+    subscriptionType: undefined,
+    types: { Q: [{ name: 'a', type: 'Int', args: [], description: 'A field' }] },
+  });
+}
+
+function testFieldCompletion(): void {
+  const schema = parseGraphqlSdl(SDL);
+  assert.deepStrictEqual(getGraphqlCompletionContext('query {\n  ', schema), { kind: 'field', typeName: 'Query' });
+  assert.deepStrictEqual(getGraphqlCompletionContext('{ viewer { ', schema), { kind: 'field', typeName: 'User' });
+  assert.deepStrictEqual(
+    getGraphqlCompletionContext('query Q($n: Int) { me: viewer { posts(first: $n) { author { ', schema),
+    { kind: 'field', typeName: 'User' }
+  );
+  assert.deepStrictEqual(
+    getGraphqlCompletionContext('mutation { createPost(title: "a { b") { ', schema),
+    { kind: 'field', typeName: 'Post' }
+  );
+  assert.deepStrictEqual(getGraphqlCompletionContext('{ viewer { id }\n  ', schema), { kind: 'field', typeName: 'Query' });
+  assert.deepStrictEqual(
+    getGraphqlCompletionContext('fragment F on Post { ', schema),
+    { kind: 'field', typeName: 'Post' }
+  );
+  assert.deepStrictEqual(
+    getGraphqlCompletionContext('{ viewer { ... on User { ', schema),
+    { kind: 'field', typeName: 'User' }
+  );
+  assert.strictEqual(getGraphqlCompletionContext('{ viewer { id } }\n\n{"id": ', schema), null);
+  assert.strictEqual(getGraphqlCompletionContext('{ nope { ', schema), null);
+
+  const labels = listGraphqlCompletions(schema, { kind: 'field', typeName: 'User' }).map((c) => c.label);
+  assert.deepStrictEqual(labels, ['id', 'name', 'posts', '__typename']);
+  const posts = listGraphqlCompletions(schema, { kind: 'field', typeName: 'User' })[2];
+  assert.strictEqual(posts.detail, '(first: Int, filter: PostFilter): [Post!]!');
+}
+
+function testArgumentCompletion(): void {
+  const schema = parseGraphqlSdl(SDL);
+  assert.deepStrictEqual(
+    getGraphqlCompletionContext('{ viewer { posts(', schema),
+    { kind: 'argument', typeName: 'User', fieldName: 'posts' }
+  );
+  assert.deepStrictEqual(
+    getGraphqlCompletionContext('{ viewer { posts(first: 5, ', schema),
+    { kind: 'argument', typeName: 'User', fieldName: 'posts' }
+  );
+  assert.deepStrictEqual(
+    getGraphqlCompletionContext('{ viewer { posts(filter: { published: true } ', schema),
+    { kind: 'argument', typeName: 'User', fieldName: 'posts' }
+  );
+  // Value positions and variable definitions get no argument names
+  assert.strictEqual(getGraphqlCompletionContext('{ viewer { posts(first: ', schema), null);
+  assert.strictEqual(getGraphqlCompletionContext('query Q(', schema), null);
+  assert.deepStrictEqual(
+    listGraphqlCompletions(schema, { kind: 'argument', typeName: 'Query', fieldName: 'user' }).map((c) => c.label),
+    ['id']
+  );
+}
+
+runTests();
@@ -0,0 +1,660 @@
+/**
+ * GraphQL request blocks: `GRAPHQL <url>` + headers + query document + optional variables
+ * JSON, sent as a standard `{ query, variables, operationName }` POST. Also a small SDL /
+ * introspection reader used for field and argument completion. Pure helpers — no VS Code
+ * dependencies.
+ */
+
+/** Method line of a GraphQL block (`GRAPHQL {{baseUrl}}/graphql`). */
+export const GRAPHQL_METHOD_LINE = /^GRAPHQL\s+(https?:\/\/|\{\{).+$/i;
+
+const SCHEMA_DIRECTIVE_RE = /^#\s*@schema\s+(\S.*)$/i;
+
+/** A field of an object, interface or input type. */
+export interface GraphqlField {
+  name: string;
+  /** Type as written, e.g. `[User!]!`. */
+  type: string;
+  args: GraphqlArgument[];
+  description?: string;
+}
+
+export interface GraphqlArgument {
+  name: string;
+  type: string;
+  description?: string;
+}
+
+/** Just enough of a schema for completion: root types and fields per type. */
+export interface GraphqlSchema {
+  queryType?: string;
+  mutationType?: string;
+  subscriptionType?: string;
+  types: Record<string, GraphqlField[]>;
+}
+
+export type GraphqlCompletionContext =
+  | { kind: 'field'; typeName: string }
+  | { kind: 'argument'; typeName: string; fieldName: string };
+
+/** Query sent by "Fetch GraphQL Schema" (fields, arguments and type references only). */
+export const GRAPHQL_INTROSPECTION_QUERY = `query IntrospectionQuery {
+  __schema {
+    queryType { name }
+    mutationType { name }
+    subscriptionType { name }
+    types {
+      name
+      kind
+      fields(includeDeprecated: true) {
+        name
+        description
+        args { name description type { ...TypeRef } }
+        type { ...TypeRef }
+      }
+      inputFields { name description type { ...TypeRef } }
+    }
+  }
+}
+
+fragment TypeRef on __Type {
+  kind
+  name
+  ofType { kind name ofType { kind name ofType { kind name ofType { kind name } } } }
+}`;
+
+/**
+ * True when the line starts a GraphQL block.
+ */
+export function isGraphqlMethodLine(line: string): boolean {
+  return GRAPHQL_METHOD_LINE.test(line.trim());
+}
+
+/**
+ * Endpoint of a GraphQL method line as written (variables unresolved); keys the schema cache.
+ */
+export function getGraphqlEndpoint(line: string): string | null {
+  const trimmed = line.trim();
+  return GRAPHQL_METHOD_LINE.test(trimmed) ? trimmed.replace(/^GRAPHQL\s+/i, '').trim() : null;
+}
+
+/**
+ * Schema file of a `# @schema ./schema.graphql` line (null otherwise, for findBlockDirective).
+ */
+export function parseGraphqlSchemaLine(line: string): string | null {
+  const match = line.trim().match(SCHEMA_DIRECTIVE_RE);
+  return match ? match[1].trim().replace(/^["']|["']$/g, '') : null;
+}
+
+/**
+ * Splits a GraphQL block body into the query document and the trailing variables JSON.
+ * Variables start at the first blank line followed by a JSON object (`{"` or `{}`), which
+ * a selection set can never be.
+ */
+export function splitGraphqlDocument(body: string): { query: string; variables?: string } {
+  const lines = body.split(/\r?\n/);
+  for (let i = 1; i < lines.length; i++) {
+    if (lines[i].trim() !== '') {
+      continue;
+    }
+    const query = lines.slice(0, i).join('\n').trim();
+    const rest = lines.slice(i + 1).join('\n').trim();
+    if (query && /^\{\s*("|\})/.test(rest)) {
+      return { query, variables: rest };
+    }
+  }
+  return { query: body.trim() };
+}
+
+interface GraphqlToken {
+  kind: 'name' | 'punct' | 'string' | 'number' | 'variable';
+  value: string;
+}
+
+/**
+ * Lexes GraphQL text, dropping whitespace, commas and comments. Unterminated strings
+ * end at the end of the text (the cursor is often inside one).
+ */
+function tokenizeGraphql(text: string): GraphqlToken[] {
+  const tokens: GraphqlToken[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (/[\s,\uFEFF]/.test(ch)) {
+      i++;
+    } else if (ch === '#') {
+      while (i < text.length && text[i] !== '\n') {
+        i++;
+      }
+    } else if (text.startsWith('"""', i)) {
+      const end = text.indexOf('"""', i + 3);
+      const stop = end < 0 ? text.length : end + 3;
+      tokens.push({ kind: 'string', value: text.slice(i + 3, end < 0 ? text.length : end) });
+      i = stop;
+    } else if (ch === '"') {
+      let j = i + 1;
+      while (j < text.length && text[j] !== '"' && text[j] !== '\n') {
+        j += text[j] === '\\' ? 2 : 1;
+      }
+      tokens.push({ kind: 'string', value: text.slice(i + 1, j) });
+      i = j + 1;
+    } else if (text.startsWith('...', i)) {
+      tokens.push({ kind: 'punct', value: '...' });
+      i += 3;
+    } else if (ch === '$') {
+      const match = text.slice(i + 1).match(/^[_A-Za-z][_0-9A-Za-z]*/);
+      tokens.push({ kind: 'variable', value: match ? match[0] : '' });
+      i += 1 + (match ? match[0].length : 0);
+    } else if (/[_A-Za-z]/.test(ch)) {
+      const match = text.slice(i).match(/^[_A-Za-z][_0-9A-Za-z]*/)!;
+      tokens.push({ kind: 'name', value: match[0] });
+      i += match[0].length;
+    } else if (/[-\d]/.test(ch)) {
+      const match = text.slice(i).match(/^-?\d[\d.eE+-]*/);
+      tokens.push({ kind: 'number', value: match ? match[0] : ch });
+      i += match ? match[0].length : 1;
+    } else {
+      if ('{}()[]:!=@|&'.includes(ch)) {
+        tokens.push({ kind: 'punct', value: ch });
+      }
+      i++;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Name of the first named operation, sent as `operationName`.
+ */
+export function getGraphqlOperationName(query: string): string | undefined {
+  const tokens = tokenizeGraphql(query);
+  let depth = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i];
+    if (t.value === '{' && t.kind === 'punct') {
+      depth++;
+    } else if (t.value === '}' && t.kind === 'punct') {
+      depth--;
+    } else if (
+      depth === 0 &&
+      t.kind === 'name' &&
+      ['query', 'mutation', 'subscription'].includes(t.value) &&
+      tokens[i + 1]?.kind === 'name'
+    ) {
+      return tokens[i + 1].value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * JSON request body for a GraphQL block body. Variables that are not valid JSON are
+ * sent as written so the server reports the error.
+ */
+export function buildGraphqlRequestBody(body: string): string {
+  const { query, variables } = splitGraphqlDocument(body);
+  const operationName = getGraphqlOperationName(query);
+  const head = `{"query":${JSON.stringify(query)}`;
+  const tail = operationName ? `,"operationName":${JSON.stringify(operationName)}}` : '}';
+  if (variables === undefined) {
+    return head + tail;
+  }
+  try {
+    return head + `,"variables":${JSON.stringify(JSON.parse(variables))}` + tail;
+  } catch {
+    return head + `,"variables":${variables}` + tail;
+  }
+}
+
+/**
+ * Named type of a type reference (`[User!]!` → `User`).
+ */
+export function getNamedType(type: string): string {
+  return type.replace(/[[\]!\s]/g, '');
+}
+
+/**
+ * Reads type and field definitions from SDL (`type`, `interface`, `input`, `extend`,
+ * `schema`). Directives and default values are skipped.
+ */
+export function parseGraphqlSdl(sdl: string): GraphqlSchema {
+  const tokens = tokenizeGraphql(sdl);
+  const schema: GraphqlSchema = { types: {} };
+  let i = 0;
+
+  const is = (value: string, at = i): boolean =>
+    tokens[at]?.kind === 'punct' && tokens[at].value === value;
+
+  const skipBalanced = (open: string, close: string): void => {
+    let depth = 0;
+    while (i < tokens.length) {
+      if (is(open)) {
+        depth++;
+      } else if (is(close)) {
+        depth--;
+        if (depth === 0) {
+          i++;
+          return;
+        }
+      }
+      i++;
+    }
+  };
+
+  const skipDirectives = (): void => {
+    while (is('@')) {
+      i += 2;
+      if (is('(')) {
+        skipBalanced('(', ')');
+      }
+    }
+  };
+
+  const skipDefaultValue = (): void => {
+    if (!is('=')) {
+      return;
+    }
+    i++;
+    if (is('{')) {
+      skipBalanced('{', '}');
+    } else if (is('[')) {
+      skipBalanced('[', ']');
+    } else {
+      i++;
+    }
+  };
+
+  const readType = (): string => {
+    let type: string;
+    if (is('[')) {
+      i++;
+      type = `[${readType()}]`;
+      if (is(']')) {
+        i++;
+      }
+    } else {
+      type = tokens[i]?.value ?? '';
+      i++;
+    }
+    if (is('!')) {
+      i++;
+      type += '!';
+    }
+    return type;
+  };
+
+  const readArguments = (): GraphqlArgument[] => {
+    const args: GraphqlArgument[] = [];
+    i++;
+    let argDescription: string | undefined;
+    while (i < tokens.length && !is(')')) {
+      const t = tokens[i];
+      if (t.kind === 'string') {
+        argDescription = t.value.trim();
+        i++;
+        continue;
+      }
+      if (t.kind === 'name' && is(':', i + 1)) {
+        i += 2;
+        const arg: GraphqlArgument = { name: t.value, type: readType() };
+        if (argDescription) {
+          arg.description = argDescription;
+        }
+        args.push(arg);
+        argDescription = undefined;
+        skipDefaultValue();
+        skipDirectives();
+        continue;
+      }
+      i++;
+    }
+    i++;
+    return args;
+  };
+
+  const readFields = (typeName: string): void => {
+    const fields = (schema.types[typeName] ??= []);
+    i++;
+    let fieldDescription: string | undefined;
+    while (i < tokens.length && !is('}')) {
+      const t = tokens[i];
+      if (t.kind === 'string') {
+        fieldDescription = t.value.trim();
+        i++;
+        continue;
+      }
+      if (t.kind !== 'name') {
+        i++;
+        continue;
+      }
+      i++;
+      const args = is('(') ? readArguments() : [];
+      if (!is(':')) {
+        continue;
+      }
+      i++;
+      const field: GraphqlField = { name: t.value, type: readType(), args };
+      if (fieldDescription) {
+        field.description = fieldDescription;
+      }
+      fields.push(field);
+      fieldDescription = undefined;
+      skipDefaultValue();
+      skipDirectives();
+    }
+    i++;
+  };
+
+  while (i < tokens.length) {
+    const t = tokens[i];
+    if (t.kind !== 'name') {
+      i++;
+      continue;
+    }
+    switch (t.value) {
+      case 'extend':
+        i++;
+        continue;
+      case 'schema':
+        i++;
+        skipDirectives();
+        if (is('{')) {
+          i++;
+          while (i < tokens.length && !is('}')) {
+            const op = tokens[i].value;
+            if (is(':', i + 1) && tokens[i + 2]) {
+              const root = tokens[i + 2].value;
+              if (op === 'query') {
+                schema.queryType = root;
+              } else if (op === 'mutation') {
+                schema.mutationType = root;
+              } else if (op === 'subscription') {
+                schema.subscriptionType = root;
+              }
+              i += 3;
+            } else {
+              i++;
+            }
+          }
+          i++;
+        }
+        break;
+      case 'type':
+      case 'interface':
+      case 'input': {
+        const name = tokens[i + 1]?.value;
+        i += 2;
+        while (i < tokens.length && !is('{') && !(tokens[i].kind === 'name' && isDefinitionKeyword(tokens[i].value))) {
+          if (is('(')) {
+            skipBalanced('(', ')');
+          } else {
+            i++;
+          }
+        }
+        if (name && is('{')) {
+          readFields(name);
+        } else if (name) {
+          schema.types[name] ??= [];
+        }
+        break;
+      }
+      case 'enum':
+        i++;
+        while (i < tokens.length && !is('{') && !(tokens[i].kind === 'name' && isDefinitionKeyword(tokens[i].value))) {
+          i++;
+        }
+        if (is('{')) {
+          skipBalanced('{', '}');
+        }
+        break;
+      case 'directive':
+        i++;
+        if (is('(', i + 1)) {
+          i++;
+          skipBalanced('(', ')');
+        }
+        break;
+      default:
+        i++;
+    }
+  }
+
+  schema.queryType ??= schema.types.Query ? 'Query' : undefined;
+  schema.mutationType ??= schema.types.Mutation ? 'Mutation' : undefined;
+  schema.subscriptionType ??= schema.types.Subscription ? 'Subscription' : undefined;
+  return schema;
+}
+
+function isDefinitionKeyword(value: string): boolean {
+  return ['type', 'interface', 'input', 'enum', 'union', 'scalar', 'schema', 'extend', 'directive'].includes(value);
+}
+
+type JsonObject = Record<string, unknown>;
+
+function asObject(value: unknown): JsonObject | undefined {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as JsonObject) : undefined;
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+/** `{ kind, name, ofType }` chain of an introspection type reference, as written */
+function typeRefToString(value: unknown): string {
+  const ref = asObject(value);
+  if (!ref) {
+    return '';
+  }
+  if (ref.kind === 'NON_NULL') {
+    return `${typeRefToString(ref.ofType)}!`;
+  }
+  if (ref.kind === 'LIST') {
+    return `[${typeRefToString(ref.ofType)}]`;
+  }
+  return asString(ref.name) ?? '';
+}
+
+/**
+ * Fields or arguments of an introspection list, skipping entries without a name
+ */
+function introspectionEntries(value: unknown): Array<JsonObject & { name: string }> {
+  return Array.isArray(value)
+    ? value.map(asObject).filter((entry): entry is JsonObject & { name: string } => typeof entry?.name === 'string')
+    : [];
+}
+
+function descriptionOf(entry: JsonObject): { description?: string } {
+  return typeof entry.description === 'string' && entry.description ? { description: entry.description } : {};
+}
+
+/**
+ * Builds a schema from an introspection result (`{ data: { __schema } }`, `{ __schema }`
+ * or the `__schema` object itself). Returns null when the JSON has no `__schema`.
+ */
+export function schemaFromIntrospection(json: unknown): GraphqlSchema | null {
+  const root = asObject(json);
+  const raw = asObject(asObject(root?.data)?.__schema) ?? asObject(root?.__schema) ?? (Array.isArray(root?.types) ? root : undefined);
+  if (!raw || !Array.isArray(raw.types)) {
+    return null;
+  }
+  const schema: GraphqlSchema = {
+    queryType: asString(asObject(raw.queryType)?.name),
+    mutationType: asString(asObject(raw.mutationType)?.name),
+    subscriptionType: asString(asObject(raw.subscriptionType)?.name),
+    types: {},
+  };
+  for (const type of introspectionEntries(raw.types)) {
+    if (type.name.startsWith('__')) {
+      continue;
+    }
+    const fields = Array.isArray(type.fields) ? type.fields : Array.isArray(type.inputFields) ? type.inputFields : null;
+    if (!fields) {
+      continue;
+    }
+    schema.types[type.name] = introspectionEntries(fields).map((f) => ({
+      name: f.name,
+      type: typeRefToString(f.type),
+      args: introspectionEntries(f.args).map((a) => ({
+        name: a.name,
+        type: typeRefToString(a.type),
+        ...descriptionOf(a),
+      })),
+      ...descriptionOf(f),
+    }));
+  }
+  return schema;
+}
+
+function findField(schema: GraphqlSchema, typeName: string | null, fieldName: string | null): GraphqlField | undefined {
+  if (!typeName || !fieldName) {
+    return undefined;
+  }
+  return schema.types[typeName]?.find((f) => f.name === fieldName);
+}
+
+/**
+ * Works out what to complete at the end of `prefix` (the query text up to the cursor,
+ * without the word being typed): fields of the enclosing selection set, or arguments of
+ * the field whose parentheses are open. Returns null anywhere else (values, variables JSON).
+ */
+export function getGraphqlCompletionContext(
+  prefix: string,
+  schema: GraphqlSchema
+): GraphqlCompletionContext | null {
+  if (splitGraphqlDocument(prefix).variables !== undefined) {
+    return null;
+  }
+  const tokens = tokenizeGraphql(prefix);
+  const stack: Array<string | null> = [];
+  let operationType = 'query';
+  let pendingField: string | null = null;
+  let pendingType: string | null = null;
+  let args: { typeName: string | null; fieldName: string | null; nest: number; expectName: boolean } | null = null;
+
+  const rootType = (op: string): string | null =>
+    (op === 'mutation' ? schema.mutationType : op === 'subscription' ? schema.subscriptionType : schema.queryType) ?? null;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i];
+    const prev = tokens[i - 1];
+
+    if (args) {
+      if (t.kind === 'punct' && (t.value === '{' || t.value === '[')) {
+        args.nest++;
+        args.expectName = false;
+      } else if (t.kind === 'punct' && (t.value === '}' || t.value === ']')) {
+        args.nest--;
+        args.expectName = args.nest === 0;
+      } else if (t.kind === 'punct' && t.value === ')' && args.nest === 0) {
+        args = null;
+      } else if (args.nest === 0 && t.kind !== 'punct') {
+        args.expectName = !args.expectName;
+      }
+      continue;
+    }
+
+    if (t.kind === 'name') {
+      if (prev?.kind === 'punct' && prev.value === '@') {
+        pendingField = null;
+        continue;
+      }
+      if (stack.length === 0) {
+        if (['query', 'mutation', 'subscription'].includes(t.value)) {
+          operationType = t.value;
+          pendingType = rootType(t.value);
+          if (tokens[i + 1]?.kind === 'name') {
+            i++;
+          }
+        } else if (t.value === 'fragment' && tokens[i + 2]?.value === 'on' && tokens[i + 3]) {
+          pendingType = tokens[i + 3].value;
+          i += 3;
+        }
+        continue;
+      }
+      if (prev?.kind === 'punct' && prev.value === '...') {
+        if (t.value === 'on' && tokens[i + 1]?.kind === 'name') {
+          pendingType = tokens[i + 1].value;
+          i++;
+        }
+        continue;
+      }
+      if (tokens[i + 1]?.kind === 'punct' && tokens[i + 1].value === ':') {
+        i++;
+        continue;
+      }
+      pendingField = t.value;
+      pendingType = null;
+      continue;
+    }
+
+    if (t.kind !== 'punct') {
+      continue;
+    }
+    if (t.value === '(') {
+      const onField = stack.length > 0 && pendingField !== null;
+      args = {
+        typeName: onField ? stack[stack.length - 1] : null,
+        fieldName: onField ? pendingField : null,
+        nest: 0,
+        expectName: true,
+      };
+    } else if (t.value === '{') {
+      if (pendingType) {
+        stack.push(pendingType);
+      } else if (stack.length === 0) {
+        stack.push(rootType(operationType));
+      } else {
+        const field = findField(schema, stack[stack.length - 1], pendingField);
+        stack.push(field ? getNamedType(field.type) : null);
+      }
+      pendingField = null;
+      pendingType = null;
+    } else if (t.value === '}') {
+      stack.pop();
+      pendingField = null;
+      if (stack.length === 0) {
+        operationType = 'query';
+      }
+    }
+  }
+
+  if (args) {
+    return args.nest === 0 && args.expectName && args.typeName && args.fieldName
+      ? { kind: 'argument', typeName: args.typeName, fieldName: args.fieldName }
+      : null;
+  }
+  const last = tokens[tokens.length - 1];
+  if (last?.kind === 'punct' && (last.value === '...' || last.value === '@')) {
+    return null;
+  }
+  const top = stack[stack.length - 1];
+  return top ? { kind: 'field', typeName: top } : null;
+}
+
+/**
+ * Fields (for a selection set) or arguments (for an open argument list) to offer.
+ */
+export function listGraphqlCompletions(
+  schema: GraphqlSchema,
+  context: GraphqlCompletionContext
+): Array<{ label: string; detail: string; documentation?: string; kind: 'field' | 'argument' }> {
+  if (context.kind === 'argument') {
+    const field = findField(schema, context.typeName, context.fieldName);
+    return (field?.args ?? []).map((a) => ({
+      label: a.name,
+      detail: a.type,
+      kind: 'argument' as const,
+      ...(a.description ? { documentation: a.description } : {}),
+    }));
+  }
+  const fields = schema.types[context.typeName] ?? [];
+  return [
+    ...fields.map((f) => ({
+      label: f.name,
+      detail: f.args.length ? `(${f.args.map((a) => `${a.name}: ${a.type}`).join(', ')}): ${f.type}` : f.type,
+      kind: 'field' as const,
+      ...(f.description ? { documentation: f.description } : {}),
+    })),
+    { label: '__typename', detail: 'String!', kind: 'field' as const },
+  ];
+}
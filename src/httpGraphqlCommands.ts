@@ -0,0 +1,82 @@
+import * as vscode from 'vscode';
+import { getGraphqlEndpoint, schemaFromIntrospection } from './httpGraphql';
+import { HttpGraphqlSchemaManager } from './httpGraphqlSchemaManager';
+import { executeGraphqlIntrospection } from './httpRequestExecutor';
+import { getHttpRequestBlocks } from './httpRequestParser';
+import { isHttpRequestFile } from './utils';
+
+/**
+ * Method line of the GraphQL request inside a block, or -1
+ */
+function findGraphqlMethodLine(document: vscode.TextDocument, startLine: number, endLine: number): number {
+  for (let i = startLine; i <= endLine && i < document.lineCount; i++) {
+    if (getGraphqlEndpoint(document.lineAt(i).text)) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Registers the command that fetches and caches a GraphQL endpoint's schema.
+ */
+export function registerHttpGraphqlCommands(context: vscode.ExtensionContext): void {
+  HttpGraphqlSchemaManager.getInstance().initialize(context.globalStorageUri.fsPath);
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'cursor-toys.fetchGraphqlSchema',
+      async (uri?: vscode.Uri, startLine?: number, endLine?: number) => {
+        const editor = vscode.window.activeTextEditor;
+        const targetUri = uri ?? editor?.document.uri;
+        if (!targetUri || !isHttpRequestFile(targetUri.fsPath)) {
+          vscode.window.showErrorMessage('Open an HTTP request file with a GRAPHQL request.');
+          return;
+        }
+        const document = await vscode.workspace.openTextDocument(targetUri);
+        if (startLine === undefined || endLine === undefined) {
+          const line = editor?.document.uri.toString() === targetUri.toString() ? editor.selection.active.line : 0;
+          const block = getHttpRequestBlocks(document).find((b) => b.startLine <= line && line <= b.endLine);
+          startLine = block?.startLine ?? 0;
+          endLine = block?.endLine ?? document.lineCount - 1;
+        }
+
+        const methodLine = findGraphqlMethodLine(document, startLine, endLine);
+        const endpoint = methodLine >= 0 ? getGraphqlEndpoint(document.lineAt(methodLine).text) : null;
+        if (!endpoint) {
+          vscode.window.showErrorMessage('No GRAPHQL request found at the cursor.');
+          return;
+        }
+
+        const result = await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: `Fetching GraphQL schema from ${endpoint}...` },
+          () => executeGraphqlIntrospection(document, startLine!, endLine!)
+        );
+        if (!result) {
+          return;
+        }
+        if (result.statusCode === 0 || result.statusCode >= 400) {
+          vscode.window.showErrorMessage(
+            `Introspection failed: ${result.statusCode > 0 ? `HTTP ${result.statusCode}` : result.error || result.statusText}`
+          );
+          return;
+        }
+
+        let schema = null;
+        try {
+          schema = schemaFromIntrospection(JSON.parse(result.body));
+        } catch {
+          // not JSON; reported below
+        }
+        if (!schema) {
+          vscode.window.showErrorMessage('The endpoint did not return an introspection result (is introspection disabled?).');
+          return;
+        }
+        HttpGraphqlSchemaManager.getInstance().setIntrospection(endpoint, schema);
+        vscode.window.showInformationMessage(
+          `GraphQL schema cached for ${endpoint} (${Object.keys(schema.types).length} types).`
+        );
+      }
+    )
+  );
+}
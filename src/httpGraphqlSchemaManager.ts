@@ -0,0 +1,140 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  getGraphqlEndpoint,
+  parseGraphqlSchemaLine,
+  parseGraphqlSdl,
+  schemaFromIntrospection,
+  type GraphqlSchema,
+} from './httpGraphql';
+import { findBlockDirective } from './httpRequestChaining';
+import { getHttpRequestBlocks } from './httpRequestParser';
+
+const STORE_FILE_NAME = 'graphql-schemas.json';
+const DEFAULT_SCHEMA_FILES = ['schema.graphql', 'schema.graphqls', 'schema.gql'];
+
+interface CachedIntrospection {
+  fetchedAt: string;
+  schema: GraphqlSchema;
+}
+
+/**
+ * GraphQL schemas used for completion in `GRAPHQL` blocks.
+ * Introspection results are cached per endpoint (as written in the request) in the
+ * extension's global storage; SDL / introspection JSON files are re-read when they change.
+ */
+export class HttpGraphqlSchemaManager {
+  private static instance: HttpGraphqlSchemaManager;
+  private storePath: string | undefined;
+  private introspections: Record<string, CachedIntrospection> | null = null;
+  private files: Map<string, { mtimeMs: number; schema: GraphqlSchema | null }> = new Map();
+
+  private constructor() {
+    // Storage is attached on activation; until then the cache is in-memory only
+  }
+
+  /**
+   * Returns the singleton HttpGraphqlSchemaManager instance
+   */
+  public static getInstance(): HttpGraphqlSchemaManager {
+    if (!HttpGraphqlSchemaManager.instance) {
+      HttpGraphqlSchemaManager.instance = new HttpGraphqlSchemaManager();
+    }
+    return HttpGraphqlSchemaManager.instance;
+  }
+
+  /**
+   * Persists introspection results under the given storage folder (context.globalStorageUri)
+   */
+  public initialize(storageDir: string): void {
+    this.storePath = path.join(storageDir, STORE_FILE_NAME);
+    this.introspections = null;
+  }
+
+  /**
+   * Caches an introspected schema for an endpoint
+   */
+  public setIntrospection(endpoint: string, schema: GraphqlSchema): void {
+    const store = this.loadIntrospections();
+    store[endpoint] = { fetchedAt: new Date().toISOString(), schema };
+    if (!this.storePath) {
+      return;
+    }
+    try {
+      fs.mkdirSync(path.dirname(this.storePath), { recursive: true });
+      fs.writeFileSync(this.storePath, JSON.stringify(store), 'utf8');
+    } catch (error) {
+      console.error('Error saving GraphQL schemas:', error);
+    }
+  }
+
+  /**
+   * Schema for the GraphQL block starting at `methodLine`: a `# @schema` file, then the
+   * cached introspection of its endpoint, then `schema.graphql` next to the request file
+   */
+  public getSchemaForRequest(document: vscode.TextDocument, methodLine: number): GraphqlSchema | null {
+    const lines = document.getText().split('\n');
+    const block = getHttpRequestBlocks(document).find(
+      (b) => b.startLine <= methodLine && methodLine <= b.endLine
+    );
+    const baseDir = path.dirname(document.uri.fsPath);
+
+    const schemaFile = block
+      ? findBlockDirective(lines, block.startLine, block.endLine, parseGraphqlSchemaLine)
+      : null;
+    if (schemaFile) {
+      return this.loadSchemaFile(path.resolve(baseDir, schemaFile));
+    }
+
+    const endpoint = getGraphqlEndpoint(lines[methodLine] ?? '');
+    const cached = endpoint ? this.loadIntrospections()[endpoint] : undefined;
+    if (cached) {
+      return cached.schema;
+    }
+
+    for (const name of DEFAULT_SCHEMA_FILES) {
+      const schema = this.loadSchemaFile(path.join(baseDir, name));
+      if (schema) {
+        return schema;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Reads an SDL file, or an introspection result when the file is `.json`
+   */
+  private loadSchemaFile(filePath: string): GraphqlSchema | null {
+    try {
+      const mtimeMs = fs.statSync(filePath).mtimeMs;
+      const cached = this.files.get(filePath);
+      if (cached && cached.mtimeMs === mtimeMs) {
+        return cached.schema;
+      }
+      const text = fs.readFileSync(filePath, 'utf8');
+      const schema = filePath.toLowerCase().endsWith('.json')
+        ? schemaFromIntrospection(JSON.parse(text))
+        : parseGraphqlSdl(text);
+      this.files.set(filePath, { mtimeMs, schema });
+      return schema;
+    } catch {
+      return null;
+    }
+  }
+
+  private loadIntrospections(): Record<string, CachedIntrospection> {
+    if (this.introspections) {
+      return this.introspections;
+    }
+    this.introspections = {};
+    if (this.storePath && fs.existsSync(this.storePath)) {
+      try {
+        this.introspections = JSON.parse(fs.readFileSync(this.storePath, 'utf8')) ?? {};
+      } catch (error) {
+        console.error('Error loading GraphQL schemas:', error);
+      }
+    }
+    return this.introspections!;
+  }
+}
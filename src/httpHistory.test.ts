@@ -0,0 +1,223 @@
+import * as assert from 'assert';
+import { extractAssertions } from './assertionParser';
+import {
+  createHistoryId,
+  diffJsonValues,
+  diffResponseBodies,
+  findPreviousHistoryEntry,
+  formatHistoryEntryForDiff,
+  hasMaskedSecrets,
+  historyDayLabel,
+  maskHistoryEntry,
+  selectExpiredHistoryEntries,
+  summarizeHistoryEntry,
+  toHistoryAssertions,
+  truncateHistoryBody,
+  type HttpHistoryEntry,
+  type HttpHistorySummary,
+} from './httpHistory';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date(2024, 5, 15, 12, 0, 0).getTime();
+
+function entry(overrides: Partial<HttpHistoryEntry> = {}): HttpHistoryEntry {
+  return {
+    id: 'a',
+    timestamp: NOW,
+    requestFile: '/ws/.cursor/http/users.req',
+    sectionTitle: 'Get user',
+    envName: 'dev',
+    request: { method: 'GET', url: 'https://api.example.com/users/1', headers: { Accept: 'application/json' } },
+    response: {
+      statusCode: 200,
+      statusText: 'OK',
+      headers: { 'x-request-id': 'r1', 'Content-Type': 'application/json' },
+      body: '{"name":"Ann","id":1}',
+    },
+    durationMs: 42,
+    assertions: [],
+    ...overrides,
+  };
+}
+
+function summary(id: string, timestamp: number, sectionTitle = 'Get user'): HttpHistorySummary {
+  return summarizeHistoryEntry(entry({ id, timestamp, sectionTitle }));
+}
+
+function runTests(): void {
+  testCreateId();
+  testSummaryAndAssertions();
+  testTruncate();
+  testRetention();
+  testPreviousEntry();
+  testDayLabel();
+  testJsonDiff();
+  testFormatForDiff();
+  testMaskSecrets();
+  console.log('All httpHistory tests passed.');
+}
+
+function testCreateId(): void {
+  const earlier = createHistoryId(NOW);
+  const later = createHistoryId(NOW + 1);
+  assert.ok(/^[0-9a-z]+-[0-9a-z]+$/.test(earlier));
+  assert.ok(earlier < later, 'ids sort by time');
+}
+
+function testSummaryAndAssertions(): void {
+  const assertions = extractAssertions(
+    '/*\n * @assert("ok", "res.status", "equals", 200)\n * @assert("res.body.name", "equals", "Bob")\n */'
+  );
+  const stored = toHistoryAssertions([
+    { assertion: assertions[0], passed: true, actualValue: 200 },
+    { assertion: assertions[1], passed: false, actualValue: 'Ann' },
+  ]);
+  assert.deepStrictEqual(stored[0], {
+    description: 'ok',
+    expression: 'res.status',
+    operator: 'equals',
+    raw: '@assert("ok", "res.status", "equals", 200)',
+    passed: true,
+    actual: '200',
+    error: undefined,
+    details: undefined,
+  });
+  assert.strictEqual(stored[1].actual, 'Ann');
+
+  const result = summarizeHistoryEntry(entry({ assertions: stored }));
+  assert.strictEqual(result.method, 'GET');
+  assert.strictEqual(result.statusCode, 200);
+  assert.strictEqual(result.passed, 1);
+  assert.strictEqual(result.failed, 1);
+}
+
+function testTruncate(): void {
+  assert.deepStrictEqual(truncateHistoryBody('hello', 10), { body: 'hello', truncatedBytes: 0 });
+  assert.deepStrictEqual(truncateHistoryBody('hello', 0), { body: 'hello', truncatedBytes: 0 });
+  assert.deepStrictEqual(truncateHistoryBody('hello world', 5), { body: 'hello', truncatedBytes: 6 });
+  // A multi-byte character cut in half is dropped entirely
+  assert.deepStrictEqual(truncateHistoryBody('aé', 2), { body: 'a', truncatedBytes: 2 });
+}
+
+function testRetention(): void {
+  const summaries = [summary('new', NOW), summary('mid', NOW - 2 * DAY), summary('old', NOW - 40 * DAY)];
+  assert.deepStrictEqual(selectExpiredHistoryEntries(summaries, { maxEntries: 10, maxAgeDays: 30 }, NOW), ['old']);
+  assert.deepStrictEqual(selectExpiredHistoryEntries(summaries, { maxEntries: 1, maxAgeDays: 0 }, NOW), ['mid', 'old']);
+  assert.deepStrictEqual(selectExpiredHistoryEntries(summaries, { maxEntries: 10, maxAgeDays: 0 }, NOW), []);
+}
+
+function testPreviousEntry(): void {
+  const summaries = [
+    summary('c', NOW),
+    summary('other', NOW - 1000, 'Create user'),
+    summary('b', NOW - 2000),
+    summary('a', NOW - 3000),
+  ];
+  assert.strictEqual(findPreviousHistoryEntry(summaries, 'c')?.id, 'b');
+  assert.strictEqual(findPreviousHistoryEntry(summaries, 'a'), undefined);
+  assert.strictEqual(findPreviousHistoryEntry(summaries, 'missing'), undefined);
+}
+
+function testDayLabel(): void {
+  assert.strictEqual(historyDayLabel(NOW - 60 * 1000, NOW), 'Today');
+  assert.strictEqual(historyDayLabel(NOW - DAY, NOW), 'Yesterday');
+  assert.strictEqual(historyDayLabel(new Date(2024, 4, 3, 9).getTime(), NOW), '2024-05-03');
+}
+
+function testJsonDiff(): void {
+  assert.deepStrictEqual(diffJsonValues({ a: 1, b: { c: [1, 2] } }, { b: { c: [1, 2] }, a: 1 }), []);
+  assert.deepStrictEqual(
+    diffJsonValues(
+      { id: 1, tags: ['a', 'b'], 'x-y': true, nested: { keep: 1, drop: 2 } },
+      { id: 2, tags: ['a'], 'x-y': true, nested: { keep: 1, add: 3 } }
+    ),
+    [
+      { path: '$.id', kind: 'changed', before: 1, after: 2 },
+      { path: '$.nested.add', kind: 'added', after: 3 },
+      { path: '$.nested.drop', kind: 'removed', before: 2 },
+      { path: '$.tags[1]', kind: 'removed', before: 'b' },
+    ]
+  );
+  assert.deepStrictEqual(diffJsonValues({ a: null }, { a: {} }), [{ path: '$.a', kind: 'changed', before: null, after: {} }]);
+
+  assert.deepStrictEqual(diffResponseBodies('{"a":1,"b":2}', '{ "b": 2, "a": 1 }'), []);
+  assert.strictEqual(diffResponseBodies('plain', 'plain').length, 0);
+  assert.deepStrictEqual(diffResponseBodies('plain', 'other'), [
+    { path: '$', kind: 'changed', before: 'plain', after: 'other' },
+  ]);
+}
+
+function testFormatForDiff(): void {
+  const a = formatHistoryEntryForDiff(entry());
+  const b = formatHistoryEntryForDiff(
+    entry({
+      response: {
+        statusCode: 200,
+        statusText: 'OK',
+        headers: { 'Content-Type': 'application/json', 'x-request-id': 'r1' },
+        body: '{"id":1,"name":"Ann"}',
+      },
+    })
+  );
+  assert.strictEqual(a, b, 'key order in headers and body does not show up in the diff');
+  assert.strictEqual(
+    a,
+    [
+      'GET https://api.example.com/users/1',
+      'HTTP 200 OK',
+      'Content-Type: application/json',
+      'x-request-id: r1',
+      '',
+      '{',
+      '  "id": 1,',
+      '  "name": "Ann"',
+      '}',
+      '',
+    ].join('\n')
+  );
+
+  const stream = formatHistoryEntryForDiff(
+    entry({
+      request: { method: 'SSE', url: 'https://api.example.com/events', headers: {} },
+      response: { statusCode: 200, statusText: 'OK', headers: {}, body: 'x'.repeat(4), truncatedBytes: 10 },
+      messages: [{ at: 5, direction: 'in', event: 'tick', data: '1' }],
+    })
+  );
+  assert.ok(stream.includes('[10 bytes truncated by the history size limit]'));
+  assert.ok(stream.endsWith('--- messages ---\n< [tick] 1\n'));
+}
+
+function testMaskSecrets(): void {
+  const token = 'tok-3f9a8c';
+  const sent = entry({
+    request: {
+      method: 'POST',
+      url: `https://api.example.com/login?key=${token}`,
+      headers: { Authorization: `Bearer ${token}` },
+      body: `{"token":"${token}"}`,
+    },
+    response: { statusCode: 200, statusText: 'OK', headers: { 'x-echo': token }, body: `{"token":"${token}","id":1}` },
+    messages: [{ at: 5, direction: 'in', event: 'message', data: `hello ${token}` }],
+  });
+  assert.strictEqual(hasMaskedSecrets(sent), false);
+  assert.strictEqual(maskHistoryEntry(sent, []), sent);
+
+  const stored = maskHistoryEntry(sent, new Set([token]));
+  assert.ok(!JSON.stringify(stored).includes(token), 'no secret is stored');
+  assert.strictEqual(stored.request.url, 'https://api.example.com/login?key=••••••');
+  assert.strictEqual(stored.request.headers.Authorization, 'Bearer ••••••');
+  assert.strictEqual(stored.response.body, '{"token":"••••••","id":1}');
+  assert.strictEqual(stored.messages?.[0].data, 'hello ••••••');
+  assert.strictEqual(stored.requestFile, sent.requestFile);
+  assert.strictEqual(hasMaskedSecrets(stored), true);
+  assert.strictEqual(sent.request.headers.Authorization, `Bearer ${token}`, 'the sent entry is not changed');
+
+  // Entries recorded before the secret was known are masked when shown
+  const shown = formatHistoryEntryForDiff(sent, [token]);
+  assert.ok(!shown.includes(token));
+  assert.ok(shown.startsWith('POST https://api.example.com/login?key=••••••\n'));
+  assert.ok(shown.includes('x-echo: ••••••'));
+  assert.ok(shown.includes('< [message] hello ••••••'));
+}
+
+runTests();
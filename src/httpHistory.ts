@@ -0,0 +1,355 @@
+/**
+ * Request history entries: the resolved request, response, timings, environment and
+ * assertion results of every send, plus retention and JSON-aware diff helpers.
+ * Pure helpers — no VS Code dependencies.
+ */
+import { formatAssertionOperator } from './assertionParser';
+import type { AssertionResult } from './assertionTypes';
+import type { HttpRedirectHop, HttpStreamMessage, HttpTimings } from './httpResponseTypes';
+import { maskSecretValues, maskSecretValuesDeep, SECRET_MASK } from './httpSecrets';
+
+export interface HttpHistoryRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  /** Body as written after variable resolution (`< ./file` lines stay references). */
+  body?: string;
+}
+
+export interface HttpHistoryResponse {
+  statusCode: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+  error?: string;
+  /** Bytes dropped from the end of the body by the size limit. */
+  truncatedBytes?: number;
+}
+
+export interface HttpHistoryAssertion {
+  description?: string;
+  expression: string;
+  operator: string;
+  /** `@assert(...)` text, re-parsed when the entry is re-run. */
+  raw?: string;
+  passed: boolean;
+  actual?: string;
+  error?: string;
+  details?: string[];
+}
+
+export interface HttpHistoryEntry {
+  id: string;
+  timestamp: number;
+  /** Request file and block the entry was sent from. */
+  requestFile: string;
+  startLine?: number;
+  endLine?: number;
+  sectionTitle?: string;
+  envName?: string;
+  /** Environment cookie jar key; null when the request opted out of the jar. */
+  cookieJarKey?: string | null;
+  request: HttpHistoryRequest;
+  response: HttpHistoryResponse;
+  durationMs: number;
+  timings?: HttpTimings;
+  redirects?: HttpRedirectHop[];
+  messages?: HttpStreamMessage[];
+  assertions: HttpHistoryAssertion[];
+}
+
+/** Index record of an entry (what the history view lists without reading bodies). */
+export interface HttpHistorySummary {
+  id: string;
+  timestamp: number;
+  method: string;
+  url: string;
+  statusCode: number;
+  statusText: string;
+  durationMs: number;
+  envName?: string;
+  requestFile: string;
+  sectionTitle?: string;
+  passed: number;
+  failed: number;
+}
+
+export interface HttpHistoryRetention {
+  /** Newest entries kept; 0 keeps none. */
+  maxEntries: number;
+  /** Entries older than this are dropped; 0 disables the age limit. */
+  maxAgeDays: number;
+}
+
+/** One difference between two JSON values, at a `$.a.b[0]` style path. */
+export interface JsonDifference {
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Sortable, unique entry id (`<base36 time>-<random>`)
+ */
+export function createHistoryId(timestamp: number): string {
+  return `${timestamp.toString(36).padStart(9, '0')}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Converts assertion results to their stored form (values as display strings)
+ */
+export function toHistoryAssertions(results: AssertionResult[]): HttpHistoryAssertion[] {
+  return results.map((result) => ({
+    description: result.assertion.description,
+    expression: result.assertion.expression,
+    operator: formatAssertionOperator(result.assertion),
+    raw: result.assertion.raw,
+    passed: result.passed,
+    actual: result.actualValue === undefined ? undefined : formatHistoryValue(result.actualValue),
+    error: result.error,
+    details: result.details,
+  }));
+}
+
+function formatHistoryValue(value: unknown): string {
+  if (typeof value === 'string') {
+    return value.length > 200 ? `${value.slice(0, 200)}…` : value;
+  }
+  const text = JSON.stringify(value) ?? String(value);
+  return text.length > 200 ? `${text.slice(0, 200)}…` : text;
+}
+
+/**
+ * Cuts a body to at most `maxBytes` UTF-8 bytes
+ * @returns The kept text and the number of dropped bytes
+ */
+export function truncateHistoryBody(body: string, maxBytes: number): { body: string; truncatedBytes: number } {
+  const bytes = Buffer.byteLength(body, 'utf8');
+  if (maxBytes <= 0 || bytes <= maxBytes) {
+    return { body, truncatedBytes: 0 };
+  }
+  const kept = Buffer.from(body, 'utf8').subarray(0, maxBytes).toString('utf8').replace(/�+$/, '');
+  return { body: kept, truncatedBytes: bytes - Buffer.byteLength(kept, 'utf8') };
+}
+
+export function summarizeHistoryEntry(entry: HttpHistoryEntry): HttpHistorySummary {
+  return {
+    id: entry.id,
+    timestamp: entry.timestamp,
+    method: entry.request.method,
+    url: entry.request.url,
+    statusCode: entry.response.statusCode,
+    statusText: entry.response.statusText,
+    durationMs: entry.durationMs,
+    envName: entry.envName,
+    requestFile: entry.requestFile,
+    sectionTitle: entry.sectionTitle,
+    passed: entry.assertions.filter((a) => a.passed).length,
+    failed: entry.assertions.filter((a) => !a.passed).length,
+  };
+}
+
+/**
+ * Ids of entries the retention limits drop (the newest `maxEntries` within `maxAgeDays` stay)
+ */
+export function selectExpiredHistoryEntries(
+  summaries: HttpHistorySummary[],
+  retention: HttpHistoryRetention,
+  now: number
+): string[] {
+  const newestFirst = [...summaries].sort((a, b) => b.timestamp - a.timestamp);
+  const cutoff = retention.maxAgeDays > 0 ? now - retention.maxAgeDays * DAY_MS : -Infinity;
+  return newestFirst
+    .filter((summary, index) => index >= Math.max(0, retention.maxEntries) || summary.timestamp < cutoff)
+    .map((summary) => summary.id);
+}
+
+/**
+ * Key of "the same request" across entries: the file, section title and method (the URL
+ * changes with environments and variables, line numbers with edits)
+ */
+export function historyRequestKey(summary: HttpHistorySummary): string {
+  return `${summary.requestFile}#${summary.sectionTitle ?? ''}#${summary.method}`;
+}
+
+/**
+ * Entry sent before `id` for the same request, or undefined
+ */
+export function findPreviousHistoryEntry(
+  summaries: HttpHistorySummary[],
+  id: string
+): HttpHistorySummary | undefined {
+  const current = summaries.find((s) => s.id === id);
+  if (!current) {
+    return undefined;
+  }
+  const key = historyRequestKey(current);
+  return summaries
+    .filter((s) => s.timestamp < current.timestamp && historyRequestKey(s) === key)
+    .sort((a, b) => b.timestamp - a.timestamp)[0];
+}
+
+/**
+ * Day group label of a timestamp ("Today", "Yesterday" or the local date)
+ */
+export function historyDayLabel(timestamp: number, now: number): string {
+  const startOfDay = (time: number): number => {
+    const date = new Date(time);
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+  };
+  const days = Math.round((startOfDay(now) - startOfDay(timestamp)) / DAY_MS);
+  if (days === 0) {
+    return 'Today';
+  }
+  if (days === 1) {
+    return 'Yesterday';
+  }
+  const date = new Date(timestamp);
+  const pad = (n: number): string => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Copy of a JSON value with object keys sorted at every level
+ */
+export function canonicalizeJson(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonicalizeJson);
+  }
+  if (value && typeof value === 'object') {
+    const sorted: Record<string, unknown> = {};
+    for (const key of Object.keys(value as Record<string, unknown>).sort()) {
+      sorted[key] = canonicalizeJson((value as Record<string, unknown>)[key]);
+    }
+    return sorted;
+  }
+  return value;
+}
+
+function parseJson(text: string): { ok: true; value: unknown } | { ok: false } {
+  const trimmed = text.trim();
+  if (!trimmed || !/^[[{"]|^-?\d|^(true|false|null)$/.test(trimmed)) {
+    return { ok: false };
+  }
+  try {
+    return { ok: true, value: JSON.parse(trimmed) };
+  } catch {
+    return { ok: false };
+  }
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+  return /^[a-zA-Z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Structural differences between two JSON values; object key order is ignored, arrays
+ * are compared by index
+ */
+export function diffJsonValues(before: unknown, after: unknown, path = '$'): JsonDifference[] {
+  const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const diffs: JsonDifference[] = [];
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      if (i >= after.length) {
+        diffs.push({ path: childPath(path, i), kind: 'removed', before: before[i] });
+      } else if (i >= before.length) {
+        diffs.push({ path: childPath(path, i), kind: 'added', after: after[i] });
+      } else {
+        diffs.push(...diffJsonValues(before[i], after[i], childPath(path, i)));
+      }
+    }
+    return diffs;
+  }
+  if (isObject(before) && isObject(after)) {
+    const diffs: JsonDifference[] = [];
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+    for (const key of keys) {
+      if (!(key in after)) {
+        diffs.push({ path: childPath(path, key), kind: 'removed', before: before[key] });
+      } else if (!(key in before)) {
+        diffs.push({ path: childPath(path, key), kind: 'added', after: after[key] });
+      } else {
+        diffs.push(...diffJsonValues(before[key], after[key], childPath(path, key)));
+      }
+    }
+    return diffs;
+  }
+  return before === after ? [] : [{ path, kind: 'changed', before, after }];
+}
+
+/**
+ * Differences between two response bodies: structural when both are JSON, otherwise a
+ * single `$` change when the texts differ
+ */
+export function diffResponseBodies(before: string, after: string): JsonDifference[] {
+  const a = parseJson(before);
+  const b = parseJson(after);
+  if (a.ok && b.ok) {
+    return diffJsonValues(a.value, b.value);
+  }
+  return before === after ? [] : [{ path: '$', kind: 'changed', before, after }];
+}
+
+/**
+ * Copy of an entry with secret values masked in the request, response, redirects, stream
+ * messages and assertion results, as it is stored
+ */
+export function maskHistoryEntry(entry: HttpHistoryEntry, secrets: Iterable<string>): HttpHistoryEntry {
+  const list = [...secrets];
+  if (list.length === 0) {
+    return entry;
+  }
+  return {
+    ...entry,
+    request: maskSecretValuesDeep(entry.request, list),
+    response: maskSecretValuesDeep(entry.response, list),
+    redirects: maskSecretValuesDeep(entry.redirects, list),
+    messages: maskSecretValuesDeep(entry.messages, list),
+    assertions: maskSecretValuesDeep(entry.assertions, list),
+  };
+}
+
+/**
+ * True when secret values were masked in the stored request, so it cannot be sent as is
+ */
+export function hasMaskedSecrets(entry: HttpHistoryEntry): boolean {
+  return JSON.stringify(entry.request).includes(SECRET_MASK);
+}
+
+/**
+ * Text of an entry for the side-by-side diff: status, sorted headers and the body
+ * (JSON re-printed with sorted keys so key order never shows up as a change)
+ * @param secrets Values masked in the text (entries recorded before a secret was known)
+ */
+export function formatHistoryEntryForDiff(entry: HttpHistoryEntry, secrets: Iterable<string> = []): string {
+  const lines = [
+    `${entry.request.method} ${entry.request.url}`,
+    `HTTP ${entry.response.statusCode} ${entry.response.statusText}`.trimEnd(),
+  ];
+  const headers = Object.entries(entry.response.headers).sort(([a], [b]) =>
+    a.toLowerCase().localeCompare(b.toLowerCase())
+  );
+  for (const [name, value] of headers) {
+    lines.push(`${name}: ${value}`);
+  }
+  lines.push('');
+  const parsed = parseJson(entry.response.body);
+  lines.push(parsed.ok ? JSON.stringify(canonicalizeJson(parsed.value), null, 2) : entry.response.body);
+  if (entry.response.truncatedBytes) {
+    lines.push('', `[${entry.response.truncatedBytes} bytes truncated by the history size limit]`);
+  }
+  if (entry.messages && entry.messages.length > 0) {
+    lines.push('', '--- messages ---');
+    for (const message of entry.messages) {
+      lines.push(`${message.direction === 'out' ? '>' : '<'} [${message.event}] ${message.data}`);
+    }
+  }
+  return maskSecretValues(`${lines.join('\n')}\n`, secrets);
+}
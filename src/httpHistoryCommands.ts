@@ -0,0 +1,263 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { extractAssertions } from './assertionParser';
+import type { Assertion, AssertionOperator, AssertionResult } from './assertionTypes';
+import {
+  diffResponseBodies,
+  findPreviousHistoryEntry,
+  formatHistoryEntryForDiff,
+  type HttpHistoryEntry,
+  type HttpHistorySummary,
+} from './httpHistory';
+import { HttpHistoryManager } from './httpHistoryManager';
+import { HttpHistoryEntryItem, HttpHistoryTreeProvider } from './httpHistoryTreeProvider';
+import { formatHttpResponse, rerunHttpHistoryEntry } from './httpRequestExecutor';
+import { HttpResponsePanel } from './httpResponsePanel';
+import { HttpSecretStore } from './httpSecretStore';
+import type { HttpResponsePayload } from './httpResponseTypes';
+
+const HISTORY_SCHEME = 'cursor-toys-history';
+
+interface HistoryPickItem extends vscode.QuickPickItem {
+  summary: HttpHistorySummary;
+}
+
+/**
+ * Serves history entries as read-only documents for the diff editor
+ */
+class HttpHistoryContentProvider implements vscode.TextDocumentContentProvider {
+  constructor(private readonly manager: HttpHistoryManager) {}
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    const id = path.posix.basename(uri.path).replace(/\.[^.]*$/, '');
+    const entry = this.manager.get(id);
+    return entry
+      ? formatHistoryEntryForDiff(entry, HttpSecretStore.getInstance().getRevealed())
+      : 'This history entry was deleted.\n';
+  }
+}
+
+function historyDocumentUri(entry: HttpHistoryEntry): vscode.Uri {
+  return vscode.Uri.from({ scheme: HISTORY_SCHEME, path: `/${entry.id}.http` });
+}
+
+function formatTime(entry: HttpHistoryEntry): string {
+  return new Date(entry.timestamp).toLocaleTimeString();
+}
+
+/**
+ * Assertion results of an entry; assertions are re-parsed from their stored text so the
+ * panel shows their expected values
+ */
+function toAssertionResults(entry: HttpHistoryEntry): AssertionResult[] {
+  return entry.assertions.map((stored) => {
+    const [parsed] = stored.raw ? extractAssertions(`/*\n * ${stored.raw}\n */`) : [];
+    const assertion: Assertion = parsed ?? {
+      description: stored.description,
+      expression: stored.expression,
+      operator: stored.operator as AssertionOperator,
+      expected: null,
+    };
+    return {
+      assertion,
+      passed: stored.passed,
+      actualValue: stored.actual,
+      error: stored.error,
+      details: stored.details,
+    };
+  });
+}
+
+/**
+ * Shows a stored response in its own response panel
+ */
+function openEntry(entry: HttpHistoryEntry): void {
+  const assertionResults = toAssertionResults(entry);
+  const result = {
+    statusCode: entry.response.statusCode,
+    statusText: entry.response.statusText,
+    headers: entry.response.headers,
+    body: entry.response.body,
+    error: entry.response.error,
+    timings: entry.timings,
+    redirects: entry.redirects,
+    messages: entry.messages,
+  };
+  const payload: HttpResponsePayload = {
+    requestLabel: `${entry.request.method} ${entry.request.url}`,
+    statusCode: entry.response.statusCode,
+    statusText: entry.response.statusText,
+    executionTimeSeconds: (entry.durationMs / 1000).toFixed(2),
+    envName: entry.envName,
+    headers: entry.response.headers,
+    body: entry.response.body,
+    requestPayload: entry.request.body,
+    assertionResults,
+    rawFormatted: formatHttpResponse(result, entry.request.body, assertionResults),
+    timings: entry.timings,
+    redirects: entry.redirects,
+    messages: entry.messages,
+  };
+  HttpResponsePanel.showOrUpdate(`history:${entry.id}`, payload, {
+    requestUri: vscode.Uri.file(entry.requestFile),
+    startLine: entry.startLine,
+    endLine: entry.endLine,
+    sectionTitle: entry.sectionTitle,
+  });
+}
+
+/**
+ * Opens two entries side by side; JSON bodies are shown with sorted keys so only real
+ * changes are highlighted
+ */
+async function compareEntries(before: HttpHistoryEntry, after: HttpHistoryEntry): Promise<void> {
+  const [older, newer] = before.timestamp <= after.timestamp ? [before, after] : [after, before];
+  const changes = diffResponseBodies(older.response.body, newer.response.body).length;
+  const statusChanged = older.response.statusCode !== newer.response.statusCode;
+  const summary = changes === 0 && !statusChanged
+    ? 'same body'
+    : `${changes} body change${changes === 1 ? '' : 's'}${statusChanged ? ', status changed' : ''}`;
+  await vscode.commands.executeCommand(
+    'vscode.diff',
+    historyDocumentUri(older),
+    historyDocumentUri(newer),
+    `${older.request.method} ${older.sectionTitle ?? older.request.url}: ${formatTime(older)} ↔ ${formatTime(newer)} — ${summary}`
+  );
+}
+
+/**
+ * Entry of a tree item, or one picked from the history when the command ran from the palette
+ */
+async function resolveEntry(item: unknown, placeHolder: string): Promise<HttpHistoryEntry | undefined> {
+  const manager = HttpHistoryManager.getInstance();
+  if (item instanceof HttpHistoryEntryItem) {
+    const entry = manager.get(item.summary.id);
+    if (!entry) {
+      vscode.window.showWarningMessage('This history entry no longer exists.');
+    }
+    return entry;
+  }
+  const picked = await pickEntry(manager.list(), placeHolder);
+  return picked ? manager.get(picked.id) : undefined;
+}
+
+async function pickEntry(summaries: HttpHistorySummary[], placeHolder: string): Promise<HttpHistorySummary | undefined> {
+  if (summaries.length === 0) {
+    vscode.window.showInformationMessage('The HTTP request history is empty.');
+    return undefined;
+  }
+  const items: HistoryPickItem[] = summaries.map((summary) => ({
+    label: `${summary.method} ${summary.sectionTitle ?? summary.url}`,
+    description: `${summary.statusCode > 0 ? summary.statusCode : 'Error'}  ${summary.durationMs}ms${summary.envName ? `  [${summary.envName}]` : ''}`,
+    detail: `${new Date(summary.timestamp).toLocaleString()} — ${summary.url}`,
+    summary,
+  }));
+  const selected = await vscode.window.showQuickPick(items, { placeHolder, matchOnDetail: true });
+  return selected?.summary;
+}
+
+/**
+ * Registers the HTTP History view and its open / re-run / compare / delete commands.
+ */
+export function registerHttpHistoryCommands(context: vscode.ExtensionContext): void {
+  const manager = HttpHistoryManager.getInstance();
+  manager.initialize((context.storageUri ?? context.globalStorageUri).fsPath);
+  const treeProvider = new HttpHistoryTreeProvider(manager);
+  const treeView = vscode.window.createTreeView('cursor-toys.explorer.httpHistory', {
+    treeDataProvider: treeProvider,
+    showCollapseAll: true,
+    canSelectMany: true,
+  });
+  context.subscriptions.push(
+    manager,
+    treeProvider,
+    treeView,
+    vscode.workspace.registerTextDocumentContentProvider(HISTORY_SCHEME, new HttpHistoryContentProvider(manager))
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('cursor-toys.openHttpHistoryEntry', async (item?: unknown) => {
+      const entry = await resolveEntry(item, 'Select a request to open its response');
+      if (entry) {
+        openEntry(entry);
+      }
+    }),
+    vscode.commands.registerCommand('cursor-toys.rerunHttpHistoryEntry', async (item?: unknown) => {
+      const entry = await resolveEntry(item, 'Select a request to run again');
+      if (entry) {
+        await rerunHttpHistoryEntry(entry);
+      }
+    }),
+    vscode.commands.registerCommand('cursor-toys.openHttpHistoryRequestFile', async (item?: unknown) => {
+      const entry = await resolveEntry(item, 'Select a request to open its file');
+      if (!entry) {
+        return;
+      }
+      try {
+        const document = await vscode.workspace.openTextDocument(vscode.Uri.file(entry.requestFile));
+        const line = Math.min(entry.startLine ?? 0, document.lineCount - 1);
+        await vscode.window.showTextDocument(document, { selection: new vscode.Range(line, 0, line, 0) });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        vscode.window.showErrorMessage(`Cannot open ${path.basename(entry.requestFile)}: ${message}`);
+      }
+    }),
+    vscode.commands.registerCommand(
+      'cursor-toys.compareHttpHistoryEntries',
+      async (item?: unknown, selected?: unknown[]) => {
+        const items = (selected ?? []).filter((s): s is HttpHistoryEntryItem => s instanceof HttpHistoryEntryItem);
+        let first: HttpHistoryEntry | undefined;
+        let second: HttpHistoryEntry | undefined;
+        if (items.length >= 2) {
+          first = manager.get(items[0].summary.id);
+          second = manager.get(items[1].summary.id);
+        } else {
+          first = await resolveEntry(item, 'Select the first response to compare');
+          if (!first) {
+            return;
+          }
+          const firstId = first.id;
+          const picked = await pickEntry(
+            manager.list().filter((s) => s.id !== firstId),
+            'Select the response to compare with'
+          );
+          second = picked ? manager.get(picked.id) : undefined;
+        }
+        if (first && second) {
+          await compareEntries(first, second);
+        }
+      }
+    ),
+    vscode.commands.registerCommand('cursor-toys.compareHttpHistoryWithPrevious', async (item?: unknown) => {
+      const entry = await resolveEntry(item, 'Select a request to compare with its previous run');
+      if (!entry) {
+        return;
+      }
+      const previous = findPreviousHistoryEntry(manager.list(), entry.id);
+      const previousEntry = previous ? manager.get(previous.id) : undefined;
+      if (!previousEntry) {
+        vscode.window.showInformationMessage('No earlier run of this request in the history.');
+        return;
+      }
+      await compareEntries(previousEntry, entry);
+    }),
+    vscode.commands.registerCommand('cursor-toys.deleteHttpHistoryEntry', (item?: unknown, selected?: unknown[]) => {
+      const items = [item, ...(selected ?? [])].filter((s): s is HttpHistoryEntryItem => s instanceof HttpHistoryEntryItem);
+      if (items.length > 0) {
+        manager.remove([...new Set(items.map((i) => i.summary.id))]);
+      }
+    }),
+    vscode.commands.registerCommand('cursor-toys.clearHttpHistory', async () => {
+      const confirm = await vscode.window.showWarningMessage(
+        'Delete the whole HTTP request history of this workspace?',
+        { modal: true },
+        'Clear'
+      );
+      if (confirm === 'Clear') {
+        manager.clear();
+        vscode.window.showInformationMessage('HTTP request history cleared.');
+      }
+    }),
+    vscode.commands.registerCommand('cursor-toys.refreshHttpHistory', () => treeProvider.refresh())
+  );
+}
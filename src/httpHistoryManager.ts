@@ -0,0 +1,186 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  selectExpiredHistoryEntries,
+  summarizeHistoryEntry,
+  truncateHistoryBody,
+  type HttpHistoryEntry,
+  type HttpHistorySummary,
+} from './httpHistory';
+
+const STORE_DIR_NAME = 'http-history';
+const INDEX_FILE_NAME = 'index.json';
+
+/**
+ * Persistent history of executed requests for the current workspace.
+ * Each entry is a JSON file in the extension's workspace storage; `index.json` holds the
+ * summaries the history view lists, so bodies are only read when an entry is opened.
+ */
+export class HttpHistoryManager {
+  private static instance: HttpHistoryManager;
+  private storeDir: string | undefined;
+  private summaries: HttpHistorySummary[] | null = null;
+  /** In-memory entries while no storage is attached. */
+  private memoryEntries: Map<string, HttpHistoryEntry> = new Map();
+  private _onDidChangeHistory = new vscode.EventEmitter<void>();
+  readonly onDidChangeHistory = this._onDidChangeHistory.event;
+
+  private constructor() {
+    // Storage is attached on activation; until then history is in-memory only
+  }
+
+  /**
+   * Returns the singleton HttpHistoryManager instance
+   */
+  public static getInstance(): HttpHistoryManager {
+    if (!HttpHistoryManager.instance) {
+      HttpHistoryManager.instance = new HttpHistoryManager();
+    }
+    return HttpHistoryManager.instance;
+  }
+
+  /**
+   * Persists history under the given storage folder (context.storageUri, or
+   * context.globalStorageUri when no folder is open)
+   */
+  public initialize(storageDir: string): void {
+    this.storeDir = path.join(storageDir, STORE_DIR_NAME);
+    this.summaries = null;
+    this.memoryEntries.clear();
+  }
+
+  /**
+   * Whether sends are recorded (`cursorToys.httpHistoryEnabled`)
+   */
+  public isEnabled(): boolean {
+    return vscode.workspace.getConfiguration('cursorToys').get<boolean>('httpHistoryEnabled', true);
+  }
+
+  /**
+   * Stores an entry (response body cut to the size limit), then applies the retention limits
+   */
+  public record(entry: HttpHistoryEntry): void {
+    const settings = vscode.workspace.getConfiguration('cursorToys');
+    const maxBytes = Math.max(0, settings.get<number>('httpHistoryMaxResponseKB', 256)) * 1024;
+    const { body, truncatedBytes } = truncateHistoryBody(entry.response.body, maxBytes);
+    const stored: HttpHistoryEntry = {
+      ...entry,
+      response: { ...entry.response, body, truncatedBytes: truncatedBytes || undefined },
+    };
+
+    const summaries = this.loadSummaries().filter((s) => s.id !== stored.id);
+    summaries.push(summarizeHistoryEntry(stored));
+    if (this.storeDir) {
+      try {
+        fs.mkdirSync(this.storeDir, { recursive: true });
+        fs.writeFileSync(this.entryPath(stored.id), JSON.stringify(stored), 'utf8');
+      } catch (error) {
+        console.error('Error saving HTTP history entry:', error);
+        return;
+      }
+    } else {
+      this.memoryEntries.set(stored.id, stored);
+    }
+
+    const expired = selectExpiredHistoryEntries(
+      summaries,
+      {
+        maxEntries: settings.get<number>('httpHistoryMaxEntries', 200),
+        maxAgeDays: settings.get<number>('httpHistoryMaxAgeDays', 30),
+      },
+      Date.now()
+    );
+    this.removeEntryFiles(expired);
+    this.saveSummaries(summaries.filter((s) => !expired.includes(s.id)));
+  }
+
+  /**
+   * Lists entry summaries, newest first
+   */
+  public list(): HttpHistorySummary[] {
+    return [...this.loadSummaries()].sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  /**
+   * Reads a full entry, or undefined when it was removed
+   */
+  public get(id: string): HttpHistoryEntry | undefined {
+    if (!this.storeDir) {
+      return this.memoryEntries.get(id);
+    }
+    try {
+      return JSON.parse(fs.readFileSync(this.entryPath(id), 'utf8')) as HttpHistoryEntry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Deletes the given entries
+   */
+  public remove(ids: string[]): void {
+    this.removeEntryFiles(ids);
+    this.saveSummaries(this.loadSummaries().filter((s) => !ids.includes(s.id)));
+  }
+
+  /**
+   * Deletes every entry
+   */
+  public clear(): void {
+    this.remove(this.loadSummaries().map((s) => s.id));
+  }
+
+  private entryPath(id: string): string {
+    return path.join(this.storeDir ?? '', `${id.replace(/[^\w-]/g, '')}.json`);
+  }
+
+  private loadSummaries(): HttpHistorySummary[] {
+    if (this.summaries) {
+      return this.summaries;
+    }
+    this.summaries = [];
+    if (this.storeDir) {
+      const indexPath = path.join(this.storeDir, INDEX_FILE_NAME);
+      try {
+        if (fs.existsSync(indexPath)) {
+          const parsed = JSON.parse(fs.readFileSync(indexPath, 'utf8'));
+          this.summaries = Array.isArray(parsed) ? (parsed as HttpHistorySummary[]) : [];
+        }
+      } catch (error) {
+        console.error('Error loading HTTP history:', error);
+      }
+    }
+    return this.summaries;
+  }
+
+  private saveSummaries(summaries: HttpHistorySummary[]): void {
+    this.summaries = summaries;
+    if (this.storeDir) {
+      try {
+        fs.mkdirSync(this.storeDir, { recursive: true });
+        fs.writeFileSync(path.join(this.storeDir, INDEX_FILE_NAME), JSON.stringify(summaries), 'utf8');
+      } catch (error) {
+        console.error('Error saving HTTP history:', error);
+      }
+    }
+    this._onDidChangeHistory.fire();
+  }
+
+  private removeEntryFiles(ids: string[]): void {
+    for (const id of ids) {
+      this.memoryEntries.delete(id);
+      if (this.storeDir) {
+        try {
+          fs.rmSync(this.entryPath(id), { force: true });
+        } catch (error) {
+          console.error('Error deleting HTTP history entry:', error);
+        }
+      }
+    }
+  }
+
+  public dispose(): void {
+    this._onDidChangeHistory.dispose();
+  }
+}
@@ -0,0 +1,103 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { historyDayLabel, type HttpHistorySummary } from './httpHistory';
+import { HttpHistoryManager } from './httpHistoryManager';
+import { HttpSecretStore } from './httpSecretStore';
+
+/**
+ * Tree item grouping the history entries of one day
+ */
+export class HttpHistoryDayItem extends vscode.TreeItem {
+  constructor(label: string, public readonly entries: HttpHistorySummary[]) {
+    super(label, vscode.TreeItemCollapsibleState.Expanded);
+    this.description = `${entries.length} request${entries.length === 1 ? '' : 's'}`;
+    this.iconPath = new vscode.ThemeIcon('calendar');
+    this.contextValue = 'httpHistoryDay';
+  }
+}
+
+/**
+ * Tree item representing one executed request
+ */
+export class HttpHistoryEntryItem extends vscode.TreeItem {
+  constructor(public readonly summary: HttpHistorySummary) {
+    const url = HttpSecretStore.getInstance().mask(summary.url);
+    super(`${summary.method} ${summary.sectionTitle ?? url}`, vscode.TreeItemCollapsibleState.None);
+    const time = new Date(summary.timestamp).toLocaleTimeString();
+    const status = summary.statusCode > 0 ? String(summary.statusCode) : 'Error';
+    const checks = summary.passed + summary.failed > 0 ? `✓${summary.passed}${summary.failed > 0 ? ` ✗${summary.failed}` : ''}` : '';
+    this.description = [status, `${summary.durationMs}ms`, summary.envName ? `[${summary.envName}]` : '', checks, time]
+      .filter(Boolean)
+      .join('  ');
+    this.tooltip = new vscode.MarkdownString(
+      [
+        `**${summary.method}** \`${url}\``,
+        `HTTP ${summary.statusCode} ${summary.statusText} in ${summary.durationMs}ms`,
+        summary.envName ? `Environment: ${summary.envName}` : '',
+        summary.passed + summary.failed > 0 ? `Assertions: ${summary.passed} passed, ${summary.failed} failed` : '',
+        `${path.basename(summary.requestFile)} — ${new Date(summary.timestamp).toLocaleString()}`,
+      ]
+        .filter(Boolean)
+        .join('\n\n')
+    );
+    const failed = summary.statusCode === 0 || summary.statusCode >= 400 || summary.failed > 0;
+    this.iconPath = new vscode.ThemeIcon(
+      failed ? 'error' : 'pass',
+      new vscode.ThemeColor(failed ? 'testing.iconFailed' : 'testing.iconPassed')
+    );
+    this.contextValue = 'httpHistoryEntry';
+    this.command = {
+      command: 'cursor-toys.openHttpHistoryEntry',
+      title: 'Open Response',
+      arguments: [this],
+    };
+  }
+}
+
+export type HttpHistoryTreeItem = HttpHistoryDayItem | HttpHistoryEntryItem;
+
+/**
+ * TreeDataProvider for the HTTP History view.
+ * Displays executed requests grouped by day, newest first.
+ */
+export class HttpHistoryTreeProvider implements vscode.TreeDataProvider<HttpHistoryTreeItem>, vscode.Disposable {
+  private _onDidChangeTreeData = new vscode.EventEmitter<HttpHistoryTreeItem | undefined | null | void>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+  private readonly subscription: vscode.Disposable;
+
+  constructor(private readonly manager: HttpHistoryManager) {
+    this.subscription = manager.onDidChangeHistory(() => this.refresh());
+  }
+
+  /**
+   * Refresh the tree view
+   */
+  public refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  getTreeItem(element: HttpHistoryTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: HttpHistoryTreeItem): HttpHistoryTreeItem[] {
+    if (element instanceof HttpHistoryDayItem) {
+      return element.entries.map((summary) => new HttpHistoryEntryItem(summary));
+    }
+    if (element) {
+      return [];
+    }
+    const now = Date.now();
+    const days = new Map<string, HttpHistorySummary[]>();
+    for (const summary of this.manager.list()) {
+      const label = historyDayLabel(summary.timestamp, now);
+      days.set(label, [...(days.get(label) ?? []), summary]);
+    }
+    return [...days.entries()].map(([label, entries]) => new HttpHistoryDayItem(label, entries));
+  }
+
+  public dispose(): void {
+    this.subscription.dispose();
+    this._onDidChangeTreeData.dispose();
+  }
+}
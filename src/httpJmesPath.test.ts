@@ -0,0 +1,84 @@
+import * as assert from 'assert';
+import { evaluateJmesPath } from './httpJmesPath';
+
+const DATA = {
+  items: [
+    { id: 1, price: 5, tags: ['sale', 'new'], status: 'active' },
+    { id: 2, price: 15, tags: [], status: 'active' },
+    { id: 3, price: 25, tags: ['old'], status: 'gone' },
+  ],
+  owner: { 'first-name': 'Ann', age: 40 },
+  matrix: [[1, 2], [3], 4],
+};
+
+function runTests(): void {
+  testPathsAndIndexes();
+  testProjections();
+  testFiltersAndOperators();
+  testMultiSelectAndPipes();
+  testFunctions();
+  testErrors();
+  console.log('All httpJmesPath tests passed.');
+}
+
+function testPathsAndIndexes(): void {
+  assert.strictEqual(evaluateJmesPath(DATA, 'owner."first-name"'), 'Ann');
+  assert.strictEqual(evaluateJmesPath(DATA, 'items[-1].id'), 3);
+  assert.strictEqual(evaluateJmesPath(DATA, 'items[9].id'), null);
+  assert.strictEqual(evaluateJmesPath(DATA, 'missing.deeper'), null);
+  assert.deepStrictEqual(evaluateJmesPath(DATA, 'items[0:2].id'), [1, 2]);
+  assert.deepStrictEqual(evaluateJmesPath(DATA, 'items[::-2].id'), [3, 1]);
+  assert.strictEqual(evaluateJmesPath(DATA, '@.owner.age'), 40);
+}
+
+function testProjections(): void {
+  assert.deepStrictEqual(evaluateJmesPath(DATA, 'items[*].id'), [1, 2, 3]);
+  assert.deepStrictEqual(evaluateJmesPath(DATA, 'items[].tags[]'), ['sale', 'new', 'old']);
+  assert.deepStrictEqual(evaluateJmesPath(DATA, 'matrix[]'), [1, 2, 3, 4]);
+  assert.deepStrictEqual(evaluateJmesPath(DATA, 'owner.*'), ['Ann', 40]);
+  assert.deepStrictEqual(evaluateJmesPath(DATA, 'items[*].tags[0]'), ['sale', 'old'], 'null results are dropped');
+}
+
+function testFiltersAndOperators(): void {
+  assert.deepStrictEqual(evaluateJmesPath(DATA, 'items[?price > `10`].id'), [2, 3]);
+  assert.deepStrictEqual(evaluateJmesPath(DATA, "items[?status == 'active' && price < `10`].id"), [1]);
+  assert.deepStrictEqual(evaluateJmesPath(DATA, 'items[?!tags].id'), [2], 'empty arrays are false');
+  assert.deepStrictEqual(evaluateJmesPath(DATA, 'items[?tags == `["old"]`].id'), [3]);
+  assert.strictEqual(evaluateJmesPath(DATA, 'missing || owner.age'), 40);
+  assert.strictEqual(evaluateJmesPath(DATA, "owner.age > 'x'"), null, 'ordering needs numbers');
+}
+
+function testMultiSelectAndPipes(): void {
+  assert.deepStrictEqual(evaluateJmesPath(DATA, 'items[*].{i: id, p: price}'), [
+    { i: 1, p: 5 },
+    { i: 2, p: 15 },
+    { i: 3, p: 25 },
+  ]);
+  assert.deepStrictEqual(evaluateJmesPath(DATA, 'items[0].[id, status]'), [1, 'active']);
+  assert.strictEqual(evaluateJmesPath(DATA, "items[?status == 'active'] | [0].id"), 1);
+  assert.strictEqual(evaluateJmesPath(DATA, 'items[*].id | [1]'), 2);
+}
+
+function testFunctions(): void {
+  assert.strictEqual(evaluateJmesPath(DATA, 'length(items)'), 3);
+  assert.strictEqual(evaluateJmesPath(DATA, 'sum(items[*].price)'), 45);
+  assert.strictEqual(evaluateJmesPath(DATA, 'avg(items[*].price)'), 15);
+  assert.strictEqual(evaluateJmesPath(DATA, 'max_by(items, &price).id'), 3);
+  assert.deepStrictEqual(evaluateJmesPath(DATA, 'sort_by(items, &status)[*].id'), [1, 2, 3]);
+  assert.deepStrictEqual(evaluateJmesPath(DATA, 'map(&id, items)'), [1, 2, 3]);
+  assert.strictEqual(evaluateJmesPath(DATA, "contains(items[*].status, 'gone')"), true);
+  assert.strictEqual(evaluateJmesPath(DATA, "join(', ', items[0].tags)"), 'sale, new');
+  assert.deepStrictEqual(evaluateJmesPath(DATA, 'keys(owner)'), ['first-name', 'age']);
+  assert.strictEqual(evaluateJmesPath(DATA, "to_number('42')"), 42);
+  assert.strictEqual(evaluateJmesPath(DATA, 'type(matrix)'), 'array');
+  assert.strictEqual(evaluateJmesPath(DATA, 'not_null(missing, owner.age)'), 40);
+}
+
+function testErrors(): void {
+  assert.throws(() => evaluateJmesPath(DATA, 'items[?'), /JMESPath items\[\?/);
+  assert.throws(() => evaluateJmesPath(DATA, 'nope(items)'), /Unknown function nope\(\)/);
+  assert.throws(() => evaluateJmesPath(DATA, 'length(`1`)'), /length\(\) expected string or array or object, got number/);
+  assert.throws(() => evaluateJmesPath(DATA, 'items.'), /Unexpected token EOF/);
+}
+
+runTests();
@@ -0,0 +1,745 @@
+/**
+ * JMESPath (https://jmespath.org/specification.html) over parsed JSON: sub-expressions,
+ * indexes and slices, list / object / filter projections, flatten, multi-select lists and
+ * hashes, pipes, `|| && !` and comparators, literals and the built-in function library.
+ * Pure helpers — no VS Code dependencies.
+ */
+
+export class JmesPathError extends Error {
+  constructor(message: string, expression: string) {
+    super(`${message} in JMESPath ${expression}`);
+    this.name = 'JmesPathError';
+  }
+}
+
+type TokenType =
+  | 'EOF' | 'Unquoted' | 'Quoted' | 'Literal' | 'Number'
+  | 'Dot' | 'Star' | 'Comma' | 'Colon' | 'Lbrace' | 'Rbrace' | 'Lbracket' | 'Rbracket'
+  | 'Lparen' | 'Rparen' | 'Current' | 'Expref' | 'Flatten' | 'Filter'
+  | 'Pipe' | 'Or' | 'And' | 'Not' | 'EQ' | 'NE' | 'LT' | 'LTE' | 'GT' | 'GTE';
+
+interface Token {
+  type: TokenType;
+  value?: unknown;
+  start: number;
+}
+
+type Node =
+  | { type: 'Field'; name: string }
+  | { type: 'Literal'; value: unknown }
+  | { type: 'Identity' | 'Current' }
+  | { type: 'Index'; index: number }
+  | { type: 'Slice'; start: number | null; stop: number | null; step: number | null }
+  | { type: 'Subexpression' | 'IndexExpression' | 'Pipe' | 'Or' | 'And' | 'Projection' | 'ValueProjection' | 'Flatten'; children: Node[] }
+  | { type: 'FilterProjection'; children: Node[]; condition: Node }
+  | { type: 'Comparator'; op: TokenType; children: Node[] }
+  | { type: 'Not' | 'ExpressionReference'; child: Node }
+  | { type: 'MultiSelectList'; children: Node[] }
+  | { type: 'MultiSelectHash'; pairs: Array<{ key: string; value: Node }> }
+  | { type: 'Function'; name: string; children: Node[] };
+
+const BINDING_POWER: Partial<Record<TokenType, number>> = {
+  Pipe: 1,
+  Or: 2,
+  And: 3,
+  EQ: 5,
+  NE: 5,
+  LT: 5,
+  LTE: 5,
+  GT: 5,
+  GTE: 5,
+  Flatten: 9,
+  Star: 20,
+  Filter: 21,
+  Dot: 40,
+  Not: 45,
+  Lbrace: 50,
+  Lbracket: 55,
+  Lparen: 60,
+};
+
+const SIMPLE_TOKENS: Record<string, TokenType> = {
+  '.': 'Dot',
+  '*': 'Star',
+  ',': 'Comma',
+  ':': 'Colon',
+  '{': 'Lbrace',
+  '}': 'Rbrace',
+  ']': 'Rbracket',
+  '(': 'Lparen',
+  ')': 'Rparen',
+  '@': 'Current',
+};
+
+function bindingPower(type: TokenType): number {
+  return BINDING_POWER[type] ?? 0;
+}
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+  const fail = (message: string): never => {
+    throw new JmesPathError(`${message} at position ${pos}`, expression);
+  };
+  // Reads up to the closing delimiter, honoring backslash escapes of it
+  const readDelimited = (delimiter: string): string => {
+    const start = ++pos;
+    while (pos < expression.length && expression[pos] !== delimiter) {
+      pos += expression[pos] === '\\' ? 2 : 1;
+    }
+    if (pos >= expression.length) {
+      fail('Unterminated literal');
+    }
+    return expression.slice(start, pos++);
+  };
+  while (pos < expression.length) {
+    const c = expression[pos];
+    const start = pos;
+    const rest = expression.slice(pos);
+    let match: RegExpMatchArray | null;
+    if (/\s/.test(c)) {
+      pos++;
+    } else if ((match = rest.match(/^[A-Za-z_][A-Za-z0-9_]*/))) {
+      tokens.push({ type: 'Unquoted', value: match[0], start });
+      pos += match[0].length;
+    } else if ((match = rest.match(/^-?\d+/))) {
+      tokens.push({ type: 'Number', value: parseInt(match[0], 10), start });
+      pos += match[0].length;
+    } else if (SIMPLE_TOKENS[c]) {
+      tokens.push({ type: SIMPLE_TOKENS[c], start });
+      pos++;
+    } else if (c === '"') {
+      const raw = readDelimited('"');
+      try {
+        tokens.push({ type: 'Quoted', value: JSON.parse(`"${raw}"`), start });
+      } catch {
+        fail('Invalid quoted identifier');
+      }
+    } else if (c === "'") {
+      tokens.push({ type: 'Literal', value: readDelimited("'").replace(/\\'/g, "'"), start });
+    } else if (c === '`') {
+      const raw = readDelimited('`').replace(/\\`/g, '`');
+      let value: unknown;
+      try {
+        value = JSON.parse(raw);
+      } catch {
+        // Legacy form: an unquoted string literal
+        value = raw.trim();
+      }
+      tokens.push({ type: 'Literal', value, start });
+    } else if (rest.startsWith('[?')) {
+      tokens.push({ type: 'Filter', start });
+      pos += 2;
+    } else if (rest.startsWith('[]')) {
+      tokens.push({ type: 'Flatten', start });
+      pos += 2;
+    } else if (c === '[') {
+      tokens.push({ type: 'Lbracket', start });
+      pos++;
+    } else {
+      const two = rest.slice(0, 2);
+      const ops: Record<string, TokenType> = { '||': 'Or', '&&': 'And', '==': 'EQ', '!=': 'NE', '<=': 'LTE', '>=': 'GTE' };
+      const one: Record<string, TokenType> = { '|': 'Pipe', '&': 'Expref', '!': 'Not', '<': 'LT', '>': 'GT' };
+      if (ops[two]) {
+        tokens.push({ type: ops[two], start });
+        pos += 2;
+      } else if (one[c]) {
+        tokens.push({ type: one[c], start });
+        pos++;
+      } else {
+        fail(`Unexpected "${c}"`);
+      }
+    }
+  }
+  tokens.push({ type: 'EOF', start: expression.length });
+  return tokens;
+}
+
+class JmesPathParser {
+  private index = 0;
+  private readonly tokens: Token[];
+
+  constructor(private readonly src: string) {
+    this.tokens = tokenize(src);
+  }
+
+  parse(): Node {
+    const node = this.expression(0);
+    if (this.lookahead() !== 'EOF') {
+      this.fail(`Unexpected token ${this.lookahead()}`);
+    }
+    return node;
+  }
+
+  private fail(message: string): never {
+    throw new JmesPathError(`${message} at position ${this.tokens[this.index].start}`, this.src);
+  }
+
+  private lookahead(offset = 0): TokenType {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)].type;
+  }
+
+  private advance(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private match(type: TokenType): void {
+    if (this.lookahead() !== type) {
+      this.fail(`Expected ${type}, got ${this.lookahead()}`);
+    }
+    this.index++;
+  }
+
+  private expression(rbp: number): Node {
+    let left = this.nud(this.advance());
+    while (rbp < bindingPower(this.lookahead())) {
+      left = this.led(this.advance().type, left);
+    }
+    return left;
+  }
+
+  private nud(token: Token): Node {
+    switch (token.type) {
+      case 'Literal':
+        return { type: 'Literal', value: token.value };
+      case 'Unquoted':
+        return { type: 'Field', name: token.value as string };
+      case 'Quoted':
+        if (this.lookahead() === 'Lparen') {
+          this.fail('Quoted identifiers cannot be function names');
+        }
+        return { type: 'Field', name: token.value as string };
+      case 'Not':
+        return { type: 'Not', child: this.expression(bindingPower('Not')) };
+      case 'Star': {
+        const right = this.lookahead() === 'Rbracket' ? { type: 'Identity' as const } : this.parseProjectionRHS(bindingPower('Star'));
+        return { type: 'ValueProjection', children: [{ type: 'Identity' }, right] };
+      }
+      case 'Filter':
+        return this.led('Filter', { type: 'Identity' });
+      case 'Lbrace':
+        return this.parseMultiselectHash();
+      case 'Flatten':
+        return {
+          type: 'Projection',
+          children: [{ type: 'Flatten', children: [{ type: 'Identity' }] }, this.parseProjectionRHS(bindingPower('Flatten'))],
+        };
+      case 'Lbracket':
+        if (this.lookahead() === 'Number' || this.lookahead() === 'Colon') {
+          return this.projectIfSlice({ type: 'Identity' }, this.parseIndexExpression());
+        }
+        if (this.lookahead() === 'Star' && this.lookahead(1) === 'Rbracket') {
+          this.index += 2;
+          return { type: 'Projection', children: [{ type: 'Identity' }, this.parseProjectionRHS(bindingPower('Star'))] };
+        }
+        return this.parseMultiselectList();
+      case 'Current':
+        return { type: 'Current' };
+      case 'Expref':
+        return { type: 'ExpressionReference', child: this.expression(0) };
+      case 'Lparen': {
+        const inner = this.expression(0);
+        this.match('Rparen');
+        return inner;
+      }
+      default:
+        this.index--;
+        return this.fail(`Unexpected token ${token.type}`);
+    }
+  }
+
+  private led(type: TokenType, left: Node): Node {
+    switch (type) {
+      case 'Dot': {
+        const rbp = bindingPower('Dot');
+        if (this.lookahead() !== 'Star') {
+          return { type: 'Subexpression', children: [left, this.parseDotRHS(rbp)] };
+        }
+        this.advance();
+        return { type: 'ValueProjection', children: [left, this.parseProjectionRHS(rbp)] };
+      }
+      case 'Pipe':
+      case 'Or':
+      case 'And':
+        return { type, children: [left, this.expression(bindingPower(type))] };
+      case 'Lparen': {
+        if (left.type !== 'Field') {
+          this.fail('Expected a function name');
+        }
+        const args: Node[] = [];
+        while (this.lookahead() !== 'Rparen') {
+          args.push(this.expression(0));
+          if (this.lookahead() === 'Comma') {
+            this.match('Comma');
+          }
+        }
+        this.match('Rparen');
+        return { type: 'Function', name: left.name, children: args };
+      }
+      case 'Filter': {
+        const condition = this.expression(0);
+        this.match('Rbracket');
+        const right = this.lookahead() === 'Flatten' ? { type: 'Identity' as const } : this.parseProjectionRHS(bindingPower('Filter'));
+        return { type: 'FilterProjection', children: [left, right], condition };
+      }
+      case 'Flatten':
+        return {
+          type: 'Projection',
+          children: [{ type: 'Flatten', children: [left] }, this.parseProjectionRHS(bindingPower('Flatten'))],
+        };
+      case 'EQ':
+      case 'NE':
+      case 'GT':
+      case 'GTE':
+      case 'LT':
+      case 'LTE':
+        return { type: 'Comparator', op: type, children: [left, this.expression(bindingPower(type))] };
+      case 'Lbracket':
+        if (this.lookahead() === 'Number' || this.lookahead() === 'Colon') {
+          return this.projectIfSlice(left, this.parseIndexExpression());
+        }
+        this.match('Star');
+        this.match('Rbracket');
+        return { type: 'Projection', children: [left, this.parseProjectionRHS(bindingPower('Star'))] };
+      default:
+        return this.fail(`Unexpected token ${type}`);
+    }
+  }
+
+  private parseIndexExpression(): Node {
+    if (this.lookahead() === 'Colon' || this.lookahead(1) === 'Colon') {
+      return this.parseSliceExpression();
+    }
+    const index = this.advance().value as number;
+    this.match('Rbracket');
+    return { type: 'Index', index };
+  }
+
+  private projectIfSlice(left: Node, right: Node): Node {
+    const indexExpression: Node = { type: 'IndexExpression', children: [left, right] };
+    if (right.type === 'Slice') {
+      return { type: 'Projection', children: [indexExpression, this.parseProjectionRHS(bindingPower('Star'))] };
+    }
+    return indexExpression;
+  }
+
+  private parseSliceExpression(): Node {
+    const parts: Array<number | null> = [null, null, null];
+    let i = 0;
+    while (this.lookahead() !== 'Rbracket' && i < 3) {
+      if (this.lookahead() === 'Colon') {
+        i++;
+        this.advance();
+      } else if (this.lookahead() === 'Number') {
+        parts[i] = this.advance().value as number;
+      } else {
+        this.fail(`Unexpected token ${this.lookahead()} in slice`);
+      }
+    }
+    this.match('Rbracket');
+    return { type: 'Slice', start: parts[0], stop: parts[1], step: parts[2] };
+  }
+
+  private parseDotRHS(rbp: number): Node {
+    const next = this.lookahead();
+    if (next === 'Unquoted' || next === 'Quoted' || next === 'Star') {
+      return this.expression(rbp);
+    }
+    if (next === 'Lbracket') {
+      this.match('Lbracket');
+      return this.parseMultiselectList();
+    }
+    if (next === 'Lbrace') {
+      this.match('Lbrace');
+      return this.parseMultiselectHash();
+    }
+    return this.fail(`Unexpected token ${next} after "."`);
+  }
+
+  private parseProjectionRHS(rbp: number): Node {
+    const next = this.lookahead();
+    if (bindingPower(next) < 10) {
+      return { type: 'Identity' };
+    }
+    if (next === 'Lbracket' || next === 'Filter') {
+      return this.expression(rbp);
+    }
+    if (next === 'Dot') {
+      this.match('Dot');
+      return this.parseDotRHS(rbp);
+    }
+    return this.fail(`Unexpected token ${next} in projection`);
+  }
+
+  private parseMultiselectList(): Node {
+    const children: Node[] = [];
+    while (this.lookahead() !== 'Rbracket') {
+      children.push(this.expression(0));
+      if (this.lookahead() === 'Comma') {
+        this.match('Comma');
+        if (this.lookahead() === 'Rbracket') {
+          this.fail('Unexpected "]"');
+        }
+      }
+    }
+    this.match('Rbracket');
+    return { type: 'MultiSelectList', children };
+  }
+
+  private parseMultiselectHash(): Node {
+    const pairs: Array<{ key: string; value: Node }> = [];
+    for (;;) {
+      const key = this.advance();
+      if (key.type !== 'Unquoted' && key.type !== 'Quoted') {
+        this.index--;
+        this.fail('Expected a key name');
+      }
+      this.match('Colon');
+      pairs.push({ key: key.value as string, value: this.expression(0) });
+      if (this.lookahead() === 'Comma') {
+        this.match('Comma');
+      } else {
+        this.match('Rbrace');
+        return { type: 'MultiSelectHash', pairs };
+      }
+    }
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/** JMESPath falsiness: null, false, and empty strings, arrays and objects. */
+function isFalse(value: unknown): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    value === false ||
+    value === '' ||
+    (Array.isArray(value) && value.length === 0) ||
+    (isObject(value) && Object.keys(value).length === 0)
+  );
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((key) => key in b && deepEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+function sliceArray(value: unknown[], start: number | null, stop: number | null, step: number | null): unknown[] {
+  const s = step ?? 1;
+  if (s === 0) {
+    throw new Error('Slice step cannot be 0');
+  }
+  const len = value.length;
+  const clamp = (i: number): number => {
+    if (i < 0) {
+      i += len;
+      return i < 0 ? (s < 0 ? -1 : 0) : i;
+    }
+    return i >= len ? (s < 0 ? len - 1 : len) : i;
+  };
+  const from = start === null ? (s < 0 ? len - 1 : 0) : clamp(start);
+  const to = stop === null ? (s < 0 ? -1 : len) : clamp(stop);
+  const out: unknown[] = [];
+  for (let i = from; s > 0 ? i < to : i > to; i += s) {
+    out.push(value[i]);
+  }
+  return out;
+}
+
+/** Marks an `&expr` argument for map / sort_by / min_by / max_by. */
+interface ExpressionRef {
+  expref: Node;
+}
+
+function isExpressionRef(value: unknown): value is ExpressionRef {
+  return isObject(value) && 'expref' in value && Object.keys(value).length === 1;
+}
+
+function typeName(value: unknown): string {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value === 'object' ? 'object' : typeof value;
+}
+
+class JmesPathInterpreter {
+  constructor(private readonly src: string) {}
+
+  private fail(message: string): never {
+    throw new JmesPathError(message, this.src);
+  }
+
+  visit(node: Node, value: unknown): unknown {
+    switch (node.type) {
+      case 'Field':
+        return isObject(value) ? value[node.name] ?? null : null;
+      case 'Literal':
+        return node.value;
+      case 'Identity':
+      case 'Current':
+        return value;
+      case 'Subexpression': {
+        let result = this.visit(node.children[0], value);
+        for (let i = 1; i < node.children.length && result !== null; i++) {
+          result = this.visit(node.children[i], result);
+        }
+        return result;
+      }
+      case 'IndexExpression':
+        return this.visit(node.children[1], this.visit(node.children[0], value));
+      case 'Index': {
+        if (!Array.isArray(value)) {
+          return null;
+        }
+        const i = node.index < 0 ? value.length + node.index : node.index;
+        return value[i] ?? null;
+      }
+      case 'Slice':
+        return Array.isArray(value) ? sliceArray(value, node.start, node.stop, node.step) : null;
+      case 'Projection': {
+        const base = this.visit(node.children[0], value);
+        return Array.isArray(base) ? this.project(base, node.children[1]) : null;
+      }
+      case 'ValueProjection': {
+        const base = this.visit(node.children[0], value);
+        return isObject(base) ? this.project(Object.values(base), node.children[1]) : null;
+      }
+      case 'FilterProjection': {
+        const base = this.visit(node.children[0], value);
+        if (!Array.isArray(base)) {
+          return null;
+        }
+        return this.project(base.filter((item) => !isFalse(this.visit(node.condition, item))), node.children[1]);
+      }
+      case 'Flatten': {
+        const base = this.visit(node.children[0], value);
+        if (!Array.isArray(base)) {
+          return null;
+        }
+        return base.flatMap((item) => (Array.isArray(item) ? item : [item]));
+      }
+      case 'Comparator':
+        return this.compare(node.op, this.visit(node.children[0], value), this.visit(node.children[1], value));
+      case 'Pipe':
+        return this.visit(node.children[1], this.visit(node.children[0], value));
+      case 'Or': {
+        const left = this.visit(node.children[0], value);
+        return isFalse(left) ? this.visit(node.children[1], value) : left;
+      }
+      case 'And': {
+        const left = this.visit(node.children[0], value);
+        return isFalse(left) ? left : this.visit(node.children[1], value);
+      }
+      case 'Not':
+        return isFalse(this.visit(node.child, value));
+      case 'MultiSelectList':
+        return value === null ? null : node.children.map((child) => this.visit(child, value));
+      case 'MultiSelectHash':
+        return value === null
+          ? null
+          : Object.fromEntries(node.pairs.map((pair) => [pair.key, this.visit(pair.value, value)]));
+      case 'ExpressionReference':
+        return { expref: node.child } as ExpressionRef;
+      case 'Function':
+        return this.callFunction(node.name, node.children.map((child) => this.visit(child, value)));
+    }
+  }
+
+  private project(items: unknown[], right: Node): unknown[] {
+    const out: unknown[] = [];
+    for (const item of items) {
+      const result = this.visit(right, item);
+      if (result !== null && result !== undefined) {
+        out.push(result);
+      }
+    }
+    return out;
+  }
+
+  private compare(op: TokenType, left: unknown, right: unknown): boolean | null {
+    if (op === 'EQ') {
+      return deepEqual(left, right);
+    }
+    if (op === 'NE') {
+      return !deepEqual(left, right);
+    }
+    if (typeof left !== 'number' || typeof right !== 'number') {
+      return null;
+    }
+    return op === 'LT' ? left < right : op === 'LTE' ? left <= right : op === 'GT' ? left > right : left >= right;
+  }
+
+  private applyRef(ref: unknown, value: unknown): unknown {
+    if (!isExpressionRef(ref)) {
+      this.fail('Expected an expression reference (&expr)');
+    }
+    return this.visit(ref.expref, value);
+  }
+
+  private expectArgs(name: string, args: unknown[], count: number, variadic = false): void {
+    if (variadic ? args.length < count : args.length !== count) {
+      this.fail(`${name}() takes ${variadic ? 'at least ' : ''}${count} argument${count === 1 ? '' : 's'}, got ${args.length}`);
+    }
+  }
+
+  private expectType(name: string, value: unknown, ...types: string[]): void {
+    if (!types.includes(typeName(value))) {
+      this.fail(`${name}() expected ${types.join(' or ')}, got ${typeName(value)}`);
+    }
+  }
+
+  private sortKey(name: string, items: unknown[], ref?: unknown): Array<{ key: unknown; item: unknown }> {
+    const keyed = items.map((item) => ({ key: ref === undefined ? item : this.applyRef(ref, item), item }));
+    const kind = keyed.length ? typeName(keyed[0].key) : 'number';
+    if ((kind !== 'number' && kind !== 'string') || keyed.some((k) => typeName(k.key) !== kind)) {
+      this.fail(`${name}() needs all numbers or all strings`);
+    }
+    return keyed;
+  }
+
+  private callFunction(name: string, args: unknown[]): unknown {
+    const numberArray = (fn: string, value: unknown): number[] => {
+      this.expectType(fn, value, 'array');
+      if (!(value as unknown[]).every((v) => typeof v === 'number')) {
+        this.fail(`${fn}() expected an array of numbers`);
+      }
+      return value as number[];
+    };
+    switch (name) {
+      case 'abs':
+      case 'ceil':
+      case 'floor':
+        this.expectArgs(name, args, 1);
+        this.expectType(name, args[0], 'number');
+        return Math[name](args[0] as number);
+      case 'avg': {
+        this.expectArgs(name, args, 1);
+        const values = numberArray(name, args[0]);
+        return values.length ? values.reduce((a, b) => a + b, 0) / values.length : null;
+      }
+      case 'sum':
+        this.expectArgs(name, args, 1);
+        return numberArray(name, args[0]).reduce((a, b) => a + b, 0);
+      case 'contains':
+        this.expectArgs(name, args, 2);
+        this.expectType(name, args[0], 'array', 'string');
+        return Array.isArray(args[0])
+          ? args[0].some((item) => deepEqual(item, args[1]))
+          : typeof args[1] === 'string' && (args[0] as string).includes(args[1]);
+      case 'starts_with':
+      case 'ends_with':
+        this.expectArgs(name, args, 2);
+        this.expectType(name, args[0], 'string');
+        this.expectType(name, args[1], 'string');
+        return name === 'starts_with'
+          ? (args[0] as string).startsWith(args[1] as string)
+          : (args[0] as string).endsWith(args[1] as string);
+      case 'join':
+        this.expectArgs(name, args, 2);
+        this.expectType(name, args[0], 'string');
+        this.expectType(name, args[1], 'array');
+        return (args[1] as unknown[]).join(args[0] as string);
+      case 'keys':
+      case 'values':
+        this.expectArgs(name, args, 1);
+        this.expectType(name, args[0], 'object');
+        return name === 'keys' ? Object.keys(args[0] as object) : Object.values(args[0] as object);
+      case 'length':
+        this.expectArgs(name, args, 1);
+        this.expectType(name, args[0], 'string', 'array', 'object');
+        return isObject(args[0]) ? Object.keys(args[0]).length : (args[0] as string | unknown[]).length;
+      case 'map':
+        this.expectArgs(name, args, 2);
+        this.expectType(name, args[1], 'array');
+        return (args[1] as unknown[]).map((item) => this.applyRef(args[0], item));
+      case 'max':
+      case 'min': {
+        this.expectArgs(name, args, 1);
+        this.expectType(name, args[0], 'array');
+        const keyed = this.sortKey(name, args[0] as unknown[]);
+        return keyed.reduce<unknown>(
+          (best, k) => (best === null || (name === 'max' ? (k.key as number) > (best as number) : (k.key as number) < (best as number)) ? k.key : best),
+          null
+        );
+      }
+      case 'max_by':
+      case 'min_by': {
+        this.expectArgs(name, args, 2);
+        this.expectType(name, args[0], 'array');
+        const keyed = this.sortKey(name, args[0] as unknown[], args[1]);
+        let best: { key: unknown; item: unknown } | null = null;
+        for (const k of keyed) {
+          if (!best || (name === 'max_by' ? (k.key as number) > (best.key as number) : (k.key as number) < (best.key as number))) {
+            best = k;
+          }
+        }
+        return best ? best.item : null;
+      }
+      case 'merge':
+        return Object.assign({}, ...args.map((arg) => {
+          this.expectType(name, arg, 'object');
+          return arg;
+        }));
+      case 'not_null':
+        this.expectArgs(name, args, 1, true);
+        return args.find((arg) => arg !== null && arg !== undefined) ?? null;
+      case 'reverse':
+        this.expectArgs(name, args, 1);
+        this.expectType(name, args[0], 'array', 'string');
+        return Array.isArray(args[0]) ? [...args[0]].reverse() : [...(args[0] as string)].reverse().join('');
+      case 'sort':
+      case 'sort_by': {
+        this.expectArgs(name, args, name === 'sort' ? 1 : 2);
+        this.expectType(name, args[0], 'array');
+        const keyed = this.sortKey(name, args[0] as unknown[], name === 'sort' ? undefined : args[1]);
+        return keyed
+          .map((k, i) => ({ ...k, i }))
+          .sort((a, b) => ((a.key as number) < (b.key as number) ? -1 : (a.key as number) > (b.key as number) ? 1 : a.i - b.i))
+          .map((k) => k.item);
+      }
+      case 'to_array':
+        this.expectArgs(name, args, 1);
+        return Array.isArray(args[0]) ? args[0] : [args[0]];
+      case 'to_number': {
+        this.expectArgs(name, args, 1);
+        if (typeof args[0] === 'number') {
+          return args[0];
+        }
+        const n = typeof args[0] === 'string' && args[0].trim() !== '' ? Number(args[0]) : NaN;
+        return isNaN(n) ? null : n;
+      }
+      case 'to_string':
+        this.expectArgs(name, args, 1);
+        return typeof args[0] === 'string' ? args[0] : JSON.stringify(args[0]);
+      case 'type':
+        this.expectArgs(name, args, 1);
+        return typeName(args[0]);
+      default:
+        return this.fail(`Unknown function ${name}()`);
+    }
+  }
+}
+
+/**
+ * Evaluates a JMESPath expression; missing values are null
+ * @throws JmesPathError on syntax errors, unknown functions and invalid arguments
+ */
+export function evaluateJmesPath(value: unknown, expression: string): unknown {
+  const ast = new JmesPathParser(expression).parse();
+  return new JmesPathInterpreter(expression).visit(ast, value);
+}
@@ -0,0 +1,108 @@
+import * as assert from 'assert';
+import {
+  evaluateJsonPath,
+  formatJsonPath,
+  jsonValuesEqual,
+  parseJsonPath,
+  queryJsonPath,
+  queryJsonPathMatches,
+} from './httpJsonPath';
+
+const STORE = {
+  store: {
+    items: [
+      { id: 1, price: 5, tags: ['sale'], status: 'active' },
+      { id: 2, price: 15, status: 'active' },
+      { id: 3, price: 25, status: 'gone', 'x-y': true },
+    ],
+    owner: { id: 9, name: 'Ann' },
+  },
+  users: [{ id: 5, name: 'Bob' }],
+};
+
+function runTests(): void {
+  testDefinitePaths();
+  testWildcardsAndSlices();
+  testFilters();
+  testSyntaxErrors();
+  testEquality();
+  testMatchLocations();
+  console.log('All httpJsonPath tests passed.');
+}
+
+function testDefinitePaths(): void {
+  assert.strictEqual(evaluateJsonPath(STORE, '$.store.owner.name'), 'Ann');
+  assert.strictEqual(evaluateJsonPath(STORE, "$['store']['owner'][\"id\"]"), 9);
+  assert.strictEqual(evaluateJsonPath(STORE, 'store.items[-1].id'), 3, 'the leading $ is optional');
+  assert.strictEqual(evaluateJsonPath(STORE, '$.store.items.length'), 3);
+  assert.strictEqual(evaluateJsonPath(STORE, '$.store.items.0.id'), 1);
+  assert.strictEqual(evaluateJsonPath(STORE, '$.store.missing.id'), undefined);
+  assert.deepStrictEqual(evaluateJsonPath(STORE, '$'), STORE);
+  assert.strictEqual(parseJsonPath('$.a[0]').definite, true);
+  assert.strictEqual(parseJsonPath('$.a[*]').definite, false);
+}
+
+function testWildcardsAndSlices(): void {
+  assert.deepStrictEqual(evaluateJsonPath(STORE, '$.store.items[*].id'), [1, 2, 3]);
+  assert.deepStrictEqual(evaluateJsonPath(STORE, '$..id'), [1, 2, 3, 9, 5]);
+  assert.deepStrictEqual(evaluateJsonPath(STORE, '$.store.owner.*'), [9, 'Ann']);
+  assert.deepStrictEqual(evaluateJsonPath(STORE, '$.store.items[0,2].id'), [1, 3]);
+  assert.deepStrictEqual(evaluateJsonPath(STORE, '$.store.items[1:].id'), [2, 3]);
+  assert.deepStrictEqual(evaluateJsonPath(STORE, '$.store.items[::-1].id'), [3, 2, 1]);
+  assert.deepStrictEqual(evaluateJsonPath(STORE, "$..['x-y']"), [true]);
+  assert.deepStrictEqual(evaluateJsonPath(STORE, '$.store.nothing[*]'), []);
+}
+
+function testFilters(): void {
+  assert.deepStrictEqual(evaluateJsonPath(STORE, '$..items[?(@.price > 10)].id'), [2, 3]);
+  assert.deepStrictEqual(evaluateJsonPath(STORE, '$.users[?(@.id == 5)].name'), ['Bob']);
+  assert.deepStrictEqual(evaluateJsonPath(STORE, "$.store.items[?@.status != 'active'].id"), [3], 'parentheses are optional');
+  assert.deepStrictEqual(evaluateJsonPath(STORE, '$.store.items[?(@.tags)].id'), [1], 'a bare path tests existence');
+  assert.deepStrictEqual(
+    evaluateJsonPath(STORE, '$.store.items[?(@.status =~ /^act/i && !(@.price < 10))].id'),
+    [2]
+  );
+  assert.deepStrictEqual(evaluateJsonPath(STORE, '$.store.items[?(@.price < 10 || @.id == 3)].id'), [1, 3]);
+  assert.deepStrictEqual(evaluateJsonPath(STORE, '$.store.items[?(@.price > $.store.owner.id)].id'), [2, 3]);
+  assert.deepStrictEqual(evaluateJsonPath(STORE, '$.store.items[?(length(@.status) == 4)].id'), [3]);
+  assert.deepStrictEqual(evaluateJsonPath(STORE, "$.store.items[?match(@.status, 'act.*')].id"), [1, 2]);
+  assert.deepStrictEqual(evaluateJsonPath(STORE, '$.store.items[?(count(@.tags[*]) > 0)].id'), [1]);
+  assert.deepStrictEqual(queryJsonPath({ a: [{ b: null }, {}] }, '$.a[?(@.b == null)]'), [{ b: null }]);
+}
+
+function testSyntaxErrors(): void {
+  assert.throws(() => parseJsonPath('$.items['), /JSONPath \$\.items\[/);
+  assert.throws(() => parseJsonPath('$.items[?(@.a >)]'), /Expected a filter operand/);
+  assert.throws(() => parseJsonPath("$['a"), /Unterminated string/);
+}
+
+function testEquality(): void {
+  assert.ok(jsonValuesEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] }));
+  assert.ok(!jsonValuesEqual({ a: 1 }, { a: 1, b: undefined }));
+  assert.ok(!jsonValuesEqual([1, 2], [2, 1]));
+  assert.ok(!jsonValuesEqual(null, {}));
+}
+
+function testMatchLocations(): void {
+  assert.deepStrictEqual(queryJsonPathMatches(STORE, '$..items[?(@.price > 10)].id'), [
+    { path: ['store', 'items', 1, 'id'], value: 2 },
+    { path: ['store', 'items', 2, 'id'], value: 3 },
+  ]);
+  assert.deepStrictEqual(
+    queryJsonPathMatches(STORE, '$.store.items[-1:]').map((match) => match.path),
+    [['store', 'items', 2]]
+  );
+  assert.deepStrictEqual(queryJsonPathMatches(STORE, '$.store.owner.*').map((match) => formatJsonPath(match.path)), [
+    '$.store.owner.id',
+    '$.store.owner.name',
+  ]);
+  assert.strictEqual(formatJsonPath([]), '$');
+  assert.strictEqual(formatJsonPath(['store', 'items', 2, 'x-y']), "$.store.items[2]['x-y']");
+  assert.strictEqual(formatJsonPath(["it's"]), "$['it\\'s']");
+  for (const path of [['store', 'items', 2, 'x-y'], ["it's"], ['a b', 0]]) {
+    assert.deepStrictEqual(parseJsonPath(formatJsonPath(path)).definite, true, 'formatted paths parse back');
+  }
+  assert.strictEqual(evaluateJsonPath(STORE, formatJsonPath(['store', 'items', 2, 'x-y'])), true);
+}
+
+runTests();
@@ -0,0 +1,578 @@
+/**
+ * JSONPath queries over parsed JSON (RFC 9535 syntax with the common Goessner extensions):
+ * `$.a.b`, `$..name`, `[*]`, `[0,2]`, `[-1]`, `[1:3]`, `['x-y']`, `.length` on arrays and
+ * filters such as `[?(@.price > 10 && @.tags)]` with `== != < <= > >= =~`, `!`, `&&`, `||`
+ * and the `length()`, `count()`, `match()`, `search()` and `value()` functions.
+ * Pure helpers — no VS Code dependencies.
+ */
+
+export class JsonPathSyntaxError extends Error {
+  constructor(message: string, path: string) {
+    super(`${message} in JSONPath ${path}`);
+    this.name = 'JsonPathSyntaxError';
+  }
+}
+
+type Selector =
+  | { type: 'name'; name: string }
+  | { type: 'index'; index: number }
+  | { type: 'slice'; start?: number; end?: number; step?: number }
+  | { type: 'wildcard' }
+  | { type: 'filter'; expr: FilterExpr };
+
+interface Segment {
+  /** `..` segment: applies the selectors to the node and all of its descendants. */
+  descendant: boolean;
+  selectors: Selector[];
+}
+
+/** Parsed query; `definite` paths (names and indexes only) select at most one value. */
+export interface JsonPathQuery {
+  segments: Segment[];
+  definite: boolean;
+}
+
+type FilterExpr =
+  | { type: 'literal'; value: unknown }
+  | { type: 'regex'; value: RegExp }
+  | { type: 'path'; root: '$' | '@'; segments: Segment[] }
+  | { type: 'not'; operand: FilterExpr }
+  | { type: 'logical'; op: '&&' | '||'; left: FilterExpr; right: FilterExpr }
+  | { type: 'compare'; op: string; left: FilterExpr; right: FilterExpr }
+  | { type: 'call'; name: string; args: FilterExpr[] };
+
+/** Characters that end an unquoted member name. */
+const NAME_RE = /^[^.[\]()\s=!<>&|,'"~]+/;
+const NUMBER_RE = /^-?\d+(\.\d+)?([eE][+-]?\d+)?/;
+const COMPARE_OPS = ['==', '!=', '<=', '>=', '=~', '<', '>'];
+const FUNCTIONS = new Set(['length', 'count', 'match', 'search', 'value']);
+
+class JsonPathParser {
+  private pos = 0;
+
+  constructor(private readonly src: string) {}
+
+  parse(): JsonPathQuery {
+    this.skipSpace();
+    const rooted = this.src[this.pos] === '$';
+    if (rooted) {
+      this.pos++;
+    }
+    // Without `$`, a leading member name needs no dot (`a.b[0]` is `$.a.b[0]`)
+    const segments = this.parseSegments(!rooted);
+    this.skipSpace();
+    if (this.pos < this.src.length) {
+      this.fail(`Unexpected "${this.src[this.pos]}"`);
+    }
+    const definite = segments.every(
+      (s) => !s.descendant && s.selectors.length === 1 && (s.selectors[0].type === 'name' || s.selectors[0].type === 'index')
+    );
+    return { segments, definite };
+  }
+
+  private fail(message: string): never {
+    throw new JsonPathSyntaxError(`${message} at position ${this.pos}`, this.src);
+  }
+
+  private skipSpace(): void {
+    while (this.pos < this.src.length && /\s/.test(this.src[this.pos])) {
+      this.pos++;
+    }
+  }
+
+  private peekName(): string | null {
+    const match = this.src.slice(this.pos).match(NAME_RE);
+    return match ? match[0] : null;
+  }
+
+  /**
+   * @param top True when the first segment may be a bare member name
+   */
+  private parseSegments(top: boolean): Segment[] {
+    const segments: Segment[] = [];
+    let first = true;
+    for (;;) {
+      const c = this.src[this.pos];
+      if (this.src.startsWith('..', this.pos)) {
+        this.pos += 2;
+        if (this.src[this.pos] === '[') {
+          segments.push({ descendant: true, selectors: this.parseBracket() });
+        } else {
+          segments.push({ descendant: true, selectors: [this.parseDotMember()] });
+        }
+      } else if (c === '.') {
+        this.pos++;
+        segments.push({ descendant: false, selectors: [this.parseDotMember()] });
+      } else if (c === '[') {
+        segments.push({ descendant: false, selectors: this.parseBracket() });
+      } else if (top && first && this.peekName()) {
+        segments.push({ descendant: false, selectors: [this.parseDotMember()] });
+      } else {
+        return segments;
+      }
+      first = false;
+    }
+  }
+
+  private parseDotMember(): Selector {
+    if (this.src[this.pos] === '*') {
+      this.pos++;
+      return { type: 'wildcard' };
+    }
+    const name = this.peekName();
+    if (!name) {
+      this.fail('Expected a member name');
+    }
+    this.pos += name.length;
+    return { type: 'name', name };
+  }
+
+  private parseBracket(): Selector[] {
+    this.pos++; // [
+    const selectors: Selector[] = [];
+    for (;;) {
+      this.skipSpace();
+      selectors.push(this.parseSelector());
+      this.skipSpace();
+      const c = this.src[this.pos];
+      if (c === ',') {
+        this.pos++;
+      } else if (c === ']') {
+        this.pos++;
+        return selectors;
+      } else {
+        this.fail('Expected "," or "]"');
+      }
+    }
+  }
+
+  private parseSelector(): Selector {
+    const c = this.src[this.pos];
+    if (c === '*') {
+      this.pos++;
+      return { type: 'wildcard' };
+    }
+    if (c === "'" || c === '"') {
+      return { type: 'name', name: this.parseString() };
+    }
+    if (c === '?') {
+      this.pos++;
+      this.skipSpace();
+      return { type: 'filter', expr: this.parseOr() };
+    }
+    const slice = this.src.slice(this.pos).match(/^(-?\d+)?\s*:\s*(-?\d+)?\s*(?::\s*(-?\d+)?)?/);
+    if (slice && slice[0].includes(':')) {
+      this.pos += slice[0].length;
+      const num = (v: string | undefined): number | undefined => (v === undefined ? undefined : parseInt(v, 10));
+      return { type: 'slice', start: num(slice[1]), end: num(slice[2]), step: num(slice[3]) };
+    }
+    const index = this.src.slice(this.pos).match(/^-?\d+/);
+    if (index) {
+      this.pos += index[0].length;
+      return { type: 'index', index: parseInt(index[0], 10) };
+    }
+    this.fail('Expected a selector');
+  }
+
+  private parseString(): string {
+    const quote = this.src[this.pos++];
+    let out = '';
+    while (this.pos < this.src.length && this.src[this.pos] !== quote) {
+      if (this.src[this.pos] === '\\' && this.pos + 1 < this.src.length) {
+        const next = this.src[this.pos + 1];
+        if (next === 'u') {
+          out += String.fromCharCode(parseInt(this.src.slice(this.pos + 2, this.pos + 6), 16));
+          this.pos += 6;
+          continue;
+        }
+        out += { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' }[next] ?? next;
+        this.pos += 2;
+        continue;
+      }
+      out += this.src[this.pos++];
+    }
+    if (this.src[this.pos] !== quote) {
+      this.fail('Unterminated string');
+    }
+    this.pos++;
+    return out;
+  }
+
+  private parseOr(): FilterExpr {
+    let left = this.parseAnd();
+    for (;;) {
+      this.skipSpace();
+      if (!this.src.startsWith('||', this.pos)) {
+        return left;
+      }
+      this.pos += 2;
+      left = { type: 'logical', op: '||', left, right: this.parseAnd() };
+    }
+  }
+
+  private parseAnd(): FilterExpr {
+    let left = this.parseUnary();
+    for (;;) {
+      this.skipSpace();
+      if (!this.src.startsWith('&&', this.pos)) {
+        return left;
+      }
+      this.pos += 2;
+      left = { type: 'logical', op: '&&', left, right: this.parseUnary() };
+    }
+  }
+
+  private parseUnary(): FilterExpr {
+    this.skipSpace();
+    if (this.src[this.pos] === '!' && this.src[this.pos + 1] !== '=') {
+      this.pos++;
+      return { type: 'not', operand: this.parseUnary() };
+    }
+    const left = this.parsePrimary();
+    this.skipSpace();
+    const op = COMPARE_OPS.find((o) => this.src.startsWith(o, this.pos));
+    if (!op) {
+      return left;
+    }
+    this.pos += op.length;
+    this.skipSpace();
+    const right = op === '=~' && this.src[this.pos] === '/' ? this.parseRegex() : this.parsePrimary();
+    return { type: 'compare', op, left, right };
+  }
+
+  private parseRegex(): FilterExpr {
+    const match = this.src.slice(this.pos).match(/^\/((?:[^/\\]|\\.)*)\/([gimsuy]*)/);
+    if (!match) {
+      this.fail('Invalid regular expression');
+    }
+    this.pos += match[0].length;
+    return { type: 'regex', value: new RegExp(match[1], match[2]) };
+  }
+
+  private parsePrimary(): FilterExpr {
+    this.skipSpace();
+    const c = this.src[this.pos];
+    const rest = this.src.slice(this.pos);
+    if (c === '(') {
+      this.pos++;
+      const inner = this.parseOr();
+      this.skipSpace();
+      if (this.src[this.pos] !== ')') {
+        this.fail('Expected ")"');
+      }
+      this.pos++;
+      return inner;
+    }
+    if (c === '@' || c === '$') {
+      this.pos++;
+      return { type: 'path', root: c, segments: this.parseSegments(false) };
+    }
+    if (c === "'" || c === '"') {
+      return { type: 'literal', value: this.parseString() };
+    }
+    const number = rest.match(NUMBER_RE);
+    if (number) {
+      this.pos += number[0].length;
+      return { type: 'literal', value: parseFloat(number[0]) };
+    }
+    const word = rest.match(/^[a-z_]\w*/i);
+    if (word && ['true', 'false', 'null'].includes(word[0])) {
+      this.pos += word[0].length;
+      return { type: 'literal', value: word[0] === 'null' ? null : word[0] === 'true' };
+    }
+    if (word && FUNCTIONS.has(word[0]) && this.src[this.pos + word[0].length] === '(') {
+      this.pos += word[0].length + 1;
+      const args: FilterExpr[] = [];
+      this.skipSpace();
+      while (this.src[this.pos] !== ')') {
+        args.push(this.parseOr());
+        this.skipSpace();
+        if (this.src[this.pos] === ',') {
+          this.pos++;
+        } else if (this.src[this.pos] !== ')') {
+          this.fail('Expected "," or ")"');
+        }
+      }
+      this.pos++;
+      return { type: 'call', name: word[0], args };
+    }
+    this.fail('Expected a filter operand');
+  }
+}
+
+/**
+ * Parses a JSONPath; a leading `$` is optional (`a.b` is `$.a.b`)
+ * @throws JsonPathSyntaxError on malformed paths
+ */
+export function parseJsonPath(path: string): JsonPathQuery {
+  return new JsonPathParser(path).parse();
+}
+
+/** A selected value and where it was found (object keys and array indexes from the root) */
+export interface JsonPathMatch {
+  path: Array<string | number>;
+  value: unknown;
+}
+
+function children(node: JsonPathMatch): JsonPathMatch[] {
+  const { value, path } = node;
+  if (Array.isArray(value)) {
+    return value.map((item, i) => ({ path: [...path, i], value: item }));
+  }
+  if (value && typeof value === 'object') {
+    return Object.entries(value as Record<string, unknown>).map(([key, item]) => ({ path: [...path, key], value: item }));
+  }
+  return [];
+}
+
+function descendants(node: JsonPathMatch, out: JsonPathMatch[]): JsonPathMatch[] {
+  out.push(node);
+  for (const child of children(node)) {
+    descendants(child, out);
+  }
+  return out;
+}
+
+function selectName(node: JsonPathMatch, name: string, out: JsonPathMatch[]): void {
+  const { value, path } = node;
+  if (Array.isArray(value)) {
+    if (name === 'length') {
+      out.push({ path: [...path, name], value: value.length });
+    } else if (/^\d+$/.test(name) && Number(name) < value.length) {
+      out.push({ path: [...path, Number(name)], value: value[Number(name)] });
+    }
+  } else if (value && typeof value === 'object' && Object.prototype.hasOwnProperty.call(value, name)) {
+    out.push({ path: [...path, name], value: (value as Record<string, unknown>)[name] });
+  }
+}
+
+function selectSlice(
+  node: JsonPathMatch & { value: unknown[] },
+  selector: { start?: number; end?: number; step?: number },
+  out: JsonPathMatch[]
+): void {
+  const step = selector.step ?? 1;
+  if (step === 0) {
+    return;
+  }
+  const len = node.value.length;
+  const norm = (i: number): number => (i < 0 ? Math.max(len + i, step > 0 ? 0 : -1) : Math.min(i, step > 0 ? len : len - 1));
+  const start = selector.start === undefined ? (step > 0 ? 0 : len - 1) : norm(selector.start);
+  const end = selector.end === undefined ? (step > 0 ? len : -1) : norm(selector.end);
+  for (let i = start; step > 0 ? i < end : i > end; i += step) {
+    out.push({ path: [...node.path, i], value: node.value[i] });
+  }
+}
+
+function applySelector(node: JsonPathMatch, selector: Selector, root: unknown, out: JsonPathMatch[]): void {
+  const { value } = node;
+  switch (selector.type) {
+    case 'name':
+      selectName(node, selector.name, out);
+      break;
+    case 'index':
+      if (Array.isArray(value)) {
+        const i = selector.index < 0 ? value.length + selector.index : selector.index;
+        if (i >= 0 && i < value.length) {
+          out.push({ path: [...node.path, i], value: value[i] });
+        }
+      }
+      break;
+    case 'slice':
+      if (Array.isArray(value)) {
+        selectSlice({ path: node.path, value }, selector, out);
+      }
+      break;
+    case 'wildcard':
+      out.push(...children(node));
+      break;
+    case 'filter':
+      for (const child of children(node)) {
+        if (isTruthyFilterResult(evaluateFilter(selector.expr, child.value, root))) {
+          out.push(child);
+        }
+      }
+      break;
+  }
+}
+
+function selectSegments(value: unknown, segments: Segment[], root: unknown): JsonPathMatch[] {
+  let nodes: JsonPathMatch[] = [{ path: [], value }];
+  for (const segment of segments) {
+    const next: JsonPathMatch[] = [];
+    for (const node of nodes) {
+      for (const target of segment.descendant ? descendants(node, []) : [node]) {
+        for (const selector of segment.selectors) {
+          applySelector(target, selector, root, next);
+        }
+      }
+    }
+    nodes = next;
+  }
+  return nodes;
+}
+
+/** Filter operand: a single value, or the node list of a path. */
+type FilterValue = { nodes: unknown[] } | { value: unknown };
+
+function evaluateFilter(expr: FilterExpr, current: unknown, root: unknown): FilterValue {
+  switch (expr.type) {
+    case 'literal':
+    case 'regex':
+      return { value: expr.value };
+    case 'path':
+      return { nodes: selectSegments(expr.root === '@' ? current : root, expr.segments, root).map((node) => node.value) };
+    case 'not':
+      return { value: !isTruthyFilterResult(evaluateFilter(expr.operand, current, root)) };
+    case 'logical': {
+      const left = isTruthyFilterResult(evaluateFilter(expr.left, current, root));
+      if (expr.op === '&&' ? !left : left) {
+        return { value: left };
+      }
+      return { value: isTruthyFilterResult(evaluateFilter(expr.right, current, root)) };
+    }
+    case 'compare':
+      return {
+        value: compareValues(
+          expr.op,
+          singleValue(evaluateFilter(expr.left, current, root)),
+          singleValue(evaluateFilter(expr.right, current, root))
+        ),
+      };
+    case 'call':
+      return { value: callFunction(expr.name, expr.args.map((arg) => evaluateFilter(arg, current, root))) };
+  }
+}
+
+/** A path is true when it selects something (existence test), other values only when `true`. */
+function isTruthyFilterResult(result: FilterValue): boolean {
+  return 'nodes' in result ? result.nodes.length > 0 : result.value === true;
+}
+
+function singleValue(result: FilterValue): unknown {
+  if (!('nodes' in result)) {
+    return result.value;
+  }
+  return result.nodes.length === 1 ? result.nodes[0] : result.nodes.length === 0 ? undefined : result.nodes;
+}
+
+/**
+ * Structural equality of two JSON values
+ */
+export function jsonValuesEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => jsonValuesEqual(item, b[i]));
+  }
+  if (a && b && typeof a === 'object' && typeof b === 'object' && !Array.isArray(a) && !Array.isArray(b)) {
+    const aKeys = Object.keys(a as object);
+    const bRecord = b as Record<string, unknown>;
+    return (
+      aKeys.length === Object.keys(bRecord).length &&
+      aKeys.every((key) => Object.prototype.hasOwnProperty.call(bRecord, key) && jsonValuesEqual((a as Record<string, unknown>)[key], bRecord[key]))
+    );
+  }
+  return false;
+}
+
+function compareValues(op: string, left: unknown, right: unknown): boolean {
+  switch (op) {
+    case '==':
+      return jsonValuesEqual(left, right);
+    case '!=':
+      return !jsonValuesEqual(left, right);
+    case '=~':
+      if (typeof left !== 'string') {
+        return false;
+      }
+      if (right instanceof RegExp) {
+        return right.test(left);
+      }
+      return typeof right === 'string' && new RegExp(right).test(left);
+  }
+  const comparable =
+    (typeof left === 'number' && typeof right === 'number') || (typeof left === 'string' && typeof right === 'string');
+  if (!comparable) {
+    return false;
+  }
+  const [l, r] = [left as number | string, right as number | string];
+  return op === '<' ? l < r : op === '<=' ? l <= r : op === '>' ? l > r : l >= r;
+}
+
+function callFunction(name: string, args: FilterValue[]): unknown {
+  const arg = (i: number): unknown => (args[i] ? singleValue(args[i]) : undefined);
+  switch (name) {
+    case 'length': {
+      const value = arg(0);
+      if (typeof value === 'string' || Array.isArray(value)) {
+        return value.length;
+      }
+      return value && typeof value === 'object' ? Object.keys(value).length : undefined;
+    }
+    case 'count': {
+      const first = args[0];
+      return first && 'nodes' in first ? first.nodes.length : undefined;
+    }
+    case 'match':
+    case 'search': {
+      const [value, pattern] = [arg(0), arg(1)];
+      if (typeof value !== 'string' || typeof pattern !== 'string') {
+        return false;
+      }
+      try {
+        return new RegExp(name === 'match' ? `^(?:${pattern})$` : pattern, 'u').test(value);
+      } catch {
+        return false;
+      }
+    }
+    default:
+      return arg(0);
+  }
+}
+
+/**
+ * Every value selected by a JSONPath, in document order
+ * @throws JsonPathSyntaxError on malformed paths
+ */
+export function queryJsonPath(value: unknown, path: string | JsonPathQuery): unknown[] {
+  return queryJsonPathMatches(value, path).map((match) => match.value);
+}
+
+/**
+ * Every value selected by a JSONPath with its location, in document order
+ * @throws JsonPathSyntaxError on malformed paths
+ */
+export function queryJsonPathMatches(value: unknown, path: string | JsonPathQuery): JsonPathMatch[] {
+  const query = typeof path === 'string' ? parseJsonPath(path) : path;
+  return selectSegments(value, query.segments, value);
+}
+
+/**
+ * Normalized JSONPath of a location: `$.data[0].name`, `$['x-id']`
+ */
+export function formatJsonPath(path: Array<string | number>): string {
+  return (
+    '$' +
+    path
+      .map((part) =>
+        typeof part === 'number'
+          ? `[${part}]`
+          : /^[A-Za-z_][A-Za-z0-9_]*$/.test(part)
+            ? `.${part}`
+            : `['${part.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}']`
+      )
+      .join('')
+  );
+}
+
+/**
+ * Evaluates a JSONPath: definite paths give their value (undefined when missing),
+ * others an array of every match
+ */
+export function evaluateJsonPath(value: unknown, path: string): unknown {
+  const query = parseJsonPath(path);
+  const nodes = queryJsonPath(value, query);
+  return query.definite ? nodes[0] : nodes;
+}
@@ -1,14 +1,26 @@
 import * as vscode from 'vscode';
 import { EnvironmentManager } from './environmentManager';
 import { SYSTEM_DYNAMIC_VARIABLES } from './httpDynamicVariables';
-import { getEnvironmentForSection } from './httpRequestExecutor';
+import { getEnvironmentForSection, getNamedRequestEnvironment } from './httpRequestExecutor';
+import {
+  getGraphqlCompletionContext,
+  isGraphqlMethodLine,
+  listGraphqlCompletions,
+} from './httpGraphql';
+import { HttpGraphqlSchemaManager } from './httpGraphqlSchemaManager';
+import {
+  findChainReferences,
+  NamedResponseStore,
+  resolveChainReference,
+} from './httpRequestChaining';
 import {
   listVariableDefinitions,
   mergeCustomVariables,
 } from './httpRequestVariables';
+import { isMaskedVariable, SECRET_MASK } from './httpSecrets';
 import { isHttpRequestFile, getHttpEnvContext } from './utils';
 
-const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'] as const;
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS', 'GRAPHQL', 'WS', 'WSS', 'SSE'] as const;
 
 const COMMON_HEADERS: Array<{ name: string; value: string }> = [
   { name: 'Accept', value: 'application/json' },
@@ -28,6 +40,7 @@ const MIME_TYPES = [
 ];
 
 const PLACEHOLDER_RE = /\{\{[^}]*$/;
+const REQUEST_LINE_RE = /^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS|GRAPHQL|WSS|WS|SSE)\s+(https?:\/\/|wss?:\/\/|\{\{).+$/i;
 const CUSTOM_VAR_HOVER_RE = /\{\{\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*\}\}/;
 const DYNAMIC_VAR_HOVER_RE = /\{\{\s*\$(\w+)(?:\s+([^}]*))?\s*\}\}/;
 const PROMPT_HOVER_RE = /\{\{\s*@(prompt|randomIn|datetime|uuid|randomString|userAgent|ip|lorem|randomFrom)\s*\([^)]*\)\s*\}\}/i;
@@ -68,6 +81,11 @@ export class HttpRequestHoverProvider implements vscode.HoverProvider {
       return new vscode.Hover(md);
     }
 
+    const chainHover = this.chainHover(document, position, line);
+    if (chainHover) {
+      return chainHover;
+    }
+
     const range =
       document.getWordRangeAtPosition(position, CUSTOM_VAR_HOVER_RE) ??
       (() => {
@@ -119,7 +137,7 @@ export class HttpRequestHoverProvider implements vscode.HoverProvider {
       if (value !== undefined) {
         const md = new vscode.MarkdownString();
         md.appendMarkdown(`**${varName}** \`[${envName}]\`\n\n`);
-        md.appendCodeblock(value, 'text');
+        md.appendCodeblock(isMaskedVariable(varName, value) ? SECRET_MASK : value, 'text');
         return new vscode.Hover(md);
       }
     }
@@ -138,11 +156,78 @@ export class HttpRequestHoverProvider implements vscode.HoverProvider {
     unresolved.appendMarkdown('Define with `# @var`, add to `.env`, or use `{{$...}}` system variables.');
     return new vscode.Hover(unresolved);
   }
+
+  private chainHover(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    line: string
+  ): vscode.Hover | null {
+    let offset = 0;
+    for (const ref of findChainReferences(line)) {
+      const start = line.indexOf(ref.placeholder, offset);
+      const end = start + ref.placeholder.length;
+      offset = end;
+      if (position.character < start || position.character > end) {
+        continue;
+      }
+      const md = new vscode.MarkdownString();
+      md.appendMarkdown(`**${ref.name}** \`[# @name]\`\n\n`);
+      const exchange = NamedResponseStore.getInstance().get(
+        document.uri.fsPath,
+        getNamedRequestEnvironment(document, ref.name),
+        ref.name
+      );
+      const value = exchange ? resolveChainReference(exchange, ref) : null;
+      if (value !== null) {
+        md.appendCodeblock(value, 'text');
+      } else {
+        md.appendMarkdown(`Runs \`# @name ${ref.name}\` first when this request is sent.`);
+      }
+      return new vscode.Hover(md, new vscode.Range(position.line, start, position.line, end));
+    }
+    return null;
+  }
 }
 
 /** @deprecated Use HttpRequestHoverProvider */
 export const HttpVariableHoverProvider = HttpRequestHoverProvider;
 
+/**
+ * Where the cursor sits in a GRAPHQL block's query document: the method line and the
+ * document text before the cursor (without the word being typed). Null outside one.
+ */
+function findGraphqlQueryPrefix(
+  document: vscode.TextDocument,
+  position: vscode.Position
+): { methodLine: number; prefix: string } | null {
+  let methodLine = -1;
+  for (let i = position.line; i >= 0; i--) {
+    const t = document.lineAt(i).text.trim();
+    if (REQUEST_LINE_RE.test(t)) {
+      methodLine = isGraphqlMethodLine(t) ? i : -1;
+      break;
+    }
+    if (t.startsWith('##')) {
+      break;
+    }
+  }
+  if (methodLine < 0) {
+    return null;
+  }
+  let bodyStart = -1;
+  for (let i = methodLine + 1; i < position.line; i++) {
+    if (document.lineAt(i).text.trim() === '') {
+      bodyStart = i + 1;
+      break;
+    }
+  }
+  if (bodyStart < 0 || document.lineAt(position.line).text.trim().startsWith('# @')) {
+    return null;
+  }
+  const text = document.getText(new vscode.Range(bodyStart, 0, position.line, position.character));
+  return { methodLine, prefix: text.replace(/[_A-Za-z0-9]*$/, '') };
+}
+
 /**
  * Completion for methods, headers, MIME types, env decorator, and variables.
  */
@@ -168,6 +253,11 @@ export class HttpRequestCompletionProvider implements vscode.CompletionItemProvi
       return this.variableCompletions(document, position.line);
     }
 
+    const graphqlQuery = findGraphqlQueryPrefix(document, position);
+    if (graphqlQuery) {
+      return this.graphqlCompletions(document, graphqlQuery.methodLine, graphqlQuery.prefix);
+    }
+
     if (/^\s*$/.test(textBefore) || context.triggerCharacter === undefined) {
       const trimmed = lineText.trim();
       if (trimmed === '' || HTTP_METHODS.some((m) => trimmed.startsWith(m))) {
@@ -256,7 +346,7 @@ export class HttpRequestCompletionProvider implements vscode.CompletionItemProvi
       envVars?.forEach((value, key) => {
         const item = new vscode.CompletionItem(key, vscode.CompletionItemKind.Variable);
         item.detail = `Environment: ${envName}`;
-        item.documentation = value;
+        item.documentation = isMaskedVariable(key, value) ? SECRET_MASK : value;
         items.push(item);
       });
     }
@@ -264,6 +354,32 @@ export class HttpRequestCompletionProvider implements vscode.CompletionItemProvi
     return items;
   }
 
+  private graphqlCompletions(
+    document: vscode.TextDocument,
+    methodLine: number,
+    prefix: string
+  ): vscode.CompletionItem[] {
+    const schema = HttpGraphqlSchemaManager.getInstance().getSchemaForRequest(document, methodLine);
+    const context = schema ? getGraphqlCompletionContext(prefix, schema) : null;
+    if (!schema || !context) {
+      return [];
+    }
+    return listGraphqlCompletions(schema, context).map((entry) => {
+      const item = new vscode.CompletionItem(
+        entry.label,
+        entry.kind === 'argument' ? vscode.CompletionItemKind.Variable : vscode.CompletionItemKind.Field
+      );
+      item.detail = entry.detail;
+      if (entry.documentation) {
+        item.documentation = entry.documentation;
+      }
+      if (entry.kind === 'argument') {
+        item.insertText = new vscode.SnippetString(`${entry.label}: $0`);
+      }
+      return item;
+    });
+  }
+
   private methodCompletions(prefix: string): vscode.CompletionItem[] {
     return HTTP_METHODS.map((method) => {
       const item = new vscode.CompletionItem(method, vscode.CompletionItemKind.Keyword);
@@ -370,7 +486,7 @@ export class HttpRequestDocumentFormattingProvider implements vscode.DocumentFor
         if (
           t.startsWith('###') ||
           t.startsWith('##') ||
-          /^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)\s/i.test(t)
+          /^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS|GRAPHQL|WSS|WS|SSE)\s/i.test(t)
         ) {
           const bodyLines = lines.slice(bodyStart, j);
           const bodyText = bodyLines.join('\n').trim();
@@ -0,0 +1,254 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { extractAssertions } from './assertionParser';
+import { validateAssertions } from './assertionValidator';
+import {
+  describeLoadTestReport,
+  parseLoadTestLimit,
+  percentile,
+  runLoadTest,
+  summarizeLoadTest,
+  validateLoadTestOptions,
+  type HttpLoadTestRun,
+  type HttpLoadTestSample,
+} from './httpLoadTest';
+import { executeNodeHttpRequest } from './httpNodeEngine';
+
+async function runTests(): Promise<void> {
+  testParseLoadTestLimit();
+  testValidateLoadTestOptions();
+  testPercentile();
+  testSummarizeLoadTest();
+  await testRunLoadTestCount();
+  await testRunLoadTestDurationAndRampUp();
+  await testRunLoadTestCancel();
+  await testAgainstLocalServer();
+  console.log('All httpLoadTest tests passed.');
+}
+
+function testParseLoadTestLimit(): void {
+  assert.deepStrictEqual(parseLoadTestLimit('500'), { totalRequests: 500 });
+  assert.deepStrictEqual(parseLoadTestLimit(' 30s '), { durationSeconds: 30 });
+  assert.deepStrictEqual(parseLoadTestLimit('2m'), { durationSeconds: 120 });
+  assert.deepStrictEqual(parseLoadTestLimit('3 min'), { durationSeconds: 180 });
+  assert.strictEqual(parseLoadTestLimit('0'), null);
+  assert.strictEqual(parseLoadTestLimit('1.5s'), null);
+  assert.strictEqual(parseLoadTestLimit('10h'), null);
+  assert.strictEqual(parseLoadTestLimit(''), null);
+}
+
+function testValidateLoadTestOptions(): void {
+  assert.strictEqual(validateLoadTestOptions({ concurrency: 10, totalRequests: 100, rampUpSeconds: 0 }), null);
+  assert.strictEqual(validateLoadTestOptions({ concurrency: 1, durationSeconds: 30, rampUpSeconds: 5 }), null);
+  assert.match(validateLoadTestOptions({ concurrency: 0, totalRequests: 1, rampUpSeconds: 0 }) ?? '', /Concurrency/);
+  assert.match(validateLoadTestOptions({ concurrency: 201, totalRequests: 1, rampUpSeconds: 0 }) ?? '', /Concurrency/);
+  assert.match(validateLoadTestOptions({ concurrency: 1, rampUpSeconds: 0 }) ?? '', /number of requests or a duration/);
+  assert.match(validateLoadTestOptions({ concurrency: 1, totalRequests: 2.5, rampUpSeconds: 0 }) ?? '', /Requests/);
+  assert.match(validateLoadTestOptions({ concurrency: 1, durationSeconds: 7200, rampUpSeconds: 0 }) ?? '', /Duration/);
+  assert.match(validateLoadTestOptions({ concurrency: 1, totalRequests: 1, rampUpSeconds: -1 }) ?? '', /Ramp-up/);
+}
+
+function testPercentile(): void {
+  const values = Array.from({ length: 100 }, (_, i) => i + 1);
+  assert.strictEqual(percentile(values, 50), 50);
+  assert.strictEqual(percentile(values, 90), 90);
+  assert.strictEqual(percentile(values, 99), 99);
+  assert.strictEqual(percentile(values, 100), 100);
+  assert.strictEqual(percentile([7], 99), 7);
+  assert.strictEqual(percentile([], 50), 0);
+}
+
+function sample(durationMs: number, statusCode: number, extra: Partial<HttpLoadTestSample> = {}): HttpLoadTestSample {
+  return { startedAtMs: 0, durationMs, statusCode, failedAssertions: [], ...extra };
+}
+
+function testSummarizeLoadTest(): void {
+  const run: HttpLoadTestRun = {
+    samples: [
+      sample(10, 200),
+      sample(20, 200),
+      sample(30, 200, { failedAssertions: ['Has id'] }),
+      sample(40, 503),
+      sample(100, 0, { error: 'ECONNRESET' }),
+    ],
+    elapsedMs: 2000,
+    cancelled: false,
+  };
+  const options = { concurrency: 2, totalRequests: 5, rampUpSeconds: 0 };
+  const report = summarizeLoadTest(run, {
+    requestLabel: 'GET http://localhost/items',
+    envName: 'dev',
+    startedAt: '2024-01-01T00:00:00.000Z',
+    options,
+  });
+  assert.strictEqual(report.requests, 5);
+  assert.strictEqual(report.succeeded, 2);
+  assert.strictEqual(report.errors, 2);
+  assert.strictEqual(report.errorRate, 0.4);
+  assert.strictEqual(report.throughput, 2.5);
+  assert.deepStrictEqual(report.latency, { min: 10, mean: 40, p50: 30, p90: 100, p99: 100, max: 100 });
+  assert.deepStrictEqual(report.statusCodes, [
+    { status: '200', count: 3 },
+    { status: '503', count: 1 },
+    { status: 'error', count: 1 },
+  ]);
+  assert.deepStrictEqual(report.errorMessages, [{ message: 'ECONNRESET', count: 1 }]);
+  assert.strictEqual(report.assertionFailedRequests, 1);
+  assert.deepStrictEqual(report.assertionFailures, [{ description: 'Has id', count: 1 }]);
+  assert.strictEqual(report.latencyHistogram.length, 10);
+  assert.deepStrictEqual(report.latencyHistogram[0], { fromMs: 10, toMs: 20, count: 1 });
+  assert.strictEqual(report.latencyHistogram[9].count, 1);
+  assert.strictEqual(report.latencyHistogram.reduce((sum, b) => sum + b.count, 0), 5);
+  assert.strictEqual(report.envName, 'dev');
+  assert.deepStrictEqual(report.options, options);
+  assert.strictEqual(
+    describeLoadTestReport(report),
+    '5 requests in 2.0s: 2.5 req/s, p50 30 ms, p90 100 ms, p99 100 ms, 40.0% errors, 1 failed assertions'
+  );
+
+  const empty = summarizeLoadTest(
+    { samples: [], elapsedMs: 0, cancelled: true },
+    { requestLabel: 'GET /', startedAt: '2024-01-01T00:00:00.000Z', options }
+  );
+  assert.strictEqual(empty.errorRate, 0);
+  assert.strictEqual(empty.throughput, 0);
+  assert.deepStrictEqual(empty.latencyHistogram, []);
+  assert.match(describeLoadTestReport(empty), /\(cancelled\)$/);
+}
+
+/** Fake clock: sends advance time; sleeps are recorded and return at once */
+function fakeClock(): { now: () => number; sleeps: number[]; sleep: (ms: number) => Promise<void>; advance: (ms: number) => void } {
+  let time = 1000;
+  const sleeps: number[] = [];
+  return {
+    now: () => time,
+    sleeps,
+    sleep: async (ms) => {
+      sleeps.push(ms);
+    },
+    advance: (ms) => {
+      time += ms;
+    },
+  };
+}
+
+async function testRunLoadTestCount(): Promise<void> {
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const progress: number[] = [];
+  const run = await runLoadTest(
+    { concurrency: 3, totalRequests: 10, rampUpSeconds: 0 },
+    async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise<void>((resolve) => setImmediate(resolve));
+      inFlight--;
+      return { durationMs: 5, statusCode: 200, failedAssertions: [] };
+    },
+    { onProgress: (completed) => progress.push(completed) }
+  );
+  assert.strictEqual(run.samples.length, 10);
+  assert.strictEqual(maxInFlight, 3);
+  assert.deepStrictEqual(progress, [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+  assert.strictEqual(run.cancelled, false);
+}
+
+async function testRunLoadTestDurationAndRampUp(): Promise<void> {
+  const clock = fakeClock();
+  const run = await runLoadTest(
+    { concurrency: 2, durationSeconds: 1, rampUpSeconds: 0.5 },
+    async () => {
+      clock.advance(100);
+      return { durationMs: 100, statusCode: 200, failedAssertions: [] };
+    },
+    { now: clock.now, sleep: clock.sleep }
+  );
+  // The second worker waits half the ramp-up; nothing starts after the 1 s deadline
+  assert.deepStrictEqual(clock.sleeps, [250]);
+  assert.ok(run.samples.length >= 10);
+  assert.ok(run.samples.every((s) => s.startedAtMs < 1000));
+  assert.ok(run.elapsedMs >= 1000);
+}
+
+async function testRunLoadTestCancel(): Promise<void> {
+  let sent = 0;
+  const run = await runLoadTest(
+    { concurrency: 2, totalRequests: 100, rampUpSeconds: 0 },
+    async () => {
+      sent++;
+      return { durationMs: 1, statusCode: 200, failedAssertions: [] };
+    },
+    { isCancelled: () => sent >= 4 }
+  );
+  assert.strictEqual(run.cancelled, true);
+  assert.ok(run.samples.length >= 4 && run.samples.length < 100);
+
+  // Aborting ends the ramp-up waits of workers that have not started yet
+  const controller = new AbortController();
+  const startedAt = Date.now();
+  const ramped = await runLoadTest(
+    { concurrency: 4, totalRequests: 100, rampUpSeconds: 600 },
+    async () => {
+      controller.abort();
+      return { durationMs: 1, statusCode: 200, failedAssertions: [] };
+    },
+    { signal: controller.signal }
+  );
+  assert.strictEqual(ramped.cancelled, true);
+  assert.strictEqual(ramped.samples.length, 1);
+  assert.ok(Date.now() - startedAt < 5000);
+}
+
+async function testAgainstLocalServer(): Promise<void> {
+  let hits = 0;
+  const server = http.createServer((req, res) => {
+    hits++;
+    const failing = hits % 5 === 0;
+    res.writeHead(failing ? 500 : 200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(failing ? { error: 'boom' } : { id: hits }));
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  const assertions = extractAssertions('/*\n * @assert("Status is 200", "res.status", "equals", 200)\n */');
+  assert.strictEqual(assertions.length, 1);
+
+  try {
+    const options = { concurrency: 4, totalRequests: 20, rampUpSeconds: 0 };
+    const run = await runLoadTest(options, async () => {
+      const started = Date.now();
+      const result = await executeNodeHttpRequest(
+        { method: 'GET', url: `http://127.0.0.1:${port}/items` },
+        { timeoutSeconds: 5, maxRedirects: 0 }
+      );
+      return {
+        durationMs: Date.now() - started,
+        statusCode: result.statusCode,
+        failedAssertions: validateAssertions(assertions, result)
+          .filter((r) => !r.passed)
+          .map((r) => r.assertion.description || r.assertion.expression),
+      };
+    });
+    const report = summarizeLoadTest(run, {
+      requestLabel: `GET http://127.0.0.1:${port}/items`,
+      startedAt: new Date().toISOString(),
+      options,
+    });
+    assert.strictEqual(hits, 20);
+    assert.strictEqual(report.requests, 20);
+    assert.deepStrictEqual(report.statusCodes, [
+      { status: '200', count: 16 },
+      { status: '500', count: 4 },
+    ]);
+    assert.strictEqual(report.errorRate, 0.2);
+    assert.deepStrictEqual(report.assertionFailures, [{ description: 'Status is 200', count: 4 }]);
+    assert.ok(report.latency.p50 <= report.latency.p90 && report.latency.p90 <= report.latency.p99);
+  } finally {
+    server.close();
+  }
+}
+
+runTests().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
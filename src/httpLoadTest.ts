@@ -0,0 +1,297 @@
+/**
+ * Load and latency tests of one request block: concurrent workers, started evenly over a
+ * ramp-up, send the same resolved request until a request count or a duration is reached.
+ * Pure helpers — no VS Code dependencies.
+ */
+
+/** Upper bounds accepted for load test options */
+export const HTTP_LOAD_TEST_LIMITS = {
+  concurrency: 200,
+  totalRequests: 100000,
+  durationSeconds: 3600,
+  rampUpSeconds: 600,
+} as const;
+
+const LATENCY_HISTOGRAM_BUCKETS = 10;
+
+export interface HttpLoadTestOptions {
+  /** Requests in flight at once */
+  concurrency: number;
+  /** Stop after this many requests; takes precedence over durationSeconds */
+  totalRequests?: number;
+  /** Stop sending after this many seconds */
+  durationSeconds?: number;
+  /** Workers start evenly spread over this many seconds */
+  rampUpSeconds: number;
+}
+
+/** One request of a load test */
+export interface HttpLoadTestSample {
+  /** Milliseconds since the test started */
+  startedAtMs: number;
+  durationMs: number;
+  /** 0 when the request got no response */
+  statusCode: number;
+  error?: string;
+  /** Descriptions of the assertions this response failed */
+  failedAssertions: string[];
+}
+
+export interface HttpLoadTestRun {
+  samples: HttpLoadTestSample[];
+  elapsedMs: number;
+  cancelled: boolean;
+}
+
+export interface HttpLoadTestLatency {
+  min: number;
+  mean: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+}
+
+/** Load test result, as shown in the report panel and exported as JSON */
+export interface HttpLoadTestReport {
+  /** `METHOD url` as sent */
+  requestLabel: string;
+  envName?: string;
+  /** ISO timestamp */
+  startedAt: string;
+  options: HttpLoadTestOptions;
+  elapsedMs: number;
+  cancelled: boolean;
+  requests: number;
+  /** Responses below 400 that passed every assertion */
+  succeeded: number;
+  /** Requests without a response or with a status of 400 or more */
+  errors: number;
+  /** `errors / requests`, 0 to 1 */
+  errorRate: number;
+  /** Requests per second */
+  throughput: number;
+  /** Milliseconds */
+  latency: HttpLoadTestLatency;
+  latencyHistogram: Array<{ fromMs: number; toMs: number; count: number }>;
+  /** `'200'`, `'503'`, … and `'error'` for requests without a response, by count */
+  statusCodes: Array<{ status: string; count: number }>;
+  errorMessages: Array<{ message: string; count: number }>;
+  /** Responses that failed at least one assertion */
+  assertionFailedRequests: number;
+  assertionFailures: Array<{ description: string; count: number }>;
+}
+
+/**
+ * Parses the stop condition: a request count (`500`) or a duration (`30s`, `2m`)
+ */
+export function parseLoadTestLimit(
+  value: string
+): Pick<HttpLoadTestOptions, 'totalRequests' | 'durationSeconds'> | null {
+  const match = value.trim().match(/^(\d+)\s*(s|sec|m|min)?$/i);
+  if (!match || Number(match[1]) < 1) {
+    return null;
+  }
+  const amount = Number(match[1]);
+  if (!match[2]) {
+    return { totalRequests: amount };
+  }
+  return { durationSeconds: match[2].toLowerCase().startsWith('m') ? amount * 60 : amount };
+}
+
+/**
+ * Returns why the options cannot run, or null when they are valid
+ */
+export function validateLoadTestOptions(options: HttpLoadTestOptions): string | null {
+  const limits = HTTP_LOAD_TEST_LIMITS;
+  if (!Number.isInteger(options.concurrency) || options.concurrency < 1 || options.concurrency > limits.concurrency) {
+    return `Concurrency must be a whole number from 1 to ${limits.concurrency}.`;
+  }
+  if (options.totalRequests === undefined && options.durationSeconds === undefined) {
+    return 'Set a number of requests or a duration.';
+  }
+  if (
+    options.totalRequests !== undefined &&
+    (!Number.isInteger(options.totalRequests) || options.totalRequests < 1 || options.totalRequests > limits.totalRequests)
+  ) {
+    return `Requests must be a whole number from 1 to ${limits.totalRequests}.`;
+  }
+  if (
+    options.durationSeconds !== undefined &&
+    (options.durationSeconds <= 0 || options.durationSeconds > limits.durationSeconds)
+  ) {
+    return `Duration must be at most ${limits.durationSeconds} seconds.`;
+  }
+  if (!(options.rampUpSeconds >= 0) || options.rampUpSeconds > limits.rampUpSeconds) {
+    return `Ramp-up must be from 0 to ${limits.rampUpSeconds} seconds.`;
+  }
+  return null;
+}
+
+/**
+ * Waits `ms`, returning early when the signal aborts
+ */
+function sleepUnlessAborted(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const done = (): void => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done);
+  });
+}
+
+/**
+ * Runs the workers until the request count or duration is reached, or until cancelled
+ * @param options Validated load test options
+ * @param send Sends one request; must not throw
+ * @param hooks Cancellation (an aborted signal also ends ramp-up waits), progress and
+ * (for tests) the clock
+ */
+export async function runLoadTest(
+  options: HttpLoadTestOptions,
+  send: () => Promise<Omit<HttpLoadTestSample, 'startedAtMs'>>,
+  hooks: {
+    signal?: AbortSignal;
+    isCancelled?: () => boolean;
+    onProgress?: (completed: number) => void;
+    now?: () => number;
+    sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+  } = {}
+): Promise<HttpLoadTestRun> {
+  const now = hooks.now ?? Date.now;
+  const sleep = hooks.sleep ?? sleepUnlessAborted;
+  const isCancelled = (): boolean => !!hooks.signal?.aborted || !!hooks.isCancelled?.();
+  const start = now();
+  const deadline = options.totalRequests === undefined ? start + (options.durationSeconds ?? 0) * 1000 : Infinity;
+  const samples: HttpLoadTestSample[] = [];
+  let issued = 0;
+
+  const claim = (): boolean => {
+    if (isCancelled()) {
+      return false;
+    }
+    const open = options.totalRequests !== undefined ? issued < options.totalRequests : now() < deadline;
+    if (open) {
+      issued++;
+    }
+    return open;
+  };
+
+  const worker = async (index: number): Promise<void> => {
+    const delay = (options.rampUpSeconds * 1000 * index) / options.concurrency;
+    if (delay > 0 && !isCancelled()) {
+      await sleep(delay, hooks.signal);
+    }
+    while (claim()) {
+      const startedAtMs = now() - start;
+      const sample = await send();
+      samples.push({ ...sample, startedAtMs });
+      hooks.onProgress?.(samples.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: options.concurrency }, (_, index) => worker(index)));
+  return { samples, elapsedMs: Math.max(0, now() - start), cancelled: isCancelled() };
+}
+
+/**
+ * Nearest-rank percentile of ascending values (0 when empty)
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))];
+}
+
+/**
+ * Distinct values with their counts, most frequent first
+ */
+function countBy(values: string[]): Array<[string, number]> {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+}
+
+function latencyHistogram(sorted: number[]): HttpLoadTestReport['latencyHistogram'] {
+  if (sorted.length === 0) {
+    return [];
+  }
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const width = Math.max(1, Math.ceil((max - min + 1) / LATENCY_HISTOGRAM_BUCKETS));
+  const buckets: HttpLoadTestReport['latencyHistogram'] = [];
+  for (let fromMs = min; fromMs <= max; fromMs += width) {
+    buckets.push({ fromMs, toMs: fromMs + width, count: 0 });
+  }
+  for (const value of sorted) {
+    buckets[Math.min(buckets.length - 1, Math.floor((value - min) / width))].count++;
+  }
+  return buckets;
+}
+
+/**
+ * Builds the report of a finished run
+ */
+export function summarizeLoadTest(
+  run: HttpLoadTestRun,
+  meta: { requestLabel: string; envName?: string; startedAt: string; options: HttpLoadTestOptions }
+): HttpLoadTestReport {
+  const { samples } = run;
+  const latencies = samples.map((s) => s.durationMs).sort((a, b) => a - b);
+  const round = (value: number): number => Math.round(value * 100) / 100;
+  const isError = (s: HttpLoadTestSample): boolean => s.statusCode === 0 || s.statusCode >= 400;
+  const errors = samples.filter(isError).length;
+
+  return {
+    ...meta,
+    elapsedMs: run.elapsedMs,
+    cancelled: run.cancelled,
+    requests: samples.length,
+    succeeded: samples.filter((s) => !isError(s) && s.failedAssertions.length === 0).length,
+    errors,
+    errorRate: samples.length > 0 ? round(errors / samples.length) : 0,
+    throughput: run.elapsedMs > 0 ? round((samples.length * 1000) / run.elapsedMs) : 0,
+    latency: {
+      min: latencies[0] ?? 0,
+      mean: latencies.length > 0 ? round(latencies.reduce((sum, v) => sum + v, 0) / latencies.length) : 0,
+      p50: percentile(latencies, 50),
+      p90: percentile(latencies, 90),
+      p99: percentile(latencies, 99),
+      max: latencies[latencies.length - 1] ?? 0,
+    },
+    latencyHistogram: latencyHistogram(latencies),
+    statusCodes: countBy(samples.map((s) => (s.statusCode > 0 ? String(s.statusCode) : 'error'))).map(
+      ([status, count]) => ({ status, count })
+    ),
+    errorMessages: countBy(samples.flatMap((s) => (s.error ? [s.error] : []))).map(([message, count]) => ({ message, count })),
+    assertionFailedRequests: samples.filter((s) => s.failedAssertions.length > 0).length,
+    assertionFailures: countBy(samples.flatMap((s) => s.failedAssertions)).map(([description, count]) => ({
+      description,
+      count,
+    })),
+  };
+}
+
+/**
+ * One-line summary for notifications
+ */
+export function describeLoadTestReport(report: HttpLoadTestReport): string {
+  const errorPercent = `${(report.errorRate * 100).toFixed(1)}% errors`;
+  const assertions = report.assertionFailedRequests > 0 ? `, ${report.assertionFailedRequests} failed assertions` : '';
+  return (
+    `${report.requests} requests in ${(report.elapsedMs / 1000).toFixed(1)}s: ${report.throughput} req/s, ` +
+    `p50 ${report.latency.p50} ms, p90 ${report.latency.p90} ms, p99 ${report.latency.p99} ms, ${errorPercent}${assertions}` +
+    (report.cancelled ? ' (cancelled)' : '')
+  );
+}
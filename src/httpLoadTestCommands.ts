@@ -0,0 +1,188 @@
+import * as vscode from 'vscode';
+import {
+  describeLoadTestReport,
+  HTTP_LOAD_TEST_LIMITS,
+  parseLoadTestLimit,
+  validateLoadTestOptions,
+  type HttpLoadTestOptions,
+} from './httpLoadTest';
+import { HttpLoadTestPanel } from './httpLoadTestPanel';
+import { runHttpLoadTest } from './httpRequestExecutor';
+import { getHttpRequestBlocks } from './httpRequestParser';
+import { buildHttpResponsePanelKey } from './httpResponsePanel';
+
+/** Workspace state key of the options of the last load test */
+const LAST_OPTIONS_KEY = 'cursorToys.httpLoadTestOptions';
+
+function parseWholeNumber(value: string): number | null {
+  return /^\s*\d+\s*$/.test(value) ? Number(value) : null;
+}
+
+/**
+ * Asks for concurrency, the request count or duration and the ramp-up, prefilled with
+ * the previous values. Undefined when the user cancelled.
+ */
+async function promptLoadTestOptions(previous?: HttpLoadTestOptions): Promise<HttpLoadTestOptions | undefined> {
+  const limits = HTTP_LOAD_TEST_LIMITS;
+  const concurrencyText = await vscode.window.showInputBox({
+    title: 'Run Load Test (1/3)',
+    prompt: 'Concurrent requests',
+    value: String(previous?.concurrency ?? 10),
+    validateInput: (value) => {
+      const n = parseWholeNumber(value);
+      return n !== null && n >= 1 && n <= limits.concurrency ? null : `Enter a number from 1 to ${limits.concurrency}.`;
+    },
+  });
+  if (concurrencyText === undefined) {
+    return undefined;
+  }
+  const limitText = await vscode.window.showInputBox({
+    title: 'Run Load Test (2/3)',
+    prompt: 'Total requests (e.g. 500) or duration (e.g. 30s, 2m)',
+    value: previous?.durationSeconds !== undefined ? `${previous.durationSeconds}s` : String(previous?.totalRequests ?? 100),
+    validateInput: (value) => (parseLoadTestLimit(value) ? null : 'Enter a request count like 500 or a duration like 30s.'),
+  });
+  if (limitText === undefined) {
+    return undefined;
+  }
+  const rampUpText = await vscode.window.showInputBox({
+    title: 'Run Load Test (3/3)',
+    prompt: 'Ramp-up in seconds (workers start evenly over this time)',
+    value: String(previous?.rampUpSeconds ?? 0),
+    validateInput: (value) => {
+      const n = parseWholeNumber(value);
+      return n !== null && n <= limits.rampUpSeconds ? null : `Enter a number from 0 to ${limits.rampUpSeconds}.`;
+    },
+  });
+  if (rampUpText === undefined) {
+    return undefined;
+  }
+  return {
+    concurrency: Number(concurrencyText),
+    ...parseLoadTestLimit(limitText),
+    rampUpSeconds: Number(rampUpText),
+  };
+}
+
+/**
+ * Runs a load test of one request block and shows its report.
+ * @param context Extension context (remembers the last options)
+ * @param uri Request file; the active editor when omitted
+ * @param startLine Block start; the block at the cursor when omitted
+ * @param endLine Block end
+ * @param sectionTitle Block title, for the panel
+ * @param presetOptions Options to reuse without prompting (Run again)
+ */
+async function runLoadTestCommand(
+  context: vscode.ExtensionContext,
+  uri?: vscode.Uri,
+  startLine?: number,
+  endLine?: number,
+  sectionTitle?: string,
+  presetOptions?: HttpLoadTestOptions
+): Promise<void> {
+  const requestUri = uri ?? vscode.window.activeTextEditor?.document.uri;
+  if (!requestUri) {
+    vscode.window.showErrorMessage('No file selected');
+    return;
+  }
+  const document = await vscode.workspace.openTextDocument(requestUri);
+  if (startLine === undefined || endLine === undefined) {
+    const cursorLine = vscode.window.activeTextEditor?.document.uri.toString() === requestUri.toString()
+      ? vscode.window.activeTextEditor.selection.active.line
+      : 0;
+    const blocks = getHttpRequestBlocks(document);
+    const block = blocks.find((b) => cursorLine >= b.startLine && cursorLine <= b.endLine) ?? blocks[0];
+    if (!block) {
+      vscode.window.showErrorMessage('No HTTP request found in this file.');
+      return;
+    }
+    startLine = block.startLine;
+    endLine = block.endLine;
+    sectionTitle = block.title;
+  }
+
+  const options =
+    presetOptions && !validateLoadTestOptions(presetOptions)
+      ? presetOptions
+      : await promptLoadTestOptions(context.workspaceState.get<HttpLoadTestOptions>(LAST_OPTIONS_KEY));
+  if (!options) {
+    return;
+  }
+  const invalid = validateLoadTestOptions(options);
+  if (invalid) {
+    vscode.window.showErrorMessage(invalid);
+    return;
+  }
+  await context.workspaceState.update(LAST_OPTIONS_KEY, options);
+
+  const blockStart = startLine;
+  const blockEnd = endLine;
+  let report: Awaited<ReturnType<typeof runHttpLoadTest>>;
+  try {
+    report = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Load test${sectionTitle ? `: ${sectionTitle}` : ''}`,
+        cancellable: true,
+      },
+      (progress, token) => {
+        let reportedPercent = 0;
+        const controller = new AbortController();
+        token.onCancellationRequested(() => controller.abort());
+        return runHttpLoadTest(document, blockStart, blockEnd, options, {
+          signal: controller.signal,
+          onProgress: (completed) => {
+            if (options.totalRequests === undefined) {
+              progress.report({ message: `${completed} requests` });
+              return;
+            }
+            const percent = Math.floor((completed / options.totalRequests) * 100);
+            if (percent > reportedPercent) {
+              progress.report({ increment: percent - reportedPercent, message: `${completed}/${options.totalRequests} requests` });
+              reportedPercent = percent;
+            }
+          },
+        });
+      }
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage(`Load test failed: ${error instanceof Error ? error.message : String(error)}`);
+    return;
+  }
+  if (!report) {
+    return;
+  }
+
+  HttpLoadTestPanel.show(
+    buildHttpResponsePanelKey(requestUri, blockStart, blockEnd, sectionTitle),
+    report,
+    { requestUri, startLine: blockStart, endLine: blockEnd, sectionTitle }
+  );
+  const summary = `Load test: ${describeLoadTestReport(report)}`;
+  if (report.errors > 0 || report.assertionFailedRequests > 0) {
+    vscode.window.showWarningMessage(summary);
+  } else {
+    vscode.window.showInformationMessage(summary);
+  }
+}
+
+/**
+ * Registers the command behind the Run Load Test CodeLens.
+ */
+export function registerHttpLoadTestCommands(context: vscode.ExtensionContext): void {
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      'cursor-toys.runHttpLoadTest',
+      (uri?: vscode.Uri, startLine?: number, endLine?: number, sectionTitle?: string, options?: HttpLoadTestOptions) =>
+        runLoadTestCommand(
+          context,
+          uri instanceof vscode.Uri ? uri : undefined,
+          startLine,
+          endLine,
+          sectionTitle,
+          options
+        )
+    )
+  );
+}
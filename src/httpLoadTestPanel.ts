@@ -0,0 +1,218 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import type { HttpLoadTestReport } from './httpLoadTest';
+import type { HttpResendContext } from './httpResponsePanel';
+import { HttpSecretStore } from './httpSecretStore';
+import {
+  buildPanelHeader,
+  buildWebviewDocument,
+  configurePanelWebview,
+  escapeWebviewHtml,
+  getExtensionUri,
+} from './webviewUi';
+
+const HTTP_LOAD_TEST_STYLES = `
+  .load-body { padding: 12px 14px 16px; }
+  .toolbar { display: flex; align-items: center; gap: 8px; margin-bottom: 12px; }
+  .load-stats { display: grid; grid-template-columns: repeat(auto-fill, minmax(120px, 1fr)); gap: 8px; margin-bottom: 16px; }
+  .load-stat { border: 1px solid var(--ct-hair); border-radius: 8px; padding: 8px 10px; }
+  .load-stat .label { font-size: 10px; font-family: var(--ct-mono); letter-spacing: 0.08em; text-transform: uppercase; color: var(--ct-mute2); }
+  .load-stat .value { font-size: 18px; font-weight: 600; margin-top: 2px; }
+  .load-stat.bad .value { color: var(--ct-error); }
+  section { margin-bottom: 16px; }
+  section h2 { font-size: 11px; font-family: var(--ct-mono); letter-spacing: 0.1em; text-transform: uppercase; color: var(--ct-mute2); margin: 0 0 8px; }
+  .bar-row { display: grid; grid-template-columns: 140px 1fr 70px; gap: 10px; align-items: center; padding: 3px 0; font-size: 12px; }
+  .bar-track { position: relative; height: 10px; border-radius: 5px; background: var(--ct-hair-soft); }
+  .bar { position: absolute; left: 0; top: 0; bottom: 0; border-radius: 5px; background: var(--ct-accent); min-width: 2px; }
+  .bar.fail { background: var(--ct-error); }
+  .bar-value { text-align: right; font-family: var(--ct-mono); color: var(--ct-mute); }
+`;
+
+/**
+ * Webview report of a load test (one panel per request block), with Run again and JSON export.
+ */
+export class HttpLoadTestPanel {
+  private static readonly panels = new Map<string, HttpLoadTestPanel>();
+
+  static show(key: string, report: HttpLoadTestReport, context: HttpResendContext): void {
+    report = HttpSecretStore.getInstance().maskDeep(report);
+    const existing = HttpLoadTestPanel.panels.get(key);
+    if (existing) {
+      existing.report = report;
+      existing.context = context;
+      existing.render();
+      existing.panel.reveal(vscode.ViewColumn.Beside, true);
+      return;
+    }
+    HttpLoadTestPanel.panels.set(key, new HttpLoadTestPanel(key, report, context));
+  }
+
+  private readonly panel: vscode.WebviewPanel;
+
+  private constructor(
+    private readonly key: string,
+    private report: HttpLoadTestReport,
+    private context: HttpResendContext
+  ) {
+    this.panel = vscode.window.createWebviewPanel(
+      'cursorToys.httpLoadTest',
+      'Load Test',
+      { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+      { enableScripts: true, retainContextWhenHidden: true }
+    );
+    const extensionUri = getExtensionUri();
+    if (extensionUri) {
+      configurePanelWebview(this.panel.webview, extensionUri);
+    }
+    this.panel.onDidDispose(() => HttpLoadTestPanel.panels.delete(this.key));
+    this.panel.webview.onDidReceiveMessage(async (msg: { command?: string }) => {
+      if (msg.command === 'export') {
+        await this.exportJson();
+        return;
+      }
+      if (msg.command === 'rerun') {
+        const { requestUri, startLine, endLine, sectionTitle } = this.context;
+        await vscode.commands.executeCommand(
+          'cursor-toys.runHttpLoadTest',
+          requestUri,
+          startLine,
+          endLine,
+          sectionTitle,
+          this.report.options
+        );
+      }
+    });
+    this.render();
+  }
+
+  private async exportJson(): Promise<void> {
+    const requestFile = this.context.requestUri.fsPath;
+    const stamp = this.report.startedAt.replace(/[:.]/g, '-');
+    const target = await vscode.window.showSaveDialog({
+      title: 'Export Load Test Report',
+      defaultUri: vscode.Uri.file(
+        path.join(path.dirname(requestFile), `${path.parse(requestFile).name}.load-test-${stamp}.json`)
+      ),
+      filters: { JSON: ['json'] },
+    });
+    if (!target) {
+      return;
+    }
+    try {
+      await vscode.workspace.fs.writeFile(target, Buffer.from(`${JSON.stringify(this.report, null, 2)}\n`, 'utf8'));
+      vscode.window.showInformationMessage(`Load test report saved to ${path.basename(target.fsPath)}.`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      vscode.window.showErrorMessage(`Could not save the load test report: ${message}`);
+    }
+  }
+
+  private render(): void {
+    const title = this.context.sectionTitle ?? this.report.requestLabel;
+    this.panel.title = `Load Test · ${title.length > 40 ? `${title.slice(0, 39)}…` : title}`;
+    this.panel.webview.html = buildHtml(this.report, this.panel.webview);
+  }
+}
+
+function buildBars(rows: Array<{ label: string; count: number; fail?: boolean }>, total: number): string {
+  const scale = Math.max(1, ...rows.map((row) => row.count));
+  return rows
+    .map(
+      (row) =>
+        `<div class="bar-row"><span>${escapeWebviewHtml(row.label)}</span>` +
+        `<span class="bar-track"><span class="bar${row.fail ? ' fail' : ''}" style="width:${((row.count / scale) * 100).toFixed(2)}%"></span></span>` +
+        `<span class="bar-value">${row.count}${total > 0 ? ` · ${Math.round((row.count / total) * 100)}%` : ''}</span></div>`
+    )
+    .join('');
+}
+
+function buildStat(label: string, value: string, bad = false): string {
+  return `<div class="load-stat${bad ? ' bad' : ''}"><div class="label">${escapeWebviewHtml(label)}</div><div class="value">${escapeWebviewHtml(value)}</div></div>`;
+}
+
+function buildHtml(report: HttpLoadTestReport, webview: vscode.Webview): string {
+  const { options, latency } = report;
+  const limit = options.totalRequests !== undefined ? `${options.totalRequests} requests` : `${options.durationSeconds}s`;
+  const env = report.envName ? ` · env: ${escapeWebviewHtml(report.envName)}` : '';
+  const cancelled = report.cancelled ? ' · cancelled' : '';
+
+  const stats =
+    buildStat('Requests', String(report.requests)) +
+    buildStat('Throughput', `${report.throughput} req/s`) +
+    buildStat('Error rate', `${(report.errorRate * 100).toFixed(1)}%`, report.errors > 0) +
+    buildStat('Assertion failures', String(report.assertionFailedRequests), report.assertionFailedRequests > 0) +
+    buildStat('p50', `${latency.p50} ms`) +
+    buildStat('p90', `${latency.p90} ms`) +
+    buildStat('p99', `${latency.p99} ms`) +
+    buildStat('Min / mean / max', `${latency.min} / ${latency.mean} / ${latency.max} ms`);
+
+  const statusSection =
+    `<section><h2>Status codes</h2>` +
+    (report.statusCodes.length > 0
+      ? buildBars(
+          report.statusCodes.map(({ status, count }) => ({
+            label: status === 'error' ? 'No response' : status,
+            count,
+            fail: status === 'error' || Number(status) >= 400,
+          })),
+          report.requests
+        )
+      : '<p class="empty-state">No requests were sent.</p>') +
+    `</section>`;
+  const latencySection =
+    report.latencyHistogram.length > 0
+      ? `<section><h2>Latency</h2>${buildBars(
+          report.latencyHistogram.map((bucket) => ({ label: `${bucket.fromMs}–${bucket.toMs} ms`, count: bucket.count })),
+          report.requests
+        )}</section>`
+      : '';
+  const assertionSection =
+    report.assertionFailures.length > 0
+      ? `<section><h2>Assertion failures</h2>${buildBars(
+          report.assertionFailures.map(({ description, count }) => ({ label: description, count, fail: true })),
+          report.requests
+        )}</section>`
+      : '';
+  const errorSection =
+    report.errorMessages.length > 0
+      ? `<section><h2>Errors</h2>${buildBars(
+          report.errorMessages.map(({ message, count }) => ({ label: message, count, fail: true })),
+          report.requests
+        )}</section>`
+      : '';
+
+  const body =
+    buildPanelHeader({ title: 'CursorToys', subtitle: 'HTTP load test' }) +
+    `<div class="load-body fade-in">` +
+    `<div class="toolbar">` +
+    `<span class="hint">${escapeWebviewHtml(report.requestLabel)} · ${options.concurrency} concurrent · ${limit}` +
+    ` · ramp-up ${options.rampUpSeconds}s · ${(report.elapsedMs / 1000).toFixed(1)}s${env}${cancelled}</span>` +
+    `<span class="ct-spacer"></span>` +
+    `<button type="button" id="rerunBtn" class="ct-btn primary">Run again</button>` +
+    `<button type="button" id="exportBtn" class="ct-btn secondary">Export JSON</button>` +
+    `</div>` +
+    `<div class="load-stats">${stats}</div>` +
+    statusSection +
+    latencySection +
+    assertionSection +
+    errorSection +
+    `</div>`;
+
+  const scripts = `
+    const vscode = acquireVsCodeApi();
+    document.getElementById('rerunBtn')?.addEventListener('click', () => vscode.postMessage({ command: 'rerun' }));
+    document.getElementById('exportBtn')?.addEventListener('click', () => vscode.postMessage({ command: 'export' }));`;
+
+  const extensionUri = getExtensionUri();
+  if (!extensionUri) {
+    return `<!DOCTYPE html><html><body>${body}<script>${scripts}</script></body></html>`;
+  }
+  return buildWebviewDocument({
+    webview,
+    extensionUri,
+    title: 'HTTP Load Test',
+    body,
+    extraStyles: HTTP_LOAD_TEST_STYLES,
+    scripts,
+  });
+}
@@ -0,0 +1,340 @@
+import * as assert from 'assert';
+import {
+  buildMockRoute,
+  compileMockRoutePath,
+  fillMockTemplate,
+  findMockExample,
+  HttpMockServer,
+  matchMockRoute,
+  mockCorsHeaders,
+  parseMockLine,
+  parseResponseSidecar,
+  sortMockRoutes,
+  toMockRoutePath,
+  type HttpMockLogEntry,
+  type HttpMockRoute,
+} from './httpMockServer';
+import { executeNodeHttpRequest } from './httpNodeEngine';
+
+const USERS_FILE = [
+  '### List users',
+  'GET {{baseUrl}}/users?page=1',
+  '',
+  '### Get user',
+  '# @mock status=200 delay=20',
+  '# Content-Type: application/json',
+  '# X-Mock: yes',
+  '#',
+  '# {',
+  '#   "id": "{{params.id}}",',
+  '#   "page": "{{query.page}}"',
+  '# }',
+  'GET {{baseUrl}}/users/{{id}}',
+  '',
+  '### Current user',
+  'GET https://api.example.com/users/me',
+  '',
+  '### Delete user',
+  '# @mock status=204',
+  'DELETE {{baseUrl}}/users/:id',
+  '',
+  '### Stream',
+  'SSE {{baseUrl}}/events',
+];
+
+const SIDECAR = [
+  '=== REQUEST PAYLOAD ===',
+  '{"q": 1}',
+  '',
+  '=== RESPONSE ===',
+  'HTTP/1.1 200 OK',
+  'Content-Type: application/json',
+  'Content-Length: 999',
+  'Access-Control-Allow-Origin: https://app.example.com',
+  'ETag: "abc"',
+  '',
+  '[',
+  '  {',
+  '    "id": 1',
+  '  }',
+  ']',
+  '',
+  '=== TIMING ===',
+  'Total: 12 ms',
+  '',
+  '=== ASSERTIONS ===',
+  '✓ res.status equals 200',
+].join('\n');
+
+async function runTests(): Promise<void> {
+  testParseMockLine();
+  testFindMockExample();
+  testParseResponseSidecar();
+  testRoutePaths();
+  testBuildMockRoute();
+  testMatchMockRoute();
+  testFillMockTemplate();
+  testMockCorsHeaders();
+  await testServer();
+  await testInvalidResponseHead();
+  console.log('All httpMockServer tests passed.');
+}
+
+function testParseMockLine(): void {
+  assert.deepStrictEqual(parseMockLine('# @mock'), {});
+  assert.deepStrictEqual(parseMockLine('# @mock status=404 delay=250'), { status: 404, delayMs: 250 });
+  assert.deepStrictEqual(parseMockLine('#@mock delay=1.5s'), { delayMs: 1500 });
+  assert.deepStrictEqual(parseMockLine('# @mock status=99 delay=soon'), { status: undefined, delayMs: undefined });
+  assert.strictEqual(parseMockLine('# @mocked'), null);
+  assert.strictEqual(parseMockLine('# @name mock'), null);
+}
+
+function testFindMockExample(): void {
+  const example = findMockExample(USERS_FILE, 3, 13);
+  assert.deepStrictEqual(example, {
+    directive: { status: 200, delayMs: 20 },
+    headers: { 'Content-Type': 'application/json', 'X-Mock': 'yes' },
+    body: '{\n  "id": "{{params.id}}",\n  "page": "{{query.page}}"\n}',
+  });
+  // Directive only
+  assert.deepStrictEqual(findMockExample(USERS_FILE, 17, 20), { directive: { status: 204 }, headers: {} });
+  assert.strictEqual(findMockExample(USERS_FILE, 0, 2), null);
+  // Above the block, body without headers
+  const above = ['# @mock', '# plain text', 'GET /ping'];
+  assert.deepStrictEqual(findMockExample(above, 2, 2), { directive: {}, headers: {}, body: 'plain text' });
+}
+
+function testParseResponseSidecar(): void {
+  assert.deepStrictEqual(parseResponseSidecar(SIDECAR), {
+    status: 200,
+    statusText: 'OK',
+    headers: { 'Content-Type': 'application/json', ETag: '"abc"' },
+    body: '[\n  {\n    "id": 1\n  }\n]',
+  });
+  assert.deepStrictEqual(parseResponseSidecar('HTTP/1.1 404 Not Found\r\nX-A: 1\r\n\r\nmissing\n\n=== REDIRECTS ===\n'), {
+    status: 404,
+    statusText: 'Not Found',
+    headers: { 'X-A': '1' },
+    body: 'missing',
+  });
+  assert.deepStrictEqual(parseResponseSidecar('HTTP/1.1 204 No Content\n'), {
+    status: 204,
+    statusText: 'No Content',
+    headers: {},
+    body: '',
+  });
+  // Failed requests and other content
+  assert.strictEqual(parseResponseSidecar('HTTP/1.1 0 Error\n\nECONNREFUSED'), null);
+  assert.strictEqual(parseResponseSidecar('Dataset ./users.csv: 1/2 rows passed'), null);
+}
+
+function testRoutePaths(): void {
+  assert.strictEqual(toMockRoutePath('{{baseUrl}}/users/{{id}}?expand=1'), '/users/{{id}}');
+  assert.strictEqual(toMockRoutePath('https://api.example.com:8443/v1/items/'), '/v1/items');
+  assert.strictEqual(toMockRoutePath('http://localhost'), '/');
+  assert.strictEqual(toMockRoutePath('{{host}}'), '/');
+  assert.strictEqual(toMockRoutePath('/health#top'), '/health');
+  assert.strictEqual(toMockRoutePath('{{proto}}://{{host}}/a'), '/{{proto}}://{{host}}/a');
+
+  const compiled = compileMockRoutePath('/orgs/{org}/users/{{ userId }}/files/:name.json');
+  assert.deepStrictEqual(compiled.params, ['org', 'userId', 'name']);
+  assert.ok(compiled.pattern.test('/orgs/acme/users/42/files/report.json'));
+  assert.ok(compiled.pattern.test('/orgs/acme/users/42/files/report.json/'));
+  assert.ok(!compiled.pattern.test('/orgs/acme/users/42/files/report.xml'));
+  assert.ok(!compiled.pattern.test('/orgs/acme/users/4/2/files/report.json'));
+  assert.deepStrictEqual(compileMockRoutePath('/v{{version}}/ping').params, ['version']);
+}
+
+function routesOf(lines: string[], sidecars: Record<number, string> = {}): HttpMockRoute[] {
+  const blocks = [
+    { title: 'List users', startLine: 0, endLine: 2 },
+    { title: 'Get user', startLine: 3, endLine: 13 },
+    { title: 'Current user', startLine: 14, endLine: 16 },
+    { title: 'Delete user', startLine: 17, endLine: 20 },
+    { title: 'Stream', startLine: 21, endLine: 22 },
+  ];
+  return blocks
+    .map((block, i) => buildMockRoute({ file: 'users.req', lines, ...block, sidecar: sidecars[i] }))
+    .filter((route): route is HttpMockRoute => route !== null);
+}
+
+function testBuildMockRoute(): void {
+  const routes = routesOf(USERS_FILE, { 0: SIDECAR });
+  assert.deepStrictEqual(
+    routes.map((r) => [r.method, r.path, r.source, r.response.status, r.line, r.delayMs]),
+    [
+      ['GET', '/users', 'sidecar', 200, 1, undefined],
+      ['GET', '/users/{{id}}', 'example', 200, 12, 20],
+      ['GET', '/users/me', 'none', 501, 15, undefined],
+      ['DELETE', '/users/:id', 'directive', 204, 19, undefined],
+    ]
+  );
+  assert.match(routes[2].response.body, /No saved response for GET \/users\/me/);
+  assert.strictEqual(routes[1].title, 'Get user');
+  assert.strictEqual(routes[1].file, 'users.req');
+
+  // The directive's status overrides the sidecar's
+  const overridden = buildMockRoute({
+    file: 'a.req',
+    title: 'a',
+    lines: ['# @mock status=503', 'GET {{baseUrl}}/a'],
+    startLine: 0,
+    endLine: 1,
+    sidecar: SIDECAR,
+  });
+  assert.strictEqual(overridden?.source, 'sidecar');
+  assert.strictEqual(overridden?.response.status, 503);
+  assert.strictEqual(overridden?.response.statusText, undefined);
+}
+
+function testMatchMockRoute(): void {
+  const routes = sortMockRoutes(routesOf(USERS_FILE));
+  assert.deepStrictEqual(
+    routes.map((r) => `${r.method} ${r.path}`),
+    ['GET /users/me', 'GET /users', 'GET /users/{{id}}', 'DELETE /users/:id']
+  );
+  const me = matchMockRoute(routes, 'GET', '/users/me');
+  assert.ok(me && 'route' in me && me.route.title === 'Current user');
+  const user = matchMockRoute(routes, 'get', '/users/a%20b');
+  assert.ok(user && 'route' in user);
+  assert.deepStrictEqual(user.params, { id: 'a b' });
+  const head = matchMockRoute(routes, 'HEAD', '/users');
+  assert.ok(head && 'route' in head && head.route.title === 'List users');
+  assert.deepStrictEqual(matchMockRoute(routes, 'PUT', '/users/7'), { allowed: ['GET', 'DELETE'] });
+  assert.strictEqual(matchMockRoute(routes, 'GET', '/orders'), null);
+}
+
+function testFillMockTemplate(): void {
+  assert.strictEqual(
+    fillMockTemplate('{{params.id}}/{{ query.page }}/{{query.missing}}/{{baseUrl}}', { id: '7' }, new URLSearchParams('page=2')),
+    '7/2/{{query.missing}}/{{baseUrl}}'
+  );
+}
+
+function testMockCorsHeaders(): void {
+  assert.deepStrictEqual(mockCorsHeaders('http://evil.test', []), {});
+  assert.deepStrictEqual(mockCorsHeaders(undefined, ['*']), {});
+  assert.deepStrictEqual(mockCorsHeaders('http://localhost:3000', ['http://localhost:3000', '*']), {
+    'Access-Control-Allow-Origin': 'http://localhost:3000',
+    'Access-Control-Allow-Credentials': 'true',
+    'Access-Control-Expose-Headers': '*',
+    Vary: 'Origin',
+  });
+  // A wildcard never comes with credentials
+  assert.deepStrictEqual(mockCorsHeaders('http://evil.test', ['http://localhost:3000', '*']), {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Expose-Headers': '*',
+  });
+}
+
+async function testServer(): Promise<void> {
+  const log: HttpMockLogEntry[] = [];
+  const server = new HttpMockServer({ corsOrigins: ['http://localhost:3000'], onRequest: (entry) => log.push(entry) });
+  server.setRoutes(routesOf(USERS_FILE, { 0: SIDECAR }));
+  const port = await server.start(0);
+  assert.strictEqual(server.isRunning, true);
+  const base = `http://127.0.0.1:${port}`;
+  const header = (headers: Record<string, string>, name: string) =>
+    Object.entries(headers).find(([key]) => key.toLowerCase() === name)?.[1];
+  const send = (method: string, path: string, headers: Record<string, string> = {}) =>
+    executeNodeHttpRequest({ method, url: `${base}${path}`, headers }, { timeoutSeconds: 5, maxRedirects: 0 });
+
+  try {
+    const list = await send('GET', '/users', { Origin: 'http://localhost:3000' });
+    assert.strictEqual(list.statusCode, 200);
+    assert.deepStrictEqual(JSON.parse(list.body), [{ id: 1 }]);
+    assert.strictEqual(header(list.headers, 'etag'), '"abc"');
+    assert.strictEqual(header(list.headers, 'access-control-allow-origin'), 'http://localhost:3000');
+    assert.strictEqual(header(list.headers, 'access-control-allow-credentials'), 'true');
+    const foreign = await send('GET', '/users', { Origin: 'http://evil.test' });
+    assert.strictEqual(header(foreign.headers, 'access-control-allow-origin'), undefined);
+    assert.strictEqual(header(foreign.headers, 'access-control-allow-credentials'), undefined);
+
+    const started = Date.now();
+    const user = await send('GET', '/users/42?page=3');
+    assert.ok(Date.now() - started >= 15);
+    assert.strictEqual(user.statusCode, 200);
+    assert.strictEqual(header(user.headers, 'x-mock'), 'yes');
+    assert.deepStrictEqual(JSON.parse(user.body), { id: '42', page: '3' });
+
+    assert.strictEqual((await send('DELETE', '/users/42')).statusCode, 204);
+    assert.strictEqual((await send('GET', '/users/me')).statusCode, 501);
+    assert.strictEqual((await send('GET', '/nope')).statusCode, 404);
+    const notAllowed = await send('PATCH', '/users/42');
+    assert.strictEqual(notAllowed.statusCode, 405);
+    assert.strictEqual(header(notAllowed.headers, 'allow'), 'GET, DELETE');
+
+    const preflight = await send('OPTIONS', '/users/42', {
+      Origin: 'http://localhost:3000',
+      'Access-Control-Request-Headers': 'authorization',
+    });
+    assert.strictEqual(preflight.statusCode, 204);
+    assert.strictEqual(header(preflight.headers, 'access-control-allow-headers'), 'authorization');
+    assert.strictEqual(header(preflight.headers, 'access-control-allow-methods'), 'GET, DELETE');
+    const foreignPreflight = await send('OPTIONS', '/users/42', { Origin: 'http://evil.test' });
+    assert.strictEqual(foreignPreflight.statusCode, 204);
+    assert.strictEqual(header(foreignPreflight.headers, 'allow'), 'GET, DELETE');
+    assert.strictEqual(header(foreignPreflight.headers, 'access-control-allow-methods'), undefined);
+
+    const overridden = await send('GET', '/users?__status=500&__delay=0');
+    assert.strictEqual(overridden.statusCode, 500);
+    assert.strictEqual((await send('GET', '/users', { 'X-Mock-Status': '418' })).statusCode, 418);
+
+    const head = await send('HEAD', '/users');
+    assert.strictEqual(head.statusCode, 200);
+    assert.strictEqual(head.body, '');
+
+    assert.strictEqual(log.length, 12);
+    assert.deepStrictEqual(
+      { method: log[2].method, url: log[2].url, status: log[2].status, delayMs: log[2].delayMs, route: log[2].route, params: log[2].params },
+      { method: 'GET', url: '/users/42?page=3', status: 200, delayMs: 20, route: 'users.req › Get user', params: { id: '42' } }
+    );
+    assert.strictEqual(log[5].route, undefined);
+  } finally {
+    await server.stop();
+  }
+  assert.strictEqual(server.isRunning, false);
+  await assert.rejects(
+    executeNodeHttpRequest({ method: 'GET', url: `${base}/users` }, { timeoutSeconds: 2, maxRedirects: 0 }).then((r) => {
+      if (r.statusCode === 0) {
+        throw new Error(r.error || r.statusText);
+      }
+    })
+  );
+}
+
+async function testInvalidResponseHead(): Promise<void> {
+  const route = (path: string, response: HttpMockRoute['response']): HttpMockRoute => ({
+    method: 'GET',
+    path,
+    ...compileMockRoutePath(path),
+    file: 'bad.req',
+    title: path,
+    line: 0,
+    source: 'directive',
+    response,
+    delayMs: 5,
+  });
+  const server = new HttpMockServer();
+  server.setRoutes([
+    route('/header', { status: 200, headers: { 'X-Bad': 'a\u0001b' }, body: 'x' }),
+    route('/name', { status: 200, headers: { 'Bad Name': 'x' }, body: 'x' }),
+    route('/status', { status: 200, statusText: 'OK\r\nX-Injected: 1', headers: {}, body: 'x' }),
+  ]);
+  const port = await server.start(0);
+  try {
+    for (const path of ['/header', '/name', '/status']) {
+      const result = await executeNodeHttpRequest({ method: 'GET', url: `http://127.0.0.1:${port}${path}` }, { timeoutSeconds: 5, maxRedirects: 0 });
+      assert.strictEqual(result.statusCode, 500, path);
+      assert.match(JSON.parse(result.body).error, new RegExp(`Invalid mock response for bad\\.req › ${path}`));
+    }
+    assert.strictEqual(server.isRunning, true);
+  } finally {
+    await server.stop();
+  }
+}
+
+runTests().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
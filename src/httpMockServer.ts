@@ -0,0 +1,607 @@
+/**
+ * Local mock server for a folder of request files: each block's method and URL path becomes
+ * a route, answered with the block's saved response sidecar or its `# @mock` example.
+ * Pure helpers — no VS Code dependencies.
+ */
+import * as http from 'http';
+import type { AddressInfo, Socket } from 'net';
+import { parseHttpRequest } from './httpRequestParse';
+
+const MOCK_LINE_RE = /^#\s*@mock(?:\s+(.*))?$/i;
+const METHOD_LINE_RE = /^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS|GRAPHQL|WSS|WS|SSE)\s+\S/i;
+const HEADER_LINE_RE = /^([A-Za-z0-9!#$%&'*+.^_`|~-]+):\s*(.*)$/;
+const PARAM_RE = /\{\{\s*([^{}]+?)\s*\}\}|\{([A-Za-z_][\w-]*)\}|(?<=^|\/):([A-Za-z_][\w-]*)/g;
+const TEMPLATE_RE = /\{\{\s*(params|query)\.([\w-]+)\s*\}\}/g;
+
+/** Sidecar sections appended after the body by formatHttpResponse */
+const SIDECAR_TRAILERS = ['\n\n=== REDIRECTS ===', '\n\n=== TIMING ===', '\n=== ASSERTIONS ===', '\n\n# DEBUG PAYLOAD'];
+
+/** Saved headers that no longer describe the (decoded, reformatted) body */
+const DROPPED_HEADERS = new Set(['content-length', 'transfer-encoding', 'content-encoding', 'connection', 'keep-alive']);
+
+const CORS_METHODS = 'GET, POST, PUT, PATCH, DELETE, HEAD, OPTIONS';
+
+/** Options of a `# @mock status=201 delay=300` line */
+export interface HttpMockDirective {
+  status?: number;
+  /** Milliseconds */
+  delayMs?: number;
+}
+
+export interface HttpMockResponse {
+  status: number;
+  statusText?: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/** A request block as read from disk, with its sidecar text when one was saved */
+export interface HttpMockBlockSource {
+  /** Request file, relative to the served folder */
+  file: string;
+  title: string;
+  /** All lines of the request file */
+  lines: string[];
+  startLine: number;
+  endLine: number;
+  /** Content of the block's `.res` sidecar */
+  sidecar?: string;
+}
+
+export interface HttpMockRoute {
+  method: string;
+  /** Route path as written, e.g. `/users/{{id}}` */
+  path: string;
+  params: string[];
+  pattern: RegExp;
+  file: string;
+  title: string;
+  /** Zero-based line of the request line */
+  line: number;
+  /** Where the response comes from; `none` answers 501 with a hint */
+  source: 'example' | 'sidecar' | 'directive' | 'none';
+  response: HttpMockResponse;
+  /** Overrides the server's default delay */
+  delayMs?: number;
+}
+
+/** One request served by the mock server */
+export interface HttpMockLogEntry {
+  /** ISO timestamp */
+  time: string;
+  method: string;
+  /** Path and query as requested */
+  url: string;
+  status: number;
+  delayMs: number;
+  durationMs: number;
+  /** Matched route (`file › title`); undefined when nothing matched */
+  route?: string;
+  params?: Record<string, string>;
+}
+
+function parseDelay(value: string): number | undefined {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s)?$/i);
+  if (!match) {
+    return undefined;
+  }
+  const amount = Number(match[1]);
+  return Math.round(match[2]?.toLowerCase() === 's' ? amount * 1000 : amount);
+}
+
+function parseStatus(value: string): number | undefined {
+  const status = Number(value);
+  return Number.isInteger(status) && status >= 100 && status <= 599 ? status : undefined;
+}
+
+/**
+ * Parses a `# @mock [status=201] [delay=300|1.5s]` line (null otherwise)
+ */
+export function parseMockLine(line: string): HttpMockDirective | null {
+  const match = line.trim().match(MOCK_LINE_RE);
+  if (!match) {
+    return null;
+  }
+  const directive: HttpMockDirective = {};
+  for (const token of (match[1] ?? '').split(/\s+/).filter(Boolean)) {
+    const [key, value = ''] = token.split('=');
+    if (key.toLowerCase() === 'status') {
+      directive.status = parseStatus(value);
+    } else if (key.toLowerCase() === 'delay') {
+      directive.delayMs = parseDelay(value);
+    }
+  }
+  return directive;
+}
+
+/**
+ * Finds the block's `# @mock` line: inside the block before the request line, or in the
+ * comments right above it. -1 when there is none.
+ */
+function findMockLine(lines: string[], startLine: number, endLine: number): number {
+  for (let i = startLine; i <= endLine && i < lines.length; i++) {
+    const trimmed = lines[i].trim();
+    if (METHOD_LINE_RE.test(trimmed) || trimmed.toLowerCase().startsWith('curl')) {
+      break;
+    }
+    if (MOCK_LINE_RE.test(trimmed)) {
+      return i;
+    }
+  }
+  for (let i = startLine - 1; i >= 0; i--) {
+    const trimmed = lines[i].trim();
+    if (MOCK_LINE_RE.test(trimmed)) {
+      return i;
+    }
+    if (trimmed && (!trimmed.startsWith('#') || trimmed.startsWith('##'))) {
+      break;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Reads the `# @mock` line of a block and the example below it: the comment lines that
+ * follow, with optional `# Header: value` lines and a `#` line before the body.
+ */
+export function findMockExample(
+  lines: string[],
+  startLine: number,
+  endLine: number
+): { directive: HttpMockDirective; headers: Record<string, string>; body?: string } | null {
+  const mockLine = findMockLine(lines, startLine, endLine);
+  if (mockLine < 0) {
+    return null;
+  }
+  const directive = parseMockLine(lines[mockLine]) ?? {};
+  const example: string[] = [];
+  for (let i = mockLine + 1; i < lines.length; i++) {
+    const trimmed = lines[i].trim();
+    if (!trimmed.startsWith('#') || trimmed.startsWith('##') || /^#\s*@/.test(trimmed)) {
+      break;
+    }
+    example.push(lines[i].replace(/^\s*#\s?/, '').replace(/\r$/, ''));
+  }
+  while (example.length > 0 && !example[example.length - 1].trim()) {
+    example.pop();
+  }
+
+  const headers: Record<string, string> = {};
+  const blank = example.findIndex((line) => !line.trim());
+  if (blank > 0 && example.slice(0, blank).every((line) => HEADER_LINE_RE.test(line))) {
+    for (const line of example.slice(0, blank)) {
+      const [, name, value] = line.match(HEADER_LINE_RE) as RegExpMatchArray;
+      headers[name] = value.trim();
+    }
+    example.splice(0, blank + 1);
+  }
+  const body = example.join('\n');
+  return body.trim() ? { directive, headers, body } : { directive, headers };
+}
+
+/**
+ * Parses a response sidecar written by Send Request (`HTTP/1.1 200 OK`, headers, blank line,
+ * body). Null for failed requests and other content.
+ */
+export function parseResponseSidecar(text: string): HttpMockResponse | null {
+  let source = text.replace(/\r\n/g, '\n');
+  const responseMarker = '=== RESPONSE ===\n';
+  if (source.startsWith('=== REQUEST PAYLOAD ===') && source.includes(responseMarker)) {
+    source = source.slice(source.indexOf(responseMarker) + responseMarker.length);
+  }
+  const statusLine = source.match(/^HTTP\/[\d.]+ (\d{3})(?: ([^\n]*))?\n/);
+  const status = statusLine ? parseStatus(statusLine[1]) : undefined;
+  if (!statusLine || status === undefined) {
+    return null;
+  }
+
+  const rest = source.slice(statusLine[0].length);
+  const headerEnd = rest.indexOf('\n\n');
+  const headerLines = (headerEnd >= 0 ? rest.slice(0, headerEnd) : rest).split('\n');
+  const headers: Record<string, string> = {};
+  for (const line of headerLines) {
+    const header = line.match(HEADER_LINE_RE);
+    const name = header?.[1].toLowerCase();
+    if (header && name && !DROPPED_HEADERS.has(name) && !name.startsWith('access-control-')) {
+      headers[header[1]] = header[2];
+    }
+  }
+
+  let body = headerEnd >= 0 ? rest.slice(headerEnd + 2) : '';
+  for (const trailer of SIDECAR_TRAILERS) {
+    const at = body.indexOf(trailer);
+    if (at >= 0) {
+      body = body.slice(0, at);
+    }
+  }
+  return { status, statusText: statusLine[2]?.trim() || undefined, headers, body };
+}
+
+/**
+ * Path part of a request URL: drops the scheme and host, or a leading `{{baseUrl}}`-style
+ * variable, and the query string
+ */
+export function toMockRoutePath(url: string): string {
+  let rest = url.trim().replace(/[?#].*$/, '');
+  const absolute = rest.match(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i);
+  if (absolute) {
+    rest = rest.slice(absolute[0].length);
+  } else {
+    const base = rest.match(/^\{\{[^{}]+\}\}/);
+    if (base && (rest.length === base[0].length || rest[base[0].length] === '/')) {
+      rest = rest.slice(base[0].length);
+    }
+  }
+  const path = `/${rest.replace(/^\/+/, '')}`;
+  return path.length > 1 ? path.replace(/\/+$/, '') : path;
+}
+
+/**
+ * Compiles a route path; `{{id}}`, `{id}` and `:id` segments (or parts of segments) are parameters
+ */
+export function compileMockRoutePath(path: string): { pattern: RegExp; params: string[] } {
+  const params: string[] = [];
+  let source = '';
+  let last = 0;
+  for (const match of path.matchAll(PARAM_RE)) {
+    source += escapeRegExp(path.slice(last, match.index));
+    source += '([^/]+)';
+    params.push((match[1] ?? match[2] ?? match[3]).trim());
+    last = (match.index ?? 0) + match[0].length;
+  }
+  source += escapeRegExp(path.slice(last));
+  return { pattern: new RegExp(`^${source}/?$`, 'i'), params };
+}
+
+/**
+ * Merges header sets; later names replace earlier ones case-insensitively
+ */
+function mergeHeaders(...sets: Array<Record<string, string>>): Record<string, string> {
+  const merged = new Map<string, [string, string]>();
+  for (const set of sets) {
+    for (const [name, value] of Object.entries(set)) {
+      merged.set(name.toLowerCase(), [name, value]);
+    }
+  }
+  return Object.fromEntries(merged.values());
+}
+
+/**
+ * Why Node would refuse to write a response (a header name or value with invalid
+ * characters, or a status text with line breaks), undefined when it can be sent
+ */
+function findInvalidResponseHead(response: HttpMockResponse): string | undefined {
+  if (response.statusText !== undefined && /[^\t\x20-\x7e\x80-\xff]/.test(response.statusText)) {
+    return 'status text has invalid characters';
+  }
+  for (const [name, value] of Object.entries(response.headers)) {
+    try {
+      http.validateHeaderName(name);
+      http.validateHeaderValue(name, value);
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * CORS headers for a request's `Origin`: none unless the allow-list has the origin. A listed
+ * origin may send credentials; `*` in the list allows any other origin without them.
+ * @param origin The request's `Origin` header
+ * @param allowedOrigins Origins as `scheme://host[:port]`, or `*`
+ */
+export function mockCorsHeaders(origin: string | undefined, allowedOrigins: string[]): Record<string, string> {
+  if (!origin) {
+    return {};
+  }
+  if (allowedOrigins.includes(origin)) {
+    return {
+      'Access-Control-Allow-Origin': origin,
+      'Access-Control-Allow-Credentials': 'true',
+      'Access-Control-Expose-Headers': '*',
+      Vary: 'Origin',
+    };
+  }
+  return allowedOrigins.includes('*')
+    ? { 'Access-Control-Allow-Origin': '*', 'Access-Control-Expose-Headers': '*' }
+    : {};
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Builds the route of a request block (null for blocks without a plain HTTP request line)
+ */
+export function buildMockRoute(block: HttpMockBlockSource): HttpMockRoute | null {
+  const requestLine = block.lines.findIndex(
+    (line, i) =>
+      i >= block.startLine && i <= block.endLine && (METHOD_LINE_RE.test(line.trim()) || /^curl\s/i.test(line.trim()))
+  );
+  if (requestLine < 0) {
+    return null;
+  }
+  const config = parseHttpRequest(block.lines.slice(requestLine, block.endLine + 1).join('\n'));
+  const method = (config?.method || 'GET').toUpperCase();
+  if (!config?.url || ['WS', 'WSS', 'SSE'].includes(method)) {
+    return null;
+  }
+  const path = toMockRoutePath(config.url);
+  const example = findMockExample(block.lines, block.startLine, block.endLine);
+  const sidecar = block.sidecar !== undefined ? parseResponseSidecar(block.sidecar) : null;
+
+  let source: HttpMockRoute['source'];
+  let response: HttpMockResponse;
+  if (example && (example.body !== undefined || Object.keys(example.headers).length > 0)) {
+    source = 'example';
+    response = { status: 200, headers: example.headers, body: example.body ?? '' };
+  } else if (sidecar) {
+    source = 'sidecar';
+    response = sidecar;
+  } else if (example) {
+    source = 'directive';
+    response = { status: 200, headers: {}, body: '' };
+  } else {
+    source = 'none';
+    response = {
+      status: 501,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        error: `No saved response for ${method} ${path}: send the request with cursorToys.httpRequestSaveFile on, or add a # @mock example.`,
+      }),
+    };
+  }
+  if (example?.directive.status !== undefined) {
+    response = { ...response, status: example.directive.status, statusText: undefined };
+  }
+
+  return {
+    method: method === 'GRAPHQL' ? 'POST' : method,
+    path,
+    ...compileMockRoutePath(path),
+    file: block.file,
+    title: block.title,
+    line: requestLine,
+    source,
+    response,
+    delayMs: example?.directive.delayMs,
+  };
+}
+
+/**
+ * Orders routes so literal paths win over parameterized ones (`/users/me` before
+ * `/users/{{id}}`); file order breaks ties
+ */
+export function sortMockRoutes(routes: HttpMockRoute[]): HttpMockRoute[] {
+  const literalLength = (route: HttpMockRoute): number => route.path.replace(PARAM_RE, '').length;
+  return routes
+    .map((route, index) => ({ route, index }))
+    .sort(
+      (a, b) =>
+        a.route.params.length - b.route.params.length ||
+        literalLength(b.route) - literalLength(a.route) ||
+        a.index - b.index
+    )
+    .map(({ route }) => route);
+}
+
+/**
+ * Finds the route for a request; HEAD requests also match GET routes.
+ * @param routes Routes in match order (see sortMockRoutes)
+ * @returns The route and its decoded path parameters, or the methods allowed on the path
+ */
+export function matchMockRoute(
+  routes: HttpMockRoute[],
+  method: string,
+  pathname: string
+): { route: HttpMockRoute; params: Record<string, string> } | { allowed: string[] } | null {
+  const upper = method.toUpperCase();
+  const allowed = new Set<string>();
+  for (const route of routes) {
+    const match = pathname.match(route.pattern);
+    if (!match) {
+      continue;
+    }
+    if (route.method === upper || (upper === 'HEAD' && route.method === 'GET')) {
+      const params: Record<string, string> = {};
+      route.params.forEach((name, i) => {
+        try {
+          params[name] = decodeURIComponent(match[i + 1]);
+        } catch {
+          params[name] = match[i + 1];
+        }
+      });
+      return { route, params };
+    }
+    allowed.add(route.method);
+  }
+  return allowed.size > 0 ? { allowed: [...allowed] } : null;
+}
+
+/**
+ * Fills `{{params.id}}` and `{{query.page}}` in an example body
+ */
+export function fillMockTemplate(text: string, params: Record<string, string>, query: URLSearchParams): string {
+  return text.replace(TEMPLATE_RE, (placeholder, scope: string, name: string) => {
+    const value = scope === 'params' ? params[name] : query.get(name);
+    return value ?? placeholder;
+  });
+}
+
+/**
+ * HTTP server answering requests from mock routes. Every response allows CORS; OPTIONS
+ * preflights without a route get 204. `?__status=` / `X-Mock-Status` and `?__delay=` /
+ * `X-Mock-Delay` override a single response.
+ */
+export class HttpMockServer {
+  private server: http.Server | undefined;
+  private readonly sockets = new Set<Socket>();
+  private readonly timers = new Set<NodeJS.Timeout>();
+  private routes: HttpMockRoute[] = [];
+
+  constructor(
+    private readonly options: {
+      defaultDelayMs?: number;
+      /** Origins answered with CORS headers (see mockCorsHeaders); none by default */
+      corsOrigins?: string[];
+      onRequest?: (entry: HttpMockLogEntry) => void;
+    } = {}
+  ) {}
+
+  get port(): number | undefined {
+    const address = this.server?.address();
+    return address && typeof address === 'object' ? (address as AddressInfo).port : undefined;
+  }
+
+  get isRunning(): boolean {
+    return this.server?.listening ?? false;
+  }
+
+  setRoutes(routes: HttpMockRoute[]): void {
+    this.routes = sortMockRoutes(routes);
+  }
+
+  getRoutes(): HttpMockRoute[] {
+    return this.routes;
+  }
+
+  /**
+   * Starts listening; resolves with the bound port (useful with port 0)
+   */
+  start(port: number, host = '127.0.0.1'): Promise<number> {
+    if (this.server) {
+      return Promise.reject(new Error('The mock server is already running.'));
+    }
+    const server = http.createServer((req, res) => this.handle(req, res));
+    server.on('connection', (socket: Socket) => {
+      this.sockets.add(socket);
+      socket.on('close', () => this.sockets.delete(socket));
+    });
+    this.server = server;
+    return new Promise<number>((resolve, reject) => {
+      server.once('error', (error) => {
+        this.server = undefined;
+        reject(error);
+      });
+      server.listen(port, host, () => resolve(this.port ?? port));
+    });
+  }
+
+  stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    for (const timer of this.timers) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    if (!server) {
+      return Promise.resolve();
+    }
+    return new Promise<void>((resolve) => {
+      server.close(() => resolve());
+      for (const socket of this.sockets) {
+        socket.destroy();
+      }
+      this.sockets.clear();
+    });
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const started = Date.now();
+    const method = (req.method || 'GET').toUpperCase();
+    const url = new URL(req.url || '/', 'http://mock.local');
+    const headerValue = (name: string): string | undefined => {
+      const value = req.headers[name];
+      return Array.isArray(value) ? value[0] : value;
+    };
+    const cors = mockCorsHeaders(headerValue('origin'), this.options.corsOrigins ?? []);
+
+    const match = matchMockRoute(this.routes, method, url.pathname);
+    let response: HttpMockResponse;
+    let delayMs = this.options.defaultDelayMs ?? 0;
+    let routeLabel: string | undefined;
+    let params: Record<string, string> | undefined;
+
+    if (match && 'route' in match) {
+      const { route } = match;
+      params = match.params;
+      routeLabel = `${route.file} › ${route.title}`;
+      delayMs = route.delayMs ?? delayMs;
+      response = {
+        ...route.response,
+        body: route.source === 'example' ? fillMockTemplate(route.response.body, params, url.searchParams) : route.response.body,
+      };
+    } else if (method === 'OPTIONS') {
+      const methods = match ? match.allowed.join(', ') : CORS_METHODS;
+      response = {
+        status: 204,
+        headers: cors['Access-Control-Allow-Origin']
+          ? {
+              Allow: methods,
+              'Access-Control-Allow-Methods': methods,
+              'Access-Control-Allow-Headers': headerValue('access-control-request-headers') ?? '*',
+              'Access-Control-Max-Age': '600',
+            }
+          : { Allow: methods },
+        body: '',
+      };
+    } else if (match) {
+      response = {
+        status: 405,
+        headers: { Allow: match.allowed.join(', '), 'Content-Type': 'application/json' },
+        body: JSON.stringify({ error: `${method} is not mocked for ${url.pathname}.`, allowed: match.allowed }),
+      };
+    } else {
+      response = {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ error: `No mock route for ${method} ${url.pathname}.` }),
+      };
+    }
+
+    const statusOverride = parseStatus(url.searchParams.get('__status') ?? headerValue('x-mock-status') ?? '');
+    if (statusOverride !== undefined) {
+      response = { ...response, status: statusOverride, statusText: undefined };
+    }
+    // Checked now, as a throw from writeHead inside the delay timer would be uncaught
+    const invalid = findInvalidResponseHead(response);
+    if (invalid) {
+      response = {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ error: `Invalid mock response for ${routeLabel ?? url.pathname}: ${invalid}` }),
+      };
+    }
+    const delayOverride = parseDelay(url.searchParams.get('__delay') ?? headerValue('x-mock-delay') ?? '');
+    if (delayOverride !== undefined) {
+      delayMs = delayOverride;
+    }
+
+    const send = (): void => {
+      this.timers.delete(timer);
+      if (res.writableEnded || res.destroyed) {
+        return;
+      }
+      const body = Buffer.from(response.body, 'utf8');
+      const headers = mergeHeaders(cors, response.headers, { 'Content-Length': String(body.length) });
+      res.writeHead(response.status, response.statusText, headers);
+      res.end(method === 'HEAD' ? undefined : body);
+      this.options.onRequest?.({
+        time: new Date(started).toISOString(),
+        method,
+        url: `${url.pathname}${url.search}`,
+        status: response.status,
+        delayMs,
+        durationMs: Date.now() - started,
+        route: routeLabel,
+        params: params && Object.keys(params).length > 0 ? params : undefined,
+      });
+    };
+    // Drain the request body before answering
+    req.resume();
+    const timer: NodeJS.Timeout = setTimeout(send, Math.min(delayMs, 60_000));
+    this.timers.add(timer);
+  }
+}
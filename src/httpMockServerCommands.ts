@@ -0,0 +1,92 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { refreshControlViewIfVisible } from './control/controlViewProvider';
+import { HttpMockServerManager } from './httpMockServerManager';
+import { HttpMockServerPanel } from './httpMockServerPanel';
+import { getHttpPath, getPersonalHttpPath } from './utils';
+
+/**
+ * Resolves the folder to serve: an Explorer folder, `personal`, a workspace path (its HTTP
+ * folder, as passed by the Control panel) or a folder picked in a dialog
+ */
+async function resolveMockFolder(target?: vscode.Uri | string): Promise<string | undefined> {
+  if (target instanceof vscode.Uri) {
+    return target.fsPath;
+  }
+  if (target === 'personal') {
+    return getPersonalHttpPath();
+  }
+  if (typeof target === 'string' && target) {
+    return getHttpPath(target);
+  }
+  const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  const selected = await vscode.window.showOpenDialog({
+    title: 'Select HTTP Request Folder to Mock',
+    canSelectFolders: true,
+    canSelectFiles: false,
+    canSelectMany: false,
+    defaultUri: workspacePath ? vscode.Uri.file(getHttpPath(workspacePath)) : undefined,
+  });
+  return selected?.[0]?.fsPath;
+}
+
+async function startMockServer(target?: vscode.Uri | string): Promise<void> {
+  const folder = await resolveMockFolder(target);
+  if (!folder) {
+    return;
+  }
+  if (!fs.existsSync(folder)) {
+    vscode.window.showErrorMessage(`HTTP folder not found: ${folder}`);
+    return;
+  }
+  try {
+    const status = await HttpMockServerManager.getInstance().start(folder);
+    refreshControlViewIfVisible();
+    const choice = await vscode.window.showInformationMessage(
+      `Mock server for ${path.basename(folder)} running at ${status.url} (${status.routes.length} routes).`,
+      'Open Log',
+      'Copy URL'
+    );
+    if (choice === 'Open Log') {
+      HttpMockServerPanel.show();
+    } else if (choice === 'Copy URL' && status.url) {
+      await vscode.env.clipboard.writeText(status.url);
+    }
+  } catch (error) {
+    refreshControlViewIfVisible();
+    const code = (error as NodeJS.ErrnoException)?.code;
+    const message =
+      code === 'EADDRINUSE'
+        ? 'the port is in use; change cursorToys.httpMockServerPort'
+        : error instanceof Error
+          ? error.message
+          : String(error);
+    vscode.window.showErrorMessage(`Could not start the mock server: ${message}`);
+  }
+}
+
+async function stopMockServer(): Promise<void> {
+  const manager = HttpMockServerManager.getInstance();
+  if (!manager.getStatus().running) {
+    vscode.window.showInformationMessage('The mock server is not running.');
+    return;
+  }
+  await manager.stop();
+  refreshControlViewIfVisible();
+  vscode.window.showInformationMessage('Mock server stopped.');
+}
+
+/**
+ * Registers the start / stop / log commands of the HTTP mock server.
+ */
+export function registerHttpMockServerCommands(context: vscode.ExtensionContext): void {
+  context.subscriptions.push(
+    vscode.commands.registerCommand('cursor-toys.startHttpMockServer', (target?: vscode.Uri | string) =>
+      startMockServer(target)
+    ),
+    vscode.commands.registerCommand('cursor-toys.stopHttpMockServer', () => stopMockServer()),
+    vscode.commands.registerCommand('cursor-toys.openHttpMockServerLog', () => HttpMockServerPanel.show()),
+    { dispose: () => HttpMockServerManager.getInstance().dispose() }
+  );
+}
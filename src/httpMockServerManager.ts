@@ -0,0 +1,200 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { debounce } from './debounce';
+import {
+  buildMockRoute,
+  HttpMockServer,
+  type HttpMockLogEntry,
+  type HttpMockRoute,
+} from './httpMockServer';
+import { getHttpRequestBlocks } from './httpRequestParser';
+import { getFileExtension, getHttpResponsePath, getHttpSectionResponsePath } from './utils';
+import { isHttpRequestExtension } from './httpRequestExtensions';
+
+/** Requests kept in the log */
+const MOCK_LOG_LIMIT = 500;
+
+export interface HttpMockServerStatus {
+  running: boolean;
+  /** Served folder */
+  folder?: string;
+  url?: string;
+  routes: HttpMockRoute[];
+  log: HttpMockLogEntry[];
+}
+
+function readTextIfExists(filePath: string): string | undefined {
+  try {
+    return fs.readFileSync(filePath, 'utf8');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The local mock server of one request folder. Routes are rebuilt when request or response
+ * files in the folder change; served requests are kept for the log panel.
+ */
+export class HttpMockServerManager {
+  private static instance: HttpMockServerManager;
+  private server: HttpMockServer | undefined;
+  private folder: string | undefined;
+  private watcher: vscode.FileSystemWatcher | undefined;
+  private log: HttpMockLogEntry[] = [];
+  private _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange = this._onDidChange.event;
+  private readonly scheduleReload = debounce(() => {
+    void this.reload();
+  }, 300);
+
+  private constructor() {}
+
+  /**
+   * Returns the singleton HttpMockServerManager instance
+   */
+  public static getInstance(): HttpMockServerManager {
+    if (!HttpMockServerManager.instance) {
+      HttpMockServerManager.instance = new HttpMockServerManager();
+    }
+    return HttpMockServerManager.instance;
+  }
+
+  public getStatus(): HttpMockServerStatus {
+    const port = this.server?.port;
+    return {
+      running: this.server?.isRunning ?? false,
+      folder: this.folder,
+      url: port !== undefined ? `http://localhost:${port}` : undefined,
+      routes: this.server?.getRoutes() ?? [],
+      log: this.log,
+    };
+  }
+
+  /**
+   * Serves the request files of a folder, replacing a server that is already running
+   * @param folder Folder holding the request files
+   * @throws When the port is taken
+   */
+  public async start(folder: string): Promise<HttpMockServerStatus> {
+    await this.stop();
+    const config = vscode.workspace.getConfiguration('cursorToys');
+    const server = new HttpMockServer({
+      defaultDelayMs: Math.max(0, config.get<number>('httpMockServerDelayMs', 0)),
+      corsOrigins: config.get<string[]>('httpMockServerCorsOrigins', []),
+      onRequest: (entry) => this.record(entry),
+    });
+    server.setRoutes(await this.loadRoutes(folder));
+    await server.start(config.get<number>('httpMockServerPort', 4010));
+
+    this.server = server;
+    this.folder = folder;
+    this.log = [];
+    this.watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(vscode.Uri.file(folder), '**/*'));
+    this.watcher.onDidChange(() => this.scheduleReload());
+    this.watcher.onDidCreate(() => this.scheduleReload());
+    this.watcher.onDidDelete(() => this.scheduleReload());
+    this._onDidChange.fire();
+    return this.getStatus();
+  }
+
+  public async stop(): Promise<void> {
+    this.watcher?.dispose();
+    this.watcher = undefined;
+    const server = this.server;
+    this.server = undefined;
+    this.folder = undefined;
+    if (server) {
+      await server.stop();
+      this._onDidChange.fire();
+    }
+  }
+
+  /**
+   * Rebuilds the routes from the files on disk
+   */
+  public async reload(): Promise<void> {
+    const { server, folder } = this;
+    if (!server || !folder) {
+      return;
+    }
+    const routes = await this.loadRoutes(folder);
+    if (this.server === server) {
+      server.setRoutes(routes);
+      this._onDidChange.fire();
+    }
+  }
+
+  public clearLog(): void {
+    this.log = [];
+    this._onDidChange.fire();
+  }
+
+  public dispose(): void {
+    void this.stop();
+    this._onDidChange.dispose();
+  }
+
+  private record(entry: HttpMockLogEntry): void {
+    this.log.push(entry);
+    if (this.log.length > MOCK_LOG_LIMIT) {
+      this.log.splice(0, this.log.length - MOCK_LOG_LIMIT);
+    }
+    this._onDidChange.fire();
+  }
+
+  private async loadRoutes(folder: string): Promise<HttpMockRoute[]> {
+    const routes: HttpMockRoute[] = [];
+    for (const filePath of listRequestFiles(folder)) {
+      let document: vscode.TextDocument;
+      try {
+        document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+      } catch {
+        continue;
+      }
+      const lines = document.getText().split('\n');
+      const file = path.relative(folder, filePath).replace(/\\/g, '/');
+      const blocks = getHttpRequestBlocks(document).filter((block) => block.kind !== 'fallback');
+      for (const block of blocks) {
+        // The file-wide sidecar only belongs to a block when it is the file's only one
+        const sidecar =
+          readTextIfExists(getHttpSectionResponsePath(filePath, block.title)) ??
+          (blocks.length === 1 ? readTextIfExists(getHttpResponsePath(filePath)) : undefined);
+        const route = buildMockRoute({
+          file,
+          title: block.title,
+          lines,
+          startLine: block.startLine,
+          endLine: block.endLine,
+          sidecar,
+        });
+        if (route) {
+          routes.push(route);
+        }
+      }
+    }
+    return routes;
+  }
+}
+
+/**
+ * Request files under a folder, in path order
+ */
+function listRequestFiles(folder: string): string[] {
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(folder, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  const files: string[] = [];
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    const fullPath = path.join(folder, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...listRequestFiles(fullPath));
+    } else if (entry.isFile() && isHttpRequestExtension(getFileExtension(entry.name))) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
@@ -0,0 +1,232 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { debounce } from './debounce';
+import type { HttpMockLogEntry, HttpMockRoute } from './httpMockServer';
+import { HttpMockServerManager, type HttpMockServerStatus } from './httpMockServerManager';
+import {
+  buildPanelHeader,
+  buildWebviewDocument,
+  configurePanelWebview,
+  escapeWebviewHtml,
+  getExtensionUri,
+} from './webviewUi';
+
+const HTTP_MOCK_SERVER_STYLES = `
+  .mock-body { padding: 12px 14px 16px; }
+  .toolbar { display: flex; align-items: center; gap: 8px; margin-bottom: 12px; }
+  section { margin-bottom: 16px; }
+  section h2 { font-size: 11px; font-family: var(--ct-mono); letter-spacing: 0.1em; text-transform: uppercase; color: var(--ct-mute2); margin: 0 0 8px; }
+  table { width: 100%; border-collapse: collapse; font-size: 12px; }
+  th { text-align: left; font-weight: 500; color: var(--ct-mute2); padding: 4px 8px; border-bottom: 1px solid var(--ct-hair); }
+  td { padding: 4px 8px; border-bottom: 1px solid var(--ct-hair-soft); vertical-align: top; }
+  td.mono { font-family: var(--ct-mono); }
+  tr.route { cursor: pointer; }
+  tr.route:hover td { background: var(--ct-row-hover); }
+  .status-ok { color: var(--ct-success); }
+  .status-fail { color: var(--ct-error); }
+  .muted { color: var(--ct-mute); }
+`;
+
+/**
+ * Webview showing the mock server's routes and a live log of the requests it served.
+ */
+export class HttpMockServerPanel {
+  private static current: HttpMockServerPanel | undefined;
+
+  static show(): void {
+    if (HttpMockServerPanel.current) {
+      HttpMockServerPanel.current.panel.reveal(vscode.ViewColumn.Beside, true);
+      HttpMockServerPanel.current.update();
+      return;
+    }
+    HttpMockServerPanel.current = new HttpMockServerPanel();
+  }
+
+  private readonly panel: vscode.WebviewPanel;
+  private readonly disposables: vscode.Disposable[] = [];
+  private lastFolder: string | undefined;
+  private readonly scheduleUpdate = debounce(() => this.update(), 150);
+
+  private constructor() {
+    this.panel = vscode.window.createWebviewPanel(
+      'cursorToys.httpMockServer',
+      'HTTP Mock Server',
+      { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+      { enableScripts: true, retainContextWhenHidden: true }
+    );
+    const extensionUri = getExtensionUri();
+    if (extensionUri) {
+      configurePanelWebview(this.panel.webview, extensionUri);
+    }
+    const manager = HttpMockServerManager.getInstance();
+    this.disposables.push(
+      manager.onDidChange(() => this.scheduleUpdate()),
+      this.panel.webview.onDidReceiveMessage((msg: { command?: string; index?: number }) => this.onMessage(msg))
+    );
+    this.panel.onDidDispose(() => {
+      HttpMockServerPanel.current = undefined;
+      this.disposables.forEach((d) => d.dispose());
+    });
+    this.panel.webview.html = buildHtml(this.panel.webview);
+    this.update();
+  }
+
+  private async onMessage(msg: { command?: string; index?: number }): Promise<void> {
+    const manager = HttpMockServerManager.getInstance();
+    if (msg.command === 'ready') {
+      this.update();
+    } else if (msg.command === 'stop') {
+      await vscode.commands.executeCommand('cursor-toys.stopHttpMockServer');
+    } else if (msg.command === 'start' && this.lastFolder) {
+      await vscode.commands.executeCommand('cursor-toys.startHttpMockServer', vscode.Uri.file(this.lastFolder));
+    } else if (msg.command === 'clear') {
+      manager.clearLog();
+    } else if (msg.command === 'copyUrl') {
+      const { url } = manager.getStatus();
+      if (url) {
+        await vscode.env.clipboard.writeText(url);
+        vscode.window.showInformationMessage(`Copied ${url}`);
+      }
+    } else if (msg.command === 'openRoute' && typeof msg.index === 'number') {
+      const { folder, routes } = manager.getStatus();
+      const route = routes[msg.index];
+      if (folder && route) {
+        const document = await vscode.workspace.openTextDocument(vscode.Uri.file(path.join(folder, route.file)));
+        const position = new vscode.Position(route.line, 0);
+        await vscode.window.showTextDocument(document, { selection: new vscode.Range(position, position) });
+      }
+    }
+  }
+
+  private update(): void {
+    const status = HttpMockServerManager.getInstance().getStatus();
+    this.lastFolder = status.folder ?? this.lastFolder;
+    void this.panel.webview.postMessage({
+      command: 'update',
+      running: status.running,
+      canStart: Boolean(this.lastFolder),
+      summary: buildSummary(status, this.lastFolder),
+      routes: buildRoutesTable(status.routes),
+      log: buildLogTable(status.log),
+    });
+  }
+}
+
+function buildSummary(status: HttpMockServerStatus, lastFolder: string | undefined): string {
+  if (!status.running) {
+    return lastFolder ? `Stopped · ${escapeWebviewHtml(path.basename(lastFolder))}` : 'Stopped';
+  }
+  return (
+    `<strong>${escapeWebviewHtml(status.url ?? '')}</strong> · ${escapeWebviewHtml(path.basename(status.folder ?? ''))}` +
+    ` · ${status.routes.length} ${status.routes.length === 1 ? 'route' : 'routes'}`
+  );
+}
+
+const SOURCE_LABELS: Record<HttpMockRoute['source'], string> = {
+  example: '@mock example',
+  sidecar: 'saved response',
+  directive: '@mock (empty body)',
+  none: 'no response (501)',
+};
+
+function buildRoutesTable(routes: HttpMockRoute[]): string {
+  if (routes.length === 0) {
+    return '<p class="empty-state">No routes. Start the server on a folder with request files.</p>';
+  }
+  const rows = routes
+    .map(
+      (route, index) =>
+        `<tr class="route" data-index="${index}">` +
+        `<td class="mono">${escapeWebviewHtml(route.method)}</td>` +
+        `<td class="mono">${escapeWebviewHtml(route.path)}</td>` +
+        `<td class="${route.response.status >= 400 ? 'status-fail' : 'status-ok'}">${route.response.status}</td>` +
+        `<td class="muted">${SOURCE_LABELS[route.source]}${route.delayMs ? ` · ${route.delayMs} ms` : ''}</td>` +
+        `<td>${escapeWebviewHtml(route.file)} › ${escapeWebviewHtml(route.title)}</td></tr>`
+    )
+    .join('');
+  return `<table><thead><tr><th>Method</th><th>Path</th><th>Status</th><th>Response</th><th>Request</th></tr></thead><tbody>${rows}</tbody></table>`;
+}
+
+function buildLogTable(log: HttpMockLogEntry[]): string {
+  if (log.length === 0) {
+    return '<p class="empty-state">No requests yet.</p>';
+  }
+  const rows = [...log]
+    .reverse()
+    .map((entry) => {
+      const params = entry.params
+        ? ` <span class="muted">${escapeWebviewHtml(
+            Object.entries(entry.params)
+              .map(([name, value]) => `${name}=${value}`)
+              .join(', ')
+          )}</span>`
+        : '';
+      return (
+        `<tr><td class="mono muted">${escapeWebviewHtml(entry.time.slice(11, 23))}</td>` +
+        `<td class="mono">${escapeWebviewHtml(entry.method)}</td>` +
+        `<td class="mono">${escapeWebviewHtml(entry.url)}</td>` +
+        `<td class="${entry.status >= 400 ? 'status-fail' : 'status-ok'}">${entry.status}</td>` +
+        `<td class="muted">${entry.durationMs} ms${entry.delayMs ? ` (delay ${entry.delayMs})` : ''}</td>` +
+        `<td>${entry.route ? escapeWebviewHtml(entry.route) : '<span class="muted">no route</span>'}${params}</td></tr>`
+      );
+    })
+    .join('');
+  return `<table><thead><tr><th>Time</th><th>Method</th><th>URL</th><th>Status</th><th>Duration</th><th>Route</th></tr></thead><tbody>${rows}</tbody></table>`;
+}
+
+function buildHtml(webview: vscode.Webview): string {
+  const body =
+    buildPanelHeader({ title: 'CursorToys', subtitle: 'HTTP mock server' }) +
+    `<div class="mock-body fade-in">` +
+    `<div class="toolbar">` +
+    `<span class="hint" id="summary">Stopped</span>` +
+    `<span class="ct-spacer"></span>` +
+    `<button type="button" id="copyBtn" class="ct-btn secondary">Copy URL</button>` +
+    `<button type="button" id="clearBtn" class="ct-btn secondary">Clear log</button>` +
+    `<button type="button" id="toggleBtn" class="ct-btn primary">Stop</button>` +
+    `</div>` +
+    `<section><h2>Routes</h2><div id="routes"></div></section>` +
+    `<section><h2>Requests</h2><div id="log"></div></section>` +
+    `</div>`;
+
+  const scripts = `
+    const vscode = acquireVsCodeApi();
+    let running = false;
+    const toggleBtn = document.getElementById('toggleBtn');
+    toggleBtn.addEventListener('click', () => vscode.postMessage({ command: running ? 'stop' : 'start' }));
+    document.getElementById('clearBtn').addEventListener('click', () => vscode.postMessage({ command: 'clear' }));
+    document.getElementById('copyBtn').addEventListener('click', () => vscode.postMessage({ command: 'copyUrl' }));
+    document.getElementById('routes').addEventListener('click', (event) => {
+      const row = event.target.closest('tr[data-index]');
+      if (row) {
+        vscode.postMessage({ command: 'openRoute', index: Number(row.dataset.index) });
+      }
+    });
+    window.addEventListener('message', (event) => {
+      const msg = event.data;
+      if (msg.command !== 'update') {
+        return;
+      }
+      running = msg.running;
+      toggleBtn.textContent = running ? 'Stop' : 'Start';
+      toggleBtn.disabled = !running && !msg.canStart;
+      document.getElementById('copyBtn').disabled = !running;
+      document.getElementById('summary').innerHTML = msg.summary;
+      document.getElementById('routes').innerHTML = msg.routes;
+      document.getElementById('log').innerHTML = msg.log;
+    });
+    vscode.postMessage({ command: 'ready' });`;
+
+  const extensionUri = getExtensionUri();
+  if (!extensionUri) {
+    return `<!DOCTYPE html><html><body>${body}<script>${scripts}</script></body></html>`;
+  }
+  return buildWebviewDocument({
+    webview,
+    extensionUri,
+    title: 'HTTP Mock Server',
+    body,
+    extraStyles: HTTP_MOCK_SERVER_STYLES,
+    scripts,
+  });
+}
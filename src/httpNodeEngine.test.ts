@@ -0,0 +1,210 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { CookieJar } from './httpCookieJar';
+import { executeNodeHttpRequest, foldRawHeaders, nextRedirectMethod } from './httpNodeEngine';
+
+async function runTests(): Promise<void> {
+  testFoldRawHeaders();
+  testNextRedirectMethod();
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      const body = Buffer.concat(chunks).toString('utf8');
+      if (req.url === '/echo') {
+        res.writeHead(200, { 'Content-Type': 'application/json', 'X-Trace': 'abc' });
+        res.end(JSON.stringify({ method: req.method, body, ua: req.headers['user-agent'] }));
+        return;
+      }
+      if (req.url === '/start') {
+        res.writeHead(302, { Location: '/middle' });
+        res.end();
+        return;
+      }
+      if (req.url === '/middle') {
+        res.writeHead(307, { Location: '/echo' });
+        res.end();
+        return;
+      }
+      if (req.url === '/login') {
+        res.writeHead(302, { Location: '/whoami', 'Set-Cookie': ['sid=abc; Path=/', 'theme=dark; Path=/'] });
+        res.end();
+        return;
+      }
+      if (req.url === '/whoami') {
+        res.writeHead(200, { 'Set-Cookie': 'seen=1; Path=/' });
+        res.end(req.headers.cookie ?? '');
+        return;
+      }
+      if (req.url === '/slow') {
+        setTimeout(() => {
+          res.writeHead(200);
+          res.end('late');
+        }, 1500);
+        return;
+      }
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('missing');
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  try {
+    await testBodyIsSentVerbatim(base);
+    await testPayloadWinsOverBody(base);
+    await testRedirectChain(base);
+    await testRedirectLimit(base);
+    await testCookieJarAcrossRedirects(base);
+    await testNotFound(base);
+    await testTimeout(base);
+    await testTimeoutBetweenHops();
+    await testConnectionError();
+  } finally {
+    server.close();
+  }
+  console.log('All httpNodeEngine tests passed.');
+}
+
+function testFoldRawHeaders(): void {
+  const headers = foldRawHeaders(['Content-Type', 'text/plain', 'Vary', 'Accept', 'vary', 'Origin']);
+  assert.deepStrictEqual(headers, { 'Content-Type': 'text/plain', Vary: 'Accept, Origin' });
+}
+
+function testNextRedirectMethod(): void {
+  assert.deepStrictEqual(nextRedirectMethod(303, 'PUT'), { method: 'GET', keepBody: false });
+  assert.deepStrictEqual(nextRedirectMethod(302, 'POST'), { method: 'GET', keepBody: false });
+  assert.deepStrictEqual(nextRedirectMethod(307, 'POST'), { method: 'POST', keepBody: true });
+}
+
+async function testBodyIsSentVerbatim(base: string): Promise<void> {
+  const tricky = `{"cmd":"echo 'hi' && rm -rf $HOME; \`id\` \\"q\\""}`;
+  const result = await executeNodeHttpRequest(
+    { method: 'POST', url: `${base}/echo`, headers: { 'Content-Type': 'application/json' }, body: tricky },
+    { timeoutSeconds: 5, maxRedirects: 5 }
+  );
+  assert.strictEqual(result.statusCode, 200);
+  assert.strictEqual(result.statusText, 'OK');
+  assert.strictEqual(result.headers['X-Trace'], 'abc');
+  const echoed = JSON.parse(result.body);
+  assert.strictEqual(echoed.body, tricky);
+  assert.strictEqual(echoed.ua, 'cursor-toys');
+  assert.ok(result.timings);
+  assert.ok(result.timings!.total >= 0);
+  assert.ok(result.timings!.ttfb !== undefined);
+  assert.deepStrictEqual(result.redirects, []);
+}
+
+async function testPayloadWinsOverBody(base: string): Promise<void> {
+  const result = await executeNodeHttpRequest(
+    { method: 'POST', url: `${base}/echo`, body: '< ./file.bin', payload: Buffer.from('a=1&b=2') },
+    { timeoutSeconds: 5, maxRedirects: 5 }
+  );
+  assert.strictEqual(JSON.parse(result.body).body, 'a=1&b=2');
+}
+
+async function testRedirectChain(base: string): Promise<void> {
+  const result = await executeNodeHttpRequest(
+    { method: 'POST', url: `${base}/start`, body: 'payload' },
+    { timeoutSeconds: 5, maxRedirects: 5 }
+  );
+  assert.strictEqual(result.statusCode, 200);
+  assert.strictEqual(result.redirects?.length, 2);
+  assert.strictEqual(result.redirects![0].statusCode, 302);
+  assert.strictEqual(result.redirects![0].location, '/middle');
+  assert.strictEqual(result.redirects![1].statusCode, 307);
+  // 302 turns POST into GET without a body; 307 keeps the (now GET) method
+  assert.strictEqual(JSON.parse(result.body).method, 'GET');
+}
+
+async function testRedirectLimit(base: string): Promise<void> {
+  const result = await executeNodeHttpRequest(
+    { method: 'GET', url: `${base}/start` },
+    { timeoutSeconds: 5, maxRedirects: 0 }
+  );
+  assert.strictEqual(result.statusCode, 302);
+  assert.deepStrictEqual(result.redirects, []);
+}
+
+async function testCookieJarAcrossRedirects(base: string): Promise<void> {
+  const jar = new CookieJar();
+  const result = await executeNodeHttpRequest(
+    { method: 'GET', url: `${base}/login`, headers: { Cookie: 'theme=light' } },
+    { timeoutSeconds: 5, maxRedirects: 5, cookieJar: jar }
+  );
+  assert.strictEqual(result.statusCode, 200);
+  // Cookies set on the redirect hop are sent on the next hop; the explicit header wins
+  assert.strictEqual(result.body, 'theme=light; sid=abc');
+  assert.deepStrictEqual(result.setCookies, ['seen=1; Path=/']);
+  assert.deepStrictEqual(
+    jar.list().map((c) => c.name).sort(),
+    ['seen', 'sid', 'theme']
+  );
+}
+
+async function testNotFound(base: string): Promise<void> {
+  const result = await executeNodeHttpRequest(
+    { method: 'GET', url: `${base}/nope` },
+    { timeoutSeconds: 5, maxRedirects: 5 }
+  );
+  assert.strictEqual(result.statusCode, 404);
+  assert.strictEqual(result.body, 'missing');
+  assert.strictEqual(result.error, undefined);
+}
+
+async function testTimeout(base: string): Promise<void> {
+  const result = await executeNodeHttpRequest(
+    { method: 'GET', url: `${base}/slow` },
+    { timeoutSeconds: 0.2, maxRedirects: 5 }
+  );
+  assert.strictEqual(result.statusCode, 0);
+  assert.strictEqual(result.statusText, 'Timeout');
+}
+
+async function testTimeoutBetweenHops(): Promise<void> {
+  let connections = 0;
+  const server = http.createServer((req, res) => {
+    res.writeHead(302, { Location: '/next' });
+    res.end();
+  });
+  server.on('connection', () => connections++);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  // Cookie handling that outlasts the deadline: the redirect must not even be dialled
+  const jar = new CookieJar();
+  const setCookies = jar.setCookies.bind(jar);
+  jar.setCookies = (...args: Parameters<CookieJar['setCookies']>) => {
+    const until = Date.now() + 300;
+    while (Date.now() < until) {
+      // busy
+    }
+    return setCookies(...args);
+  };
+  try {
+    const result = await executeNodeHttpRequest(
+      { method: 'GET', url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/hop` },
+      { timeoutSeconds: 0.2, maxRedirects: 5, cookieJar: jar }
+    );
+    assert.strictEqual(result.statusText, 'Timeout');
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    assert.strictEqual(connections, 1);
+  } finally {
+    server.close();
+  }
+}
+
+async function testConnectionError(): Promise<void> {
+  const result = await executeNodeHttpRequest(
+    { method: 'GET', url: 'http://127.0.0.1:1/' },
+    { timeoutSeconds: 5, maxRedirects: 5 }
+  );
+  assert.strictEqual(result.statusCode, 0);
+  assert.strictEqual(result.statusText, 'Error');
+  assert.ok(result.error);
+}
+
+runTests().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,487 @@
+/**
+ * Built-in HTTP engine on Node's http/https modules (no curl, no shell).
+ */
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import * as tls from 'tls';
+import * as zlib from 'zlib';
+import { performance } from 'perf_hooks';
+import type { HttpRequestConfig } from './httpRequestParse';
+import type { HttpRequestResult } from './httpRequestExecutor';
+import type { HttpRedirectHop, HttpTimings } from './httpResponseTypes';
+import { type CookieJar, mergeCookieHeader } from './httpCookieJar';
+import { proxyAuthorization, selectProxy, type HttpTlsSettings } from './httpTls';
+
+export interface NodeHttpEngineOptions {
+  /** Overall timeout in seconds, across all redirects. */
+  timeoutSeconds: number;
+  /** Maximum redirects to follow; 0 returns the first 3xx as-is. */
+  maxRedirects: number;
+  /** Sends matching cookies and stores `Set-Cookie` on every hop when set. */
+  cookieJar?: CookieJar;
+  /** Proxy, client certificate and verification settings (file paths absolute). */
+  tls?: HttpTlsSettings;
+}
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+const DEFAULT_USER_AGENT = 'cursor-toys';
+
+interface HopResult {
+  statusCode: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+  bodyBytes: Buffer;
+  setCookies: string[];
+  timings: Omit<HttpTimings, 'total'>;
+}
+
+function findHeaderKey(headers: Record<string, string>, name: string): string | undefined {
+  const lower = name.toLowerCase();
+  return Object.keys(headers).find((key) => key.toLowerCase() === lower);
+}
+
+function hasHeader(headers: Record<string, string>, name: string): boolean {
+  return findHeaderKey(headers, name) !== undefined;
+}
+
+/**
+ * Adds the jar's cookies for `url` to the headers (explicit Cookie names win).
+ */
+export function withJarCookies(
+  headers: Record<string, string>,
+  url: URL,
+  jar: CookieJar | undefined
+): Record<string, string> {
+  const jarHeader = jar?.getCookieHeader(url.toString()) ?? '';
+  if (!jarHeader) {
+    return headers;
+  }
+  const key = findHeaderKey(headers, 'cookie');
+  const merged = { ...headers };
+  if (key) {
+    delete merged[key];
+  }
+  merged[key ?? 'Cookie'] = mergeCookieHeader(key ? headers[key] : undefined, jarHeader);
+  return merged;
+}
+
+/**
+ * Reads the client certificate, key, PFX and CA files of the settings into TLS options.
+ * A CA bundle is trusted in addition to Node's built-in roots.
+ * @throws Error naming the file that could not be read
+ */
+export function loadTlsConnectionOptions(settings: HttpTlsSettings | undefined): tls.ConnectionOptions {
+  if (!settings) {
+    return {};
+  }
+  const read = (label: string, filePath: string): Buffer => {
+    try {
+      return fs.readFileSync(filePath);
+    } catch (error) {
+      throw new Error(`Cannot read ${label} ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+  const options: tls.ConnectionOptions = { rejectUnauthorized: settings.verify };
+  if (settings.cert) {
+    options.cert = read('client certificate', settings.cert);
+    // Like curl, the certificate file may hold the private key too
+    options.key = settings.key ? read('client key', settings.key) : options.cert;
+  }
+  if (settings.pfx) {
+    options.pfx = read('PFX bundle', settings.pfx);
+  }
+  if (settings.passphrase !== undefined) {
+    options.passphrase = settings.passphrase;
+  }
+  if (settings.ca) {
+    options.ca = [...tls.rootCertificates, read('CA bundle', settings.ca).toString('utf8')];
+  }
+  if (settings.minVersion) {
+    options.minVersion = settings.minVersion;
+  }
+  return options;
+}
+
+function roundMs(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Serializes the request body exactly as written (objects become JSON).
+ */
+export function serializeRequestBody(body: HttpRequestConfig['body']): string | undefined {
+  if (body === undefined || body === null) {
+    return undefined;
+  }
+  return typeof body === 'string' ? body : JSON.stringify(body);
+}
+
+/**
+ * Folds Node raw headers into a case-preserving map (repeated headers joined with `, `).
+ */
+export function foldRawHeaders(rawHeaders: string[]): Record<string, string> {
+  const headers: Record<string, string> = {};
+  const keysByLower = new Map<string, string>();
+  for (let i = 0; i + 1 < rawHeaders.length; i += 2) {
+    const key = rawHeaders[i];
+    const value = rawHeaders[i + 1];
+    const existing = keysByLower.get(key.toLowerCase());
+    if (existing) {
+      headers[existing] = `${headers[existing]}, ${value}`;
+    } else {
+      keysByLower.set(key.toLowerCase(), key);
+      headers[key] = value;
+    }
+  }
+  return headers;
+}
+
+function decodeBody(buffer: Buffer, encoding: string | undefined): Buffer {
+  const token = (encoding ?? '').trim().toLowerCase();
+  try {
+    if (token === 'gzip' || token === 'x-gzip') {
+      return zlib.gunzipSync(buffer);
+    }
+    if (token === 'deflate') {
+      return zlib.inflateSync(buffer);
+    }
+    if (token === 'br') {
+      return zlib.brotliDecompressSync(buffer);
+    }
+  } catch {
+    // Fall through and show the raw bytes
+  }
+  return buffer;
+}
+
+/**
+ * Chooses method and body for the next hop per RFC 9110 redirect semantics.
+ */
+export function nextRedirectMethod(
+  statusCode: number,
+  method: string
+): { method: string; keepBody: boolean } {
+  if (statusCode === 307 || statusCode === 308) {
+    return { method, keepBody: true };
+  }
+  if (statusCode === 303 && method !== 'HEAD') {
+    return { method: 'GET', keepBody: false };
+  }
+  if ((statusCode === 301 || statusCode === 302) && method === 'POST') {
+    return { method: 'GET', keepBody: false };
+  }
+  return { method, keepBody: method !== 'GET' && method !== 'HEAD' };
+}
+
+/** TLS options for `https:` hops and the proxy chosen for the hop's URL */
+interface HopConnection {
+  tlsOptions: tls.ConnectionOptions;
+  proxy: URL | null;
+}
+
+function sendHop(
+  url: URL,
+  method: string,
+  headers: Record<string, string>,
+  body: string | Buffer | undefined,
+  signal: { aborted: boolean; onAbort?: () => void },
+  connection: HopConnection = { tlsOptions: {}, proxy: null }
+): Promise<HopResult> {
+  return new Promise((resolve, reject) => {
+    const secure = url.protocol === 'https:';
+    const start = performance.now();
+    let dnsAt: number | undefined;
+    let connectAt: number | undefined;
+    let tlsAt: number | undefined;
+    let firstByteAt: number | undefined;
+
+    const requestHeaders: Record<string, string> = { ...headers };
+    if (body !== undefined && !hasHeader(requestHeaders, 'content-length')) {
+      requestHeaders['Content-Length'] = String(Buffer.byteLength(body));
+    }
+
+    const onResponse = (res: http.IncomingMessage): void => {
+      firstByteAt = performance.now();
+      const chunks: Buffer[] = [];
+      res.on('data', (chunk: Buffer) => chunks.push(chunk));
+      res.on('error', reject);
+      res.on('end', () => {
+        const endAt = performance.now();
+        const responseHeaders = foldRawHeaders(res.rawHeaders);
+        const decoded = decodeBody(Buffer.concat(chunks), res.headers['content-encoding']);
+        const connectStart = dnsAt ?? start;
+        const timings: Omit<HttpTimings, 'total'> = {};
+        if (dnsAt !== undefined) {
+          timings.dns = roundMs(dnsAt - start);
+        }
+        if (connectAt !== undefined) {
+          timings.connect = roundMs(connectAt - connectStart);
+        }
+        if (tlsAt !== undefined && connectAt !== undefined) {
+          timings.tls = roundMs(tlsAt - connectAt);
+        }
+        const sentAt = tlsAt ?? connectAt ?? start;
+        timings.ttfb = roundMs((firstByteAt ?? endAt) - sentAt);
+        timings.download = roundMs(endAt - (firstByteAt ?? endAt));
+        resolve({
+          statusCode: res.statusCode ?? 0,
+          statusText: res.statusMessage ?? '',
+          headers: responseHeaders,
+          body: decoded.toString('utf8'),
+          bodyBytes: decoded,
+          setCookies: res.headers['set-cookie'] ?? [],
+          timings,
+        });
+      });
+    };
+
+    const trackSocket = (socket: net.Socket): void => {
+      socket.on('lookup', () => {
+        dnsAt = performance.now();
+      });
+      socket.on('connect', () => {
+        connectAt ??= performance.now();
+      });
+      socket.on('secureConnect', () => {
+        tlsAt = performance.now();
+      });
+    };
+    const send = (req: http.ClientRequest): void => {
+      req.on('socket', trackSocket);
+      req.on('error', reject);
+      signal.onAbort = () => req.destroy(new Error('aborted'));
+      if (body !== undefined) {
+        req.write(body);
+      }
+      req.end();
+    };
+
+    const { tlsOptions, proxy } = connection;
+    if (!proxy) {
+      const transport = secure ? https : http;
+      send(transport.request(url, { method, headers: requestHeaders, agent: false, ...(secure ? tlsOptions : {}) }, onResponse));
+      return;
+    }
+
+    const proxyAuth = proxyAuthorization(proxy);
+    const proxyHeaders: Record<string, string> = proxyAuth ? { 'Proxy-Authorization': proxyAuth } : {};
+    if (!secure) {
+      // Plain HTTP goes to the proxy with the absolute URL as the request target
+      const hostHeader = hasHeader(requestHeaders, 'host') ? {} : { Host: url.host };
+      send(
+        http.request(
+          {
+            host: proxy.hostname,
+            port: proxy.port || 80,
+            method,
+            path: url.toString(),
+            headers: { ...requestHeaders, ...hostHeader, ...proxyHeaders },
+            agent: false,
+          },
+          onResponse
+        )
+      );
+      return;
+    }
+
+    // HTTPS is tunneled with CONNECT; TLS to the target then runs over the tunnel socket
+    const tunnel = openProxyTunnel(proxy, url, {
+      onSocket: trackSocket,
+      onError: reject,
+      onConnect: (socket) =>
+        send(
+          https.request(
+            url,
+            { method, headers: requestHeaders, createConnection: () => tunnelConnection(socket, url, tlsOptions) },
+            onResponse
+          )
+        ),
+    });
+    signal.onAbort = () => tunnel.destroy(new Error('aborted'));
+  });
+}
+
+/**
+ * Opens a `CONNECT` tunnel through an HTTP proxy to the URL's host. `onConnect` gets the raw
+ * socket to the target; destroy the returned request to abort.
+ */
+export function openProxyTunnel(
+  proxy: URL,
+  url: URL,
+  handlers: {
+    onConnect: (socket: net.Socket) => void;
+    onError: (error: Error) => void;
+    onSocket?: (socket: net.Socket) => void;
+  }
+): http.ClientRequest {
+  const authority = `${url.hostname}:${url.port || (url.protocol === 'https:' ? 443 : 80)}`;
+  const proxyAuth = proxyAuthorization(proxy);
+  const tunnel = http.request({
+    host: proxy.hostname,
+    port: proxy.port || 80,
+    method: 'CONNECT',
+    path: authority,
+    headers: { Host: authority, ...(proxyAuth ? { 'Proxy-Authorization': proxyAuth } : {}) },
+    agent: false,
+  });
+  if (handlers.onSocket) {
+    tunnel.on('socket', handlers.onSocket);
+  }
+  tunnel.on('error', handlers.onError);
+  tunnel.on('connect', (res: http.IncomingMessage, socket: net.Socket) => {
+    if (res.statusCode !== 200) {
+      socket.destroy();
+      handlers.onError(new Error(`Proxy refused CONNECT to ${authority}: ${res.statusCode} ${res.statusMessage ?? ''}`.trim()));
+      return;
+    }
+    handlers.onConnect(socket);
+  });
+  tunnel.end();
+  return tunnel;
+}
+
+/**
+ * The connection a request to `url` uses over a tunnel socket: TLS for `https:`, the socket itself otherwise
+ */
+export function tunnelConnection(socket: net.Socket, url: URL, tlsOptions: tls.ConnectionOptions): net.Socket {
+  if (url.protocol !== 'https:') {
+    return socket;
+  }
+  const servername = net.isIP(url.hostname.replace(/^\[|\]$/g, '')) ? undefined : url.hostname;
+  return tls.connect({ ...tlsOptions, socket, servername });
+}
+
+/**
+ * Executes an HTTP request with Node's http/https, following redirects and
+ * recording DNS / connect / TLS / TTFB / download timings.
+ * Always resolves; transport failures become a status 0 result like the curl engine.
+ */
+export async function executeNodeHttpRequest(
+  config: HttpRequestConfig,
+  options: NodeHttpEngineOptions
+): Promise<HttpRequestResult> {
+  const startedAt = performance.now();
+  const timeoutMessage = `Request timeout after ${options.timeoutSeconds} seconds`;
+  const signal: { aborted: boolean; onAbort?: () => void } = { aborted: false };
+  let timer: NodeJS.Timeout | undefined;
+
+  const timeout = new Promise<'timeout'>((resolve) => {
+    timer = setTimeout(() => {
+      signal.aborted = true;
+      signal.onAbort?.();
+      resolve('timeout');
+    }, options.timeoutSeconds * 1000);
+  });
+
+  const run = async (): Promise<HttpRequestResult> => {
+    let url = new URL(config.url);
+    let method = (config.method || 'GET').toUpperCase();
+    let body: string | Buffer | undefined = config.payload ?? serializeRequestBody(config.body);
+    const headers: Record<string, string> = { ...(config.headers ?? {}) };
+    if (!hasHeader(headers, 'user-agent')) {
+      headers['User-Agent'] = DEFAULT_USER_AGENT;
+    }
+    if (!hasHeader(headers, 'accept')) {
+      headers.Accept = '*/*';
+    }
+
+    const tlsOptions = loadTlsConnectionOptions(options.tls);
+    const redirects: HttpRedirectHop[] = [];
+    for (;;) {
+      // Never start another hop after the deadline, even when the timer has not fired yet
+      if (performance.now() - startedAt >= options.timeoutSeconds * 1000) {
+        signal.aborted = true;
+      }
+      if (signal.aborted) {
+        throw new Error('aborted');
+      }
+      const proxy = options.tls ? selectProxy(options.tls, url) : null;
+      const hop = await sendHop(url, method, withJarCookies(headers, url, options.cookieJar), body, signal, {
+        tlsOptions,
+        proxy,
+      });
+      options.cookieJar?.setCookies(hop.setCookies, url.toString());
+      const location = Object.entries(hop.headers).find(
+        ([key]) => key.toLowerCase() === 'location'
+      )?.[1];
+
+      if (
+        REDIRECT_STATUSES.has(hop.statusCode) &&
+        location &&
+        redirects.length < options.maxRedirects
+      ) {
+        redirects.push({ url: url.toString(), statusCode: hop.statusCode, location });
+        const next = new URL(location, url);
+        const nextMethod = nextRedirectMethod(hop.statusCode, method);
+        method = nextMethod.method;
+        if (!nextMethod.keepBody) {
+          body = undefined;
+          for (const key of Object.keys(headers)) {
+            if (/^content-(type|length)$/i.test(key)) {
+              delete headers[key];
+            }
+          }
+        }
+        if (next.host !== url.host) {
+          for (const key of Object.keys(headers)) {
+            if (/^(authorization|cookie)$/i.test(key)) {
+              delete headers[key];
+            }
+          }
+        }
+        url = next;
+        continue;
+      }
+
+      return {
+        statusCode: hop.statusCode,
+        statusText: hop.statusText,
+        headers: hop.headers,
+        body: hop.body,
+        bodyBytes: hop.bodyBytes,
+        setCookies: hop.setCookies,
+        timings: { ...hop.timings, total: roundMs(performance.now() - startedAt) },
+        redirects,
+      };
+    }
+  };
+
+  try {
+    const outcome = await Promise.race([run(), timeout]);
+    if (outcome === 'timeout') {
+      return {
+        statusCode: 0,
+        statusText: 'Timeout',
+        headers: {},
+        body: timeoutMessage,
+        error: timeoutMessage,
+      };
+    }
+    return outcome;
+  } catch (error) {
+    if (signal.aborted) {
+      return {
+        statusCode: 0,
+        statusText: 'Timeout',
+        headers: {},
+        body: timeoutMessage,
+        error: timeoutMessage,
+      };
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      statusCode: 0,
+      statusText: 'Error',
+      headers: {},
+      body: message,
+      error: message,
+    };
+  } finally {
+    if (timer) {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { EnvironmentManager } from './environmentManager';
+import { generateOpenApiRequests, mergeImportedRequestFile, parseApiSpecText } from './httpOpenApiImport';
+import { getHttpPath } from './utils';
+
+async function readExistingFile(uri: vscode.Uri): Promise<string | null> {
+  try {
+    return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Imports an OpenAPI / Swagger spec into `<http>/<api>/<tag>/<operation>.req`; existing
+ * files are merged so hand-written assertions survive a re-import.
+ */
+async function importOpenApiSpec(specUri?: vscode.Uri): Promise<void> {
+  const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  if (!workspacePath) {
+    vscode.window.showErrorMessage('Open a workspace folder to import an OpenAPI spec.');
+    return;
+  }
+
+  let uri = specUri;
+  if (!uri) {
+    const selected = await vscode.window.showOpenDialog({
+      title: 'Select OpenAPI / Swagger Spec',
+      filters: { 'OpenAPI / Swagger': ['json', 'yaml', 'yml'] },
+      canSelectMany: false,
+    });
+    if (!selected || selected.length === 0) {
+      return;
+    }
+    uri = selected[0];
+  }
+
+  let result;
+  try {
+    const text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+    result = generateOpenApiRequests(parseApiSpecText(text));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`Failed to import ${path.basename(uri.fsPath)}: ${message}`);
+    return;
+  }
+  if (result.files.length === 0) {
+    vscode.window.showWarningMessage(`${path.basename(uri.fsPath)} has no operations to import.`);
+    return;
+  }
+
+  const targetDir = path.join(getHttpPath(workspacePath), result.folderName);
+  let created = 0;
+  let updated = 0;
+  for (const file of result.files) {
+    const fileUri = vscode.Uri.file(path.join(targetDir, ...file.relativePath.split('/')));
+    const existing = await readExistingFile(fileUri);
+    const content = existing === null ? file.content : mergeImportedRequestFile(existing, file.content);
+    if (existing === content) {
+      continue;
+    }
+    await vscode.workspace.fs.createDirectory(vscode.Uri.file(path.dirname(fileUri.fsPath)));
+    await vscode.workspace.fs.writeFile(fileUri, Buffer.from(content, 'utf8'));
+    if (existing === null) {
+      created++;
+    } else {
+      updated++;
+    }
+  }
+
+  let added: string[] = [];
+  try {
+    added = EnvironmentManager.getInstance().addMissingVariables('dev', workspacePath, result.variables);
+  } catch (error) {
+    console.error('Failed to add imported variables to the environment', error);
+  }
+
+  const summary = [`${created} created`, `${updated} updated`];
+  if (added.length > 0) {
+    summary.push(`added ${added.join(', ')} to the environment`);
+  }
+  const action = await vscode.window.showInformationMessage(
+    `Imported "${result.title}" into ${result.folderName}/ (${summary.join(', ')}).`,
+    'Reveal Folder'
+  );
+  if (action === 'Reveal Folder') {
+    await vscode.commands.executeCommand('revealInExplorer', vscode.Uri.file(targetDir));
+  }
+}
+
+/**
+ * Registers the OpenAPI / Swagger import command.
+ */
+export function registerHttpOpenApiCommands(context: vscode.ExtensionContext): void {
+  context.subscriptions.push(
+    vscode.commands.registerCommand('cursor-toys.importOpenApiSpec', (uri?: vscode.Uri) => importOpenApiSpec(uri))
+  );
+}
@@ -0,0 +1,267 @@
+import * as assert from 'assert';
+import { extractAssertions } from './assertionParser';
+import {
+  buildSchemaExample,
+  detectApiSpecVersion,
+  generateOpenApiRequests,
+  mergeImportedRequestFile,
+  parseApiSpecText,
+} from './httpOpenApiImport';
+import { parseYaml, YamlParseError } from './yamlLite';
+
+const PETSTORE_YAML = `openapi: 3.0.1
+info:
+  title: Pet Store API
+  version: "1.0"
+servers:
+  - url: https://{env}.example.com/v1/
+    variables:
+      env:
+        default: api
+security:
+  - bearerAuth: []
+paths:
+  /pets/{petId}:
+    parameters:
+      - name: petId
+        in: path
+        required: true
+        schema: { type: integer, example: 42 }
+    get:
+      operationId: getPetById
+      summary: Get a pet
+      tags: [pets]
+      parameters:
+        - name: verbose
+          in: query
+          schema: { type: boolean }
+      responses:
+        '200':
+          description: ok
+          content:
+            application/json:
+              schema:
+                $ref: '#/components/schemas/Pet'
+        '404':
+          description: not found
+  /pets:
+    post:
+      operationId: createPet
+      tags: [pets]
+      security:
+        - apiKey: []
+      requestBody:
+        content:
+          application/json:
+            schema:
+              $ref: '#/components/schemas/Pet'
+      responses:
+        '201': { description: created }
+        '200': { description: ok }
+  /health:
+    get:
+      responses:
+        '200': { description: ok }
+components:
+  securitySchemes:
+    bearerAuth: { type: http, scheme: bearer }
+    apiKey: { type: apiKey, in: header, name: X-API-Key }
+  schemas:
+    Pet:
+      type: object
+      required: [id, name]
+      properties:
+        id: { type: integer, readOnly: true }
+        name: { type: string, example: Rex }
+        tags:
+          type: array
+          items: { type: string }
+        parent:
+          $ref: '#/components/schemas/Pet'
+`;
+
+function runTests(): void {
+  testYamlScalarsAndCollections();
+  testYamlBlockScalarsAndAnchors();
+  testYamlErrors();
+  testDetectVersion();
+  testSchemaExamples();
+  testOpenApi3Generation();
+  testSwagger2Generation();
+  testMergeKeepsHandWrittenAssertions();
+  console.log('All httpOpenApiImport tests passed.');
+}
+
+function testYamlScalarsAndCollections(): void {
+  const doc = parseYaml(`# comment
+name: "quoted # not a comment"
+count: 3
+ratio: 1.5
+enabled: true
+missing: ~
+list:
+  - a
+  - { b: 1, c: [x, y] }
+nested:
+  key: 'it''s'
+`) as Record<string, unknown>;
+  assert.deepStrictEqual(doc, {
+    name: 'quoted # not a comment',
+    count: 3,
+    ratio: 1.5,
+    enabled: true,
+    missing: null,
+    list: ['a', { b: 1, c: ['x', 'y'] }],
+    nested: { key: "it's" },
+  });
+}
+
+function testYamlBlockScalarsAndAnchors(): void {
+  const doc = parseYaml(`base: &base
+  a: 1
+derived:
+  <<: *base
+  b: 2
+literal: |
+  line one
+  line two
+folded: >-
+  one
+  two
+`) as Record<string, any>;
+  assert.deepStrictEqual(doc.derived, { a: 1, b: 2 });
+  assert.strictEqual(doc.literal, 'line one\nline two\n');
+  assert.strictEqual(doc.folded, 'one two');
+}
+
+function testYamlErrors(): void {
+  assert.throws(() => parseYaml('a: [1, 2'), YamlParseError);
+  assert.throws(() => parseYaml('a: *missing'), YamlParseError);
+}
+
+function testDetectVersion(): void {
+  assert.strictEqual(detectApiSpecVersion({ openapi: '3.1.0' }), 'openapi3');
+  assert.strictEqual(detectApiSpecVersion({ swagger: '2.0' }), 'swagger2');
+  assert.strictEqual(detectApiSpecVersion({ info: {} }), null);
+  assert.throws(() => generateOpenApiRequests({ info: {} }), /Not an OpenAPI/);
+  assert.deepStrictEqual(parseApiSpecText('{"openapi": "3.0.0"}'), { openapi: '3.0.0' });
+}
+
+function testSchemaExamples(): void {
+  const example = buildSchemaExample({
+    type: 'object',
+    properties: {
+      id: { type: 'string', format: 'uuid', readOnly: true },
+      email: { type: 'string', format: 'email' },
+      status: { type: 'string', enum: ['active', 'disabled'] },
+      roles: { type: 'array', items: { type: 'string', default: 'user' } },
+      profile: { allOf: [{ properties: { age: { type: 'integer', minimum: 18 } } }, { properties: { admin: { type: 'boolean' } } }] },
+    },
+  });
+  assert.deepStrictEqual(example, {
+    email: 'user@example.com',
+    status: 'active',
+    roles: ['user'],
+    profile: { age: 18, admin: true },
+  });
+}
+
+function testOpenApi3Generation(): void {
+  const result = generateOpenApiRequests(parseApiSpecText(PETSTORE_YAML));
+  assert.strictEqual(result.title, 'Pet Store API');
+  assert.strictEqual(result.folderName, 'pet-store-api');
+  assert.deepStrictEqual(result.variables, { baseUrl: 'https://api.example.com/v1', accessToken: '', apiKey: '' });
+  assert.deepStrictEqual(
+    result.files.map((f) => f.relativePath),
+    ['pets/get-pet-by-id.req', 'pets/create-pet.req', 'default/get-health.req']
+  );
+
+  const get = result.files[0].content;
+  assert.ok(get.startsWith('# @env dev\n\n## Get a pet\n'));
+  assert.ok(get.includes('# @name getPetById\n# @var petId=42\n'));
+  assert.ok(get.includes('# Optional query: verbose'));
+  assert.ok(get.includes('GET {{baseUrl}}/pets/{{petId}}\nAccept: application/json\nAuthorization: Bearer {{accessToken}}\n'));
+  const assertions = extractAssertions(get);
+  assert.deepStrictEqual(
+    assertions.map((a) => [a.expression, a.operator, a.expected]),
+    [
+      ['res.status', 'equals', 200],
+      ['res.body.id', 'isDefined', null],
+      ['res.body.name', 'isDefined', null],
+    ]
+  );
+
+  const post = result.files[1].content;
+  assert.ok(post.includes('POST {{baseUrl}}/pets\nX-API-Key: {{apiKey}}\nContent-Type: application/json\n\n{\n  "name": "Rex"'));
+  assert.ok(!post.includes('"id"'), 'readOnly properties stay out of request bodies');
+  assert.ok(post.includes('"parent": null'), 'recursive schemas stop');
+  assert.deepStrictEqual(extractAssertions(post)[0].expected, [200, 201]);
+}
+
+function testSwagger2Generation(): void {
+  const result = generateOpenApiRequests({
+    swagger: '2.0',
+    info: { title: 'Legacy' },
+    host: 'legacy.example.com',
+    basePath: '/api',
+    schemes: ['http'],
+    securityDefinitions: { basic: { type: 'basic' } },
+    security: [{ basic: [] }],
+    definitions: { Login: { type: 'object', properties: { user: { type: 'string', example: 'ann' } } } },
+    paths: {
+      '/login': {
+        post: {
+          operationId: 'login',
+          consumes: ['application/json'],
+          parameters: [
+            { name: 'body', in: 'body', schema: { $ref: '#/definitions/Login' } },
+            { name: 'tenant', in: 'query', required: true, type: 'string', 'x-example': 'acme' },
+          ],
+          responses: { '200': { description: 'ok', schema: { type: 'array', items: { type: 'string' } } } },
+        },
+      },
+      '/upload': {
+        post: {
+          parameters: [
+            { name: 'file', in: 'formData', type: 'file' },
+            { name: 'note', in: 'formData', type: 'string' },
+          ],
+          responses: { '204': { description: 'stored' } },
+        },
+      },
+    },
+  });
+  assert.strictEqual(result.variables.baseUrl, 'http://legacy.example.com/api');
+  assert.strictEqual(result.variables.basicAuth, '');
+
+  const login = result.files[0].content;
+  assert.ok(login.includes('# @var tenant=acme'));
+  assert.ok(login.includes('POST {{baseUrl}}/login?tenant={{tenant}}\n'));
+  assert.ok(login.includes('Authorization: Basic {{basicAuth}}'));
+  assert.ok(login.includes('{\n  "user": "ann"\n}'));
+  assert.ok(login.includes('"res.body", "isArray"'));
+
+  const upload = result.files[1];
+  assert.strictEqual(upload.relativePath, 'default/post-upload.req');
+  assert.ok(upload.content.includes('Content-Type: multipart/form-data; boundary=----CursorToysFormBoundary'));
+  assert.ok(upload.content.includes('< ./file.bin'));
+}
+
+function testMergeKeepsHandWrittenAssertions(): void {
+  const generated = generateOpenApiRequests(parseApiSpecText(PETSTORE_YAML)).files[0].content;
+  const edited = generated
+    .replace('# @var petId=42', '# @var petId=7')
+    .replace(' */', ' * @assert("name is Rex", "res.body.name", "equals", "Rex")\n */');
+  const stale = edited.replace('"res.status", "equals", 200', '"res.status", "equals", 299');
+
+  const merged = mergeImportedRequestFile(stale, generated);
+  assert.ok(merged.includes('# @var petId=7'));
+  assert.ok(!merged.includes('299'), 'generated assertions are regenerated');
+  assert.deepStrictEqual(
+    extractAssertions(merged).map((a) => a.description),
+    ['OpenAPI: status is 200', 'OpenAPI: body has id', 'OpenAPI: body has name', 'name is Rex']
+  );
+  assert.strictEqual(mergeImportedRequestFile(merged, generated), merged);
+}
+
+runTests();
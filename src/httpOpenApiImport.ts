@@ -0,0 +1,651 @@
+/**
+ * OpenAPI 3.x / Swagger 2.0 import: one `.req` file per operation, grouped in folders by
+ * tag, with example bodies built from schemas, `{{baseUrl}}` / auth variables and starter
+ * `@assert` lines. Pure helpers — no VS Code dependencies.
+ */
+import {
+  DEFAULT_MULTIPART_BOUNDARY,
+  serializeMultipartFields,
+  serializeUrlencodedFields,
+  type HttpRequestBodyField,
+} from './httpRequestBody';
+import { toHttpRequestFileSlug, uniqueHttpRequestFileSlug } from './httpRequestFileNaming';
+import { parseYaml } from './yamlLite';
+
+/** Description prefix of generated assertions; they are replaced on re-import. */
+export const OPENAPI_ASSERT_PREFIX = 'OpenAPI: ';
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch'] as const;
+const MAX_EXAMPLE_DEPTH = 6;
+const MAX_PROPERTY_ASSERTS = 5;
+const ASSERT_LINE_RE = /^\s*\*?\s*(@assert\s*\(.*\))\s*$/;
+const VAR_LINE_RE = /^#\s*@var\s+([a-zA-Z_][a-zA-Z0-9_]*)\s*=\s*(.*)$/;
+
+type JsonValue = string | number | boolean | null | JsonValue[] | JsonObject;
+interface JsonObject {
+  [key: string]: JsonValue | undefined;
+}
+
+/** Resolves `$ref`s; anything that is not an object resolves to `{}` */
+type SchemaResolver = (value: unknown) => JsonObject;
+
+function isJsonObject(value: unknown): value is JsonObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function asObject(value: unknown): JsonObject {
+  return isJsonObject(value) ? value : {};
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function asStrings(value: unknown): string[] {
+  return asArray(value).filter((item): item is string => typeof item === 'string');
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+/** A generated request file, relative to the import folder (`tag/operation.req`). */
+export interface OpenApiRequestFile {
+  relativePath: string;
+  content: string;
+}
+
+export interface OpenApiImportResult {
+  title: string;
+  /** Folder name for the API under the HTTP path. */
+  folderName: string;
+  files: OpenApiRequestFile[];
+  /** Environment variables the requests use (`baseUrl`, auth tokens) with default values. */
+  variables: Record<string, string>;
+}
+
+interface NormalizedParameter {
+  name: string;
+  in: string;
+  required: boolean;
+  schema: JsonObject;
+  example?: unknown;
+}
+
+interface NormalizedOperation {
+  method: string;
+  path: string;
+  operation: JsonObject;
+  parameters: NormalizedParameter[];
+  requestBody?: { contentType: string; schema: JsonObject; example?: unknown };
+  responses: Array<{ code: string; contentType?: string; schema?: JsonObject }>;
+}
+
+interface AuthHeader {
+  headers: Record<string, string>;
+  query: Record<string, string>;
+}
+
+/**
+ * Reads an OpenAPI / Swagger document written as JSON or YAML
+ * @throws Error when the text is neither
+ */
+export function parseApiSpecText(text: string): unknown {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{')) {
+    return JSON.parse(trimmed);
+  }
+  return parseYaml(text);
+}
+
+/**
+ * Returns 'openapi3', 'swagger2' or null for other documents.
+ */
+export function detectApiSpecVersion(spec: unknown): 'openapi3' | 'swagger2' | null {
+  if (!isJsonObject(spec)) {
+    return null;
+  }
+  if (typeof spec.openapi === 'string' && spec.openapi.startsWith('3')) {
+    return 'openapi3';
+  }
+  if (String(spec.swagger ?? '').startsWith('2')) {
+    return 'swagger2';
+  }
+  return null;
+}
+
+/**
+ * Resolves local `$ref`s (`#/components/schemas/Pet`); external references resolve to `{}`.
+ */
+function createResolver(root: JsonObject): SchemaResolver {
+  return (value) => {
+    let current: unknown = value;
+    const seen = new Set<string>();
+    while (isJsonObject(current) && typeof current.$ref === 'string') {
+      const ref = current.$ref;
+      if (!ref.startsWith('#/') || seen.has(ref)) {
+        return {};
+      }
+      seen.add(ref);
+      let target: unknown = root;
+      for (const part of ref.slice(2).split('/')) {
+        const key = part.replace(/~1/g, '/').replace(/~0/g, '~');
+        target = Array.isArray(target) ? target[Number(key)] : isJsonObject(target) ? target[key] : undefined;
+      }
+      current = target ?? {};
+    }
+    return asObject(current);
+  };
+}
+
+/**
+ * Example value for a schema: its own `example` / `default` / first `enum`, otherwise
+ * built from properties and types (`readOnly` properties are left out of request bodies).
+ */
+export function buildSchemaExample(
+  schema: unknown,
+  resolve: SchemaResolver = asObject,
+  mode: 'request' | 'response' = 'request',
+  depth = 0,
+  visiting: Set<unknown> = new Set()
+): unknown {
+  const s = resolve(schema);
+  if (depth > MAX_EXAMPLE_DEPTH || visiting.has(s)) {
+    return null;
+  }
+  if (s.example !== undefined) {
+    return s.example;
+  }
+  if (Array.isArray(s.examples) && s.examples.length > 0) {
+    return s.examples[0];
+  }
+  if (s.default !== undefined) {
+    return s.default;
+  }
+  if (Array.isArray(s.enum) && s.enum.length > 0) {
+    return s.enum[0];
+  }
+  if (s.const !== undefined) {
+    return s.const;
+  }
+
+  visiting.add(s);
+  try {
+    const next = (child: unknown): unknown => buildSchemaExample(child, resolve, mode, depth + 1, visiting);
+    if (Array.isArray(s.allOf)) {
+      const merged: Record<string, unknown> = {};
+      for (const part of s.allOf) {
+        const value = next(part);
+        if (value && typeof value === 'object' && !Array.isArray(value)) {
+          Object.assign(merged, value);
+        }
+      }
+      return merged;
+    }
+    const variants = s.oneOf ?? s.anyOf;
+    if (Array.isArray(variants) && variants.length > 0) {
+      return next(variants[0]);
+    }
+
+    const type = Array.isArray(s.type) ? s.type.find((t) => t !== 'null') : s.type;
+    if (type === 'object' || (!type && (s.properties || s.additionalProperties))) {
+      const result: Record<string, unknown> = {};
+      for (const [name, propSchema] of Object.entries(asObject(s.properties))) {
+        const prop = resolve(propSchema);
+        if (mode === 'request' && prop.readOnly) {
+          continue;
+        }
+        if (mode === 'response' && prop.writeOnly) {
+          continue;
+        }
+        result[name] = next(propSchema);
+      }
+      if (Object.keys(result).length === 0 && isJsonObject(s.additionalProperties)) {
+        result.key = next(s.additionalProperties);
+      }
+      return result;
+    }
+    if (type === 'array') {
+      return s.items ? [next(s.items)] : [];
+    }
+    if (type === 'integer' || type === 'number') {
+      return typeof s.minimum === 'number' ? s.minimum : 0;
+    }
+    if (type === 'boolean') {
+      return true;
+    }
+    if (type === 'string') {
+      return exampleString(asString(s.format));
+    }
+    return null;
+  } finally {
+    visiting.delete(s);
+  }
+}
+
+function exampleString(format: string | undefined): string {
+  switch (format) {
+    case 'date-time':
+      return '2024-01-01T00:00:00Z';
+    case 'date':
+      return '2024-01-01';
+    case 'time':
+      return '12:00:00';
+    case 'email':
+      return 'user@example.com';
+    case 'uuid':
+      return '00000000-0000-0000-0000-000000000000';
+    case 'uri':
+    case 'url':
+      return 'https://example.com';
+    case 'hostname':
+      return 'example.com';
+    case 'ipv4':
+      return '127.0.0.1';
+    case 'byte':
+      return 'ZXhhbXBsZQ==';
+    case 'password':
+      return 'password';
+    default:
+      return 'string';
+  }
+}
+
+/** camelCase identifier usable in `{{...}}` and `# @var` (`pet-id` → `petId`). */
+function toVariableName(name: string): string {
+  const words = name.split(/[^a-zA-Z0-9]+/).filter(Boolean);
+  const joined = words
+    .map((w, i) => (i === 0 ? w.charAt(0).toLowerCase() + w.slice(1) : w.charAt(0).toUpperCase() + w.slice(1)))
+    .join('');
+  return /^[a-zA-Z_]/.test(joined) ? joined : `p${joined}`;
+}
+
+function isJsonContentType(contentType: string | undefined): boolean {
+  return !!contentType && /^application\/(.+\+)?json\b/i.test(contentType);
+}
+
+function pickContentType(types: string[]): string | undefined {
+  return types.find(isJsonContentType) ?? types[0];
+}
+
+function formatScalar(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function serverUrl(doc: JsonObject, version: 'openapi3' | 'swagger2'): string {
+  if (version === 'swagger2') {
+    if (!doc.host) {
+      return 'http://localhost';
+    }
+    const scheme = asArray(doc.schemes).length > 0 ? String(asArray(doc.schemes)[0]) : 'https';
+    const basePath = asString(doc.basePath);
+    return `${scheme}://${String(doc.host)}${basePath && basePath !== '/' ? basePath : ''}`;
+  }
+  const server = asObject(asArray(doc.servers)[0]);
+  if (!server.url) {
+    return 'http://localhost';
+  }
+  const variables = asObject(server.variables);
+  const url = String(server.url).replace(/\{([^}]+)\}/g, (_m, name: string) =>
+    String(asObject(variables[name]).default ?? name)
+  );
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * Brings Swagger 2 and OpenAPI 3 operations to one shape (parameters, body, responses).
+ */
+function normalizeOperations(
+  doc: JsonObject,
+  version: 'openapi3' | 'swagger2',
+  resolve: SchemaResolver
+): NormalizedOperation[] {
+  const operations: NormalizedOperation[] = [];
+  for (const [path, rawItem] of Object.entries(asObject(doc.paths))) {
+    const item = resolve(rawItem);
+    for (const method of HTTP_METHODS) {
+      const operation = item[method];
+      if (!isJsonObject(operation)) {
+        continue;
+      }
+      const byKey = new Map<string, JsonObject>();
+      for (const raw of [...asArray(item.parameters), ...asArray(operation.parameters)]) {
+        const param = resolve(raw);
+        if (param.name && param.in) {
+          byKey.set(`${String(param.in)}:${String(param.name)}`, param);
+        }
+      }
+
+      const parameters: NormalizedParameter[] = [];
+      const formFields: Array<{ param: JsonObject }> = [];
+      let requestBody: NormalizedOperation['requestBody'];
+      for (const param of byKey.values()) {
+        if (version === 'swagger2' && param.in === 'body') {
+          const consumes = asStrings(operation.consumes ?? doc.consumes ?? ['application/json']);
+          requestBody = { contentType: pickContentType(consumes) ?? 'application/json', schema: asObject(param.schema) };
+          continue;
+        }
+        if (version === 'swagger2' && param.in === 'formData') {
+          formFields.push({ param });
+          continue;
+        }
+        const schema = version === 'swagger2' ? param : resolve(param.schema);
+        parameters.push({
+          name: String(param.name),
+          in: String(param.in),
+          required: param.in === 'path' || !!param.required,
+          schema,
+          example: param.example ?? param['x-example'],
+        });
+      }
+
+      if (version === 'swagger2' && formFields.length > 0) {
+        const consumes = asStrings(operation.consumes ?? doc.consumes);
+        const multipart = formFields.some(({ param }) => param.type === 'file') || consumes.includes('multipart/form-data');
+        const properties: JsonObject = {};
+        for (const { param } of formFields) {
+          properties[String(param.name)] = param.type === 'file' ? { type: 'string', format: 'binary' } : param;
+        }
+        requestBody = {
+          contentType: multipart ? 'multipart/form-data' : 'application/x-www-form-urlencoded',
+          schema: { type: 'object', properties },
+        };
+      }
+
+      if (version === 'openapi3' && operation.requestBody) {
+        const content = asObject(resolve(operation.requestBody).content);
+        const contentType = pickContentType(Object.keys(content));
+        if (contentType) {
+          const media = asObject(content[contentType]);
+          const named = Object.values(asObject(media.examples))[0];
+          requestBody = {
+            contentType,
+            schema: asObject(media.schema),
+            example: media.example ?? resolve(named).value,
+          };
+        }
+      }
+
+      const responses: NormalizedOperation['responses'] = [];
+      for (const [code, rawResponse] of Object.entries(asObject(operation.responses))) {
+        const response = resolve(rawResponse);
+        if (version === 'swagger2') {
+          const produces = asStrings(operation.produces ?? doc.produces ?? ['application/json']);
+          const schema = response.schema;
+          responses.push({ code, contentType: pickContentType(produces), schema: isJsonObject(schema) ? schema : undefined });
+        } else {
+          const content = asObject(response.content);
+          const contentType = pickContentType(Object.keys(content));
+          const schema = contentType ? asObject(content[contentType]).schema : undefined;
+          responses.push({ code, contentType, schema: isJsonObject(schema) ? schema : undefined });
+        }
+      }
+
+      operations.push({ method: method.toUpperCase(), path, operation, parameters, requestBody, responses });
+    }
+  }
+  return operations;
+}
+
+/**
+ * Auth headers / query parameters of an operation's first security requirement, plus the
+ * variables they use
+ */
+function buildAuth(
+  requirement: JsonObject | undefined,
+  schemes: JsonObject,
+  resolve: SchemaResolver,
+  variables: Record<string, string>
+): AuthHeader {
+  const auth: AuthHeader = { headers: {}, query: {} };
+  for (const schemeName of Object.keys(requirement ?? {})) {
+    const scheme = resolve(schemes[schemeName]);
+    const name = asString(scheme.name);
+    const type = String(scheme.type ?? '').toLowerCase();
+    const httpScheme = String(scheme.scheme ?? '').toLowerCase();
+    if (type === 'basic' || (type === 'http' && httpScheme === 'basic')) {
+      variables.basicAuth ??= '';
+      auth.headers.Authorization = 'Basic {{basicAuth}}';
+    } else if (type === 'http' || type === 'oauth2' || type === 'openidconnect') {
+      variables.accessToken ??= '';
+      auth.headers.Authorization = 'Bearer {{accessToken}}';
+    } else if (type === 'apikey' && name) {
+      const variable = toVariableName(schemeName);
+      variables[variable] ??= '';
+      if (scheme.in === 'query') {
+        auth.query[name] = `{{${variable}}}`;
+      } else if (scheme.in === 'cookie') {
+        auth.headers.Cookie = `${name}={{${variable}}}`;
+      } else {
+        auth.headers[name] = `{{${variable}}}`;
+      }
+    }
+  }
+  return auth;
+}
+
+function buildBody(
+  body: NonNullable<NormalizedOperation['requestBody']>,
+  resolve: SchemaResolver
+): string | undefined {
+  const example = body.example ?? buildSchemaExample(body.schema, resolve, 'request');
+  if (isJsonContentType(body.contentType)) {
+    return JSON.stringify(example ?? {}, null, 2);
+  }
+  const properties = Object.entries(asObject(resolve(body.schema).properties));
+  if (body.contentType === 'application/x-www-form-urlencoded') {
+    const values = asObject(example);
+    const fields: HttpRequestBodyField[] = properties.map(([key]) => ({
+      key,
+      value: formatScalar(values[key]),
+      type: 'text',
+    }));
+    return serializeUrlencodedFields(fields);
+  }
+  if (body.contentType.startsWith('multipart/')) {
+    const values = asObject(example);
+    const fields: HttpRequestBodyField[] = properties.map(([key, prop]) => {
+      const resolved = resolve(prop);
+      return resolved.format === 'binary'
+        ? { key, value: `./${key}.bin`, type: 'file' as const }
+        : { key, value: formatScalar(values[key]), type: 'text' as const };
+    });
+    return serializeMultipartFields(fields, DEFAULT_MULTIPART_BOUNDARY);
+  }
+  if (typeof example === 'string') {
+    return example;
+  }
+  return example === null || example === undefined ? undefined : JSON.stringify(example, null, 2);
+}
+
+/**
+ * Starter assertions: the documented success status(es) and, for JSON object responses,
+ * the required (or first few) properties
+ */
+function buildAssertions(op: NormalizedOperation, resolve: SchemaResolver): string[] {
+  const codes = op.responses.map((r) => r.code).filter((code) => /^\d{3}$/.test(code));
+  const success = codes.filter((code) => code.startsWith('2'));
+  const expected = (success.length > 0 ? success : codes.slice(0, 1)).map(Number).sort((a, b) => a - b);
+  const lines: string[] = [];
+  if (expected.length === 1) {
+    lines.push(`@assert("${OPENAPI_ASSERT_PREFIX}status is ${expected[0]}", "res.status", "equals", ${expected[0]})`);
+  } else if (expected.length > 1) {
+    lines.push(
+      `@assert("${OPENAPI_ASSERT_PREFIX}status is ${expected.join(' or ')}", "res.status", "in", [${expected.join(', ')}])`
+    );
+  }
+
+  const primary = op.responses.find((r) => r.code === String(expected[0]));
+  if (!primary?.schema || !isJsonContentType(primary.contentType)) {
+    return lines;
+  }
+  const schema = resolve(primary.schema);
+  if (schema.type === 'array') {
+    lines.push(`@assert("${OPENAPI_ASSERT_PREFIX}body is an array", "res.body", "isArray")`);
+    return lines;
+  }
+  const properties = Object.keys(asObject(schema.properties));
+  const required = Array.isArray(schema.required) ? asStrings(schema.required) : properties.slice(0, 3);
+  for (const name of required.filter((n) => /^[a-zA-Z_$][\w$]*$/.test(n)).slice(0, MAX_PROPERTY_ASSERTS)) {
+    lines.push(`@assert("${OPENAPI_ASSERT_PREFIX}body has ${name}", "res.body.${name}", "isDefined")`);
+  }
+  return lines;
+}
+
+function buildRequestFile(
+  op: NormalizedOperation,
+  auth: AuthHeader,
+  resolve: SchemaResolver
+): string {
+  const { operation } = op;
+  const title = String(operation.summary || operation.operationId || `${op.method} ${op.path}`)
+    .replace(/\s+/g, ' ')
+    .trim();
+  const lines: string[] = ['# @env dev', '', `## ${title}`, `# ${op.method} ${op.path}`];
+  if (operation.deprecated) {
+    lines.push('# Deprecated');
+  }
+  if (typeof operation.operationId === 'string' && /^[a-zA-Z_][\w-]*$/.test(operation.operationId)) {
+    lines.push(`# @name ${operation.operationId}`);
+  }
+
+  const varFor = (param: NormalizedParameter): string => {
+    const value = param.example ?? buildSchemaExample(param.schema, resolve, 'request');
+    lines.push(`# @var ${toVariableName(param.name)}=${formatScalar(value ?? '')}`);
+    return `{{${toVariableName(param.name)}}}`;
+  };
+
+  let path = op.path;
+  for (const param of op.parameters.filter((p) => p.in === 'path')) {
+    path = path.split(`{${param.name}}`).join(varFor(param));
+  }
+  const query: string[] = [];
+  const optional: string[] = [];
+  for (const param of op.parameters.filter((p) => p.in === 'query')) {
+    if (param.required) {
+      query.push(`${encodeURIComponent(param.name)}=${varFor(param)}`);
+    } else {
+      optional.push(param.name);
+    }
+  }
+  for (const [name, value] of Object.entries(auth.query)) {
+    query.push(`${encodeURIComponent(name)}=${value}`);
+  }
+  if (optional.length > 0) {
+    lines.push(`# Optional query: ${optional.join(', ')}`);
+  }
+
+  const assertions = buildAssertions(op, resolve);
+  if (assertions.length > 0) {
+    lines.push('/*', ...assertions.map((a) => ` * ${a}`), ' */');
+  }
+
+  lines.push(`${op.method} {{baseUrl}}${path}${query.length > 0 ? `?${query.join('&')}` : ''}`);
+  const success = op.responses.find((r) => r.code.startsWith('2') && r.contentType);
+  if (success?.contentType) {
+    lines.push(`Accept: ${success.contentType}`);
+  }
+  for (const param of op.parameters.filter((p) => p.in === 'header' && p.required)) {
+    if (!/^(accept|content-type|authorization)$/i.test(param.name)) {
+      lines.push(`${param.name}: ${formatScalar(param.example ?? buildSchemaExample(param.schema, resolve))}`);
+    }
+  }
+  for (const [name, value] of Object.entries(auth.headers)) {
+    lines.push(`${name}: ${value}`);
+  }
+
+  const body = op.requestBody ? buildBody(op.requestBody, resolve) : undefined;
+  if (op.requestBody && body !== undefined) {
+    const contentType = op.requestBody.contentType.startsWith('multipart/')
+      ? `multipart/form-data; boundary=${DEFAULT_MULTIPART_BOUNDARY}`
+      : op.requestBody.contentType;
+    lines.push(`Content-Type: ${contentType}`, '', body);
+  }
+  lines.push('', '###', '');
+  return lines.join('\n');
+}
+
+/**
+ * Generates request files for every operation of an OpenAPI 3 / Swagger 2 document
+ * @throws Error when `spec` is not an OpenAPI / Swagger document
+ */
+export function generateOpenApiRequests(spec: unknown): OpenApiImportResult {
+  const version = detectApiSpecVersion(spec);
+  if (!version) {
+    throw new Error('Not an OpenAPI 3.x or Swagger 2.0 document (missing "openapi" / "swagger" field).');
+  }
+  const doc = asObject(spec);
+  const resolve = createResolver(doc);
+  const title = String(asObject(doc.info).title || 'api');
+  const variables: Record<string, string> = { baseUrl: serverUrl(doc, version) };
+  const schemes = asObject(
+    version === 'swagger2' ? doc.securityDefinitions : asObject(doc.components).securitySchemes
+  );
+
+  const takenByTag = new Map<string, Set<string>>();
+  const tagFolders = new Map<string, string>();
+  const takenFolders = new Set<string>();
+  const files: OpenApiRequestFile[] = [];
+  for (const op of normalizeOperations(doc, version, resolve)) {
+    const tag = Array.isArray(op.operation.tags) && op.operation.tags.length > 0 ? String(op.operation.tags[0]) : 'default';
+    if (!tagFolders.has(tag)) {
+      tagFolders.set(tag, uniqueHttpRequestFileSlug(toHttpRequestFileSlug(tag, 'default'), takenFolders));
+    }
+    const folder = tagFolders.get(tag)!;
+    const taken = takenByTag.get(folder) ?? new Set<string>();
+    takenByTag.set(folder, taken);
+    const baseName = toHttpRequestFileSlug(
+      String(op.operation.operationId || `${op.method} ${op.path.replace(/[{}]/g, '')}`)
+    );
+    const fileName = uniqueHttpRequestFileSlug(baseName, taken);
+
+    const [requirement] = asArray(op.operation.security ?? doc.security);
+    const auth = buildAuth(isJsonObject(requirement) ? requirement : undefined, schemes, resolve, variables);
+    files.push({ relativePath: `${folder}/${fileName}.req`, content: buildRequestFile(op, auth, resolve) });
+  }
+
+  return { title, folderName: toHttpRequestFileSlug(title, 'api'), files, variables };
+}
+
+/**
+ * Updates a previously imported file with freshly generated content: generated
+ * (`OpenAPI: …`) assertions are replaced, every other `@assert` line and `# @var` values
+ * that are still used are kept.
+ */
+export function mergeImportedRequestFile(existing: string, generated: string): string {
+  const existingLines = existing.split(/\r?\n/);
+  const handWritten = existingLines
+    .map((line) => line.match(ASSERT_LINE_RE)?.[1])
+    .filter((line): line is string => !!line && !line.includes(`"${OPENAPI_ASSERT_PREFIX}`));
+  const varValues = new Map<string, string>();
+  for (const line of existingLines) {
+    const match = line.trim().match(VAR_LINE_RE);
+    if (match) {
+      varValues.set(match[1], match[2]);
+    }
+  }
+
+  const lines = generated.split('\n').map((line) => {
+    const match = line.trim().match(VAR_LINE_RE);
+    return match && varValues.has(match[1]) ? `# @var ${match[1]}=${varValues.get(match[1])}` : line;
+  });
+  const generatedAsserts = new Set(
+    lines.map((line) => line.match(ASSERT_LINE_RE)?.[1]).filter((line): line is string => !!line)
+  );
+  const kept = handWritten.filter((line) => !generatedAsserts.has(line));
+  if (kept.length === 0) {
+    return lines.join('\n');
+  }
+
+  const closing = lines.indexOf(' */');
+  if (closing >= 0) {
+    lines.splice(closing, 0, ...kept.map((line) => ` * ${line}`));
+    return lines.join('\n');
+  }
+  const methodLine = lines.findIndex((line) => /^[A-Z]+ \{\{baseUrl\}\}/.test(line));
+  lines.splice(methodLine >= 0 ? methodLine : lines.length, 0, '/*', ...kept.map((line) => ` * ${line}`), ' */');
+  return lines.join('\n');
+}
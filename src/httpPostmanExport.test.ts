@@ -0,0 +1,141 @@
+import * as assert from 'assert';
+import { extractAssertions } from './assertionParser';
+import { importPostmanCollection } from './httpCollectionImport';
+import { assertionToPostmanTest, exportPostmanCollection, POSTMAN_COLLECTION_SCHEMA } from './httpPostmanExport';
+
+const USERS_FILE = `# @env dev
+# @var userId=42
+
+## Get user
+/*
+ * @assert("status ok", "res.status", "equals", 200)
+ * @assert("has email", "res.body.contact.email", "matches", /@example\\.com$/)
+ * @assert("fast", "res.timings.ttfb", "lt", 100)
+ */
+GET {{baseUrl}}/users/{{userId}}?expand=roles
+Accept: application/json
+Authorization: Bearer {{token}}
+
+###
+
+## Create user
+POST {{baseUrl}}/users
+Content-Type: application/json
+
+{"name": "Ann", "id": "{{$guid}}"}
+
+> {% client.global.set('createdId', response.body.id); %}
+
+###
+`;
+
+const UPLOAD_FILE = `# @env dev
+
+## Upload
+POST {{baseUrl}}/upload
+Content-Type: multipart/form-data; boundary=----CursorToysFormBoundary
+
+------CursorToysFormBoundary
+Content-Disposition: form-data; name="note"
+
+hello
+------CursorToysFormBoundary
+Content-Disposition: form-data; name="file"; filename="a.txt"
+
+< ./a.txt
+------CursorToysFormBoundary--
+
+###
+
+## Events
+SSE {{baseUrl}}/events
+`;
+
+function runTests(): void {
+  testAssertionToPostmanTest();
+  testExportStructure();
+  testRoundTrip();
+  console.log('All httpPostmanExport tests passed.');
+}
+
+function testAssertionToPostmanTest(): void {
+  const [assertion] = extractAssertions('/*\n * @assert("header", "res.headers.content-type", "contains", "json")\n */');
+  assert.deepStrictEqual(assertionToPostmanTest(assertion), [
+    'pm.test("header", function () {',
+    '    pm.expect(pm.response.headers.get("content-type")).to.include("json");',
+    '});',
+  ]);
+  const [between] = extractAssertions('/*\n * @assert("res.status", "between", [200, 299])\n */');
+  assert.strictEqual(assertionToPostmanTest(between)?.[1], '    pm.expect(pm.response.code).to.be.within(200, 299);');
+  const [events] = extractAssertions('/*\n * @assert("res.messages", "isNotEmpty")\n */');
+  assert.strictEqual(assertionToPostmanTest(events), null);
+  const [schema] = extractAssertions('/*\n * @assert("res.body", "matchesSchema", {"type": "object"})\n */');
+  assert.strictEqual(assertionToPostmanTest(schema)?.[1], '    pm.expect(pm.response.json()).to.have.jsonSchema({"type":"object"});');
+  const [schemaFile] = extractAssertions('/*\n * @assert("res.body", "matchesSchema", "user.schema.json")\n */');
+  assert.strictEqual(assertionToPostmanTest(schemaFile), null);
+}
+
+function testExportStructure(): void {
+  const { collection, requestCount, warnings } = exportPostmanCollection('shop', [
+    { relativePath: 'users/users.req', content: USERS_FILE },
+    { relativePath: 'upload.req', content: UPLOAD_FILE },
+  ]);
+  assert.strictEqual(requestCount, 3);
+  assert.strictEqual(collection.info.schema, POSTMAN_COLLECTION_SCHEMA);
+  assert.deepStrictEqual(collection.variable, [{ key: 'userId', value: '42' }]);
+  assert.deepStrictEqual(
+    collection.item.map((i: any) => i.name),
+    ['Upload', 'users']
+  );
+
+  const upload = collection.item[0].request;
+  assert.deepStrictEqual(upload.header, []);
+  assert.deepStrictEqual(upload.body, {
+    mode: 'formdata',
+    formdata: [
+      { key: 'note', value: 'hello', type: 'text' },
+      { key: 'file', type: 'file', src: './a.txt' },
+    ],
+  });
+
+  const usersFolder = collection.item[1].item;
+  assert.strictEqual(usersFolder[0].name, 'users', 'a file with several requests becomes a folder');
+  const [getUser, createUser] = usersFolder[0].item;
+  assert.strictEqual(getUser.name, 'Get user');
+  assert.strictEqual(getUser.request.url.raw, '{{baseUrl}}/users/{{userId}}?expand=roles');
+  assert.deepStrictEqual(getUser.request.url.query, [{ key: 'expand', value: 'roles' }]);
+  assert.deepStrictEqual(getUser.request.auth, {
+    type: 'bearer',
+    bearer: [{ key: 'token', value: '{{token}}', type: 'string' }],
+  });
+  assert.deepStrictEqual(getUser.request.header, [{ key: 'Accept', value: 'application/json' }]);
+  const exec: string[] = getUser.event[0].script.exec;
+  assert.ok(exec.includes('    pm.expect(pm.response.json().contact.email).to.match(/@example\\.com$/);'));
+  assert.ok(exec.some((line) => line.startsWith('// Not exported: @assert("fast"')));
+  assert.deepStrictEqual(createUser.request.body.options, { raw: { language: 'json' } });
+  assert.strictEqual(createUser.request.body.raw, '{"name": "Ann", "id": "{{$guid}}"}', 'scripts are not part of the body');
+  assert.deepStrictEqual(createUser.event[0].script.exec, [
+    '// Not exported (request script):',
+    "//  client.global.set('createdId', response.body.id); ",
+  ]);
+  assert.ok(warnings.some((w) => w.includes('Request scripts')));
+
+  assert.ok(warnings.some((w) => w.includes('SSE')));
+}
+
+function testRoundTrip(): void {
+  const { collection } = exportPostmanCollection('shop', [{ relativePath: 'users.req', content: USERS_FILE }]);
+  const imported = importPostmanCollection(collection);
+  const get = imported.files[0].content;
+  assert.deepStrictEqual(
+    extractAssertions(get).map((a) => [a.description, a.expression, a.operator]),
+    [
+      ['status ok', 'res.status', 'equals'],
+      ['has email', 'res.body.contact.email', 'matches'],
+    ]
+  );
+  assert.ok(get.includes('GET {{baseUrl}}/users/{{userId}}?expand=roles\nAccept: application/json\nAuthorization: Bearer {{token}}'));
+  assert.deepStrictEqual(imported.variables, { userId: '42' });
+}
+
+runTests();
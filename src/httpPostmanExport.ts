@@ -0,0 +1,379 @@
+/**
+ * Export of a `.req` folder to a Postman Collection v2.1: directories become folders,
+ * `@assert` lines become `pm.test` scripts and `# @var` values collection variables.
+ * Pure helpers — no VS Code dependencies.
+ */
+import { extractAssertions, removeAssertionBlocks } from './assertionParser';
+import type { Assertion } from './assertionTypes';
+import {
+  getMultipartBoundary,
+  parseFileReferenceLine,
+  parseMultipartFields,
+  parseUrlencodedFields,
+} from './httpRequestBody';
+import { parseRestClientFormat } from './httpRequestParse';
+import { extractScriptBlocks, removeScriptBlocks, type HttpScriptBlock } from './httpScript';
+
+type JsonObject = Record<string, any>;
+
+export const POSTMAN_COLLECTION_SCHEMA = 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json';
+
+const METHOD_LINE_RE = /^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS|GRAPHQL|WSS|WS|SSE)\s+\S/i;
+const VAR_LINE_RE = /^#\s*@var\s+([a-zA-Z_][a-zA-Z0-9_]*)\s*=\s*(.*)$/;
+const NAME_LINE_RE = /^#\s*@name\s+([a-zA-Z_][\w-]*)/;
+
+/** A `.req` file to export, relative to the exported folder (`users/list.req`). */
+export interface PostmanExportFile {
+  relativePath: string;
+  content: string;
+}
+
+export interface PostmanExportResult {
+  collection: JsonObject;
+  requestCount: number;
+  warnings: string[];
+}
+
+interface RequestChunk {
+  title: string;
+  text: string;
+}
+
+/**
+ * Splits `.req` text into request chunks at `##` sections and `###` separators
+ */
+function splitRequestChunks(content: string, fallbackTitle: string): RequestChunk[] {
+  const chunks: RequestChunk[] = [];
+  let title = '';
+  let lines: string[] = [];
+  const flush = () => {
+    const text = lines.join('\n');
+    if (lines.some((line) => METHOD_LINE_RE.test(line.trim()))) {
+      const name = lines.map((line) => line.trim().match(NAME_LINE_RE)?.[1]).find(Boolean);
+      chunks.push({ title: title || name || fallbackTitle, text });
+    }
+    lines = [];
+  };
+
+  for (const line of content.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    const section = trimmed.match(/^##\s+(.+)$/);
+    const separator = trimmed.match(/^###(?:\s+(.+))?$/);
+    if (section || separator) {
+      flush();
+      title = (section?.[1] ?? separator?.[1] ?? '').trim() || (separator ? '' : title);
+      continue;
+    }
+    lines.push(line);
+  }
+  flush();
+  return chunks;
+}
+
+/** `{{$datetime iso8601}}` → `{{$isoTimestamp}}`; arguments are dropped for Postman. */
+function toPostmanTemplate(text: string, warnings: Set<string>): string {
+  return text.replace(/\{\{\s*([^{}]+?)\s*\}\}/g, (match, raw: string) => {
+    if (raw.startsWith('$')) {
+      const [name] = raw.split(/\s+/);
+      if (name === '$datetime') {
+        return '{{$isoTimestamp}}';
+      }
+      if (!['$guid', '$timestamp', '$randomInt'].includes(name)) {
+        warnings.add(`Dynamic variable {{${name}}} has no Postman equivalent and was kept as written.`);
+      }
+      return `{{${name}}}`;
+    }
+    if (raw.includes('.')) {
+      warnings.add(`Request chaining reference {{${raw}}} has no Postman equivalent and was kept as written.`);
+    }
+    return match;
+  });
+}
+
+function postmanUrl(raw: string): JsonObject {
+  const [base, query = ''] = raw.split(/\?(.*)$/s);
+  const protocolMatch = base.match(/^(\w+):\/\//);
+  const rest = protocolMatch ? base.slice(protocolMatch[0].length) : base;
+  const [host, ...path] = rest.split('/');
+  const url: JsonObject = { raw, host: host.startsWith('{{') ? [host] : host.split('.'), path };
+  if (protocolMatch) {
+    url.protocol = protocolMatch[1];
+  }
+  if (query) {
+    url.query = query.split('&').map((pair) => {
+      const index = pair.indexOf('=');
+      return index < 0 ? { key: pair, value: null } : { key: pair.slice(0, index), value: pair.slice(index + 1) };
+    });
+  }
+  return url;
+}
+
+/** JavaScript accessor for an assertion expression (`res.body.items[0].id`), or null. */
+function toScriptTarget(assertion: Assertion): string | null {
+  const expression = assertion.expression.trim();
+  if (expression === 'res.status') {
+    return 'pm.response.code';
+  }
+  if (expression === 'res.timings.total') {
+    return 'pm.response.responseTime';
+  }
+  const header = expression.match(/^res\.headers\.(.+)$/);
+  if (header) {
+    return `pm.response.headers.get(${JSON.stringify(header[1])})`;
+  }
+  if (expression === 'res.body') {
+    return ['contains', 'notContains', 'startsWith', 'endsWith', 'matches', 'notMatches'].includes(assertion.operator)
+      ? 'pm.response.text()'
+      : 'pm.response.json()';
+  }
+  const body = expression.match(/^res\.body((?:\.[^.[\]]+|\[\d+\])+)$/);
+  if (!body) {
+    return null;
+  }
+  const path = body[1].replace(/\.([^.[\]]+)/g, (_m, key: string) =>
+    /^[a-zA-Z_$][\w$]*$/.test(key) ? `.${key}` : `[${JSON.stringify(key)}]`
+  );
+  return `pm.response.json()${path}`;
+}
+
+function formatExpected(value: Assertion['expected']): string {
+  return value instanceof RegExp ? String(value) : JSON.stringify(value);
+}
+
+/**
+ * Postman `pm.test` lines for an assertion, or null when it has no Postman equivalent
+ */
+export function assertionToPostmanTest(assertion: Assertion): string[] | null {
+  const target = toScriptTarget(assertion);
+  if (!target || assertion.quantifier) {
+    return null;
+  }
+  const expected = formatExpected(assertion.expected);
+  const chains: Record<string, string> = {
+    equals: `.to.eql(${expected})`,
+    notEquals: `.to.not.eql(${expected})`,
+    gt: `.to.be.above(${expected})`,
+    gte: `.to.be.at.least(${expected})`,
+    lt: `.to.be.below(${expected})`,
+    lte: `.to.be.at.most(${expected})`,
+    contains: `.to.include(${expected})`,
+    notContains: `.to.not.include(${expected})`,
+    matches: `.to.match(${expected})`,
+    notMatches: `.to.not.match(${expected})`,
+    isNull: '.to.be.null',
+    isNotNull: '.to.not.be.null',
+    isEmpty: '.to.be.empty',
+    isNotEmpty: '.to.not.be.empty',
+    isDefined: '.to.not.be.undefined',
+    isUndefined: '.to.be.undefined',
+    isTruthy: '.to.be.ok',
+    isFalsy: '.to.not.be.ok',
+    isNumber: ".to.be.a('number')",
+    isString: ".to.be.a('string')",
+    isBoolean: ".to.be.a('boolean')",
+    isArray: ".to.be.an('array')",
+    in: `.to.be.oneOf(${expected})`,
+    notIn: `.to.not.be.oneOf(${expected})`,
+    length: `.to.have.lengthOf(${expected})`,
+  };
+  let statement: string;
+  if (assertion.operator === 'startsWith' || assertion.operator === 'endsWith') {
+    statement = `pm.expect(String(${target}).${assertion.operator}(${expected})).to.be.true;`;
+  } else if (assertion.operator === 'between' && Array.isArray(assertion.expected)) {
+    statement = `pm.expect(${target}).to.be.within(${assertion.expected.map((v) => JSON.stringify(v)).join(', ')});`;
+  } else if (assertion.operator === 'matchesSchema') {
+    // Schema files are not bundled into the collection
+    if (!assertion.expected || typeof assertion.expected !== 'object' || Array.isArray(assertion.expected)) {
+      return null;
+    }
+    statement = `pm.expect(${target}).to.have.jsonSchema(${expected});`;
+  } else if (assertion.operator === 'isJson') {
+    statement = `pm.expect(${target}).to.be.an('object');`;
+  } else if (chains[assertion.operator]) {
+    statement = `pm.expect(${target})${chains[assertion.operator]};`;
+  } else {
+    return null;
+  }
+  const name = assertion.description || `${assertion.expression} ${assertion.operator}`;
+  return [`pm.test(${JSON.stringify(name)}, function () {`, `    ${statement}`, '});'];
+}
+
+function buildPostmanBody(
+  method: string,
+  headers: Record<string, string>,
+  body: string | undefined,
+  warnings: Set<string>
+): { body?: JsonObject; dropHeaders: string[] } {
+  if (body === undefined || body === '') {
+    return { dropHeaders: [] };
+  }
+  const contentTypeKey = Object.keys(headers).find((k) => k.toLowerCase() === 'content-type');
+  const contentType = contentTypeKey ? headers[contentTypeKey] : '';
+
+  if (method === 'GRAPHQL') {
+    try {
+      const parsed = JSON.parse(body);
+      return {
+        body: {
+          mode: 'graphql',
+          graphql: { query: parsed.query ?? '', variables: parsed.variables ? JSON.stringify(parsed.variables, null, 2) : '' },
+        },
+        dropHeaders: [],
+      };
+    } catch {
+      // built by buildGraphqlRequestBody, always JSON
+    }
+  }
+  const file = body.includes('\n') ? null : parseFileReferenceLine(body);
+  if (file) {
+    return { body: { mode: 'file', file: { src: file.path } }, dropHeaders: [] };
+  }
+  if (/application\/x-www-form-urlencoded/i.test(contentType)) {
+    const fields = parseUrlencodedFields(body).map((f) => ({ key: f.key, value: toPostmanTemplate(f.value, warnings) }));
+    return { body: { mode: 'urlencoded', urlencoded: fields }, dropHeaders: [] };
+  }
+  const boundary = getMultipartBoundary(contentType);
+  if (boundary) {
+    const formdata = parseMultipartFields(body, boundary).map((f) =>
+      f.type === 'file'
+        ? { key: f.key, type: 'file', src: f.value }
+        : { key: f.key, value: toPostmanTemplate(f.value, warnings), type: 'text' }
+    );
+    // Postman writes its own boundary
+    return { body: { mode: 'formdata', formdata }, dropHeaders: contentTypeKey ? [contentTypeKey] : [] };
+  }
+  const language = /json/i.test(contentType) ? 'json' : /xml/i.test(contentType) ? 'xml' : /html/i.test(contentType) ? 'html' : 'text';
+  return {
+    body: { mode: 'raw', raw: toPostmanTemplate(body, warnings), options: { raw: { language } } },
+    dropHeaders: [],
+  };
+}
+
+function scriptAsComments(script: HttpScriptBlock): string[] {
+  return ['// Not exported (request script):', ...script.code.split('\n').map((line) => `// ${line}`)];
+}
+
+/**
+ * Postman item for one request chunk, or null when the chunk cannot be exported
+ */
+function buildPostmanItem(chunk: RequestChunk, warnings: Set<string>): JsonObject | null {
+  const methodLine = chunk.text.split('\n').map((line) => line.trim()).find((line) => METHOD_LINE_RE.test(line)) ?? '';
+  const method = methodLine.split(/\s+/)[0].toUpperCase();
+  if (['WS', 'WSS', 'SSE'].includes(method)) {
+    warnings.add(`${method} requests have no Postman collection equivalent and were skipped ("${chunk.title}").`);
+    return null;
+  }
+  const config = parseRestClientFormat(removeScriptBlocks(removeAssertionBlocks(chunk.text)));
+  if (!config?.url) {
+    return null;
+  }
+
+  const headers = config.headers ?? {};
+  const body = buildPostmanBody(method, headers, typeof config.body === 'string' ? config.body : undefined, warnings);
+  const request: JsonObject = {
+    method: method === 'GRAPHQL' ? 'POST' : method,
+    header: Object.entries(headers)
+      .filter(([key]) => !body.dropHeaders.includes(key))
+      .map(([key, value]) => ({ key, value: toPostmanTemplate(value, warnings) })),
+    url: postmanUrl(toPostmanTemplate(config.url, warnings)),
+  };
+  if (body.body) {
+    request.body = body.body;
+  }
+  const authIndex = request.header.findIndex(
+    (h: JsonObject) => h.key.toLowerCase() === 'authorization' && /^Bearer\s+\S+$/.test(h.value)
+  );
+  if (authIndex >= 0) {
+    const token = request.header[authIndex].value.replace(/^Bearer\s+/, '');
+    request.auth = { type: 'bearer', bearer: [{ key: 'token', value: token, type: 'string' }] };
+    request.header.splice(authIndex, 1);
+  }
+
+  const exec: string[] = [];
+  for (const assertion of extractAssertions(chunk.text)) {
+    const lines = assertionToPostmanTest(assertion);
+    if (lines) {
+      exec.push(...lines);
+    } else {
+      exec.push(`// Not exported: ${assertion.raw ?? assertion.expression}`);
+      warnings.add('Some assertions have no Postman equivalent; they are kept as comments in the test scripts.');
+    }
+  }
+
+  const scripts = extractScriptBlocks(chunk.text);
+  const prerequest = scripts.filter((s) => s.phase === 'pre-request').flatMap(scriptAsComments);
+  exec.push(...scripts.filter((s) => s.phase === 'post-response').flatMap(scriptAsComments));
+  if (scripts.length > 0) {
+    warnings.add('Request scripts use a different API than Postman; they are kept as comments in the item scripts.');
+  }
+
+  const item: JsonObject = { name: chunk.title, request };
+  const events: JsonObject[] = [];
+  if (prerequest.length > 0) {
+    events.push({ listen: 'prerequest', script: { type: 'text/javascript', exec: prerequest } });
+  }
+  if (exec.length > 0) {
+    events.push({ listen: 'test', script: { type: 'text/javascript', exec } });
+  }
+  if (events.length > 0) {
+    item.event = events;
+  }
+  return item;
+}
+
+/**
+ * Builds a Postman Collection v2.1 from `.req` files. A file with one request becomes an
+ * item, a file with several becomes a folder named after the file.
+ */
+export function exportPostmanCollection(name: string, files: PostmanExportFile[]): PostmanExportResult {
+  const warnings = new Set<string>();
+  const root: JsonObject[] = [];
+  const folders = new Map<string, JsonObject[]>([['', root]]);
+  const folderItems = (dir: string): JsonObject[] => {
+    if (!folders.has(dir)) {
+      const index = dir.lastIndexOf('/');
+      const items: JsonObject[] = [];
+      folderItems(index < 0 ? '' : dir.slice(0, index)).push({ name: dir.slice(index + 1), item: items });
+      folders.set(dir, items);
+    }
+    return folders.get(dir)!;
+  };
+
+  const variables = new Map<string, string>();
+  let requestCount = 0;
+  const sorted = [...files].sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+  for (const file of sorted) {
+    const segments = file.relativePath.split('/');
+    const baseName = segments.pop()!.replace(/\.[^.]+$/, '');
+    for (const line of file.content.split(/\r?\n/)) {
+      const match = line.trim().match(VAR_LINE_RE);
+      if (!match) {
+        continue;
+      }
+      if (variables.has(match[1]) && variables.get(match[1]) !== match[2]) {
+        warnings.add(`# @var ${match[1]} has different values across files; the first one was exported.`);
+      } else {
+        variables.set(match[1], match[2]);
+      }
+    }
+
+    const items = splitRequestChunks(file.content, baseName)
+      .map((chunk) => buildPostmanItem(chunk, warnings))
+      .filter((item): item is JsonObject => item !== null);
+    if (items.length === 0) {
+      continue;
+    }
+    requestCount += items.length;
+    const parent = folderItems(segments.join('/'));
+    parent.push(...(items.length === 1 ? items : [{ name: baseName, item: items }]));
+  }
+
+  const collection: JsonObject = {
+    info: { name, schema: POSTMAN_COLLECTION_SCHEMA },
+    item: root,
+  };
+  if (variables.size > 0) {
+    collection.variable = [...variables].map(([key, value]) => ({ key, value: toPostmanTemplate(value, warnings) }));
+  }
+  return { collection, requestCount, warnings: [...warnings] };
+}
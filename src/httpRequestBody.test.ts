@@ -0,0 +1,141 @@
+import * as assert from 'assert';
+import {
+  buildCurlBodyArgs,
+  buildRequestPayload,
+  detectBodyMode,
+  encodeUrlencodedBody,
+  getMultipartBoundary,
+  inlineVariableFileReferences,
+  parseFileReferenceLine,
+  parseMultipartFields,
+  parseUrlencodedFields,
+  serializeMultipartFields,
+} from './httpRequestBody';
+
+const FILES: Record<string, Buffer> = {
+  './payload.json': Buffer.from('{"id":1}\n'),
+  './logo.png': Buffer.from([0x89, 0x50, 0x4e, 0x47]),
+  './template.json': Buffer.from('{"user":"{{USER}}"}\n'),
+};
+
+function readFile(filePath: string): Buffer {
+  const file = FILES[filePath];
+  if (!file) {
+    throw new Error(`ENOENT: ${filePath}`);
+  }
+  return file;
+}
+
+const MULTIPART = [
+  '--XyZ',
+  'Content-Disposition: form-data; name="title"',
+  '',
+  'Hello world',
+  '--XyZ',
+  'Content-Disposition: form-data; name="logo"; filename="logo.png"',
+  'Content-Type: image/png',
+  '',
+  '< ./logo.png',
+  '--XyZ--',
+].join('\n');
+
+function runTests(): void {
+  testFileReferences();
+  testDetectBodyMode();
+  testUrlencoded();
+  testMultipartFields();
+  testBuildRequestPayload();
+  testCurlBodyArgs();
+  console.log('All httpRequestBody tests passed.');
+}
+
+function testFileReferences(): void {
+  assert.deepStrictEqual(parseFileReferenceLine('< ./payload.json'), {
+    path: './payload.json',
+    processVariables: false,
+  });
+  assert.deepStrictEqual(parseFileReferenceLine('<@ "./a b.json"'), {
+    path: './a b.json',
+    processVariables: true,
+  });
+  assert.strictEqual(parseFileReferenceLine('<html>'), null);
+
+  const inlined = inlineVariableFileReferences(
+    'POST https://x.test\n\n<@ ./template.json',
+    (filePath) => readFile(filePath).toString('utf8')
+  );
+  assert.strictEqual(inlined, 'POST https://x.test\n\n{"user":"{{USER}}"}');
+  // Raw `<` includes stay for the send step
+  assert.strictEqual(inlineVariableFileReferences('< ./payload.json', () => 'x'), '< ./payload.json');
+}
+
+function testDetectBodyMode(): void {
+  assert.strictEqual(getMultipartBoundary('multipart/form-data; boundary="a b"'), 'a b');
+  assert.strictEqual(getMultipartBoundary('application/json'), null);
+  assert.strictEqual(detectBodyMode({ 'Content-Type': 'multipart/form-data; boundary=XyZ' }, MULTIPART), 'multipart');
+  assert.strictEqual(detectBodyMode({}, '< ./payload.json'), 'file');
+  assert.strictEqual(detectBodyMode({ 'content-type': 'application/x-www-form-urlencoded' }, 'a=1'), 'urlencoded');
+  assert.strictEqual(detectBodyMode({ 'Content-Type': 'application/json' }, '{}'), 'raw');
+}
+
+function testUrlencoded(): void {
+  assert.deepStrictEqual(parseUrlencodedFields('name=Ada Lovelace\n&city=London\nflag'), [
+    { key: 'name', value: 'Ada Lovelace', type: 'text' },
+    { key: 'city', value: 'London', type: 'text' },
+    { key: 'flag', value: '', type: 'text' },
+  ]);
+  assert.strictEqual(parseUrlencodedFields('a=1&b=2').length, 2);
+  assert.strictEqual(encodeUrlencodedBody('name=Ada Lovelace\nq=a&b'), 'name=Ada%20Lovelace&q=a%26b');
+  assert.strictEqual(encodeUrlencodedBody('a=1%202&b=3'), 'a=1%202&b=3');
+}
+
+function testMultipartFields(): void {
+  const fields = parseMultipartFields(MULTIPART, 'XyZ');
+  assert.deepStrictEqual(fields, [
+    { key: 'title', value: 'Hello world', type: 'text' },
+    { key: 'logo', value: './logo.png', type: 'file', contentType: 'image/png' },
+  ]);
+  assert.strictEqual(serializeMultipartFields(fields, 'XyZ'), MULTIPART);
+}
+
+function testBuildRequestPayload(): void {
+  assert.strictEqual(buildRequestPayload('{"a":1}', { 'Content-Type': 'application/json' }, readFile), null);
+  assert.deepStrictEqual(buildRequestPayload('< ./payload.json', {}, readFile), FILES['./payload.json']);
+  assert.strictEqual(
+    buildRequestPayload('a=1\nb=x y', { 'Content-Type': 'application/x-www-form-urlencoded' }, readFile)!.toString(),
+    'a=1&b=x%20y'
+  );
+
+  const payload = buildRequestPayload(MULTIPART, { 'Content-Type': 'multipart/form-data; boundary=XyZ' }, readFile)!;
+  const expected = Buffer.concat([
+    Buffer.from(
+      '--XyZ\r\nContent-Disposition: form-data; name="title"\r\n\r\nHello world\r\n' +
+        '--XyZ\r\nContent-Disposition: form-data; name="logo"; filename="logo.png"\r\nContent-Type: image/png\r\n\r\n'
+    ),
+    FILES['./logo.png'],
+    Buffer.from('\r\n--XyZ--\r\n'),
+  ]);
+  assert.deepStrictEqual(payload, expected);
+
+  assert.throws(() => buildRequestPayload('< ./missing.bin', {}, readFile), /ENOENT/);
+}
+
+function testCurlBodyArgs(): void {
+  const resolvePath = (filePath: string): string => `/req/${filePath.replace(/^\.\//, '')}`;
+  const multipart = buildCurlBodyArgs(MULTIPART, { 'Content-Type': 'multipart/form-data; boundary=XyZ' }, resolvePath);
+  assert.deepStrictEqual(multipart, {
+    args: ["--form-string 'title=Hello world'", "-F 'logo=@/req/logo.png;type=image/png'"],
+    dropContentType: true,
+  });
+  assert.deepStrictEqual(buildCurlBodyArgs('< ./payload.json', {}, resolvePath), {
+    args: ["--data-binary '@/req/payload.json'"],
+    dropContentType: false,
+  });
+  assert.deepStrictEqual(
+    buildCurlBodyArgs("a=1\nb=it's", { 'Content-Type': 'application/x-www-form-urlencoded' }, resolvePath)!.args,
+    ["--data-urlencode 'a=1'", "--data-urlencode 'b=it'\\''s'"]
+  );
+  assert.strictEqual(buildCurlBodyArgs('{}', {}, resolvePath), null);
+}
+
+runTests();
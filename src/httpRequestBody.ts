@@ -0,0 +1,297 @@
+/**
+ * Request bodies beyond raw text: `< ./file` includes, urlencoded key/value lines and
+ * multipart/form-data parts. Pure helpers — no VS Code dependencies.
+ */
+import * as path from 'path';
+
+/** How a request body is written (and edited in the visual editor). */
+export type HttpRequestBodyMode = 'raw' | 'urlencoded' | 'multipart' | 'file';
+
+/** One urlencoded field or multipart part; file parts keep the path in `value`. */
+export interface HttpRequestBodyField {
+  key: string;
+  value: string;
+  type: 'text' | 'file';
+  /** Part Content-Type (multipart file parts). */
+  contentType?: string;
+}
+
+/** Boundary used when the editor creates a multipart body. */
+export const DEFAULT_MULTIPART_BOUNDARY = '----CursorToysFormBoundary';
+
+const FILE_REFERENCE_RE = /^<(@)?\s+(\S.*)$/;
+
+/**
+ * Reads a `< ./file` (raw bytes) or `<@ ./file` (text with variables) line.
+ */
+export function parseFileReferenceLine(
+  line: string
+): { path: string; processVariables: boolean } | null {
+  const match = line.trim().match(FILE_REFERENCE_RE);
+  if (!match) {
+    return null;
+  }
+  return { path: match[2].trim().replace(/^["']|["']$/g, ''), processVariables: match[1] === '@' };
+}
+
+function getHeaderValue(headers: Record<string, string>, name: string): string | undefined {
+  const lower = name.toLowerCase();
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === lower);
+  return key ? headers[key] : undefined;
+}
+
+/**
+ * Boundary from a `multipart/form-data; boundary=...` Content-Type, or null.
+ */
+export function getMultipartBoundary(contentType: string | undefined): string | null {
+  if (!contentType || !/^\s*multipart\//i.test(contentType)) {
+    return null;
+  }
+  const match = contentType.match(/boundary\s*=\s*(?:"([^"]+)"|([^;\s]+))/i);
+  return match ? (match[1] ?? match[2]) : null;
+}
+
+function isUrlencoded(contentType: string | undefined): boolean {
+  return !!contentType && /^\s*application\/x-www-form-urlencoded/i.test(contentType);
+}
+
+function isSingleFileReference(body: string): boolean {
+  const lines = body.trim().split(/\r?\n/);
+  return lines.length === 1 && parseFileReferenceLine(lines[0]) !== null;
+}
+
+/**
+ * Detects how a body is written from its headers and text.
+ */
+export function detectBodyMode(
+  headers: Record<string, string>,
+  body: string
+): HttpRequestBodyMode {
+  const contentType = getHeaderValue(headers, 'content-type');
+  if (getMultipartBoundary(contentType)) {
+    return 'multipart';
+  }
+  if (isSingleFileReference(body)) {
+    return 'file';
+  }
+  if (isUrlencoded(contentType)) {
+    return 'urlencoded';
+  }
+  return 'raw';
+}
+
+/**
+ * Splits urlencoded text into fields: one `key=value` per line (a leading `&` is allowed),
+ * or a single `a=1&b=2` line.
+ */
+export function parseUrlencodedFields(body: string): HttpRequestBodyField[] {
+  const lines = body.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
+  const pairs = lines.length === 1 ? lines[0].split('&') : lines.map((l) => l.replace(/^&/, ''));
+  return pairs
+    .filter((pair) => pair.length > 0)
+    .map((pair) => {
+      const eq = pair.indexOf('=');
+      return {
+        key: (eq < 0 ? pair : pair.slice(0, eq)).trim(),
+        value: eq < 0 ? '' : pair.slice(eq + 1).trim(),
+        type: 'text' as const,
+      };
+    });
+}
+
+/**
+ * Writes urlencoded fields as `key=value` lines (the form stored in `.req` files).
+ */
+export function serializeUrlencodedFields(fields: HttpRequestBodyField[]): string {
+  return fields
+    .filter((f) => f.key.trim())
+    .map((f) => `${f.key.trim()}=${f.value}`)
+    .join('\n');
+}
+
+/**
+ * Wire form of a urlencoded body. Key/value lines are percent-encoded; a single line
+ * is sent as written (assumed already encoded).
+ */
+export function encodeUrlencodedBody(body: string): string {
+  const lines = body.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
+  if (lines.length <= 1) {
+    return lines[0] ?? '';
+  }
+  return parseUrlencodedFields(body)
+    .map((f) => `${encodeURIComponent(f.key)}=${encodeURIComponent(f.value)}`)
+    .join('&');
+}
+
+function readDispositionParam(disposition: string, param: string): string | undefined {
+  const match = disposition.match(new RegExp(`(?:^|;)\\s*${param}\\s*=\\s*(?:"([^"]*)"|([^;]*))`, 'i'));
+  if (!match) {
+    return undefined;
+  }
+  return (match[1] ?? match[2] ?? '').trim();
+}
+
+/**
+ * Parses a multipart body as written in a `.req` file into fields.
+ */
+export function parseMultipartFields(body: string, boundary: string): HttpRequestBodyField[] {
+  const delimiter = `--${boundary}`;
+  const fields: HttpRequestBodyField[] = [];
+  let current: string[] | null = null;
+
+  const flush = (): void => {
+    if (!current) {
+      return;
+    }
+    const blank = current.findIndex((l) => l.trim() === '');
+    const headerLines = blank < 0 ? current : current.slice(0, blank);
+    const contentLines = blank < 0 ? [] : current.slice(blank + 1);
+    const partHeaders: Record<string, string> = {};
+    for (const line of headerLines) {
+      const colon = line.indexOf(':');
+      if (colon > 0) {
+        partHeaders[line.slice(0, colon).trim()] = line.slice(colon + 1).trim();
+      }
+    }
+    const disposition = getHeaderValue(partHeaders, 'content-disposition') ?? '';
+    const content = contentLines.join('\n');
+    const fileRef = contentLines.length === 1 ? parseFileReferenceLine(contentLines[0]) : null;
+    const contentType = getHeaderValue(partHeaders, 'content-type');
+    fields.push({
+      key: readDispositionParam(disposition, 'name') ?? '',
+      value: fileRef ? fileRef.path : content,
+      type: fileRef ? 'file' : 'text',
+      ...(contentType ? { contentType } : {}),
+    });
+  };
+
+  for (const rawLine of body.split(/\r?\n/)) {
+    const line = rawLine.trimEnd();
+    if (line === delimiter || line === `${delimiter}--`) {
+      flush();
+      current = line === delimiter ? [] : null;
+      continue;
+    }
+    current?.push(line);
+  }
+  flush();
+  return fields;
+}
+
+/**
+ * Writes fields as a multipart body for a `.req` file (file parts become `< path` lines).
+ */
+export function serializeMultipartFields(fields: HttpRequestBodyField[], boundary: string): string {
+  const lines: string[] = [];
+  for (const field of fields) {
+    if (!field.key.trim()) {
+      continue;
+    }
+    lines.push(`--${boundary}`);
+    if (field.type === 'file') {
+      lines.push(
+        `Content-Disposition: form-data; name="${field.key.trim()}"; filename="${path.basename(field.value.trim())}"`
+      );
+      lines.push(`Content-Type: ${field.contentType || 'application/octet-stream'}`);
+      lines.push('', `< ${field.value.trim()}`);
+    } else {
+      lines.push(`Content-Disposition: form-data; name="${field.key.trim()}"`);
+      if (field.contentType) {
+        lines.push(`Content-Type: ${field.contentType}`);
+      }
+      lines.push('', field.value);
+    }
+  }
+  lines.push(`--${boundary}--`);
+  return lines.join('\n');
+}
+
+/**
+ * Replaces `<@ ./file` lines with the file text so variables inside it get resolved.
+ */
+export function inlineVariableFileReferences(
+  content: string,
+  readText: (filePath: string) => string
+): string {
+  return content
+    .split('\n')
+    .map((line) => {
+      const ref = parseFileReferenceLine(line);
+      return ref?.processVariables ? readText(ref.path).replace(/\r?\n$/, '') : line;
+    })
+    .join('\n');
+}
+
+/**
+ * Builds the bytes to send for bodies with file includes, multipart parts, or urlencoded
+ * lines. Returns null for plain bodies, which are sent as written.
+ * @param readFile Reads a referenced file (path as written, relative to the request file)
+ */
+export function buildRequestPayload(
+  body: string,
+  headers: Record<string, string>,
+  readFile: (filePath: string) => Buffer
+): Buffer | null {
+  const contentType = getHeaderValue(headers, 'content-type');
+  const boundary = getMultipartBoundary(contentType);
+  if (boundary) {
+    const chunks: Buffer[] = [];
+    body.split(/\r?\n/).forEach((line, index) => {
+      if (index > 0) {
+        chunks.push(Buffer.from('\r\n'));
+      }
+      const ref = parseFileReferenceLine(line);
+      chunks.push(ref ? readFile(ref.path) : Buffer.from(line, 'utf8'));
+    });
+    chunks.push(Buffer.from('\r\n'));
+    return Buffer.concat(chunks);
+  }
+  if (isSingleFileReference(body)) {
+    return readFile(parseFileReferenceLine(body.trim())!.path);
+  }
+  if (isUrlencoded(contentType)) {
+    return Buffer.from(encodeUrlencodedBody(body), 'utf8');
+  }
+  return null;
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * curl arguments for structured bodies (`-F`, `--data-urlencode`, `--data-binary @file`),
+ * or null for plain bodies. `dropContentType` is set when curl writes its own boundary.
+ * @param resolvePath Turns a referenced path into an absolute one
+ */
+export function buildCurlBodyArgs(
+  body: string,
+  headers: Record<string, string>,
+  resolvePath: (filePath: string) => string
+): { args: string[]; dropContentType: boolean } | null {
+  const contentType = getHeaderValue(headers, 'content-type');
+  const boundary = getMultipartBoundary(contentType);
+  if (boundary) {
+    const args = parseMultipartFields(body, boundary)
+      .filter((f) => f.key)
+      .map((f) => {
+        if (f.type === 'file') {
+          const type = f.contentType ? `;type=${f.contentType}` : '';
+          return `-F ${shellQuote(`${f.key}=@${resolvePath(f.value)}${type}`)}`;
+        }
+        return `--form-string ${shellQuote(`${f.key}=${f.value}`)}`;
+      });
+    return { args, dropContentType: true };
+  }
+  if (isSingleFileReference(body)) {
+    const ref = parseFileReferenceLine(body.trim())!;
+    return { args: [`--data-binary ${shellQuote(`@${resolvePath(ref.path)}`)}`], dropContentType: false };
+  }
+  if (isUrlencoded(contentType) && body.trim().split(/\r?\n/).length > 1) {
+    const args = parseUrlencodedFields(body).map(
+      (f) => `--data-urlencode ${shellQuote(`${f.key}=${f.value}`)}`
+    );
+    return { args, dropContentType: false };
+  }
+  return null;
+}
@@ -0,0 +1,162 @@
+import * as assert from 'assert';
+import {
+  evaluateSimpleJsonPath,
+  findChainReferences,
+  findRequestName,
+  listReferencedRequestNames,
+  NamedExchange,
+  NamedResponseStore,
+  replaceChainReferences,
+  resolveChainReference,
+} from './httpRequestChaining';
+
+function runTests(): void {
+  testFindRequestName();
+  testFindChainReferences();
+  testEvaluateSimpleJsonPath();
+  testResolveChainReference();
+  testReplaceChainReferences();
+  testQueryLanguages();
+  testNamedResponseStore();
+  console.log('All httpRequestChaining tests passed.');
+}
+
+const exchange: NamedExchange = {
+  request: {
+    method: 'POST',
+    url: 'https://api.example.com/login',
+    headers: { 'Content-Type': 'application/json' },
+    body: '{"user":"ada"}',
+  },
+  response: {
+    statusCode: 200,
+    statusText: 'OK',
+    headers: { 'Set-Cookie': 'sid=1', Location: '/home' },
+    body: JSON.stringify({ token: 'abc', items: [{ id: 7 }], meta: { 'x-y': true } }),
+  },
+  storedAt: 1000,
+};
+
+function testFindRequestName(): void {
+  const lines = [
+    '## Login',
+    '# @name login',
+    'POST {{BASE_URL}}/login',
+    '',
+    '## Profile',
+    'GET {{BASE_URL}}/me',
+    '# @name other',
+    'GET {{BASE_URL}}/other',
+  ];
+  assert.strictEqual(findRequestName(lines, 0, 3), 'login');
+  assert.strictEqual(findRequestName(lines, 2, 3), 'login');
+  // the next block's name is not picked up by the block above it
+  assert.strictEqual(findRequestName(lines, 4, 5), null);
+  assert.strictEqual(findRequestName(lines, 7, 7), 'other');
+}
+
+function testFindChainReferences(): void {
+  const refs = findChainReferences(
+    'Authorization: Bearer {{login.response.body.$.token}} {{ login.response.headers.Location }} {{BASE_URL}}'
+  );
+  assert.strictEqual(refs.length, 2);
+  assert.deepStrictEqual(refs[0], {
+    name: 'login',
+    placeholder: '{{login.response.body.$.token}}',
+    part: 'response',
+    section: 'body',
+    path: '$.token',
+  });
+  assert.strictEqual(refs[1].section, 'headers');
+  assert.strictEqual(refs[1].path, 'Location');
+  assert.deepStrictEqual(
+    listReferencedRequestNames('{{a.response.body}} {{b.request.headers.X}} {{a.response.body.$.x}}'),
+    ['a', 'b']
+  );
+}
+
+function testEvaluateSimpleJsonPath(): void {
+  const value = { a: { b: [{ c: 1 }, { c: 2 }] }, 'd-e': 'x' };
+  assert.strictEqual(evaluateSimpleJsonPath(value, '$.a.b[1].c'), 2);
+  assert.strictEqual(evaluateSimpleJsonPath(value, "$['d-e']"), 'x');
+  assert.strictEqual(evaluateSimpleJsonPath(value, 'a.b[0].c'), 1);
+  assert.strictEqual(evaluateSimpleJsonPath(value, '$.missing.x'), undefined);
+}
+
+function testResolveChainReference(): void {
+  const [token, item, meta, whole, header, reqBody, missing] = findChainReferences(
+    [
+      '{{login.response.body.$.token}}',
+      '{{login.response.body.$.items[0].id}}',
+      '{{login.response.body.$.meta}}',
+      '{{login.response.body.*}}',
+      '{{login.response.headers.location}}',
+      '{{login.request.body.$.user}}',
+      '{{login.response.headers.X-Nope}}',
+    ].join(' ')
+  );
+  assert.strictEqual(resolveChainReference(exchange, token), 'abc');
+  assert.strictEqual(resolveChainReference(exchange, item), '7');
+  assert.strictEqual(resolveChainReference(exchange, meta), '{"x-y":true}');
+  assert.strictEqual(resolveChainReference(exchange, whole), exchange.response.body);
+  assert.strictEqual(resolveChainReference(exchange, header), '/home');
+  assert.strictEqual(resolveChainReference(exchange, reqBody), 'ada');
+  assert.strictEqual(resolveChainReference(exchange, missing), null);
+}
+
+function testReplaceChainReferences(): void {
+  const out = replaceChainReferences(
+    'Bearer {{login.response.body.$.token}} {{other.response.body.$.x}}',
+    (name) => (name === 'login' ? exchange : undefined)
+  );
+  assert.strictEqual(out, 'Bearer abc {{other.response.body.$.x}}');
+}
+
+function testQueryLanguages(): void {
+  const soap: NamedExchange = {
+    ...exchange,
+    response: { ...exchange.response, body: '<s:Envelope xmlns:s="urn:s"><s:Body><Token ttl="60">xyz</Token></s:Body></s:Envelope>' },
+  };
+  const [filtered, jmes, xpath, prefixed, broken] = findChainReferences(
+    [
+      '{{login.response.body.$.items[?(@.id == 7)].id}}',
+      '{{login.response.body.jmespath:items[0].id}}',
+      '{{login.response.body.//Token/@ttl}}',
+      '{{login.response.body.xpath:string(//Token)}}',
+      '{{login.response.body.$.items[?(}}',
+    ].join(' ')
+  );
+  assert.strictEqual(resolveChainReference(exchange, filtered), '[7]');
+  assert.strictEqual(resolveChainReference(exchange, jmes), '7');
+  assert.strictEqual(resolveChainReference(soap, xpath), '60');
+  assert.strictEqual(resolveChainReference(soap, prefixed), 'xyz');
+  assert.strictEqual(resolveChainReference(exchange, xpath), null, 'XPath over a JSON body');
+  assert.strictEqual(resolveChainReference(exchange, broken), null);
+}
+
+function testNamedResponseStore(): void {
+  const store = NamedResponseStore.getInstance();
+  store.clear();
+  store.set('/w/a.req', 'dev', 'Login', exchange);
+  assert.strictEqual(store.get('/w/a.req', 'dev', 'login'), exchange);
+  assert.strictEqual(store.get('/w/b.req', 'dev', 'login'), undefined);
+  assert.strictEqual(store.getFresh('/w/a.req', 'dev', 'login', 300, 1000 + 299_000), exchange);
+  assert.strictEqual(store.getFresh('/w/a.req', 'dev', 'login', 300, 1000 + 301_000), undefined);
+  assert.strictEqual(store.getFresh('/w/a.req', 'dev', 'login', 0, 1000), undefined);
+
+  // Switching environments never reuses another environment's login
+  assert.strictEqual(store.getFresh('/w/a.req', 'prod', 'login', 300, 1000), undefined);
+  assert.strictEqual(store.getFresh('/w/a.req', null, 'login', 300, 1000), undefined);
+  const prodExchange = { ...exchange, storedAt: 2000 };
+  store.set('/w/a.req', 'prod', 'login', prodExchange);
+  assert.strictEqual(store.get('/w/a.req', 'prod', 'login'), prodExchange);
+  assert.strictEqual(store.get('/w/a.req', 'dev', 'login'), exchange);
+
+  store.clear('/w/a.req', 'prod');
+  assert.strictEqual(store.get('/w/a.req', 'prod', 'login'), undefined);
+  assert.strictEqual(store.get('/w/a.req', 'dev', 'login'), exchange);
+  store.clear('/w/a.req');
+  assert.strictEqual(store.get('/w/a.req', 'dev', 'login'), undefined);
+}
+
+runTests();
@@ -0,0 +1,250 @@
+/**
+ * Named requests (`# @name login`) and response chaining
+ * (`{{login.response.body.$.token}}`, `{{login.response.headers.Location}}`).
+ * Pure helpers — no VS Code dependencies.
+ */
+import { evaluateBodyQuery, parseBodyQuery } from './httpBodyQuery';
+import { evaluateJsonPath } from './httpJsonPath';
+import type { HttpRequestResult } from './httpRequestExecutor';
+
+const NAME_LINE_RE = /^#\s*@name\s+([a-zA-Z_][\w-]*)\s*$/i;
+const CHAIN_REF_RE =
+  /\{\{\s*([a-zA-Z_][\w-]*)\.(request|response)\.(body|headers)(?:\.([^}]*?))?\s*\}\}/g;
+const REST_METHOD_LINE =
+  /^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS|GRAPHQL|WSS|WS|SSE)\s+(https?:\/\/|wss?:\/\/|\{\{).+$/i;
+
+/** A `{{name.response.body...}}` placeholder found in request text. */
+export interface ChainReference {
+  name: string;
+  placeholder: string;
+  part: 'request' | 'response';
+  section: 'body' | 'headers';
+  /** Body query (JSONPath `$.a.b`, `jmespath:…`, `xpath:…`), header name, or `*` / empty for the whole body. */
+  path: string;
+}
+
+/** Request + response captured for a named block. */
+export interface NamedExchange {
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: string;
+  };
+  response: HttpRequestResult;
+  storedAt: number;
+}
+
+/**
+ * Reads `# @name` from a line, or null.
+ */
+export function parseRequestNameLine(line: string): string | null {
+  const match = line.trim().match(NAME_LINE_RE);
+  return match ? match[1] : null;
+}
+
+/**
+ * Finds a `#` directive of a block: between its start and its method line, or in
+ * the comment lines right above it (between the `###` title and the method line).
+ */
+export function findBlockDirective<T>(
+  lines: string[],
+  startLine: number,
+  endLine: number,
+  parse: (trimmedLine: string) => T | null
+): T | null {
+  for (let i = startLine; i <= endLine && i < lines.length; i++) {
+    const trimmed = lines[i].trim();
+    if (REST_METHOD_LINE.test(trimmed) || trimmed.toLowerCase().startsWith('curl')) {
+      break;
+    }
+    const value = parse(trimmed);
+    if (value !== null) {
+      return value;
+    }
+  }
+  for (let i = startLine - 1; i >= 0; i--) {
+    const trimmed = lines[i].trim();
+    if (!trimmed) {
+      continue;
+    }
+    const value = parse(trimmed);
+    if (value !== null) {
+      return value;
+    }
+    if (trimmed.startsWith('##') || REST_METHOD_LINE.test(trimmed) || !trimmed.startsWith('#')) {
+      break;
+    }
+  }
+  return null;
+}
+
+/**
+ * Finds the `# @name` of a block.
+ */
+export function findRequestName(
+  lines: string[],
+  startLine: number,
+  endLine: number
+): string | null {
+  return findBlockDirective(lines, startLine, endLine, parseRequestNameLine);
+}
+
+/**
+ * Lists chained placeholders in order of appearance (duplicates included).
+ */
+export function findChainReferences(content: string): ChainReference[] {
+  const refs: ChainReference[] = [];
+  const re = new RegExp(CHAIN_REF_RE.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(content)) !== null) {
+    refs.push({
+      name: match[1],
+      placeholder: match[0],
+      part: match[2] as ChainReference['part'],
+      section: match[3] as ChainReference['section'],
+      path: (match[4] ?? '').trim(),
+    });
+  }
+  return refs;
+}
+
+/**
+ * Unique request names referenced by chained placeholders.
+ */
+export function listReferencedRequestNames(content: string): string[] {
+  return [...new Set(findChainReferences(content).map((ref) => ref.name))];
+}
+
+/**
+ * Evaluates a JSONPath (`$.a.b[0]['c']`, `$..items[?(@.id == 5)].name`) against a value.
+ */
+export function evaluateSimpleJsonPath(value: unknown, path: string): unknown {
+  try {
+    return evaluateJsonPath(value, path);
+  } catch {
+    return undefined;
+  }
+}
+
+function stringifyChainValue(value: unknown): string | null {
+  if (value === undefined) {
+    return null;
+  }
+  if (typeof value === 'string') {
+    return value;
+  }
+  return JSON.stringify(value);
+}
+
+function lookupHeader(headers: Record<string, string>, name: string): string | null {
+  const lower = name.toLowerCase();
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() === lower) {
+      return value;
+    }
+  }
+  return null;
+}
+
+/**
+ * Resolves one chained reference against a captured exchange; null when missing.
+ */
+export function resolveChainReference(exchange: NamedExchange, ref: ChainReference): string | null {
+  const headers =
+    ref.part === 'request' ? exchange.request.headers : exchange.response.headers;
+  if (ref.section === 'headers') {
+    return ref.path ? lookupHeader(headers, ref.path) : null;
+  }
+
+  const rawBody = ref.part === 'request' ? exchange.request.body ?? '' : exchange.response.body;
+  if (!ref.path || ref.path === '*') {
+    return rawBody;
+  }
+  // Plain paths are JSONPath (`token`, `$.data.token`); JMESPath and XPath need their prefix
+  const query = parseBodyQuery(ref.path) ?? { language: 'jsonpath' as const, query: ref.path };
+  try {
+    return stringifyChainValue(evaluateBodyQuery(rawBody, query));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Replaces chained placeholders using a name lookup; unknown names stay as-is.
+ */
+export function replaceChainReferences(
+  content: string,
+  lookup: (name: string) => NamedExchange | undefined
+): string {
+  return content.replace(new RegExp(CHAIN_REF_RE.source, 'g'), (placeholder) => {
+    const [ref] = findChainReferences(placeholder);
+    const exchange = ref ? lookup(ref.name) : undefined;
+    if (!ref || !exchange) {
+      return placeholder;
+    }
+    const value = resolveChainReference(exchange, ref);
+    return value ?? placeholder;
+  });
+}
+
+/**
+ * In-memory cache of named exchanges, scoped per request file and environment
+ * (`null` when the block resolves no environment).
+ */
+export class NamedResponseStore {
+  private static instance: NamedResponseStore | undefined;
+  private readonly exchanges = new Map<string, NamedExchange>();
+
+  static getInstance(): NamedResponseStore {
+    if (!NamedResponseStore.instance) {
+      NamedResponseStore.instance = new NamedResponseStore();
+    }
+    return NamedResponseStore.instance;
+  }
+
+  private key(filePath: string, envName: string | null, name: string): string {
+    return `${filePath}|${envName ?? ''}|${name.toLowerCase()}`;
+  }
+
+  get(filePath: string, envName: string | null, name: string): NamedExchange | undefined {
+    return this.exchanges.get(this.key(filePath, envName, name));
+  }
+
+  /**
+   * Returns the exchange only when it is younger than `ttlSeconds` (0 = never fresh).
+   */
+  getFresh(
+    filePath: string,
+    envName: string | null,
+    name: string,
+    ttlSeconds: number,
+    now = Date.now()
+  ): NamedExchange | undefined {
+    const exchange = this.get(filePath, envName, name);
+    if (!exchange || ttlSeconds <= 0) {
+      return undefined;
+    }
+    return now - exchange.storedAt <= ttlSeconds * 1000 ? exchange : undefined;
+  }
+
+  set(filePath: string, envName: string | null, name: string, exchange: NamedExchange): void {
+    this.exchanges.set(this.key(filePath, envName, name), exchange);
+  }
+
+  /**
+   * Drops everything, one file, or one file's exchanges for a single environment.
+   */
+  clear(filePath?: string, envName?: string | null): void {
+    if (!filePath) {
+      this.exchanges.clear();
+      return;
+    }
+    const prefix = envName === undefined ? `${filePath}|` : `${filePath}|${envName ?? ''}|`;
+    for (const key of [...this.exchanges.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.exchanges.delete(key);
+      }
+    }
+  }
+}
@@ -31,6 +31,7 @@ export const ASSERT_OPERATORS: AssertionOperator[] = [
   'notIn',
   'between',
   'length',
+  'matchesSchema',
 ];
 
 /** Common assertion expressions (autocomplete hints). */
@@ -45,8 +46,22 @@ export const ASSERT_EXPRESSIONS: string[] = [
   'res.body.error',
   'res.body.message',
   'res.body.data',
+  'res.body.errors',
+  'res.body.errors[0].message',
   'res.body.length',
   'res.body.items',
+  '$.items[*].id',
+  '$..id',
+  'jmespath:items[0].id',
+  'xpath://Body',
+  'res.timings.total',
+  'res.timings.ttfb',
+  'res.redirects',
+  'res.messages',
+  'res.messages.length',
+  'res.events.message',
+  'res.events.message.at',
+  'res.events.message.data',
 ];
 
 /** Operators that typically need no expected value. */
@@ -42,7 +42,8 @@ export function serializeAssertionBlock(
     if (desc && desc !== expr && expected) {
       return ` * @assert("${escapeAssertString(desc)}", "${escapeAssertString(expr)}", "${escapeAssertString(op)}", ${formatExpectedValue(expected)})`;
     }
-    if (desc && desc !== expr && ASSERT_OPERATORS_NO_VALUE.has(op)) {
+    // `all` / `any` quantifiers keep the operator's arity
+    if (desc && desc !== expr && ASSERT_OPERATORS_NO_VALUE.has(op.replace(/^(all|any)\s+/i, ''))) {
       return ` * @assert("${escapeAssertString(desc)}", "${escapeAssertString(expr)}", "${escapeAssertString(op)}")`;
     }
     if (expected) {
@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
+import { formatCurlImportBlock, parseCurlImport } from './httpCurlImport';
 import { serializeRestClientRequest } from './httpRequestEditorSerializer';
 import type { HttpRequestFormData } from './httpRequestEditorTypes';
 import { openHttpRequestEditor } from './httpRequestEditorProvider';
@@ -128,3 +129,70 @@ ${request}
 ###
 `;
 }
+
+/**
+ * Line where a new section goes: before the next `##` header after the cursor, else the end.
+ */
+function findSectionInsertLine(lines: string[], cursorLine: number): number {
+  for (let i = Math.max(cursorLine, 0); i < lines.length; i++) {
+    if (i > cursorLine && /^##(?!#)/.test(lines[i].trim())) {
+      return i;
+    }
+  }
+  return lines.length;
+}
+
+/**
+ * Reads a cURL command from the clipboard and adds it as a new `##` section after the
+ * block under the cursor (or at the end of the file), with `# @auth` for its credentials.
+ */
+export async function pasteCurlAsHttpRequest(uri?: vscode.Uri): Promise<void> {
+  const imported = parseCurlImport(await vscode.env.clipboard.readText());
+  if (!imported) {
+    void vscode.window.showErrorMessage('The clipboard does not contain a cURL command.');
+    return;
+  }
+
+  const editor = vscode.window.activeTextEditor;
+  const target = uri ?? editor?.document.uri;
+  if (!target || !isHttpRequestFile(target.fsPath)) {
+    void vscode.window.showErrorMessage('Open an HTTP request file (.req) to paste the cURL command into.');
+    return;
+  }
+
+  const document = await vscode.workspace.openTextDocument(target);
+  const lines = document.getText().split(/\r?\n/);
+  const inEditor = editor?.document.uri.toString() === target.toString();
+  const insertLine = findSectionInsertLine(lines, inEditor ? editor!.selection.active.line : lines.length);
+  const previous = insertLine > 0 ? lines[insertLine - 1].trim() : '';
+
+  let block = formatCurlImportBlock(imported);
+  let position = new vscode.Position(insertLine, 0);
+  if (insertLine >= document.lineCount) {
+    position = document.lineAt(document.lineCount - 1).range.end;
+    block = `${previous ? '\n\n' : '\n'}${block}`;
+  } else {
+    block = `${previous ? '\n' : ''}${block}\n`;
+  }
+
+  const edit = new vscode.WorkspaceEdit();
+  edit.insert(target, position, block);
+  if (!(await vscode.workspace.applyEdit(edit))) {
+    void vscode.window.showErrorMessage('Could not add the request to the file.');
+    return;
+  }
+
+  if (inEditor) {
+    const titleLine = document.getText().split(/\r?\n/).findIndex((l, i) => i >= insertLine && l.startsWith('## '));
+    if (titleLine >= 0) {
+      const start = new vscode.Position(titleLine, 0);
+      editor!.selection = new vscode.Selection(start, start);
+      editor!.revealRange(new vscode.Range(start, start));
+    }
+  }
+
+  const summary = `Added ${imported.form.method} request from cURL.`;
+  void vscode.window.showInformationMessage(
+    imported.ignored.length > 0 ? `${summary} Ignored flags: ${imported.ignored.join(' ')}` : summary
+  );
+}
@@ -1,5 +1,5 @@
 import * as assert from 'assert';
-import { upsertFileVariable } from './httpRequestEditorFileMeta';
+import { setBlockAuthInFile, setBlockTlsInFile, upsertFileVariable } from './httpRequestEditorFileMeta';
 
 const HEADER = `# @var API=https://api.example.com
 
@@ -11,6 +11,7 @@ function runTests(): void {
   testUpsertUpdatesValue();
   testUpsertRenamesKey();
   testRemoveVariable();
+  testSetBlockAuth();
   console.log('All httpRequestEditorFileMeta tests passed.');
 }
 
@@ -32,4 +33,18 @@ function testRemoveVariable(): void {
   assert.ok(!next.includes('@var API'));
 }
 
+function testSetBlockAuth(): void {
+  const added = setBlockAuthInFile(HEADER, 2, 3, '# @auth basic ann pw');
+  assert.strictEqual(added, '# @var API=https://api.example.com\n\n## Get user\n# @auth basic ann pw\nGET {{API}}/user\n');
+  const replaced = setBlockAuthInFile(added, 2, 4, '# @auth aws region=us-east-1 service=s3');
+  assert.ok(replaced.includes('## Get user\n# @auth aws region=us-east-1 service=s3\nGET'));
+  assert.strictEqual(setBlockAuthInFile(replaced, 2, 4, null), HEADER);
+
+  const withTls = setBlockTlsInFile(added, 2, 4, '# @tls verify=false');
+  assert.ok(withTls.includes('## Get user\n# @auth basic ann pw\n# @tls verify=false\nGET'));
+  const proxied = setBlockTlsInFile(withTls, 2, 5, '# @tls proxy=http://proxy:3128');
+  assert.ok(proxied.includes('# @auth basic ann pw\n# @tls proxy=http://proxy:3128\nGET'), proxied);
+  assert.strictEqual(setBlockTlsInFile(proxied, 2, 5, null), added);
+}
+
 runTests();
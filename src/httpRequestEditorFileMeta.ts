@@ -1,5 +1,5 @@
 /**
- * File-level HTTP metadata (# @env, # @var) read/write for the request editor.
+ * File-level HTTP metadata (# @env, # @var, block # @auth) read/write for the request editor.
  */
 
 export interface FileVariableEntry {
@@ -136,7 +136,7 @@ export function setBlockEnvInFile(
     if (trimmed.match(/^#\s*@env\s+/i)) {
       envLine = i;
     }
-    if (/^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)\s+/i.test(trimmed)) {
+    if (/^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS|GRAPHQL|WSS|WS|SSE)\s+/i.test(trimmed)) {
       sectionEnd = i;
       break;
     }
@@ -157,3 +157,80 @@ export function setBlockEnvInFile(
   }
   return lines.join('\n');
 }
+
+const METHOD_LINE_RE = /^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS|GRAPHQL|WSS|WS|SSE)\s+/i;
+const AUTH_LINE_RE = /^#\s*@auth\s+/i;
+const TLS_LINE_RE = /^#\s*@tls(?:\s|$)/i;
+
+/**
+ * Sets, replaces or removes (`authLine` null) the `# @auth` line of a block. The line is
+ * looked up like other block directives: before the method line or in the comments
+ * right above the block; a new one goes right before the method line.
+ */
+export function setBlockAuthInFile(
+  content: string,
+  startLine: number,
+  endLine: number,
+  authLine: string | null
+): string {
+  return setBlockDirectiveInFile(content, startLine, endLine, AUTH_LINE_RE, authLine);
+}
+
+/**
+ * Sets, replaces or removes (`tlsLine` null) the `# @tls` line of a block, like setBlockAuthInFile.
+ */
+export function setBlockTlsInFile(
+  content: string,
+  startLine: number,
+  endLine: number,
+  tlsLine: string | null
+): string {
+  return setBlockDirectiveInFile(content, startLine, endLine, TLS_LINE_RE, tlsLine);
+}
+
+function setBlockDirectiveInFile(
+  content: string,
+  startLine: number,
+  endLine: number,
+  lineRe: RegExp,
+  directiveLine: string | null
+): string {
+  const lines = content.split('\n');
+  let directiveIndex = -1;
+  let methodIndex = -1;
+
+  for (let i = startLine; i <= endLine && i < lines.length; i++) {
+    const trimmed = lines[i].trim();
+    if (METHOD_LINE_RE.test(trimmed)) {
+      methodIndex = i;
+      break;
+    }
+    if (lineRe.test(trimmed)) {
+      directiveIndex = i;
+      break;
+    }
+  }
+  for (let i = startLine - 1; directiveIndex < 0 && i >= 0; i--) {
+    const trimmed = lines[i].trim();
+    if (!trimmed) {
+      continue;
+    }
+    if (lineRe.test(trimmed)) {
+      directiveIndex = i;
+    }
+    if (trimmed.startsWith('##') || !trimmed.startsWith('#')) {
+      break;
+    }
+  }
+
+  if (directiveIndex >= 0) {
+    if (directiveLine) {
+      lines[directiveIndex] = directiveLine;
+    } else {
+      lines.splice(directiveIndex, 1);
+    }
+  } else if (directiveLine) {
+    lines.splice(methodIndex >= 0 ? methodIndex : startLine, 0, directiveLine);
+  }
+  return lines.join('\n');
+}
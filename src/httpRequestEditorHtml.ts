@@ -150,6 +150,10 @@ export function buildHttpRequestEditorHtml(
       color: var(--ct-mute2, inherit);
       margin: 0 0 8px;
     }
+    .connection-table td { font-size: 0.85em; }
+    .connection-table td:first-child { width: 34%; color: var(--ct-mute, inherit); }
+    .connection-table td.value { font-family: var(--ct-mono, monospace); word-break: break-all; }
+    .connection-table td.error { color: var(--vscode-errorForeground, #f48771); }
     .env-source-tag[hidden] { display: none; }
     .env-source-tag {
       font-size: 0.72em;
@@ -520,6 +524,7 @@ export function buildHttpRequestEditorHtml(
     .url-input-wrap .var-file { color: #58a6ff; font-weight: 600; }
     .url-input-wrap .var-env { color: #3fb950; font-weight: 600; }
     .url-input-wrap .var-helper { color: #d2a8ff; font-weight: 600; }
+    .url-input-wrap .var-chain { color: #e3b341; font-weight: 600; }
     .url-input-wrap .var-missing { color: #f85149; font-weight: 600; text-decoration: underline wavy #f85149; }
     .url-var-tooltip {
       position: fixed;
@@ -660,6 +665,13 @@ export function buildHttpRequestEditorHtml(
     .headers-table { width: 100%; border-collapse: collapse; }
     .headers-table td { padding: 4px; vertical-align: top; }
     .section-actions { display: flex; gap: 6px; flex-wrap: wrap; margin-top: 8px; }
+    .body-mode-row { display: flex; align-items: center; justify-content: space-between; gap: 8px; flex-shrink: 0; }
+    .body-mode-row select { width: auto; }
+    .body-fields-table .f-type { width: 90px; }
+    .body-fields-table .f-ctype { width: 160px; }
+    #bodyFieldsWrap[hidden], #bodyFileWrap[hidden] { display: none; }
+    .auth-table { margin-top: 8px; }
+    .auth-table td:first-child { width: 130px; padding-top: 8px; opacity: 0.85; }
     .inline-form { display: flex; gap: 6px; flex-wrap: wrap; margin-top: 8px; }
     .inline-form input { flex: 1; min-width: 90px; }
     .assert-form {
@@ -747,6 +759,7 @@ export function buildHttpRequestEditorHtml(
     .response-assert { padding: 8px 10px; border-radius: 6px; margin-bottom: 6px; font-size: 0.88em; background: var(--vscode-textCodeBlock-background); border-left: 3px solid var(--vscode-textLink-foreground); }
     .response-assert.pass { border-left-color: #3fb950; }
     .response-assert.fail { border-left-color: #f85149; color: #f85149; }
+    .response-assert div { white-space: pre-wrap; }
   </style>
 </head>
 <body class="ct-panel-fill">
@@ -770,6 +783,7 @@ export function buildHttpRequestEditorHtml(
           <div class="detail-tabs request-detail-tabs" role="tablist">
             <button type="button" class="detail-tab active" data-detail="request">Request</button>
             <button type="button" class="detail-tab" data-detail="headers">Headers</button>
+            <button type="button" class="detail-tab" data-detail="auth">Auth <span class="badge" id="authBadge" hidden></span></button>
             <button type="button" class="detail-tab" data-detail="tests">Tests <span class="badge" id="testsBadge" hidden>0</span></button>
             <button type="button" class="detail-tab detail-tab-icon" data-detail="environment">
               <span class="detail-tab-ic" aria-hidden="true"><svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="1.9"><circle cx="12" cy="12" r="3.2"/><path d="M19.4 13.5a7.8 7.8 0 0 0 .1-3l1.7-1.3-1.8-3.1-2 .8a7.6 7.6 0 0 0-2.6-1.5l-.3-2.1H8.5l-.3 2.1c-1 .3-1.8.8-2.6 1.5l-2-.8L1.8 9.2l1.7 1.3a7.8 7.8 0 0 0 0 3l-1.7 1.3 1.8 3.1 2-.8c.8.7 1.6 1.2 2.6 1.5l.3 2.1h3.6l.3-2.1c1-.3 1.8-.8 2.6-1.5l2 .8 1.8-3.1z"/></svg></span>
@@ -779,6 +793,7 @@ export function buildHttpRequestEditorHtml(
         </div>
         <div class="pane-bar-right">
           <button type="button" class="secondary" id="copyCurlBtn">Copy cURL</button>
+          <button type="button" class="secondary" id="copyCodeBtn" title="Copy as fetch, axios, Python, Go, Java, C# or PowerShell">Copy as…</button>
           <button type="button" class="send-btn" id="sendBtn">
             Send
             <svg class="send-icon" width="14" height="14" viewBox="0 0 16 16" fill="currentColor" aria-hidden="true"><path d="M1.5 1.5L14.5 8L1.5 14.5V9.5L10.5 8L1.5 6.5V1.5Z"/></svg>
@@ -792,7 +807,7 @@ export function buildHttpRequestEditorHtml(
               <label class="field-label" for="method">Method</label>
               <select id="method">
                 <option>GET</option><option>POST</option><option>PUT</option>
-                <option>PATCH</option><option>DELETE</option><option>HEAD</option><option>OPTIONS</option>
+                <option>PATCH</option><option>DELETE</option><option>HEAD</option><option>OPTIONS</option><option>GRAPHQL</option><option>WS</option><option>WSS</option><option>SSE</option>
               </select>
             </div>
             <div class="url-field">
@@ -804,8 +819,27 @@ export function buildHttpRequestEditorHtml(
             </div>
           </div>
           <p class="hint"><span style="color:#58a6ff">■</span> # @var &nbsp; <span style="color:#3fb950">■</span> .env &nbsp; <span style="color:#d2a8ff">■</span> helper &nbsp; <span style="color:#f85149">■</span> missing — paste cURL in URL to import like Postman</p>
-          <label class="field-label" for="body">Body</label>
-          <textarea id="body" class="var-ac-input" placeholder="JSON, form data, etc." autocomplete="off" spellcheck="false"></textarea>
+          <div class="body-mode-row">
+            <label class="field-label" for="body">Body</label>
+            <select id="bodyMode" title="How the body is written in the .req file">
+              <option value="raw">Raw</option>
+              <option value="urlencoded">Form URL-encoded</option>
+              <option value="multipart">Multipart form</option>
+              <option value="file">File (&lt; path)</option>
+            </select>
+          </div>
+          <textarea id="body" class="var-ac-input" placeholder="JSON, XML, text, etc." autocomplete="off" spellcheck="false"></textarea>
+          <div id="bodyFieldsWrap" hidden>
+            <table class="headers-table body-fields-table"><tbody id="bodyFieldsBody"></tbody></table>
+            <div class="section-actions">
+              <button type="button" class="secondary" id="addBodyFieldBtn">Add field</button>
+              <button type="button" class="secondary" id="removeBodyFieldBtn">Remove last</button>
+            </div>
+          </div>
+          <div id="bodyFileWrap" hidden>
+            <input type="text" id="bodyFile" class="var-ac-input" placeholder="./payload.json" autocomplete="off" spellcheck="false" />
+            <p class="hint">Sent as raw bytes, path relative to this file. Use <code>&lt;@ path</code> in the text editor to resolve {{variables}} inside it.</p>
+          </div>
         </div>
 
         <div class="detail-pane" id="pane-headers" data-detail="headers">
@@ -817,6 +851,19 @@ export function buildHttpRequestEditorHtml(
           </div>
         </div>
 
+        <div class="detail-pane" id="pane-auth" data-detail="auth">
+          <label class="field-label" for="authType">Auth (# @auth)</label>
+          <select id="authType">
+            <option value="none">None</option>
+            <option value="basic">Basic</option>
+            <option value="digest">Digest</option>
+            <option value="oauth2">OAuth2</option>
+            <option value="aws">AWS Signature V4</option>
+          </select>
+          <table class="headers-table auth-table"><tbody id="authFields"></tbody></table>
+          <p class="hint" id="authHint"></p>
+        </div>
+
         <div class="detail-pane" id="pane-environment" data-detail="environment">
           <div class="env-pane-summary">
             <span class="env-pane-label">Active</span>
@@ -851,6 +898,11 @@ export function buildHttpRequestEditorHtml(
               <button type="button" class="secondary" id="addVarBtn">Add # @var</button>
             </div>
           </div>
+          <div class="env-pane-section">
+            <p class="subheading">Connection (# @tls / .env)</p>
+            <table class="headers-table connection-table"><tbody id="connectionRows"></tbody></table>
+            <p class="hint" id="connectionHint"></p>
+          </div>
         </div>
 
         <div class="detail-pane" id="pane-tests" data-detail="tests">
@@ -942,7 +994,8 @@ export function buildHttpRequestEditorHtml(
       envVariables: INIT.envVariables || [],
       fileVariables: INIT.fileVariables || [],
       assertions: INIT.assertions || [],
-      resolvedPreview: INIT.resolvedPreview || { effectiveEnv: '', envSource: 'workspace', resolvedUrl: '', bindings: [] },
+      auth: INIT.auth || { type: 'none', options: {} },
+      resolvedPreview: INIT.resolvedPreview || { effectiveEnv: '', envSource: 'workspace', resolvedUrl: '', bindings: [], connection: [] },
       globalFileEnv: INIT.globalFileEnv,
       blockEnv: INIT.blockEnv,
       helperSuggestions: INIT.helperSuggestions || [],
@@ -961,8 +1014,14 @@ export function buildHttpRequestEditorHtml(
       envBannerEffective: document.getElementById('envBannerEffective'),
       envBannerSource: document.getElementById('envBannerSource'),
       envBannerMeta: document.getElementById('envBannerMeta'),
+      connectionRows: document.getElementById('connectionRows'),
+      connectionHint: document.getElementById('connectionHint'),
       requestTabs: document.getElementById('requestTabs'),
       testsBadge: document.getElementById('testsBadge'),
+      authBadge: document.getElementById('authBadge'),
+      authType: document.getElementById('authType'),
+      authFields: document.getElementById('authFields'),
+      authHint: document.getElementById('authHint'),
       urlBackdrop: document.getElementById('urlBackdrop'),
       urlVarTooltip: document.getElementById('urlVarTooltip'),
       acDropdown: document.getElementById('acDropdown'),
@@ -987,6 +1046,13 @@ export function buildHttpRequestEditorHtml(
       method: document.getElementById('method'),
       url: document.getElementById('url'),
       body: document.getElementById('body'),
+      bodyMode: document.getElementById('bodyMode'),
+      bodyFieldsWrap: document.getElementById('bodyFieldsWrap'),
+      bodyFieldsBody: document.getElementById('bodyFieldsBody'),
+      addBodyFieldBtn: document.getElementById('addBodyFieldBtn'),
+      removeBodyFieldBtn: document.getElementById('removeBodyFieldBtn'),
+      bodyFileWrap: document.getElementById('bodyFileWrap'),
+      bodyFile: document.getElementById('bodyFile'),
       headersBody: document.getElementById('headersBody'),
       sendBtn: document.getElementById('sendBtn'),
       responseStatusBadge: document.getElementById('responseStatusBadge'),
@@ -1007,6 +1073,7 @@ export function buildHttpRequestEditorHtml(
       responseCard: document.getElementById('responseCard'),
       saveBtn: document.getElementById('saveBtn'),
       copyCurlBtn: document.getElementById('copyCurlBtn'),
+      copyCodeBtn: document.getElementById('copyCodeBtn'),
       openTextBtn: document.getElementById('openTextBtn'),
       newRequestBtn: document.getElementById('newRequestBtn'),
       addHeaderBtn: document.getElementById('addHeaderBtn'),
@@ -1027,15 +1094,19 @@ export function buildHttpRequestEditorHtml(
     function post(command, extra) { vscode.postMessage(Object.assign({ command }, extra || {})); }
 
     function isSecretVarKey(key) {
-      return /token|secret|password|api_key|apikey/i.test(key);
+      return /token|secret|password|passwd|api_?key|private_?key|client_?secret|credential/i.test(key);
     }
 
     function getMaps() {
       const fileMap = {};
       state.fileVariables.forEach((v) => { fileMap[v.key] = v.value; fileMap[v.key.toLowerCase()] = v.value; });
       const envMap = {};
-      state.envVariables.forEach((v) => { envMap[v.key.toLowerCase()] = v.value; });
-      return { fileMap, envMap };
+      const envMasked = {};
+      state.envVariables.forEach((v) => {
+        envMap[v.key.toLowerCase()] = v.value;
+        envMasked[v.key.toLowerCase()] = !!v.masked;
+      });
+      return { fileMap, envMap, envMasked };
     }
 
     function lookupBinding(inner) {
@@ -1044,15 +1115,20 @@ export function buildHttpRequestEditorHtml(
         const h = (state.helperSuggestions || []).find((x) => x.insert.includes(trimmed) || x.label.includes(trimmed.split('(')[0]));
         return { source: 'helper', value: null, tooltip: h ? h.description : 'Dynamic helper (resolved at run time)', cls: 'var-helper' };
       }
-      const { fileMap, envMap } = getMaps();
+      const { fileMap, envMap, envMasked } = getMaps();
       if (fileMap[trimmed] !== undefined) {
         return { source: 'file', value: fileMap[trimmed], tooltip: '# @var: ' + fileMap[trimmed], cls: 'var-file', masked: false };
       }
       const ev = envMap[trimmed.toLowerCase()];
       if (ev !== undefined) {
-        const masked = /token|secret|password|api_key|apikey/i.test(trimmed);
+        const masked = !!envMasked[trimmed.toLowerCase()];
         return { source: 'env', value: ev, tooltip: '.env: ' + (masked ? '(hidden)' : ev), cls: 'var-env', masked };
       }
+      const chain = (state.resolvedPreview.bindings || []).find((b) => b.source === 'chain' && b.name === trimmed);
+      if (chain) {
+        const shown = chain.value === null ? '(runs the named request first)' : (chain.masked ? '(hidden)' : chain.value);
+        return { source: 'chain', value: chain.value, tooltip: '# @name ' + trimmed.split('.')[0] + ': ' + shown, cls: 'var-chain', masked: chain.masked };
+      }
       return { source: 'missing', value: null, tooltip: 'Not defined in # @var or .env', cls: 'var-missing' };
     }
 
@@ -1126,6 +1202,9 @@ export function buildHttpRequestEditorHtml(
       if (b.source === 'helper') {
         return b.tooltip;
       }
+      if (b.source === 'chain') {
+        return b.tooltip;
+      }
       return 'Not defined in # @var or .env';
     }
 
@@ -1338,7 +1417,68 @@ export function buildHttpRequestEditorHtml(
       els.headersBody.querySelectorAll('tr').forEach((row) => {
         headers.push({ key: row.querySelector('.h-key')?.value ?? '', value: row.querySelector('.h-val')?.value ?? '' });
       });
-      return { method: els.method.value, url: els.url.value, headers, body: els.body.value };
+      const bodyMode = els.bodyMode.value || 'raw';
+      return {
+        method: els.method.value,
+        url: els.url.value,
+        headers,
+        body: els.body.value,
+        bodyMode,
+        bodyFields: readBodyFields(),
+        bodyFile: els.bodyFile.value,
+      };
+    }
+
+    function readBodyFields() {
+      const fields = [];
+      els.bodyFieldsBody.querySelectorAll('tr').forEach((row) => {
+        const type = row.querySelector('.f-type')?.value === 'file' ? 'file' : 'text';
+        const contentType = row.querySelector('.f-ctype')?.value ?? '';
+        const field = { key: row.querySelector('.f-key')?.value ?? '', value: row.querySelector('.f-val')?.value ?? '', type };
+        if (contentType) field.contentType = contentType;
+        fields.push(field);
+      });
+      return fields;
+    }
+
+    function renderBodyFields(fields, mode) {
+      els.bodyFieldsBody.innerHTML = '';
+      const multipart = mode === 'multipart';
+      (fields.length ? fields : [{ key: '', value: '', type: 'text' }]).forEach((f) => {
+        const tr = document.createElement('tr');
+        const isFile = multipart && f.type === 'file';
+        let html =
+          '<td><input class="f-key" placeholder="Name" value="' + escAttr(f.key) + '" /></td>' +
+          '<td><input class="f-val var-ac-input" placeholder="' + (isFile ? './path/to/file' : 'Value') + '" value="' + escAttr(f.value) + '" autocomplete="off" spellcheck="false" /></td>';
+        if (multipart) {
+          html +=
+            '<td><select class="f-type"><option value="text"' + (isFile ? '' : ' selected') + '>Text</option><option value="file"' + (isFile ? ' selected' : '') + '>File</option></select></td>' +
+            '<td><input class="f-ctype" placeholder="Content-Type" value="' + escAttr(f.contentType || '') + '" /></td>';
+        }
+        tr.innerHTML = html;
+        els.bodyFieldsBody.appendChild(tr);
+        const inp = tr.querySelector('.f-val');
+        if (inp) attachVarAutocomplete(inp);
+      });
+    }
+
+    function showBodyMode(mode) {
+      els.body.hidden = mode !== 'raw';
+      els.bodyFieldsWrap.hidden = mode !== 'urlencoded' && mode !== 'multipart';
+      els.bodyFileWrap.hidden = mode !== 'file';
+    }
+
+    function onBodyModeChange() {
+      const f = readForm();
+      if ((f.bodyMode === 'urlencoded' || f.bodyMode === 'multipart') && !f.bodyFields.some((x) => x.key.trim())) {
+        // Seed rows from key=value lines already in the raw body
+        f.bodyFields = f.body.split('\\n').map((line) => line.trim().replace(/^&/, '')).filter((line) => line.indexOf('=') > 0).map((line) => {
+          const eq = line.indexOf('=');
+          return { key: line.slice(0, eq).trim(), value: line.slice(eq + 1).trim(), type: 'text' };
+        });
+      }
+      applyForm(f);
+      onFormChange();
     }
 
     function hasWorkspaceEnvs() {
@@ -1365,6 +1505,35 @@ export function buildHttpRequestEditorHtml(
       }
       els.envBannerMeta.textContent = meta;
       els.envBannerMeta.hidden = !meta;
+      renderConnection();
+    }
+
+    function renderConnection() {
+      const rows = state.resolvedPreview.connection || [];
+      const srcLabels = { directive: '# @tls', env: '.env', error: '' };
+      els.connectionRows.innerHTML = '';
+      rows.forEach((row) => {
+        const tr = document.createElement('tr');
+        const label = document.createElement('td');
+        label.textContent = row.label;
+        const value = document.createElement('td');
+        value.className = row.source === 'error' ? 'value error' : 'value';
+        value.textContent = row.value;
+        const source = document.createElement('td');
+        if (srcLabels[row.source]) {
+          const tag = document.createElement('span');
+          tag.className = 'env-source-tag';
+          tag.textContent = srcLabels[row.source];
+          source.appendChild(tag);
+        }
+        tr.appendChild(label);
+        tr.appendChild(value);
+        tr.appendChild(source);
+        els.connectionRows.appendChild(tr);
+      });
+      els.connectionHint.textContent = rows.length === 0
+        ? 'Direct connection with default certificate checks. Set HTTP_PROXY, TLS_CERT, TLS_CA, TLS_VERIFY… in .env or add # @tls proxy=… cert=… to the block.'
+        : 'Paths in # @tls are relative to this file, paths in .env to the environment folder.';
     }
 
     function fillProjectEnvPills(container) {
@@ -1435,6 +1604,15 @@ export function buildHttpRequestEditorHtml(
       if (!skipFocused || document.activeElement !== els.body) {
         els.body.value = form.body || '';
       }
+      const bodyMode = form.bodyMode || 'raw';
+      els.bodyMode.value = bodyMode;
+      if (!skipFocused || !els.bodyFieldsBody.contains(document.activeElement)) {
+        renderBodyFields(form.bodyFields || [], bodyMode);
+      }
+      if (!skipFocused || document.activeElement !== els.bodyFile) {
+        els.bodyFile.value = form.bodyFile || '';
+      }
+      showBodyMode(bodyMode);
       if (!skipFocused || !els.headersBody.contains(document.activeElement)) {
         renderHeaders(form.headers || []);
       }
@@ -1571,7 +1749,7 @@ export function buildHttpRequestEditorHtml(
       const operator = els.assertOp.value.trim();
       if (!expression || !operator) return false;
       const expected = els.assertExpected.value.trim();
-      if (!expected && !OPS_NO_VALUE.has(operator)) {
+      if (!expected && !OPS_NO_VALUE.has(operator.replace(/^(all|any)\\s+/i, ''))) {
         alert('This operator requires an expected value.');
         return false;
       }
@@ -1588,6 +1766,81 @@ export function buildHttpRequestEditorHtml(
       return true;
     }
 
+    const AUTH_LABELS = { basic: 'Basic', digest: 'Digest', oauth2: 'OAuth2', aws: 'SigV4' };
+    const AUTH_FIELDS = {
+      basic: [
+        { key: 'username', label: 'Username', placeholder: 'from AUTH_USERNAME' },
+        { key: 'password', label: 'Password', placeholder: 'from AUTH_PASSWORD' },
+      ],
+      digest: [
+        { key: 'username', label: 'Username', placeholder: 'from AUTH_USERNAME' },
+        { key: 'password', label: 'Password', placeholder: 'from AUTH_PASSWORD' },
+      ],
+      oauth2: [
+        { key: 'grant', label: 'Grant', options: ['client_credentials', 'password', 'refresh_token'] },
+        { key: 'tokenUrl', label: 'Token URL', placeholder: 'from OAUTH2_TOKEN_URL' },
+        { key: 'clientId', label: 'Client ID', placeholder: 'from OAUTH2_CLIENT_ID' },
+        { key: 'clientSecret', label: 'Client secret', placeholder: 'from OAUTH2_CLIENT_SECRET' },
+        { key: 'scope', label: 'Scope', placeholder: 'from OAUTH2_SCOPE' },
+        { key: 'audience', label: 'Audience', placeholder: 'optional' },
+        { key: 'username', label: 'Username', placeholder: 'password grant', grants: ['password'] },
+        { key: 'password', label: 'Password', placeholder: 'password grant', grants: ['password'] },
+        { key: 'refreshToken', label: 'Refresh token', placeholder: 'from OAUTH2_REFRESH_TOKEN', grants: ['refresh_token'] },
+        { key: 'clientAuth', label: 'Client auth', options: ['basic', 'body'] },
+      ],
+      aws: [
+        { key: 'region', label: 'Region', placeholder: 'from AWS_REGION' },
+        { key: 'service', label: 'Service', placeholder: 'e.g. execute-api, s3' },
+        { key: 'accessKeyId', label: 'Access key ID', placeholder: 'from AWS_ACCESS_KEY_ID' },
+        { key: 'secretAccessKey', label: 'Secret access key', placeholder: 'from AWS_SECRET_ACCESS_KEY' },
+        { key: 'sessionToken', label: 'Session token', placeholder: 'from AWS_SESSION_TOKEN' },
+      ],
+    };
+    const AUTH_HINTS = {
+      none: 'No credentials are added. Pick a provider to write a # @auth line for this request.',
+      basic: 'Sends Authorization: Basic. Empty fields are read from the environment.',
+      digest: 'Answers the 401 Digest challenge of the server (MD5 / SHA-256) and retries once.',
+      oauth2: 'Fetches a token before sending and caches it per environment until it expires. Clear it with "CursorToys: Clear HTTP Auth Tokens".',
+      aws: 'Signs the request with AWS Signature Version 4 when it is sent.',
+    };
+
+    function renderAuth() {
+      const auth = state.auth || { type: 'none', options: {} };
+      els.authType.value = auth.type;
+      els.authBadge.hidden = auth.type === 'none';
+      els.authBadge.textContent = AUTH_LABELS[auth.type] || '';
+      els.authHint.textContent = AUTH_HINTS[auth.type] || '';
+      els.authFields.innerHTML = '';
+      const grant = auth.options.grant || 'client_credentials';
+      (AUTH_FIELDS[auth.type] || []).forEach((field) => {
+        if (field.grants && !field.grants.includes(grant)) return;
+        const tr = document.createElement('tr');
+        const value = auth.options[field.key] || '';
+        const input = field.options
+          ? '<select class="auth-input" data-key="' + field.key + '">' +
+            field.options.map((o) => '<option' + (o === (value || field.options[0]) ? ' selected' : '') + '>' + escHtml(o) + '</option>').join('') +
+            '</select>'
+          : '<input class="auth-input var-ac-input" data-key="' + field.key + '" placeholder="' + escAttr(field.placeholder || '') + '" value="' + escAttr(value) + '" autocomplete="off" spellcheck="false" />';
+        tr.innerHTML = '<td>' + escHtml(field.label) + '</td><td>' + input + '</td>';
+        els.authFields.appendChild(tr);
+        const inp = tr.querySelector('input.auth-input');
+        if (inp) attachVarAutocomplete(inp);
+      });
+    }
+
+    function saveAuthToFile() {
+      const type = els.authType.value;
+      const options = type === state.auth.type ? Object.assign({}, state.auth.options) : {};
+      els.authFields.querySelectorAll('.auth-input').forEach((inp) => {
+        const value = inp.value.trim();
+        if (value) options[inp.dataset.key] = value;
+        else delete options[inp.dataset.key];
+      });
+      state.auth = { type, options: type === 'none' ? {} : options };
+      renderAuth();
+      post('saveAuth', { blockIndex: state.activeBlockIndex, auth: state.auth });
+    }
+
     function renderAssertions() {
       const count = state.assertions.length;
       els.testsBadge.hidden = count === 0;
@@ -1714,12 +1967,25 @@ export function buildHttpRequestEditorHtml(
       return payload.body || '';
     }
 
+    function formatTimingTooltip(timings, redirects) {
+      if (!timings) return '';
+      const parts = [
+        ['DNS', timings.dns], ['Connect', timings.connect], ['TLS', timings.tls],
+        ['TTFB', timings.ttfb], ['Download', timings.download], ['Total', timings.total],
+      ].filter((p) => typeof p[1] === 'number').map((p) => p[0] + ': ' + p[1] + ' ms');
+      if (redirects && redirects.length) {
+        parts.push('Redirects: ' + redirects.length);
+      }
+      return parts.join('\\n');
+    }
+
     function renderResponseForActiveBlock() {
       const payload = state.responsesByBlock[state.activeBlockIndex];
       if (!payload) {
         els.responseStatusBadge.textContent = 'No response';
         els.responseStatusBadge.className = 'response-status idle';
         els.responseMeta.textContent = '—';
+        els.responseMeta.title = '';
         if (els.responseEmpty) els.responseEmpty.hidden = false;
         if (els.responseBodyContent) els.responseBodyContent.hidden = true;
         els.responseHeadersTable.innerHTML = '<tr><td colspan="2"><span class="empty-state">No response yet</span></td></tr>';
@@ -1736,6 +2002,7 @@ export function buildHttpRequestEditorHtml(
       els.responseStatusBadge.textContent = code > 0 ? 'HTTP ' + code : 'Error';
       els.responseStatusBadge.className = 'response-status ' + statusClass(code);
       els.responseMeta.textContent = (payload.executionTimeSeconds || '0') + 's';
+      els.responseMeta.title = formatTimingTooltip(payload.timings, payload.redirects);
       if (els.responseEmpty) els.responseEmpty.hidden = true;
       if (els.responseBodyContent) els.responseBodyContent.hidden = false;
       if (els.responseBodyArea) {
@@ -1755,7 +2022,7 @@ export function buildHttpRequestEditorHtml(
           results.map((r) => {
             const cls = r.passed ? 'pass' : 'fail';
             const label = (r.assertion && (r.assertion.description || r.assertion.expression)) || 'assertion';
-            const detail = r.error || String(r.actualValue ?? '');
+            const detail = r.error || [String(r.actualValue ?? '')].concat(r.details || []).join('\\n');
             return '<div class="response-assert ' + cls + '"><strong>' + escHtml(label) + '</strong><div>' + escHtml(detail) + '</div></div>';
           }).join('');
       }
@@ -1784,6 +2051,7 @@ export function buildHttpRequestEditorHtml(
       state.fileVariables = msg.fileVariables || [];
       state.helperSuggestions = msg.helperSuggestions || state.helperSuggestions;
       state.assertions = msg.assertions || [];
+      state.auth = msg.auth || { type: 'none', options: {} };
       state.resolvedPreview = msg.resolvedPreview || state.resolvedPreview;
       state.globalFileEnv = msg.globalFileEnv;
       state.blockEnv = msg.blockEnv;
@@ -1804,6 +2072,7 @@ export function buildHttpRequestEditorHtml(
       renderEnvVarTags();
       renderFileVarTags();
       renderAssertions();
+      if (!els.authFields.contains(document.activeElement)) renderAuth();
       applyForm(msg.form, true);
       renderUrlHighlight();
       renderEnvBanner();
@@ -1833,7 +2102,7 @@ export function buildHttpRequestEditorHtml(
 
     function onUrlPaste(e) {
       const text = e.clipboardData?.getData('text/plain')?.trim() ?? '';
-      if (!/^curl(\\s|$)/i.test(text)) {
+      if (!/^curl(\\.exe)?(\\s|$)/i.test(text)) {
         return;
       }
       e.preventDefault();
@@ -1864,6 +2133,23 @@ export function buildHttpRequestEditorHtml(
       attachVarAutocomplete(els.body);
       els.body.addEventListener('input', onFormChange);
       els.headersBody.addEventListener('input', onFormChange);
+      els.bodyMode.addEventListener('change', onBodyModeChange);
+      els.bodyFieldsBody.addEventListener('input', onFormChange);
+      els.bodyFieldsBody.addEventListener('change', (e) => {
+        if (e.target?.classList?.contains('f-type')) {
+          applyForm(readForm());
+          onFormChange();
+        }
+      });
+      els.bodyFile.addEventListener('input', onFormChange);
+      attachVarAutocomplete(els.bodyFile);
+      els.addBodyFieldBtn.addEventListener('click', () => {
+        const f = readForm();
+        f.bodyFields.push({ key: '', value: '', type: 'text' });
+        applyForm(f);
+        onFormChange();
+      });
+      els.removeBodyFieldBtn.addEventListener('click', () => { const f = readForm(); if (f.bodyFields.length > 1) f.bodyFields.pop(); else f.bodyFields = []; applyForm(f); onFormChange(); });
       els.sendBtn.addEventListener('click', () => post('send', { form: readForm(), blockIndex: state.activeBlockIndex }));
       if (els.responsePartSelect) {
         els.responsePartSelect.addEventListener('change', () => setResponseTab(els.responsePartSelect.value));
@@ -1873,6 +2159,7 @@ export function buildHttpRequestEditorHtml(
       els.copyResponseBtn.addEventListener('click', () => post('copyResponse', { part: state.responseTab }));
       els.saveBtn.addEventListener('click', () => post('save', { form: readForm(), blockIndex: state.activeBlockIndex }));
       els.copyCurlBtn.addEventListener('click', () => post('copyCurl', { blockIndex: state.activeBlockIndex }));
+      els.copyCodeBtn.addEventListener('click', () => post('copyCode', { blockIndex: state.activeBlockIndex }));
       els.openTextBtn.addEventListener('click', () => post('openAsText'));
       els.newRequestBtn.addEventListener('click', () => post('newRequest'));
       els.selectEnvBtn.addEventListener('click', () => post('selectEnvironment'));
@@ -1886,6 +2173,8 @@ export function buildHttpRequestEditorHtml(
       });
       els.removeHeaderBtn.addEventListener('click', () => { const f = readForm(); if (f.headers.length > 1) f.headers.pop(); else f.headers = [{ key: '', value: '' }]; applyForm(f); onFormChange(); });
       els.addVarBtn.addEventListener('click', () => { const k = els.newVarKey.value.trim(); const v = els.newVarVal.value.trim(); if (!k) return; post('addFileVar', { key: k, value: v }); els.newVarKey.value = ''; els.newVarVal.value = ''; });
+      els.authType.addEventListener('change', saveAuthToFile);
+      els.authFields.addEventListener('change', saveAuthToFile);
       els.addAssertBtn.addEventListener('click', () => commitAssertionFromForm());
       els.cancelAssertBtn.addEventListener('click', () => clearAssertForm());
     }
@@ -1,11 +1,13 @@
 import * as vscode from 'vscode';
-import { extractAssertions } from './assertionParser';
+import { extractAssertions, formatAssertionOperator } from './assertionParser';
 import { getEnvironmentForSection } from './httpRequestExecutor';
+import { findBlockDirective } from './httpRequestChaining';
+import { parseAuthLine } from './httpAuth';
 import {
   formFromFileBlock,
   extractRequestTextFromBlock,
+  parseEditorRequest,
 } from './httpRequestEditorSerializer';
-import { parseHttpRequest } from './httpRequestParse';
 import {
   getHttpRequestBlocks,
   getHttpRequestBlockLabel,
@@ -27,11 +29,13 @@ import {
   getHttpResponseLayout,
 } from './httpResponseView';
 import { HTTP_VARIABLE_HELPERS } from './httpRequestEditorHelpers';
+import { isMaskedVariable } from './httpSecrets';
 import type {
   HttpRequestEditorInitMessage,
   HttpRequestBlockSummary,
   HttpRequestFormData,
   HttpRequestAssertionSummary,
+  HttpRequestAuthSummary,
   HttpRequestEnvVariableSummary,
 } from './httpRequestEditorTypes';
 
@@ -53,7 +57,7 @@ function blockMethodUrl(
   if (!requestText) {
     return { method: 'GET', url: '' };
   }
-  const config = parseHttpRequest(requestText);
+  const config = parseEditorRequest(requestText);
   return {
     method: (config?.method ?? 'GET').toUpperCase(),
     url: config?.url ?? '',
@@ -72,13 +76,17 @@ function assertionsForBlock(
   return assertions.map((a) => ({
     description: a.description || a.expression,
     expression: a.expression,
-    operator: a.operator,
+    operator: formatAssertionOperator(a),
     expected:
       a.expected !== undefined && a.expected !== null ? String(a.expected) : '',
     raw: a.raw ?? '',
   }));
 }
 
+function authForBlock(lines: string[], block: HttpRequestBlock): HttpRequestAuthSummary {
+  return findBlockDirective(lines, block.startLine, block.endLine, parseAuthLine) ?? { type: 'none', options: {} };
+}
+
 function buildBlockSummaries(
   document: vscode.TextDocument,
   blocks: HttpRequestBlock[]
@@ -153,7 +161,7 @@ export function buildHttpRequestEditorState(
         envVars.push({
           key,
           value,
-          masked: isSecretKey(key),
+          masked: isMaskedVariable(key, value),
         });
       }
       envVars.sort((a, b) => a.key.localeCompare(b.key));
@@ -169,6 +177,7 @@ export function buildHttpRequestEditorState(
     form,
     document,
     block.startLine,
+    block.endLine,
     workspacePath,
     activeProjectEnv,
     envRoot
@@ -191,6 +200,7 @@ export function buildHttpRequestEditorState(
     envVariables: envVars,
     fileVariables,
     assertions: assertionsForBlock(document, block),
+    auth: authForBlock(lines, block),
     resolvedPreview,
     assertOperators: [...ASSERT_OPERATORS],
     assertExpressions: [...ASSERT_EXPRESSIONS],
@@ -210,14 +220,3 @@ function resolveActiveProjectEnv(
   }
   return projectEnvs.includes(managerActive) ? managerActive : '';
 }
-
-function isSecretKey(key: string): boolean {
-  const lower = key.toLowerCase();
-  return (
-    lower.includes('token') ||
-    lower.includes('secret') ||
-    lower.includes('password') ||
-    lower.includes('api_key') ||
-    lower.includes('apikey')
-  );
-}
@@ -9,6 +9,8 @@ import { buildHttpRequestEditorHtml } from './httpRequestEditorHtml';
 import { configurePanelWebview, getExtensionUri } from './webviewUi';
 import { buildHttpRequestEditorState } from './httpRequestEditorModel';
 import {
+  setBlockAuthInFile,
+  setBlockTlsInFile,
   setBlockEnvInFile,
   setFileGlobalEnv,
   upsertFileVariable,
@@ -21,7 +23,9 @@ import {
 } from './httpRequestEditorTypes';
 import { getEnvFilePath, getHttpEnvContext, isHttpRequestFile } from './utils';
 import { EnvironmentManager } from './environmentManager';
-import { curlToFormData } from './httpCurlImport';
+import { parseCurlImport } from './httpCurlImport';
+import { serializeAuthDirective } from './httpAuth';
+import { serializeTlsDirective } from './httpTls';
 import { createNewHttpRequest } from './httpRequestEditorCommands';
 import { HttpResponseEmitter } from './httpResponseEmitter';
 import { sendHttpExchangeToChat } from './httpResponseChat';
@@ -293,6 +297,18 @@ export class HttpRequestEditorProvider implements vscode.CustomTextEditorProvide
             }
             break;
           }
+          case 'copyCode': {
+            const block = blocks[blockIndex];
+            if (block) {
+              await vscode.commands.executeCommand(
+                'cursor-toys.copyHttpRequestAsCode',
+                document.uri,
+                block.startLine,
+                block.endLine
+              );
+            }
+            break;
+          }
           case 'openAsText': {
             await vscode.commands.executeCommand(
               'vscode.openWith',
@@ -435,21 +451,58 @@ export class HttpRequestEditorProvider implements vscode.CustomTextEditorProvide
             }
             break;
           }
+          case 'saveAuth': {
+            const block = blocks[raw.blockIndex];
+            if (!block) {
+              break;
+            }
+            const next = setBlockAuthInFile(
+              document.getText(),
+              block.startLine,
+              block.endLine,
+              raw.auth.type === 'none'
+                ? null
+                : serializeAuthDirective({ type: raw.auth.type, options: raw.auth.options })
+            );
+            if (next !== document.getText() && (await replaceDocument(next))) {
+              pushState();
+            }
+            break;
+          }
           case 'importCurl': {
-            const form = curlToFormData(raw.text);
-            if (!form) {
+            const imported = parseCurlImport(raw.text);
+            if (!imported) {
               void vscode.window.showErrorMessage(
                 'Could not parse cURL command. Check the format and try again.'
               );
               break;
             }
             state.activeBlockIndex = blockIndex;
+            // Credentials go to `# @auth` / `# @tls` first: rewriting the file re-sends the saved form
+            const block = blocks[blockIndex];
+            if ((imported.auth || imported.tls) && block) {
+              let next = document.getText();
+              if (imported.auth) {
+                next = setBlockAuthInFile(next, block.startLine, block.endLine, serializeAuthDirective(imported.auth));
+              }
+              if (imported.tls) {
+                // One line longer when `# @auth` was just added before the method line
+                next = setBlockTlsInFile(next, block.startLine, block.endLine + 1, serializeTlsDirective(imported.tls));
+              }
+              if (next !== document.getText() && (await replaceDocument(next))) {
+                pushState();
+              }
+            }
             void webviewPanel.webview.postMessage({
               type: 'curlImported',
-              form,
+              form: imported.form,
               blockIndex,
             });
-            void vscode.window.showInformationMessage('Imported request from cURL.');
+            void vscode.window.showInformationMessage(
+              imported.ignored.length > 0
+                ? `Imported request from cURL. Ignored flags: ${imported.ignored.join(' ')}`
+                : 'Imported request from cURL.'
+            );
             break;
           }
           case 'newRequest': {
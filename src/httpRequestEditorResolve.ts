@@ -1,24 +1,25 @@
 import * as vscode from 'vscode';
 import { mergeCustomVariables } from './httpRequestVariables';
-import { getEnvironmentForSection } from './httpRequestExecutor';
+import { getEnvironmentForSection, getNamedRequestEnvironment } from './httpRequestExecutor';
 import { resolveHttpVariables } from './httpVariableResolver';
 import { EnvironmentManager } from './environmentManager';
+import { describeTlsSettings, parseTlsLine, resolveTlsSettings } from './httpTls';
+import { isMaskedVariable } from './httpSecrets';
+import { HttpSecretStore } from './httpSecretStore';
+import {
+  findBlockDirective,
+  findChainReferences,
+  NamedResponseStore,
+  replaceChainReferences,
+  resolveChainReference,
+} from './httpRequestChaining';
 import type {
+  HttpRequestConnectionSetting,
   HttpRequestFormData,
+  HttpRequestResolvedPreview,
   HttpRequestVariableBinding,
 } from './httpRequestEditorTypes';
 
-function isSecretKey(key: string): boolean {
-  const lower = key.toLowerCase();
-  return (
-    lower.includes('token') ||
-    lower.includes('secret') ||
-    lower.includes('password') ||
-    lower.includes('api_key') ||
-    lower.includes('apikey')
-  );
-}
-
 function replaceFilePlaceholders(text: string, fileVars: Map<string, string>): string {
   return text.replace(/\{\{\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*\}\}/g, (match, varName) => {
     if (match.includes('@')) {
@@ -30,21 +31,18 @@ function replaceFilePlaceholders(text: string, fileVars: Map<string, string>): s
 }
 
 /**
- * Collects {{var}} bindings and a resolved URL for the request editor preview.
+ * Collects {{var}} bindings, a resolved URL and the effective proxy / TLS settings
+ * for the request editor preview.
  */
 export function buildVariablePreview(
   form: HttpRequestFormData,
   document: vscode.TextDocument,
   blockStartLine: number,
+  blockEndLine: number,
   workspacePath: string,
   activeProjectEnv: string,
   envRoot?: string
-): {
-  effectiveEnv: string;
-  envSource: 'block' | 'file' | 'workspace';
-  resolvedUrl: string;
-  bindings: HttpRequestVariableBinding[];
-} {
+): HttpRequestResolvedPreview {
   const fileVars = mergeCustomVariables(document, blockStartLine);
   const blockEnv = getEnvironmentForSection(document, blockStartLine);
   const globalEnv = getEnvironmentForSection(document, 0);
@@ -102,7 +100,24 @@ export function buildVariablePreview(
       placeholder: match[0],
       source,
       value,
-      masked: value !== null && isSecretKey(name),
+      masked: value !== null && isMaskedVariable(name, value),
+    });
+  }
+
+  const namedStore = NamedResponseStore.getInstance();
+  for (const ref of findChainReferences(combined)) {
+    if (seen.has(ref.placeholder)) {
+      continue;
+    }
+    seen.add(ref.placeholder);
+    const exchange = namedStore.get(document.uri.fsPath, getNamedRequestEnvironment(document, ref.name), ref.name);
+    const value = exchange ? resolveChainReference(exchange, ref) : null;
+    bindings.push({
+      name: ref.placeholder.replace(/^\{\{\s*|\s*\}\}$/g, ''),
+      placeholder: ref.placeholder,
+      source: 'chain',
+      value,
+      masked: value !== null && isMaskedVariable(ref.path, value),
     });
   }
 
@@ -119,13 +134,53 @@ export function buildVariablePreview(
     dotenvVariables: dotenvVariables ?? undefined,
     resolveDynamic: false,
   });
+  resolvedUrl = HttpSecretStore.getInstance().mask(
+    replaceChainReferences(resolvedUrl, (name) =>
+      namedStore.get(document.uri.fsPath, getNamedRequestEnvironment(document, name), name)
+    )
+  );
 
   bindings.sort((a, b) => a.name.localeCompare(b.name));
 
+  let connection: HttpRequestConnectionSetting[];
+  const tlsDirective = findBlockDirective(
+    document.getText().split('\n'),
+    blockStartLine,
+    blockEndLine,
+    parseTlsLine
+  );
+  try {
+    const resolveValue = (value: string): string =>
+      resolveHttpVariables({
+        content: value,
+        workspacePath,
+        envRoot,
+        envName: effectiveEnv || null,
+        customVariables: fileVars,
+        dotenvVariables,
+        resolveDynamic: false,
+      });
+    connection = describeTlsSettings(
+      resolveTlsSettings(
+        tlsDirective && {
+          options: Object.fromEntries(
+            Object.entries(tlsDirective.options).map(([key, value]) => [key, resolveValue(value)])
+          ),
+        },
+        (name) => dotenvVariables?.get(name.toLowerCase()) ?? fileVars.get(name)
+      )
+    );
+  } catch (error) {
+    connection = [
+      { label: 'Invalid', value: error instanceof Error ? error.message : String(error), source: 'error' },
+    ];
+  }
+
   return {
     effectiveEnv,
     envSource,
     resolvedUrl,
     bindings,
+    connection,
   };
 }
@@ -27,6 +27,8 @@ function runTests(): void {
   testSingleSectionRoundTrip();
   testPreservesAssertions();
   testMultiSectionIsolation();
+  testBodyModesRoundTrip();
+  testPreservesScripts();
   console.log('All httpRequestEditorSerializer tests passed.');
 }
 
@@ -59,6 +61,31 @@ function testPreservesAssertions(): void {
   assert.ok(merged.includes('## Rate limit'));
 }
 
+function testPreservesScripts(): void {
+  const text = `## Signed
+< {%
+  /* nonce for the signature */
+  request.variables.set('nonce', crypto.randomHex(8));
+%}
+POST https://api.example.com/orders
+Content-Type: application/json
+
+{"a": 1}
+
+> {%
+  client.global.set('orderId', response.body.id);
+%}
+`;
+  const block = { startLine: 0, endLine: 13 };
+  const form = formFromFileBlock(text, block);
+  assert.strictEqual(form.url, 'https://api.example.com/orders');
+  assert.strictEqual(form.body, '{"a": 1}', 'scripts are not part of the body');
+
+  const merged = mergeRequestFormIntoFile(text, block, { ...form, body: '{"a": 2}' });
+  assert.ok(merged.includes("< {%\n  /* nonce for the signature */\n  request.variables.set('nonce', crypto.randomHex(8));\n%}\nPOST"));
+  assert.ok(merged.includes('{"a": 2}\n\n> {%\n  client.global.set'));
+}
+
 function testMultiSectionIsolation(): void {
   const second = { startLine: 14, endLine: 22 };
   const merged = mergeRequestFormIntoFile(SAMPLE, second, {
@@ -72,6 +99,50 @@ function testMultiSectionIsolation(): void {
   assert.ok(!merged.match(/GET \{\{GITHUB_API\}\}\/rate_limit/));
 }
 
+function testBodyModesRoundTrip(): void {
+  const block = { startLine: 3, endLine: 12 };
+  const multipart = mergeRequestFormIntoFile(SAMPLE, block, {
+    method: 'POST',
+    url: '{{GITHUB_API}}/upload',
+    headers: [{ key: 'Accept', value: 'application/json' }],
+    body: '',
+    bodyMode: 'multipart',
+    bodyFields: [
+      { key: 'title', value: 'Hi', type: 'text' },
+      { key: 'file', value: './a.png', type: 'file', contentType: 'image/png' },
+    ],
+  });
+  assert.ok(multipart.includes('Content-Type: multipart/form-data; boundary='));
+  assert.ok(multipart.includes('< ./a.png'));
+  const form = formFromFileBlock(multipart, { startLine: 3, endLine: 22 });
+  assert.strictEqual(form.bodyMode, 'multipart');
+  assert.deepStrictEqual(form.bodyFields?.map((f) => f.key), ['title', 'file']);
+  assert.strictEqual(form.bodyFields?.[1].type, 'file');
+
+  const urlencoded = serializeRestClientRequest({
+    method: 'POST',
+    url: 'https://x.test',
+    headers: [],
+    body: '',
+    bodyMode: 'urlencoded',
+    bodyFields: [{ key: 'a', value: '1', type: 'text' }, { key: 'b', value: '2', type: 'text' }],
+  });
+  assert.strictEqual(
+    urlencoded,
+    'POST https://x.test\nContent-Type: application/x-www-form-urlencoded\n\na=1\nb=2'
+  );
+
+  const file = serializeRestClientRequest({
+    method: 'PUT',
+    url: 'https://x.test',
+    headers: [{ key: 'Content-Type', value: 'application/json' }],
+    body: 'ignored',
+    bodyMode: 'file',
+    bodyFile: './payload.json',
+  });
+  assert.ok(file.endsWith('\n\n< ./payload.json'));
+}
+
 function testSerialize(): void {
   const text = serializeRestClientRequest({
     method: 'post',
@@ -1,9 +1,21 @@
-import { parseHttpRequest } from './httpRequestParse';
+import { isGraphqlMethodLine } from './httpGraphql';
+import { parseHttpRequest, type HttpRequestConfig } from './httpRequestParse';
+import {
+  DEFAULT_MULTIPART_BOUNDARY,
+  detectBodyMode,
+  getMultipartBoundary,
+  parseFileReferenceLine,
+  parseMultipartFields,
+  parseUrlencodedFields,
+  serializeMultipartFields,
+  serializeUrlencodedFields,
+} from './httpRequestBody';
 import type { HttpRequestBlock } from './httpRequestParser';
+import { isScriptBlockOpener, removeScriptBlocks } from './httpScript';
 import type { HttpRequestFormData } from './httpRequestEditorTypes';
 
 const HTTP_METHOD_LINE =
-  /^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)\s+(https?:\/\/|\{\{).+$/i;
+  /^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS|GRAPHQL|WSS|WS|SSE)\s+(https?:\/\/|wss?:\/\/|\{\{).+$/i;
 
 /**
  * Locates the first runnable request lines inside a block range (0-based, inclusive).
@@ -29,6 +41,13 @@ export function findRequestLineRange(
     if (!text) {
       continue;
     }
+    if (isScriptBlockOpener(text)) {
+      // Skip a `< {% ... %}` pre-request script
+      while (i < endLine && i < lines.length - 1 && !lines[i].includes('%}')) {
+        i++;
+      }
+      continue;
+    }
     if (text.toLowerCase().startsWith('curl')) {
       let end = i;
       for (let j = i; j <= endLine && j < lines.length; j++) {
@@ -58,6 +77,13 @@ export function findRequestLineRange(
     if (HTTP_METHOD_LINE.test(text)) {
       break;
     }
+    if (isScriptBlockOpener(text)) {
+      // Keep the blank line between the body and a `> {% ... %}` script
+      while (requestEnd > requestStart && !lines[requestEnd].trim()) {
+        requestEnd--;
+      }
+      break;
+    }
     requestEnd = i;
   }
 
@@ -113,7 +139,21 @@ export function extractRequestTextFromBlock(
     }
   }
 
-  return original.join('\n').trim() || null;
+  return removeScriptBlocks(original.join('\n')).trim() || null;
+}
+
+/**
+ * Parses block text for the editor; `GRAPHQL` blocks keep their method and query document
+ * instead of the JSON body they are sent as.
+ */
+export function parseEditorRequest(requestText: string): HttpRequestConfig | null {
+  const graphqlLine = requestText.split('\n').find((line) => isGraphqlMethodLine(line));
+  if (!graphqlLine) {
+    return parseHttpRequest(requestText);
+  }
+  const asPost = graphqlLine.replace(/^(\s*)GRAPHQL/i, '$1POST');
+  const config = parseHttpRequest(requestText.replace(graphqlLine, asPost));
+  return config ? { ...config, method: 'GRAPHQL' } : null;
 }
 
 /**
@@ -129,7 +169,7 @@ export function formFromFileBlock(
     return emptyForm();
   }
 
-  const config = parseHttpRequest(requestText);
+  const config = parseEditorRequest(requestText);
   if (!config) {
     return emptyForm();
   }
@@ -147,12 +187,68 @@ export function formFromFileBlock(
         : JSON.stringify(config.body, null, 2);
   }
 
-  return {
+  const form: HttpRequestFormData = {
     method: (config.method ?? 'GET').toUpperCase(),
     url: config.url,
     headers,
     body,
   };
+  const bodyMode = detectBodyMode(config.headers ?? {}, body);
+  if (bodyMode === 'urlencoded') {
+    form.bodyMode = bodyMode;
+    form.bodyFields = parseUrlencodedFields(body);
+  } else if (bodyMode === 'multipart') {
+    const contentType = headers.find((h) => h.key.toLowerCase() === 'content-type')?.value;
+    form.bodyMode = bodyMode;
+    form.bodyFields = parseMultipartFields(body, getMultipartBoundary(contentType) ?? DEFAULT_MULTIPART_BOUNDARY);
+  } else if (bodyMode === 'file') {
+    form.bodyMode = bodyMode;
+    form.bodyFile = parseFileReferenceLine(body)?.path ?? '';
+  }
+  return form;
+}
+
+/**
+ * Sets (or adds) the Content-Type header row.
+ */
+function withContentType(
+  headers: HttpRequestFormData['headers'],
+  value: string
+): HttpRequestFormData['headers'] {
+  const index = headers.findIndex((h) => h.key.trim().toLowerCase() === 'content-type');
+  if (index < 0) {
+    return [...headers, { key: 'Content-Type', value }];
+  }
+  return headers.map((h, i) => (i === index ? { key: h.key, value } : h));
+}
+
+/**
+ * Body text and headers for the form's body mode (fields become urlencoded lines,
+ * multipart parts, or a `< path` include).
+ */
+function resolveFormBody(form: HttpRequestFormData): Pick<HttpRequestFormData, 'headers' | 'body'> {
+  const fields = form.bodyFields ?? [];
+  switch (form.bodyMode) {
+    case 'urlencoded': {
+      const contentType = form.headers.find((h) => h.key.trim().toLowerCase() === 'content-type');
+      const headers = contentType && /x-www-form-urlencoded/i.test(contentType.value)
+        ? form.headers
+        : withContentType(form.headers, 'application/x-www-form-urlencoded');
+      return { headers, body: serializeUrlencodedFields(fields) };
+    }
+    case 'multipart': {
+      const current = form.headers.find((h) => h.key.trim().toLowerCase() === 'content-type');
+      const boundary = getMultipartBoundary(current?.value) ?? DEFAULT_MULTIPART_BOUNDARY;
+      return {
+        headers: withContentType(form.headers, `multipart/form-data; boundary=${boundary}`),
+        body: serializeMultipartFields(fields, boundary),
+      };
+    }
+    case 'file':
+      return { headers: form.headers, body: form.bodyFile?.trim() ? `< ${form.bodyFile.trim()}` : '' };
+    default:
+      return { headers: form.headers, body: form.body ?? '' };
+  }
 }
 
 /**
@@ -162,8 +258,9 @@ export function serializeRestClientRequest(form: HttpRequestFormData): string {
   const method = (form.method || 'GET').trim().toUpperCase() || 'GET';
   const url = form.url.trim() || 'https://example.com';
   const lines: string[] = [`${method} ${url}`];
+  const { headers, body } = resolveFormBody(form);
 
-  for (const header of form.headers) {
+  for (const header of headers) {
     const key = header.key.trim();
     if (!key) {
       continue;
@@ -171,7 +268,6 @@ export function serializeRestClientRequest(form: HttpRequestFormData): string {
     lines.push(`${key}: ${header.value}`);
   }
 
-  const body = form.body ?? '';
   if (body.trim()) {
     lines.push('');
     lines.push(body);
@@ -1,11 +1,19 @@
 import type { HttpRequestBlock } from './httpRequestParser';
+import type { HttpRequestBodyField, HttpRequestBodyMode } from './httpRequestBody';
+import type { HttpAuthType } from './httpAuth';
 
 /** Editable HTTP request fields shown in the visual editor. */
 export interface HttpRequestFormData {
   method: string;
   url: string;
   headers: Array<{ key: string; value: string }>;
+  /** Raw body text; written as-is when `bodyMode` is `raw` (or absent). */
   body: string;
+  bodyMode?: HttpRequestBodyMode;
+  /** Key/value rows (`urlencoded`) or text/file parts (`multipart`). */
+  bodyFields?: HttpRequestBodyField[];
+  /** Path written as `< path` in `file` mode, relative to the request file. */
+  bodyFile?: string;
 }
 
 /** Block summary for tag picker in the webview. */
@@ -32,16 +40,25 @@ export interface HttpRequestEnvVariableSummary {
 export interface HttpRequestVariableBinding {
   name: string;
   placeholder: string;
-  source: 'file' | 'env' | 'unresolved';
+  /** `chain` = `{{name.response...}}` from a `# @name` request (value null until it has run). */
+  source: 'file' | 'env' | 'chain' | 'unresolved';
   value: string | null;
   masked: boolean;
 }
 
+/** Effective proxy / TLS setting of the block (`# @tls` or `.env`); `error` rows explain invalid settings. */
+export interface HttpRequestConnectionSetting {
+  label: string;
+  value: string;
+  source: 'directive' | 'env' | 'error';
+}
+
 export interface HttpRequestResolvedPreview {
   effectiveEnv: string;
   envSource: 'block' | 'file' | 'workspace';
   resolvedUrl: string;
   bindings: HttpRequestVariableBinding[];
+  connection: HttpRequestConnectionSetting[];
 }
 
 export interface HttpRequestAssertionSummary {
@@ -52,6 +69,12 @@ export interface HttpRequestAssertionSummary {
   raw: string;
 }
 
+/** `# @auth` of the active block as written (`{{variables}}` unresolved); `none` when absent. */
+export interface HttpRequestAuthSummary {
+  type: HttpAuthType | 'none';
+  options: Record<string, string>;
+}
+
 /** Payload pushed from extension → webview on load / refresh. */
 export interface HttpRequestEditorInitMessage {
   type: 'init';
@@ -70,6 +93,7 @@ export interface HttpRequestEditorInitMessage {
   envVariables: HttpRequestEnvVariableSummary[];
   fileVariables: Array<{ key: string; value: string }>;
   assertions: HttpRequestAssertionSummary[];
+  auth: HttpRequestAuthSummary;
   resolvedPreview: HttpRequestResolvedPreview;
   assertOperators: string[];
   assertExpressions: string[];
@@ -91,6 +115,7 @@ export type HttpRequestEditorInboundMessage =
   | { command: 'save'; form: HttpRequestFormData; blockIndex: number; silent?: boolean }
   | { command: 'send'; form: HttpRequestFormData; blockIndex: number }
   | { command: 'copyCurl'; blockIndex: number }
+  | { command: 'copyCode'; blockIndex: number }
   | { command: 'openAsText' }
   | { command: 'setProjectEnv'; envName: string; blockIndex?: number }
   | { command: 'addFileVar'; key: string; value: string }
@@ -101,6 +126,7 @@ export type HttpRequestEditorInboundMessage =
   | { command: 'selectEnvironment' }
   | { command: 'createEnvironment' }
   | { command: 'saveAssertions'; blockIndex: number; assertions: HttpRequestAssertionSummary[]; silent?: boolean }
+  | { command: 'saveAuth'; blockIndex: number; auth: HttpRequestAuthSummary }
   | { command: 'importCurl'; text: string; blockIndex: number }
   | { command: 'newRequest' }
   | { command: 'sendResponseToChat' }
@@ -2,21 +2,130 @@ import * as vscode from 'vscode';
 import * as child_process from 'child_process';
 import * as path from 'path';
 import * as fs from 'fs';
+import { tmpdir } from 'os';
 import { mergeCustomVariables } from './httpRequestVariables';
 import { resolveHttpVariables } from './httpVariableResolver';
-import { getHttpResponsePath, getHttpEnvContext } from './utils';
+import { getHttpSectionResponsePath, getHttpEnvContext } from './utils';
 import { EnvironmentManager } from './environmentManager';
 import {
   buildHttpResponsePanelKey,
+  type HttpResendContext,
   HttpResponsePanel,
 } from './httpResponsePanel';
 import { HttpResponseEmitter } from './httpResponseEmitter';
-import type { HttpResponsePayload } from './httpResponseTypes';
+import type {
+  HttpRedirectHop,
+  HttpResponsePayload,
+  HttpStreamMessage,
+  HttpTimings,
+} from './httpResponseTypes';
+import { executeNodeHttpRequest, serializeRequestBody } from './httpNodeEngine';
+import {
+  type CookieJar,
+  cookieJarKey,
+  mergeCookieHeader,
+  parseNoCookieJarLine,
+} from './httpCookieJar';
+import { HttpCookieJarManager } from './httpCookieJarManager';
+import { buildGraphqlRequestBody, GRAPHQL_INTROSPECTION_QUERY } from './httpGraphql';
+import { isStreamMethod, openHttpStream, parseStreamDurationLine } from './httpStream';
+import {
+  buildCurlBodyArgs,
+  buildRequestPayload,
+  inlineVariableFileReferences,
+} from './httpRequestBody';
+import {
+  findBlockDirective,
+  findRequestName,
+  listReferencedRequestNames,
+  NamedResponseStore,
+  replaceChainReferences,
+} from './httpRequestChaining';
+import { getHttpRequestBlocks } from './httpRequestParser';
+import {
+  createHistoryId,
+  hasMaskedSecrets,
+  maskHistoryEntry,
+  toHistoryAssertions,
+  type HttpHistoryEntry,
+} from './httpHistory';
+import { HttpHistoryManager } from './httpHistoryManager';
+import {
+  buildHttpSnapshot,
+  compareHttpSnapshots,
+  formatSnapshotDiff,
+  getSnapshotFilePath,
+  parseHttpSnapshot,
+  parseSnapshotLine,
+  serializeHttpSnapshot,
+  type HttpSnapshotDirective,
+} from './httpSnapshot';
 import {
   isHttpRequestCustomEditorOpen,
   resolveHttpResponseView,
 } from './httpResponseView';
-import type { AssertionResult } from './assertionTypes';
+import type { Assertion, AssertionResult } from './assertionTypes';
+import type { ValidateAssertionsOptions } from './assertionValidator';
+import {
+  DEFAULT_SCRIPT_TIMEOUT_MS,
+  extractScriptBlocks,
+  HttpScriptGlobalStore,
+  removeScriptBlocks,
+  runHttpScript,
+  type HttpScriptBlock,
+  type HttpScriptOutcome,
+} from './httpScript';
+import {
+  authorizationCredential,
+  buildBasicAuthorization,
+  buildDigestAuthorization,
+  formatOAuth2Authorization,
+  getHeaderValue,
+  OAuth2TokenCache,
+  oauth2CacheKey,
+  obtainOAuth2Token,
+  parseAuthLine,
+  parseDigestChallenge,
+  resolveAuthSettings,
+  setAuthorizationHeader,
+  signAwsRequest,
+  stripSignedAuthHeaders,
+  type HttpAuthSettings,
+} from './httpAuth';
+import {
+  parseTlsLine,
+  resolveTlsPaths,
+  resolveTlsSettings,
+  type HttpTlsSettings,
+} from './httpTls';
+import { buildCurlArgs, quoteCurlArgument } from './httpCurlCommand';
+import { fillTlsPassphrase } from './httpTlsPassphraseStore';
+import {
+  buildDatasetRowResult,
+  formatDatasetRun,
+  labelDatasetAssertionResults,
+  mergeDatasetAssertionResults,
+  parseDatasetContent,
+  parseDatasetLine,
+  selectDatasetRows,
+  type HttpDatasetDirective,
+  type HttpDatasetRow,
+  type HttpDatasetRowResult,
+  type HttpDatasetRun,
+} from './httpDataset';
+import {
+  runLoadTest,
+  summarizeLoadTest,
+  type HttpLoadTestOptions,
+  type HttpLoadTestReport,
+} from './httpLoadTest';
+import type { HttpCompareSide } from './httpEnvCompare';
+import { HttpSecretStore, resolveEnvSecrets } from './httpSecretStore';
+import {
+  generateHttpRequestCode,
+  HTTP_CODEGEN_LANGUAGES,
+  type HttpCodegenLanguage,
+} from './httpCodegen';
 import {
   type HttpRequestConfig,
   isRestClientFormat,
@@ -30,6 +139,9 @@ export type { HttpRequestConfig } from './httpRequestParse';
 // Store execution times for response files
 const executionTimes: Map<string, string> = new Map();
 
+// `client.log` output of request scripts (created on first use)
+let scriptOutputChannel: vscode.OutputChannel | undefined;
+
 /**
  * Result of HTTP request execution
  */
@@ -38,75 +150,150 @@ export interface HttpRequestResult {
   statusText: string;
   headers: Record<string, string>;
   body: string;
+  /** Decoded body bytes (images, PDFs, downloads); only the built-in engine keeps them. */
+  bodyBytes?: Buffer;
   error?: string;
+  /** Phase timings; only the built-in engine reports them. */
+  timings?: HttpTimings;
+  /** Redirects followed before the final response. */
+  redirects?: HttpRedirectHop[];
+  /** Raw `Set-Cookie` values of the final response, one per header line. */
+  setCookies?: string[];
+  /** Messages of a `WS` / `WSS` / `SSE` stream, in arrival order. */
+  messages?: HttpStreamMessage[];
+}
+
+/** Which transport sends requests: built-in Node http/https or the curl CLI. */
+export type HttpRequestEngine = 'node' | 'curl';
+
+export interface ExecuteHttpRequestOptions {
+  engine?: HttpRequestEngine;
+  maxRedirects?: number;
+  /** Environment cookie jar; omitted for `# @no-cookie-jar` requests. */
+  cookieJar?: CookieJar;
+  /** Seconds a `WS` / `WSS` / `SSE` stream stays open. */
+  streamDurationSeconds?: number;
+  /** Proxy, client certificate and verification settings (`# @tls` / `.env`), absolute paths. */
+  tls?: HttpTlsSettings;
+}
+
+/**
+ * Reads engine, redirect and stream settings from `cursorToys.*` configuration.
+ */
+export function getHttpRequestEngineOptions(): Required<Omit<ExecuteHttpRequestOptions, 'cookieJar' | 'tls'>> {
+  const config = vscode.workspace.getConfiguration('cursorToys');
+  const engine = config.get<string>('httpRequestEngine', 'node') === 'curl' ? 'curl' : 'node';
+  const maxRedirects = Math.max(0, config.get<number>('httpRequestMaxRedirects', 5));
+  const streamDurationSeconds = Math.max(1, config.get<number>('httpStreamDurationSeconds', 30));
+  return { engine, maxRedirects, streamDurationSeconds };
 }
 
 /**
- * Builds a curl command from HTTP request configuration
+ * Builds the curl command for a request, as copied to the clipboard
  * @param config The HTTP request configuration
+ * @param bodyArgs Shell-quoted body flags replacing `-d` (file, multipart, urlencoded bodies)
  * @returns The curl command string
  */
-function buildCurlCommand(config: HttpRequestConfig): string {
-  let curlCmd = 'curl';
-  
-  // Add include headers flag to capture HTTP headers
-  curlCmd += ' -i';
-  
-  // Add silent flag to suppress progress (but keep errors)
-  curlCmd += ' -s';
-  
-  // Add show error flag to capture errors
-  curlCmd += ' -S';
-  
-  // Add write-out to ensure we get status code (as fallback)
-  // Format: http_code:status_code
-  curlCmd += ' -w "\\nHTTPSTATUS:%{http_code}"';
-  
-  // Add method
-  if (config.method && config.method !== 'GET') {
-    curlCmd += ` -X ${config.method}`;
-  }
-  
-  // Add headers
-  if (config.headers) {
-    for (const [key, value] of Object.entries(config.headers)) {
-      // Escape quotes in header values
-      const escapedValue = value.replace(/"/g, '\\"');
-      curlCmd += ` -H "${key}: ${escapedValue}"`;
-    }
-  }
-  
-  // Add body
-  if (config.body) {
-    const bodyStr = typeof config.body === 'string' ? config.body : JSON.stringify(config.body);
-    // Escape single quotes for shell
-    const escapedBody = bodyStr.replace(/'/g, "'\\''");
-    curlCmd += ` -d '${escapedBody}'`;
+function buildCurlCommand(
+  config: HttpRequestConfig,
+  bodyArgs?: { args: string[]; dropContentType: boolean }
+): string {
+  const args = buildCurlArgs(config, {
+    body: bodyArgs ? [] : undefined,
+    dropContentType: bodyArgs?.dropContentType,
+  }).map(quoteCurlArgument);
+  if (bodyArgs) {
+    // The URL stays last
+    args.splice(args.length - 1, 0, ...bodyArgs.args);
   }
-  
-  // Add URL (must be last)
-  // Escape quotes in URL
-  const escapedUrl = config.url.replace(/"/g, '\\"');
-  curlCmd += ` "${escapedUrl}"`;
-  
-  return curlCmd;
+  return ['curl', ...args].join(' ');
 }
 
 /**
- * Executes an HTTP request using curl
+ * Executes an HTTP request with the built-in engine (default) or curl
  * @param config The HTTP request configuration
  * @param timeout Timeout in seconds (default: 10)
+ * @param options Engine selection and redirect limit
  * @returns Promise with the HTTP request result
  */
 export async function executeHttpRequest(
   config: HttpRequestConfig,
-  timeout: number = 10
+  timeout: number = 10,
+  options: ExecuteHttpRequestOptions = {}
 ): Promise<HttpRequestResult> {
-  return new Promise((resolve, reject) => {
-    const curlCommand = buildCurlCommand(config);
+  // Streams always use the built-in engine and report once they stop
+  if (isStreamMethod(config.method)) {
+    return openHttpStream(config, {
+      timeoutSeconds: timeout,
+      durationSeconds: options.streamDurationSeconds ?? 30,
+      cookieJar: options.cookieJar,
+      tls: options.tls,
+    }).done;
+  }
+  if (options.engine === 'curl') {
+    const jar = options.cookieJar;
+    const jarHeader = jar?.getCookieHeader(config.url) ?? '';
+    const headers = { ...(config.headers ?? {}) };
+    if (jarHeader) {
+      const cookieKey = Object.keys(headers).find((key) => key.toLowerCase() === 'cookie');
+      const explicit = cookieKey ? headers[cookieKey] : undefined;
+      if (cookieKey) {
+        delete headers[cookieKey];
+      }
+      headers[cookieKey ?? 'Cookie'] = mergeCookieHeader(explicit, jarHeader);
+    }
+    const result = await executeCurlRequest({ ...config, headers }, timeout, options.tls);
+    jar?.setCookies(result.setCookies ?? [], config.url);
+    return result;
+  }
+  return executeNodeHttpRequest(config, {
+    timeoutSeconds: timeout,
+    maxRedirects: options.maxRedirects ?? 5,
+    cookieJar: options.cookieJar,
+    tls: options.tls,
+  });
+}
+
+/**
+ * Executes an HTTP request using curl (opt-in fallback engine)
+ * @param config The HTTP request configuration
+ * @param timeout Timeout in seconds
+ * @param tls Proxy and TLS settings of the request
+ * @returns Promise with the HTTP request result
+ */
+function executeCurlRequest(
+  config: HttpRequestConfig,
+  timeout: number,
+  tls?: HttpTlsSettings
+): Promise<HttpRequestResult> {
+  // Built payloads (files, multipart) go through a temp file instead of the shell
+  let payloadPath: string | undefined;
+  if (config.payload) {
+    payloadPath = path.join(tmpdir(), `cursor-toys-body-${process.pid}-${Date.now()}.bin`);
+    fs.writeFileSync(payloadPath, config.payload);
+  }
+  const cleanup = (): void => {
+    if (payloadPath) {
+      fs.rm(payloadPath, { force: true }, () => undefined);
+    }
+  };
+
+  return new Promise<HttpRequestResult>((resolve, reject) => {
+    let curlArgs: string[];
+    try {
+      curlArgs = buildCurlArgs(config, {
+        tls,
+        body: payloadPath ? ['--data-binary', `@${payloadPath}`] : undefined,
+      });
+    } catch (error) {
+      cleanup();
+      const message = error instanceof Error ? error.message : String(error);
+      resolve({ statusCode: 0, statusText: 'Error', headers: {}, body: message, error: message });
+      return;
+    }
     
-    // Execute curl command
-    const child = child_process.exec(curlCommand, {
+    // Arguments go to curl as they are; no shell sees header, cookie or URL values
+    child_process.execFile('curl', curlArgs, {
       timeout: timeout * 1000,
       maxBuffer: 10 * 1024 * 1024 // 10MB buffer
     }, (error, stdout, stderr) => {
@@ -125,8 +312,7 @@ export async function executeHttpRequest(
         }
         
         // Check if curl is not found
-        if (error.message.includes('curl: command not found') || 
-            error.message.includes('curl: not found')) {
+        if (error.code === 'ENOENT') {
           const curlNotFoundResult: HttpRequestResult = {
             statusCode: 0,
             statusText: 'Error',
@@ -183,7 +369,7 @@ export async function executeHttpRequest(
       const result = parseCurlResponse(stdout, stderr);
       resolve(result);
     });
-  });
+  }).finally(cleanup);
 }
 
 /**
@@ -231,6 +417,7 @@ function parseCurlResponse(stdout: string, stderr: string): HttpRequestResult {
   let statusCode = 0;
   let statusText = 'Unknown';
   const headers: Record<string, string> = {};
+  const setCookies: string[] = [];
   let bodySection = '';
   
   if (!output) {
@@ -334,6 +521,9 @@ function parseCurlResponse(stdout: string, stderr: string): HttpRequestResult {
       const value = trimmedLine.substring(colonIndex + 1).trim();
       if (key) {
         headers[key] = value;
+        if (key.toLowerCase() === 'set-cookie') {
+          setCookies.push(value);
+        }
       }
     }
   }
@@ -345,7 +535,8 @@ function parseCurlResponse(stdout: string, stderr: string): HttpRequestResult {
     statusCode,
     statusText,
     headers,
-    body: bodySection
+    body: bodySection,
+    setCookies
   };
 }
 
@@ -478,6 +669,14 @@ export function formatHttpResponse(result: HttpRequestResult, requestPayload?: s
     }
   }
   
+  if (result.redirects && result.redirects.length > 0) {
+    response += formatRedirectChain(result.redirects);
+  }
+
+  if (result.timings) {
+    response += formatTimings(result.timings);
+  }
+
   // Add assertion results if present
   if (assertionResults && assertionResults.length > 0) {
     // Import formatAssertionResults dynamically to avoid circular dependency
@@ -495,6 +694,42 @@ export function formatHttpResponse(result: HttpRequestResult, requestPayload?: s
   return response;
 }
 
+/**
+ * Formats the redirect chain as a text section
+ * @param redirects Followed redirects, oldest first
+ * @returns Formatted section (leading blank line included)
+ */
+function formatRedirectChain(redirects: HttpRedirectHop[]): string {
+  let output = '\n\n=== REDIRECTS ===\n';
+  for (const hop of redirects) {
+    output += `${hop.statusCode} ${hop.url} -> ${hop.location}\n`;
+  }
+  return output.trimEnd();
+}
+
+/**
+ * Formats phase timings as a text section
+ * @param timings Timings in milliseconds
+ * @returns Formatted section (leading blank line included)
+ */
+function formatTimings(timings: HttpTimings): string {
+  const rows: Array<[string, number | undefined]> = [
+    ['DNS lookup', timings.dns],
+    ['TCP connect', timings.connect],
+    ['TLS handshake', timings.tls],
+    ['Time to first byte', timings.ttfb],
+    ['Download', timings.download],
+    ['Total', timings.total],
+  ];
+  let output = '\n\n=== TIMING ===\n';
+  for (const [label, value] of rows) {
+    if (value !== undefined) {
+      output += `${label}: ${value} ms\n`;
+    }
+  }
+  return output.trimEnd();
+}
+
 /**
  * Updates the tab title to include execution time
  * @param uri The URI of the response file
@@ -606,7 +841,7 @@ function extractRequestFromSection(
     // Skip comments and empty lines
     if (trimmed && !trimmed.startsWith('#')) {
       // Check if it's an HTTP method line
-      if (trimmed.match(/^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)\s+(https?:\/\/|\{\{).+$/i)) {
+      if (trimmed.match(/^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS|GRAPHQL|WSS|WS|SSE)\s+(https?:\/\/|wss?:\/\/|\{\{).+$/i)) {
         firstHttpLine = trimmed;
         break;
       }
@@ -834,6 +1069,28 @@ export function getEnvironmentForSection(
   return globalEnv;
 }
 
+/**
+ * Environment a `# @name` block is sent in; named responses are cached per environment
+ * @param document The request document
+ * @param name The `# @name` of the block
+ * @param envOverride Environment used instead of the block's own (Test Explorer profiles)
+ * @returns The environment name, or null when the block has none
+ */
+export function getNamedRequestEnvironment(
+  document: vscode.TextDocument,
+  name: string,
+  envOverride?: string
+): string | null {
+  if (envOverride) {
+    return envOverride;
+  }
+  const lines = document.getText().split('\n');
+  const block = getHttpRequestBlocks(document).find(
+    (b) => findRequestName(lines, b.startLine, b.endLine)?.toLowerCase() === name.toLowerCase()
+  );
+  return block ? getEnvironmentForSection(document, block.startLine) : null;
+}
+
 /**
  * Interface for helper functions
  */
@@ -1206,178 +1463,1399 @@ function replaceFileVariables(content: string, values: Map<string, string>): str
 }
 
 /**
- * Executes HTTP request from file and saves response
- * @param requestUri The URI of the request file
+ * Request parsed and resolved from a document block, ready to send
+ */
+interface PreparedHttpRequest {
+  config: HttpRequestConfig;
+  assertions: Assertion[];
+  envName: string | null;
+  envUsed: boolean;
+  /** `# @name` of the block, when present */
+  requestName: string | null;
+  /** Environment cookie jar key; null for `# @no-cookie-jar` requests */
+  cookieJarKey: string | null;
+  /** `# @stream-duration` of a `WS` / `SSE` block, in seconds */
+  streamDurationSeconds: number | null;
+  /** `# @snapshot` golden-file options of the block */
+  snapshot: HttpSnapshotDirective | null;
+  /** `> {% %}` scripts run after the response arrives */
+  postResponseScripts: HttpScriptBlock[];
+  /** `# @auth` credentials applied when sending (AWS SigV4 and Digest); Basic and OAuth2 are already in the headers */
+  auth: HttpAuthSettings | null;
+  /** Proxy, client certificate and TLS settings from `# @tls` and the environment */
+  tls: HttpTlsSettings | null;
+}
+
+/** A block's `# @tls` and `# @auth`, resolved against its variables and environment */
+interface BlockConnection {
+  tls: HttpTlsSettings;
+  auth: HttpAuthSettings | null;
+  /** Basic / OAuth2 `Authorization` value, set on the request before it is sent */
+  authorization?: string;
+}
+
+/**
+ * Resolves a block's `# @tls` over the environment's proxy / TLS keys and its `# @auth`,
+ * fetching OAuth2 tokens. Shows its own error messages; returns null when the settings are
+ * invalid or the user cancelled a prompt.
+ * @param documentLines Lines of the request file
+ * @param startLine Start line of the block
+ * @param endLine End line of the block
+ * @param options Folders relative paths resolve against and the variable lookups
+ */
+async function resolveBlockConnection(
+  documentLines: string[],
+  startLine: number | undefined,
+  endLine: number | undefined,
+  options: {
+    baseDir: string;
+    envDir: string;
+    envName: string | null;
+    resolveValue: (value: string) => string;
+    lookupVariable: (name: string) => string | undefined;
+  }
+): Promise<BlockConnection | null> {
+  const { baseDir, envDir, envName, resolveValue, lookupVariable } = options;
+  // `# @tls` over the environment's proxy / TLS_* keys; paths relative to where they were set
+  const tlsDirective = findBlockDirective(
+    documentLines,
+    startLine ?? 0,
+    endLine ?? documentLines.length - 1,
+    parseTlsLine
+  );
+  let tls: HttpTlsSettings;
+  try {
+    const resolvedTls = resolveTlsSettings(
+      tlsDirective && {
+        options: Object.fromEntries(
+          Object.entries(tlsDirective.options).map(([key, value]) => [key, resolveValue(value)])
+        ),
+      },
+      lookupVariable
+    );
+    const filled = await fillTlsPassphrase(resolveTlsPaths(resolvedTls, baseDir, envDir));
+    if (!filled) {
+      return null;
+    }
+    tls = filled;
+  } catch (error) {
+    vscode.window.showErrorMessage(`Invalid TLS settings: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+
+  // `# @auth`: option values may use {{variables}}; omitted ones fall back to env variables
+  const authDirective = findBlockDirective(
+    documentLines,
+    startLine ?? 0,
+    endLine ?? documentLines.length - 1,
+    parseAuthLine
+  );
+  let auth: HttpAuthSettings | null = null;
+  let authorization: string | undefined;
+  if (authDirective) {
+    try {
+      auth = resolveAuthSettings(
+        {
+          type: authDirective.type,
+          options: Object.fromEntries(
+            Object.entries(authDirective.options).map(([key, value]) => [key, resolveValue(value)])
+          ),
+        },
+        lookupVariable
+      );
+      if (auth.type === 'basic') {
+        authorization = buildBasicAuthorization(auth.username, auth.password);
+        HttpSecretStore.getInstance().addDerived(authorizationCredential(authorization), [auth.password]);
+      } else if (auth.type === 'oauth2') {
+        const token = await obtainOAuth2Token(
+          auth.oauth2,
+          oauth2CacheKey(envName, auth.oauth2),
+          (tokenRequest) =>
+            executeHttpRequest(tokenRequest, getRequestTimeout(), {
+              ...getHttpRequestEngineOptions(),
+              maxRedirects: 0,
+              tls,
+            })
+        );
+        authorization = formatOAuth2Authorization(token);
+      }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      vscode.window.showErrorMessage(
+        auth?.type === 'oauth2' ? `OAuth2 token request failed: ${reason}` : reason
+      );
+      return null;
+    }
+  }
+  return { tls, auth, ...(authorization ? { authorization } : {}) };
+}
+
+/**
+ * Resolves prompts, helpers, variables, and chained responses for a block and parses it
+ * Runs `# @name` prerequisites referenced through `{{name.response...}}` first.
+ * Shows its own error messages; returns null when the user cancelled or parsing failed.
+ * @param document The request document
  * @param startLine Optional start line for section-based execution
  * @param endLine Optional end line for section-based execution
- * @param sectionTitle Optional title of the section
- * @returns Promise that resolves when the response file is created
+ * @param visiting Named requests already on the prerequisite stack (cycle guard)
+ * @param envOverride Environment used instead of the block's `# @env` (Test Explorer profiles)
+ * @param row `# @dataset` row for {{row.column}} placeholders
+ * @returns The prepared request or null
  */
-export async function executeHttpRequestFromFile(
-  requestUri: vscode.Uri,
+async function prepareHttpRequest(
+  document: vscode.TextDocument,
   startLine?: number,
   endLine?: number,
-  sectionTitle?: string
-): Promise<void> {
-  try {
-    // Read request file
-    const document = await vscode.workspace.openTextDocument(requestUri);
-    
-    let content: string;
-    let responsePath: string;
-    
-    // Get the base response path (respecting .req -> .res or .request -> .response)
-    const baseResponsePath = getHttpResponsePath(requestUri.fsPath);
-    const responseDir = path.dirname(baseResponsePath);
-    const baseFileName = path.basename(baseResponsePath, path.extname(baseResponsePath));
-    const responseExt = path.extname(baseResponsePath);
-    
-    // If section is specified, extract only that section
-    if (startLine !== undefined && endLine !== undefined) {
-      const requestContent = extractRequestFromSection(document, startLine, endLine);
-      if (!requestContent) {
-        vscode.window.showErrorMessage('No HTTP request found in the selected section.');
-        return;
-      }
-      content = requestContent;
-      
-      // Use section title for response file name if available
-      if (sectionTitle) {
-        const sanitizedTitle = sectionTitle.replace(/[^a-zA-Z0-9]/g, '_').toLowerCase();
-        responsePath = path.join(responseDir, `${baseFileName}_${sanitizedTitle}${responseExt}`);
-      } else {
-        responsePath = baseResponsePath;
-      }
-    } else {
-      // Use entire file content
-      content = document.getText();
-      responsePath = baseResponsePath;
-    }
-    
-    // Process prompt and helper expressions first
-    const expressions = extractPromptExpressions(content);
-    if (expressions.length > 0) {
-      // Separate prompts and helpers
-      const promptExpressions = expressions.filter(expr => expr.type === 'prompt');
-      const helperExpressions = expressions.filter(expr => expr.type === 'helper');
-      
-      // Execute helpers first (they don't require user input)
-      const helperValues = await executeHelpers(helperExpressions);
-      
-      // Then prompt user for prompt expressions
-      const promptValues = promptExpressions.length > 0 
-        ? await promptForExpressions(promptExpressions)
-        : new Map<string, string>();
-      
-      if (promptValues === null) {
-        // User cancelled the prompts
-        return;
-      }
-      
-      // Merge helper and prompt values
-      const allValues = new Map([...helperValues, ...promptValues]);
-      
-      // Replace all expressions with their values
-      content = replacePromptExpressions(content, allValues);
+  visiting: string[] = [],
+  envOverride?: string,
+  row?: HttpDatasetRow
+): Promise<PreparedHttpRequest | null> {
+  let content: string;
+
+  // If section is specified, extract only that section
+  if (startLine !== undefined && endLine !== undefined) {
+    const requestContent = extractRequestFromSection(document, startLine, endLine);
+    if (!requestContent) {
+      vscode.window.showErrorMessage('No HTTP request found in the selected section.');
+      return null;
     }
-    
-    // Process file-level and request-scoped variables (# @var)
-    const fileVariables = extractFileVariables(document, startLine);
-    
-    // Detect environment decorator for this section
-    let envName: string | null = null;
-    let envUsed = false;
-    
-    if (startLine !== undefined) {
-      envName = getEnvironmentForSection(document, startLine);
-    } else {
-      envName = getEnvironmentForSection(document, 0);
+    content = requestContent;
+  } else {
+    // Use entire file content
+    content = document.getText();
+  }
+
+  // Scripts are code, not request text: keep them away from prompts and {{variables}}
+  const scripts = extractScriptBlocks(content);
+  content = removeScriptBlocks(content);
+
+  const documentLines = document.getText().split('\n');
+  const requestName = findRequestName(
+    documentLines,
+    startLine ?? 0,
+    endLine ?? documentLines.length - 1
+  );
+
+  // Process prompt and helper expressions first
+  const expressions = extractPromptExpressions(content);
+  if (expressions.length > 0) {
+    // Separate prompts and helpers
+    const promptExpressions = expressions.filter(expr => expr.type === 'prompt');
+    const helperExpressions = expressions.filter(expr => expr.type === 'helper');
+
+    // Execute helpers first (they don't require user input)
+    const helperValues = await executeHelpers(helperExpressions);
+
+    // Then prompt user for prompt expressions
+    const promptValues = promptExpressions.length > 0
+      ? await promptForExpressions(promptExpressions)
+      : new Map<string, string>();
+
+    if (promptValues === null) {
+      // User cancelled the prompts
+      return null;
     }
 
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    const envCtx = getHttpEnvContext(document.uri.fsPath);
-    const workspacePath =
-      envCtx?.workspacePath ?? workspaceFolders?.[0]?.uri.fsPath;
-    const envRoot = envCtx?.envRoot;
-    const envManager = EnvironmentManager.getInstance();
-    const dotenvVariables = envName && envCtx
-      ? envManager.loadEnvironment(envName, workspacePath ?? '', envRoot) ?? undefined
-      : undefined;
+    // Merge helper and prompt values
+    const allValues = new Map([...helperValues, ...promptValues]);
+
+    // Replace all expressions with their values
+    content = replacePromptExpressions(content, allValues);
+  }
+
+  // Inline `<@ ./file` bodies so their {{variables}} resolve like the rest of the request
+  const baseDir = path.dirname(document.uri.fsPath);
+  try {
+    content = inlineVariableFileReferences(content, (filePath) =>
+      fs.readFileSync(path.resolve(baseDir, filePath), 'utf8')
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage(`Cannot read request body file: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+
+  // Process file-level and request-scoped variables (# @var); script globals rank lowest
+  const fileVariables = new Map([
+    ...Object.entries(HttpScriptGlobalStore.getInstance().all()),
+    ...extractFileVariables(document, startLine),
+  ]);
+
+  // Detect environment decorator for this section
+  let envName: string | null = null;
+  let envUsed = false;
+
+  if (envOverride) {
+    envName = envOverride;
+  } else if (startLine !== undefined) {
+    envName = getEnvironmentForSection(document, startLine);
+  } else {
+    envName = getEnvironmentForSection(document, 0);
+  }
+
+  const workspaceFolders = vscode.workspace.workspaceFolders;
+  const envCtx = getHttpEnvContext(document.uri.fsPath);
+  const workspacePath =
+    envCtx?.workspacePath ?? workspaceFolders?.[0]?.uri.fsPath;
+  const envRoot = envCtx?.envRoot;
+  const envManager = EnvironmentManager.getInstance();
+  const loadedVariables = envName && envCtx
+    ? envManager.loadEnvironment(envName, workspacePath ?? '', envRoot) ?? undefined
+    : undefined;
+  // `secret:NAME` values come from SecretStorage; the user may cancel the prompt for a missing one
+  const dotenvVariables = loadedVariables && envName && envRoot
+    ? await resolveEnvSecrets(loadedVariables, { envRoot, envName })
+    : loadedVariables;
+  if (dotenvVariables === null) {
+    return null;
+  }
 
-    if (fileVariables.size > 0 || envName || dotenvVariables) {
-      content = resolveHttpVariables({
+  let unresolvedVars: string[] = [];
+  if (fileVariables.size > 0 || envName || dotenvVariables || row) {
+    content = resolveHttpVariables({
+      content,
+      workspacePath,
+      envRoot,
+      envName,
+      customVariables: fileVariables,
+      dotenvVariables: dotenvVariables ?? undefined,
+      rowVariables: row,
+    });
+    if (envName && envCtx) {
+      unresolvedVars = envManager.validateVariables(
         content,
-        workspacePath,
-        envRoot,
         envName,
-        customVariables: fileVariables,
-        dotenvVariables: dotenvVariables ?? undefined,
-      });
-      if (envName && envCtx) {
-        const unresolvedVars = envManager.validateVariables(
-          content,
-          envName,
-          workspacePath ?? '',
-          envRoot
-        );
-        if (unresolvedVars.length > 0) {
-          vscode.window.showWarningMessage(
-            `Unresolved variables in environment '${envName}': ${unresolvedVars.join(', ')}`
-          );
-        }
-        envUsed = true;
-      }
+        workspacePath ?? '',
+        envRoot
+      );
+      envUsed = true;
     }
+  }
 
-    const { extractAssertions, removeAssertionBlocks } = require('./assertionParser');
-    const assertions = extractAssertions(content);
-    content = removeAssertionBlocks(content);
-    
-    // Parse request
-    const config = parseHttpRequest(content);
-    if (!config) {
-      vscode.window.showErrorMessage('Failed to parse HTTP request. Please check the file format.');
-      return;
+  // Resolve {{name.response...}} from named requests (running them when needed)
+  const referencedNames = listReferencedRequestNames(content);
+  if (referencedNames.length > 0) {
+    const stack = requestName ? [...visiting, requestName] : visiting;
+    const ready = await runNamedPrerequisites(document, referencedNames, stack, envOverride);
+    if (!ready) {
+      return null;
     }
-    
-    // Get timeout and save file settings from configuration
-    const timeoutConfig = vscode.workspace.getConfiguration('cursorToys');
-    const timeout = timeoutConfig.get<number>('httpRequestTimeout', 10);
-    const saveFile = timeoutConfig.get<boolean>('httpRequestSaveFile', false);
-    const responseView = resolveHttpResponseView();
-    
-    // Show progress
-    await vscode.window.withProgress({
-      location: vscode.ProgressLocation.Notification,
-      title: 'Executing HTTP Request',
-      cancellable: false
-    }, async (progress) => {
-      progress.report({ increment: 0, message: 'Sending request...' });
-      
-      try {
-        // Measure execution time
-        const startTime = Date.now();
-        
-        // Prepare request payload for display
-        let requestPayload: string | undefined;
-        if (config.body) {
-          if (typeof config.body === 'string') {
-            // Try to parse and format if it's JSON
-            try {
-              const parsed = JSON.parse(config.body);
-              requestPayload = JSON.stringify(parsed, null, 2);
-            } catch {
-              // Not JSON, use as-is
-              requestPayload = config.body;
-            }
-          } else {
-            // Object, stringify with formatting
+    const store = NamedResponseStore.getInstance();
+    content = replaceChainReferences(content, (name) =>
+      store.get(document.uri.fsPath, getNamedRequestEnvironment(document, name, envOverride), name)
+    );
+  }
+
+  const { extractAssertions, removeAssertionBlocks } = require('./assertionParser');
+  const assertions: Assertion[] = extractAssertions(content);
+  content = removeAssertionBlocks(content);
+
+  // Parse request
+  const config = parseHttpRequest(content);
+  if (!config) {
+    vscode.window.showErrorMessage('Failed to parse HTTP request. Please check the file format.');
+    return null;
+  }
+
+  // `< {% %}` scripts may set variables, headers and the body before the payload is built
+  const scriptVariables = runPreRequestScripts(
+    scripts.filter((script) => script.phase === 'pre-request'),
+    config
+  );
+  if (!scriptVariables) {
+    return null;
+  }
+  unresolvedVars = unresolvedVars.filter((name) => !scriptVariables.has(name));
+  if (envName && unresolvedVars.length > 0) {
+    vscode.window.showWarningMessage(
+      `Unresolved variables in environment '${envName}': ${unresolvedVars.join(', ')}`
+    );
+  }
+
+  // `< ./file`, multipart and urlencoded bodies are built into the bytes to send
+  if (typeof config.body === 'string' && !isStreamMethod(config.method)) {
+    try {
+      const payload = buildRequestPayload(config.body, config.headers ?? {}, (filePath) =>
+        fs.readFileSync(path.resolve(baseDir, filePath))
+      );
+      if (payload) {
+        config.payload = payload;
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`Cannot read request body file: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  }
+
+  const resolveValue = (value: string): string =>
+    resolveHttpVariables({
+      content: value,
+      workspacePath,
+      envRoot,
+      envName,
+      customVariables: fileVariables,
+      dotenvVariables: dotenvVariables ?? undefined,
+      rowVariables: row,
+    });
+  const lookupVariable = (name: string): string | undefined =>
+    dotenvVariables?.get(name.toLowerCase()) ?? fileVariables.get(name);
+
+  const connection = await resolveBlockConnection(documentLines, startLine, endLine, {
+    baseDir,
+    envDir: envRoot ?? workspacePath ?? baseDir,
+    envName,
+    resolveValue,
+    lookupVariable,
+  });
+  if (!connection) {
+    return null;
+  }
+  const { tls, auth } = connection;
+
+  if (connection.authorization) {
+    config.headers = setAuthorizationHeader(config.headers ?? {}, connection.authorization);
+  }
+
+  const noCookieJar = findBlockDirective(
+    documentLines,
+    startLine ?? 0,
+    endLine ?? documentLines.length - 1,
+    parseNoCookieJarLine
+  );
+  const jarKey = noCookieJar
+    ? null
+    : cookieJarKey(envRoot ?? workspacePath ?? path.dirname(document.uri.fsPath), envName);
+
+  const streamDurationSeconds = findBlockDirective(
+    documentLines,
+    startLine ?? 0,
+    endLine ?? documentLines.length - 1,
+    parseStreamDurationLine
+  );
+
+  const snapshot = findBlockDirective(
+    documentLines,
+    startLine ?? 0,
+    endLine ?? documentLines.length - 1,
+    parseSnapshotLine
+  );
+
+  return {
+    config,
+    assertions,
+    envName,
+    envUsed,
+    requestName,
+    cookieJarKey: jarKey,
+    streamDurationSeconds,
+    snapshot,
+    postResponseScripts: scripts.filter((script) => script.phase === 'post-response'),
+    auth,
+    tls,
+  };
+}
+
+/**
+ * Milliseconds a request script may run (`cursorToys.httpScriptTimeoutMs`)
+ */
+function getScriptTimeoutMs(): number {
+  return Math.max(
+    10,
+    vscode.workspace
+      .getConfiguration('cursorToys')
+      .get<number>('httpScriptTimeoutMs', DEFAULT_SCRIPT_TIMEOUT_MS)
+  );
+}
+
+/**
+ * Stores a script's `client.global` changes and writes its log lines to the
+ * "CursorToys HTTP Scripts" output channel
+ */
+function applyScriptSideEffects(outcome: HttpScriptOutcome, script: HttpScriptBlock): void {
+  HttpScriptGlobalStore.getInstance().replace(outcome.globals);
+  if (outcome.logs.length === 0 && !outcome.error) {
+    return;
+  }
+  scriptOutputChannel ??= vscode.window.createOutputChannel('CursorToys HTTP Scripts');
+  for (const line of outcome.logs) {
+    scriptOutputChannel.appendLine(`[${script.phase}] ${line}`);
+  }
+  if (outcome.error) {
+    scriptOutputChannel.appendLine(`[${script.phase}] Error: ${outcome.error}`);
+  }
+}
+
+/**
+ * Runs the block's `< {% %}` scripts in order and applies their URL, header and body
+ * changes to the parsed request. Shows its own error message when a script fails.
+ * @param scripts Pre-request scripts of the block
+ * @param config The parsed request (updated in place)
+ * @returns Names the scripts set (request and global variables), or null when a script failed
+ */
+function runPreRequestScripts(scripts: HttpScriptBlock[], config: HttpRequestConfig): Set<string> | null {
+  const names = new Set<string>();
+  for (const script of scripts) {
+    const textBody = typeof config.body === 'string' ? config.body : undefined;
+    const outcome = runHttpScript(script.code, {
+      phase: 'pre-request',
+      globals: HttpScriptGlobalStore.getInstance().all(),
+      request: {
+        method: config.method || 'GET',
+        url: config.url,
+        headers: config.headers ?? {},
+        body: textBody ?? serializeRequestBody(config.body),
+      },
+      timeoutMs: getScriptTimeoutMs(),
+    });
+    applyScriptSideEffects(outcome, script);
+    if (outcome.error) {
+      vscode.window.showErrorMessage(`Pre-request script failed: ${outcome.error}`);
+      return null;
+    }
+    config.url = outcome.request.url;
+    config.headers = outcome.request.headers;
+    if (textBody !== undefined) {
+      config.body = outcome.request.body;
+    }
+    for (const name of [...Object.keys(outcome.variables), ...Object.keys(outcome.globals)]) {
+      names.add(name);
+    }
+  }
+  return names;
+}
+
+/**
+ * Runs the block's `> {% %}` scripts against the response
+ * @param prepared The prepared request
+ * @param result The response
+ * @returns One result per `client.test(...)`, plus one for a script that threw
+ */
+function runPostResponseScripts(prepared: PreparedHttpRequest, result: HttpRequestResult): AssertionResult[] {
+  const results: AssertionResult[] = [];
+  const { config } = prepared;
+  for (const script of prepared.postResponseScripts) {
+    const outcome = runHttpScript(script.code, {
+      phase: 'post-response',
+      globals: HttpScriptGlobalStore.getInstance().all(),
+      request: {
+        method: config.method || 'GET',
+        url: config.url,
+        headers: config.headers ?? {},
+        body: serializeRequestBody(config.body),
+      },
+      response: {
+        status: result.statusCode,
+        statusText: result.statusText,
+        headers: result.headers,
+        body: result.body,
+      },
+      timeoutMs: getScriptTimeoutMs(),
+    });
+    applyScriptSideEffects(outcome, script);
+    for (const test of outcome.tests) {
+      results.push({
+        assertion: {
+          description: test.name,
+          expression: `client.test(${JSON.stringify(test.name)})`,
+          operator: 'isTruthy',
+          expected: null,
+        },
+        passed: test.passed,
+        error: test.error,
+      });
+    }
+    if (outcome.error) {
+      results.push({
+        assertion: { description: 'Post-response script', expression: 'script', operator: 'isTruthy', expected: null },
+        passed: false,
+        error: outcome.error,
+      });
+    }
+  }
+  return results;
+}
+
+/**
+ * Ensures every referenced `# @name` request has a cached response, running stale ones
+ * @param document The request document that declares the named blocks
+ * @param names Referenced request names
+ * @param visiting Names already being prepared (a repeat means a cycle)
+ * @param envOverride Environment the prerequisites run in, when not their own
+ * @returns false when a prerequisite was cancelled or a cycle was found
+ */
+async function runNamedPrerequisites(
+  document: vscode.TextDocument,
+  names: string[],
+  visiting: string[],
+  envOverride?: string
+): Promise<boolean> {
+  const store = NamedResponseStore.getInstance();
+  const ttlSeconds = vscode.workspace
+    .getConfiguration('cursorToys')
+    .get<number>('httpChainCacheTtlSeconds', 300);
+  const lines = document.getText().split('\n');
+
+  for (const name of names) {
+    if (visiting.some((v) => v.toLowerCase() === name.toLowerCase())) {
+      vscode.window.showErrorMessage(
+        `Circular request chain: ${[...visiting, name].join(' → ')}`
+      );
+      return false;
+    }
+    if (store.getFresh(document.uri.fsPath, getNamedRequestEnvironment(document, name, envOverride), name, ttlSeconds)) {
+      continue;
+    }
+
+    const block = getHttpRequestBlocks(document).find(
+      (b) =>
+        findRequestName(lines, b.startLine, b.endLine)?.toLowerCase() === name.toLowerCase()
+    );
+    if (!block) {
+      vscode.window.showWarningMessage(`No request named '${name}' in this file (# @name ${name}).`);
+      continue;
+    }
+
+    const prepared = await prepareHttpRequest(document, block.startLine, block.endLine, visiting, envOverride);
+    if (!prepared) {
+      return false;
+    }
+    const result = await sendPreparedRequest(prepared);
+    storeNamedExchange(document.uri.fsPath, prepared.envName, name, prepared.config, result);
+    if (result.statusCode === 0 || result.statusCode >= 400) {
+      vscode.window.showWarningMessage(
+        `Prerequisite '${name}' returned ${result.statusCode > 0 ? `HTTP ${result.statusCode}` : result.statusText}.`
+      );
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Sends a prepared request with the configured engine and the environment cookie jar
+ * @param prepared The prepared request
+ * @param saveCookieJar Write the cookie jar to disk afterwards (load tests save once at the end)
+ * @returns The HTTP request result
+ */
+async function sendPreparedRequest(prepared: PreparedHttpRequest, saveCookieJar = true): Promise<HttpRequestResult> {
+  const timeout = getRequestTimeout();
+  const jarManager = HttpCookieJarManager.getInstance();
+  const cookieJar = prepared.cookieJarKey ? jarManager.getJar(prepared.cookieJarKey) : undefined;
+  const engineOptions = getHttpRequestEngineOptions();
+  const send = (config: HttpRequestConfig): Promise<HttpRequestResult> =>
+    executeHttpRequest(config, timeout, {
+      ...engineOptions,
+      streamDurationSeconds: prepared.streamDurationSeconds ?? engineOptions.streamDurationSeconds,
+      cookieJar,
+      tls: prepared.tls ?? undefined,
+    });
+
+  const { auth } = prepared;
+  let config = prepared.config;
+  const method = (config.method || 'GET').toUpperCase();
+  const body = config.payload ?? serializeRequestBody(config.body);
+  if (auth?.type === 'aws' && !isStreamMethod(method)) {
+    config = { ...config, headers: signAwsRequest({ method, url: config.url, headers: config.headers ?? {}, body }, auth) };
+    HttpSecretStore.getInstance().addDerived(
+      authorizationCredential(getHeaderValue(config.headers ?? {}, 'authorization') ?? ''),
+      [auth.secretAccessKey]
+    );
+  }
+  let result = await send(config);
+
+  // Digest: answer the server's 401 challenge once
+  const challenge = auth?.type === 'digest' && result.statusCode === 401
+    ? parseDigestChallenge(getHeaderValue(result.headers, 'www-authenticate'))
+    : null;
+  if (auth?.type === 'digest' && challenge) {
+    const url = new URL(config.url);
+    try {
+      const authorization = buildDigestAuthorization(challenge, {
+        method,
+        uri: `${url.pathname}${url.search}`,
+        username: auth.username,
+        password: auth.password,
+        body,
+      });
+      HttpSecretStore.getInstance().addDerived(authorizationCredential(authorization), [auth.password]);
+      result = await send({ ...config, headers: setAuthorizationHeader(config.headers ?? {}, authorization) });
+    } catch (error) {
+      vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+    }
+  }
+  if (cookieJar && saveCookieJar) {
+    jarManager.save();
+  }
+  return result;
+}
+
+/**
+ * Request timeout in seconds (`cursorToys.httpRequestTimeout`)
+ */
+function getRequestTimeout(): number {
+  return vscode.workspace
+    .getConfiguration('cursorToys')
+    .get<number>('httpRequestTimeout', 10);
+}
+
+/**
+ * Sends the introspection query to a GraphQL block's endpoint with the block's headers,
+ * variables and cookie jar
+ * @param document The request document
+ * @param startLine Start line of the GraphQL block
+ * @param endLine End line of the GraphQL block
+ * @returns The HTTP result, or null when the request could not be prepared
+ */
+export async function executeGraphqlIntrospection(
+  document: vscode.TextDocument,
+  startLine: number,
+  endLine: number
+): Promise<HttpRequestResult | null> {
+  const prepared = await prepareHttpRequest(document, startLine, endLine);
+  if (!prepared) {
+    return null;
+  }
+  prepared.config.body = buildGraphqlRequestBody(GRAPHQL_INTROSPECTION_QUERY);
+  delete prepared.config.payload;
+  return sendPreparedRequest(prepared);
+}
+
+/**
+ * Caches a named request/response pair for `{{name.response...}}` lookups
+ */
+function storeNamedExchange(
+  filePath: string,
+  envName: string | null,
+  name: string,
+  config: HttpRequestConfig,
+  result: HttpRequestResult
+): void {
+  NamedResponseStore.getInstance().set(filePath, envName, name, {
+    request: {
+      method: config.method || 'GET',
+      url: config.url,
+      headers: config.headers ?? {},
+      body: serializeRequestBody(config.body),
+    },
+    response: result,
+    storedAt: Date.now(),
+  });
+}
+
+/**
+ * Checks the response against the block's `# @snapshot` golden file, recording the file
+ * when it does not exist yet
+ * @param prepared The prepared request
+ * @param result The response
+ * @param context The block, for the golden file name
+ * @param update Overwrite the golden file with this response
+ * @returns The snapshot result, or null when the block has no `# @snapshot`
+ */
+function checkResponseSnapshot(
+  prepared: PreparedHttpRequest,
+  result: HttpRequestResult,
+  context: HttpResendContext,
+  update = false
+): AssertionResult | null {
+  const directive = prepared.snapshot;
+  if (!directive) {
+    return null;
+  }
+  const requestFile = context.requestUri.fsPath;
+  const snapshotPath = getSnapshotFilePath(requestFile, directive.name ?? context.sectionTitle);
+  const assertion: Assertion = {
+    description: `Snapshot ${path.basename(snapshotPath)}`,
+    expression: 'snapshot',
+    operator: 'equals',
+    expected: path.relative(path.dirname(requestFile), snapshotPath).replace(/\\/g, '/'),
+  };
+  if (result.error || result.statusCode === 0) {
+    return { assertion, passed: false, error: `Request failed: ${result.error || result.statusText}` };
+  }
+  try {
+    // Golden files are committed, so secret values are masked before they are written or compared
+    const actual = HttpSecretStore.getInstance().maskDeep(buildHttpSnapshot(result, directive));
+    if (update || !fs.existsSync(snapshotPath)) {
+      fs.mkdirSync(path.dirname(snapshotPath), { recursive: true });
+      fs.writeFileSync(snapshotPath, serializeHttpSnapshot(actual), 'utf8');
+      return { assertion, passed: true, actualValue: update ? 'snapshot updated' : 'snapshot recorded' };
+    }
+    const expected = parseHttpSnapshot(fs.readFileSync(snapshotPath, 'utf8'));
+    const diffs = compareHttpSnapshots(expected, actual, directive);
+    if (diffs.length === 0) {
+      return { assertion, passed: true, actualValue: 'matches snapshot' };
+    }
+    return {
+      assertion,
+      passed: false,
+      error: `${diffs.length} difference(s) from the snapshot:\n${formatSnapshotDiff(diffs)}`,
+    };
+  } catch (error) {
+    return { assertion, passed: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Folders `matchesSchema` paths resolve against: the saved request file's folder,
+ * then its workspace folder
+ * @param requestUri The request document
+ */
+function assertionPathOptions(requestUri: vscode.Uri): ValidateAssertionsOptions {
+  return {
+    baseDir: requestUri.scheme === 'file' ? path.dirname(requestUri.fsPath) : undefined,
+    workspaceRoot: (vscode.workspace.getWorkspaceFolder(requestUri) ?? vscode.workspace.workspaceFolders?.[0])?.uri.fsPath,
+  };
+}
+
+/**
+ * Runs the block's post-response scripts, then validates its `@assert` lines and
+ * `# @snapshot` unless `cursorToys.httpAssertionsEnabled` is off
+ * @param prepared The prepared request
+ * @param result The response
+ * @param context The block the request was sent from
+ * @returns Assertion results, then script tests, snapshot last
+ */
+function validateBlockAssertions(
+  prepared: PreparedHttpRequest,
+  result: HttpRequestResult,
+  context: HttpResendContext
+): AssertionResult[] {
+  const scriptResults = runPostResponseScripts(prepared, result);
+  if (!vscode.workspace.getConfiguration('cursorToys').get<boolean>('httpAssertionsEnabled', true)) {
+    return scriptResults;
+  }
+  const results: AssertionResult[] = [];
+  if (prepared.assertions.length > 0) {
+    const { validateAssertions } = require('./assertionValidator');
+    results.push(
+      ...validateAssertions(prepared.assertions, result, assertionPathOptions(context.requestUri))
+    );
+  }
+  results.push(...scriptResults);
+  const snapshot = checkResponseSnapshot(prepared, result, context);
+  if (snapshot) {
+    results.push(snapshot);
+  }
+  return results;
+}
+
+/**
+ * Records a send in the request history, unless `cursorToys.httpHistoryEnabled` is off
+ * @param prepared The prepared request that was sent
+ * @param result The response
+ * @param durationMs Wall-clock duration of the send
+ * @param assertionResults Validated assertions of the block
+ * @param context The block the request was sent from
+ */
+function recordHttpHistory(
+  prepared: PreparedHttpRequest,
+  result: HttpRequestResult,
+  durationMs: number,
+  assertionResults: AssertionResult[],
+  context: HttpResendContext
+): void {
+  const history = HttpHistoryManager.getInstance();
+  if (!history.isEnabled()) {
+    return;
+  }
+  const { config } = prepared;
+  const timestamp = Date.now();
+  // Resolved secrets never reach the history folder
+  history.record(maskHistoryEntry({
+    id: createHistoryId(timestamp),
+    timestamp,
+    requestFile: context.requestUri.fsPath,
+    startLine: context.startLine,
+    endLine: context.endLine,
+    sectionTitle: context.sectionTitle,
+    envName: prepared.envUsed && prepared.envName ? prepared.envName : undefined,
+    cookieJarKey: prepared.cookieJarKey,
+    request: {
+      method: config.method || 'GET',
+      url: config.url,
+      headers: config.headers ?? {},
+      body: serializeRequestBody(config.body),
+    },
+    response: {
+      statusCode: result.statusCode,
+      statusText: result.statusText,
+      headers: result.headers,
+      body: result.body,
+      error: result.error,
+    },
+    durationMs,
+    timings: result.timings,
+    redirects: result.redirects,
+    messages: result.messages,
+    assertions: toHistoryAssertions(assertionResults),
+  }, HttpSecretStore.getInstance().getRevealed()));
+}
+
+/**
+ * Runs a `WS` / `WSS` / `SSE` block with a live message log in the response panel,
+ * then validates its assertions against the collected messages
+ * @param filePath Path of the request file (named responses are cached per file)
+ * @param prepared The prepared stream request
+ * @param context The block, for the panel key and Send again
+ */
+async function executeStreamRequest(
+  filePath: string,
+  prepared: PreparedHttpRequest,
+  context: HttpResendContext
+): Promise<void> {
+  const { config, envName, envUsed, requestName } = prepared;
+  const settings = vscode.workspace.getConfiguration('cursorToys');
+  const timeout = settings.get<number>('httpRequestTimeout', 10);
+  const jarManager = HttpCookieJarManager.getInstance();
+  const cookieJar = prepared.cookieJarKey ? jarManager.getJar(prepared.cookieJarKey) : undefined;
+  const durationSeconds =
+    prepared.streamDurationSeconds ?? getHttpRequestEngineOptions().streamDurationSeconds;
+  const panelKey = buildHttpResponsePanelKey(
+    context.requestUri,
+    context.startLine,
+    context.endLine,
+    context.sectionTitle
+  );
+  const requestLabel = `${config.method} ${config.url}`;
+
+  const session = openHttpStream(
+    config,
+    { timeoutSeconds: timeout, durationSeconds, cookieJar, tls: prepared.tls ?? undefined },
+    {
+      onOpen: (info) => HttpResponsePanel.streamOpened(panelKey, info.statusCode, info.statusText),
+      onMessage: (message) => HttpResponsePanel.appendStreamMessage(panelKey, message),
+    }
+  );
+  const stop = (): void => session.stop();
+  HttpResponsePanel.startStream(panelKey, requestLabel, context, stop);
+
+  const startTime = Date.now();
+  const result = await session.done;
+  if (cookieJar) {
+    jarManager.save();
+  }
+  if (requestName) {
+    storeNamedExchange(filePath, prepared.envName, requestName, config, result);
+  }
+
+  const assertionResults = validateBlockAssertions(prepared, result, context);
+  recordHttpHistory(prepared, result, Date.now() - startTime, assertionResults, context);
+
+  const executionTimeSeconds = ((result.timings?.total ?? 0) / 1000).toFixed(2);
+  const payload: HttpResponsePayload = {
+    requestLabel,
+    statusCode: result.statusCode,
+    statusText: result.statusText,
+    executionTimeSeconds,
+    envName: envUsed && envName ? envName : undefined,
+    headers: result.headers,
+    body: result.body,
+    requestPayload: typeof config.body === 'string' ? config.body : undefined,
+    assertionResults,
+    rawFormatted: formatHttpResponse(result, undefined, assertionResults),
+    timings: result.timings,
+    messages: result.messages ?? [],
+  };
+  HttpResponseEmitter.getInstance().fire({
+    requestUri: context.requestUri.toString(),
+    blockKey: panelKey,
+    startLine: context.startLine,
+    payload,
+  });
+  HttpResponsePanel.finishStream(panelKey, payload, context, stop);
+
+  const envSuffix = envUsed && envName ? ` [${envName}]` : '';
+  if (result.error || result.statusCode === 0 || result.statusCode >= 400) {
+    const reason = result.statusCode > 0 ? `HTTP ${result.statusCode} ${result.statusText}` : result.statusText;
+    vscode.window.showWarningMessage(`Stream failed: ${reason} (${executionTimeSeconds}s)${envSuffix}`);
+    return;
+  }
+  const failed = assertionResults.filter((r) => !r.passed).length;
+  const summary = `Stream closed after ${executionTimeSeconds}s: ${result.messages?.length ?? 0} messages`;
+  if (failed > 0) {
+    vscode.window.showWarningMessage(`${summary}, ${failed} assertion(s) failed${envSuffix}`);
+  } else {
+    vscode.window.showInformationMessage(`${summary}${envSuffix}`);
+  }
+}
+
+/**
+ * Loads the rows selected by a block's `# @dataset` line
+ * @param document The request document (the dataset path is relative to it)
+ * @param startLine Start line of the block
+ * @param endLine End line of the block
+ * @returns The directive and its selected rows, or null when the block has no `# @dataset`
+ * @throws When the dataset file cannot be read or parsed
+ */
+function loadBlockDataset(
+  document: vscode.TextDocument,
+  startLine: number,
+  endLine: number
+): { directive: HttpDatasetDirective; rows: Array<{ index: number; row: HttpDatasetRow }> } | null {
+  const directive = findBlockDirective(document.getText().split('\n'), startLine, endLine, parseDatasetLine);
+  if (!directive) {
+    return null;
+  }
+  const filePath = path.resolve(path.dirname(document.uri.fsPath), directive.file);
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf8');
+  } catch (error) {
+    throw new Error(`Cannot read dataset ${directive.file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  try {
+    return { directive, rows: selectDatasetRows(parseDatasetContent(content, filePath), directive) };
+  } catch (error) {
+    throw new Error(`Invalid dataset ${directive.file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/** One sent row of a `# @dataset` block */
+interface HttpDatasetIteration {
+  prepared: PreparedHttpRequest;
+  result: HttpRequestResult;
+  assertionResults: AssertionResult[];
+  summary: HttpDatasetRowResult;
+}
+
+/**
+ * Sends a block once per dataset row, in order; each send is validated and recorded in
+ * history like a normal one
+ * @param document The request document
+ * @param context The block
+ * @param dataset The directive and its selected rows
+ * @param envOverride Environment to run in instead of the block's own
+ * @param beforeRow Called with the 0-based position before each row; false stops the run
+ * @returns The sent rows, or null when a row could not be prepared
+ */
+async function runDatasetIterations(
+  document: vscode.TextDocument,
+  context: HttpResendContext & { startLine: number; endLine: number },
+  dataset: { directive: HttpDatasetDirective; rows: Array<{ index: number; row: HttpDatasetRow }> },
+  envOverride?: string,
+  beforeRow?: (position: number) => boolean
+): Promise<{ iterations: HttpDatasetIteration[]; stoppedEarly: boolean } | null> {
+  const iterations: HttpDatasetIteration[] = [];
+  for (const [position, { index, row }] of dataset.rows.entries()) {
+    if (beforeRow && !beforeRow(position)) {
+      return { iterations, stoppedEarly: true };
+    }
+    const prepared = await prepareHttpRequest(document, context.startLine, context.endLine, [], envOverride, row);
+    if (!prepared) {
+      return null;
+    }
+    const startTime = Date.now();
+    const result = await sendPreparedRequest(prepared);
+    const durationMs = Date.now() - startTime;
+    if (prepared.requestName) {
+      storeNamedExchange(document.uri.fsPath, prepared.envName, prepared.requestName, prepared.config, result);
+    }
+    const assertionResults = validateBlockAssertions(prepared, result, context);
+    recordHttpHistory(prepared, result, durationMs, assertionResults, context);
+    const summary = buildDatasetRowResult(
+      index,
+      row,
+      `${prepared.config.method || 'GET'} ${prepared.config.url}`,
+      result,
+      durationMs,
+      assertionResults
+    );
+    iterations.push({ prepared, result, assertionResults, summary });
+    if (!summary.passed && dataset.directive.stopOnFailure) {
+      return { iterations, stoppedEarly: position < dataset.rows.length - 1 };
+    }
+  }
+  return { iterations, stoppedEarly: false };
+}
+
+/**
+ * Runs a `# @dataset` block once per row and shows the per-row results in the response
+ * panel (Rows tab); the Response tab holds the last row's exchange
+ * @param document The request document
+ * @param context The block, for the panel key and Send again
+ * @param dataset The directive and its selected rows
+ */
+async function executeDatasetRequest(
+  document: vscode.TextDocument,
+  context: HttpResendContext & { startLine: number; endLine: number },
+  dataset: { directive: HttpDatasetDirective; rows: Array<{ index: number; row: HttpDatasetRow }> }
+): Promise<void> {
+  const { directive, rows } = dataset;
+  if (rows.length === 0) {
+    vscode.window.showWarningMessage(`Dataset ${directive.file} has no rows to send.`);
+    return;
+  }
+  const startTime = Date.now();
+  const run = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: `Dataset ${directive.file}`, cancellable: true },
+    (progress, token) =>
+      runDatasetIterations(document, context, dataset, undefined, (position) => {
+        progress.report({ increment: position === 0 ? 0 : 100 / rows.length, message: `Row ${position + 1} of ${rows.length}` });
+        return !token.isCancellationRequested;
+      })
+  );
+  if (!run || run.iterations.length === 0) {
+    return;
+  }
+
+  const last = run.iterations[run.iterations.length - 1];
+  const { config, envName, envUsed } = last.prepared;
+  const datasetRun: HttpDatasetRun = {
+    file: directive.file,
+    selectedRows: rows.length,
+    rows: run.iterations.map((iteration) => iteration.summary),
+    stoppedEarly: run.stoppedEarly,
+  };
+  const contentType = last.result.headers['Content-Type'] || last.result.headers['content-type'];
+  const executionTimeSeconds = ((Date.now() - startTime) / 1000).toFixed(2);
+  const payload: HttpResponsePayload = {
+    requestLabel: `${config.method || 'GET'} ${config.url}`,
+    statusCode: last.result.statusCode,
+    statusText: last.result.statusText,
+    executionTimeSeconds,
+    envName: envUsed && envName ? envName : undefined,
+    headers: last.result.headers,
+    body:
+      last.result.body && last.result.statusCode > 0
+        ? formatResponseBody(last.result.body, contentType)
+        : last.result.body || '',
+    requestPayload: typeof config.body === 'string' ? config.body : undefined,
+    assertionResults: labelDatasetAssertionResults(
+      run.iterations.map((iteration) => ({ index: iteration.summary.index, results: iteration.assertionResults }))
+    ),
+    rawFormatted: `${formatDatasetRun(datasetRun)}\n\nLast row:\n${formatHttpResponse(last.result, undefined, last.assertionResults)}`,
+    timings: last.result.timings,
+    redirects: last.result.redirects,
+    dataset: datasetRun,
+  };
+  const panelKey = buildHttpResponsePanelKey(context.requestUri, context.startLine, context.endLine, context.sectionTitle);
+  HttpResponseEmitter.getInstance().fire({
+    requestUri: context.requestUri.toString(),
+    blockKey: panelKey,
+    startLine: context.startLine,
+    payload,
+  });
+
+  const responseView = resolveHttpResponseView();
+  if (responseView === 'editor') {
+    const responseDoc = await vscode.workspace.openTextDocument({
+      language: 'http-response',
+      content: HttpSecretStore.getInstance().mask(payload.rawFormatted),
+    });
+    await vscode.window.showTextDocument(responseDoc, { preview: true, viewColumn: vscode.ViewColumn.Beside });
+  } else if (responseView === 'panel' || !isHttpRequestCustomEditorOpen(context.requestUri)) {
+    HttpResponsePanel.showOrUpdate(panelKey, { ...payload, bodyBytes: last.result.bodyBytes }, context);
+  }
+
+  const passed = datasetRun.rows.filter((row) => row.passed).length;
+  const envSuffix = envUsed && envName ? ` [${envName}]` : '';
+  const stopped = run.stoppedEarly ? `, stopped after ${datasetRun.rows.length} of ${rows.length}` : '';
+  const message = `Dataset ${directive.file}: ${passed}/${datasetRun.rows.length} rows passed${stopped} (${executionTimeSeconds}s)${envSuffix}`;
+  if (passed < datasetRun.rows.length) {
+    vscode.window.showWarningMessage(message);
+  } else {
+    vscode.window.showInformationMessage(message);
+  }
+}
+
+/**
+ * Outcome of running a block's tests without showing the response
+ */
+export interface HttpBlockTestOutcome {
+  /** `METHOD url` as sent */
+  requestLabel: string;
+  result: HttpRequestResult;
+  /** `@assert` results first (one per `@assert` line, in order), then script tests and the snapshot */
+  assertionResults: AssertionResult[];
+  /** How many leading `assertionResults` belong to `@assert` lines */
+  assertCount: number;
+  envName: string | null;
+  durationMs: number;
+}
+
+/**
+ * Sends one block and validates its assertions, scripts and snapshot in-process
+ * (Test Explorer runs). Named exchanges and history are recorded like a normal send.
+ * @param document The request document
+ * @param startLine Start line of the block
+ * @param endLine End line of the block
+ * @param envOverride Environment to run in instead of the block's own
+ * @returns The outcome, or null when the request could not be prepared
+ */
+export async function runHttpBlockTests(
+  document: vscode.TextDocument,
+  startLine: number,
+  endLine: number,
+  envOverride?: string
+): Promise<HttpBlockTestOutcome | null> {
+  const dataset = loadBlockDataset(document, startLine, endLine);
+  if (dataset) {
+    return runHttpDatasetBlockTests(document, startLine, endLine, dataset, envOverride);
+  }
+  const prepared = await prepareHttpRequest(document, startLine, endLine, [], envOverride);
+  if (!prepared) {
+    return null;
+  }
+  const startTime = Date.now();
+  const result = await sendPreparedRequest(prepared);
+  const durationMs = Date.now() - startTime;
+  if (prepared.requestName) {
+    storeNamedExchange(document.uri.fsPath, prepared.envName, prepared.requestName, prepared.config, result);
+  }
+  const context: HttpResendContext = { requestUri: document.uri, startLine, endLine };
+  const assertionResults = validateBlockAssertions(prepared, result, context);
+  recordHttpHistory(prepared, result, durationMs, assertionResults, context);
+  const assertionsEnabled = vscode.workspace
+    .getConfiguration('cursorToys')
+    .get<boolean>('httpAssertionsEnabled', true);
+  return {
+    requestLabel: `${prepared.config.method || 'GET'} ${prepared.config.url}`,
+    result,
+    assertionResults,
+    assertCount: assertionsEnabled ? prepared.assertions.length : 0,
+    envName: prepared.envUsed ? prepared.envName : null,
+    durationMs,
+  };
+}
+
+/**
+ * Test run of a `# @dataset` block: every row is sent and each assertion reports its
+ * first failing row (see mergeDatasetAssertionResults)
+ */
+async function runHttpDatasetBlockTests(
+  document: vscode.TextDocument,
+  startLine: number,
+  endLine: number,
+  dataset: { directive: HttpDatasetDirective; rows: Array<{ index: number; row: HttpDatasetRow }> },
+  envOverride?: string
+): Promise<HttpBlockTestOutcome | null> {
+  if (dataset.rows.length === 0) {
+    throw new Error(`Dataset ${dataset.directive.file} has no rows to send.`);
+  }
+  const run = await runDatasetIterations(document, { requestUri: document.uri, startLine, endLine }, dataset, envOverride);
+  if (!run || run.iterations.length === 0) {
+    return null;
+  }
+  const assertionsEnabled = vscode.workspace
+    .getConfiguration('cursorToys')
+    .get<boolean>('httpAssertionsEnabled', true);
+  const assertCount = assertionsEnabled ? run.iterations[0].prepared.assertions.length : 0;
+  // A row that got no response fails the whole block; otherwise show the last exchange
+  const reported =
+    run.iterations.find((iteration) => iteration.result.statusCode === 0) ??
+    run.iterations[run.iterations.length - 1];
+  const sent = run.iterations.length;
+  return {
+    requestLabel: `${reported.summary.requestLabel} (dataset ${dataset.directive.file}, ${sent} row${sent === 1 ? '' : 's'})`,
+    result: reported.result,
+    assertionResults: mergeDatasetAssertionResults(
+      run.iterations.map((iteration) => ({ index: iteration.summary.index, results: iteration.assertionResults })),
+      assertCount
+    ),
+    assertCount,
+    envName: reported.prepared.envUsed ? reported.prepared.envName : null,
+    durationMs: run.iterations.reduce((total, iteration) => total + iteration.summary.durationMs, 0),
+  };
+}
+
+/**
+ * Resolves a block once, then sends it repeatedly as a load test. Each response is checked
+ * against the block's `@assert` lines; scripts, snapshots and history are skipped.
+ * @param document The request document
+ * @param startLine Start line of the block
+ * @param endLine End line of the block
+ * @param options Validated load test options
+ * @param hooks Cancellation and progress
+ * @returns The report, or null when the request could not be prepared
+ * @throws For WS / WSS / SSE blocks
+ */
+export async function runHttpLoadTest(
+  document: vscode.TextDocument,
+  startLine: number,
+  endLine: number,
+  options: HttpLoadTestOptions,
+  hooks: { signal?: AbortSignal; onProgress?: (completed: number) => void } = {}
+): Promise<HttpLoadTestReport | null> {
+  const prepared = await prepareHttpRequest(document, startLine, endLine);
+  if (!prepared) {
+    return null;
+  }
+  if (isStreamMethod(prepared.config.method)) {
+    throw new Error('Load tests need a plain HTTP request; WS, WSS and SSE blocks are not supported.');
+  }
+  const assertions = vscode.workspace.getConfiguration('cursorToys').get<boolean>('httpAssertionsEnabled', true)
+    ? prepared.assertions
+    : [];
+  const { validateAssertions } = require('./assertionValidator');
+  const pathOptions = assertionPathOptions(document.uri);
+  const startedAt = new Date().toISOString();
+
+  const run = await runLoadTest(
+    options,
+    async () => {
+      const startTime = Date.now();
+      const result = await sendPreparedRequest(prepared, false);
+      const durationMs = Date.now() - startTime;
+      const failedAssertions = assertions.length > 0 && result.statusCode > 0
+        ? (validateAssertions(assertions, result, pathOptions) as AssertionResult[])
+            .filter((r) => !r.passed)
+            .map((r) => r.assertion.description || r.assertion.expression)
+        : [];
+      return {
+        durationMs,
+        statusCode: result.statusCode,
+        error: result.statusCode === 0 ? result.error || result.statusText : undefined,
+        failedAssertions,
+      };
+    },
+    hooks
+  );
+  if (prepared.cookieJarKey) {
+    HttpCookieJarManager.getInstance().save();
+  }
+  return summarizeLoadTest(run, {
+    requestLabel: `${prepared.config.method || 'GET'} ${prepared.config.url}`,
+    envName: prepared.envUsed && prepared.envName ? prepared.envName : undefined,
+    startedAt,
+    options,
+  });
+}
+
+/**
+ * Sends one block in each of the given environments (their `.env` variables and cookie jars),
+ * one after the other, for a side-by-side comparison. Named prerequisites are sent again in
+ * every environment, so their cached exchanges are cleared before each send and afterwards.
+ * Post-response scripts, snapshots and history are skipped.
+ * @param document The request document
+ * @param startLine Start line of the block
+ * @param endLine End line of the block
+ * @param envNames Environments to send in, in order
+ * @returns One side per environment, or null when the request could not be prepared
+ * @throws For WS / WSS / SSE and `# @dataset` blocks
+ */
+export async function runHttpEnvironmentComparison(
+  document: vscode.TextDocument,
+  startLine: number,
+  endLine: number,
+  envNames: string[]
+): Promise<HttpCompareSide[] | null> {
+  if (findBlockDirective(document.getText().split('\n'), startLine, endLine, parseDatasetLine)) {
+    throw new Error('Environment comparison needs a single request; # @dataset blocks are not supported.');
+  }
+  const store = NamedResponseStore.getInstance();
+  const sides: HttpCompareSide[] = [];
+  try {
+    for (const envName of envNames) {
+      store.clear(document.uri.fsPath, envName);
+      const prepared = await prepareHttpRequest(document, startLine, endLine, [], envName);
+      if (!prepared) {
+        return null;
+      }
+      if (isStreamMethod(prepared.config.method)) {
+        throw new Error('Environment comparison needs a plain HTTP request; WS, WSS and SSE blocks are not supported.');
+      }
+      const startTime = Date.now();
+      const result = await sendPreparedRequest(prepared);
+      sides.push({
+        envName,
+        requestLabel: `${prepared.config.method || 'GET'} ${prepared.config.url}`,
+        statusCode: result.statusCode,
+        statusText: result.statusText,
+        headers: result.headers,
+        body: result.body,
+        durationMs: Date.now() - startTime,
+        ...(result.statusCode === 0 ? { error: result.error || result.statusText } : {}),
+      });
+    }
+  } finally {
+    store.clear(document.uri.fsPath);
+    HttpCookieJarManager.getInstance().save();
+  }
+  return sides;
+}
+
+/**
+ * Executes HTTP request from file and saves response
+ * @param requestUri The URI of the request file
+ * @param startLine Optional start line for section-based execution
+ * @param endLine Optional end line for section-based execution
+ * @param sectionTitle Optional title of the section
+ * @returns Promise that resolves when the response file is created
+ */
+export async function executeHttpRequestFromFile(
+  requestUri: vscode.Uri,
+  startLine?: number,
+  endLine?: number,
+  sectionTitle?: string
+): Promise<void> {
+  try {
+    // Read request file
+    const document = await vscode.workspace.openTextDocument(requestUri);
+    
+    // Response path respects .req -> .res or .request -> .response, per section when titled
+    const responsePath = getHttpSectionResponsePath(
+      requestUri.fsPath,
+      startLine !== undefined && endLine !== undefined ? sectionTitle : undefined
+    );
+
+    if (startLine !== undefined && endLine !== undefined) {
+      const dataset = loadBlockDataset(document, startLine, endLine);
+      if (dataset) {
+        await executeDatasetRequest(document, { requestUri, startLine, endLine, sectionTitle }, dataset);
+        return;
+      }
+    }
+
+    const prepared = await prepareHttpRequest(document, startLine, endLine);
+    if (!prepared) {
+      return;
+    }
+    const { config, envName, envUsed, requestName } = prepared;
+
+    if (isStreamMethod(config.method)) {
+      await executeStreamRequest(document.uri.fsPath, prepared, { requestUri, startLine, endLine, sectionTitle });
+      return;
+    }
+    
+    // Get timeout and save file settings from configuration
+    const timeoutConfig = vscode.workspace.getConfiguration('cursorToys');
+    const saveFile = timeoutConfig.get<boolean>('httpRequestSaveFile', false);
+    const responseView = resolveHttpResponseView();
+    
+    // Show progress
+    await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Notification,
+      title: 'Executing HTTP Request',
+      cancellable: false
+    }, async (progress) => {
+      progress.report({ increment: 0, message: 'Sending request...' });
+      
+      try {
+        // Measure execution time
+        const startTime = Date.now();
+        
+        // Prepare request payload for display
+        let requestPayload: string | undefined;
+        if (config.body) {
+          if (typeof config.body === 'string') {
+            // Try to parse and format if it's JSON
+            try {
+              const parsed = JSON.parse(config.body);
+              requestPayload = JSON.stringify(parsed, null, 2);
+            } catch {
+              // Not JSON, use as-is
+              requestPayload = config.body;
+            }
+          } else {
+            // Object, stringify with formatting
             requestPayload = JSON.stringify(config.body, null, 2);
           }
         }
         
         // Execute request (now always resolves, even on error)
-        const result = await executeHttpRequest(config, timeout);
+        const result = await sendPreparedRequest(prepared);
+        if (requestName) {
+          storeNamedExchange(document.uri.fsPath, prepared.envName, requestName, config, result);
+        }
         
         // Calculate execution time
         const executionTime = Date.now() - startTime;
@@ -1385,13 +2863,10 @@ export async function executeHttpRequestFromFile(
         
         progress.report({ increment: 50, message: 'Processing response...' });
         
-        // Validate assertions if present and enabled
-        let assertionResults: any[] = [];
-        const assertionsEnabled = timeoutConfig.get<boolean>('httpAssertionsEnabled', true);
-        if (assertions.length > 0 && assertionsEnabled) {
-          const { validateAssertions } = require('./assertionValidator');
-          assertionResults = validateAssertions(assertions, result);
-        }
+        // Validate assertions and snapshot if present and enabled
+        const resendContext: HttpResendContext = { requestUri, startLine, endLine, sectionTitle };
+        const assertionResults = validateBlockAssertions(prepared, result, resendContext);
+        recordHttpHistory(prepared, result, executionTime, assertionResults, resendContext);
         
         // Format response with payload and assertions
         const responseText = formatHttpResponse(result, requestPayload, assertionResults);
@@ -1407,7 +2882,7 @@ export async function executeHttpRequestFromFile(
         if (saveFile) {
           responseUri = vscode.Uri.file(responsePath);
           const encoder = new TextEncoder();
-          await vscode.workspace.fs.writeFile(responseUri, encoder.encode(responseText));
+          await vscode.workspace.fs.writeFile(responseUri, encoder.encode(HttpSecretStore.getInstance().mask(responseText)));
           executionTimes.set(responseUri.toString(), executionTimeSeconds);
         }
 
@@ -1429,6 +2904,8 @@ export async function executeHttpRequestFromFile(
           assertionResults: assertionResults as AssertionResult[],
           rawFormatted: responseText,
           savePath: saveFile ? responsePath : undefined,
+          timings: result.timings,
+          redirects: result.redirects,
         };
 
         HttpResponseEmitter.getInstance().fire({
@@ -1447,7 +2924,7 @@ export async function executeHttpRequestFromFile(
           progress.report({ increment: 100, message: 'Response ready' });
           HttpResponsePanel.showOrUpdate(
             panelKey,
-            responsePayload,
+            { ...responsePayload, bodyBytes: result.bodyBytes },
             { requestUri, startLine, endLine, sectionTitle }
           );
         } else {
@@ -1460,7 +2937,7 @@ export async function executeHttpRequestFromFile(
             progress.report({ increment: 100, message: 'Response ready' });
             responseDoc = await vscode.workspace.openTextDocument({
               language: 'http-response',
-              content: responseText,
+              content: HttpSecretStore.getInstance().mask(responseText),
             });
             executionTimes.set(responseDoc.uri.toString(), executionTimeSeconds);
           }
@@ -1548,7 +3025,7 @@ export async function executeHttpRequestFromFile(
             body: errorMessage,
             error: errorMessage
           };
-          const responseText = formatHttpResponse(errorResult);
+          const responseText = HttpSecretStore.getInstance().mask(formatHttpResponse(errorResult));
           const responseUri = vscode.Uri.file(responsePath);
           const encoder = new TextEncoder();
           await vscode.workspace.fs.writeFile(responseUri, encoder.encode(responseText));
@@ -1563,6 +3040,221 @@ export async function executeHttpRequestFromFile(
   }
 }
 
+/**
+ * The block's `# @tls` / `# @auth` for a history re-run, resolved in the entry's environment;
+ * when the request file is gone only the environment's proxy / TLS keys apply
+ * @param entry The history entry
+ * @returns The connection settings, or null when invalid or cancelled
+ */
+async function resolveHistoryConnection(entry: HttpHistoryEntry): Promise<BlockConnection | null> {
+  const envName = entry.envName ?? null;
+  const envCtx = getHttpEnvContext(entry.requestFile);
+  const workspacePath = envCtx?.workspacePath ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  const envRoot = envCtx?.envRoot;
+  const loadedVariables = envName && envCtx
+    ? EnvironmentManager.getInstance().loadEnvironment(envName, workspacePath ?? '', envRoot) ?? undefined
+    : undefined;
+  const dotenvVariables = loadedVariables && envName && envRoot
+    ? await resolveEnvSecrets(loadedVariables, { envRoot, envName })
+    : loadedVariables;
+  if (dotenvVariables === null) {
+    return null;
+  }
+
+  const document = fs.existsSync(entry.requestFile)
+    ? await vscode.workspace.openTextDocument(vscode.Uri.file(entry.requestFile))
+    : undefined;
+  const lines = document ? document.getText().split('\n') : [];
+  const startLine = Math.min(entry.startLine ?? 0, lines.length);
+  const fileVariables = new Map([
+    ...Object.entries(HttpScriptGlobalStore.getInstance().all()),
+    ...(document ? extractFileVariables(document, startLine) : []),
+  ]);
+  const baseDir = path.dirname(entry.requestFile);
+  return resolveBlockConnection(lines, startLine, entry.endLine, {
+    baseDir,
+    envDir: envRoot ?? workspacePath ?? baseDir,
+    envName,
+    resolveValue: (value) =>
+      resolveHttpVariables({
+        content: value,
+        workspacePath,
+        envRoot,
+        envName,
+        customVariables: fileVariables,
+        dotenvVariables: dotenvVariables ?? undefined,
+      }),
+    lookupVariable: (name) => dotenvVariables?.get(name.toLowerCase()) ?? fileVariables.get(name),
+  });
+}
+
+/**
+ * Sends the resolved request of a history entry again — same URL, headers and body, with
+ * the current engine settings, the entry's cookie jar and its environment's proxy / TLS
+ * settings — and records a new entry. SigV4 and Digest signatures are computed afresh.
+ * Assertions are re-parsed from the stored `@assert(...)` text. Secret values are masked in
+ * history, so such an entry sends its request block from the file again instead.
+ * @param entry The history entry to re-run
+ */
+export async function rerunHttpHistoryEntry(entry: HttpHistoryEntry): Promise<void> {
+  if (hasMaskedSecrets(entry)) {
+    await executeHttpRequestFromFile(vscode.Uri.file(entry.requestFile), entry.startLine, entry.endLine, entry.sectionTitle);
+    return;
+  }
+  const context: HttpResendContext = {
+    requestUri: vscode.Uri.file(entry.requestFile),
+    startLine: entry.startLine,
+    endLine: entry.endLine,
+    sectionTitle: entry.sectionTitle,
+  };
+  const connection = await resolveHistoryConnection(entry);
+  if (!connection) {
+    return;
+  }
+  // A SigV4 / Digest signature is only valid once; Basic and OAuth2 values are taken fresh
+  let headers = stripSignedAuthHeaders(entry.request.headers);
+  if (connection.authorization) {
+    headers = setAuthorizationHeader(headers, connection.authorization);
+  }
+  const config: HttpRequestConfig = {
+    method: entry.request.method,
+    url: entry.request.url,
+    headers,
+    body: entry.request.body,
+  };
+  if (typeof config.body === 'string' && !isStreamMethod(config.method)) {
+    try {
+      const baseDir = path.dirname(entry.requestFile);
+      const payload = buildRequestPayload(config.body, config.headers ?? {}, (filePath) =>
+        fs.readFileSync(path.resolve(baseDir, filePath))
+      );
+      if (payload) {
+        config.payload = payload;
+      }
+    } catch (error) {
+      vscode.window.showErrorMessage(`Cannot read request body file: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+  }
+  const rawAssertions = entry.assertions.map((a) => a.raw).filter((raw): raw is string => !!raw);
+  const { extractAssertions } = require('./assertionParser');
+  const prepared: PreparedHttpRequest = {
+    config,
+    assertions: rawAssertions.length > 0
+      ? extractAssertions(`/*\n${rawAssertions.map((raw) => ` * ${raw}`).join('\n')}\n */`)
+      : [],
+    envName: entry.envName ?? null,
+    envUsed: !!entry.envName,
+    requestName: null,
+    cookieJarKey: entry.cookieJarKey ?? null,
+    streamDurationSeconds: null,
+    snapshot: null,
+    postResponseScripts: [],
+    auth: connection.auth,
+    tls: connection.tls,
+  };
+
+  if (isStreamMethod(config.method)) {
+    await executeStreamRequest(entry.requestFile, prepared, context);
+    return;
+  }
+
+  await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: 'Re-running HTTP Request', cancellable: false },
+    async () => {
+      const startTime = Date.now();
+      const result = await sendPreparedRequest(prepared);
+      const executionTime = Date.now() - startTime;
+      const executionTimeSeconds = (executionTime / 1000).toFixed(2);
+
+      const assertionResults = validateBlockAssertions(prepared, result, context);
+      recordHttpHistory(prepared, result, executionTime, assertionResults, context);
+
+      const contentType = result.headers['Content-Type'] || result.headers['content-type'];
+      const panelKey = buildHttpResponsePanelKey(
+        context.requestUri,
+        context.startLine,
+        context.endLine,
+        context.sectionTitle
+      );
+      const payload: HttpResponsePayload = {
+        requestLabel: `${config.method || 'GET'} ${config.url}`,
+        statusCode: result.statusCode,
+        statusText: result.statusText,
+        executionTimeSeconds,
+        envName: entry.envName,
+        headers: result.headers,
+        body: result.body && result.statusCode > 0 ? formatResponseBody(result.body, contentType) : result.body || '',
+        requestPayload: entry.request.body,
+        assertionResults,
+        rawFormatted: formatHttpResponse(result, entry.request.body, assertionResults),
+        timings: result.timings,
+        redirects: result.redirects,
+      };
+      HttpResponsePanel.showOrUpdate(panelKey, { ...payload, bodyBytes: result.bodyBytes }, context);
+
+      const envSuffix = entry.envName ? ` [${entry.envName}]` : '';
+      const failed = assertionResults.filter((r) => !r.passed).length;
+      if (result.error || result.statusCode === 0 || result.statusCode >= 400) {
+        const reason = result.statusCode > 0 ? `HTTP ${result.statusCode} ${result.statusText}` : result.statusText;
+        vscode.window.showWarningMessage(`Re-run failed: ${reason} (${executionTimeSeconds}s)${envSuffix}`);
+      } else if (failed > 0) {
+        vscode.window.showWarningMessage(
+          `Re-run: HTTP ${result.statusCode} (${executionTimeSeconds}s), ${failed} assertion(s) failed${envSuffix}`
+        );
+      } else {
+        vscode.window.showInformationMessage(`Re-run: HTTP ${result.statusCode} (${executionTimeSeconds}s)${envSuffix}`);
+      }
+    }
+  );
+}
+
+/**
+ * Sends a `# @snapshot` block and overwrites its golden file with the response
+ * @param requestUri The URI of the request file
+ * @param startLine Optional start line for section-based execution
+ * @param endLine Optional end line for section-based execution
+ * @param sectionTitle Optional title of the section (default snapshot name)
+ */
+export async function updateHttpSnapshot(
+  requestUri: vscode.Uri,
+  startLine?: number,
+  endLine?: number,
+  sectionTitle?: string
+): Promise<void> {
+  try {
+    const document = await vscode.workspace.openTextDocument(requestUri);
+    const prepared = await prepareHttpRequest(document, startLine, endLine);
+    if (!prepared) {
+      return;
+    }
+    if (!prepared.snapshot) {
+      vscode.window.showWarningMessage('This request has no # @snapshot line.');
+      return;
+    }
+    if (isStreamMethod(prepared.config.method)) {
+      vscode.window.showWarningMessage('Stream snapshots are recorded on send; delete the golden file to record it again.');
+      return;
+    }
+    const context: HttpResendContext = { requestUri, startLine, endLine, sectionTitle };
+    const outcome = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: 'Updating Response Snapshot', cancellable: false },
+      async () => {
+        const result = await sendPreparedRequest(prepared);
+        return checkResponseSnapshot(prepared, result, context, true);
+      }
+    );
+    if (outcome?.passed) {
+      vscode.window.showInformationMessage(`Snapshot updated: ${String(outcome.assertion.expected)}`);
+    } else if (outcome) {
+      vscode.window.showErrorMessage(`Snapshot not updated: ${outcome.error}`);
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`Error updating snapshot: ${errorMessage}`);
+  }
+}
+
 /**
  * Copies the curl command to clipboard with variables replaced
  * @param requestUri The URI of the request file
@@ -1594,9 +3286,9 @@ export async function copyCurlCommand(
       content = document.getText();
     }
     
-    // Remove assertion blocks from content (don't include them in cURL)
+    // Remove assertion and script blocks from content (don't include them in cURL)
     const { removeAssertionBlocks } = require('./assertionParser');
-    content = removeAssertionBlocks(content);
+    content = removeScriptBlocks(removeAssertionBlocks(content));
     
     // Process prompt and helper expressions first
     const expressions = extractPromptExpressions(content);
@@ -1625,8 +3317,17 @@ export async function copyCurlCommand(
       content = replacePromptExpressions(content, allValues);
     }
     
-    // Process file-level variables (# @var VAR_NAME=value) second
-    const fileVariables = extractFileVariables(document, startLine);
+    // Inline `<@ ./file` bodies before variables are resolved
+    const baseDir = path.dirname(document.uri.fsPath);
+    content = inlineVariableFileReferences(content, (filePath) =>
+      fs.readFileSync(path.resolve(baseDir, filePath), 'utf8')
+    );
+
+    // Process file-level variables (# @var VAR_NAME=value) second, over script globals
+    const fileVariables = new Map([
+      ...Object.entries(HttpScriptGlobalStore.getInstance().all()),
+      ...extractFileVariables(document, startLine),
+    ]);
     let envName: string | null = null;
 
     if (startLine !== undefined) {
@@ -1641,9 +3342,15 @@ export async function copyCurlCommand(
       envCtx?.workspacePath ?? workspaceFolders?.[0]?.uri.fsPath;
     const envRoot = envCtx?.envRoot;
     const envManager = EnvironmentManager.getInstance();
-    const dotenvVariables = envName && envCtx
+    const loadedVariables = envName && envCtx
       ? envManager.loadEnvironment(envName, workspacePath ?? '', envRoot) ?? undefined
       : undefined;
+    const dotenvVariables = loadedVariables && envName && envRoot
+      ? await resolveEnvSecrets(loadedVariables, { envRoot, envName })
+      : loadedVariables;
+    if (dotenvVariables === null) {
+      return;
+    }
 
     content = resolveHttpVariables({
       content,
@@ -1653,16 +3360,39 @@ export async function copyCurlCommand(
       customVariables: fileVariables,
       dotenvVariables: dotenvVariables ?? undefined,
     });
+
+    // Chained values come from cached responses only (no prerequisite runs when copying)
+    const namedStore = NamedResponseStore.getInstance();
+    content = replaceChainReferences(content, (name) =>
+      namedStore.get(document.uri.fsPath, getNamedRequestEnvironment(document, name), name)
+    );
     
     // Convert to curl if it's REST Client format
     let curlCommand: string;
     if (isRestClientFormat(content)) {
-      const config = parseRestClientFormat(content);
+      let config = parseRestClientFormat(content);
       if (!config) {
         vscode.window.showErrorMessage('Failed to parse REST Client format.');
         return;
       }
-      curlCommand = convertRestClientToCurl(config);
+      if (config.method === 'WS' || config.method === 'WSS') {
+        vscode.window.showErrorMessage('WebSocket requests have no cURL equivalent.');
+        return;
+      }
+      if (config.method === 'SSE') {
+        // curl -N prints events as they arrive
+        config = { ...config, method: config.body ? 'POST' : 'GET' };
+        if (!Object.keys(config.headers ?? {}).some((key) => key.toLowerCase() === 'accept')) {
+          config.headers = { Accept: 'text/event-stream', ...(config.headers ?? {}) };
+        }
+        await vscode.env.clipboard.writeText(convertRestClientToCurl(config).replace(/^curl/, 'curl -N'));
+        vscode.window.showInformationMessage('cURL command copied to clipboard');
+        return;
+      }
+      const bodyArgs = typeof config.body === 'string'
+        ? buildCurlBodyArgs(config.body, config.headers ?? {}, (filePath) => path.resolve(baseDir, filePath))
+        : null;
+      curlCommand = bodyArgs ? buildCurlCommand(config, bodyArgs) : convertRestClientToCurl(config);
     } else {
       // Already in curl format
       curlCommand = content;
@@ -1681,3 +3411,171 @@ export async function copyCurlCommand(
     vscode.window.showErrorMessage(`Error copying cURL command: ${errorMessage}`);
   }
 }
+
+/**
+ * Code generated from a request block, with the label of its language
+ */
+export interface HttpRequestCode {
+  code: string;
+  label: string;
+  languageId: string;
+  envName: string | null;
+}
+
+/**
+ * Generates code that sends a request block in another language
+ * Resolves the block like a send (variables, chained values, `# @auth`, body modes); with
+ * `keepVariables`, `{{variables}}` stay as placeholders read from environment variables instead.
+ * Shows its own error messages; returns null when the user cancelled or the block cannot be converted.
+ * @param document The request document
+ * @param startLine Optional start line for section-based execution
+ * @param endLine Optional end line for section-based execution
+ * @param language Target language / client
+ * @param keepVariables Keep `{{variables}}` unresolved
+ * @returns The generated code or null
+ */
+export async function generateHttpRequestCodeForBlock(
+  document: vscode.TextDocument,
+  startLine: number | undefined,
+  endLine: number | undefined,
+  language: HttpCodegenLanguage,
+  keepVariables = false
+): Promise<HttpRequestCode | null> {
+  const notes: string[] = [];
+  let config: HttpRequestConfig | null;
+  let envName: string | null = null;
+  const documentLines = document.getText().split('\n');
+  const authDirective = findBlockDirective(
+    documentLines,
+    startLine ?? 0,
+    endLine ?? documentLines.length - 1,
+    parseAuthLine
+  );
+
+  if (keepVariables) {
+    let content = startLine !== undefined && endLine !== undefined
+      ? extractRequestFromSection(document, startLine, endLine)
+      : document.getText();
+    if (!content) {
+      vscode.window.showErrorMessage('No HTTP request found in the selected section.');
+      return null;
+    }
+    const { removeAssertionBlocks } = require('./assertionParser');
+    content = removeAssertionBlocks(removeScriptBlocks(content)) as string;
+    const baseDir = path.dirname(document.uri.fsPath);
+    try {
+      content = inlineVariableFileReferences(content, (filePath) =>
+        fs.readFileSync(path.resolve(baseDir, filePath), 'utf8')
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(`Cannot read request body file: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+    config = parseHttpRequest(content);
+    if (!config) {
+      vscode.window.showErrorMessage('Failed to parse HTTP request. Please check the file format.');
+      return null;
+    }
+    if (authDirective) {
+      notes.push(`# @auth ${authDirective.type} is not applied; add its Authorization header.`);
+    }
+  } else {
+    const prepared = await prepareHttpRequest(document, startLine, endLine);
+    if (!prepared) {
+      return null;
+    }
+    config = { ...prepared.config, payload: undefined };
+    envName = prepared.envUsed ? prepared.envName : null;
+    const { auth } = prepared;
+    if (auth?.type === 'aws') {
+      config.headers = signAwsRequest(
+        {
+          method: (config.method || 'GET').toUpperCase(),
+          url: config.url,
+          headers: config.headers ?? {},
+          body: prepared.config.payload ?? serializeRequestBody(config.body),
+        },
+        auth
+      );
+      notes.push('AWS Signature V4 headers are signed for the time of generation and expire after about 15 minutes.');
+    } else if (auth?.type === 'digest') {
+      notes.push(`Digest auth is not applied; answer the server's 401 challenge as ${auth.username}.`);
+    }
+  }
+
+  const method = (config.method || 'GET').toUpperCase();
+  if (method === 'WS' || method === 'WSS') {
+    vscode.window.showErrorMessage('WebSocket requests cannot be converted to code.');
+    return null;
+  }
+  if (method === 'SSE') {
+    config = { ...config, method: config.body ? 'POST' : 'GET' };
+    if (!Object.keys(config.headers ?? {}).some((key) => key.toLowerCase() === 'accept')) {
+      config.headers = { Accept: 'text/event-stream', ...(config.headers ?? {}) };
+    }
+  }
+
+  const info = HTTP_CODEGEN_LANGUAGES.find((entry) => entry.id === language)!;
+  const baseDir = path.dirname(document.uri.fsPath);
+  return {
+    code: generateHttpRequestCode(config, language, {
+      placeholders: keepVariables,
+      resolvePath: (filePath) => path.resolve(baseDir, filePath),
+      notes,
+    }),
+    label: info.label,
+    languageId: info.languageId,
+    envName,
+  };
+}
+
+/**
+ * Copies a request block as code in a language picked from a list
+ * @param requestUri The URI of the request file
+ * @param startLine Optional start line for section-based execution
+ * @param endLine Optional end line for section-based execution
+ * @param language Target language; asked for when omitted
+ * @param keepVariables Keep `{{variables}}` unresolved (default: `cursorToys.httpCodegenKeepVariables`)
+ */
+export async function copyHttpRequestAsCode(
+  requestUri: vscode.Uri,
+  startLine?: number,
+  endLine?: number,
+  language?: HttpCodegenLanguage,
+  keepVariables?: boolean
+): Promise<void> {
+  try {
+    const keep =
+      keepVariables ?? vscode.workspace.getConfiguration('cursorToys').get<boolean>('httpCodegenKeepVariables', false);
+    let target = language;
+    if (!target) {
+      const picked = await vscode.window.showQuickPick(
+        HTTP_CODEGEN_LANGUAGES.map((entry) => ({ label: entry.label, id: entry.id })),
+        {
+          title: 'Copy Request as Code',
+          placeHolder: keep ? 'Language ({{variables}} kept as placeholders)' : 'Language',
+        }
+      );
+      if (!picked) {
+        return;
+      }
+      target = picked.id;
+    }
+    const document = await vscode.workspace.openTextDocument(requestUri);
+    const generated = await generateHttpRequestCodeForBlock(document, startLine, endLine, target, keep);
+    if (!generated) {
+      return;
+    }
+    await vscode.env.clipboard.writeText(generated.code);
+    let message = `${generated.label} code copied to clipboard`;
+    if (keep) {
+      message += ' (variables kept as placeholders)';
+    } else if (generated.envName) {
+      message += ` (with ${generated.envName} environment variables)`;
+    }
+    vscode.window.showInformationMessage(message);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`Error copying request as code: ${errorMessage}`);
+  }
+}
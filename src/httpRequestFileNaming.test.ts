@@ -2,6 +2,8 @@ import * as assert from 'assert';
 import {
   formatHttpRequestDatePrefix,
   nextDateBasedHttpFileBaseName,
+  toHttpRequestFileSlug,
+  uniqueHttpRequestFileSlug,
 } from './httpRequestFileNaming';
 
 function runTests(): void {
@@ -9,6 +11,7 @@ function runTests(): void {
   testNextBaseNameStartsAtOne();
   testNextBaseNameIncrements();
   testNextBaseNameIgnoresOtherDates();
+  testFileSlugs();
   console.log('All httpRequestFileNaming tests passed.');
 }
 
@@ -37,4 +40,15 @@ function testNextBaseNameIgnoresOtherDates(): void {
   assert.strictEqual(base, '2026-06-17-01');
 }
 
+function testFileSlugs(): void {
+  assert.strictEqual(toHttpRequestFileSlug('getPetById'), 'get-pet-by-id');
+  assert.strictEqual(toHttpRequestFileSlug('Pet Store API (v2)'), 'pet-store-api-v2');
+  assert.strictEqual(toHttpRequestFileSlug('Café & Crème'), 'cafe-creme');
+  assert.strictEqual(toHttpRequestFileSlug('***', 'default'), 'default');
+  const taken = new Set<string>(['users']);
+  assert.strictEqual(uniqueHttpRequestFileSlug('users', taken), 'users-2');
+  assert.strictEqual(uniqueHttpRequestFileSlug('Users', taken), 'Users-3');
+  assert.strictEqual(uniqueHttpRequestFileSlug('orders', taken), 'orders');
+}
+
 runTests();
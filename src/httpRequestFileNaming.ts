@@ -32,3 +32,32 @@ export function nextDateBasedHttpFileBaseName(
   }
   return `${prefix}-${String(maxSeq + 1).padStart(2, '0')}`;
 }
+
+/**
+ * Turns a title (API name, tag, operation) into a file or folder name: lowercase words
+ * joined by `-`, at most 60 characters; `fallback` when nothing usable is left.
+ */
+export function toHttpRequestFileSlug(title: string, fallback = 'request'): string {
+  const slug = title
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+    .replace(/-+$/, '');
+  return slug || fallback;
+}
+
+/**
+ * Returns `slug`, or `slug-2`, `slug-3`… when the name is already taken (case-insensitive).
+ */
+export function uniqueHttpRequestFileSlug(slug: string, taken: Set<string>): string {
+  let candidate = slug;
+  for (let n = 2; taken.has(candidate.toLowerCase()); n++) {
+    candidate = `${slug}-${n}`;
+  }
+  taken.add(candidate.toLowerCase());
+  return candidate;
+}
@@ -1,12 +1,16 @@
 /**
  * Pure HTTP request content parsing (no VS Code dependencies).
  */
+import { curlRequestToConfig, parseCurlCommand, tokenizeShellCommand } from './httpCurlCommand';
+import { buildGraphqlRequestBody } from './httpGraphql';
 
 export interface HttpRequestConfig {
   method?: string;
   url: string;
   headers?: Record<string, string>;
   body?: string | object;
+  /** Wire bytes built from `< file` includes, multipart parts or urlencoded lines; sent instead of `body`. */
+  payload?: Buffer;
 }
 
 /**
@@ -31,7 +35,7 @@ export function parseRestClientFormat(content: string): HttpRequestConfig | null
       continue;
     }
 
-    const isHttpMethod = /^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)\s+/i.test(line);
+    const isHttpMethod = /^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS|GRAPHQL|WSS|WS|SSE)\s+/i.test(line);
 
     if (isHttpMethod) {
       if (foundFirstMethod) {
@@ -76,10 +80,10 @@ export function parseRestClientFormat(content: string): HttpRequestConfig | null
         const potentialUrl = methodUrlMatch[2].trim().replace(/^["']|["']$/g, '');
 
         if (
-          ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'].includes(
+          ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS', 'GRAPHQL', 'WS', 'WSS', 'SSE'].includes(
             potentialMethod
           ) &&
-          (potentialUrl.match(/^https?:\/\//i) || potentialUrl.match(/\{\{/))
+          (potentialUrl.match(/^(https?|wss?):\/\//i) || potentialUrl.match(/\{\{/))
         ) {
           methodLineIndex = i;
           method = potentialMethod;
@@ -112,7 +116,7 @@ export function parseRestClientFormat(content: string): HttpRequestConfig | null
       if (headerKey && headerValue) {
         headers[headerKey] = headerValue;
       }
-    } else if (!line.match(/^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)\s+https?:\/\/.+$/i)) {
+    } else if (!line.match(/^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS|GRAPHQL|WSS|WS|SSE)\s+(https?|wss?):\/\/.+$/i)) {
       bodyStartIndex = i;
       break;
     }
@@ -127,6 +131,10 @@ export function parseRestClientFormat(content: string): HttpRequestConfig | null
     }
   }
 
+  if (method === 'GRAPHQL') {
+    return toGraphqlRequest(url, headers, body);
+  }
+
   return {
     method,
     url,
@@ -135,6 +143,23 @@ export function parseRestClientFormat(content: string): HttpRequestConfig | null
   };
 }
 
+/**
+ * A `GRAPHQL` block is a JSON POST of `{ query, variables, operationName }`.
+ */
+function toGraphqlRequest(
+  url: string,
+  headers: Record<string, string>,
+  body: string | undefined
+): HttpRequestConfig {
+  const hasContentType = Object.keys(headers).some((k) => k.toLowerCase() === 'content-type');
+  return {
+    method: 'POST',
+    url,
+    headers: hasContentType ? headers : { ...headers, 'Content-Type': 'application/json' },
+    body: buildGraphqlRequestBody(body ?? ''),
+  };
+}
+
 export function isRestClientFormat(content: string): boolean {
   const trimmed = content.trim();
   const lines = trimmed.split('\n');
@@ -143,7 +168,7 @@ export function isRestClientFormat(content: string): boolean {
     const trimmedLine = line.trim();
     if (trimmedLine && !trimmedLine.startsWith('#')) {
       const methodUrlMatch = trimmedLine.match(
-        /^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)\s+(https?:\/\/|\{\{).+$/i
+        /^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS|GRAPHQL|WSS|WS|SSE)\s+(https?:\/\/|wss?:\/\/|\{\{).+$/i
       );
       if (methodUrlMatch) {
         return true;
@@ -169,74 +194,8 @@ export function normalizeCurlInput(text: string): string {
  * Returns true when the text looks like a cURL command (Postman/Insomnia paste).
  */
 export function isCurlCommand(text: string): boolean {
-  const normalized = normalizeCurlInput(text);
-  return /^curl(\s|$)/i.test(normalized);
-}
-
-function parseCurlCommand(curlCommand: string): HttpRequestConfig | null {
-  let command = normalizeCurlInput(curlCommand);
-
-  if (command.toLowerCase().startsWith('curl')) {
-    command = command.substring(4).trim();
-  }
-
-  const urlPatterns = [/['"]https?:\/\/[^'"]+['"]/i, /https?:\/\/[^\s"']+/i];
-
-  let url: string | null = null;
-  for (const pattern of urlPatterns) {
-    const urlMatch = command.match(pattern);
-    if (urlMatch) {
-      url = urlMatch[0].replace(/['"]/g, '');
-      break;
-    }
-  }
-
-  if (!url) {
-    return null;
-  }
-
-  const methodMatch = command.match(/(?:-X|--request)\s+(\w+)/i);
-
-  const headers: Record<string, string> = {};
-  const headerRegex = /(?:-H|--header)\s+(["'])((?:(?:\\.|(?!\1)[^\\])*))\1/gi;
-  let headerMatch;
-  while ((headerMatch = headerRegex.exec(command)) !== null) {
-    const headerLine = headerMatch[2];
-    const colonIndex = headerLine.indexOf(':');
-    if (colonIndex > 0) {
-      const key = headerLine.substring(0, colonIndex).trim();
-      const value = headerLine.substring(colonIndex + 1).trim();
-      headers[key] = value;
-    }
-  }
-
-  let body: string | undefined;
-  const bodyPatterns = [
-    /(?:--data-raw|--data-binary)\s+(["'])((?:(?:\\.|(?!\1)[^\\])*))\1/i,
-    /(?:-d|--data)\s+(["'])((?:(?:\\.|(?!\1)[^\\])*))\1/i,
-    /(?:--data-raw|--data-binary)\s+([^\s]+)/i,
-    /(?:-d|--data)\s+([^\s]+)/i,
-  ];
-
-  for (const pattern of bodyPatterns) {
-    const bodyMatch = command.match(pattern);
-    if (bodyMatch) {
-      body = bodyMatch[2] || bodyMatch[1];
-      break;
-    }
-  }
-
-  let method = methodMatch ? methodMatch[1].toUpperCase() : 'GET';
-  if (!methodMatch && body) {
-    method = /(?:^|\s)-G(?:\s|$)/i.test(command) ? 'GET' : 'POST';
-  }
-
-  return {
-    method,
-    url,
-    headers,
-    body,
-  };
+  const program = tokenizeShellCommand(text.trim())[0]?.split(/[\\/]/).pop() ?? '';
+  return /^curl(\.exe)?$/i.test(program);
 }
 
 /**
@@ -268,5 +227,11 @@ export function parseHttpRequest(content: string): HttpRequestConfig | null {
     }
   }
 
-  return parseCurlCommand(trimmed);
+  const curl = parseCurlCommand(trimmed);
+  if (curl) {
+    return curlRequestToConfig(curl);
+  }
+
+  const bareUrl = trimmed.match(/https?:\/\/[^\s"']+/i);
+  return bareUrl ? { method: 'GET', url: bareUrl[0], headers: {} } : null;
 }
@@ -17,6 +17,7 @@ function mockDocument(content: string): {
 
 function runTests(): void {
   testExpandSectionSubBlocks();
+  testGraphqlSubBlocks();
   console.log('All httpRequestParser sub-block tests passed.');
 }
 
@@ -49,4 +50,29 @@ Content-Type: application/json
   assert.strictEqual(blocks[1].kind, 'rest');
 }
 
+function testGraphqlSubBlocks(): void {
+  const content = `## API
+GET {{BASE}}/health
+
+### Viewer
+GRAPHQL {{BASE}}/graphql
+
+query { viewer { id } }
+`;
+  const doc = mockDocument(content);
+  const section: HttpRequestBlock = {
+    title: 'API',
+    titleLine: 0,
+    startLine: 0,
+    endLine: doc.lineCount - 1,
+    envName: null,
+    kind: 'section',
+  };
+  const blocks = expandSectionSubBlocks(doc as never, section);
+  assert.strictEqual(blocks.length, 2);
+  assert.strictEqual(blocks[0].kind, 'rest');
+  assert.strictEqual(blocks[1].kind, 'graphql');
+  assert.strictEqual(blocks[1].title, 'Viewer');
+}
+
 runTests();
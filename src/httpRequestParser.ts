@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import { isGraphqlMethodLine } from './httpGraphql';
 
 /** A runnable HTTP block inside an HTTP request file (matches CodeLens send targets). */
 export interface HttpRequestBlock {
@@ -7,11 +8,11 @@ export interface HttpRequestBlock {
   startLine: number;
   endLine: number;
   envName: string | null;
-  kind: 'section' | 'curl' | 'rest' | 'fallback';
+  kind: 'section' | 'curl' | 'rest' | 'graphql' | 'fallback';
 }
 
 const REST_METHOD_LINE =
-  /^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)\s+(https?:\/\/|\{\{).+$/i;
+  /^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS|GRAPHQL|WSS|WS|SSE)\s+(https?:\/\/|wss?:\/\/|\{\{).+$/i;
 
 /**
  * Splits a `##` section into per-request sub-blocks when multiple REST methods exist.
@@ -64,7 +65,7 @@ export function expandSectionSubBlocks(
       }
     }
 
-    const methodMatch = lines[startLine].trim().match(/^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)/i);
+    const methodMatch = lines[startLine].trim().match(/^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS|GRAPHQL|WSS|WS|SSE)/i);
     const displayTitle =
       title !== section.title && title !== methodMatch?.[1]?.toUpperCase()
         ? title
@@ -76,7 +77,7 @@ export function expandSectionSubBlocks(
       startLine,
       endLine,
       envName: section.envName,
-      kind: 'rest',
+      kind: isGraphqlMethodLine(lines[startLine]) ? 'graphql' : 'rest',
     });
   }
 
@@ -252,7 +253,7 @@ export function findStandaloneRestClientBlocks(
     }
 
     const restClientMatch = line.match(
-      /^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)\s+(https?:\/\/|\{\{).+$/i
+      /^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS|GRAPHQL|WSS|WS|SSE)\s+(https?:\/\/|wss?:\/\/|\{\{).+$/i
     );
     if (!restClientMatch) {
       continue;
@@ -263,7 +264,7 @@ export function findStandaloneRestClientBlocks(
 
     for (let k = i - 1; k >= 0; k--) {
       const prevLine = lines[k].trim();
-      if (prevLine.match(/^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)\s+(https?:\/\/|\{\{).+$/i)) {
+      if (prevLine.match(/^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS|GRAPHQL|WSS|WS|SSE)\s+(https?:\/\/|wss?:\/\/|\{\{).+$/i)) {
         break;
       }
       if (prevLine.startsWith('##') && !prevLine.startsWith('###')) {
@@ -290,7 +291,7 @@ export function findStandaloneRestClientBlocks(
         endLine = j - 1;
         break;
       }
-      if (requestLine.match(/^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)\s+(https?:\/\/|\{\{).+$/i)) {
+      if (requestLine.match(/^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS|GRAPHQL|WSS|WS|SSE)\s+(https?:\/\/|wss?:\/\/|\{\{).+$/i)) {
         endLine = j - 1;
         break;
       }
@@ -304,7 +305,7 @@ export function findStandaloneRestClientBlocks(
       startLine: i,
       endLine,
       envName: hasVars ? currentEnv : null,
-      kind: 'rest',
+      kind: isGraphqlMethodLine(line) ? 'graphql' : 'rest',
     });
   }
 
@@ -363,9 +364,9 @@ export function getHttpRequestBlockLabel(
   if (block.kind === 'curl') {
     return 'curl';
   }
-  if (block.kind === 'rest') {
+  if (block.kind === 'rest' || block.kind === 'graphql') {
     const line = document.lineAt(block.startLine).text.trim();
-    const methodMatch = line.match(/^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)\b/i);
+    const methodMatch = line.match(/^(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS|GRAPHQL|WSS|WS|SSE)\b/i);
     if (block.title && block.title !== methodMatch?.[1]?.toUpperCase()) {
       return block.title;
     }
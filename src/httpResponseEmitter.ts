@@ -1,8 +1,9 @@
 import * as vscode from 'vscode';
 import type { HttpResponseEvent } from './httpResponseTypes';
+import { HttpSecretStore } from './httpSecretStore';
 
 /**
- * Broadcasts HTTP response payloads to inline editor subscribers.
+ * Broadcasts HTTP response payloads to inline editor subscribers, with secret values masked.
  */
 export class HttpResponseEmitter {
   private static instance: HttpResponseEmitter | undefined;
@@ -18,6 +19,6 @@ export class HttpResponseEmitter {
   readonly onDidEmit = this._onDidEmit.event;
 
   fire(event: HttpResponseEvent): void {
-    this._onDidEmit.fire(event);
+    this._onDidEmit.fire({ ...event, payload: HttpSecretStore.getInstance().maskDeep(event.payload) });
   }
 }
@@ -1,7 +1,41 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import type { AssertionResult } from './assertionTypes';
-import type { HttpResponsePayload } from './httpResponseTypes';
+import type { HttpDatasetRun } from './httpDataset';
+import type {
+  HttpResponsePayload,
+  HttpRedirectHop,
+  HttpStreamMessage,
+  HttpTimings,
+} from './httpResponseTypes';
 import { sendHttpExchangeToChat } from './httpResponseChat';
+import { formatJsonPath } from './httpJsonPath';
+import { findRequestName } from './httpRequestChaining';
+import { HttpScriptGlobalStore } from './httpScript';
+import { HttpSecretStore } from './httpSecretStore';
+import {
+  classifyResponseBody,
+  describeJsonNode,
+  describePdf,
+  filterJsonTree,
+  formatByteSize,
+  formatHexPreview,
+  formatVariableValue,
+  getJsonValueAt,
+  getMimeType,
+  indexLines,
+  listJsonChildren,
+  MAX_IMAGE_PREVIEW_BYTES,
+  sliceLines,
+  sniffImageType,
+  suggestDownloadFileName,
+  suggestVariableName,
+  VIRTUALIZE_BODY_CHARS,
+  type JsonTreeNode,
+  type ResponseBodyKind,
+} from './httpResponseViewer';
 import {
   buildPanelHeader,
   buildWebviewDocument,
@@ -10,7 +44,31 @@ import {
   getExtensionUri,
 } from './webviewUi';
 
-export type HttpResponsePanelData = HttpResponsePayload;
+/** Response shown in the panel; `bodyBytes` (built-in engine) enables media previews and saving downloads. */
+export type HttpResponsePanelData = HttpResponsePayload & { bodyBytes?: Uint8Array };
+
+/** Messages from the response webview */
+interface HttpResponsePanelMessage {
+  command?: string;
+  part?: string;
+  path?: Array<string | number>;
+  offset?: number;
+  expression?: string;
+  tree?: string;
+  start?: number;
+  count?: number;
+  text?: string;
+  label?: string;
+}
+
+/** How the body is shown, worked out once per response */
+interface BodyView {
+  kind: ResponseBodyKind;
+  /** Root row of the JSON tree */
+  jsonRoot?: JsonTreeNode;
+  /** Lines of a body too large to embed, shown in windows */
+  lineCount?: number;
+}
 
 /** Context needed to re-run the same HTTP request block from the response panel. */
 export interface HttpResendContext {
@@ -41,17 +99,99 @@ export class HttpResponsePanel {
     HttpResponsePanel.panels.set(key, created);
   }
 
+  /**
+   * Shows a live message log for a `WS` / `SSE` request; `stop` ends the stream (Stop button,
+   * Send again, closing the panel). A stream still running for the same key is stopped.
+   */
+  static startStream(
+    key: string,
+    requestLabel: string,
+    resendContext: HttpResendContext,
+    stop: () => void
+  ): void {
+    const data: HttpResponsePanelData = {
+      requestLabel,
+      statusCode: 0,
+      statusText: 'Connecting…',
+      executionTimeSeconds: '0.00',
+      headers: {},
+      body: '',
+      rawFormatted: '',
+      messages: [],
+    };
+    let target = HttpResponsePanel.panels.get(key);
+    if (target) {
+      target.streamStop?.();
+      target.streamStop = stop;
+      target.update(data, resendContext);
+      target.panel.reveal(vscode.ViewColumn.Beside, true);
+    } else {
+      target = new HttpResponsePanel(key, data, resendContext, stop);
+      HttpResponsePanel.panels.set(key, target);
+    }
+  }
+
+  /**
+   * Reports the handshake of the live stream shown for `key`.
+   */
+  static streamOpened(key: string, statusCode: number, statusText: string): void {
+    const target = HttpResponsePanel.panels.get(key);
+    if (!target?.streamStop) {
+      return;
+    }
+    target.data = { ...target.data, statusCode, statusText };
+    void target.panel.webview.postMessage({ command: 'streamOpen', statusLine: `HTTP ${statusCode} ${statusText}` });
+  }
+
+  /**
+   * Appends a message to the live log shown for `key`.
+   */
+  static appendStreamMessage(key: string, message: HttpStreamMessage): void {
+    const target = HttpResponsePanel.panels.get(key);
+    if (!target?.streamStop) {
+      return;
+    }
+    message = HttpSecretStore.getInstance().maskDeep(message);
+    target.data.messages?.push(message);
+    void target.panel.webview.postMessage({ command: 'streamMessage', message });
+  }
+
+  /**
+   * Replaces the live log with the final result, unless another stream took over the panel.
+   */
+  static finishStream(
+    key: string,
+    data: HttpResponsePanelData,
+    resendContext: HttpResendContext,
+    stop: () => void
+  ): void {
+    const target = HttpResponsePanel.panels.get(key);
+    if (!target || target.streamStop !== stop) {
+      return;
+    }
+    target.streamStop = undefined;
+    target.update(data, resendContext);
+  }
+
   private readonly panel: vscode.WebviewPanel;
   private data: HttpResponsePanelData;
   private resendContext: HttpResendContext;
+  /** Stops the stream whose live log is shown; unset once it finished. */
+  private streamStop: (() => void) | undefined;
+  /** Parsed JSON body for the tree, and line starts of a virtualized body; reset on update. */
+  private bodyJson: { value: unknown } | undefined;
+  private bodyLineStarts: number[] | undefined;
 
   private constructor(
     private readonly key: string,
     data: HttpResponsePanelData,
-    resendContext: HttpResendContext
+    resendContext: HttpResendContext,
+    streamStop?: () => void
   ) {
+    data = HttpSecretStore.getInstance().maskDeep(data);
     this.data = data;
     this.resendContext = resendContext;
+    this.streamStop = streamStop;
     const statusSuffix =
       data.statusCode > 0 ? `${data.statusCode}` : 'Error';
     this.panel = vscode.window.createWebviewPanel(
@@ -67,10 +207,11 @@ export class HttpResponsePanel {
     }
 
     this.panel.onDidDispose(() => {
+      this.streamStop?.();
       HttpResponsePanel.panels.delete(this.key);
     });
 
-    this.panel.webview.onDidReceiveMessage(async (msg: { command?: string; part?: string }) => {
+    this.panel.webview.onDidReceiveMessage(async (msg: HttpResponsePanelMessage) => {
       if (msg.command === 'copy') {
         await vscode.env.clipboard.writeText(this.data.rawFormatted);
         void vscode.window.showInformationMessage('HTTP response copied to clipboard.');
@@ -87,12 +228,19 @@ export class HttpResponsePanel {
         return;
       }
       if (msg.command === 'resend') {
+        this.streamStop?.();
         await this.resendRequest();
         return;
       }
+      if (msg.command === 'stop') {
+        this.streamStop?.();
+        return;
+      }
       if (msg.command === 'sendToChat') {
         await sendHttpExchangeToChat(this.data);
+        return;
       }
+      await this.handleViewerMessage(msg);
     });
 
     this.render();
@@ -110,7 +258,14 @@ export class HttpResponsePanel {
   }
 
   update(data: HttpResponsePanelData, resendContext: HttpResendContext): void {
+    if (!data.messages) {
+      this.streamStop?.();
+      this.streamStop = undefined;
+    }
+    data = HttpSecretStore.getInstance().maskDeep(data);
     this.data = data;
+    this.bodyJson = undefined;
+    this.bodyLineStarts = undefined;
     this.resendContext = resendContext;
     const statusSuffix =
       data.statusCode > 0 ? `${data.statusCode}` : 'Error';
@@ -119,10 +274,207 @@ export class HttpResponsePanel {
   }
 
   private render(): void {
-    this.panel.webview.html = buildHtml(this.data, this.panel.webview);
+    this.panel.webview.html = buildHtml(this.data, this.panel.webview, this.streamStop !== undefined, this.buildBodyView());
+  }
+
+  private buildBodyView(): BodyView {
+    const { body, bodyBytes, headers } = this.data;
+    const kind = classifyResponseBody(getHeader(headers, 'content-type'), body, bodyBytes);
+    const view: BodyView = { kind };
+    if (kind === 'json') {
+      const root = this.parsedJson();
+      if (root) {
+        view.jsonRoot = describeJsonNode(root.value, [], null);
+      }
+    }
+    if (body.length > VIRTUALIZE_BODY_CHARS) {
+      this.bodyLineStarts ??= indexLines(body);
+      view.lineCount = this.bodyLineStarts.length;
+    }
+    return view;
+  }
+
+  private parsedJson(): { value: unknown } | undefined {
+    if (!this.bodyJson) {
+      try {
+        this.bodyJson = { value: JSON.parse(this.data.body) };
+      } catch {
+        return undefined;
+      }
+    }
+    return this.bodyJson;
+  }
+
+  /**
+   * Body viewer requests: line windows, JSON tree pages and filters, copy, extract, save and open
+   */
+  private async handleViewerMessage(msg: HttpResponsePanelMessage): Promise<void> {
+    const post = (message: Record<string, unknown>): void => {
+      void this.panel.webview.postMessage(message);
+    };
+    switch (msg.command) {
+      case 'bodyLines': {
+        this.bodyLineStarts ??= indexLines(this.data.body);
+        const start = Math.max(0, msg.start ?? 0);
+        post({ command: 'bodyLines', start, lines: sliceLines(this.data.body, this.bodyLineStarts, start, msg.count ?? 200) });
+        return;
+      }
+      case 'jsonChildren': {
+        const root = this.parsedJson();
+        if (root && msg.path) {
+          const offset = msg.offset ?? 0;
+          post({ command: 'jsonChildren', tree: msg.tree, path: msg.path, offset, ...listJsonChildren(root.value, msg.path, offset) });
+        }
+        return;
+      }
+      case 'jsonFilter': {
+        const root = this.parsedJson();
+        const expression = msg.expression ?? '';
+        if (!root) {
+          return;
+        }
+        try {
+          post({ command: 'jsonFilter', expression, ...filterJsonTree(root.value, expression) });
+        } catch (error) {
+          post({ command: 'jsonFilter', expression, error: error instanceof Error ? error.message : String(error) });
+        }
+        return;
+      }
+      case 'copyText':
+        if (msg.text !== undefined) {
+          await vscode.env.clipboard.writeText(msg.text);
+          void vscode.window.showInformationMessage(`${msg.label ?? 'Text'} copied to clipboard: ${msg.text}`);
+        }
+        return;
+      case 'extractVariable':
+        if (msg.path) {
+          await this.extractVariable(msg.path);
+        }
+        return;
+      case 'saveBody':
+        await this.saveBody();
+        return;
+      case 'openBody':
+        await this.openBody();
+        return;
+    }
+  }
+
+  /**
+   * Stores a JSON node as a session variable, a `# @var` at the top of the request file,
+   * or (for `# @name` blocks) a `# @var` chained to the block's latest response
+   */
+  private async extractVariable(nodePath: Array<string | number>): Promise<void> {
+    const root = this.parsedJson();
+    const located = root ? getJsonValueAt(root.value, nodePath) : undefined;
+    if (!located?.found) {
+      return;
+    }
+    const jsonPath = formatJsonPath(nodePath);
+    const name = (
+      await vscode.window.showInputBox({
+        title: 'Extract to variable',
+        prompt: `Variable holding ${jsonPath}`,
+        value: suggestVariableName(nodePath),
+        validateInput: (value) =>
+          /^[A-Za-z_][A-Za-z0-9_]*$/.test(value.trim()) ? undefined : 'Use letters, digits and _ (not starting with a digit)',
+      })
+    )?.trim();
+    if (!name) {
+      return;
+    }
+
+    const { requestUri, startLine, endLine } = this.resendContext;
+    let document: vscode.TextDocument | undefined;
+    try {
+      document = await vscode.workspace.openTextDocument(requestUri);
+    } catch {
+      document = undefined;
+    }
+    const lines = document?.getText().split('\n') ?? [];
+    const requestName = document ? findRequestName(lines, startLine ?? 0, endLine ?? lines.length - 1) : null;
+    const value = formatVariableValue(located.value);
+    const fileName = path.basename(requestUri.fsPath);
+
+    type TargetItem = vscode.QuickPickItem & { target: 'session' | 'file' | 'chain' };
+    const items: TargetItem[] = [
+      { label: 'Session variable', description: `{{${name}}} in every request until the window reloads`, target: 'session' },
+    ];
+    if (document) {
+      items.push({ label: 'File variable', description: `# @var ${name}=… at the top of ${fileName}`, target: 'file' });
+    }
+    if (document && requestName) {
+      items.push({
+        label: 'Chained file variable',
+        description: `# @var ${name}={{${requestName}.response.body.${jsonPath}}}`,
+        detail: 'Follows the latest response of this request',
+        target: 'chain',
+      });
+    }
+    const picked = await vscode.window.showQuickPick(items, { placeHolder: `Where should {{${name}}} live?` });
+    if (!picked) {
+      return;
+    }
+
+    if (picked.target === 'session' || !document) {
+      HttpScriptGlobalStore.getInstance().set(name, value);
+      void vscode.window.showInformationMessage(`Set session variable {{${name}}}.`);
+      return;
+    }
+    const varValue =
+      picked.target === 'chain' ? `{{${requestName}.response.body.${jsonPath}}}` : value.replace(/\r?\n/g, '\\n');
+    const edit = new vscode.WorkspaceEdit();
+    edit.insert(requestUri, new vscode.Position(0, 0), `# @var ${name}=${varValue}\n`);
+    if (await vscode.workspace.applyEdit(edit)) {
+      void vscode.window.showInformationMessage(`Added # @var ${name} to ${fileName}.`);
+    } else {
+      void vscode.window.showErrorMessage(`Failed to add # @var ${name} to ${fileName}.`);
+    }
+  }
+
+  private bodyContent(): Uint8Array {
+    return this.data.bodyBytes ?? Buffer.from(this.data.body, 'utf8');
+  }
+
+  private downloadFileName(): string {
+    return suggestDownloadFileName(this.data.requestLabel.replace(/^\S+\s+/, ''), this.data.headers);
+  }
+
+  private async saveBody(): Promise<void> {
+    const target = await vscode.window.showSaveDialog({
+      title: 'Save response body',
+      saveLabel: 'Save body',
+      defaultUri: vscode.Uri.file(path.join(path.dirname(this.resendContext.requestUri.fsPath), this.downloadFileName())),
+    });
+    if (!target) {
+      return;
+    }
+    try {
+      await vscode.workspace.fs.writeFile(target, this.bodyContent());
+      void vscode.window.showInformationMessage(`Saved ${formatByteSize(this.bodyContent().length)} to ${target.fsPath}.`);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to save response body: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Opens the body (PDFs) with the system viewer from a temporary file
+   */
+  private async openBody(): Promise<void> {
+    const filePath = path.join(os.tmpdir(), `cursor-toys-${Date.now()}-${this.downloadFileName()}`);
+    try {
+      await fs.promises.writeFile(filePath, this.bodyContent());
+      await vscode.env.openExternal(vscode.Uri.file(filePath));
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to open response body: ${error instanceof Error ? error.message : String(error)}`);
+    }
   }
 }
 
+function getHeader(headers: Record<string, string>, name: string): string | undefined {
+  return Object.entries(headers).find(([key]) => key.toLowerCase() === name)?.[1];
+}
+
 function truncateLabel(label: string, max = 48): string {
   const oneLine = label.replace(/\s+/g, ' ').trim();
   if (oneLine.length <= max) {
@@ -172,7 +524,37 @@ const HTTP_RESPONSE_EXTRA_STYLES = `
   .response-view-bar { display: flex; align-items: center; gap: 8px; margin-bottom: 10px; }
   .response-view-bar label { font-size: 10px; font-family: var(--ct-mono); color: var(--ct-mute2); text-transform: uppercase; }
   .response-view-bar select { width: auto; min-width: 120px; }
-  .response-view-bar button { margin-left: auto; padding: 5px 10px; font-size: 11px; }
+  .response-view-bar button { padding: 5px 10px; font-size: 11px; }
+  .response-view-bar .ct-spacer { flex: 1; }
+  .body-view[hidden] { display: none; }
+  .body-view:not([hidden]) { flex: 1; display: flex; flex-direction: column; min-height: 400px; }
+  .virtual-text { position: relative; flex: 1; min-height: 400px; overflow: auto; border: 1px solid var(--ct-hair-soft); border-radius: 6px; }
+  .virtual-window { position: absolute; left: 0; right: 0; margin: 0; padding: 0 10px; font-family: var(--ct-mono); font-size: 12px; line-height: 18px; white-space: pre; }
+  .json-filter-bar { display: flex; align-items: center; gap: 10px; margin-bottom: 8px; }
+  .json-filter-bar input { flex: 1; font-family: var(--ct-mono); }
+  .json-filter-bar .error { color: var(--ct-error); }
+  .json-tree { flex: 1; min-height: 360px; overflow: auto; font-family: var(--ct-mono); font-size: 12px; }
+  .json-tree[hidden] { display: none; }
+  .jt-row { display: flex; align-items: baseline; gap: 6px; padding: 1px 0; cursor: default; white-space: nowrap; }
+  .jt-row:hover { background: var(--ct-row-hover); }
+  .jt-toggle { width: 12px; color: var(--ct-mute2); flex-shrink: 0; cursor: pointer; }
+  .jt-key { color: #9cdcfe; cursor: copy; }
+  .jt-key:hover { text-decoration: underline; }
+  .jt-value { overflow: hidden; text-overflow: ellipsis; }
+  .jt-string { color: #ce9178; }
+  .jt-number { color: #b5cea8; }
+  .jt-boolean, .jt-null { color: #569cd6; }
+  .jt-object, .jt-array { color: var(--ct-mute); }
+  .jt-extract { visibility: hidden; padding: 0 6px; font-size: 10px; }
+  .jt-row:hover .jt-extract { visibility: visible; }
+  .jt-children { padding-left: 16px; border-left: 1px solid var(--ct-hair-soft); margin-left: 5px; }
+  .jt-children[hidden] { display: none; }
+  .jt-more { margin: 2px 0; font-size: 11px; }
+  .media-preview { flex: 1; min-height: 360px; overflow: auto; display: flex; align-items: flex-start; justify-content: center; padding: 12px; background: repeating-conic-gradient(var(--ct-hair-soft) 0% 25%, transparent 0% 50%) 50% / 16px 16px; border-radius: 6px; }
+  .media-preview img { max-width: 100%; height: auto; }
+  .html-preview { flex: 1; min-height: 400px; width: 100%; border: 1px solid var(--ct-hair-soft); border-radius: 6px; background: #fff; }
+  .media-info { display: flex; flex-direction: column; align-items: flex-start; gap: 10px; }
+  pre.code-block.hex { flex: 0 0 auto; min-height: 0; }
   .response-part[hidden] { display: none; }
   .response-part:not([hidden]) { flex: 1; display: flex; flex-direction: column; min-height: 400px; }
   section h2 { font-size: 11px; font-family: var(--ct-mono); letter-spacing: 0.1em; text-transform: uppercase; color: var(--ct-mute2); margin: 0 0 8px; }
@@ -187,7 +569,28 @@ const HTTP_RESPONSE_EXTRA_STYLES = `
   .assert.pass { background: color-mix(in srgb, var(--ct-success) 12%, transparent); }
   .assert.fail { background: color-mix(in srgb, var(--ct-error) 12%, transparent); }
   .assert .icon { font-weight: bold; width: 1.2em; }
+  .assert .meta { white-space: pre-wrap; }
   .assert-summary { margin: 0 0 12px; font-weight: 600; font-size: 12px; }
+  .timing-row { display: grid; grid-template-columns: 140px 1fr 80px; gap: 10px; align-items: center; padding: 4px 0; font-size: 12px; }
+  .timing-track { position: relative; height: 10px; border-radius: 5px; background: var(--ct-hair-soft); }
+  .timing-bar { position: absolute; top: 0; bottom: 0; border-radius: 5px; background: var(--ct-accent); min-width: 2px; }
+  .timing-value { text-align: right; font-family: var(--ct-mono); color: var(--ct-mute); }
+  .timing-total { margin-top: 8px; padding-top: 8px; border-top: 1px solid var(--ct-hair-soft); font-weight: 600; }
+  .redirect-list { margin: 16px 0 0; padding-left: 18px; font-size: 12px; }
+  .redirect-list li { margin-bottom: 4px; word-break: break-all; }
+  .stream-log { flex: 1; min-height: 400px; overflow: auto; font-family: var(--ct-mono); font-size: 12px; }
+  .stream-msg { display: grid; grid-template-columns: 72px 16px minmax(60px, auto) 1fr; gap: 8px; padding: 4px 0; border-bottom: 1px solid var(--ct-hair-soft); }
+  .stream-msg .stream-time { color: var(--ct-mute2); text-align: right; }
+  .stream-msg.in .stream-dir { color: var(--ct-success); }
+  .stream-msg.out .stream-dir { color: var(--ct-accent); }
+  .stream-msg .stream-event { color: var(--ct-mute); }
+  .stream-msg .stream-data { margin: 0; white-space: pre-wrap; word-break: break-all; }
+  .dataset-table td { vertical-align: top; font-size: 12px; }
+  .dataset-table td:first-child { width: 1%; }
+  .dataset-table .dataset-values { color: var(--ct-mute); font-family: var(--ct-mono); word-break: break-all; }
+  .dataset-table .dataset-failures { margin: 4px 0 0; white-space: pre-wrap; color: var(--ct-error); }
+  .dataset-table tr.pass .icon { color: var(--ct-success); }
+  .dataset-table tr.fail .icon { color: var(--ct-error); }
 `;
 
 function statusClass(statusCode: number): string {
@@ -266,13 +669,59 @@ function buildAssertionsTabContent(results?: AssertionResult[]): string {
       const cls = r.passed ? 'pass' : 'fail';
       const detail = r.error
         ? escapeHtml(r.error)
-        : escapeHtml(String(r.actualValue ?? ''));
+        : escapeHtml([String(r.actualValue ?? ''), ...(r.details ?? [])].join('\n'));
       return `<div class="assert ${cls}"><span class="icon">${icon}</span><div><strong>${escapeHtml(desc)}</strong><div class="meta">${detail}</div></div></div>`;
     })
     .join('');
   return summary + rows;
 }
 
+function buildDatasetTabContent(run: HttpDatasetRun): string {
+  const passed = run.rows.filter((row) => row.passed).length;
+  const stopped = run.stoppedEarly ? ` · stopped after ${run.rows.length} of ${run.selectedRows} rows` : '';
+  const summary = `<p class="assert-summary">${passed}/${run.rows.length} rows passed · ${escapeHtml(run.file)}${stopped}</p>`;
+  const rows = run.rows
+    .map((row) => {
+      const status = row.statusCode > 0 ? `${row.statusCode} ${row.statusText}` : row.statusText || 'failed';
+      const assertions = row.assertionsTotal > 0 ? ` · ${row.assertionsPassed}/${row.assertionsTotal} assertions` : '';
+      const values = Object.entries(row.values).map(([key, value]) => `${key}=${value}`).join(', ');
+      const failures = row.failures.length > 0
+        ? `<pre class="dataset-failures">${escapeHtml(row.failures.join('\n'))}</pre>`
+        : '';
+      return (
+        `<tr class="${row.passed ? 'pass' : 'fail'}"><td><span class="icon">${row.passed ? '✓' : '✗'}</span> ${row.index}</td>` +
+        `<td><strong>${escapeHtml(status)}</strong> · ${row.durationMs} ms${assertions}` +
+        `<div class="dataset-values">${escapeHtml(values)}</div>${failures}</td></tr>`
+      );
+    })
+    .join('');
+  return `${summary}<table class="dataset-table">${rows}</table>`;
+}
+
+function buildDatasetTabBadge(run: HttpDatasetRun): string {
+  const passed = run.rows.filter((row) => row.passed).length;
+  const cls = passed < run.rows.length ? 'badge-fail' : 'badge-pass';
+  return `<span class="badge ${cls}">${passed}/${run.rows.length}</span>`;
+}
+
+function buildStreamMessageRow(message: HttpStreamMessage): string {
+  return (
+    `<div class="stream-msg ${message.direction}">` +
+    `<span class="stream-time">+${(message.at / 1000).toFixed(3)}s</span>` +
+    `<span class="stream-dir">${message.direction === 'in' ? '←' : '→'}</span>` +
+    `<span class="stream-event">${escapeHtml(message.event)}</span>` +
+    `<pre class="stream-data">${escapeHtml(message.data)}</pre></div>`
+  );
+}
+
+function buildMessagesTabContent(messages: HttpStreamMessage[], live: boolean): string {
+  const empty = live ? 'Waiting for messages…' : 'No messages were exchanged.';
+  return (
+    `<p id="streamEmpty" class="empty-state"${messages.length > 0 ? ' hidden' : ''}>${empty}</p>` +
+    `<div id="streamLog" class="stream-log">${messages.map(buildStreamMessageRow).join('')}</div>`
+  );
+}
+
 function buildAssertionsTabBadge(results?: AssertionResult[]): string {
   if (!results || results.length === 0) {
     return '';
@@ -283,12 +732,176 @@ function buildAssertionsTabBadge(results?: AssertionResult[]): string {
   return `<span class="badge ${cls}">${passed}/${results.length}</span>`;
 }
 
-function buildHtml(data: HttpResponsePanelData, webview: vscode.Webview): string {
+function buildTimingTabContent(timings?: HttpTimings, redirects?: HttpRedirectHop[]): string {
+  if (!timings) {
+    return '<p class="empty-state">Timing breakdown is only available with the built-in HTTP engine.</p>';
+  }
+  const phases: Array<[string, number | undefined]> = [
+    ['DNS lookup', timings.dns],
+    ['TCP connect', timings.connect],
+    ['TLS handshake', timings.tls],
+    ['Time to first byte', timings.ttfb],
+    ['Download', timings.download],
+  ];
+  const scale = timings.total > 0 ? timings.total : 1;
+  let offset = 0;
+  const rows = phases
+    .filter(([, value]) => value !== undefined)
+    .map(([label, value]) => {
+      const ms = value ?? 0;
+      const left = Math.min(100, (offset / scale) * 100);
+      const width = Math.min(100 - left, (ms / scale) * 100);
+      offset += ms;
+      return (
+        `<div class="timing-row"><span>${escapeHtml(label)}</span>` +
+        `<span class="timing-track"><span class="timing-bar" style="left:${left.toFixed(2)}%;width:${width.toFixed(2)}%"></span></span>` +
+        `<span class="timing-value">${ms} ms</span></div>`
+      );
+    })
+    .join('');
+  const total =
+    `<div class="timing-row timing-total"><span>Total</span><span></span>` +
+    `<span class="timing-value">${timings.total} ms</span></div>`;
+  const redirectList =
+    redirects && redirects.length > 0
+      ? `<section><h2>Redirects (${redirects.length})</h2><ol class="redirect-list">` +
+        redirects
+          .map(
+            (hop) =>
+              `<li><code>${hop.statusCode}</code> ${escapeHtml(hop.url)} → ${escapeHtml(hop.location)}</li>`
+          )
+          .join('') +
+        `</ol></section>`
+      : '';
+  return `<section><h2>Timing</h2>${rows}${total}</section>${redirectList}`;
+}
+
+/** Views offered for each kind of body, the first one shown by default */
+const BODY_VIEWS: Record<ResponseBodyKind, Array<[string, string]>> = {
+  json: [['tree', 'Tree'], ['text', 'Text']],
+  html: [['preview', 'Preview'], ['text', 'Source']],
+  image: [['preview', 'Preview']],
+  pdf: [['preview', 'Preview']],
+  binary: [['info', 'Binary']],
+  text: [['text', 'Text']],
+};
+
+function buildTextView(data: HttpResponsePanelData, view: BodyView): string {
+  if (view.lineCount === undefined) {
+    return buildCodeBlock(data.body || '');
+  }
+  return (
+    `<div id="virtualText" class="virtual-text" data-line-count="${view.lineCount}">` +
+    `<div class="virtual-spacer"></div><pre class="virtual-window"></pre></div>` +
+    `<p class="hint">${view.lineCount.toLocaleString('en-US')} lines · ${formatByteSize(Buffer.byteLength(data.body))} — shown as you scroll</p>`
+  );
+}
+
+function buildPreviewView(data: HttpResponsePanelData, view: BodyView): string {
+  const bytes = data.bodyBytes;
+  const size = formatByteSize(bytes?.length ?? Buffer.byteLength(data.body));
+  const mime = getMimeType(getHeader(data.headers, 'content-type'));
+  if (view.kind === 'image') {
+    const content = bytes ?? Buffer.from(data.body, 'utf8');
+    if (content.length > MAX_IMAGE_PREVIEW_BYTES) {
+      return `<p class="empty-state">The image is ${size}, too large to preview. Use Save body… to open it.</p>`;
+    }
+    const imageType = (bytes && sniffImageType(bytes)) || mime || 'image/png';
+    const base64 = Buffer.from(content.buffer, content.byteOffset, content.byteLength).toString('base64');
+    return (
+      `<div class="media-preview"><img id="imagePreview" src="data:${escapeHtml(imageType)};base64,${base64}" alt="Response image" /></div>` +
+      `<p class="hint" id="imageInfo">${escapeHtml(imageType)} · ${size}</p>`
+    );
+  }
+  if (view.kind === 'pdf') {
+    const pdf = bytes ? describePdf(bytes) : {};
+    const facts = [
+      pdf.version ? `version ${pdf.version}` : '',
+      pdf.pages ? `${pdf.pages} page${pdf.pages === 1 ? '' : 's'}` : '',
+      size,
+    ].filter(Boolean);
+    return (
+      `<div class="media-info"><p><strong>PDF document</strong> · ${escapeHtml(facts.join(' · '))}</p>` +
+      `<button type="button" id="openBodyBtn" class="ct-btn primary">Open in PDF viewer</button>` +
+      (bytes ? '' : `<p class="hint">The curl engine returns text only; the file may be damaged. Use the built-in engine for downloads.</p>`) +
+      `</div>`
+    );
+  }
+  if (data.body.length > VIRTUALIZE_BODY_CHARS) {
+    return `<p class="empty-state">The page is ${size}, too large to preview. Switch to Source or use Save body….</p>`;
+  }
+  // Sandboxed: no scripts, no same-origin access; the panel's CSP blocks remote resources
+  return `<iframe class="html-preview" sandbox="" title="HTML preview" srcdoc="${escapeHtml(data.body)}"></iframe>`;
+}
+
+function buildBinaryView(data: HttpResponsePanelData): string {
+  const bytes = data.bodyBytes ?? Buffer.from(data.body, 'utf8');
+  const mime = getMimeType(getHeader(data.headers, 'content-type')) || 'application/octet-stream';
+  return (
+    `<div class="media-info"><p><strong>Binary response</strong> · ${escapeHtml(mime)} · ${formatByteSize(bytes.length)}</p></div>` +
+    `<pre class="code-block hex">${escapeHtml(formatHexPreview(bytes))}</pre>` +
+    `<p class="hint">First ${Math.min(bytes.length, 256)} bytes. Use Save body… to keep the download.</p>`
+  );
+}
+
+function buildTreeView(view: BodyView): string {
+  return (
+    `<div class="json-filter-bar">` +
+    `<input type="text" id="jsonFilter" class="ct-input" placeholder="JSONPath filter, e.g. $.items[?(@.price > 10)].id" spellcheck="false" aria-label="JSONPath filter" />` +
+    `<span id="jsonFilterStatus" class="hint"></span></div>` +
+    `<div id="jsonTree" class="json-tree" data-root="${escapeHtml(JSON.stringify(view.jsonRoot))}"></div>` +
+    `<div id="jsonFilterResults" class="json-tree" hidden></div>` +
+    `<p class="hint">Click a key to copy its JSONPath · → var extracts a value to a variable</p>`
+  );
+}
+
+function buildBodyViewer(data: HttpResponsePanelData, view: BodyView): { select: string; panes: string } {
+  const views = BODY_VIEWS[view.kind].filter(([id]) => id !== 'tree' || view.jsonRoot);
+  if (views.length === 0) {
+    views.push(['text', 'Text']);
+  }
+  const panes = views
+    .map(([id], index) => {
+      const content =
+        id === 'tree'
+          ? buildTreeView(view)
+          : id === 'preview'
+            ? buildPreviewView(data, view)
+            : id === 'info'
+              ? buildBinaryView(data)
+              : buildTextView(data, view);
+      return `<div class="body-view" data-view="${id}"${index === 0 ? '' : ' hidden'}>${content}</div>`;
+    })
+    .join('');
+  const select =
+    views.length > 1
+      ? `<select id="bodyViewSelect" class="ct-input" aria-label="Body view" data-kind="${view.kind}">` +
+        views.map(([id, label]) => `<option value="${id}">${label}</option>`).join('') +
+        `</select>`
+      : '';
+  return { select, panes };
+}
+
+function buildRawTabContent(data: HttpResponsePanelData): string {
+  if (data.rawFormatted.length <= VIRTUALIZE_BODY_CHARS) {
+    return `<pre>${escapeHtml(data.rawFormatted)}</pre>`;
+  }
+  return (
+    `<pre>${escapeHtml(data.rawFormatted.slice(0, VIRTUALIZE_BODY_CHARS))}</pre>` +
+    `<p class="hint">Showing the first ${formatByteSize(VIRTUALIZE_BODY_CHARS)} of ${formatByteSize(Buffer.byteLength(data.rawFormatted))}. ` +
+    `The Response tab shows the whole body; Copy response copies everything.</p>`
+  );
+}
+
+function buildHtml(data: HttpResponsePanelData, webview: vscode.Webview, live = false, bodyView: BodyView = { kind: 'text' }): string {
   const extensionUri = getExtensionUri();
   const statusLine =
     data.statusCode > 0
       ? `HTTP ${data.statusCode} ${escapeHtml(data.statusText)}`
       : escapeHtml(data.statusText || 'Request failed');
+  const isStream = data.messages !== undefined;
+  const dataset = data.dataset;
+  const firstTab = isStream ? 'messages' : dataset ? 'rows' : 'response';
   const env = data.envName ? ` · env: ${escapeHtml(data.envName)}` : '';
   const saved = data.savePath
     ? `<p class="hint">Saved to <code>${escapeHtml(data.savePath)}</code></p>`
@@ -302,15 +915,17 @@ function buildHtml(data: HttpResponsePanelData, webview: vscode.Webview): string
     ? `<section><h2>Request payload</h2>${buildCodeBlock(data.requestPayload)}</section>`
     : '';
 
-  const bodyBlock = buildCodeBlock(data.body || '');
+  const bodyViewer = buildBodyViewer(data, bodyView);
   const assertionsTab = buildAssertionsTabContent(data.assertionResults);
   const assertionsBadge = buildAssertionsTabBadge(data.assertionResults);
+  const timingTab = buildTimingTabContent(data.timings, data.redirects);
 
   const innerBody =
     `<div class="toolbar">` +
-    `<span class="badge ${statusClass(data.statusCode)}">${statusLine}</span>` +
-    `<span class="hint">${escapeHtml(data.executionTimeSeconds)}s${env}</span>` +
+    `<span id="statusBadge" class="badge ${live ? 'status-other' : statusClass(data.statusCode)}">${statusLine}</span>` +
+    (live ? `<span class="hint">streaming…</span>` : `<span class="hint">${escapeHtml(data.executionTimeSeconds)}s${env}</span>`) +
     `<span class="ct-spacer"></span>` +
+    (live ? `<button type="button" id="stopBtn" class="ct-btn secondary">Stop</button>` : '') +
     `<button type="button" id="resendBtn" class="ct-btn primary">Send again</button>` +
     `<button type="button" id="sendChatBtn" class="ct-btn secondary">Send to chat</button>` +
     `<button type="button" id="copyBtn" class="ct-btn secondary">Copy response</button>` +
@@ -318,26 +933,41 @@ function buildHtml(data: HttpResponsePanelData, webview: vscode.Webview): string
     saved +
     `<div class="response-card">` +
     `<div class="detail-tabs" role="tablist">` +
-    `<button type="button" class="detail-tab active" data-tab="response">Response</button>` +
+    (isStream ? `<button type="button" class="detail-tab active" data-tab="messages">Messages</button>` : '') +
+    (dataset
+      ? `<button type="button" class="detail-tab${firstTab === 'rows' ? ' active' : ''}" data-tab="rows">Rows${buildDatasetTabBadge(dataset)}</button>`
+      : '') +
+    `<button type="button" class="detail-tab${firstTab === 'response' ? ' active' : ''}" data-tab="response">Response</button>` +
     `<button type="button" class="detail-tab" data-tab="raw">Raw</button>` +
     `<button type="button" class="detail-tab" data-tab="assertions">Assertions${assertionsBadge}</button>` +
+    `<button type="button" class="detail-tab" data-tab="timing">Timing</button>` +
     `</div>` +
     `<div class="detail-body">` +
-    `<div class="detail-pane active" data-tab="response">` +
+    (isStream
+      ? `<div class="detail-pane active" data-tab="messages">${buildMessagesTabContent(data.messages ?? [], live)}</div>`
+      : '') +
+    (dataset
+      ? `<div class="detail-pane${firstTab === 'rows' ? ' active' : ''}" data-tab="rows">${buildDatasetTabContent(dataset)}</div>`
+      : '') +
+    `<div class="detail-pane${firstTab === 'response' ? ' active' : ''}" data-tab="response">` +
     payloadBlock +
     `<div class="response-view-bar">` +
     `<label for="responsePartSelect">Show</label>` +
     `<select id="responsePartSelect" class="ct-input" aria-label="Response section">` +
     `<option value="body" selected>Body</option><option value="headers">Headers</option>` +
     `</select>` +
+    bodyViewer.select +
+    `<span class="ct-spacer"></span>` +
+    `<button type="button" id="saveBodyBtn" class="ct-btn secondary">Save body…</button>` +
     `<button type="button" id="copyPartBtn" class="ct-btn secondary">Copy body</button>` +
     `</div>` +
-    `<div id="responsePartBody" class="response-part">${bodyBlock}</div>` +
+    `<div id="responsePartBody" class="response-part">${bodyViewer.panes}</div>` +
     `<div id="responsePartHeaders" class="response-part" hidden>` +
     `<table>${headerRows || '<tr><td colspan="2"><em>None</em></td></tr>'}</table></div>` +
     `</div>` +
-    `<div class="detail-pane" data-tab="raw"><pre>${escapeHtml(data.rawFormatted)}</pre></div>` +
+    `<div class="detail-pane" data-tab="raw">${buildRawTabContent(data)}</div>` +
     `<div class="detail-pane" data-tab="assertions">${assertionsTab}</div>` +
+    `<div class="detail-pane" data-tab="timing">${timingTab}</div>` +
     `</div></div>`;
 
   const body =
@@ -353,6 +983,7 @@ function buildHtml(data: HttpResponsePanelData, webview: vscode.Webview): string
       tabPanes.forEach((pane) => pane.classList.toggle('active', pane.dataset.tab === tab));
     }
     tabButtons.forEach((btn) => btn.addEventListener('click', () => setTab(btn.dataset.tab)));
+    const bodyViewSelect = document.getElementById('bodyViewSelect');
     const responsePartSelect = document.getElementById('responsePartSelect');
     const responsePartBody = document.getElementById('responsePartBody');
     const responsePartHeaders = document.getElementById('responsePartHeaders');
@@ -366,6 +997,7 @@ function buildHtml(data: HttpResponsePanelData, webview: vscode.Webview): string
         const showBody = responsePartSelect.value === 'body';
         responsePartBody.hidden = !showBody;
         responsePartHeaders.hidden = showBody;
+        if (bodyViewSelect) bodyViewSelect.hidden = !showBody;
         updateCopyPartLabel();
       });
     }
@@ -377,7 +1009,215 @@ function buildHtml(data: HttpResponsePanelData, webview: vscode.Webview): string
     }
     document.getElementById('resendBtn')?.addEventListener('click', () => vscode.postMessage({ command: 'resend' }));
     document.getElementById('sendChatBtn')?.addEventListener('click', () => vscode.postMessage({ command: 'sendToChat' }));
-    document.getElementById('copyBtn')?.addEventListener('click', () => vscode.postMessage({ command: 'copy' }));`;
+    document.getElementById('copyBtn')?.addEventListener('click', () => vscode.postMessage({ command: 'copy' }));
+    document.getElementById('stopBtn')?.addEventListener('click', () => vscode.postMessage({ command: 'stop' }));
+    document.getElementById('saveBodyBtn')?.addEventListener('click', () => vscode.postMessage({ command: 'saveBody' }));
+    document.getElementById('openBodyBtn')?.addEventListener('click', () => vscode.postMessage({ command: 'openBody' }));
+    const imagePreview = document.getElementById('imagePreview');
+    imagePreview?.addEventListener('load', () => {
+      const info = document.getElementById('imageInfo');
+      if (info) info.textContent += ' · ' + imagePreview.naturalWidth + '×' + imagePreview.naturalHeight;
+    });
+
+    // Large bodies: a spacer sized for every line, and only the lines in view fetched from the extension
+    const LINE_HEIGHT = 18;
+    const virtualText = document.getElementById('virtualText');
+    let virtualStarted = false;
+    let virtualFirst = -1;
+    function requestBodyLines() {
+      const first = Math.max(0, Math.floor(virtualText.scrollTop / LINE_HEIGHT) - 50);
+      if (first === virtualFirst) return;
+      virtualFirst = first;
+      const count = Math.ceil(virtualText.clientHeight / LINE_HEIGHT) + 100;
+      vscode.postMessage({ command: 'bodyLines', start: first, count });
+    }
+    function startVirtualText() {
+      if (!virtualText || virtualStarted) return;
+      virtualStarted = true;
+      virtualText.querySelector('.virtual-spacer').style.height = (Number(virtualText.dataset.lineCount) * LINE_HEIGHT) + 'px';
+      virtualText.addEventListener('scroll', () => requestAnimationFrame(requestBodyLines));
+      requestBodyLines();
+    }
+    function renderBodyLines(msg) {
+      if (!virtualText || msg.start !== virtualFirst) return;
+      const win = virtualText.querySelector('.virtual-window');
+      win.style.top = (msg.start * LINE_HEIGHT) + 'px';
+      win.textContent = msg.lines.join(String.fromCharCode(10));
+    }
+
+    // JSON tree: children are fetched one level at a time, in pages
+    const jsonTree = document.getElementById('jsonTree');
+    const jsonFilterResults = document.getElementById('jsonFilterResults');
+    const jsonFilter = document.getElementById('jsonFilter');
+    const jsonFilterStatus = document.getElementById('jsonFilterStatus');
+    const treeContainers = new Map();
+    let treeStarted = false;
+    function buildTreeNode(node, label, tree, expand) {
+      const wrap = document.createElement('div');
+      wrap.className = 'jt-node';
+      const row = document.createElement('div');
+      row.className = 'jt-row';
+      const toggle = document.createElement('span');
+      toggle.className = 'jt-toggle';
+      const key = document.createElement('span');
+      key.className = 'jt-key';
+      key.textContent = label;
+      key.title = 'Copy ' + node.jsonPath;
+      key.addEventListener('click', (e) => {
+        e.stopPropagation();
+        vscode.postMessage({ command: 'copyText', text: node.jsonPath, label: 'JSONPath' });
+      });
+      const value = document.createElement('span');
+      value.className = 'jt-value jt-' + node.type;
+      value.textContent = node.preview;
+      const extract = document.createElement('button');
+      extract.type = 'button';
+      extract.className = 'ghost jt-extract';
+      extract.textContent = '→ var';
+      extract.title = 'Extract ' + node.jsonPath + ' to a variable';
+      extract.addEventListener('click', (e) => {
+        e.stopPropagation();
+        vscode.postMessage({ command: 'extractVariable', path: node.path });
+      });
+      row.append(toggle, key, value, extract);
+      wrap.appendChild(row);
+      if (node.childCount) {
+        const children = document.createElement('div');
+        children.className = 'jt-children';
+        children.hidden = true;
+        wrap.appendChild(children);
+        toggle.textContent = '▸';
+        let loaded = false;
+        const flip = () => {
+          children.hidden = !children.hidden;
+          toggle.textContent = children.hidden ? '▸' : '▾';
+          if (!loaded) {
+            loaded = true;
+            treeContainers.set(tree + JSON.stringify(node.path), children);
+            vscode.postMessage({ command: 'jsonChildren', tree, path: node.path, offset: 0 });
+          }
+        };
+        row.addEventListener('click', flip);
+        if (expand) flip();
+      }
+      return wrap;
+    }
+    function renderJsonChildren(msg) {
+      const children = treeContainers.get(msg.tree + JSON.stringify(msg.path));
+      if (!children) return;
+      children.querySelector(':scope > .jt-more')?.remove();
+      msg.nodes.forEach((node) => {
+        const label = typeof node.key === 'number' ? '[' + node.key + ']' : node.key;
+        children.appendChild(buildTreeNode(node, label, msg.tree, false));
+      });
+      const loaded = msg.offset + msg.nodes.length;
+      if (loaded < msg.total) {
+        const more = document.createElement('button');
+        more.type = 'button';
+        more.className = 'ghost jt-more';
+        more.textContent = 'Show more (' + (msg.total - loaded) + ' left)';
+        more.addEventListener('click', (e) => {
+          e.stopPropagation();
+          more.disabled = true;
+          vscode.postMessage({ command: 'jsonChildren', tree: msg.tree, path: msg.path, offset: loaded });
+        });
+        children.appendChild(more);
+      }
+    }
+    function startJsonTree() {
+      if (!jsonTree || treeStarted) return;
+      treeStarted = true;
+      jsonTree.appendChild(buildTreeNode(JSON.parse(jsonTree.dataset.root), '$', 'main', true));
+    }
+    let filterTimer;
+    let filterRun = 0;
+    function applyJsonFilter() {
+      const expression = jsonFilter.value.trim();
+      jsonFilterStatus.classList.remove('error');
+      if (!expression) {
+        jsonTree.hidden = false;
+        jsonFilterResults.hidden = true;
+        jsonFilterStatus.textContent = '';
+        return;
+      }
+      vscode.postMessage({ command: 'jsonFilter', expression });
+    }
+    function renderJsonFilter(msg) {
+      if (!jsonFilter || msg.expression !== jsonFilter.value.trim()) return;
+      if (msg.error) {
+        jsonFilterStatus.textContent = msg.error;
+        jsonFilterStatus.classList.add('error');
+        return;
+      }
+      filterRun += 1;
+      const tree = 'filter' + filterRun;
+      jsonFilterResults.innerHTML = '';
+      msg.nodes.forEach((node) => jsonFilterResults.appendChild(buildTreeNode(node, node.jsonPath, tree, false)));
+      jsonFilterStatus.textContent = msg.total + (msg.total === 1 ? ' match' : ' matches') +
+        (msg.total > msg.nodes.length ? ' (first ' + msg.nodes.length + ' shown)' : '');
+      jsonTree.hidden = true;
+      jsonFilterResults.hidden = false;
+    }
+    jsonFilter?.addEventListener('input', () => {
+      clearTimeout(filterTimer);
+      filterTimer = setTimeout(applyJsonFilter, 250);
+    });
+
+    function showBodyView(view) {
+      document.querySelectorAll('.body-view').forEach((pane) => { pane.hidden = pane.dataset.view !== view; });
+      if (view === 'text') startVirtualText();
+      if (view === 'tree') startJsonTree();
+    }
+    if (bodyViewSelect) {
+      // The chosen view is kept per kind of body while the panel is open
+      const stateKey = 'bodyView:' + bodyViewSelect.dataset.kind;
+      const remembered = (vscode.getState() || {})[stateKey];
+      if (remembered && Array.from(bodyViewSelect.options).some((option) => option.value === remembered)) {
+        bodyViewSelect.value = remembered;
+      }
+      bodyViewSelect.addEventListener('change', () => {
+        vscode.setState(Object.assign({}, vscode.getState() || {}, { [stateKey]: bodyViewSelect.value }));
+        showBodyView(bodyViewSelect.value);
+      });
+      showBodyView(bodyViewSelect.value);
+    } else {
+      const onlyView = document.querySelector('.body-view');
+      if (onlyView) showBodyView(onlyView.dataset.view);
+    }
+    const streamLog = document.getElementById('streamLog');
+    function appendStreamMessage(m) {
+      if (!streamLog) return;
+      const row = document.createElement('div');
+      row.className = 'stream-msg ' + m.direction;
+      const parts = [
+        ['span', 'stream-time', '+' + (m.at / 1000).toFixed(3) + 's'],
+        ['span', 'stream-dir', m.direction === 'in' ? '←' : '→'],
+        ['span', 'stream-event', m.event],
+        ['pre', 'stream-data', m.data],
+      ];
+      parts.forEach(([tag, cls, text]) => {
+        const el = document.createElement(tag);
+        el.className = cls;
+        el.textContent = text;
+        row.appendChild(el);
+      });
+      const atBottom = streamLog.scrollTop + streamLog.clientHeight >= streamLog.scrollHeight - 4;
+      streamLog.appendChild(row);
+      if (atBottom) streamLog.scrollTop = streamLog.scrollHeight;
+      const empty = document.getElementById('streamEmpty');
+      if (empty) empty.hidden = true;
+    }
+    window.addEventListener('message', (event) => {
+      const msg = event.data || {};
+      if (msg.command === 'streamMessage') appendStreamMessage(msg.message);
+      if (msg.command === 'bodyLines') renderBodyLines(msg);
+      if (msg.command === 'jsonChildren') renderJsonChildren(msg);
+      if (msg.command === 'jsonFilter') renderJsonFilter(msg);
+      if (msg.command === 'streamOpen') {
+        const badge = document.getElementById('statusBadge');
+        if (badge) badge.textContent = msg.statusLine;
+      }
+    });`;
 
   if (!extensionUri) {
     return `<!DOCTYPE html><html><body>${body}<script>${scripts}</script></body></html>`;
@@ -1,4 +1,35 @@
 import type { AssertionResult } from './assertionTypes';
+import type { HttpDatasetRun } from './httpDataset';
+
+/** Phase timings (milliseconds) of the final hop; `total` spans every redirect. */
+export interface HttpTimings {
+  dns?: number;
+  connect?: number;
+  tls?: number;
+  ttfb?: number;
+  download?: number;
+  total: number;
+}
+
+/** One followed redirect (the response that pointed elsewhere). */
+export interface HttpRedirectHop {
+  url: string;
+  statusCode: number;
+  location: string;
+}
+
+/** One message of a WebSocket or Server-Sent Events stream. */
+export interface HttpStreamMessage {
+  /** Milliseconds since the stream opened. */
+  at: number;
+  direction: 'in' | 'out';
+  /** SSE event name (`message` by default); `text` or `binary` for WebSocket frames. */
+  event: string;
+  /** Text payload; base64 for binary WebSocket frames. */
+  data: string;
+  /** SSE `id:` field. */
+  id?: string;
+}
 
 /** Shared HTTP response payload for panel and inline editor UI. */
 export interface HttpResponsePayload {
@@ -13,6 +44,12 @@ export interface HttpResponsePayload {
   assertionResults?: AssertionResult[];
   rawFormatted: string;
   savePath?: string;
+  timings?: HttpTimings;
+  redirects?: HttpRedirectHop[];
+  /** Stream log of `WS` / `SSE` requests. */
+  messages?: HttpStreamMessage[];
+  /** Per-row results of a `# @dataset` block; status and body are those of the last row. */
+  dataset?: HttpDatasetRun;
 }
 
 export interface HttpResponseEvent {
@@ -0,0 +1,164 @@
+import * as assert from 'assert';
+import {
+  classifyResponseBody,
+  describePdf,
+  filterJsonTree,
+  formatByteSize,
+  formatHexPreview,
+  formatVariableValue,
+  getJsonValueAt,
+  getMimeType,
+  indexLines,
+  isLikelyBinary,
+  listJsonChildren,
+  sliceLines,
+  sniffImageType,
+  suggestDownloadFileName,
+  suggestVariableName,
+} from './httpResponseViewer';
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13]);
+const BODY = {
+  data: {
+    users: Array.from({ length: 5 }, (_, i) => ({ id: i + 1, name: `user${i + 1}`, active: i % 2 === 0 })),
+    'next-page': null,
+  },
+  access_token: 'abc',
+};
+
+function testClassifyResponseBody(): void {
+  assert.strictEqual(getMimeType('Application/JSON; charset=utf-8'), 'application/json');
+  assert.strictEqual(sniffImageType(PNG), 'image/png');
+  assert.strictEqual(sniffImageType(Buffer.from('RIFF\0\0\0\0WEBPVP8 ')), 'image/webp');
+  assert.strictEqual(sniffImageType(Buffer.from('plain')), undefined);
+  assert.strictEqual(isLikelyBinary(Buffer.from('héllo', 'utf8')), false);
+  assert.strictEqual(isLikelyBinary(Buffer.from([0x48, 0x00, 0x49])), true);
+  assert.strictEqual(isLikelyBinary(Buffer.from([0xff, 0xfe, 0x41])), true);
+
+  assert.strictEqual(classifyResponseBody('application/octet-stream', '', PNG), 'image', 'sniffed over the header');
+  assert.strictEqual(classifyResponseBody('image/png', '�PNG'), 'binary', 'no bytes from curl');
+  assert.strictEqual(classifyResponseBody('image/svg+xml', '<svg/>'), 'image');
+  assert.strictEqual(classifyResponseBody('application/pdf', '%PDF-1.7'), 'pdf');
+  assert.strictEqual(classifyResponseBody(undefined, '%PDF-1.4\n...'), 'pdf');
+  assert.strictEqual(classifyResponseBody('text/html; charset=utf-8', '<p>hi</p>'), 'html');
+  assert.strictEqual(classifyResponseBody('text/plain', ' {"a":1} '), 'json');
+  assert.strictEqual(classifyResponseBody('application/json', '{"a":'), 'text', 'broken JSON stays text');
+  assert.strictEqual(
+    classifyResponseBody('application/zip', 'PK\u0003\u0004', Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x00, 0x00])),
+    'binary'
+  );
+  assert.strictEqual(classifyResponseBody('text/csv', 'a,b', Buffer.from([0x61, 0x00])), 'text');
+}
+
+function testJsonTree(): void {
+  assert.deepStrictEqual(getJsonValueAt(BODY, ['data', 'users', 1, 'name']), { found: true, value: 'user2' });
+  assert.deepStrictEqual(getJsonValueAt(BODY, ['data', 'next-page']), { found: true, value: null });
+  assert.strictEqual(getJsonValueAt(BODY, ['data', 'users', 9]).found, false);
+  assert.strictEqual(getJsonValueAt(BODY, ['access_token', 'length']).found, false);
+
+  const root = listJsonChildren(BODY, []);
+  assert.strictEqual(root.total, 2);
+  assert.deepStrictEqual(
+    root.nodes.map((node) => [node.key, node.jsonPath, node.type, node.preview, node.childCount]),
+    [
+      ['data', '$.data', 'object', '{2}', 2],
+      ['access_token', '$.access_token', 'string', '"abc"', undefined],
+    ]
+  );
+
+  const page = listJsonChildren(BODY, ['data', 'users'], 2, 2);
+  assert.strictEqual(page.total, 5);
+  assert.deepStrictEqual(
+    page.nodes.map((node) => [node.key, node.jsonPath, node.preview]),
+    [
+      [2, '$.data.users[2]', '{3}'],
+      [3, '$.data.users[3]', '{3}'],
+    ]
+  );
+  assert.deepStrictEqual(listJsonChildren(BODY, ['data', 'next-page']), { nodes: [], total: 0 });
+  assert.strictEqual(listJsonChildren(BODY, ['data']).nodes[1].jsonPath, "$.data['next-page']");
+
+  const long = listJsonChildren({ text: 'x'.repeat(500) }, []).nodes[0].preview;
+  assert.ok(long.length <= 201 && long.endsWith('…"'), 'long strings are shortened');
+
+  const filtered = filterJsonTree(BODY, '$.data.users[?(@.active == true)].name', 2);
+  assert.strictEqual(filtered.total, 3);
+  assert.deepStrictEqual(
+    filtered.nodes.map((node) => [node.key, node.jsonPath, node.preview]),
+    [
+      [null, '$.data.users[0].name', '"user1"'],
+      [null, '$.data.users[2].name', '"user3"'],
+    ]
+  );
+  assert.throws(() => filterJsonTree(BODY, '$.data['), /JSONPath/i);
+}
+
+function testVirtualLines(): void {
+  const text = 'first\r\nsecond\n\nlast';
+  const starts = indexLines(text);
+  assert.deepStrictEqual(starts, [0, 7, 14, 15]);
+  assert.deepStrictEqual(sliceLines(text, starts, 0, 10), ['first', 'second', '', 'last']);
+  assert.deepStrictEqual(sliceLines(text, starts, 1, 2), ['second', '']);
+  assert.deepStrictEqual(sliceLines(text, starts, 4, 2), []);
+  assert.deepStrictEqual(sliceLines('abcdefgh\nxy', indexLines('abcdefgh\nxy'), 0, 2, 4), ['abcd…', 'xy']);
+  assert.deepStrictEqual(indexLines(''), [0]);
+}
+
+function testFormatting(): void {
+  assert.strictEqual(formatByteSize(512), '512 B');
+  assert.strictEqual(formatByteSize(1536), '1.5 KB');
+  assert.strictEqual(formatByteSize(50 * 1024 * 1024), '50.0 MB');
+
+  const hex = formatHexPreview(Buffer.from('Hello, binary world!\u0000'), 32).split('\n');
+  assert.strictEqual(hex.length, 2);
+  assert.strictEqual(hex[0], '00000000  48 65 6c 6c 6f 2c 20 62 69 6e 61 72 79 20 77 6f  Hello, binary wo');
+  assert.ok(hex[1].startsWith('00000010  72 6c 64 21 00') && hex[1].endsWith('rld!.'));
+  assert.strictEqual(formatHexPreview(Buffer.alloc(1000), 64).split('\n').length, 4);
+
+  const pdf = Buffer.from('%PDF-1.7\n1 0 obj << /Type /Pages /Count 2 >>\n2 0 obj << /Type /Page >>\n3 0 obj << /Type/Page >>', 'latin1');
+  assert.deepStrictEqual(describePdf(pdf), { version: '1.7', pages: 2 });
+  assert.deepStrictEqual(describePdf(Buffer.from('not a pdf')), {});
+
+  assert.strictEqual(suggestVariableName(['data', 'access_token']), 'access_token');
+  assert.strictEqual(suggestVariableName(['data', 'users', 0]), 'users');
+  assert.strictEqual(suggestVariableName(['next-page']), 'next_page');
+  assert.strictEqual(suggestVariableName(['2fa']), '_2fa');
+  assert.strictEqual(suggestVariableName([0]), 'value');
+  assert.strictEqual(formatVariableValue('abc'), 'abc');
+  assert.strictEqual(formatVariableValue({ id: 1 }), '{"id":1}');
+  assert.strictEqual(formatVariableValue(null), 'null');
+}
+
+function testSuggestDownloadFileName(): void {
+  assert.strictEqual(
+    suggestDownloadFileName('https://x.test/files/42', { 'Content-Disposition': 'attachment; filename="report 2024.pdf"' }),
+    'report 2024.pdf'
+  );
+  assert.strictEqual(
+    suggestDownloadFileName('https://x.test/', {
+      'content-disposition': "attachment; filename=plain.txt; filename*=UTF-8''r%C3%A9sum%C3%A9.pdf",
+    }),
+    'résumé.pdf'
+  );
+  assert.strictEqual(
+    suggestDownloadFileName('https://x.test/', { 'content-disposition': 'attachment; filename="../../etc/passwd"' }),
+    '.._.._etc_passwd'
+  );
+  assert.strictEqual(suggestDownloadFileName('https://x.test/img/logo.png?size=2', {}), 'logo.png');
+  assert.strictEqual(suggestDownloadFileName('https://x.test/avatar/7', { 'content-type': 'image/jpeg' }), '7.jpg');
+  assert.strictEqual(suggestDownloadFileName('https://x.test/', { 'content-type': 'application/pdf' }), 'response.pdf');
+  assert.strictEqual(suggestDownloadFileName('not a url', {}), 'response.bin');
+}
+
+function runTests(): void {
+  testClassifyResponseBody();
+  testJsonTree();
+  testVirtualLines();
+  testFormatting();
+  testSuggestDownloadFileName();
+  console.log('All httpResponseViewer tests passed.');
+}
+
+if (require.main === module) {
+  runTests();
+}
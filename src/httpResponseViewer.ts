@@ -0,0 +1,358 @@
+/**
+ * Response viewer model: body kinds for previews, a JSON tree expanded one level at a time,
+ * JSONPath filtering with match locations, line windows for virtualized bodies and names
+ * for saved downloads.
+ * Pure helpers — no VS Code dependencies.
+ */
+import { formatJsonPath, queryJsonPathMatches } from './httpJsonPath';
+
+export type ResponseBodyKind = 'json' | 'image' | 'pdf' | 'html' | 'text' | 'binary';
+
+/** Bodies longer than this (characters) are shown in line windows instead of one block */
+export const VIRTUALIZE_BODY_CHARS = 256 * 1024;
+/** Largest image embedded as a `data:` preview */
+export const MAX_IMAGE_PREVIEW_BYTES = 20 * 1024 * 1024;
+/** Children of an object or array sent per tree page */
+export const JSON_TREE_PAGE_SIZE = 200;
+
+const IMAGE_SIGNATURES: Array<{ mime: string; bytes: number[]; offset?: number }> = [
+  { mime: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47] },
+  { mime: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { mime: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+  { mime: 'image/webp', bytes: [0x57, 0x45, 0x42, 0x50], offset: 8 },
+  { mime: 'image/x-icon', bytes: [0x00, 0x00, 0x01, 0x00] },
+];
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'application/json': '.json',
+  'application/pdf': '.pdf',
+  'application/xml': '.xml',
+  'application/zip': '.zip',
+  'application/gzip': '.gz',
+  'text/html': '.html',
+  'text/plain': '.txt',
+  'text/csv': '.csv',
+  'text/xml': '.xml',
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'image/svg+xml': '.svg',
+  'image/bmp': '.bmp',
+  'image/x-icon': '.ico',
+};
+
+/**
+ * Media type of a `Content-Type` value, lowercased without parameters
+ */
+export function getMimeType(contentType: string | undefined): string {
+  return (contentType ?? '').split(';')[0].trim().toLowerCase();
+}
+
+/**
+ * Image type from the first bytes (PNG, JPEG, GIF, WebP, ICO), undefined otherwise
+ */
+export function sniffImageType(bytes: Uint8Array): string | undefined {
+  return IMAGE_SIGNATURES.find(({ bytes: signature, offset = 0 }) =>
+    bytes.length >= offset + signature.length && signature.every((byte, i) => bytes[offset + i] === byte)
+  )?.mime;
+}
+
+/**
+ * True when the start of the body has NUL bytes or is not valid UTF-8
+ */
+export function isLikelyBinary(bytes: Uint8Array): boolean {
+  const sample = bytes.subarray(0, 8192);
+  if (sample.includes(0)) {
+    return true;
+  }
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+function parsesAsJson(text: string): boolean {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+    return false;
+  }
+  try {
+    JSON.parse(trimmed);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * How the viewer shows a body: JSON tree, image / PDF / HTML preview, text, or binary info
+ * @param contentType The `Content-Type` header
+ * @param body The body as text
+ * @param bytes The decoded body bytes, when the engine kept them
+ */
+export function classifyResponseBody(
+  contentType: string | undefined,
+  body: string,
+  bytes?: Uint8Array
+): ResponseBodyKind {
+  const mime = getMimeType(contentType);
+  if (bytes && sniffImageType(bytes)) {
+    return 'image';
+  }
+  if (mime.startsWith('image/')) {
+    return bytes || mime === 'image/svg+xml' ? 'image' : 'binary';
+  }
+  if (mime === 'application/pdf' || body.startsWith('%PDF-')) {
+    return 'pdf';
+  }
+  if (mime === 'text/html' || mime === 'application/xhtml+xml') {
+    return 'html';
+  }
+  if (parsesAsJson(body)) {
+    return 'json';
+  }
+  if (bytes && !mime.startsWith('text/') && isLikelyBinary(bytes)) {
+    return 'binary';
+  }
+  return 'text';
+}
+
+export type JsonNodeType = 'object' | 'array' | 'string' | 'number' | 'boolean' | 'null';
+
+/** One row of the JSON tree */
+export interface JsonTreeNode {
+  /** Key in the parent object or index in the parent array; null for the root and filter matches */
+  key: string | number | null;
+  /** Location from the root */
+  path: Array<string | number>;
+  /** JSONPath of the location (`$.items[0].id`) */
+  jsonPath: string;
+  type: JsonNodeType;
+  /** Scalars as JSON (long strings shortened), containers as `{3}` / `[12]` */
+  preview: string;
+  /** Entries of an object or array */
+  childCount?: number;
+}
+
+function jsonNodeType(value: unknown): JsonNodeType {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  const type = typeof value;
+  return type === 'string' || type === 'number' || type === 'boolean' ? type : 'object';
+}
+
+/**
+ * Tree row for a value found at `path`
+ */
+export function describeJsonNode(value: unknown, path: Array<string | number>, key: string | number | null): JsonTreeNode {
+  const type = jsonNodeType(value);
+  const node: JsonTreeNode = { key, path, jsonPath: formatJsonPath(path), type, preview: '' };
+  if (type === 'array' || type === 'object') {
+    node.childCount = type === 'array' ? (value as unknown[]).length : Object.keys(value as object).length;
+    node.preview = type === 'array' ? `[${node.childCount}]` : `{${node.childCount}}`;
+  } else {
+    const json = JSON.stringify(value ?? null);
+    node.preview = json.length > 200 ? `${json.slice(0, 199)}…"` : json;
+  }
+  return node;
+}
+
+/**
+ * Value at a location; `found` is false when a key or index is missing
+ */
+export function getJsonValueAt(root: unknown, path: Array<string | number>): { found: boolean; value: unknown } {
+  let value = root;
+  for (const part of path) {
+    if (Array.isArray(value) && typeof part === 'number' && part >= 0 && part < value.length) {
+      value = value[part];
+    } else if (
+      value &&
+      typeof value === 'object' &&
+      !Array.isArray(value) &&
+      Object.prototype.hasOwnProperty.call(value, String(part))
+    ) {
+      value = (value as Record<string, unknown>)[String(part)];
+    } else {
+      return { found: false, value: undefined };
+    }
+  }
+  return { found: true, value };
+}
+
+/**
+ * One page of the children of the object or array at `path`
+ * @returns The rows and the total number of children (0 for scalars and missing paths)
+ */
+export function listJsonChildren(
+  root: unknown,
+  path: Array<string | number>,
+  offset = 0,
+  limit = JSON_TREE_PAGE_SIZE
+): { nodes: JsonTreeNode[]; total: number } {
+  const { found, value } = getJsonValueAt(root, path);
+  if (!found || !value || typeof value !== 'object') {
+    return { nodes: [], total: 0 };
+  }
+  if (Array.isArray(value)) {
+    const items = value.slice(offset, offset + limit);
+    return {
+      nodes: items.map((item, i) => describeJsonNode(item, [...path, offset + i], offset + i)),
+      total: value.length,
+    };
+  }
+  const keys = Object.keys(value);
+  return {
+    nodes: keys
+      .slice(offset, offset + limit)
+      .map((key) => describeJsonNode((value as Record<string, unknown>)[key], [...path, key], key)),
+    total: keys.length,
+  };
+}
+
+/**
+ * Rows for every value a JSONPath selects, each with its own location
+ * @throws JsonPathSyntaxError on malformed paths
+ */
+export function filterJsonTree(
+  root: unknown,
+  expression: string,
+  limit = JSON_TREE_PAGE_SIZE
+): { nodes: JsonTreeNode[]; total: number } {
+  const matches = queryJsonPathMatches(root, expression);
+  return {
+    nodes: matches.slice(0, limit).map((match) => describeJsonNode(match.value, match.path, null)),
+    total: matches.length,
+  };
+}
+
+/**
+ * Start offset of every line (`\n` separated)
+ */
+export function indexLines(text: string): number[] {
+  const starts = [0];
+  for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) {
+    starts.push(i + 1);
+  }
+  return starts;
+}
+
+/**
+ * Lines `from` to `from + count - 1` of a text indexed by indexLines (without line breaks);
+ * lines longer than `maxLineLength` are cut off with `…`
+ */
+export function sliceLines(text: string, starts: number[], from: number, count: number, maxLineLength = 10000): string[] {
+  const lines: string[] = [];
+  const end = Math.min(starts.length, from + count);
+  for (let i = Math.max(0, from); i < end; i++) {
+    const next = i + 1 < starts.length ? starts[i + 1] - 1 : text.length;
+    const line = text.slice(starts[i], Math.min(next, starts[i] + maxLineLength + 1)).replace(/\r$/, '');
+    lines.push(line.length > maxLineLength ? `${line.slice(0, maxLineLength)}…` : line);
+  }
+  return lines;
+}
+
+/**
+ * `12 B`, `3.4 KB`, `56.7 MB`
+ */
+export function formatByteSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  const units = ['KB', 'MB', 'GB'];
+  let size = bytes / 1024;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${size.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Hex dump of the first bytes: offset, 16 hex bytes and their printable ASCII per line
+ */
+export function formatHexPreview(bytes: Uint8Array, maxBytes = 256): string {
+  const lines: string[] = [];
+  const end = Math.min(bytes.length, maxBytes);
+  for (let offset = 0; offset < end; offset += 16) {
+    const row = Array.from(bytes.subarray(offset, Math.min(offset + 16, end)));
+    const hex = row.map((byte) => byte.toString(16).padStart(2, '0')).join(' ');
+    const ascii = row.map((byte) => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.')).join('');
+    lines.push(`${offset.toString(16).padStart(8, '0')}  ${hex.padEnd(47)}  ${ascii}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * PDF version from the header and the page count (`/Type /Page` objects), when found
+ */
+export function describePdf(bytes: Uint8Array): { version?: string; pages?: number } {
+  const text = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString('latin1');
+  const version = text.match(/^%PDF-(\d\.\d)/)?.[1];
+  const pages = (text.match(/\/Type\s*\/Page(?![a-zA-Z])/g) ?? []).length;
+  return { ...(version ? { version } : {}), ...(pages > 0 ? { pages } : {}) };
+}
+
+/**
+ * File name for saving a body: `Content-Disposition` filename, the URL's last path segment,
+ * or `response` with an extension for the media type
+ */
+export function suggestDownloadFileName(url: string, headers: Record<string, string>): string {
+  const header = (name: string): string | undefined =>
+    Object.entries(headers).find(([key]) => key.toLowerCase() === name)?.[1];
+  const sanitize = (name: string): string => name.replace(/[\\/:*?"<>|\u0000-\u001f]+/g, '_').trim();
+
+  const disposition = header('content-disposition') ?? '';
+  const extended = disposition.match(/filename\*\s*=\s*(?:[\w-]+)?'[^']*'([^;]+)/i)?.[1];
+  const plain = disposition.match(/filename\s*=\s*(?:"([^"]*)"|([^;]+))/i);
+  let fromHeader: string | undefined;
+  if (extended) {
+    try {
+      fromHeader = decodeURIComponent(extended.trim());
+    } catch {
+      fromHeader = extended.trim();
+    }
+  } else if (plain) {
+    fromHeader = (plain[1] ?? plain[2]).trim();
+  }
+  if (fromHeader && sanitize(fromHeader)) {
+    return sanitize(fromHeader);
+  }
+
+  const extension = MIME_EXTENSIONS[getMimeType(header('content-type'))] ?? '';
+  try {
+    const segment = decodeURIComponent(new URL(url).pathname.split('/').pop() ?? '');
+    if (segment && sanitize(segment)) {
+      return /\.[a-z0-9]{1,8}$/i.test(segment) || !extension ? sanitize(segment) : `${sanitize(segment)}${extension}`;
+    }
+  } catch {
+    // Not an absolute URL; fall through to the generic name
+  }
+  return `response${extension || '.bin'}`;
+}
+
+/**
+ * Variable name from the last object key of a location (`$.data.access_token` → `access_token`)
+ */
+export function suggestVariableName(path: Array<string | number>): string {
+  const key = [...path].reverse().find((part): part is string => typeof part === 'string');
+  const name = (key ?? '').replace(/[^A-Za-z0-9_]+/g, '_').replace(/^_+|_+$/g, '');
+  if (!name) {
+    return 'value';
+  }
+  return /^[0-9]/.test(name) ? `_${name}` : name;
+}
+
+/**
+ * Variable value of a node: strings as they are, everything else as compact JSON
+ */
+export function formatVariableValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value ?? null);
+}
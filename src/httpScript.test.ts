@@ -0,0 +1,143 @@
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+import { extractScriptBlocks, removeScriptBlocks, runHttpScript, type HttpScriptOptions } from './httpScript';
+
+const REQUEST_TEXT = `< {%
+  request.variables.set('nonce', crypto.randomHex(8));
+%}
+POST https://api.example.com/orders?nonce={{nonce}}
+Content-Type: application/json
+
+{"id": 1}
+
+> {% client.test('created', () => client.assert(response.status === 201)); %}`;
+
+const ORDER_REQUEST = {
+  method: 'POST',
+  url: 'https://api.example.com/orders?nonce={{nonce}}',
+  headers: { 'Content-Type': 'application/json' },
+  body: '{"id": 1, "nonce": "{{nonce}}"}',
+};
+
+function runTests(): void {
+  testExtractScriptBlocks();
+  testPreRequestScripts();
+  testPostResponseScripts();
+  testScriptErrors();
+  testSandbox();
+  console.log('All httpScript tests passed.');
+}
+
+function pre(code: string, globals: Record<string, string> = {}): ReturnType<typeof runHttpScript> {
+  return runHttpScript(code, { phase: 'pre-request', globals, request: ORDER_REQUEST });
+}
+
+function post(code: string, response: Partial<NonNullable<HttpScriptOptions['response']>> = {}): ReturnType<typeof runHttpScript> {
+  return runHttpScript(code, {
+    phase: 'post-response',
+    globals: {},
+    request: ORDER_REQUEST,
+    response: {
+      status: 201,
+      statusText: 'Created',
+      headers: { 'content-type': 'application/json', Location: '/orders/9' },
+      body: '{"id": 9, "items": [1, 2]}',
+      ...response,
+    },
+  });
+}
+
+function testExtractScriptBlocks(): void {
+  const blocks = extractScriptBlocks(REQUEST_TEXT);
+  assert.deepStrictEqual(
+    blocks.map((b) => [b.phase, b.line]),
+    [['pre-request', 0], ['post-response', 8]]
+  );
+  assert.strictEqual(blocks[0].code, "  request.variables.set('nonce', crypto.randomHex(8));");
+  assert.strictEqual(blocks[1].code, " client.test('created', () => client.assert(response.status === 201)); ");
+  const stripped = removeScriptBlocks(REQUEST_TEXT);
+  assert.ok(!stripped.includes('{%'));
+  assert.ok(stripped.includes('POST https://api.example.com/orders?nonce={{nonce}}'));
+  assert.deepStrictEqual(extractScriptBlocks('GET https://x.test\nX-Tag: {% uuid %}'), [], 'template tags in values are not scripts');
+}
+
+function testPreRequestScripts(): void {
+  const signed = pre(`
+    request.variables.set('nonce', 'n1');
+    const signature = crypto.hmac('sha256', client.global.get('secret'), request.body);
+    request.headers.set('X-Signature', signature);
+    request.headers.remove('content-type');
+    client.global.set('calls', Number(client.global.get('calls') || 0) + 1);
+    client.log('signed', { nonce: 'n1' });
+  `, { secret: 'key', calls: '2' });
+  assert.strictEqual(signed.error, undefined);
+  assert.strictEqual(signed.request.url, 'https://api.example.com/orders?nonce=n1');
+  assert.strictEqual(signed.request.body, '{"id": 1, "nonce": "n1"}');
+  assert.strictEqual(
+    signed.request.headers['X-Signature'],
+    crypto.createHmac('sha256', 'key').update('{"id": 1, "nonce": "n1"}').digest('hex'),
+    'request.body is read with variables already applied'
+  );
+  assert.ok(!('Content-Type' in signed.request.headers));
+  assert.deepStrictEqual(signed.variables, { nonce: 'n1' });
+  assert.deepStrictEqual(signed.globals, { secret: 'key', calls: '3' });
+  assert.deepStrictEqual(signed.logs, ['signed {"nonce":"n1"}']);
+
+  const fromGlobal = pre("client.global.set('nonce', 'g1'); request.body = request.body.replace('1,', '2,');");
+  assert.strictEqual(fromGlobal.request.url, 'https://api.example.com/orders?nonce=g1');
+  assert.strictEqual(fromGlobal.request.body, '{"id": 2, "nonce": "g1"}');
+
+  const encoded = pre("request.headers.add('Authorization', 'Basic ' + crypto.base64Encode('ann:pw'));");
+  assert.strictEqual(encoded.request.headers.Authorization, 'Basic YW5uOnB3');
+  assert.match(pre('client.log(crypto.randomUUID())').logs[0], /^[0-9a-f-]{36}$/);
+  assert.strictEqual(pre("client.log(crypto.hash('sha1', 'abc', 'base64'))").logs[0], 'qZk+NkcGgWq6PiVxeFDCbJzQ2J0=');
+}
+
+function testPostResponseScripts(): void {
+  const outcome = post(`
+    client.test('status is 201', () => client.assert(response.status === 201, 'got ' + response.status));
+    client.test('has two items', () => client.assert(response.body.items.length === 3, 'expected 3 items'));
+    client.test('location', () => { if (response.headers.valueOf('location') !== '/orders/9') throw 'bad'; });
+    client.global.set('orderId', response.body.id);
+  `);
+  assert.strictEqual(outcome.error, undefined);
+  assert.deepStrictEqual(outcome.tests, [
+    { name: 'status is 201', passed: true },
+    { name: 'has two items', passed: false, error: 'expected 3 items' },
+    { name: 'location', passed: true },
+  ]);
+  assert.deepStrictEqual(outcome.globals, { orderId: '9' });
+
+  const text = post("client.test('raw', () => client.assert(response.body === 'plain' && response.text === 'plain'))", {
+    headers: { 'content-type': 'text/plain' },
+    body: 'plain',
+  });
+  assert.strictEqual(text.tests[0].passed, true);
+  const asyncTest = post("client.test('later', async () => {})");
+  assert.strictEqual(asyncTest.tests[0].error, 'Async test functions are not supported');
+  assert.match(post("request.headers.set('X', '1')").error ?? '', /only be changed in pre-request scripts/);
+  assert.match(pre("client.test('x', () => {})").error ?? '', /only available in post-response scripts/);
+}
+
+function testScriptErrors(): void {
+  const thrown = post("client.test('kept', () => {}); client.global.set('a', 1); throw new Error('boom');");
+  assert.strictEqual(thrown.error, 'boom');
+  assert.strictEqual(thrown.tests.length, 1, 'tests recorded before the failure are kept');
+  assert.deepStrictEqual(thrown.globals, { a: '1' });
+  assert.ok(pre('if (').error);
+  assert.match(pre("crypto.hmac('nope', 'k', 'v')").error ?? '', /Invalid digest|nope/i);
+  assert.match(pre("crypto.hash('sha256', 'v', 'latin1')").error ?? '', /Unsupported encoding latin1/);
+  const looping = runHttpScript('while (true) {}', { phase: 'pre-request', globals: {}, request: ORDER_REQUEST, timeoutMs: 50 });
+  assert.match(looping.error ?? '', /timed out/);
+}
+
+function testSandbox(): void {
+  assert.strictEqual(pre('client.log(typeof require, typeof process, typeof fetch, typeof setTimeout)').logs[0], 'undefined undefined undefined undefined');
+  assert.match(pre("this.constructor.constructor('return process')()").error ?? '', /Code generation from strings disallowed/);
+  assert.match(pre("client.log.constructor('return process')()").error ?? '', /Code generation from strings disallowed/);
+  assert.match(pre("eval('1')").error ?? '', /Code generation from strings disallowed/);
+  const caught = pre("try { crypto.hmac('nope', 'k', 'v'); } catch (e) { client.log(e.constructor === Error); }");
+  assert.deepStrictEqual(caught.logs, ['true'], 'bridge errors are rethrown as sandbox errors');
+}
+
+runTests();
@@ -0,0 +1,382 @@
+/**
+ * Pre-request (`< {% ... %}`) and post-response (`> {% ... %}`) script blocks, run in a
+ * `vm` context that only sees the `client`, `request`, `response` and `crypto` objects.
+ * Data crosses the sandbox boundary as JSON text so scripts never hold host objects.
+ * Pure helpers — no VS Code dependencies.
+ */
+import * as crypto from 'crypto';
+import * as vm from 'vm';
+
+/** `<` blocks run before the request is sent, `>` blocks after the response arrives. */
+export type HttpScriptPhase = 'pre-request' | 'post-response';
+
+/** A `{% ... %}` script block found in request text. */
+export interface HttpScriptBlock {
+  phase: HttpScriptPhase;
+  code: string;
+  /** 0-based line of the `{%` opener in the scanned text */
+  line: number;
+}
+
+/** Request as seen (and, before sending, changed) by a script. */
+export interface HttpScriptRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+/** Response handed to a post-response script. */
+export interface HttpScriptResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/** One `client.test(name, fn)` call. */
+export interface HttpScriptTestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+}
+
+export interface HttpScriptOptions {
+  phase: HttpScriptPhase;
+  /** Session variables (`client.global`), also usable as `{{name}}` */
+  globals: Record<string, string>;
+  request: HttpScriptRequest;
+  /** Required for post-response scripts */
+  response?: HttpScriptResponse;
+  /** Wall-clock limit of one script run */
+  timeoutMs?: number;
+}
+
+export interface HttpScriptOutcome {
+  /** The request with header changes and script variables applied */
+  request: HttpScriptRequest;
+  /** `request.variables.set(...)` values, for this request only */
+  variables: Record<string, string>;
+  /** All `client.global` variables after the run */
+  globals: Record<string, string>;
+  tests: HttpScriptTestResult[];
+  /** `client.log` / `console.log` lines */
+  logs: string[];
+  /** Syntax error, uncaught exception or timeout */
+  error?: string;
+}
+
+export const DEFAULT_SCRIPT_TIMEOUT_MS = 1000;
+
+const SCRIPT_BLOCK_RE = /^[ \t]*([<>])[ \t]*\{%([\s\S]*?)%\}[ \t]*$/gm;
+const SCRIPT_OPENER_RE = /^\s*[<>]\s*\{%/;
+const DIGEST_ENCODINGS = new Set(['hex', 'base64', 'base64url']);
+
+/**
+ * Lists the `< {% %}` and `> {% %}` blocks of request text, in order
+ */
+export function extractScriptBlocks(text: string): HttpScriptBlock[] {
+  const blocks: HttpScriptBlock[] = [];
+  for (const match of text.matchAll(SCRIPT_BLOCK_RE)) {
+    blocks.push({
+      phase: match[1] === '<' ? 'pre-request' : 'post-response',
+      code: match[2].replace(/^[ \t]*\r?\n/, '').replace(/\r?\n[ \t]*$/, ''),
+      line: text.slice(0, match.index).split('\n').length - 1,
+    });
+  }
+  return blocks;
+}
+
+/**
+ * Removes script blocks so the rest parses as a plain request
+ */
+export function removeScriptBlocks(text: string): string {
+  return text.replace(SCRIPT_BLOCK_RE, '');
+}
+
+/**
+ * Whether a line opens a script block (`> {%` / `< {%`)
+ */
+export function isScriptBlockOpener(line: string): boolean {
+  return SCRIPT_OPENER_RE.test(line);
+}
+
+function digestEncoding(value: unknown): crypto.BinaryToTextEncoding {
+  const encoding = value === undefined || value === null ? 'hex' : String(value);
+  if (!DIGEST_ENCODINGS.has(encoding)) {
+    throw new Error(`Unsupported encoding ${encoding} (use hex, base64 or base64url)`);
+  }
+  return encoding as crypto.BinaryToTextEncoding;
+}
+
+function runBridgeOperation(op: string, args: unknown[]): unknown {
+  const text = (index: number): string => (args[index] === undefined ? '' : String(args[index]));
+  switch (op) {
+    case 'hmac':
+      return crypto.createHmac(text(0), text(1)).update(text(2)).digest(digestEncoding(args[3]));
+    case 'hash':
+      return crypto.createHash(text(0)).update(text(1)).digest(digestEncoding(args[2]));
+    case 'randomUUID':
+      return crypto.randomUUID();
+    case 'randomHex':
+      return crypto.randomBytes(Math.min(1024, Math.max(1, Number(args[0]) || 16))).toString('hex');
+    case 'base64Encode':
+      return Buffer.from(text(0), 'utf8').toString('base64');
+    case 'base64Decode':
+      return Buffer.from(text(0), 'base64').toString('utf8');
+    default:
+      throw new Error(`Unknown operation ${op}`);
+  }
+}
+
+/**
+ * Host side of `crypto.*`: takes and returns JSON text only, errors included
+ */
+function scriptBridge(op: string, argsJson: string): string {
+  try {
+    const args = JSON.parse(argsJson) as unknown[];
+    return JSON.stringify({ value: runBridgeOperation(op, args) });
+  } catch (error) {
+    return JSON.stringify({ error: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+/**
+ * Compiled inside the sandbox. Installs the script API as globals and
+ * `__cursorToysScript(fn)`, which runs the user code and returns the outcome as JSON.
+ */
+const SCRIPT_RUNTIME = `(function (bridge, input) {
+  'use strict';
+  const parse = JSON.parse;
+  const stringify = JSON.stringify;
+  const own = (target, key) => Object.prototype.hasOwnProperty.call(target, key);
+  const data = parse(input);
+  const pre = data.phase === 'pre-request';
+  const globals = data.globals;
+  const variables = {};
+  const sent = data.request;
+  const tests = [];
+  const logs = [];
+  let error;
+
+  const toText = (value) =>
+    value === undefined || value === null ? '' : typeof value === 'string' ? value : stringify(value);
+  const describe = (value) =>
+    value !== null && typeof value === 'object' && typeof value.message === 'string' ? value.message : String(value);
+  const substitute = (text) =>
+    typeof text !== 'string'
+      ? text
+      : text.replace(/\\{\\{\\s*([a-zA-Z_][a-zA-Z0-9_]*)\\s*\\}\\}/g, (match, name) =>
+          own(variables, name) ? variables[name] : own(globals, name) ? globals[name] : match);
+  const headerKey = (headers, name) =>
+    Object.keys(headers).find((key) => key.toLowerCase() === String(name).toLowerCase());
+  const call = (op, args) => {
+    const out = parse(bridge(op, stringify(args)));
+    if (own(out, 'error')) {
+      throw new Error(out.error);
+    }
+    return out.value;
+  };
+  const variableStore = (target) => Object.freeze({
+    set(name, value) { target[String(name)] = toText(value); },
+    get(name) { return own(target, name) ? target[name] : undefined; },
+    has(name) { return own(target, name); },
+    clear(name) { delete target[name]; },
+    clearAll() { for (const key of Object.keys(target)) delete target[key]; },
+    isEmpty() { return Object.keys(target).length === 0; },
+  });
+  const readOnlyHeaders = (headers) => Object.freeze({
+    valueOf(name) { const key = headerKey(headers, name); return key === undefined ? null : headers[key]; },
+    all() { return Object.assign({}, headers); },
+  });
+  const log = (...args) => {
+    logs.push(args.map((arg) => (typeof arg === 'string' ? arg : toText(arg))).join(' '));
+  };
+
+  globalThis.client = Object.freeze({
+    global: variableStore(globals),
+    log,
+    assert(condition, message) {
+      if (!condition) {
+        throw new Error(message === undefined ? 'Assertion failed' : toText(message));
+      }
+    },
+    test(name, fn) {
+      if (pre) {
+        throw new Error('client.test() is only available in post-response scripts');
+      }
+      const entry = { name: toText(name), passed: true };
+      try {
+        const result = fn();
+        if (result && typeof result.then === 'function') {
+          entry.passed = false;
+          entry.error = 'Async test functions are not supported';
+        }
+      } catch (failure) {
+        entry.passed = false;
+        entry.error = describe(failure);
+      }
+      tests.push(entry);
+    },
+  });
+
+  globalThis.console = Object.freeze({ log, info: log, warn: log, error: log });
+
+  globalThis.crypto = Object.freeze({
+    hmac: (algorithm, key, text, encoding) => call('hmac', [algorithm, key, text, encoding]),
+    hash: (algorithm, text, encoding) => call('hash', [algorithm, text, encoding]),
+    randomUUID: () => call('randomUUID', []),
+    randomHex: (bytes) => call('randomHex', [bytes]),
+    base64Encode: (text) => call('base64Encode', [toText(text)]),
+    base64Decode: (text) => call('base64Decode', [toText(text)]),
+  });
+
+  const requestHeaders = Object.freeze({
+    valueOf(name) { const key = headerKey(sent.headers, name); return key === undefined ? null : substitute(sent.headers[key]); },
+    all() {
+      const all = {};
+      for (const key of Object.keys(sent.headers)) all[key] = substitute(sent.headers[key]);
+      return all;
+    },
+    set(name, value) {
+      if (!pre) throw new Error('Request headers can only be changed in pre-request scripts');
+      const key = headerKey(sent.headers, name);
+      sent.headers[key === undefined ? String(name) : key] = toText(value);
+    },
+    add(name, value) { requestHeaders.set(name, value); },
+    remove(name) {
+      if (!pre) throw new Error('Request headers can only be changed in pre-request scripts');
+      const key = headerKey(sent.headers, name);
+      if (key !== undefined) delete sent.headers[key];
+    },
+  });
+
+  globalThis.request = Object.freeze({
+    get method() { return sent.method; },
+    get url() { return substitute(sent.url); },
+    set url(value) { if (pre) sent.url = toText(value); },
+    get body() { return substitute(sent.body); },
+    set body(value) { if (pre) sent.body = toText(value); },
+    headers: requestHeaders,
+    variables: variableStore(variables),
+  });
+
+  if (data.response) {
+    const res = data.response;
+    const contentType = readOnlyHeaders(res.headers).valueOf('content-type') || '';
+    let body = res.body;
+    if (/json/i.test(contentType) || /^\\s*[\\[{]/.test(res.body)) {
+      try { body = parse(res.body); } catch (ignored) { body = res.body; }
+    }
+    globalThis.response = Object.freeze({
+      status: res.status,
+      statusText: res.statusText,
+      contentType,
+      headers: readOnlyHeaders(res.headers),
+      body,
+      text: res.body,
+    });
+  }
+
+  globalThis.__cursorToysScript = (fn) => {
+    try {
+      fn();
+    } catch (failure) {
+      error = describe(failure);
+    }
+    const headers = {};
+    for (const key of Object.keys(sent.headers)) headers[key] = substitute(sent.headers[key]);
+    return stringify({
+      request: {
+        method: sent.method,
+        url: substitute(sent.url),
+        headers,
+        body: sent.body === undefined ? undefined : substitute(sent.body),
+      },
+      variables,
+      globals,
+      tests,
+      logs,
+      error,
+    });
+  };
+})`;
+
+/**
+ * Runs one script block. Never throws: syntax errors, uncaught exceptions and timeouts
+ * are reported in `error`, with whatever the script recorded before failing.
+ */
+export function runHttpScript(code: string, options: HttpScriptOptions): HttpScriptOutcome {
+  const fallback: HttpScriptOutcome = {
+    request: { ...options.request, headers: { ...options.request.headers } },
+    variables: {},
+    globals: { ...options.globals },
+    tests: [],
+    logs: [],
+  };
+  try {
+    const context = vm.createContext(Object.create(null), {
+      name: `${options.phase} script`,
+      codeGeneration: { strings: false, wasm: false },
+      microtaskMode: 'afterEvaluate',
+    });
+    const install = vm.runInContext(SCRIPT_RUNTIME, context) as (
+      bridge: (op: string, argsJson: string) => string,
+      input: string
+    ) => void;
+    install(
+      scriptBridge,
+      JSON.stringify({
+        phase: options.phase,
+        globals: options.globals,
+        request: options.request,
+        response: options.response,
+      })
+    );
+    const script = new vm.Script(`__cursorToysScript(function () {\n${code}\n});`, {
+      filename: `${options.phase} script`,
+      lineOffset: -1,
+    });
+    const output: unknown = script.runInContext(context, {
+      timeout: options.timeoutMs ?? DEFAULT_SCRIPT_TIMEOUT_MS,
+    });
+    if (typeof output !== 'string') {
+      return { ...fallback, error: 'Script runtime was replaced by the script' };
+    }
+    return JSON.parse(output) as HttpScriptOutcome;
+  } catch (error) {
+    return { ...fallback, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * `client.global` variables shared by all scripts (and `{{name}}` placeholders) until
+ * the window reloads.
+ */
+export class HttpScriptGlobalStore {
+  private static instance: HttpScriptGlobalStore | undefined;
+  private values: Record<string, string> = {};
+
+  static getInstance(): HttpScriptGlobalStore {
+    if (!HttpScriptGlobalStore.instance) {
+      HttpScriptGlobalStore.instance = new HttpScriptGlobalStore();
+    }
+    return HttpScriptGlobalStore.instance;
+  }
+
+  all(): Record<string, string> {
+    return { ...this.values };
+  }
+
+  replace(values: Record<string, string>): void {
+    this.values = { ...values };
+  }
+
+  set(name: string, value: string): void {
+    this.values[name] = value;
+  }
+
+  clear(): void {
+    this.values = {};
+  }
+}
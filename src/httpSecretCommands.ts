@@ -0,0 +1,159 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EnvironmentManager } from './environmentManager';
+import { extractEnvSecrets, setEnvSecretReference } from './httpSecrets';
+import { HttpSecretStore, type HttpSecretScope } from './httpSecretStore';
+import { envNameFromProjectEnvFileName, getHttpEnvContext, listEnvFileNames } from './utils';
+
+const VARIABLE_NAME_RE = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/** An environment and the `.env` file that defines it */
+interface HttpEnvFileTarget extends HttpSecretScope {
+  filePath: string;
+}
+
+/**
+ * The `.env` file a command works on: the given or active `.env` file, otherwise one picked
+ * from the env root of the active request file (or the workspace). Undefined when cancelled.
+ */
+async function pickEnvFile(uri: vscode.Uri | undefined, title: string): Promise<HttpEnvFileTarget | undefined> {
+  const filePath = uri?.fsPath ?? vscode.window.activeTextEditor?.document.uri.fsPath;
+  if (filePath) {
+    const envName = envNameFromProjectEnvFileName(path.basename(filePath));
+    if (envName) {
+      return { envRoot: path.dirname(filePath), envName, filePath };
+    }
+  }
+  const envRoot = (filePath && getHttpEnvContext(filePath)?.envRoot) ||
+    vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  if (!envRoot) {
+    vscode.window.showErrorMessage('Open a workspace folder first.');
+    return undefined;
+  }
+  const items = listEnvFileNames(envRoot).map((fileName) => ({
+    label: envNameFromProjectEnvFileName(fileName) ?? fileName,
+    description: fileName,
+  }));
+  if (items.length === 0) {
+    vscode.window.showErrorMessage(`No .env files found in ${envRoot}.`);
+    return undefined;
+  }
+  const picked = await vscode.window.showQuickPick(items, { title, placeHolder: 'Environment' });
+  return picked && { envRoot, envName: picked.label, filePath: path.join(envRoot, picked.description) };
+}
+
+function readEnvFile(filePath: string): string {
+  return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : '';
+}
+
+/**
+ * Stores a value in SecretStorage and points the variable of the `.env` file at it.
+ */
+async function setSecretCommand(uri?: vscode.Uri): Promise<void> {
+  const target = await pickEnvFile(uri, 'Set Secret Variable');
+  if (!target) {
+    return;
+  }
+  const key = (await vscode.window.showInputBox({
+    title: `Set Secret Variable (${target.envName})`,
+    prompt: 'Variable name, used as {{NAME}} in requests',
+    ignoreFocusOut: true,
+    validateInput: (value) =>
+      VARIABLE_NAME_RE.test(value.trim()) ? undefined : 'Use letters, digits and _ (not starting with a digit).',
+  }))?.trim();
+  if (!key) {
+    return;
+  }
+  const value = await vscode.window.showInputBox({
+    title: `Secret ${key} (${target.envName})`,
+    prompt: `Value of {{${key}}}; ${path.basename(target.filePath)} only keeps a secret:${key} reference`,
+    password: true,
+    ignoreFocusOut: true,
+  });
+  if (value === undefined) {
+    return;
+  }
+  try {
+    await HttpSecretStore.getInstance().set(target, key, value);
+    fs.writeFileSync(target.filePath, setEnvSecretReference(readEnvFile(target.filePath), key), 'utf8');
+    EnvironmentManager.getInstance().clearCache();
+    vscode.window.showInformationMessage(`Secret ${key} saved for ${target.envName}.`);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to save secret: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Moves the secret-like values written in a `.env` file to SecretStorage, leaving references.
+ */
+async function moveSecretsCommand(uri?: vscode.Uri): Promise<void> {
+  const target = await pickEnvFile(uri, 'Move Secrets to Secret Storage');
+  if (!target) {
+    return;
+  }
+  const fileName = path.basename(target.filePath);
+  const { content, secrets } = extractEnvSecrets(readEnvFile(target.filePath));
+  if (secrets.length === 0) {
+    vscode.window.showInformationMessage(`No secret values written in ${fileName}.`);
+    return;
+  }
+  const confirm = await vscode.window.showWarningMessage(
+    `Move ${secrets.length} value(s) from ${fileName} to Secret Storage?`,
+    { modal: true, detail: `${secrets.map((s) => s.key).join(', ')} will be replaced by secret: references.` },
+    'Move'
+  );
+  if (confirm !== 'Move') {
+    return;
+  }
+  try {
+    const store = HttpSecretStore.getInstance();
+    for (const secret of secrets) {
+      await store.set(target, secret.name, secret.value);
+    }
+    fs.writeFileSync(target.filePath, content, 'utf8');
+    EnvironmentManager.getInstance().clearCache();
+    vscode.window.showInformationMessage(`Moved ${secrets.length} secret(s) out of ${fileName}.`);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to move secrets: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Deletes stored secret values; the next request that uses them asks again.
+ */
+async function clearSecretsCommand(): Promise<void> {
+  const store = HttpSecretStore.getInstance();
+  const stored = await store.list();
+  if (stored.length === 0) {
+    vscode.window.showInformationMessage('No HTTP environment secrets are stored.');
+    return;
+  }
+  const picked = await vscode.window.showQuickPick(
+    stored.map((secret) => ({ label: secret.name, description: secret.envName, detail: secret.envRoot, secret })),
+    { title: 'Clear Secret Variables', placeHolder: 'Secrets to delete', canPickMany: true }
+  );
+  if (!picked?.length) {
+    return;
+  }
+  for (const item of picked) {
+    await store.delete(item.secret, item.secret.name);
+  }
+  vscode.window.showInformationMessage(`Deleted ${picked.length} secret(s).`);
+}
+
+/**
+ * Attaches the secret store to SecretStorage and registers the secret variable commands.
+ */
+export function registerHttpSecretCommands(context: vscode.ExtensionContext): void {
+  HttpSecretStore.getInstance().initialize(context.secrets);
+  context.subscriptions.push(
+    vscode.commands.registerCommand('cursor-toys.setHttpEnvSecret', (uri?: vscode.Uri) =>
+      setSecretCommand(uri instanceof vscode.Uri ? uri : undefined)
+    ),
+    vscode.commands.registerCommand('cursor-toys.moveHttpEnvSecrets', (uri?: vscode.Uri) =>
+      moveSecretsCommand(uri instanceof vscode.Uri ? uri : undefined)
+    ),
+    vscode.commands.registerCommand('cursor-toys.clearHttpEnvSecrets', clearSecretsCommand)
+  );
+}
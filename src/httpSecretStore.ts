@@ -0,0 +1,173 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { listSecretReferences, maskSecretValues, maskSecretValuesDeep } from './httpSecrets';
+
+const SECRET_PREFIX = 'cursorToys.httpEnvSecret:';
+const INDEX_KEY = 'cursorToys.httpEnvSecrets';
+
+/** Where a secret belongs: an environment of one env root */
+export interface HttpSecretScope {
+  envRoot: string;
+  envName: string;
+}
+
+/** A stored secret, as listed by HttpSecretStore.list */
+export interface HttpStoredSecret extends HttpSecretScope {
+  name: string;
+}
+
+/**
+ * Values of `secret:NAME` environment variables, kept in VS Code SecretStorage per env root
+ * and environment. SecretStorage cannot list its keys, so the stored names are tracked in a
+ * second secret. Every value read or stored is remembered for the session so responses, saved
+ * `.res` files and other output can mask it.
+ */
+export class HttpSecretStore {
+  private static instance: HttpSecretStore;
+  private secrets: vscode.SecretStorage | undefined;
+  private readonly revealed = new Set<string>();
+
+  private constructor() {
+    // SecretStorage is attached on activation; until then nothing is remembered
+  }
+
+  /**
+   * Returns the singleton HttpSecretStore instance
+   */
+  public static getInstance(): HttpSecretStore {
+    if (!HttpSecretStore.instance) {
+      HttpSecretStore.instance = new HttpSecretStore();
+    }
+    return HttpSecretStore.instance;
+  }
+
+  /**
+   * Stores secrets in the extension's SecretStorage (context.secrets)
+   */
+  public initialize(secrets: vscode.SecretStorage): void {
+    this.secrets = secrets;
+  }
+
+  private key(scope: HttpSecretScope, name: string): string {
+    return `${SECRET_PREFIX}${path.resolve(scope.envRoot)}|${scope.envName.toLowerCase()}|${name.toLowerCase()}`;
+  }
+
+  public async get(scope: HttpSecretScope, name: string): Promise<string | undefined> {
+    const value = await this.secrets?.get(this.key(scope, name));
+    if (value !== undefined) {
+      this.revealed.add(value);
+    }
+    return value;
+  }
+
+  public async set(scope: HttpSecretScope, name: string, value: string): Promise<void> {
+    if (!this.secrets) {
+      throw new Error('Secret storage is not available yet.');
+    }
+    await this.secrets.store(this.key(scope, name), value);
+    this.revealed.add(value);
+    const entry: HttpStoredSecret = { envRoot: path.resolve(scope.envRoot), envName: scope.envName.toLowerCase(), name };
+    const stored = await this.list();
+    if (!stored.some((s) => this.key(s, s.name) === this.key(entry, entry.name))) {
+      await this.secrets.store(INDEX_KEY, JSON.stringify([...stored, entry]));
+    }
+  }
+
+  public async delete(scope: HttpSecretScope, name: string): Promise<void> {
+    if (!this.secrets) {
+      return;
+    }
+    const key = this.key(scope, name);
+    await this.secrets.delete(key);
+    const stored = await this.list();
+    await this.secrets.store(INDEX_KEY, JSON.stringify(stored.filter((s) => this.key(s, s.name) !== key)));
+  }
+
+  /**
+   * Secrets that have a stored value
+   */
+  public async list(): Promise<HttpStoredSecret[]> {
+    const raw = await this.secrets?.get(INDEX_KEY);
+    if (!raw) {
+      return [];
+    }
+    try {
+      const parsed = JSON.parse(raw);
+      return Array.isArray(parsed)
+        ? parsed.filter(
+            (s): s is HttpStoredSecret =>
+              !!s && typeof s.envRoot === 'string' && typeof s.envName === 'string' && typeof s.name === 'string'
+          )
+        : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Secret values read or stored this session
+   */
+  public getRevealed(): ReadonlySet<string> {
+    return this.revealed;
+  }
+
+  /**
+   * Remembers a value computed from secrets — an encoded credential or a signature — so it
+   * is masked too. Ignored when none of the inputs is a secret read this session.
+   */
+  public addDerived(value: string | null, inputs: Iterable<string | undefined>): void {
+    if (value && [...inputs].some((input) => input !== undefined && this.revealed.has(input))) {
+      this.revealed.add(value);
+    }
+  }
+
+  /**
+   * Text with every secret value read this session replaced by a mask
+   */
+  public mask(text: string): string {
+    return this.revealed.size === 0 ? text : maskSecretValues(text, this.revealed);
+  }
+
+  /**
+   * Copy of a payload with every secret value read this session masked in its strings
+   */
+  public maskDeep<T>(value: T): T {
+    return maskSecretValuesDeep(value, this.revealed);
+  }
+}
+
+/**
+ * Replaces the `secret:NAME` values of an environment with the stored secrets. A secret with
+ * no stored value is asked for once and stored.
+ * @param variables The environment's variables (as loaded from its `.env` file)
+ * @param scope Env root and environment the secrets belong to
+ * @returns A resolved copy, or null when the user cancelled a prompt
+ */
+export async function resolveEnvSecrets(
+  variables: Map<string, string>,
+  scope: HttpSecretScope
+): Promise<Map<string, string> | null> {
+  const references = listSecretReferences(variables);
+  if (references.size === 0) {
+    return variables;
+  }
+  const store = HttpSecretStore.getInstance();
+  const resolved = new Map(variables);
+  for (const [key, name] of references) {
+    let value = await store.get(scope, name);
+    if (value === undefined) {
+      value = await vscode.window.showInputBox({
+        title: `Secret ${name} (${scope.envName})`,
+        prompt: `Value of {{${key}}} in the ${scope.envName} environment (kept in SecretStorage, not in the .env file)`,
+        password: true,
+        ignoreFocusOut: true,
+      });
+      if (value === undefined) {
+        return null;
+      }
+      await store.set(scope, name, value);
+    }
+    resolved.set(key, value);
+  }
+  return resolved;
+}
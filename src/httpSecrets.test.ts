@@ -0,0 +1,127 @@
+import * as assert from 'assert';
+import {
+  extractEnvSecrets,
+  formatSecretReference,
+  isMaskedVariable,
+  isSecretVariableName,
+  listSecretReferences,
+  maskSecretValues,
+  maskSecretValuesDeep,
+  parseSecretReference,
+  SECRET_MASK,
+  setEnvSecretReference,
+} from './httpSecrets';
+
+function testSecretReferences(): void {
+  assert.strictEqual(parseSecretReference('secret:API_TOKEN'), 'API_TOKEN');
+  assert.strictEqual(parseSecretReference(' SECRET:db.password '), 'db.password');
+  assert.strictEqual(parseSecretReference('secret:'), null);
+  assert.strictEqual(parseSecretReference('my secret:x'), null);
+  assert.strictEqual(parseSecretReference('https://x.test'), null);
+  assert.strictEqual(formatSecretReference('API_TOKEN'), 'secret:API_TOKEN');
+
+  assert.strictEqual(isSecretVariableName('API_TOKEN'), true);
+  assert.strictEqual(isSecretVariableName('clientSecret'), true);
+  assert.strictEqual(isSecretVariableName('apikey'), true);
+  assert.strictEqual(isSecretVariableName('BASE_URL'), false);
+  assert.strictEqual(isMaskedVariable('db', 'secret:DB'), true);
+  assert.strictEqual(isMaskedVariable('db_password', 'hunter2'), true);
+  assert.strictEqual(isMaskedVariable('host', 'localhost'), false);
+
+  const references = listSecretReferences(
+    new Map([
+      ['api_token', 'secret:API_TOKEN'],
+      ['base_url', 'https://x.test'],
+      ['db', 'secret:shared.db'],
+    ])
+  );
+  assert.deepStrictEqual([...references], [
+    ['api_token', 'API_TOKEN'],
+    ['db', 'shared.db'],
+  ]);
+}
+
+function testMaskSecretValues(): void {
+  assert.strictEqual(
+    maskSecretValues('Authorization: Bearer abc123xyz\n{"token":"abc123xyz","id":1}', ['abc123xyz', '1']),
+    `Authorization: Bearer ${SECRET_MASK}\n{"token":"${SECRET_MASK}","id":1}`,
+    'short values stay visible'
+  );
+  assert.strictEqual(maskSecretValues('key=abcd-long', ['abcd', 'abcd-long']), `key=${SECRET_MASK}`, 'longest first');
+  assert.strictEqual(maskSecretValues('nothing here', []), 'nothing here');
+
+  const payload = {
+    requestLabel: 'GET https://x.test/?key=s3cr3t',
+    headers: { 'X-Api-Key': 's3cr3t', s3cr3t: 'as key' },
+    statusCode: 200,
+    redirects: [{ url: 'https://x.test/s3cr3t' }],
+    bodyBytes: new Uint8Array([1, 2]),
+  };
+  const masked = maskSecretValuesDeep(payload, ['s3cr3t']);
+  assert.deepStrictEqual(masked.headers, { 'X-Api-Key': SECRET_MASK, [SECRET_MASK]: 'as key' });
+  assert.strictEqual(masked.requestLabel, `GET https://x.test/?key=${SECRET_MASK}`);
+  assert.strictEqual(masked.redirects[0].url, `https://x.test/${SECRET_MASK}`);
+  assert.strictEqual(masked.statusCode, 200);
+  assert.strictEqual(masked.bodyBytes, payload.bodyBytes, 'binary data is kept as is');
+  assert.strictEqual(payload.headers['X-Api-Key'], 's3cr3t', 'the input is not changed');
+  assert.strictEqual(maskSecretValuesDeep(payload, []), payload);
+}
+
+function testExtractEnvSecrets(): void {
+  const content = [
+    '# dev environment',
+    'BASE_URL=https://dev.x.test',
+    'API_TOKEN="abc123"',
+    'export CLIENT_SECRET=shh\r',
+    'DB_PASSWORD=secret:DB_PASSWORD',
+    'EMPTY_TOKEN=',
+    '# OLD_TOKEN=kept',
+    '',
+  ].join('\n');
+  const extracted = extractEnvSecrets(content);
+  assert.deepStrictEqual(extracted.secrets, [
+    { key: 'API_TOKEN', name: 'API_TOKEN', value: 'abc123' },
+    { key: 'CLIENT_SECRET', name: 'CLIENT_SECRET', value: 'shh' },
+  ]);
+  assert.strictEqual(
+    extracted.content,
+    [
+      '# dev environment',
+      'BASE_URL=https://dev.x.test',
+      'API_TOKEN=secret:API_TOKEN',
+      'export CLIENT_SECRET=secret:CLIENT_SECRET\r',
+      'DB_PASSWORD=secret:DB_PASSWORD',
+      'EMPTY_TOKEN=',
+      '# OLD_TOKEN=kept',
+      '',
+    ].join('\n')
+  );
+  assert.deepStrictEqual(
+    extractEnvSecrets('HOST=db\nPORT=5432', (key) => key === 'HOST'),
+    { content: 'HOST=secret:HOST\nPORT=5432', secrets: [{ key: 'HOST', name: 'HOST', value: 'db' }] }
+  );
+}
+
+function testSetEnvSecretReference(): void {
+  assert.strictEqual(
+    setEnvSecretReference('BASE_URL=x\napi_token = old\n', 'API_TOKEN'),
+    'BASE_URL=x\nAPI_TOKEN = secret:API_TOKEN\n'
+  );
+  assert.strictEqual(
+    setEnvSecretReference('# API_TOKEN=commented\nBASE_URL=x', 'API_TOKEN'),
+    '# API_TOKEN=commented\nBASE_URL=x\nAPI_TOKEN=secret:API_TOKEN\n'
+  );
+  assert.strictEqual(setEnvSecretReference('', 'KEY', 'shared.key'), 'KEY=secret:shared.key\n');
+}
+
+function runTests(): void {
+  testSecretReferences();
+  testMaskSecretValues();
+  testExtractEnvSecrets();
+  testSetEnvSecretReference();
+  console.log('All httpSecrets tests passed.');
+}
+
+if (require.main === module) {
+  runTests();
+}
@@ -0,0 +1,154 @@
+/**
+ * Secret environment variables: a `.env` value of `secret:NAME` is a reference to a value
+ * kept outside the file (VS Code SecretStorage), resolved when a request is sent. Resolved
+ * values are masked wherever responses and environments are shown.
+ * Pure helpers — no VS Code dependencies.
+ */
+
+/** Replaces secret values in text that is shown or saved */
+export const SECRET_MASK = '••••••';
+
+/** Shorter values are not masked in free text, so `1` or `true` never disappear from a body */
+export const MIN_MASKED_SECRET_LENGTH = 4;
+
+const SECRET_REFERENCE_RE = /^secret:([A-Za-z_][A-Za-z0-9_.-]*)$/i;
+
+/** Variable names treated as secrets when their value is written in the `.env` file */
+const SECRET_NAME_RE = /token|secret|password|passwd|api_?key|private_?key|client_?secret|credential/i;
+
+/**
+ * Secret name of a `secret:NAME` value, null for any other value
+ */
+export function parseSecretReference(value: string): string | null {
+  return value.trim().match(SECRET_REFERENCE_RE)?.[1] ?? null;
+}
+
+export function formatSecretReference(name: string): string {
+  return `secret:${name}`;
+}
+
+/**
+ * True for names like `API_TOKEN`, `clientSecret` or `DB_PASSWORD`
+ */
+export function isSecretVariableName(name: string): boolean {
+  return SECRET_NAME_RE.test(name);
+}
+
+/**
+ * True when a variable's value should be hidden: a `secret:` reference or a secret-like name
+ */
+export function isMaskedVariable(name: string, value: string): boolean {
+  return parseSecretReference(value) !== null || isSecretVariableName(name);
+}
+
+/**
+ * Names of the secrets a set of environment variables refers to, keyed by variable
+ */
+export function listSecretReferences(variables: Map<string, string>): Map<string, string> {
+  const references = new Map<string, string>();
+  for (const [key, value] of variables) {
+    const name = parseSecretReference(value);
+    if (name) {
+      references.set(key, name);
+    }
+  }
+  return references;
+}
+
+/**
+ * Replaces every occurrence of the secret values (longest first) with SECRET_MASK; values
+ * shorter than MIN_MASKED_SECRET_LENGTH are left alone
+ */
+export function maskSecretValues(text: string, secrets: Iterable<string>): string {
+  const values = [...new Set(secrets)]
+    .filter((value) => value.length >= MIN_MASKED_SECRET_LENGTH)
+    .sort((a, b) => b.length - a.length);
+  let masked = text;
+  for (const value of values) {
+    if (masked.includes(value)) {
+      masked = masked.split(value).join(SECRET_MASK);
+    }
+  }
+  return masked;
+}
+
+/**
+ * Copy of a JSON-like value with the secret values masked in every string (keys included)
+ */
+export function maskSecretValuesDeep<T>(value: T, secrets: Iterable<string>): T {
+  const list = [...secrets];
+  if (list.length === 0) {
+    return value;
+  }
+  const visit = (current: unknown): unknown => {
+    if (typeof current === 'string') {
+      return maskSecretValues(current, list);
+    }
+    if (Array.isArray(current)) {
+      return current.map(visit);
+    }
+    if (current && typeof current === 'object' && Object.getPrototypeOf(current) === Object.prototype) {
+      return Object.fromEntries(
+        Object.entries(current as Record<string, unknown>).map(([key, child]) => [maskSecretValues(key, list), visit(child)])
+      );
+    }
+    return current;
+  };
+  return visit(value) as T;
+}
+
+/** A `.env` line whose written value was replaced by a reference */
+export interface ExtractedEnvSecret {
+  /** Variable name as written */
+  key: string;
+  /** Secret name of the reference (the variable name) */
+  name: string;
+  value: string;
+}
+
+/**
+ * Rewrites `.env` content so secret-like variables with a written value become `secret:NAME`
+ * references; comments, blank lines and other variables are kept as they are
+ * @param shouldExtract Decides per variable; secret-like names by default
+ * @returns The new content and the values that were taken out
+ */
+export function extractEnvSecrets(
+  content: string,
+  shouldExtract: (key: string, value: string) => boolean = (key) => isSecretVariableName(key)
+): { content: string; secrets: ExtractedEnvSecret[] } {
+  const secrets: ExtractedEnvSecret[] = [];
+  const lines = content.split('\n').map((line) => {
+    const match = line.match(/^(\s*(?:export\s+)?)([A-Za-z_][A-Za-z0-9_.-]*)(\s*=\s*)(.*?)(\r?)$/);
+    if (!match || line.trim().startsWith('#')) {
+      return line;
+    }
+    const [, lead, key, separator, raw, cr] = match;
+    let value = raw.trim();
+    if ((value.startsWith('"') && value.endsWith('"') && value.length > 1) ||
+        (value.startsWith("'") && value.endsWith("'") && value.length > 1)) {
+      value = value.slice(1, -1);
+    }
+    if (!value || parseSecretReference(value) !== null || !shouldExtract(key, value)) {
+      return line;
+    }
+    secrets.push({ key, name: key, value });
+    return `${lead}${key}${separator}${formatSecretReference(key)}${cr}`;
+  });
+  return { content: lines.join('\n'), secrets };
+}
+
+/**
+ * Sets a variable to a `secret:NAME` reference in `.env` content, replacing its line or
+ * appending one
+ */
+export function setEnvSecretReference(content: string, key: string, name = key): string {
+  const lines = content.split('\n');
+  const lineRe = new RegExp(`^(\\s*(?:export\\s+)?)${key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(\\s*=\\s*).*?(\\r?)$`, 'i');
+  const index = lines.findIndex((line) => !line.trim().startsWith('#') && lineRe.test(line));
+  if (index !== -1) {
+    lines[index] = lines[index].replace(lineRe, `$1${key}$2${formatSecretReference(name)}$3`);
+    return lines.join('\n');
+  }
+  const needsNewline = content.length > 0 && !content.endsWith('\n');
+  return `${content}${needsNewline ? '\n' : ''}${key}=${formatSecretReference(name)}\n`;
+}
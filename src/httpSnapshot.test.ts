@@ -0,0 +1,133 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import {
+  buildHttpSnapshot,
+  compareHttpSnapshots,
+  formatSnapshotDiff,
+  getSnapshotFilePath,
+  maskSnapshotPaths,
+  parseHttpSnapshot,
+  parseSnapshotLine,
+  parseSnapshotPath,
+  serializeHttpSnapshot,
+  SNAPSHOT_IGNORED_VALUE,
+} from './httpSnapshot';
+
+const USER_BODY = JSON.stringify({
+  id: 'a1',
+  name: 'Ann',
+  createdAt: '2024-01-01T00:00:00Z',
+  roles: [
+    { id: 1, name: 'admin', meta: { updatedAt: 'x' } },
+    { id: 2, name: 'user', meta: { updatedAt: 'y' } },
+  ],
+});
+
+function runTests(): void {
+  testParseLine();
+  testSnapshotPath();
+  testIgnorePaths();
+  testBuildAndCompare();
+  testFormatDiff();
+  console.log('All httpSnapshot tests passed.');
+}
+
+function testParseLine(): void {
+  assert.deepStrictEqual(parseSnapshotLine('# @snapshot'), { ignore: [], headers: [] });
+  assert.deepStrictEqual(parseSnapshotLine('#  @snapshot user ignore=$.id,$.roles[*].id headers=Content-Type,ETag'), {
+    name: 'user',
+    ignore: ['$.id', '$.roles[*].id'],
+    headers: ['content-type', 'etag'],
+  });
+  assert.strictEqual(parseSnapshotLine('# @snapshots'), null);
+  assert.strictEqual(parseSnapshotLine('# @name snapshot'), null);
+}
+
+function testSnapshotPath(): void {
+  const file = path.join('/ws', '.cursor', 'http', 'users.req');
+  assert.strictEqual(
+    getSnapshotFilePath(file, 'Get user'),
+    path.join('/ws', '.cursor', 'http', '__snapshots__', 'users.get-user.snap.json')
+  );
+  assert.strictEqual(path.basename(getSnapshotFilePath(file, undefined)), 'users.response.snap.json');
+}
+
+function testIgnorePaths(): void {
+  assert.deepStrictEqual(parseSnapshotPath('$.roles[0]["x-y"]'), [
+    { type: 'key', key: 'roles' },
+    { type: 'index', index: 0 },
+    { type: 'key', key: 'x-y' },
+  ]);
+  assert.throws(() => parseSnapshotPath('$.roles[?(@.id)]'), /Invalid snapshot ignore path/);
+
+  const body = JSON.parse(USER_BODY);
+  const masked = maskSnapshotPaths(body, ['$.id', 'roles[*].id', '$..updatedAt', '$.missing']) as any;
+  assert.strictEqual(masked.id, SNAPSHOT_IGNORED_VALUE);
+  assert.strictEqual(masked.name, 'Ann');
+  assert.deepStrictEqual(masked.roles[1], { id: SNAPSHOT_IGNORED_VALUE, name: 'user', meta: { updatedAt: SNAPSHOT_IGNORED_VALUE } });
+  assert.ok(!('missing' in masked), 'missing paths are not added');
+  assert.strictEqual(body.id, 'a1', 'the input is not modified');
+}
+
+function testBuildAndCompare(): void {
+  const directive = parseSnapshotLine('# @snapshot ignore=$.id,$.createdAt headers=content-type')!;
+  const golden = buildHttpSnapshot(
+    { headers: { 'Content-Type': 'application/json', Date: 'Mon' }, body: USER_BODY },
+    directive
+  );
+  assert.deepStrictEqual(golden.headers, { 'content-type': 'application/json' });
+  assert.deepStrictEqual(Object.keys(golden.body as object), ['createdAt', 'id', 'name', 'roles']);
+
+  // Round trip through the golden file
+  const stored = parseHttpSnapshot(serializeHttpSnapshot(golden));
+  assert.ok(serializeHttpSnapshot(golden).endsWith('}\n'));
+
+  const sameShape = JSON.stringify({ ...JSON.parse(USER_BODY), id: 'b2', createdAt: 'later' });
+  const unchanged = buildHttpSnapshot({ headers: { 'content-type': 'application/json' }, body: sameShape }, directive);
+  assert.deepStrictEqual(compareHttpSnapshots(stored, unchanged, directive), []);
+
+  const drifted = JSON.parse(USER_BODY);
+  drifted.name = 'Bob';
+  drifted.roles.pop();
+  delete drifted.createdAt;
+  const changed = buildHttpSnapshot(
+    { headers: { 'content-type': 'text/plain' }, body: JSON.stringify(drifted) },
+    directive
+  );
+  assert.deepStrictEqual(
+    compareHttpSnapshots(stored, changed, directive).map((d) => [d.kind, d.path]),
+    [
+      ['removed', '$.body.createdAt'],
+      ['changed', '$.body.name'],
+      ['removed', '$.body.roles[1]'],
+      ['changed', '$.headers["content-type"]'],
+    ]
+  );
+
+  // New ignore paths apply to existing golden files
+  const wider = parseSnapshotLine('# @snapshot ignore=$.id,$.createdAt,$.name headers=content-type')!;
+  const renamed = buildHttpSnapshot(
+    { headers: { 'content-type': 'application/json' }, body: JSON.stringify({ ...JSON.parse(USER_BODY), name: 'Bob' }) },
+    wider
+  );
+  assert.deepStrictEqual(compareHttpSnapshots(stored, renamed, wider), []);
+
+  const text = buildHttpSnapshot({ headers: {}, body: 'plain text' }, { ignore: ['$.id'], headers: [] });
+  assert.deepStrictEqual(text, { headers: {}, body: 'plain text' });
+  assert.throws(() => parseHttpSnapshot('{"status": 200}'), /not a response snapshot/);
+}
+
+function testFormatDiff(): void {
+  const diffs = [
+    { path: '$.body.name', kind: 'changed' as const, before: 'Ann', after: 'Bob' },
+    { path: '$.body.tags', kind: 'added' as const, after: ['a'] },
+    { path: '$.body.age', kind: 'removed' as const, before: 3 },
+  ];
+  assert.strictEqual(
+    formatSnapshotDiff(diffs),
+    '~ $.body.name: "Ann" → "Bob"\n+ $.body.tags: ["a"]\n- $.body.age: 3'
+  );
+  assert.strictEqual(formatSnapshotDiff(diffs, 1), '~ $.body.name: "Ann" → "Bob"\n… and 2 more');
+}
+
+runTests();
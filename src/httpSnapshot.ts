@@ -0,0 +1,236 @@
+/**
+ * `# @snapshot` golden-file assertions: the normalized response body and selected headers
+ * are recorded the first time, later responses fail on structural drift.
+ * Pure helpers — no VS Code dependencies.
+ */
+import * as path from 'path';
+import { canonicalizeJson, diffJsonValues, type JsonDifference } from './httpHistory';
+import { toHttpRequestFileSlug } from './httpRequestFileNaming';
+
+/** Folder, next to the request file, that holds the golden files. */
+export const SNAPSHOT_DIR_NAME = '__snapshots__';
+
+/** Value written in place of ignored fields (their presence is still checked). */
+export const SNAPSHOT_IGNORED_VALUE = '<ignored>';
+
+const SNAPSHOT_RE = /^#\s*@snapshot(?:\s+(.*))?$/i;
+
+/**
+ * Options of a `# @snapshot [name] [ignore=$.id,$.items[*].createdAt] [headers=content-type]` line
+ */
+export interface HttpSnapshotDirective {
+  /** Golden file name; the section title is used when omitted. */
+  name?: string;
+  /** Paths (`$.a.b`, `[0]`, `[*]`, `.*`, `..key`) whose values are not compared. */
+  ignore: string[];
+  /** Lowercase header names recorded with the body. */
+  headers: string[];
+}
+
+/** Content of a golden file. */
+export interface HttpSnapshot {
+  headers: Record<string, string>;
+  /** Parsed JSON body (keys sorted), or the body text when it is not JSON. */
+  body: unknown;
+}
+
+type PathToken =
+  | { type: 'key'; key: string }
+  | { type: 'index'; index: number }
+  | { type: 'any' }
+  | { type: 'descend' };
+
+/**
+ * Parses a `# @snapshot` line (null otherwise, for findBlockDirective)
+ */
+export function parseSnapshotLine(line: string): HttpSnapshotDirective | null {
+  const match = line.trim().match(SNAPSHOT_RE);
+  if (!match) {
+    return null;
+  }
+  const directive: HttpSnapshotDirective = { ignore: [], headers: [] };
+  const split = (value: string): string[] => value.split(',').map((v) => v.trim()).filter(Boolean);
+  for (const token of (match[1] ?? '').trim().split(/\s+/).filter(Boolean)) {
+    const option = token.match(/^(ignore|headers)=(.*)$/i);
+    if (option && option[1].toLowerCase() === 'ignore') {
+      directive.ignore.push(...split(option[2]));
+    } else if (option) {
+      directive.headers.push(...split(option[2]).map((h) => h.toLowerCase()));
+    } else if (!directive.name) {
+      directive.name = token;
+    }
+  }
+  return directive;
+}
+
+/**
+ * Golden file of a block: `__snapshots__/<request file>.<name>.snap.json` next to the file
+ * @param requestFile Path of the request file
+ * @param name Snapshot name, or the section title
+ */
+export function getSnapshotFilePath(requestFile: string, name: string | undefined): string {
+  const base = path.basename(requestFile, path.extname(requestFile));
+  const slug = toHttpRequestFileSlug(name ?? '', 'response');
+  return path.join(path.dirname(requestFile), SNAPSHOT_DIR_NAME, `${base}.${slug}.snap.json`);
+}
+
+/**
+ * Splits an ignore path into tokens; throws on malformed paths
+ */
+export function parseSnapshotPath(pattern: string): PathToken[] {
+  const tokens: PathToken[] = [];
+  let rest = pattern.trim().replace(/^\$/, '');
+  while (rest) {
+    let match: RegExpMatchArray | null;
+    if ((match = rest.match(/^\.\.([a-zA-Z_$][\w$-]*|\*)/))) {
+      tokens.push({ type: 'descend' });
+      tokens.push(match[1] === '*' ? { type: 'any' } : { type: 'key', key: match[1] });
+    } else if ((match = rest.match(/^\.?([a-zA-Z_$][\w$-]*)/))) {
+      tokens.push({ type: 'key', key: match[1] });
+    } else if ((match = rest.match(/^\.?\*|^\[\*\]/))) {
+      tokens.push({ type: 'any' });
+    } else if ((match = rest.match(/^\[(\d+)\]/))) {
+      tokens.push({ type: 'index', index: parseInt(match[1], 10) });
+    } else if ((match = rest.match(/^\[(["'])(.*?)\1\]/))) {
+      tokens.push({ type: 'key', key: match[2] });
+    } else {
+      throw new Error(`Invalid snapshot ignore path: ${pattern}`);
+    }
+    rest = rest.slice(match[0].length);
+  }
+  return tokens;
+}
+
+function maskTokens(value: unknown, tokens: PathToken[], i: number): unknown {
+  if (i === tokens.length) {
+    return SNAPSHOT_IGNORED_VALUE;
+  }
+  const token = tokens[i];
+  if (token.type === 'descend') {
+    const masked = maskTokens(value, tokens, i + 1);
+    if (Array.isArray(masked)) {
+      return masked.map((child) => maskTokens(child, tokens, i));
+    }
+    if (masked && typeof masked === 'object') {
+      return Object.fromEntries(
+        Object.entries(masked as Record<string, unknown>).map(([key, child]) => [key, maskTokens(child, tokens, i)])
+      );
+    }
+    return masked;
+  }
+  if (Array.isArray(value)) {
+    if (token.type === 'any') {
+      return value.map((child) => maskTokens(child, tokens, i + 1));
+    }
+    if (token.type === 'index' && token.index < value.length) {
+      const copy = [...value];
+      copy[token.index] = maskTokens(value[token.index], tokens, i + 1);
+      return copy;
+    }
+    return value;
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    if (token.type === 'any') {
+      return Object.fromEntries(Object.entries(record).map(([key, child]) => [key, maskTokens(child, tokens, i + 1)]));
+    }
+    if (token.type === 'key' && Object.prototype.hasOwnProperty.call(record, token.key)) {
+      return { ...record, [token.key]: maskTokens(record[token.key], tokens, i + 1) };
+    }
+  }
+  return value;
+}
+
+/**
+ * Replaces the values at the ignore paths with `<ignored>`
+ */
+export function maskSnapshotPaths(value: unknown, ignore: string[]): unknown {
+  return ignore.reduce((masked, pattern) => maskTokens(masked, parseSnapshotPath(pattern), 0), value);
+}
+
+/**
+ * Normalized snapshot of a response: JSON bodies parsed with sorted keys and ignore paths
+ * masked; only the directive's headers are kept
+ */
+export function buildHttpSnapshot(
+  response: { headers: Record<string, string>; body: string },
+  directive: HttpSnapshotDirective
+): HttpSnapshot {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(response.headers)) {
+    if (directive.headers.includes(name.toLowerCase())) {
+      headers[name.toLowerCase()] = value;
+    }
+  }
+  let body: unknown = response.body;
+  try {
+    body = JSON.parse(response.body);
+  } catch {
+    // Not JSON: compared as text
+  }
+  return {
+    headers: canonicalizeJson(headers) as Record<string, string>,
+    body: canonicalizeJson(maskSnapshotPaths(body, directive.ignore)),
+  };
+}
+
+/**
+ * Differences between a golden file and a new snapshot; the current ignore paths and header
+ * list are applied to the golden file too, so changing them does not need an update
+ */
+export function compareHttpSnapshots(
+  expected: HttpSnapshot,
+  actual: HttpSnapshot,
+  directive: HttpSnapshotDirective
+): JsonDifference[] {
+  const expectedHeaders: Record<string, string> = {};
+  for (const [name, value] of Object.entries(expected.headers ?? {})) {
+    if (directive.headers.includes(name.toLowerCase())) {
+      expectedHeaders[name.toLowerCase()] = value;
+    }
+  }
+  return diffJsonValues(
+    { headers: expectedHeaders, body: maskSnapshotPaths(expected.body, directive.ignore) },
+    { headers: actual.headers, body: actual.body }
+  );
+}
+
+function formatSnapshotValue(value: unknown): string {
+  const text = JSON.stringify(value) ?? String(value);
+  return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+}
+
+/**
+ * One line per difference (`~ $.body.id: 1 → 2`, `+ path: value`, `- path: value`)
+ * @param limit Lines shown before "… and N more"
+ */
+export function formatSnapshotDiff(diffs: JsonDifference[], limit = 20): string {
+  const lines = diffs.slice(0, limit).map((diff) => {
+    if (diff.kind === 'added') {
+      return `+ ${diff.path}: ${formatSnapshotValue(diff.after)}`;
+    }
+    if (diff.kind === 'removed') {
+      return `- ${diff.path}: ${formatSnapshotValue(diff.before)}`;
+    }
+    return `~ ${diff.path}: ${formatSnapshotValue(diff.before)} → ${formatSnapshotValue(diff.after)}`;
+  });
+  if (diffs.length > limit) {
+    lines.push(`… and ${diffs.length - limit} more`);
+  }
+  return lines.join('\n');
+}
+
+export function serializeHttpSnapshot(snapshot: HttpSnapshot): string {
+  return `${JSON.stringify(snapshot, null, 2)}\n`;
+}
+
+/**
+ * Reads a golden file; throws when it is not a snapshot
+ */
+export function parseHttpSnapshot(text: string): HttpSnapshot {
+  const parsed = JSON.parse(text);
+  if (!parsed || typeof parsed !== 'object' || !('body' in parsed)) {
+    throw new Error('not a response snapshot');
+  }
+  return { headers: parsed.headers ?? {}, body: parsed.body };
+}
@@ -0,0 +1,378 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import * as net from 'net';
+import type { AddressInfo } from 'net';
+import type { Duplex } from 'stream';
+import { validateAssertions } from './assertionValidator';
+import { CookieJar } from './httpCookieJar';
+import { parseHttpRequest } from './httpRequestParse';
+import {
+  computeWebSocketAccept,
+  encodeWebSocketFrame,
+  formatStreamTranscript,
+  indexStreamEvents,
+  openHttpStream,
+  parseStreamDurationLine,
+  parseStreamMessages,
+  SseParser,
+  toWebSocketUrl,
+  WebSocketFrameDecoder,
+} from './httpStream';
+
+async function runTests(): Promise<void> {
+  testParseMessages();
+  testDirectivesAndUrls();
+  testParseStreamBlock();
+  testFrameRoundTrip();
+  testSseParser();
+  testIndexEvents();
+
+  const server = http.createServer((req, res) => {
+    if (req.url === '/events') {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Set-Cookie': 'stream=1; Path=/' });
+      res.write(': hello\n\n');
+      res.write('event: tick\ndata: {"n":1}\nid: 1\n\n');
+      setTimeout(() => {
+        res.write('data: first\ndata: second\n\n');
+        res.end();
+      }, 20);
+      return;
+    }
+    if (req.url === '/forever') {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write('data: open\n\n');
+      return;
+    }
+    res.writeHead(404, { 'Content-Type': 'text/plain' });
+    res.end('missing');
+  });
+  server.on('upgrade', (req, socket, head) => acceptEchoSocket(req, socket, head));
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const port = (server.address() as AddressInfo).port;
+
+  try {
+    await testWebSocketEcho(port);
+    await testWebSocketStop(port);
+    await testSseStream(port);
+    await testSseDuration(port);
+    await testRefused(port);
+    await testThroughProxy(port);
+  } finally {
+    server.close();
+  }
+  console.log('All httpStream tests passed.');
+}
+
+/**
+ * Echo server side of a WebSocket: pings once, echoes text frames (the `split` message
+ * comes back in two fragments) and answers close frames.
+ */
+function acceptEchoSocket(req: http.IncomingMessage, socket: Duplex, head: Buffer): void {
+  if (req.url !== '/ws') {
+    socket.end('HTTP/1.1 403 Forbidden\r\nContent-Length: 6\r\n\r\ndenied');
+    return;
+  }
+  const accept = computeWebSocketAccept(String(req.headers['sec-websocket-key']));
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  socket.write(encodeWebSocketFrame(0x9, Buffer.from('are you there'), false));
+  socket.write(encodeWebSocketFrame(0x1, Buffer.from('{"type":"welcome"}'), false));
+  const decoder = new WebSocketFrameDecoder();
+  const handle = (chunk: Buffer): void => {
+    for (const frame of decoder.push(chunk)) {
+      if (frame.opcode === 0x8) {
+        socket.end(encodeWebSocketFrame(0x8, frame.payload, false));
+        return;
+      }
+      if (frame.opcode !== 0x1) {
+        continue;
+      }
+      const text = frame.payload.toString('utf8');
+      if (text === 'split') {
+        const first = encodeWebSocketFrame(0x1, Buffer.from('sp'), false);
+        first[0] &= 0x7f;
+        socket.write(first);
+        socket.write(encodeWebSocketFrame(0x0, Buffer.from('lit'), false));
+      } else {
+        socket.write(encodeWebSocketFrame(0x1, Buffer.from(`echo:${text}`), false));
+      }
+    }
+  };
+  socket.on('data', handle);
+  socket.on('error', () => undefined);
+  if (head.length > 0) {
+    handle(head);
+  }
+}
+
+function testParseMessages(): void {
+  assert.deepStrictEqual(parseStreamMessages('{"op":"subscribe"}'), [{ data: '{"op":"subscribe"}', waitForServer: false }]);
+  assert.deepStrictEqual(parseStreamMessages('===\nfirst\n=== wait-for-server\nsecond\nline\n===\n\n'), [
+    { data: 'first', waitForServer: false },
+    { data: 'second\nline', waitForServer: true },
+  ]);
+  assert.deepStrictEqual(parseStreamMessages(undefined), []);
+}
+
+function testDirectivesAndUrls(): void {
+  assert.strictEqual(parseStreamDurationLine('# @stream-duration 5'), 5);
+  assert.strictEqual(parseStreamDurationLine('#@stream-duration 1.5s'), 1.5);
+  assert.strictEqual(parseStreamDurationLine('# @name stream'), null);
+  assert.strictEqual(toWebSocketUrl('https://api.example.com/ws', false), 'wss://api.example.com/ws');
+  assert.strictEqual(toWebSocketUrl('ws://localhost:8080', true), 'wss://localhost:8080');
+  assert.strictEqual(toWebSocketUrl('ws://localhost:8080', false), 'ws://localhost:8080');
+  // RFC 6455 section 1.3 example
+  assert.strictEqual(computeWebSocketAccept('dGhlIHNhbXBsZSBub25jZQ=='), 's3pPLMBiTxaQ9kYGzzhZRbK+xOo=');
+}
+
+function testParseStreamBlock(): void {
+  const ws = parseHttpRequest('WS ws://localhost:8080/chat\nAuthorization: Bearer t\n\n===\nhello\n=== wait-for-server\nbye');
+  assert.strictEqual(ws?.method, 'WS');
+  assert.strictEqual(ws?.url, 'ws://localhost:8080/chat');
+  assert.deepStrictEqual(ws?.headers, { Authorization: 'Bearer t' });
+  assert.strictEqual(ws?.body, '===\nhello\n=== wait-for-server\nbye');
+
+  const sse = parseHttpRequest('SSE {{BASE}}/events');
+  assert.strictEqual(sse?.method, 'SSE');
+  assert.strictEqual(sse?.body, undefined);
+}
+
+function testFrameRoundTrip(): void {
+  const decoder = new WebSocketFrameDecoder();
+  const big = Buffer.alloc(70000, 'x');
+  const bytes = Buffer.concat([
+    encodeWebSocketFrame(0x1, Buffer.from('hi'), true),
+    encodeWebSocketFrame(0x2, Buffer.alloc(300, 7), false),
+    encodeWebSocketFrame(0x1, big, true),
+  ]);
+  // Frames split across arbitrary chunk boundaries
+  const frames = [...decoder.push(bytes.subarray(0, 5)), ...decoder.push(bytes.subarray(5, 400)), ...decoder.push(bytes.subarray(400))];
+  assert.strictEqual(frames.length, 3);
+  assert.deepStrictEqual(frames[0], { fin: true, opcode: 0x1, payload: Buffer.from('hi') });
+  assert.strictEqual(frames[1].opcode, 0x2);
+  assert.strictEqual(frames[1].payload.length, 300);
+  assert.ok(frames[2].payload.equals(big));
+}
+
+function testSseParser(): void {
+  const parser = new SseParser();
+  assert.deepStrictEqual(parser.push('event: greet\r\ndata:  padded\r'), []);
+  assert.deepStrictEqual(parser.push('\n\r\n'), [{ event: 'greet', data: ' padded' }]);
+  assert.deepStrictEqual(parser.push(':comment\nid: 7\ndata: a\ndata\ndata: b\n\n'), [
+    { event: 'message', data: 'a\n\nb', id: '7' },
+  ]);
+  // The last event id carries over; blocks without data dispatch nothing
+  assert.deepStrictEqual(parser.push('event: empty\n\ndata: next\n\n'), [{ event: 'message', data: 'next', id: '7' }]);
+}
+
+function testIndexEvents(): void {
+  const messages = [
+    { at: 0, direction: 'out' as const, event: 'text', data: '{"type":"ping"}' },
+    { at: 10, direction: 'in' as const, event: 'text', data: '{"type":"pong","n":1}' },
+    { at: 20, direction: 'in' as const, event: 'text', data: '{"type":"pong","n":2}' },
+    { at: 30, direction: 'in' as const, event: 'tick', data: '1', id: '4' },
+  ];
+  const events = indexStreamEvents(messages);
+  assert.deepStrictEqual(Object.keys(events).sort(), ['pong', 'text', 'tick']);
+  assert.strictEqual(events.pong.at, 10);
+  assert.strictEqual(events.ping, undefined);
+  assert.strictEqual(
+    formatStreamTranscript(messages.slice(2)),
+    '[+0.020s] ← {"type":"pong","n":2}\n[+0.030s] ← tick: 1'
+  );
+
+  // Server-chosen names must not reach Object.prototype
+  const hostile = indexStreamEvents([
+    { at: 0, direction: 'in', event: '__proto__', data: '{"polluted":true}' },
+    { at: 5, direction: 'in', event: 'text', data: '{"type":"__proto__"}' },
+    { at: 9, direction: 'in', event: 'constructor', data: 'x' },
+  ]);
+  assert.deepStrictEqual(Object.keys(hostile).sort(), ['__proto__', 'constructor', 'text']);
+  assert.strictEqual(hostile.__proto__.at, 0);
+  assert.strictEqual(hostile['constructor' as string].data, 'x');
+  assert.strictEqual(({} as Record<string, unknown>).polluted, undefined);
+  assert.strictEqual(Object.getPrototypeOf({}), Object.prototype);
+}
+
+/**
+ * WS and SSE streams reach the server through a `CONNECT` proxy, unless the no-proxy list matches.
+ */
+async function testThroughProxy(port: number): Promise<void> {
+  const connects: string[] = [];
+  const sockets = new Set<net.Socket>();
+  const proxy = http.createServer((_req, res) => {
+    res.writeHead(405);
+    res.end();
+  });
+  proxy.on('connect', (req: http.IncomingMessage, client: net.Socket, head: Buffer) => {
+    connects.push(`${req.url} ${req.headers['proxy-authorization'] ?? ''}`);
+    sockets.add(client);
+    if (String(req.url).startsWith('blocked.test')) {
+      client.end('HTTP/1.1 403 Forbidden\r\nContent-Length: 0\r\n\r\n');
+      return;
+    }
+    const [host, targetPort] = String(req.url).split(':');
+    const upstream = net.connect(Number(targetPort), host, () => {
+      client.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+      upstream.write(head);
+      upstream.pipe(client);
+      client.pipe(upstream);
+    });
+    sockets.add(upstream);
+    upstream.on('error', () => client.destroy());
+    client.on('error', () => upstream.destroy());
+    client.on('close', () => upstream.destroy());
+  });
+  await new Promise<void>((resolve) => proxy.listen(0, '127.0.0.1', resolve));
+  const proxyPort = (proxy.address() as AddressInfo).port;
+  const tls = { verify: true, httpProxy: `http://ann:pw@127.0.0.1:${proxyPort}` };
+  const credentials = `Basic ${Buffer.from('ann:pw').toString('base64')}`;
+
+  try {
+    const ws = await openHttpStream(
+      { method: 'WS', url: `ws://127.0.0.1:${port}/ws` },
+      { timeoutSeconds: 5, durationSeconds: 0.3, tls }
+    ).done;
+    assert.strictEqual(ws.statusCode, 101);
+    assert.strictEqual(ws.messages?.[0]?.data, '{"type":"welcome"}');
+
+    const sse = await openHttpStream(
+      { method: 'SSE', url: `http://127.0.0.1:${port}/events` },
+      { timeoutSeconds: 5, durationSeconds: 5, tls }
+    ).done;
+    assert.strictEqual(sse.statusCode, 200);
+    assert.strictEqual(sse.messages?.length, 2);
+    assert.deepStrictEqual(connects, [`127.0.0.1:${port} ${credentials}`, `127.0.0.1:${port} ${credentials}`]);
+
+    const direct = await openHttpStream(
+      { method: 'SSE', url: `http://127.0.0.1:${port}/events` },
+      { timeoutSeconds: 5, durationSeconds: 5, tls: { ...tls, noProxy: '127.0.0.1' } }
+    ).done;
+    assert.strictEqual(direct.statusCode, 200);
+    assert.strictEqual(connects.length, 2);
+
+    const refused = await openHttpStream(
+      { method: 'WS', url: 'ws://blocked.test/ws' },
+      { timeoutSeconds: 5, durationSeconds: 5, tls }
+    ).done;
+    assert.strictEqual(refused.statusCode, 0);
+    assert.strictEqual(refused.error, 'Proxy refused CONNECT to blocked.test:80: 403 Forbidden');
+  } finally {
+    for (const socket of sockets) {
+      socket.destroy();
+    }
+    proxy.close();
+  }
+}
+
+async function testWebSocketEcho(port: number): Promise<void> {
+  const config = parseHttpRequest(`WS http://127.0.0.1:${port}/ws\n\n===\nhello\n=== wait-for-server\nsplit\n=== wait-for-server\nlast`);
+  assert.ok(config);
+  const seen: string[] = [];
+  let openedWith = 0;
+  const session = openHttpStream(config, { timeoutSeconds: 5, durationSeconds: 0.5 }, {
+    onOpen: (info) => (openedWith = info.statusCode),
+    onMessage: (m) => seen.push(`${m.direction}:${m.data}`),
+  });
+  const result = await session.done;
+  assert.strictEqual(openedWith, 101);
+  assert.strictEqual(result.statusCode, 101);
+  assert.strictEqual(result.error, undefined);
+  assert.deepStrictEqual(seen, [
+    'out:hello',
+    'in:{"type":"welcome"}',
+    'out:split',
+    'in:echo:hello',
+    'out:last',
+    'in:split',
+    'in:echo:last',
+  ]);
+  assert.strictEqual(result.messages?.length, 7);
+  assert.ok(result.body.includes('→ hello'));
+
+  const [welcome, late] = validateAssertions(
+    [
+      { expression: 'res.events.welcome.at', operator: 'lte', expected: 5000, description: 'welcome within 5s', line: 1 },
+      { expression: 'res.events.goodbye', operator: 'isDefined', expected: null, description: 'goodbye received', line: 2 },
+    ],
+    result
+  );
+  assert.strictEqual(welcome.passed, true);
+  assert.strictEqual(late.passed, false);
+}
+
+async function testWebSocketStop(port: number): Promise<void> {
+  const session = openHttpStream(
+    { method: 'WS', url: `ws://127.0.0.1:${port}/ws` },
+    { timeoutSeconds: 5, durationSeconds: 30 },
+    { onMessage: () => session.stop() }
+  );
+  const result = await session.done;
+  assert.strictEqual(result.statusCode, 101);
+  assert.ok((result.timings?.total ?? Infinity) < 5000);
+  assert.deepStrictEqual(result.messages?.map((m) => m.data), ['{"type":"welcome"}']);
+}
+
+async function testSseStream(port: number): Promise<void> {
+  const jar = new CookieJar();
+  const result = await openHttpStream(
+    { method: 'SSE', url: `http://127.0.0.1:${port}/events` },
+    { timeoutSeconds: 5, durationSeconds: 5, cookieJar: jar }
+  ).done;
+  assert.strictEqual(result.statusCode, 200);
+  assert.strictEqual(result.headers['Content-Type'], 'text/event-stream');
+  assert.deepStrictEqual(
+    result.messages?.map(({ event, data, id }) => ({ event, data, id })),
+    [
+      { event: 'tick', data: '{"n":1}', id: '1' },
+      { event: 'message', data: 'first\nsecond', id: '1' },
+    ]
+  );
+  assert.strictEqual(jar.getCookieHeader(`http://127.0.0.1:${port}/`), 'stream=1');
+
+  const [tick] = validateAssertions(
+    [{ expression: 'res.events.tick.data', operator: 'contains', expected: '"n":1', line: 1 }],
+    result
+  );
+  assert.strictEqual(tick.passed, true);
+}
+
+async function testSseDuration(port: number): Promise<void> {
+  const result = await openHttpStream(
+    { method: 'SSE', url: `http://127.0.0.1:${port}/forever` },
+    { timeoutSeconds: 5, durationSeconds: 0.2 }
+  ).done;
+  assert.strictEqual(result.statusCode, 200);
+  assert.deepStrictEqual(result.messages?.map((m) => m.data), ['open']);
+}
+
+async function testRefused(port: number): Promise<void> {
+  const sse = await openHttpStream(
+    { method: 'SSE', url: `http://127.0.0.1:${port}/nope` },
+    { timeoutSeconds: 5, durationSeconds: 5 }
+  ).done;
+  assert.strictEqual(sse.statusCode, 404);
+  assert.strictEqual(sse.body, 'missing');
+
+  const ws = await openHttpStream(
+    { method: 'WS', url: `ws://127.0.0.1:${port}/closed` },
+    { timeoutSeconds: 5, durationSeconds: 5 }
+  ).done;
+  assert.strictEqual(ws.statusCode, 403);
+  assert.strictEqual(ws.body, 'denied');
+
+  const down = await openHttpStream(
+    { method: 'SSE', url: 'http://127.0.0.1:1/' },
+    { timeoutSeconds: 5, durationSeconds: 5 }
+  ).done;
+  assert.strictEqual(down.statusCode, 0);
+  assert.strictEqual(down.statusText, 'Error');
+  assert.ok(down.error);
+}
+
+runTests().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
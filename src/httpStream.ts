@@ -0,0 +1,629 @@
+/**
+ * Streaming requests: WebSocket (`WS` / `WSS`) and Server-Sent Events (`SSE`) blocks on
+ * Node's http/https modules (RFC 6455 framing and the EventSource wire format, no
+ * dependencies).
+ */
+import * as crypto from 'crypto';
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import type { Duplex } from 'stream';
+import { performance } from 'perf_hooks';
+import type { HttpRequestConfig } from './httpRequestParse';
+import type { HttpRequestResult } from './httpRequestExecutor';
+import type { HttpStreamMessage } from './httpResponseTypes';
+import type { CookieJar } from './httpCookieJar';
+import { selectProxy, type HttpTlsSettings } from './httpTls';
+import {
+  foldRawHeaders,
+  loadTlsConnectionOptions,
+  openProxyTunnel,
+  serializeRequestBody,
+  tunnelConnection,
+  withJarCookies,
+} from './httpNodeEngine';
+
+/** Request methods that open a stream instead of a one-shot exchange. */
+export const STREAM_METHODS = ['WS', 'WSS', 'SSE'] as const;
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const STREAM_DURATION_RE = /^#\s*@stream-duration\s+(\d+(?:\.\d+)?)\s*s?\s*$/i;
+const MESSAGE_SEPARATOR_RE = /^===\s*(wait-for-server)?\s*$/i;
+const CLOSE_GRACE_MS = 1000;
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_BINARY = 0x2;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+/** A message a WebSocket block sends, in order. */
+export interface HttpStreamOutgoing {
+  data: string;
+  /** Written after `=== wait-for-server`: sent once the server has replied. */
+  waitForServer: boolean;
+}
+
+export interface WebSocketFrame {
+  fin: boolean;
+  opcode: number;
+  payload: Buffer;
+}
+
+export interface SseEvent {
+  event: string;
+  data: string;
+  id?: string;
+}
+
+export interface HttpStreamOptions {
+  /** Seconds to wait for the handshake / response headers. */
+  timeoutSeconds: number;
+  /** Seconds after which the stream is stopped and the result reported. */
+  durationSeconds: number;
+  /** Sends matching cookies and stores `Set-Cookie` of the handshake when set. */
+  cookieJar?: CookieJar;
+  /** Proxy (tunneled with `CONNECT`), client certificate and verification settings. */
+  tls?: HttpTlsSettings;
+}
+
+export interface HttpStreamListener {
+  onOpen?(info: { statusCode: number; statusText: string; headers: Record<string, string> }): void;
+  onMessage?(message: HttpStreamMessage): void;
+}
+
+/** A running stream; `done` resolves once it closed, failed or was stopped. */
+export interface HttpStreamSession {
+  stop(): void;
+  done: Promise<HttpRequestResult>;
+}
+
+/**
+ * True for `WS`, `WSS` and `SSE` methods.
+ */
+export function isStreamMethod(method: string | undefined): boolean {
+  return STREAM_METHODS.includes((method ?? '').toUpperCase() as (typeof STREAM_METHODS)[number]);
+}
+
+/**
+ * Seconds of a `# @stream-duration 10` line (null otherwise, for findBlockDirective).
+ */
+export function parseStreamDurationLine(line: string): number | null {
+  const match = line.trim().match(STREAM_DURATION_RE);
+  return match ? parseFloat(match[1]) : null;
+}
+
+/**
+ * Splits a WebSocket block body into messages. Each `===` line starts a message and
+ * `=== wait-for-server` holds it until the server sent something; a body without
+ * separators is a single message.
+ */
+export function parseStreamMessages(body: string | undefined): HttpStreamOutgoing[] {
+  const messages: HttpStreamOutgoing[] = [];
+  let current: { lines: string[]; waitForServer: boolean } = { lines: [], waitForServer: false };
+  const flush = (): void => {
+    const data = current.lines.join('\n').trim();
+    if (data) {
+      messages.push({ data, waitForServer: current.waitForServer });
+    }
+  };
+  for (const line of (body ?? '').split(/\r?\n/)) {
+    const separator = line.trim().match(MESSAGE_SEPARATOR_RE);
+    if (separator) {
+      flush();
+      current = { lines: [], waitForServer: !!separator[1] };
+      continue;
+    }
+    current.lines.push(line);
+  }
+  flush();
+  return messages;
+}
+
+/**
+ * WebSocket URL for a block: `http(s)://` becomes `ws(s)://`; `WSS` always uses TLS.
+ */
+export function toWebSocketUrl(url: string, forceSecure: boolean): string {
+  const converted = url.replace(/^http(s?):\/\//i, (_m, s: string) => `ws${s}://`);
+  return forceSecure ? converted.replace(/^ws:\/\//i, 'wss://') : converted;
+}
+
+/**
+ * `Sec-WebSocket-Accept` value the server must answer for a handshake key.
+ */
+export function computeWebSocketAccept(key: string): string {
+  return crypto.createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+}
+
+/**
+ * Encodes one unfragmented frame; client frames must be masked.
+ */
+export function encodeWebSocketFrame(opcode: number, payload: Buffer, mask: boolean): Buffer {
+  const length = payload.length;
+  const lengthBytes = length < 126 ? 0 : length < 0x10000 ? 2 : 8;
+  const header = Buffer.alloc(2 + lengthBytes + (mask ? 4 : 0));
+  header[0] = 0x80 | opcode;
+  header[1] = (mask ? 0x80 : 0) | (length < 126 ? length : length < 0x10000 ? 126 : 127);
+  if (lengthBytes === 2) {
+    header.writeUInt16BE(length, 2);
+  } else if (lengthBytes === 8) {
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  if (!mask) {
+    return Buffer.concat([header, payload]);
+  }
+  const key = crypto.randomBytes(4);
+  key.copy(header, 2 + lengthBytes);
+  const masked = Buffer.alloc(length);
+  for (let i = 0; i < length; i++) {
+    masked[i] = payload[i] ^ key[i % 4];
+  }
+  return Buffer.concat([header, masked]);
+}
+
+/**
+ * Incremental WebSocket frame parser (frames may span or share TCP chunks).
+ */
+export class WebSocketFrameDecoder {
+  private buffer: Buffer = Buffer.alloc(0);
+
+  push(chunk: Buffer): WebSocketFrame[] {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+    const frames: WebSocketFrame[] = [];
+    for (;;) {
+      if (this.buffer.length < 2) {
+        break;
+      }
+      const b0 = this.buffer[0];
+      const b1 = this.buffer[1];
+      let length = b1 & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (this.buffer.length < 4) {
+          break;
+        }
+        length = this.buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (this.buffer.length < 10) {
+          break;
+        }
+        length = Number(this.buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      const masked = (b1 & 0x80) !== 0;
+      const maskOffset = offset;
+      if (masked) {
+        offset += 4;
+      }
+      if (this.buffer.length < offset + length) {
+        break;
+      }
+      const payload = Buffer.from(this.buffer.subarray(offset, offset + length));
+      if (masked) {
+        for (let i = 0; i < payload.length; i++) {
+          payload[i] ^= this.buffer[maskOffset + (i % 4)];
+        }
+      }
+      frames.push({ fin: (b0 & 0x80) !== 0, opcode: b0 & 0x0f, payload });
+      this.buffer = this.buffer.subarray(offset + length);
+    }
+    return frames;
+  }
+}
+
+/**
+ * Incremental `text/event-stream` parser (WHATWG EventSource rules).
+ */
+export class SseParser {
+  private buffer = '';
+  private data: string[] = [];
+  private event = '';
+  private lastId: string | undefined;
+
+  push(chunk: string): SseEvent[] {
+    this.buffer += chunk;
+    const events: SseEvent[] = [];
+    for (;;) {
+      const match = /\r\n|\r|\n/.exec(this.buffer);
+      if (!match) {
+        break;
+      }
+      // A trailing CR may be the first half of CRLF
+      if (match[0] === '\r' && match.index === this.buffer.length - 1) {
+        break;
+      }
+      const line = this.buffer.slice(0, match.index);
+      this.buffer = this.buffer.slice(match.index + match[0].length);
+      const event = this.processLine(line);
+      if (event) {
+        events.push(event);
+      }
+    }
+    return events;
+  }
+
+  private processLine(line: string): SseEvent | null {
+    if (line === '') {
+      if (this.data.length === 0) {
+        this.event = '';
+        return null;
+      }
+      const event: SseEvent = { event: this.event || 'message', data: this.data.join('\n') };
+      if (this.lastId !== undefined) {
+        event.id = this.lastId;
+      }
+      this.data = [];
+      this.event = '';
+      return event;
+    }
+    if (line.startsWith(':')) {
+      return null;
+    }
+    const colon = line.indexOf(':');
+    const field = colon < 0 ? line : line.slice(0, colon);
+    const value = colon < 0 ? '' : line.slice(colon + 1).replace(/^ /, '');
+    if (field === 'data') {
+      this.data.push(value);
+    } else if (field === 'event') {
+      this.event = value;
+    } else if (field === 'id' && !value.includes('\0')) {
+      this.lastId = value;
+    }
+    return null;
+  }
+}
+
+/**
+ * First incoming message per event name, for `res.events.<name>` assertions.
+ * WebSocket JSON messages are also indexed by their string `type` / `event` field.
+ */
+export function indexStreamEvents(messages: HttpStreamMessage[]): Record<string, HttpStreamMessage> {
+  // Event names come from the server; a null prototype keeps `__proto__` an ordinary key
+  const events: Record<string, HttpStreamMessage> = Object.create(null);
+  for (const message of messages) {
+    if (message.direction !== 'in') {
+      continue;
+    }
+    const names = [message.event];
+    if (message.event === 'text') {
+      try {
+        const parsed = JSON.parse(message.data);
+        for (const key of ['type', 'event']) {
+          if (parsed && typeof parsed[key] === 'string') {
+            names.push(parsed[key]);
+          }
+        }
+      } catch {
+        // not JSON
+      }
+    }
+    for (const name of names) {
+      events[name] ??= message;
+    }
+  }
+  return events;
+}
+
+/**
+ * Plain-text log of a stream (`[+0.120s] ← tick: {...}`), used as the response body.
+ */
+export function formatStreamTranscript(messages: HttpStreamMessage[]): string {
+  return messages
+    .map((m) => {
+      const arrow = m.direction === 'in' ? '←' : '→';
+      const label = m.event === 'text' ? '' : `${m.event}: `;
+      return `[+${(m.at / 1000).toFixed(3)}s] ${arrow} ${label}${m.data}`;
+    })
+    .join('\n');
+}
+
+function roundMs(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function collectSetCookies(res: http.IncomingMessage): string[] {
+  const value = res.headers['set-cookie'];
+  return Array.isArray(value) ? value : value ? [value] : [];
+}
+
+/**
+ * Opens a WebSocket or SSE stream for a parsed `WS` / `WSS` / `SSE` block, through the
+ * configured proxy like other requests. WebSocket blocks send their `===` messages after the handshake. The stream stops after
+ * `durationSeconds`, when the server closes it, or on `stop()`; `done` always resolves.
+ */
+export function openHttpStream(
+  config: HttpRequestConfig,
+  options: HttpStreamOptions,
+  listener: HttpStreamListener = {}
+): HttpStreamSession {
+  const method = (config.method || 'SSE').toUpperCase();
+  const startedAt = performance.now();
+  const messages: HttpStreamMessage[] = [];
+  let openedAt: number | undefined;
+  let status = { statusCode: 0, statusText: '', headers: {} as Record<string, string> };
+  let setCookies: string[] = [];
+  let errorText: string | undefined;
+  let refusedBody = '';
+  let finished = false;
+  let connectTimer: NodeJS.Timeout | undefined;
+  let durationTimer: NodeJS.Timeout | undefined;
+  let resolveDone!: (result: HttpRequestResult) => void;
+  const done = new Promise<HttpRequestResult>((resolve) => {
+    resolveDone = resolve;
+  });
+
+  const record = (direction: 'in' | 'out', event: string, data: string, id?: string): void => {
+    const message: HttpStreamMessage = {
+      at: roundMs(performance.now() - (openedAt ?? startedAt)),
+      direction,
+      event,
+      data,
+      ...(id !== undefined ? { id } : {}),
+    };
+    messages.push(message);
+    listener.onMessage?.(message);
+  };
+
+  const finish = (failure?: { statusText: string; error: string }): void => {
+    if (finished) {
+      return;
+    }
+    finished = true;
+    clearTimeout(connectTimer);
+    clearTimeout(durationTimer);
+    if (failure && status.statusCode === 0) {
+      errorText = failure.error;
+    }
+    // A refused handshake reports the server's response body instead of a transcript
+    const body = openedAt === undefined && status.statusCode > 0 ? refusedBody : formatStreamTranscript(messages);
+    resolveDone({
+      statusCode: status.statusCode,
+      statusText: status.statusCode === 0 ? failure?.statusText ?? 'Error' : status.statusText,
+      headers: status.headers,
+      body: body || (errorText ?? ''),
+      ...(errorText ? { error: errorText } : {}),
+      timings: { total: roundMs(performance.now() - startedAt) },
+      setCookies,
+      messages,
+    });
+  };
+
+  let tunnel: http.ClientRequest | undefined;
+  let req: http.ClientRequest | undefined;
+  const abort = (): void => {
+    tunnel?.destroy();
+    req?.destroy();
+  };
+
+  let stopImpl: () => void = () => {
+    finish({ statusText: 'Stopped', error: 'Stopped before the stream opened' });
+    abort();
+  };
+
+  const opened = (res: http.IncomingMessage): void => {
+    openedAt = performance.now();
+    clearTimeout(connectTimer);
+    status = {
+      statusCode: res.statusCode ?? 0,
+      statusText: res.statusMessage ?? '',
+      headers: foldRawHeaders(res.rawHeaders),
+    };
+    setCookies = collectSetCookies(res);
+    options.cookieJar?.setCookies(setCookies, httpUrl.toString());
+    listener.onOpen?.(status);
+    durationTimer = setTimeout(() => stopImpl(), options.durationSeconds * 1000);
+  };
+
+  const refused = (res: http.IncomingMessage): void => {
+    clearTimeout(connectTimer);
+    status = {
+      statusCode: res.statusCode ?? 0,
+      statusText: res.statusMessage ?? '',
+      headers: foldRawHeaders(res.rawHeaders),
+    };
+    setCookies = collectSetCookies(res);
+    options.cookieJar?.setCookies(setCookies, httpUrl.toString());
+    const chunks: Buffer[] = [];
+    res.on('data', (chunk: Buffer) => chunks.push(chunk));
+    res.on('end', () => {
+      refusedBody = Buffer.concat(chunks).toString('utf8');
+      finish();
+    });
+    res.on('error', () => finish());
+  };
+
+  let httpUrl: URL;
+  try {
+    const target = method === 'SSE' ? config.url : toWebSocketUrl(config.url, method === 'WSS');
+    httpUrl = new URL(target.replace(/^ws(s?):\/\//i, (_m, s: string) => `http${s}://`));
+  } catch {
+    finish({ statusText: 'Error', error: `Invalid URL: ${config.url}` });
+    return { stop: () => undefined, done };
+  }
+  const transport = httpUrl.protocol === 'https:' ? https : http;
+  let tlsOptions: ReturnType<typeof loadTlsConnectionOptions>;
+  let proxy: URL | null;
+  try {
+    tlsOptions = httpUrl.protocol === 'https:' ? loadTlsConnectionOptions(options.tls) : {};
+    proxy = options.tls ? selectProxy(options.tls, httpUrl) : null;
+  } catch (error) {
+    finish({ statusText: 'Error', error: error instanceof Error ? error.message : String(error) });
+    return { stop: () => undefined, done };
+  }
+  const headers = withJarCookies({ ...(config.headers ?? {}) }, httpUrl, options.cookieJar);
+
+  // Through a proxy, streams always tunnel with CONNECT: a WebSocket upgrade needs a raw connection
+  const sendRequest = (createConnection?: () => net.Socket): void => {
+    const connection = createConnection ? { createConnection } : {};
+    let request: http.ClientRequest;
+    if (method === 'SSE') {
+      const body = serializeRequestBody(config.body) ?? '';
+      if (!Object.keys(headers).some((k) => k.toLowerCase() === 'accept')) {
+        headers.Accept = 'text/event-stream';
+      }
+      request = transport.request(httpUrl, { method: body ? 'POST' : 'GET', headers, ...tlsOptions, ...connection });
+      request.on('response', (res) => {
+        if ((res.statusCode ?? 0) >= 300) {
+          refused(res);
+          return;
+        }
+        opened(res);
+        const parser = new SseParser();
+        res.setEncoding('utf8');
+        res.on('data', (chunk: string) => {
+          for (const event of parser.push(chunk)) {
+            record('in', event.event, event.data, event.id);
+          }
+        });
+        res.on('end', () => finish());
+        res.on('error', () => finish());
+        stopImpl = () => {
+          finish();
+          request.destroy();
+        };
+      });
+      if (body) {
+        request.write(body);
+      }
+    } else {
+      const key = crypto.randomBytes(16).toString('base64');
+      for (const name of Object.keys(headers)) {
+        if (/^(content-length|content-type)$/i.test(name)) {
+          delete headers[name];
+        }
+      }
+      Object.assign(headers, {
+        Connection: 'Upgrade',
+        Upgrade: 'websocket',
+        'Sec-WebSocket-Version': '13',
+        'Sec-WebSocket-Key': key,
+      });
+      request = transport.request(httpUrl, { method: 'GET', headers, ...tlsOptions, ...connection });
+      request.on('response', (res) => refused(res));
+      request.on('upgrade', (res, socket, head) => {
+        if (res.headers['sec-websocket-accept'] !== computeWebSocketAccept(key)) {
+          socket.destroy();
+          finish({ statusText: 'Error', error: 'Invalid Sec-WebSocket-Accept in handshake response' });
+          return;
+        }
+        opened(res);
+        runWebSocket(socket, head);
+      });
+    }
+    request.on('error', (error) => finish({ statusText: 'Error', error: error.message }));
+    request.end();
+    req = request;
+  };
+
+  const runWebSocket = (socket: Duplex, head: Buffer): void => {
+    const outgoing = parseStreamMessages(typeof config.body === 'string' ? config.body : undefined);
+    const decoder = new WebSocketFrameDecoder();
+    let next = 0;
+    let receivedSinceSend = 0;
+    let closing = false;
+    let fragments: Buffer[] = [];
+    let fragmentOpcode = OPCODE_TEXT;
+
+    const write = (opcode: number, payload: Buffer): void => {
+      if (!socket.destroyed) {
+        socket.write(encodeWebSocketFrame(opcode, payload, true));
+      }
+    };
+
+    const sendPending = (): void => {
+      while (!closing && next < outgoing.length) {
+        const message = outgoing[next];
+        if (message.waitForServer && receivedSinceSend === 0) {
+          return;
+        }
+        write(OPCODE_TEXT, Buffer.from(message.data, 'utf8'));
+        record('out', 'text', message.data);
+        receivedSinceSend = 0;
+        next++;
+      }
+    };
+
+    const close = (): void => {
+      if (closing) {
+        return;
+      }
+      closing = true;
+      const code = Buffer.alloc(2);
+      code.writeUInt16BE(1000, 0);
+      write(OPCODE_CLOSE, code);
+      setTimeout(() => socket.destroy(), CLOSE_GRACE_MS).unref();
+    };
+    stopImpl = close;
+
+    const handle = (chunk: Buffer): void => {
+      for (const frame of decoder.push(chunk)) {
+        if (frame.opcode === OPCODE_PING) {
+          write(OPCODE_PONG, frame.payload);
+          continue;
+        }
+        if (frame.opcode === OPCODE_PONG) {
+          continue;
+        }
+        if (frame.opcode === OPCODE_CLOSE) {
+          if (!closing) {
+            closing = true;
+            write(OPCODE_CLOSE, frame.payload.subarray(0, 2));
+          }
+          socket.end();
+          continue;
+        }
+        if (frame.opcode !== OPCODE_CONTINUATION) {
+          fragmentOpcode = frame.opcode;
+          fragments = [];
+        }
+        fragments.push(frame.payload);
+        if (!frame.fin) {
+          continue;
+        }
+        const payload = Buffer.concat(fragments);
+        fragments = [];
+        if (fragmentOpcode === OPCODE_BINARY) {
+          record('in', 'binary', payload.toString('base64'));
+        } else {
+          record('in', 'text', payload.toString('utf8'));
+        }
+        receivedSinceSend++;
+        sendPending();
+      }
+    };
+
+    socket.on('data', handle);
+    socket.on('close', () => finish());
+    socket.on('error', () => finish());
+    sendPending();
+    if (head.length > 0) {
+      handle(head);
+    }
+  };
+
+  connectTimer = setTimeout(() => {
+    finish({ statusText: 'Timeout', error: `Stream timeout after ${options.timeoutSeconds} seconds` });
+    abort();
+  }, options.timeoutSeconds * 1000);
+  if (proxy) {
+    tunnel = openProxyTunnel(proxy, httpUrl, {
+      onConnect: (socket) => {
+        if (finished) {
+          socket.destroy();
+          return;
+        }
+        sendRequest(() => tunnelConnection(socket, httpUrl, tlsOptions));
+      },
+      onError: (error) => finish({ statusText: 'Error', error: error.message }),
+    });
+  } else {
+    sendRequest();
+  }
+
+  return {
+    stop: () => stopImpl(),
+    done,
+  };
+}
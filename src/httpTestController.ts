@@ -0,0 +1,543 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EnvironmentManager } from './environmentManager';
+import { getHttpTestWorkspaceContext } from './httpCliRunner';
+import { buildHttpFolderTree, type HttpFolderFileEntry, type HttpFolderTreeEntry } from './httpFolderTree';
+import { getHttpRequestBlockLabel, getHttpRequestBlocks } from './httpRequestParser';
+import { formatHttpResponse, runHttpBlockTests } from './httpRequestExecutor';
+import { HttpSecretStore } from './httpSecretStore';
+import { describeAssertionFailure, findAssertionLines } from './httpTestDiscovery';
+import {
+  HTTP_TEST_REPORT_FORMATS,
+  listHttpTestReports,
+  summarizeHttpTestReport,
+  writeHttpTestReports,
+  type HttpTestReportCase,
+  type HttpTestReportFormat,
+  type HttpTestReportSuite,
+} from './httpTestReport';
+import { formatAssertionOperator } from './assertionParser';
+import { getHttpTestReportPath } from './utils';
+
+const HTTP_TEST_FILE_RE = /\.(req|request|http|rest)$/i;
+
+type HttpTestItemData =
+  | { kind: 'folder'; relativePath: string }
+  | { kind: 'file'; filePath: string }
+  | { kind: 'block'; filePath: string; startLine: number; endLine: number }
+  | { kind: 'assertion' };
+
+/**
+ * Lists request files under the HTTP folder with paths relative to it.
+ */
+function listHttpFiles(httpPath: string, current = httpPath): HttpFolderFileEntry[] {
+  let names: fs.Dirent[];
+  try {
+    names = fs.readdirSync(current, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  const files: HttpFolderFileEntry[] = [];
+  for (const entry of names) {
+    const fullPath = path.join(current, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...listHttpFiles(httpPath, fullPath));
+    } else if (entry.isFile() && HTTP_TEST_FILE_RE.test(entry.name)) {
+      const folderPath = path.relative(httpPath, current).replace(/\\/g, '/');
+      files.push({ filePath: fullPath, fileName: entry.name, folderPath });
+    }
+  }
+  return files;
+}
+
+/** Test output text with secret values masked and terminal line endings */
+function toTerminalText(text: string): string {
+  return HttpSecretStore.getInstance().mask(text).replace(/\r?\n/g, '\r\n');
+}
+
+function getHttpTestReportFormats(): HttpTestReportFormat[] {
+  const configured = vscode.workspace
+    .getConfiguration('cursorToys')
+    .get<string[]>('httpTestReportFormats', [...HTTP_TEST_REPORT_FORMATS]);
+  return HTTP_TEST_REPORT_FORMATS.filter((format) => configured.includes(format));
+}
+
+/**
+ * Test Explorer integration: every request block with `@assert` lines in the workspace
+ * HTTP folder is a test, run in-process with one child per assertion.
+ */
+export class HttpTestExplorer implements vscode.Disposable {
+  private static instance: HttpTestExplorer | undefined;
+  private readonly controller: vscode.TestController;
+  private readonly itemData = new WeakMap<vscode.TestItem, HttpTestItemData>();
+  private readonly disposables: vscode.Disposable[] = [];
+  private profiles: vscode.TestRunProfile[] = [];
+  private discovered = false;
+  private lastReportPaths: string[] = [];
+
+  private constructor() {
+    this.controller = vscode.tests.createTestController('cursorToysHttpTests', 'CursorToys HTTP');
+    this.controller.resolveHandler = async (item) => {
+      if (!item) {
+        await this.discoverAll();
+      }
+    };
+    this.controller.refreshHandler = () => this.discoverAll();
+  }
+
+  static getInstance(): HttpTestExplorer {
+    if (!HttpTestExplorer.instance) {
+      HttpTestExplorer.instance = new HttpTestExplorer();
+    }
+    return HttpTestExplorer.instance;
+  }
+
+  /**
+   * Creates the run profiles and watches request and environment files.
+   */
+  initialize(): void {
+    this.refreshProfiles();
+    const ctx = getHttpTestWorkspaceContext();
+    if (ctx) {
+      const watcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(ctx.httpPath, '**/*.{req,request,http,rest}')
+      );
+      const rediscover = (): void => {
+        if (this.discovered) {
+          void this.discoverAll();
+        }
+      };
+      watcher.onDidCreate(rediscover);
+      watcher.onDidDelete(rediscover);
+      watcher.onDidChange(rediscover);
+      this.disposables.push(watcher);
+    }
+    this.disposables.push(
+      EnvironmentManager.getInstance().onDidChangeEnvironment(() => this.refreshProfiles())
+    );
+  }
+
+  /**
+   * Runs the tests of one request file.
+   */
+  async runFile(filePath: string): Promise<void> {
+    await this.discoverAll();
+    const item = this.findItem((data) => data.kind === 'file' && path.resolve(data.filePath) === path.resolve(filePath));
+    if (!item) {
+      vscode.window.showInformationMessage(`No @assert tests in ${path.basename(filePath)}.`);
+      return;
+    }
+    await this.runItems([item]);
+  }
+
+  /**
+   * Runs the tests under a folder of the HTTP tree (`''` for all).
+   */
+  async runFolder(relativePath: string): Promise<void> {
+    await this.discoverAll();
+    if (!relativePath) {
+      await this.runAll();
+      return;
+    }
+    const item = this.findItem((data) => data.kind === 'folder' && data.relativePath === relativePath);
+    if (!item) {
+      vscode.window.showInformationMessage(`No @assert tests in ${relativePath}.`);
+      return;
+    }
+    await this.runItems([item]);
+  }
+
+  /**
+   * Runs every discovered HTTP test.
+   */
+  async runAll(): Promise<void> {
+    await this.discoverAll();
+    const items: vscode.TestItem[] = [];
+    this.controller.items.forEach((item) => items.push(item));
+    if (items.length === 0) {
+      vscode.window.showInformationMessage('No HTTP requests with @assert tests found.');
+      return;
+    }
+    await this.runItems(items);
+  }
+
+  /**
+   * Opens a report of the most recent run (this session's, else the newest on disk).
+   */
+  async openLastReport(): Promise<void> {
+    let reportPaths = this.lastReportPaths.filter((filePath) => fs.existsSync(filePath));
+    if (reportPaths.length === 0) {
+      const ctx = getHttpTestWorkspaceContext();
+      const reports = ctx ? listHttpTestReports(getHttpTestReportPath(ctx.workspacePath)) : [];
+      reportPaths = reports.filter((report) => report.stem === reports[0].stem).map((report) => report.filePath);
+    }
+    if (reportPaths.length === 0) {
+      vscode.window.showInformationMessage('No HTTP test reports yet. Run HTTP tests from the Test Explorer first.');
+      return;
+    }
+    let target = reportPaths[0];
+    if (reportPaths.length > 1) {
+      const picked = await vscode.window.showQuickPick(
+        reportPaths.map((filePath) => ({ label: path.basename(filePath), description: path.dirname(filePath), filePath })),
+        { placeHolder: 'Select a report format' }
+      );
+      if (!picked) {
+        return;
+      }
+      target = picked.filePath;
+    }
+    try {
+      const document = await vscode.workspace.openTextDocument(vscode.Uri.file(target));
+      await vscode.window.showTextDocument(document, { preview: false });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      vscode.window.showErrorMessage(`Could not open the HTTP test report: ${message}`);
+    }
+  }
+
+  dispose(): void {
+    this.profiles.forEach((profile) => profile.dispose());
+    this.disposables.forEach((d) => d.dispose());
+    this.controller.dispose();
+  }
+
+  private async runItems(items: vscode.TestItem[]): Promise<void> {
+    void vscode.commands.executeCommand('workbench.view.testing.focus');
+    const request = new vscode.TestRunRequest(items, undefined, this.profiles[0]);
+    const source = new vscode.CancellationTokenSource();
+    try {
+      await this.runTests(request, source.token, undefined, false);
+    } finally {
+      source.dispose();
+    }
+  }
+
+  /**
+   * Default Run / Debug profiles use each block's own environment; one more pair per
+   * environment file runs everything in that environment. Debug runs print each exchange.
+   */
+  private refreshProfiles(): void {
+    this.profiles.forEach((profile) => profile.dispose());
+    const ctx = getHttpTestWorkspaceContext();
+    const envNames = ctx
+      ? EnvironmentManager.getInstance().getAvailableEnvironments(ctx.workspacePath)
+      : [];
+    const create = (label: string, kind: vscode.TestRunProfileKind, envName: string | undefined): vscode.TestRunProfile =>
+      this.controller.createRunProfile(
+        label,
+        kind,
+        (request, token) => this.runTests(request, token, envName, kind === vscode.TestRunProfileKind.Debug),
+        envName === undefined
+      );
+    this.profiles = [
+      create('Run', vscode.TestRunProfileKind.Run, undefined),
+      create('Debug (show exchanges)', vscode.TestRunProfileKind.Debug, undefined),
+      ...envNames.flatMap((envName) => [
+        create(`Run in ${envName}`, vscode.TestRunProfileKind.Run, envName),
+        create(`Debug in ${envName} (show exchanges)`, vscode.TestRunProfileKind.Debug, envName),
+      ]),
+    ];
+  }
+
+  private async discoverAll(): Promise<void> {
+    const ctx = getHttpTestWorkspaceContext();
+    if (!ctx) {
+      this.controller.items.replace([]);
+      return;
+    }
+    const tree = buildHttpFolderTree(listHttpFiles(ctx.httpPath));
+    this.controller.items.replace(await this.createItems(tree));
+    this.discovered = true;
+  }
+
+  private async createItems(entries: HttpFolderTreeEntry[]): Promise<vscode.TestItem[]> {
+    const items: vscode.TestItem[] = [];
+    for (const entry of entries) {
+      if (entry.kind === 'file') {
+        const fileItem = await this.createFileItem(entry.file.filePath, entry.file.fileName);
+        if (fileItem) {
+          items.push(fileItem);
+        }
+        continue;
+      }
+      const children = await this.createItems(entry.node.entries);
+      if (children.length === 0) {
+        continue;
+      }
+      const folderItem = this.controller.createTestItem(`folder:${entry.node.relativePath}`, entry.node.name);
+      folderItem.children.replace(children);
+      this.itemData.set(folderItem, { kind: 'folder', relativePath: entry.node.relativePath });
+      items.push(folderItem);
+    }
+    return items;
+  }
+
+  private async createFileItem(filePath: string, fileName: string): Promise<vscode.TestItem | null> {
+    const uri = vscode.Uri.file(filePath);
+    let document: vscode.TextDocument;
+    try {
+      document = await vscode.workspace.openTextDocument(uri);
+    } catch {
+      return null;
+    }
+    const lines = document.getText().split('\n');
+    const blockItems: vscode.TestItem[] = [];
+    for (const block of getHttpRequestBlocks(document)) {
+      const assertionLines = findAssertionLines(lines, block.startLine, block.endLine);
+      if (assertionLines.length === 0) {
+        continue;
+      }
+      const blockItem = this.controller.createTestItem(
+        `${uri.toString()}#${block.startLine}`,
+        getHttpRequestBlockLabel(block, document),
+        uri
+      );
+      blockItem.range = new vscode.Range(block.titleLine, 0, block.titleLine, 0);
+      this.itemData.set(blockItem, { kind: 'block', filePath, startLine: block.startLine, endLine: block.endLine });
+      blockItem.children.replace(
+        assertionLines.map((assertion, index) => {
+          const assertionItem = this.controller.createTestItem(`${blockItem.id}#${index}`, assertion.label, uri);
+          assertionItem.range = new vscode.Range(assertion.line, 0, assertion.line, lines[assertion.line]?.length ?? 0);
+          this.itemData.set(assertionItem, { kind: 'assertion' });
+          return assertionItem;
+        })
+      );
+      blockItems.push(blockItem);
+    }
+    if (blockItems.length === 0) {
+      return null;
+    }
+    const fileItem = this.controller.createTestItem(uri.toString(), fileName, uri);
+    fileItem.children.replace(blockItems);
+    this.itemData.set(fileItem, { kind: 'file', filePath });
+    return fileItem;
+  }
+
+  private findItem(match: (data: HttpTestItemData) => boolean): vscode.TestItem | undefined {
+    const visit = (collection: vscode.TestItemCollection): vscode.TestItem | undefined => {
+      let found: vscode.TestItem | undefined;
+      collection.forEach((item) => {
+        const data = this.itemData.get(item);
+        if (!found && data && data.kind !== 'block' && data.kind !== 'assertion') {
+          found = match(data) ? item : visit(item.children);
+        }
+      });
+      return found;
+    };
+    return visit(this.controller.items);
+  }
+
+  /**
+   * Block items to run for a request, in tree order; assertions run their whole block.
+   */
+  private collectBlocks(request: vscode.TestRunRequest): vscode.TestItem[] {
+    const excluded = new Set(request.exclude ?? []);
+    const blocks = new Set<vscode.TestItem>();
+    const visit = (item: vscode.TestItem): void => {
+      if (excluded.has(item)) {
+        return;
+      }
+      const data = this.itemData.get(item);
+      if (data?.kind === 'block') {
+        blocks.add(item);
+      } else if (data?.kind === 'assertion' && item.parent) {
+        blocks.add(item.parent);
+      } else {
+        item.children.forEach(visit);
+      }
+    };
+    if (request.include) {
+      request.include.forEach(visit);
+    } else {
+      this.controller.items.forEach(visit);
+    }
+    return [...blocks];
+  }
+
+  private async runTests(
+    request: vscode.TestRunRequest,
+    token: vscode.CancellationToken,
+    envName: string | undefined,
+    debug: boolean
+  ): Promise<void> {
+    if (!this.discovered) {
+      await this.discoverAll();
+    }
+    const run = this.controller.createTestRun(request);
+    const blocks = this.collectBlocks(request);
+    const startedAt = new Date();
+    const suites: HttpTestReportSuite[] = [];
+    for (const block of blocks) {
+      run.enqueued(block);
+      block.children.forEach((child) => run.enqueued(child));
+    }
+    for (const block of blocks) {
+      if (token.isCancellationRequested) {
+        run.skipped(block);
+        block.children.forEach((child) => run.skipped(child));
+        continue;
+      }
+      const suite = await this.runBlock(run, block, envName, debug);
+      if (suite) {
+        suites.push(suite);
+      }
+    }
+    this.writeReports(run, startedAt, envName, suites);
+    run.end();
+  }
+
+  /**
+   * Writes the configured report formats for a finished run and notes their paths in the run output.
+   */
+  private writeReports(
+    run: vscode.TestRun,
+    startedAt: Date,
+    envName: string | undefined,
+    suites: HttpTestReportSuite[]
+  ): void {
+    const formats = getHttpTestReportFormats();
+    const ctx = getHttpTestWorkspaceContext();
+    if (formats.length === 0 || suites.length === 0 || !ctx) {
+      return;
+    }
+    const report = {
+      name: 'CursorToys HTTP tests',
+      startedAt: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+      envName,
+      suites,
+    };
+    try {
+      this.lastReportPaths = writeHttpTestReports(
+        HttpSecretStore.getInstance().maskDeep(report),
+        getHttpTestReportPath(ctx.workspacePath),
+        formats
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      run.appendOutput(toTerminalText(`Could not write HTTP test reports: ${message}\n`));
+      return;
+    }
+    const summary = summarizeHttpTestReport(report);
+    run.appendOutput(
+      toTerminalText(
+        `\n${summary.passed}/${summary.tests} passed, ${summary.failed} failed, ${summary.errors} errored. ` +
+          `Reports written to:\n${this.lastReportPaths.map((filePath) => `  ${filePath}`).join('\n')}\n`
+      )
+    );
+  }
+
+  private async runBlock(
+    run: vscode.TestRun,
+    block: vscode.TestItem,
+    envName: string | undefined,
+    debug: boolean
+  ): Promise<HttpTestReportSuite | null> {
+    const data = this.itemData.get(block);
+    if (data?.kind !== 'block') {
+      return null;
+    }
+    const children: vscode.TestItem[] = [];
+    block.children.forEach((child) => children.push(child));
+    children.sort((a, b) => (a.range?.start.line ?? 0) - (b.range?.start.line ?? 0));
+    run.started(block);
+    children.forEach((child) => run.started(child));
+
+    const httpPath = getHttpTestWorkspaceContext()?.httpPath;
+    const file = (httpPath ? path.relative(httpPath, data.filePath) : path.basename(data.filePath)).replace(/\\/g, '/');
+    const suite: HttpTestReportSuite = {
+      name: `${file} › ${block.label}`,
+      file,
+      line: data.startLine,
+      envName,
+      durationMs: 0,
+      cases: [],
+    };
+    const errorAll = (message: string): HttpTestReportSuite => {
+      const testMessage = new vscode.TestMessage(message);
+      run.errored(block, testMessage);
+      children.forEach((child) => run.errored(child, testMessage));
+      return { ...suite, error: message };
+    };
+
+    let outcome: Awaited<ReturnType<typeof runHttpBlockTests>>;
+    try {
+      const document = await vscode.workspace.openTextDocument(vscode.Uri.file(data.filePath));
+      outcome = await runHttpBlockTests(document, data.startLine, data.endLine, envName);
+    } catch (error) {
+      return errorAll(error instanceof Error ? error.message : String(error));
+    }
+    if (!outcome) {
+      return errorAll('The request could not be prepared.');
+    }
+
+    const { result, assertionResults, assertCount, durationMs } = outcome;
+    const envSuffix = outcome.envName ? ` [${outcome.envName}]` : '';
+    run.appendOutput(
+      toTerminalText(`${outcome.requestLabel} → ${result.statusCode || result.statusText} (${durationMs} ms)${envSuffix}\n`),
+      undefined,
+      block
+    );
+    if (debug) {
+      run.appendOutput(toTerminalText(`${formatHttpResponse(result, undefined, assertionResults)}\n\n`), undefined, block);
+    }
+    suite.request = outcome.requestLabel;
+    suite.envName = outcome.envName ?? undefined;
+    suite.durationMs = durationMs;
+    suite.timings = result.timings;
+    if (result.statusCode === 0) {
+      return errorAll(`${outcome.requestLabel} failed: ${result.error || result.statusText}`);
+    }
+    suite.statusCode = result.statusCode;
+    suite.cases = assertionResults.map((assertionResult, index): HttpTestReportCase => ({
+      name: assertionResult.assertion.description || assertionResult.assertion.expression,
+      expression: assertionResult.assertion.expression,
+      operator: formatAssertionOperator(assertionResult.assertion),
+      passed: assertionResult.passed,
+      line: index < assertCount ? children[index]?.range?.start.line : undefined,
+      failure: assertionResult.passed ? undefined : describeAssertionFailure(assertionResult),
+    }));
+
+    const blockMessages: vscode.TestMessage[] = [];
+    children.forEach((child, index) => {
+      const assertionResult = index < assertCount ? assertionResults[index] : undefined;
+      if (!assertionResult) {
+        run.skipped(child);
+        return;
+      }
+      if (assertionResult.passed) {
+        run.passed(child, durationMs);
+        return;
+      }
+      const failure = describeAssertionFailure(assertionResult);
+      const message = failure.expected !== undefined && failure.actual !== undefined
+        ? vscode.TestMessage.diff(failure.message, failure.expected, failure.actual)
+        : new vscode.TestMessage(failure.message);
+      if (child.uri && child.range) {
+        message.location = new vscode.Location(child.uri, child.range);
+      }
+      run.failed(child, message, durationMs);
+      blockMessages.push(message);
+    });
+
+    // Script tests and the snapshot check have no `@assert` line: report them on the block
+    for (const extra of assertionResults.slice(assertCount)) {
+      if (!extra.passed) {
+        const message = new vscode.TestMessage(
+          `${extra.assertion.description || extra.assertion.expression}: ${extra.error ?? 'failed'}`
+        );
+        if (block.uri && block.range) {
+          message.location = new vscode.Location(block.uri, block.range);
+        }
+        blockMessages.push(message);
+      }
+    }
+    if (blockMessages.length > 0) {
+      run.failed(block, blockMessages, durationMs);
+    } else {
+      run.passed(block, durationMs);
+    }
+    return suite;
+  }
+}
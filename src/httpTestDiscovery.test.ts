@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import { describeAssertionFailure, findAssertionLines } from './httpTestDiscovery';
+
+const FILE = `## Get user
+GET https://api.example.com/users/1
+
+/*
+ * @assert("Status is 200", "res.status", "equals", 200)
+ * @assert("res.body.name", "isNotEmpty")
+ */
+
+## Create user
+POST https://api.example.com/users
+
+/*
+ * @assert("res.body.tags", "all startsWith", "t-")
+ */`;
+
+function runTests(): void {
+  testFindAssertionLines();
+  testDescribeAssertionFailure();
+  console.log('All httpTestDiscovery tests passed.');
+}
+
+function testFindAssertionLines(): void {
+  const lines = FILE.split('\n');
+  assert.deepStrictEqual(findAssertionLines(lines, 0, 7), [
+    { line: 4, label: 'Status is 200' },
+    { line: 5, label: 'res.body.name isNotEmpty' },
+  ]);
+  assert.deepStrictEqual(findAssertionLines(lines, 8, 13), [
+    { line: 12, label: 'res.body.tags all startsWith "t-"' },
+  ]);
+  assert.deepStrictEqual(findAssertionLines(lines, 0, 1), []);
+}
+
+function testDescribeAssertionFailure(): void {
+  const compared = describeAssertionFailure({
+    assertion: { expression: 'res.status', operator: 'equals', expected: 200 },
+    passed: false,
+    actualValue: 404,
+  });
+  assert.deepStrictEqual(compared, {
+    message: 'res.status equals 200 failed (actual: 404)',
+    expected: '200',
+    actual: '404',
+  });
+  const errored = describeAssertionFailure({
+    assertion: { expression: '$.items[', operator: 'isDefined', expected: null },
+    passed: false,
+    error: 'Invalid JSONPath',
+  });
+  assert.deepStrictEqual(errored, { message: '$.items[ isDefined: Invalid JSONPath' });
+  const schema = describeAssertionFailure({
+    assertion: { expression: 'res.body', operator: 'matchesSchema', expected: './user.schema.json' },
+    passed: false,
+    actualValue: { id: 'x' },
+    details: ['/id: must be integer'],
+  });
+  assert.strictEqual(schema.message, 'res.body matchesSchema failed (actual: {"id":"x"})\n/id: must be integer');
+  assert.strictEqual(schema.expected, undefined);
+}
+
+runTests();
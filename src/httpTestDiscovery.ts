@@ -0,0 +1,60 @@
+/**
+ * Test Explorer helpers: finds `@assert` lines of request blocks and turns assertion
+ * results into failure messages. Pure helpers — no VS Code dependencies.
+ */
+import { extractAssertions, formatAssertionOperator } from './assertionParser';
+import { formatValue } from './assertionValidator';
+import type { AssertionResult } from './assertionTypes';
+import { ASSERT_OPERATORS_NO_VALUE } from './httpRequestEditorAssertMeta';
+
+/** An `@assert` line of a request block */
+export interface HttpTestAssertionLine {
+  /** Zero-based line in the file */
+  line: number;
+  label: string;
+}
+
+/** Failure of one assertion, ready for a test message */
+export interface HttpTestFailure {
+  message: string;
+  /** Set when the failure compares two values (shown as a diff) */
+  expected?: string;
+  actual?: string;
+}
+
+/**
+ * Lists the `@assert` lines between `startLine` and `endLine`, in file order
+ */
+export function findAssertionLines(lines: string[], startLine: number, endLine: number): HttpTestAssertionLine[] {
+  const chunk = lines.slice(startLine, endLine + 1).join('\n');
+  return extractAssertions(chunk).map((assertion) => {
+    const operator = formatAssertionOperator(assertion);
+    const expected = ASSERT_OPERATORS_NO_VALUE.has(assertion.operator) ? '' : ` ${formatValue(assertion.expected)}`;
+    return {
+      line: startLine + (assertion.line ?? 1) - 1,
+      label: assertion.description || `${assertion.expression} ${operator}${expected}`,
+    };
+  });
+}
+
+/**
+ * Describes why an assertion failed: its error, or the expected and actual values
+ */
+export function describeAssertionFailure(result: AssertionResult): HttpTestFailure {
+  const { assertion } = result;
+  const title = `${assertion.expression} ${formatAssertionOperator(assertion)}`;
+  const details = result.details?.length ? `\n${result.details.join('\n')}` : '';
+  if (result.error) {
+    return { message: `${title}: ${result.error}${details}` };
+  }
+  if (ASSERT_OPERATORS_NO_VALUE.has(assertion.operator) || assertion.operator === 'matchesSchema') {
+    return { message: `${title} failed (actual: ${formatValue(result.actualValue)})${details}` };
+  }
+  const expected = formatValue(assertion.expected);
+  const actual = formatValue(result.actualValue);
+  return {
+    message: `${title} ${expected} failed (actual: ${actual})${details}`,
+    expected,
+    actual,
+  };
+}
@@ -0,0 +1,160 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  HTTP_TEST_REPORTS_KEPT,
+  buildJUnitReport,
+  buildJsonReport,
+  buildTapReport,
+  listHttpTestReports,
+  summarizeHttpTestReport,
+  writeHttpTestReports,
+  type HttpTestReport,
+} from './httpTestReport';
+
+const REPORT: HttpTestReport = {
+  name: 'CursorToys HTTP tests',
+  startedAt: '2026-10-19T09:30:00.250Z',
+  durationMs: 412,
+  envName: 'staging',
+  suites: [
+    {
+      name: 'users/get-user.req › Get user',
+      file: 'users/get-user.req',
+      line: 0,
+      request: 'GET https://api.example.com/users/1?a=1&b=2',
+      envName: 'staging',
+      statusCode: 200,
+      durationMs: 120,
+      timings: { dns: 3, connect: 10, ttfb: 90, total: 120 },
+      cases: [
+        { name: 'Status is 200', expression: 'res.status', operator: 'equals', passed: true, line: 4 },
+        {
+          name: 'res.body.name',
+          expression: 'res.body.name',
+          operator: 'equals',
+          passed: false,
+          line: 5,
+          failure: { message: 'res.body.name equals "<Ann>" failed', expected: '"<Ann>"', actual: '"Bob"' },
+        },
+        {
+          name: 'script: token saved',
+          expression: 'client.test',
+          operator: 'script',
+          passed: true,
+        },
+      ],
+    },
+    {
+      name: 'users/create.req › Create user',
+      file: 'users/create.req',
+      line: 12,
+      durationMs: 0,
+      error: 'Variable {{host}} is not defined',
+      cases: [],
+    },
+  ],
+};
+
+function runTests(): void {
+  testSummary();
+  testJUnit();
+  testTap();
+  testJson();
+  testWriteAndPrune();
+  console.log('All httpTestReport tests passed.');
+}
+
+function testSummary(): void {
+  assert.deepStrictEqual(summarizeHttpTestReport(REPORT), {
+    suites: 2,
+    tests: 4,
+    passed: 2,
+    failed: 1,
+    errors: 1,
+    durationMs: 412,
+  });
+}
+
+function testJUnit(): void {
+  const xml = buildJUnitReport(REPORT);
+  assert.ok(xml.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n'));
+  assert.ok(xml.includes('<testsuites name="CursorToys HTTP tests" tests="4" failures="1" errors="1" time="0.412"'));
+  assert.ok(xml.includes('<testsuite name="users/get-user.req › Get user" tests="3" failures="1" errors="0"'));
+  assert.ok(xml.includes('<property name="request" value="GET https://api.example.com/users/1?a=1&amp;b=2"/>'));
+  assert.ok(xml.includes('<property name="environment" value="staging"/>'));
+  assert.ok(xml.includes('<property name="timings.ttfb" value="90"/>'));
+  assert.ok(xml.includes('name="Status is 200" classname="users/get-user.req › Get user" time="0.000" file="users/get-user.req" line="5"/>'));
+  assert.ok(
+    xml.includes(
+      '<failure message="res.body.name equals &quot;&lt;Ann&gt;&quot; failed" type="equals">' +
+        'res.body.name equals &quot;&lt;Ann&gt;&quot; failed\nexpected: &quot;&lt;Ann&gt;&quot;\nactual: &quot;Bob&quot;</failure>'
+    )
+  );
+  // Script results without an @assert line point at the block
+  assert.ok(xml.includes('name="script: token saved" classname="users/get-user.req › Get user" time="0.000" file="users/get-user.req" line="1"/>'));
+  assert.ok(xml.includes('<testsuite name="users/create.req › Create user" tests="1" failures="0" errors="1"'));
+  assert.ok(xml.includes('<error message="Variable {{host}} is not defined"/>'));
+  assert.ok(xml.trimEnd().endsWith('</testsuites>'));
+}
+
+function testTap(): void {
+  const tap = buildTapReport(REPORT).split('\n');
+  assert.deepStrictEqual(tap.slice(0, 6), [
+    'TAP version 13',
+    '1..4',
+    '# users/get-user.req › Get user: GET https://api.example.com/users/1?a=1&b=2 [staging] → 200 (120 ms)',
+    'ok 1 - users/get-user.req › Get user › Status is 200',
+    'not ok 2 - users/get-user.req › Get user › res.body.name',
+    '  ---',
+  ]);
+  assert.ok(tap.includes('  expected: "\\"<Ann>\\""'));
+  assert.ok(tap.includes('  line: 6'));
+  assert.ok(tap.includes('ok 3 - users/get-user.req › Get user › script: token saved'));
+  assert.ok(tap.includes('not ok 4 - users/create.req › Create user › request'));
+  assert.ok(tap.includes('  message: "Variable {{host}} is not defined"'));
+  assert.deepStrictEqual(tap.slice(-4), ['# tests 4', '# pass 2', '# fail 2', '']);
+}
+
+function testJson(): void {
+  const json = JSON.parse(buildJsonReport(REPORT));
+  assert.strictEqual(json.name, 'CursorToys HTTP tests');
+  assert.strictEqual(json.envName, 'staging');
+  assert.deepStrictEqual(json.summary, summarizeHttpTestReport(REPORT));
+  assert.deepStrictEqual(json.suites, REPORT.suites);
+  assert.deepStrictEqual(Object.keys(json), ['name', 'startedAt', 'durationMs', 'envName', 'summary', 'suites']);
+}
+
+function testWriteAndPrune(): void {
+  const dir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'ct-http-report-')), 'reports');
+  try {
+    const written = writeHttpTestReports(REPORT, dir, ['junit', 'json']);
+    assert.deepStrictEqual(written.map((filePath) => path.basename(filePath)), [
+      'http-tests-2026-10-19T09-30-00.250Z.junit.xml',
+      'http-tests-2026-10-19T09-30-00.250Z.json',
+    ]);
+    assert.strictEqual(fs.readFileSync(written[0], 'utf8'), buildJUnitReport(REPORT));
+
+    fs.writeFileSync(path.join(dir, 'notes.txt'), 'kept');
+    for (let i = 0; i < HTTP_TEST_REPORTS_KEPT + 2; i++) {
+      const startedAt = new Date(Date.UTC(2026, 10, 1, 0, 0, i)).toISOString();
+      writeHttpTestReports({ ...REPORT, startedAt }, dir, ['tap', 'json']);
+    }
+    const reports = listHttpTestReports(dir);
+    const stems = [...new Set(reports.map((report) => report.stem))];
+    assert.strictEqual(stems.length, HTTP_TEST_REPORTS_KEPT);
+    assert.strictEqual(stems[0], 'http-tests-2026-11-01T00-00-21.000Z');
+    assert.ok(!stems.includes('http-tests-2026-10-19T09-30-00.250Z'));
+    assert.deepStrictEqual(
+      reports.filter((report) => report.stem === stems[0]).map((report) => report.format).sort(),
+      ['json', 'tap']
+    );
+    assert.ok(fs.existsSync(path.join(dir, 'notes.txt')));
+    assert.deepStrictEqual(listHttpTestReports(path.join(dir, 'missing')), []);
+  } finally {
+    fs.rmSync(path.dirname(dir), { recursive: true, force: true });
+  }
+}
+
+runTests();
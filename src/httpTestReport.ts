@@ -0,0 +1,325 @@
+/**
+ * Machine-readable reports of HTTP test runs: JUnit XML, TAP 13 and a JSON summary.
+ * Pure helpers — no VS Code dependencies.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import type { HttpTimings } from './httpResponseTypes';
+import type { HttpTestFailure } from './httpTestDiscovery';
+
+export const HTTP_TEST_REPORT_FORMATS = ['junit', 'tap', 'json'] as const;
+export type HttpTestReportFormat = (typeof HTTP_TEST_REPORT_FORMATS)[number];
+
+/** Report runs kept in the report folder; older files are deleted */
+export const HTTP_TEST_REPORTS_KEPT = 20;
+
+const REPORT_EXTENSIONS: Record<HttpTestReportFormat, string> = {
+  junit: '.junit.xml',
+  tap: '.tap',
+  json: '.json',
+};
+const REPORT_FILE_PREFIX = 'http-tests-';
+
+/** One assertion, script test or snapshot check */
+export interface HttpTestReportCase {
+  name: string;
+  expression: string;
+  operator: string;
+  passed: boolean;
+  /** Zero-based line of the `@assert`, when the case has one */
+  line?: number;
+  failure?: HttpTestFailure;
+}
+
+/** One request block */
+export interface HttpTestReportSuite {
+  /** `folder/file.req › Block label` */
+  name: string;
+  /** Request file, relative to the HTTP folder */
+  file: string;
+  /** Zero-based line of the block */
+  line: number;
+  /** `METHOD url` as sent; undefined when the request could not be prepared */
+  request?: string;
+  envName?: string;
+  statusCode?: number;
+  durationMs: number;
+  timings?: HttpTimings;
+  /** Set when the request could not be prepared or sent */
+  error?: string;
+  cases: HttpTestReportCase[];
+}
+
+export interface HttpTestReport {
+  name: string;
+  /** ISO timestamp */
+  startedAt: string;
+  durationMs: number;
+  /** Environment forced by the run profile; suites list the one each block used */
+  envName?: string;
+  suites: HttpTestReportSuite[];
+}
+
+export interface HttpTestReportSummary {
+  suites: number;
+  tests: number;
+  passed: number;
+  failed: number;
+  /** Requests that could not be prepared or sent */
+  errors: number;
+  durationMs: number;
+}
+
+/**
+ * Counts tests; a suite that errored counts as one errored test
+ */
+export function summarizeHttpTestReport(report: HttpTestReport): HttpTestReportSummary {
+  const summary: HttpTestReportSummary = {
+    suites: report.suites.length,
+    tests: 0,
+    passed: 0,
+    failed: 0,
+    errors: 0,
+    durationMs: report.durationMs,
+  };
+  for (const suite of report.suites) {
+    if (suite.error) {
+      summary.tests++;
+      summary.errors++;
+      continue;
+    }
+    summary.tests += suite.cases.length;
+    summary.passed += suite.cases.filter((c) => c.passed).length;
+    summary.failed += suite.cases.filter((c) => !c.passed).length;
+  }
+  return summary;
+}
+
+function escapeXml(value: string): string {
+  return value
+    // Characters XML 1.0 cannot represent at all
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+function suiteProperties(suite: HttpTestReportSuite): Array<[string, string]> {
+  const properties: Array<[string, string]> = [];
+  if (suite.request) {
+    properties.push(['request', suite.request]);
+  }
+  if (suite.envName) {
+    properties.push(['environment', suite.envName]);
+  }
+  if (suite.statusCode !== undefined) {
+    properties.push(['status', String(suite.statusCode)]);
+  }
+  for (const [phase, ms] of Object.entries(suite.timings ?? {})) {
+    if (ms !== undefined) {
+      properties.push([`timings.${phase}`, String(ms)]);
+    }
+  }
+  return properties;
+}
+
+function failureText(failure: HttpTestFailure): string {
+  return [
+    failure.message,
+    ...(failure.expected !== undefined ? [`expected: ${failure.expected}`] : []),
+    ...(failure.actual !== undefined ? [`actual: ${failure.actual}`] : []),
+  ].join('\n');
+}
+
+/**
+ * JUnit XML: one `<testsuite>` per request block, one `<testcase>` per assertion
+ */
+export function buildJUnitReport(report: HttpTestReport): string {
+  const summary = summarizeHttpTestReport(report);
+  const out = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(report.name)}" tests="${summary.tests}" failures="${summary.failed}" ` +
+      `errors="${summary.errors}" time="${seconds(report.durationMs)}" timestamp="${report.startedAt}">`,
+  ];
+  for (const suite of report.suites) {
+    const failures = suite.cases.filter((c) => !c.passed).length;
+    const tests = suite.error ? 1 : suite.cases.length;
+    out.push(
+      `  <testsuite name="${escapeXml(suite.name)}" tests="${tests}" failures="${suite.error ? 0 : failures}" ` +
+        `errors="${suite.error ? 1 : 0}" skipped="0" time="${seconds(suite.durationMs)}" ` +
+        `timestamp="${report.startedAt}" file="${escapeXml(suite.file)}">`
+    );
+    const properties = suiteProperties(suite);
+    if (properties.length > 0) {
+      out.push('    <properties>');
+      for (const [name, value] of properties) {
+        out.push(`      <property name="${escapeXml(name)}" value="${escapeXml(value)}"/>`);
+      }
+      out.push('    </properties>');
+    }
+    const classname = escapeXml(suite.name);
+    if (suite.error) {
+      out.push(
+        `    <testcase name="request" classname="${classname}" time="${seconds(suite.durationMs)}" file="${escapeXml(suite.file)}" line="${suite.line + 1}">`,
+        `      <error message="${escapeXml(suite.error)}"/>`,
+        '    </testcase>'
+      );
+    }
+    for (const testCase of suite.error ? [] : suite.cases) {
+      const line = testCase.line ?? suite.line;
+      const open =
+        `    <testcase name="${escapeXml(testCase.name)}" classname="${classname}" time="0.000" ` +
+        `file="${escapeXml(suite.file)}" line="${line + 1}"`;
+      if (testCase.passed || !testCase.failure) {
+        out.push(`${open}/>`);
+        continue;
+      }
+      out.push(
+        `${open}>`,
+        `      <failure message="${escapeXml(testCase.failure.message)}" type="${escapeXml(testCase.operator)}">` +
+          `${escapeXml(failureText(testCase.failure))}</failure>`,
+        '    </testcase>'
+      );
+    }
+    out.push('  </testsuite>');
+  }
+  out.push('</testsuites>', '');
+  return out.join('\n');
+}
+
+function yamlString(value: string): string {
+  return JSON.stringify(value);
+}
+
+/**
+ * TAP version 13: one test point per assertion with a YAML block for failures
+ */
+export function buildTapReport(report: HttpTestReport): string {
+  const summary = summarizeHttpTestReport(report);
+  const out = ['TAP version 13', `1..${summary.tests}`];
+  let index = 0;
+  for (const suite of report.suites) {
+    const details = [
+      suite.request,
+      suite.envName ? `[${suite.envName}]` : undefined,
+      suite.statusCode !== undefined ? `→ ${suite.statusCode}` : undefined,
+      `(${suite.durationMs} ms)`,
+    ].filter(Boolean);
+    out.push(`# ${suite.name}: ${details.join(' ')}`);
+    if (suite.error) {
+      out.push(
+        `not ok ${++index} - ${suite.name} › request`,
+        '  ---',
+        `  message: ${yamlString(suite.error)}`,
+        `  file: ${yamlString(suite.file)}`,
+        `  line: ${suite.line + 1}`,
+        '  ...'
+      );
+      continue;
+    }
+    for (const testCase of suite.cases) {
+      if (testCase.passed || !testCase.failure) {
+        out.push(`ok ${++index} - ${suite.name} › ${testCase.name}`);
+        continue;
+      }
+      out.push(
+        `not ok ${++index} - ${suite.name} › ${testCase.name}`,
+        '  ---',
+        `  message: ${yamlString(testCase.failure.message)}`,
+        ...(testCase.failure.expected !== undefined ? [`  expected: ${yamlString(testCase.failure.expected)}`] : []),
+        ...(testCase.failure.actual !== undefined ? [`  actual: ${yamlString(testCase.failure.actual)}`] : []),
+        `  file: ${yamlString(suite.file)}`,
+        `  line: ${(testCase.line ?? suite.line) + 1}`,
+        '  ...'
+      );
+    }
+  }
+  out.push(
+    `# tests ${summary.tests}`,
+    `# pass ${summary.passed}`,
+    `# fail ${summary.failed + summary.errors}`,
+    ''
+  );
+  return out.join('\n');
+}
+
+/**
+ * JSON summary: counts plus every suite and case as recorded
+ */
+export function buildJsonReport(report: HttpTestReport): string {
+  const { suites, ...run } = report;
+  return `${JSON.stringify({ ...run, summary: summarizeHttpTestReport(report), suites }, null, 2)}\n`;
+}
+
+function reportFileStem(startedAt: string): string {
+  return `${REPORT_FILE_PREFIX}${startedAt.replace(/:/g, '-')}`;
+}
+
+/**
+ * Writes the report in each format and deletes the oldest runs beyond HTTP_TEST_REPORTS_KEPT
+ * @param report The run to write
+ * @param directory Report folder (created when missing)
+ * @param formats Formats to write
+ * @returns Paths of the written files, in `formats` order
+ */
+export function writeHttpTestReports(
+  report: HttpTestReport,
+  directory: string,
+  formats: readonly HttpTestReportFormat[]
+): string[] {
+  fs.mkdirSync(directory, { recursive: true });
+  const stem = reportFileStem(report.startedAt);
+  const builders: Record<HttpTestReportFormat, (r: HttpTestReport) => string> = {
+    junit: buildJUnitReport,
+    tap: buildTapReport,
+    json: buildJsonReport,
+  };
+  const written = formats.map((format) => {
+    const filePath = path.join(directory, `${stem}${REPORT_EXTENSIONS[format]}`);
+    fs.writeFileSync(filePath, builders[format](report), 'utf8');
+    return filePath;
+  });
+
+  const stems = [...new Set(listHttpTestReports(directory).map((file) => file.stem))];
+  for (const old of stems.slice(HTTP_TEST_REPORTS_KEPT)) {
+    for (const file of listHttpTestReports(directory).filter((f) => f.stem === old)) {
+      fs.rmSync(file.filePath, { force: true });
+    }
+  }
+  return written;
+}
+
+/**
+ * Report files in a folder, newest run first
+ */
+export function listHttpTestReports(
+  directory: string
+): Array<{ filePath: string; stem: string; format: HttpTestReportFormat }> {
+  let names: string[];
+  try {
+    names = fs.readdirSync(directory);
+  } catch {
+    return [];
+  }
+  const reports: Array<{ filePath: string; stem: string; format: HttpTestReportFormat }> = [];
+  for (const name of names) {
+    if (!name.startsWith(REPORT_FILE_PREFIX)) {
+      continue;
+    }
+    const format = HTTP_TEST_REPORT_FORMATS.find((f) => name.endsWith(REPORT_EXTENSIONS[f]));
+    if (format) {
+      reports.push({
+        filePath: path.join(directory, name),
+        stem: name.slice(0, -REPORT_EXTENSIONS[format].length),
+        format,
+      });
+    }
+  }
+  // ISO timestamps in the names sort chronologically
+  return reports.sort((a, b) => (a.stem === b.stem ? 0 : a.stem < b.stem ? 1 : -1));
+}
@@ -0,0 +1,300 @@
+/**
+ * Connection settings of a request: HTTP(S) proxy with a no-proxy list, client certificates
+ * (PEM cert/key or PFX, mTLS), custom CA bundles, certificate verification and the minimum
+ * TLS version. Set per environment with `.env` keys or per request with `# @tls`.
+ * Pure helpers — no VS Code dependencies.
+ */
+import * as path from 'path';
+import { formatDirectiveOptions, parseDirectiveOptions } from './httpAuth';
+
+export type HttpTlsOption = 'proxy' | 'noProxy' | 'cert' | 'key' | 'pfx' | 'passphrase' | 'ca' | 'verify' | 'minVersion';
+
+/** Options of `# @tls`, in the order they are written back */
+export const TLS_OPTION_KEYS: HttpTlsOption[] = ['proxy', 'noProxy', 'cert', 'key', 'pfx', 'passphrase', 'ca', 'verify', 'minVersion'];
+
+/** `.env` keys read when `# @tls` leaves an option out (`proxy` reads `HTTP_PROXY` / `HTTPS_PROXY`) */
+export const TLS_ENV_KEYS: Record<Exclude<HttpTlsOption, 'proxy'>, string> = {
+  noProxy: 'NO_PROXY',
+  cert: 'TLS_CERT',
+  key: 'TLS_KEY',
+  pfx: 'TLS_PFX',
+  passphrase: 'TLS_PASSPHRASE',
+  ca: 'TLS_CA',
+  verify: 'TLS_VERIFY',
+  minVersion: 'TLS_MIN_VERSION',
+};
+
+export const TLS_VERSIONS = ['TLSv1', 'TLSv1.1', 'TLSv1.2', 'TLSv1.3'] as const;
+export type HttpTlsVersion = (typeof TLS_VERSIONS)[number];
+
+/** A `# @tls key=value ...` line, option values as written */
+export interface HttpTlsDirective {
+  options: Record<string, string>;
+}
+
+/** Effective connection settings; file paths as written, relative to where they were set */
+export interface HttpTlsSettings {
+  /** Proxy for `http://` URLs */
+  httpProxy?: string;
+  /** Proxy for `https://` URLs */
+  httpsProxy?: string;
+  /** Comma-separated hosts reached directly (`*`, `example.com`, `.internal`, `10.0.0.1`) */
+  noProxy?: string;
+  cert?: string;
+  key?: string;
+  pfx?: string;
+  passphrase?: string;
+  /** CA bundle trusted in addition to the built-in roots */
+  ca?: string;
+  /** false accepts any server certificate */
+  verify: boolean;
+  minVersion?: HttpTlsVersion;
+}
+
+/** Where a setting came from: the request's `# @tls` or the environment's `.env` */
+export type HttpTlsSource = 'directive' | 'env';
+
+export interface ResolvedHttpTls {
+  settings: HttpTlsSettings;
+  sources: Partial<Record<keyof HttpTlsSettings, HttpTlsSource>>;
+}
+
+const TLS_LINE_RE = /^#\s*@tls(?:\s+(.*))?$/i;
+const PROXY_OFF = new Set(['none', 'off', 'false', 'direct']);
+
+/**
+ * Parses a `# @tls` line (null otherwise, for findBlockDirective).
+ */
+export function parseTlsLine(line: string): HttpTlsDirective | null {
+  const match = line.trim().match(TLS_LINE_RE);
+  if (!match) {
+    return null;
+  }
+  return { options: parseDirectiveOptions(match[1] ?? '', TLS_OPTION_KEYS).options };
+}
+
+/**
+ * Writes a directive back as a `# @tls` line, known options first
+ */
+export function serializeTlsDirective(directive: HttpTlsDirective): string {
+  return ['# @tls', ...formatDirectiveOptions(directive.options, TLS_OPTION_KEYS)].join(' ');
+}
+
+/**
+ * `TLSv1.2` from `1.2`, `tls1.2`, `TLSv1.2`; undefined otherwise
+ */
+export function normalizeTlsVersion(value: string): HttpTlsVersion | undefined {
+  const match = value.trim().match(/^(?:tls\s*v?)?(1(?:\.[0-3])?)$/i);
+  if (!match) {
+    return undefined;
+  }
+  const version = match[1] === '1.0' ? '1' : match[1];
+  return TLS_VERSIONS.find((v) => v === `TLSv${version}`);
+}
+
+function parseBoolean(value: string): boolean | undefined {
+  const lower = value.trim().toLowerCase();
+  if (['true', '1', 'yes', 'on'].includes(lower)) {
+    return true;
+  }
+  if (['false', '0', 'no', 'off'].includes(lower)) {
+    return false;
+  }
+  return undefined;
+}
+
+/**
+ * Merges a request's `# @tls` options over the environment's `.env` keys.
+ * `proxy=none` turns an environment proxy off for the request.
+ * @param directive The block's `# @tls` line, `{{variables}}` already replaced
+ * @param lookup Reads an environment variable by name
+ * @throws Error for an unknown `verify` / `minVersion` value or both `cert` and `pfx`
+ */
+export function resolveTlsSettings(
+  directive: HttpTlsDirective | null,
+  lookup: (name: string) => string | undefined
+): ResolvedHttpTls {
+  const settings: HttpTlsSettings = { verify: true };
+  const sources: ResolvedHttpTls['sources'] = {};
+  const fromDirective = (key: HttpTlsOption): string | undefined => {
+    const value = directive?.options[key];
+    return value === undefined || value === '' ? undefined : value;
+  };
+  const fromEnv = (name: string): string | undefined => {
+    const value = lookup(name);
+    return value === undefined || value.trim() === '' ? undefined : value.trim();
+  };
+
+  const proxy = fromDirective('proxy');
+  if (proxy !== undefined) {
+    if (!PROXY_OFF.has(proxy.toLowerCase())) {
+      settings.httpProxy = proxy;
+      settings.httpsProxy = proxy;
+      sources.httpProxy = 'directive';
+      sources.httpsProxy = 'directive';
+    }
+  } else {
+    const httpProxy = fromEnv('HTTP_PROXY');
+    const httpsProxy = fromEnv('HTTPS_PROXY');
+    if (httpProxy) {
+      settings.httpProxy = httpProxy;
+      sources.httpProxy = 'env';
+    }
+    if (httpsProxy) {
+      settings.httpsProxy = httpsProxy;
+      sources.httpsProxy = 'env';
+    }
+  }
+
+  for (const key of ['noProxy', 'cert', 'key', 'pfx', 'passphrase', 'ca', 'verify', 'minVersion'] as const) {
+    const direct = fromDirective(key);
+    const value = direct ?? fromEnv(TLS_ENV_KEYS[key]);
+    if (value === undefined) {
+      continue;
+    }
+    const source: HttpTlsSource = direct !== undefined ? 'directive' : 'env';
+    const where = source === 'directive' ? `# @tls ${key}` : TLS_ENV_KEYS[key];
+    if (key === 'verify') {
+      const verify = parseBoolean(value);
+      if (verify === undefined) {
+        throw new Error(`${where} must be true or false (got ${value})`);
+      }
+      settings.verify = verify;
+    } else if (key === 'minVersion') {
+      const version = normalizeTlsVersion(value);
+      if (!version) {
+        throw new Error(`${where} must be one of ${TLS_VERSIONS.join(', ')} (got ${value})`);
+      }
+      settings.minVersion = version;
+    } else {
+      settings[key] = value;
+    }
+    sources[key] = source;
+  }
+
+  if (settings.cert && settings.pfx) {
+    throw new Error('Set either a PEM client certificate (cert/key) or a PFX bundle (pfx), not both');
+  }
+  if (settings.key && !settings.cert) {
+    throw new Error('A client key (key) needs its certificate (cert)');
+  }
+  return { settings, sources };
+}
+
+/**
+ * Settings with file paths made absolute: `# @tls` paths relative to the request file,
+ * `.env` paths relative to the environment folder
+ * @param requestDir Folder of the request file
+ * @param envDir Folder holding the `.env` files
+ */
+export function resolveTlsPaths(resolved: ResolvedHttpTls, requestDir: string, envDir: string): HttpTlsSettings {
+  const settings = { ...resolved.settings };
+  for (const key of ['cert', 'key', 'pfx', 'ca'] as const) {
+    const value = settings[key];
+    if (value !== undefined) {
+      settings[key] = path.resolve(resolved.sources[key] === 'directive' ? requestDir : envDir, value);
+    }
+  }
+  return settings;
+}
+
+/**
+ * True when any setting differs from a plain direct connection with default verification
+ */
+export function hasTlsSettings(settings: HttpTlsSettings): boolean {
+  return (
+    !settings.verify ||
+    [settings.httpProxy, settings.httpsProxy, settings.cert, settings.pfx, settings.ca, settings.minVersion].some(
+      (value) => value !== undefined
+    )
+  );
+}
+
+/**
+ * True when the host is listed in a `NO_PROXY`-style list (`*`, exact hosts, domain suffixes
+ * with or without a leading dot, optional `:port`)
+ */
+export function shouldBypassProxy(url: URL, noProxy: string | undefined): boolean {
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  const port = url.port || (url.protocol === 'https:' ? '443' : '80');
+  for (const raw of (noProxy ?? '').split(/[,\s]+/)) {
+    const entry = raw.trim().toLowerCase();
+    if (!entry) {
+      continue;
+    }
+    if (entry === '*') {
+      return true;
+    }
+    // A bare IPv6 address has no port; `[::1]:8080` does
+    const bareIpv6 = !entry.startsWith('[') && entry.indexOf(':') !== entry.lastIndexOf(':');
+    const portMatch = bareIpv6 ? null : entry.match(/^(.*?)(?::(\d+))?$/);
+    const name = (portMatch?.[1] ?? entry).replace(/^\*?\./, '').replace(/^\[|\]$/g, '');
+    if (portMatch?.[2] && portMatch[2] !== port) {
+      continue;
+    }
+    if (host === name || host.endsWith(`.${name}`)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * The proxy to use for a URL, or null for a direct connection
+ * @throws Error for a proxy that is not an `http://` URL
+ */
+export function selectProxy(settings: HttpTlsSettings, url: URL): URL | null {
+  const proxy = url.protocol === 'https:' || url.protocol === 'wss:' ? settings.httpsProxy : settings.httpProxy;
+  if (!proxy || shouldBypassProxy(url, settings.noProxy)) {
+    return null;
+  }
+  const parsed = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(proxy) ? proxy : `http://${proxy}`);
+  if (parsed.protocol !== 'http:') {
+    throw new Error(`Only http:// proxies are supported (got ${parsed.protocol}//${parsed.host})`);
+  }
+  return parsed;
+}
+
+/**
+ * `Proxy-Authorization` value for credentials written in the proxy URL
+ */
+export function proxyAuthorization(proxy: URL): string | undefined {
+  if (!proxy.username) {
+    return undefined;
+  }
+  const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+  return `Basic ${Buffer.from(credentials, 'utf8').toString('base64')}`;
+}
+
+/** Proxy URL with its password hidden */
+function maskProxy(proxy: string): string {
+  return proxy.replace(/^([a-z][a-z0-9+.-]*:\/\/[^:/@]+):[^@/]*@/i, '$1:***@');
+}
+
+/**
+ * Rows for the editor's resolved preview; the passphrase and proxy passwords are masked
+ */
+export function describeTlsSettings(resolved: ResolvedHttpTls): Array<{ label: string; value: string; source: HttpTlsSource }> {
+  const { settings, sources } = resolved;
+  const rows: Array<{ label: string; value: string; source: HttpTlsSource }> = [];
+  const add = (label: string, key: keyof HttpTlsSettings, value: string | undefined): void => {
+    if (value !== undefined && sources[key]) {
+      rows.push({ label, value, source: sources[key]! });
+    }
+  };
+  if (settings.httpProxy && settings.httpProxy === settings.httpsProxy) {
+    add('Proxy', 'httpProxy', maskProxy(settings.httpProxy));
+  } else {
+    add('HTTP proxy', 'httpProxy', settings.httpProxy && maskProxy(settings.httpProxy));
+    add('HTTPS proxy', 'httpsProxy', settings.httpsProxy && maskProxy(settings.httpsProxy));
+  }
+  add('No proxy', 'noProxy', settings.noProxy);
+  add('Client cert', 'cert', settings.cert);
+  add('Client key', 'key', settings.key);
+  add('PFX', 'pfx', settings.pfx);
+  add('Passphrase', 'passphrase', settings.passphrase !== undefined ? '••••••' : undefined);
+  add('CA bundle', 'ca', settings.ca);
+  add('Verify certificates', 'verify', settings.verify ? 'yes' : 'no');
+  add('Min TLS version', 'minVersion', settings.minVersion);
+  return rows;
+}
@@ -0,0 +1,62 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { HttpTlsPassphraseStore } from './httpTlsPassphraseStore';
+
+/**
+ * Registers the commands that store and forget client certificate passphrases.
+ */
+export function registerHttpTlsCommands(context: vscode.ExtensionContext): void {
+  const store = HttpTlsPassphraseStore.getInstance();
+  store.initialize(context.secrets);
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('cursor-toys.setHttpClientCertPassphrase', async () => {
+      const picked = await vscode.window.showOpenDialog({
+        title: 'Client key or PFX bundle',
+        canSelectMany: false,
+        filters: { 'Keys and certificates': ['pem', 'key', 'crt', 'p12', 'pfx'], 'All files': ['*'] },
+      });
+      const file = picked?.[0]?.fsPath;
+      if (!file) {
+        return;
+      }
+      const passphrase = await vscode.window.showInputBox({
+        title: 'Client certificate passphrase',
+        prompt: `Passphrase for ${path.basename(file)}`,
+        password: true,
+        ignoreFocusOut: true,
+      });
+      if (passphrase === undefined) {
+        return;
+      }
+      try {
+        await store.set(file, passphrase);
+        vscode.window.showInformationMessage(`Stored the passphrase for ${path.basename(file)}.`);
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Failed to store passphrase: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }),
+    vscode.commands.registerCommand('cursor-toys.clearHttpClientCertPassphrase', async () => {
+      const files = await store.list();
+      if (files.length === 0) {
+        vscode.window.showInformationMessage('No client certificate passphrases are stored.');
+        return;
+      }
+      const selected = await vscode.window.showQuickPick(
+        files.map((file) => ({ label: path.basename(file), detail: file, file })),
+        { placeHolder: 'Forget the passphrase of...', canPickMany: true }
+      );
+      if (!selected || selected.length === 0) {
+        return;
+      }
+      for (const item of selected) {
+        await store.delete(item.file);
+      }
+      vscode.window.showInformationMessage(
+        `Forgot ${selected.length} client certificate passphrase${selected.length === 1 ? '' : 's'}.`
+      );
+    })
+  );
+}
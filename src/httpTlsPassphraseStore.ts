@@ -0,0 +1,125 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as tls from 'tls';
+import { loadTlsConnectionOptions } from './httpNodeEngine';
+import type { HttpTlsSettings } from './httpTls';
+
+const SECRET_PREFIX = 'cursorToys.httpTls.passphrase:';
+const INDEX_KEY = 'cursorToys.httpTls.passphraseFiles';
+
+/**
+ * Client certificate passphrases kept in VS Code SecretStorage, keyed by the absolute path
+ * of the PFX bundle or PEM key they unlock. SecretStorage cannot list its keys, so the stored
+ * paths are tracked in a second secret.
+ */
+export class HttpTlsPassphraseStore {
+  private static instance: HttpTlsPassphraseStore;
+  private secrets: vscode.SecretStorage | undefined;
+
+  private constructor() {
+    // SecretStorage is attached on activation; until then nothing is remembered
+  }
+
+  /**
+   * Returns the singleton HttpTlsPassphraseStore instance
+   */
+  public static getInstance(): HttpTlsPassphraseStore {
+    if (!HttpTlsPassphraseStore.instance) {
+      HttpTlsPassphraseStore.instance = new HttpTlsPassphraseStore();
+    }
+    return HttpTlsPassphraseStore.instance;
+  }
+
+  /**
+   * Stores passphrases in the extension's SecretStorage (context.secrets)
+   */
+  public initialize(secrets: vscode.SecretStorage): void {
+    this.secrets = secrets;
+  }
+
+  public async get(filePath: string): Promise<string | undefined> {
+    return this.secrets?.get(SECRET_PREFIX + path.resolve(filePath));
+  }
+
+  public async set(filePath: string, passphrase: string): Promise<void> {
+    if (!this.secrets) {
+      return;
+    }
+    const absolute = path.resolve(filePath);
+    await this.secrets.store(SECRET_PREFIX + absolute, passphrase);
+    const files = await this.list();
+    if (!files.includes(absolute)) {
+      await this.secrets.store(INDEX_KEY, JSON.stringify([...files, absolute]));
+    }
+  }
+
+  public async delete(filePath: string): Promise<void> {
+    if (!this.secrets) {
+      return;
+    }
+    const absolute = path.resolve(filePath);
+    await this.secrets.delete(SECRET_PREFIX + absolute);
+    const files = await this.list();
+    await this.secrets.store(INDEX_KEY, JSON.stringify(files.filter((file) => file !== absolute)));
+  }
+
+  /**
+   * Files that have a stored passphrase
+   */
+  public async list(): Promise<string[]> {
+    const raw = await this.secrets?.get(INDEX_KEY);
+    if (!raw) {
+      return [];
+    }
+    try {
+      const parsed = JSON.parse(raw);
+      return Array.isArray(parsed) ? parsed.filter((file): file is string => typeof file === 'string') : [];
+    } catch {
+      return [];
+    }
+  }
+}
+
+/**
+ * True when the client key or PFX bundle cannot be loaded without a passphrase
+ */
+function needsPassphrase(settings: HttpTlsSettings): boolean {
+  try {
+    tls.createSecureContext(loadTlsConnectionOptions(settings));
+    return false;
+  } catch (error) {
+    return /passphrase|password|decrypt|mac verify/i.test(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Fills in the passphrase of an encrypted client key or PFX bundle that neither `# @tls`
+ * nor `TLS_PASSPHRASE` set: the stored one from SecretStorage, otherwise asks and stores it.
+ * @param settings Settings with absolute paths (resolveTlsPaths)
+ * @returns The settings to send with, or null when the user cancelled the prompt
+ */
+export async function fillTlsPassphrase(settings: HttpTlsSettings): Promise<HttpTlsSettings | null> {
+  const keyFile = settings.pfx ?? settings.key ?? settings.cert;
+  if (!keyFile || settings.passphrase !== undefined) {
+    return settings;
+  }
+  const store = HttpTlsPassphraseStore.getInstance();
+  const stored = await store.get(keyFile);
+  if (stored !== undefined) {
+    return { ...settings, passphrase: stored };
+  }
+  if (!needsPassphrase(settings)) {
+    return settings;
+  }
+  const passphrase = await vscode.window.showInputBox({
+    title: 'Client certificate passphrase',
+    prompt: `Passphrase for ${path.basename(keyFile)} (kept in SecretStorage)`,
+    password: true,
+    ignoreFocusOut: true,
+  });
+  if (passphrase === undefined) {
+    return null;
+  }
+  await store.set(keyFile, passphrase);
+  return { ...settings, passphrase };
+}
@@ -1,10 +1,11 @@
 import * as assert from 'assert';
-import { replaceCustomVariables } from './httpVariableResolver';
+import { replaceCustomVariables, replaceRowVariables, resolveHttpVariables } from './httpVariableResolver';
 import { replaceDynamicVariables } from './httpDynamicVariables';
 
 function runTests(): void {
   testCustomReplace();
   testDynamicInPipeline();
+  testRowVariables();
   console.log('All httpVariableResolver tests passed.');
 }
 
@@ -22,4 +23,19 @@ function testDynamicInPipeline(): void {
   assert.ok(!out.includes('$guid'));
 }
 
+function testRowVariables(): void {
+  const row = { name: 'Ann', Email: 'ann@example.com', address: { city: 'Lisbon' } };
+  assert.strictEqual(
+    replaceRowVariables('{{row.name}} <{{ row.email }}> {{row.address.city}} {{row.address}} {{row.missing}}', row),
+    'Ann <ann@example.com> Lisbon {"city":"Lisbon"} {{row.missing}}'
+  );
+  const out = resolveHttpVariables({
+    content: 'GET {{BASE}}/users/{{row.name}}',
+    customVariables: new Map([['BASE', 'https://api.example.com']]),
+    rowVariables: row,
+    resolveDynamic: false,
+  });
+  assert.strictEqual(out, 'GET https://api.example.com/users/Ann');
+}
+
 runTests();
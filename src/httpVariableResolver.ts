@@ -1,7 +1,9 @@
 import { replaceDynamicVariables, DynamicVariableContext } from './httpDynamicVariables';
 import { mergeCustomVariables } from './httpRequestVariables';
+import { formatDatasetValue, lookupDatasetValue, type HttpDatasetRow } from './httpDataset';
 
 const CUSTOM_VAR_RE = /\{\{\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*\}\}/g;
+const ROW_VAR_RE = /\{\{\s*row\.([^{}]+?)\s*\}\}/g;
 
 export type VariableSource = 'request' | 'file' | 'env' | 'system' | 'prompt' | 'unresolved';
 
@@ -18,7 +20,10 @@ export interface ResolveVariablesOptions {
   envRoot?: string;
   envName?: string | null;
   customVariables?: Map<string, string>;
+  /** Loaded environment; used for {{VAR}} instead of reading the `.env` file again (resolved secrets) */
   dotenvVariables?: Map<string, string>;
+  /** Current `# @dataset` row, for {{row.column}} */
+  rowVariables?: HttpDatasetRow;
   /** When false, leave {{$...}} untouched (preview mode). */
   resolveDynamic?: boolean;
 }
@@ -47,6 +52,16 @@ export function replaceCustomVariables(
   });
 }
 
+/**
+ * Resolves {{row.column}} placeholders from a `# @dataset` row; unknown columns stay as-is.
+ */
+export function replaceRowVariables(content: string, row: HttpDatasetRow): string {
+  return content.replace(ROW_VAR_RE, (match, key: string) => {
+    const value = lookupDatasetValue(row, key);
+    return value === undefined ? match : formatDatasetValue(value);
+  });
+}
+
 /**
  * Builds merged custom variable map from document line context.
  */
@@ -64,9 +79,14 @@ export function resolveHttpVariables(options: ResolveVariablesOptions): string {
   let result = options.content;
   const custom = options.customVariables ?? new Map<string, string>();
 
+  if (options.rowVariables) {
+    result = replaceRowVariables(result, options.rowVariables);
+  }
   result = replaceCustomVariables(result, custom);
 
-  if (options.workspacePath !== undefined && options.envName) {
+  if (options.envName && options.dotenvVariables) {
+    result = replaceCustomVariables(result, options.dotenvVariables);
+  } else if (options.workspacePath !== undefined && options.envName) {
     const { EnvironmentManager } = require('./environmentManager') as typeof import('./environmentManager');
     const envManager = EnvironmentManager.getInstance();
     result = envManager.replaceVariables(
@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import { evaluateXPath, parseXml, xmlStringValue } from './httpXPath';
+
+const SOAP = `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE note>
+<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/">
+  <soap:Body>
+    <m:GetOrdersResponse xmlns:m="urn:orders">
+      <!-- three orders -->
+      <m:Order id="1" status="active"><m:Total>5.50</m:Total><m:Note>A &amp; B</m:Note></m:Order>
+      <m:Order id="2" status="active"><m:Total>15</m:Total><m:Note><![CDATA[<fragile>]]></m:Note></m:Order>
+      <m:Order id="3" status="cancelled"><m:Total>25</m:Total></m:Order>
+    </m:GetOrdersResponse>
+  </soap:Body>
+</soap:Envelope>`;
+
+function runTests(): void {
+  testParseXml();
+  testLocationPaths();
+  testPredicatesAndAxes();
+  testFunctionsAndOperators();
+  testErrors();
+  console.log('All httpXPath tests passed.');
+}
+
+function testParseXml(): void {
+  const doc = parseXml(SOAP);
+  const envelope = doc.children[0];
+  assert.strictEqual(envelope.name, 'soap:Envelope');
+  assert.strictEqual(envelope.attributes[0].value, 'http://schemas.xmlsoap.org/soap/envelope/');
+  assert.strictEqual(xmlStringValue(doc), '5.50A & B15<fragile>25', 'whitespace-only text and comments are dropped');
+  assert.throws(() => parseXml('<a><b></a>'), /Unexpected <\/a>/);
+  assert.throws(() => parseXml('<a>'), /Unclosed <a>/);
+  assert.throws(() => parseXml('{"json": true}'), /Text outside the root element/);
+}
+
+function testLocationPaths(): void {
+  assert.deepStrictEqual(evaluateXPath(SOAP, '//Order/@id'), ['1', '2', '3']);
+  assert.strictEqual(evaluateXPath(SOAP, '/soap:Envelope/soap:Body/*/m:Order[1]/m:Total'), '5.50');
+  assert.deepStrictEqual(evaluateXPath(SOAP, '//Note/text()'), ['A & B', '<fragile>']);
+  assert.strictEqual(evaluateXPath(SOAP, "//Order[@id='2']/Note"), '<fragile>');
+  assert.deepStrictEqual(evaluateXPath(SOAP, '//Order/Total | //Order/@status'), ['active', '5.50', 'active', '15', 'cancelled', '25']);
+  assert.strictEqual(evaluateXPath(SOAP, '//Missing'), undefined);
+  assert.strictEqual(evaluateXPath(SOAP, 'name(//Total/..)'), 'm:Order');
+  assert.deepStrictEqual(evaluateXPath(SOAP, '//m:*[@status]/@id'), ['1', '2', '3']);
+}
+
+function testPredicatesAndAxes(): void {
+  assert.strictEqual(evaluateXPath(SOAP, '//Order[last()]/@id'), '3');
+  assert.deepStrictEqual(evaluateXPath(SOAP, '//Order[Total > 10]/@id'), ['2', '3']);
+  assert.deepStrictEqual(evaluateXPath(SOAP, "//Order[@status = 'active' and Note]/@id"), ['1', '2']);
+  assert.strictEqual(evaluateXPath(SOAP, '//Order[3]/preceding-sibling::*[1]/@id'), '2');
+  assert.strictEqual(evaluateXPath(SOAP, '//Order[1]/following-sibling::Order[last()]/@id'), '3');
+  assert.strictEqual(evaluateXPath(SOAP, 'local-name(//Total[1]/ancestor::*[last()])'), 'Envelope');
+  assert.deepStrictEqual(evaluateXPath(SOAP, '//Order[position() != 2]/@id'), ['1', '3']);
+  assert.strictEqual(evaluateXPath(SOAP, 'count(//Order[1]/descendant::*)'), 2);
+}
+
+function testFunctionsAndOperators(): void {
+  assert.strictEqual(evaluateXPath(SOAP, 'count(//Order)'), 3);
+  assert.strictEqual(evaluateXPath(SOAP, 'sum(//Total)'), 45.5);
+  assert.strictEqual(evaluateXPath(SOAP, 'sum(//Order/@id) * 2 div 4'), 3);
+  assert.strictEqual(evaluateXPath(SOAP, 'number(//Order[2]/Total) >= 15'), true);
+  assert.strictEqual(evaluateXPath(SOAP, "contains(//Order[1]/Note, '&')"), true);
+  assert.strictEqual(evaluateXPath(SOAP, "concat(//Order[1]/@id, '-', string(//Order[3]/@status))"), '1-cancelled');
+  assert.strictEqual(evaluateXPath(SOAP, "normalize-space('  a   b ')"), 'a b');
+  assert.strictEqual(evaluateXPath(SOAP, "substring-before('2024-01-02', '-')"), '2024');
+  assert.strictEqual(evaluateXPath(SOAP, "translate('abc', 'ab', 'AB')"), 'ABc');
+  assert.strictEqual(evaluateXPath(SOAP, "//Order/@status = 'cancelled'"), true, 'node-sets compare existentially');
+  assert.strictEqual(evaluateXPath(SOAP, 'not(//Order[@id = 4])'), true);
+  assert.strictEqual(evaluateXPath(SOAP, '7 mod 3 - -1'), 2);
+}
+
+function testErrors(): void {
+  assert.throws(() => evaluateXPath(SOAP, '//Order['), /XPath \/\/Order\[/);
+  assert.throws(() => evaluateXPath(SOAP, 'bogus(1)'), /Unknown function bogus\(\)/);
+  assert.throws(() => evaluateXPath(SOAP, 'foo::bar'), /Unknown axis foo/);
+}
+
+runTests();
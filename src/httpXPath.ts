@@ -0,0 +1,853 @@
+/**
+ * XPath 1.0 over XML response bodies (e.g. SOAP): location paths with all common axes and
+ * abbreviations (`//`, `.`, `..`, `@`), predicates, unions, operators and the core function
+ * library. Unprefixed names match elements in any namespace (`//Body` finds `soap:Body`);
+ * prefixed names match the prefix used in the document.
+ * Pure helpers — no VS Code dependencies.
+ */
+
+export class XmlParseError extends Error {
+  constructor(message: string, position: number) {
+    super(`${message} (offset ${position})`);
+    this.name = 'XmlParseError';
+  }
+}
+
+export class XPathError extends Error {
+  constructor(message: string, expression: string) {
+    super(`${message} in XPath ${expression}`);
+    this.name = 'XPathError';
+  }
+}
+
+/** Node of a parsed XML document. */
+export interface XmlNode {
+  type: 'document' | 'element' | 'attribute' | 'text' | 'comment' | 'pi';
+  /** Qualified name of elements, attributes and processing instructions. */
+  name: string;
+  /** Text of attribute, text, comment and processing-instruction nodes. */
+  value: string;
+  children: XmlNode[];
+  attributes: XmlNode[];
+  parent: XmlNode | null;
+  /** Position in document order. */
+  order: number;
+}
+
+type XPathValue = XmlNode[] | string | number | boolean;
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+const NAME_CHARS = /^[A-Za-z_:À-￿][\w.:·À-￿-]*/;
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, body: string) => {
+    if (body.startsWith('#x')) {
+      return String.fromCodePoint(parseInt(body.slice(2), 16));
+    }
+    if (body.startsWith('#')) {
+      return String.fromCodePoint(parseInt(body.slice(1), 10));
+    }
+    return ENTITIES[body] ?? entity;
+  });
+}
+
+function createNode(type: XmlNode['type'], parent: XmlNode | null, name = '', value = ''): XmlNode {
+  return { type, name, value, children: [], attributes: [], parent, order: 0 };
+}
+
+/**
+ * Parses an XML document; whitespace-only text between elements is dropped
+ * @throws XmlParseError on malformed XML
+ */
+export function parseXml(text: string): XmlNode {
+  const document = createNode('document', null);
+  let current = document;
+  let pos = 0;
+  let order = 0;
+  const src = text.replace(/^﻿/, '');
+  const indexOrFail = (needle: string, from: number, what: string): number => {
+    const index = src.indexOf(needle, from);
+    if (index < 0) {
+      throw new XmlParseError(`Unterminated ${what}`, from);
+    }
+    return index;
+  };
+  const addText = (value: string): void => {
+    if (value.trim() && current.type === 'element') {
+      const node = createNode('text', current, '', value);
+      node.order = ++order;
+      current.children.push(node);
+    } else if (value.trim()) {
+      throw new XmlParseError('Text outside the root element', pos);
+    }
+  };
+
+  while (pos < src.length) {
+    const lt = src.indexOf('<', pos);
+    if (lt < 0) {
+      addText(decodeEntities(src.slice(pos)));
+      break;
+    }
+    if (lt > pos) {
+      addText(decodeEntities(src.slice(pos, lt)));
+    }
+    pos = lt;
+    if (src.startsWith('<!--', pos)) {
+      const end = indexOrFail('-->', pos + 4, 'comment');
+      const node = createNode('comment', current, '', src.slice(pos + 4, end));
+      node.order = ++order;
+      current.children.push(node);
+      pos = end + 3;
+    } else if (src.startsWith('<![CDATA[', pos)) {
+      const end = indexOrFail(']]>', pos + 9, 'CDATA section');
+      addText(src.slice(pos + 9, end));
+      pos = end + 3;
+    } else if (src.startsWith('<!', pos)) {
+      // DOCTYPE, possibly with an internal subset
+      let depth = 0;
+      let i = pos + 2;
+      for (; i < src.length; i++) {
+        if (src[i] === '[') {
+          depth++;
+        } else if (src[i] === ']') {
+          depth--;
+        } else if (src[i] === '>' && depth <= 0) {
+          break;
+        }
+      }
+      pos = i + 1;
+    } else if (src.startsWith('<?', pos)) {
+      const end = indexOrFail('?>', pos + 2, 'processing instruction');
+      const body = src.slice(pos + 2, end);
+      const target = body.match(/^\S+/)?.[0] ?? '';
+      if (target.toLowerCase() !== 'xml') {
+        const node = createNode('pi', current, target, body.slice(target.length).trim());
+        node.order = ++order;
+        current.children.push(node);
+      }
+      pos = end + 2;
+    } else if (src.startsWith('</', pos)) {
+      const end = indexOrFail('>', pos, 'end tag');
+      const name = src.slice(pos + 2, end).trim();
+      if (current.type !== 'element' || current.name !== name) {
+        throw new XmlParseError(`Unexpected </${name}>`, pos);
+      }
+      current = current.parent!;
+      pos = end + 1;
+    } else {
+      const nameMatch = src.slice(pos + 1).match(NAME_CHARS);
+      if (!nameMatch) {
+        throw new XmlParseError('Invalid tag', pos);
+      }
+      if (current.type === 'document' && current.children.some((c) => c.type === 'element')) {
+        throw new XmlParseError('More than one root element', pos);
+      }
+      const element = createNode('element', current, nameMatch[0]);
+      element.order = ++order;
+      current.children.push(element);
+      pos += 1 + nameMatch[0].length;
+      for (;;) {
+        const rest = src.slice(pos);
+        const attr = rest.match(/^\s+([^\s=/>]+)\s*=\s*("([^"]*)"|'([^']*)')/);
+        if (attr) {
+          const node = createNode('attribute', element, attr[1], decodeEntities(attr[3] ?? attr[4]));
+          node.order = ++order;
+          element.attributes.push(node);
+          pos += attr[0].length;
+          continue;
+        }
+        const close = rest.match(/^\s*(\/?)>/);
+        if (!close) {
+          throw new XmlParseError(`Malformed <${element.name}> tag`, pos);
+        }
+        pos += close[0].length;
+        if (!close[1]) {
+          current = element;
+        }
+        break;
+      }
+    }
+  }
+  if (current !== document) {
+    throw new XmlParseError(`Unclosed <${current.name}>`, src.length);
+  }
+  if (!document.children.some((c) => c.type === 'element')) {
+    throw new XmlParseError('No root element', 0);
+  }
+  return document;
+}
+
+/**
+ * XPath string-value of a node (text of all descendant text nodes for elements)
+ */
+export function xmlStringValue(node: XmlNode): string {
+  if (node.type === 'element' || node.type === 'document') {
+    return node.children.map((child) => (child.type === 'comment' || child.type === 'pi' ? '' : xmlStringValue(child))).join('');
+  }
+  return node.value;
+}
+
+function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon < 0 ? name : name.slice(colon + 1);
+}
+
+// --- Expression parsing -------------------------------------------------------------------
+
+type XToken =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'name'; value: string }
+  | { type: 'op'; value: string }
+  | { type: 'punct'; value: string };
+
+type NodeTest = { kind: 'name'; name: string } | { kind: 'type'; nodeType: string };
+
+interface Step {
+  axis: string;
+  test: NodeTest;
+  predicates: XExpr[];
+}
+
+type XExpr =
+  | { type: 'literal'; value: string | number }
+  | { type: 'binary'; op: string; left: XExpr; right: XExpr }
+  | { type: 'negate'; operand: XExpr }
+  | { type: 'call'; name: string; args: XExpr[] }
+  | { type: 'path'; absolute: boolean; start?: XExpr; steps: Step[] }
+  | { type: 'filter'; primary: XExpr; predicates: XExpr[] };
+
+const AXES = new Set([
+  'ancestor', 'ancestor-or-self', 'attribute', 'child', 'descendant', 'descendant-or-self',
+  'following', 'following-sibling', 'parent', 'preceding', 'preceding-sibling', 'self',
+]);
+const REVERSE_AXES = new Set(['ancestor', 'ancestor-or-self', 'preceding', 'preceding-sibling']);
+const NODE_TYPES = new Set(['node', 'text', 'comment', 'processing-instruction']);
+const OPERATOR_NAMES = new Set(['and', 'or', 'div', 'mod']);
+
+function tokenizeXPath(expression: string): XToken[] {
+  const tokens: XToken[] = [];
+  let pos = 0;
+  // `*` and and/or/div/mod are operators unless they start an operand (XPath 1.0 §3.7)
+  const operatorExpected = (): boolean => {
+    const prev = tokens[tokens.length - 1];
+    if (!prev) {
+      return false;
+    }
+    if (prev.type === 'op') {
+      return false;
+    }
+    return !(prev.type === 'punct' && ['@', '::', '(', '[', ','].includes(prev.value));
+  };
+  while (pos < expression.length) {
+    const rest = expression.slice(pos);
+    const c = expression[pos];
+    let match: RegExpMatchArray | null;
+    if (/\s/.test(c)) {
+      pos++;
+    } else if ((match = rest.match(/^(\d+(\.\d*)?|\.\d+)/))) {
+      tokens.push({ type: 'number', value: parseFloat(match[0]) });
+      pos += match[0].length;
+    } else if (c === '"' || c === "'") {
+      const end = expression.indexOf(c, pos + 1);
+      if (end < 0) {
+        throw new XPathError('Unterminated string', expression);
+      }
+      tokens.push({ type: 'string', value: expression.slice(pos + 1, end) });
+      pos = end + 1;
+    } else if (rest.startsWith('//') || rest.startsWith('!=') || rest.startsWith('<=') || rest.startsWith('>=')) {
+      tokens.push({ type: 'op', value: rest.slice(0, 2) });
+      pos += 2;
+    } else if (rest.startsWith('..') || rest.startsWith('::')) {
+      tokens.push({ type: 'punct', value: rest.slice(0, 2) });
+      pos += 2;
+    } else if ('/|+-=<>'.includes(c)) {
+      tokens.push({ type: 'op', value: c });
+      pos++;
+    } else if (c === '*') {
+      tokens.push(operatorExpected() ? { type: 'op', value: '*' } : { type: 'name', value: '*' });
+      pos++;
+    } else if ('()[].@,'.includes(c)) {
+      tokens.push({ type: 'punct', value: c });
+      pos++;
+    } else if ((match = rest.match(/^[A-Za-z_][\w.-]*(:(\*|[A-Za-z_][\w.-]*))?/))) {
+      const value = match[0];
+      if (operatorExpected() && OPERATOR_NAMES.has(value)) {
+        tokens.push({ type: 'op', value });
+      } else {
+        tokens.push({ type: 'name', value });
+      }
+      pos += value.length;
+    } else {
+      throw new XPathError(`Unexpected "${c}"`, expression);
+    }
+  }
+  return tokens;
+}
+
+class XPathParser {
+  private index = 0;
+  private readonly tokens: XToken[];
+
+  constructor(private readonly src: string) {
+    this.tokens = tokenizeXPath(src);
+  }
+
+  parse(): XExpr {
+    const expr = this.parseBinary(0);
+    if (this.index < this.tokens.length) {
+      this.fail(`Unexpected "${this.tokens[this.index].value}"`);
+    }
+    return expr;
+  }
+
+  private fail(message: string): never {
+    throw new XPathError(message, this.src);
+  }
+
+  private peek(offset = 0): XToken | undefined {
+    return this.tokens[this.index + offset];
+  }
+
+  private isOp(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token?.type === 'op' && token.value === value;
+  }
+
+  private isPunct(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token?.type === 'punct' && token.value === value;
+  }
+
+  private expectPunct(value: string): void {
+    if (!this.isPunct(value)) {
+      this.fail(`Expected "${value}"`);
+    }
+    this.index++;
+  }
+
+  private static readonly LEVELS = [['or'], ['and'], ['=', '!='], ['<', '>', '<=', '>='], ['+', '-'], ['*', 'div', 'mod']];
+
+  private parseBinary(level: number): XExpr {
+    if (level === XPathParser.LEVELS.length) {
+      return this.parseUnary();
+    }
+    let left = this.parseBinary(level + 1);
+    for (;;) {
+      const token = this.peek();
+      if (token?.type !== 'op' || !XPathParser.LEVELS[level].includes(token.value)) {
+        return left;
+      }
+      this.index++;
+      left = { type: 'binary', op: token.value, left, right: this.parseBinary(level + 1) };
+    }
+  }
+
+  private parseUnary(): XExpr {
+    if (this.isOp('-')) {
+      this.index++;
+      return { type: 'negate', operand: this.parseUnary() };
+    }
+    let left = this.parsePathExpr();
+    while (this.isOp('|')) {
+      this.index++;
+      left = { type: 'binary', op: '|', left, right: this.parsePathExpr() };
+    }
+    return left;
+  }
+
+  private parsePathExpr(): XExpr {
+    const token = this.peek();
+    if (!token) {
+      this.fail('Unexpected end of expression');
+    }
+    const startsPrimary =
+      token.type === 'number' ||
+      token.type === 'string' ||
+      this.isPunct('(') ||
+      (token.type === 'name' && this.isPunct('(', 1) && !NODE_TYPES.has(token.value));
+    if (!startsPrimary) {
+      return this.parseLocationPath();
+    }
+    const primary = this.parsePrimary();
+    const predicates = this.parsePredicates();
+    const filter: XExpr = predicates.length ? { type: 'filter', primary, predicates } : primary;
+    if (this.isOp('/') || this.isOp('//')) {
+      return { type: 'path', absolute: false, start: filter, steps: this.parseRelativeSteps(true) };
+    }
+    return filter;
+  }
+
+  private parsePrimary(): XExpr {
+    const token = this.tokens[this.index++];
+    if (token.type === 'number' || token.type === 'string') {
+      return { type: 'literal', value: token.value };
+    }
+    if (token.type === 'punct' && token.value === '(') {
+      const inner = this.parseBinary(0);
+      this.expectPunct(')');
+      return inner;
+    }
+    this.expectPunct('(');
+    const args: XExpr[] = [];
+    while (!this.isPunct(')')) {
+      args.push(this.parseBinary(0));
+      if (this.isPunct(',')) {
+        this.index++;
+      } else if (!this.isPunct(')')) {
+        this.fail('Expected "," or ")"');
+      }
+    }
+    this.index++;
+    return { type: 'call', name: token.value as string, args };
+  }
+
+  private parsePredicates(): XExpr[] {
+    const predicates: XExpr[] = [];
+    while (this.isPunct('[')) {
+      this.index++;
+      predicates.push(this.parseBinary(0));
+      this.expectPunct(']');
+    }
+    return predicates;
+  }
+
+  private parseLocationPath(): XExpr {
+    if (this.isOp('/') || this.isOp('//')) {
+      const next = this.peek(1);
+      if (this.isOp('/') && (!next || next.type === 'op' || (next.type === 'punct' && ![ '.', '..', '@'].includes(next.value)))) {
+        this.index++;
+        return { type: 'path', absolute: true, steps: [] };
+      }
+      return { type: 'path', absolute: true, steps: this.parseRelativeSteps(true) };
+    }
+    return { type: 'path', absolute: false, steps: this.parseRelativeSteps(false) };
+  }
+
+  /**
+   * @param leadingSeparator True when the steps start with `/` or `//`
+   */
+  private parseRelativeSteps(leadingSeparator: boolean): Step[] {
+    const steps: Step[] = [];
+    let separator = leadingSeparator;
+    for (;;) {
+      if (separator) {
+        const op = this.tokens[this.index++].value;
+        if (op === '//') {
+          steps.push({ axis: 'descendant-or-self', test: { kind: 'type', nodeType: 'node' }, predicates: [] });
+        }
+      }
+      steps.push(this.parseStep());
+      if (!this.isOp('/') && !this.isOp('//')) {
+        return steps;
+      }
+      separator = true;
+    }
+  }
+
+  private parseStep(): Step {
+    if (this.isPunct('.')) {
+      this.index++;
+      return { axis: 'self', test: { kind: 'type', nodeType: 'node' }, predicates: [] };
+    }
+    if (this.isPunct('..')) {
+      this.index++;
+      return { axis: 'parent', test: { kind: 'type', nodeType: 'node' }, predicates: [] };
+    }
+    let axis = 'child';
+    if (this.isPunct('@')) {
+      this.index++;
+      axis = 'attribute';
+    } else if (this.peek()?.type === 'name' && this.isPunct('::', 1)) {
+      axis = this.tokens[this.index].value as string;
+      if (!AXES.has(axis)) {
+        this.fail(`Unknown axis ${axis}`);
+      }
+      this.index += 2;
+    }
+    const token = this.tokens[this.index++];
+    if (!token || token.type !== 'name') {
+      this.fail('Expected a node test');
+    }
+    let test: NodeTest;
+    if (NODE_TYPES.has(token.value) && this.isPunct('(')) {
+      this.index++;
+      if (this.peek()?.type === 'string') {
+        this.index++;
+      }
+      this.expectPunct(')');
+      test = { kind: 'type', nodeType: token.value };
+    } else {
+      test = { kind: 'name', name: token.value };
+    }
+    return { axis, test, predicates: this.parsePredicates() };
+  }
+}
+
+// --- Evaluation ----------------------------------------------------------------------------
+
+interface XContext {
+  node: XmlNode;
+  position: number;
+  size: number;
+  root: XmlNode;
+}
+
+function isNodeSet(value: XPathValue): value is XmlNode[] {
+  return Array.isArray(value);
+}
+
+function toStringValue(value: XPathValue): string {
+  if (isNodeSet(value)) {
+    return value.length ? xmlStringValue(value[0]) : '';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? String(value) : isNaN(value) ? 'NaN' : String(value);
+  }
+  return String(value);
+}
+
+function toNumber(value: XPathValue): number {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+  const text = toStringValue(value).trim();
+  return /^-?(\d+(\.\d*)?|\.\d+)$/.test(text) ? parseFloat(text) : NaN;
+}
+
+function toBoolean(value: XPathValue): boolean {
+  if (isNodeSet(value)) {
+    return value.length > 0;
+  }
+  if (typeof value === 'number') {
+    return value !== 0 && !isNaN(value);
+  }
+  return typeof value === 'string' ? value.length > 0 : value;
+}
+
+function sortDocumentOrder(nodes: XmlNode[]): XmlNode[] {
+  return [...new Set(nodes)].sort((a, b) => a.order - b.order);
+}
+
+function descendantsOf(node: XmlNode, out: XmlNode[]): XmlNode[] {
+  for (const child of node.children) {
+    out.push(child);
+    descendantsOf(child, out);
+  }
+  return out;
+}
+
+function axisNodes(node: XmlNode, axis: string): XmlNode[] {
+  const siblings = node.parent && node.type !== 'attribute' ? node.parent.children : [];
+  const self = siblings.indexOf(node);
+  const ancestors = (): XmlNode[] => {
+    const out: XmlNode[] = [];
+    for (let p = node.parent; p; p = p.parent) {
+      out.push(p);
+    }
+    return out;
+  };
+  switch (axis) {
+    case 'child':
+      return node.children;
+    case 'attribute':
+      return node.attributes;
+    case 'self':
+      return [node];
+    case 'parent':
+      return node.parent ? [node.parent] : [];
+    case 'descendant':
+      return descendantsOf(node, []);
+    case 'descendant-or-self':
+      return descendantsOf(node, [node]);
+    case 'ancestor':
+      return ancestors();
+    case 'ancestor-or-self':
+      return [node, ...ancestors()];
+    case 'following-sibling':
+      return self < 0 ? [] : siblings.slice(self + 1);
+    case 'preceding-sibling':
+      return self < 0 ? [] : siblings.slice(0, self).reverse();
+    case 'following': {
+      const after: XmlNode[] = [];
+      for (let n: XmlNode | null = node; n && n.parent; n = n.parent) {
+        const list = n.type === 'attribute' ? [] : n.parent.children;
+        for (const sibling of list.slice(list.indexOf(n) + 1)) {
+          after.push(sibling, ...descendantsOf(sibling, []));
+        }
+      }
+      return sortDocumentOrder(after);
+    }
+    case 'preceding': {
+      const ancestorSet = new Set(ancestors());
+      let root = node;
+      while (root.parent) {
+        root = root.parent;
+      }
+      return descendantsOf(root, [])
+        .filter((n) => n.order < node.order && !ancestorSet.has(n))
+        .reverse();
+    }
+    default:
+      return [];
+  }
+}
+
+function matchesTest(node: XmlNode, test: NodeTest, axis: string): boolean {
+  if (test.kind === 'type') {
+    switch (test.nodeType) {
+      case 'node':
+        return true;
+      case 'text':
+        return node.type === 'text';
+      case 'comment':
+        return node.type === 'comment';
+      default:
+        return node.type === 'pi';
+    }
+  }
+  const principal = axis === 'attribute' ? 'attribute' : 'element';
+  if (node.type !== principal) {
+    return false;
+  }
+  if (test.name === '*') {
+    return true;
+  }
+  if (test.name.endsWith(':*')) {
+    return node.name.startsWith(test.name.slice(0, -1));
+  }
+  return test.name.includes(':') ? node.name === test.name : localName(node.name) === test.name;
+}
+
+class XPathEvaluator {
+  constructor(private readonly src: string) {}
+
+  private fail(message: string): never {
+    throw new XPathError(message, this.src);
+  }
+
+  evaluate(expr: XExpr, ctx: XContext): XPathValue {
+    switch (expr.type) {
+      case 'literal':
+        return expr.value;
+      case 'negate':
+        return -toNumber(this.evaluate(expr.operand, ctx));
+      case 'binary':
+        return this.binary(expr.op, expr.left, expr.right, ctx);
+      case 'call':
+        return this.call(expr.name, expr.args, ctx);
+      case 'filter': {
+        const base = this.evaluate(expr.primary, ctx);
+        if (!isNodeSet(base)) {
+          this.fail('Predicates need a node-set');
+        }
+        return expr.predicates.reduce((nodes, predicate) => this.applyPredicate(nodes, predicate, ctx.root), base);
+      }
+      case 'path': {
+        let nodes: XmlNode[];
+        if (expr.start) {
+          const start = this.evaluate(expr.start, ctx);
+          if (!isNodeSet(start)) {
+            this.fail('Paths need a node-set');
+          }
+          nodes = start;
+        } else {
+          nodes = [expr.absolute ? ctx.root : ctx.node];
+        }
+        for (const step of expr.steps) {
+          const next: XmlNode[] = [];
+          for (const node of nodes) {
+            let selected = axisNodes(node, step.axis).filter((n) => matchesTest(n, step.test, step.axis));
+            for (const predicate of step.predicates) {
+              selected = this.applyPredicate(selected, predicate, ctx.root);
+            }
+            next.push(...selected);
+          }
+          nodes = sortDocumentOrder(next);
+        }
+        return nodes;
+      }
+    }
+  }
+
+  /**
+   * Keeps the nodes the predicate holds for; number predicates select by position
+   * (nodes of reverse axes arrive nearest first, so positions count from the context node)
+   */
+  private applyPredicate(nodes: XmlNode[], predicate: XExpr, root: XmlNode): XmlNode[] {
+    return nodes.filter((node, i) => {
+      const value = this.evaluate(predicate, { node, position: i + 1, size: nodes.length, root });
+      return typeof value === 'number' ? value === i + 1 : toBoolean(value);
+    });
+  }
+
+  private binary(op: string, leftExpr: XExpr, rightExpr: XExpr, ctx: XContext): XPathValue {
+    if (op === 'or') {
+      return toBoolean(this.evaluate(leftExpr, ctx)) || toBoolean(this.evaluate(rightExpr, ctx));
+    }
+    if (op === 'and') {
+      return toBoolean(this.evaluate(leftExpr, ctx)) && toBoolean(this.evaluate(rightExpr, ctx));
+    }
+    const left = this.evaluate(leftExpr, ctx);
+    const right = this.evaluate(rightExpr, ctx);
+    switch (op) {
+      case '|':
+        if (!isNodeSet(left) || !isNodeSet(right)) {
+          this.fail('"|" needs node-sets');
+        }
+        return sortDocumentOrder([...left, ...right]);
+      case '+':
+        return toNumber(left) + toNumber(right);
+      case '-':
+        return toNumber(left) - toNumber(right);
+      case '*':
+        return toNumber(left) * toNumber(right);
+      case 'div':
+        return toNumber(left) / toNumber(right);
+      case 'mod':
+        return toNumber(left) % toNumber(right);
+      default:
+        return compareXPathValues(op, left, right);
+    }
+  }
+
+  private call(name: string, argExprs: XExpr[], ctx: XContext): XPathValue {
+    const args = argExprs.map((arg) => this.evaluate(arg, ctx));
+    const str = (i: number): string => (i < args.length ? toStringValue(args[i]) : xmlStringValue(ctx.node));
+    const nodeArg = (): XmlNode | undefined => {
+      if (!args.length) {
+        return ctx.node;
+      }
+      if (!isNodeSet(args[0])) {
+        this.fail(`${name}() needs a node-set`);
+      }
+      return args[0][0];
+    };
+    switch (name) {
+      case 'last':
+        return ctx.size;
+      case 'position':
+        return ctx.position;
+      case 'count':
+        if (!isNodeSet(args[0] ?? 0)) {
+          this.fail('count() needs a node-set');
+        }
+        return (args[0] as XmlNode[]).length;
+      case 'local-name':
+        return localName(nodeArg()?.name ?? '');
+      case 'name':
+        return nodeArg()?.name ?? '';
+      case 'namespace-uri':
+        return '';
+      case 'string':
+        return str(0);
+      case 'concat':
+        return args.map((arg) => toStringValue(arg)).join('');
+      case 'starts-with':
+        return str(0).startsWith(str(1));
+      case 'ends-with':
+        return str(0).endsWith(str(1));
+      case 'contains':
+        return str(0).includes(str(1));
+      case 'substring-before': {
+        const i = str(0).indexOf(str(1));
+        return i < 0 ? '' : str(0).slice(0, i);
+      }
+      case 'substring-after': {
+        const i = str(0).indexOf(str(1));
+        return i < 0 ? '' : str(0).slice(i + str(1).length);
+      }
+      case 'substring': {
+        const text = str(0);
+        const start = Math.round(toNumber(args[1]));
+        const end = args.length > 2 ? start + Math.round(toNumber(args[2])) : Infinity;
+        return [...text].filter((_c, i) => i + 1 >= start && i + 1 < end).join('');
+      }
+      case 'string-length':
+        return [...str(0)].length;
+      case 'normalize-space':
+        return str(0).trim().replace(/\s+/g, ' ');
+      case 'translate': {
+        const [from, to] = [str(1), str(2)];
+        return [...str(0)]
+          .map((c) => (from.includes(c) ? to[from.indexOf(c)] ?? '' : c))
+          .join('');
+      }
+      case 'not':
+        return !toBoolean(args[0] ?? false);
+      case 'true':
+        return true;
+      case 'false':
+        return false;
+      case 'boolean':
+        return toBoolean(args[0] ?? false);
+      case 'number':
+        return args.length ? toNumber(args[0]) : toNumber(xmlStringValue(ctx.node));
+      case 'sum':
+        if (!isNodeSet(args[0] ?? 0)) {
+          this.fail('sum() needs a node-set');
+        }
+        return (args[0] as XmlNode[]).reduce((total, node) => total + toNumber(xmlStringValue(node)), 0);
+      case 'floor':
+        return Math.floor(toNumber(args[0]));
+      case 'ceiling':
+        return Math.ceil(toNumber(args[0]));
+      case 'round':
+        return Math.round(toNumber(args[0]));
+      default:
+        return this.fail(`Unknown function ${name}()`);
+    }
+  }
+}
+
+function compareAtoms(op: string, left: string | number | boolean, right: string | number | boolean): boolean {
+  if (op === '=' || op === '!=') {
+    let equal: boolean;
+    if (typeof left === 'boolean' || typeof right === 'boolean') {
+      equal = toBoolean(left) === toBoolean(right);
+    } else if (typeof left === 'number' || typeof right === 'number') {
+      equal = toNumber(left) === toNumber(right);
+    } else {
+      equal = left === right;
+    }
+    return op === '=' ? equal : !equal;
+  }
+  const [l, r] = [toNumber(left), toNumber(right)];
+  return op === '<' ? l < r : op === '<=' ? l <= r : op === '>' ? l > r : l >= r;
+}
+
+/** XPath 1.0 comparison: node-sets compare true when any of their nodes does. */
+function compareXPathValues(op: string, left: XPathValue, right: XPathValue): boolean {
+  if (isNodeSet(left) && isNodeSet(right)) {
+    return left.some((a) => right.some((b) => compareAtoms(op, xmlStringValue(a), xmlStringValue(b))));
+  }
+  if (isNodeSet(left)) {
+    return typeof right === 'boolean'
+      ? compareAtoms(op, toBoolean(left), right)
+      : left.some((node) => compareAtoms(op, typeof right === 'number' ? toNumber(xmlStringValue(node)) : xmlStringValue(node), right as string | number));
+  }
+  if (isNodeSet(right)) {
+    const flipped: Record<string, string> = { '<': '>', '>': '<', '<=': '>=', '>=': '<=' };
+    return compareXPathValues(flipped[op] ?? op, right, left);
+  }
+  return compareAtoms(op, left, right);
+}
+
+/**
+ * Evaluates an XPath against an XML document. Node-sets become the string values of their
+ * nodes: undefined when empty, a string for one node, an array for several
+ * @throws XmlParseError / XPathError on malformed input
+ */
+export function evaluateXPath(xml: string | XmlNode, expression: string): unknown {
+  const root = typeof xml === 'string' ? parseXml(xml) : xml;
+  const ast = new XPathParser(expression).parse();
+  const result = new XPathEvaluator(expression).evaluate(ast, { node: root, position: 1, size: 1, root });
+  if (!isNodeSet(result)) {
+    return result;
+  }
+  const values = result.map((node) => xmlStringValue(node));
+  return values.length === 0 ? undefined : values.length === 1 ? values[0] : values;
+}
@@ -33,6 +33,7 @@ Use MCP tools:
 - http_run — execute a single request
 - http_run_tests_file / http_run_tests_folder / http_run_tests_all — run test suites
 - http_list_envs / http_get_env — check environments (secrets are redacted)
+- http_to_code — turn a request block into fetch, axios, Python, Go, Java, C# or PowerShell code
 
 ${args.folder ? `Focus folder: ${args.folder}` : 'List HTTP files, pick a suite, run tests, and summarize pass/fail with response snippets.'}`,
 
@@ -18,6 +18,7 @@ import {
   getUserHomePath,
 } from '../../utils';
 import { listAgents } from '../../agentsManager';
+import { HttpSecretStore } from '../../httpSecretStore';
 import * as kanban from '../services/kanbanTools';
 import * as notepad from '../services/notepadTools';
 import * as http from '../services/httpTools';
@@ -322,7 +323,7 @@ export class McpResourceHost {
     }
 
     return {
-      contents: [{ uri, mimeType, text }],
+      contents: [{ uri, mimeType, text: HttpSecretStore.getInstance().mask(text) }],
     };
   }
 
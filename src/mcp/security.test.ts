@@ -38,6 +38,8 @@ function testSecretRedaction(): void {
   const redacted = redactSecrets({ HOST: 'localhost', API_KEY: 'secret123' });
   assert.strictEqual(redacted.HOST, 'localhost');
   assert.strictEqual(redacted.API_KEY, '[REDACTED]');
+  const env = redactSecrets({ accesstoken: 'abc123', db_password: 'secret:DB_PASSWORD', base_url: 'https://x.test' });
+  assert.deepStrictEqual(env, { accesstoken: '[REDACTED]', db_password: 'secret:DB_PASSWORD', base_url: 'https://x.test' });
 }
 
 function testRateLimit(): void {
@@ -2,6 +2,8 @@
  * MCP security: confirm gate, secret redaction, rate limiting.
  */
 
+import { isSecretVariableName, parseSecretReference } from '../httpSecrets';
+
 const SECRET_KEY_PATTERN = /(?:^|_)(KEY|TOKEN|SECRET|PASSWORD)(?:$|_)/i;
 
 const DESTRUCTIVE_TOOL_SUFFIXES = [
@@ -67,7 +69,8 @@ export function isSecretEnvKey(key: string): boolean {
 }
 
 /**
- * Redacts secret values in a string-keyed record.
+ * Redacts secret values in a string-keyed record (environment variables). `secret:NAME`
+ * references hold no value and are kept, so clients can tell secret-backed variables apart.
  */
 export function redactSecrets(
   record: Record<string, string>,
@@ -75,7 +78,8 @@ export function redactSecrets(
 ): Record<string, string> {
   const result: Record<string, string> = {};
   for (const [key, value] of Object.entries(record)) {
-    result[key] = isSecretEnvKey(key) ? redactedValue : value;
+    const secret = parseSecretReference(value) === null && (isSecretEnvKey(key) || isSecretVariableName(key));
+    result[key] = secret ? redactedValue : value;
   }
   return result;
 }
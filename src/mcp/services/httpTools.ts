@@ -5,7 +5,13 @@ import { promisify } from 'util';
 import * as vscode from 'vscode';
 import { EnvironmentManager } from '../../environmentManager';
 import { buildCursortoysNpxCommand, getHttpTestWorkspaceContext } from '../../httpCliRunner';
-import { copyCurlCommand, executeHttpRequestFromFile } from '../../httpRequestExecutor';
+import { HTTP_CODEGEN_LANGUAGES, isHttpCodegenLanguage } from '../../httpCodegen';
+import { getHttpRequestBlocks } from '../../httpRequestParser';
+import {
+  copyCurlCommand,
+  executeHttpRequestFromFile,
+  generateHttpRequestCodeForBlock,
+} from '../../httpRequestExecutor';
 import {
   createHttpDocsSkill,
   envNameFromProjectEnvFileName,
@@ -195,6 +201,53 @@ export async function httpToCurl(args: Record<string, unknown>): Promise<unknown
   return { ok: true, message: 'cURL copied to clipboard' };
 }
 
+export async function httpToCode(args: Record<string, unknown>): Promise<unknown> {
+  const workspacePath = requireWorkspace();
+  let filePath = args.filePath as string | undefined;
+  if (!filePath) {
+    throw new Error('filePath is required');
+  }
+  if (!path.isAbsolute(filePath)) {
+    filePath = path.join(workspacePath, filePath);
+  }
+  const language = args.language;
+  if (!isHttpCodegenLanguage(language)) {
+    throw new Error(`language must be one of: ${HTTP_CODEGEN_LANGUAGES.map((l) => l.id).join(', ')}`);
+  }
+  const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+  const blocks = getHttpRequestBlocks(document);
+  const selector = args.block;
+  const block =
+    typeof selector === 'number'
+      ? blocks[selector]
+      : typeof selector === 'string'
+        ? blocks.find((b) => b.title === selector)
+        : blocks[0];
+  if (!block) {
+    throw new Error(`Request block not found: ${String(selector ?? 0)}`);
+  }
+  // Placeholders by default so resolved secrets do not leave the editor
+  const keepVariables = args.keepVariables !== false;
+  const generated = await generateHttpRequestCodeForBlock(
+    document,
+    block.startLine,
+    block.endLine,
+    language,
+    keepVariables
+  );
+  if (!generated) {
+    throw new Error('The request block could not be converted to code');
+  }
+  return {
+    filePath,
+    block: block.title,
+    language,
+    languageId: generated.languageId,
+    keepVariables,
+    code: generated.code,
+  };
+}
+
 async function runHttpTestCli(extraArgs: string): Promise<unknown> {
   const workspacePath = requireWorkspace();
   const config = vscode.workspace.getConfiguration('cursorToys');
@@ -4,6 +4,7 @@ import { isCursorPetEnabled } from '../cursorPet/cursorPetConfig';
 import type { McpHostContext } from './types';
 import { appendMcpAuditLog } from './auditLog';
 import { trackMcpToolCall } from './mcpTelemetry';
+import { HttpSecretStore } from '../httpSecretStore';
 import {
   checkRateLimit,
   redactSecretsDeep,
@@ -72,6 +73,7 @@ const STATIC_HANDLERS: Record<string, ToolHandler> = {
   http_run_tests_folder: http.httpRunTestsFolder,
   http_run_tests_all: () => http.httpRunTestsAll(),
   http_to_curl: http.httpToCurl,
+  http_to_code: http.httpToCode,
   http_list_envs: () => http.httpListEnvs(),
   http_get_env: http.httpGetEnv,
   http_create_env: http.httpCreateEnv,
@@ -164,7 +166,7 @@ export class McpToolHost {
         result = await handler(args);
       }
 
-      const redacted = redactSecretsDeep(result);
+      const redacted = HttpSecretStore.getInstance().maskDeep(redactSecretsDeep(result));
       const durationMs = Date.now() - started;
       trackMcpToolCall(tool, true, durationMs);
       appendMcpAuditLog({ tool, ok: true, durationMs });
@@ -590,6 +590,17 @@ export const MCP_TOOL_DEFINITIONS: ToolDefinition[] = [
     description: 'Copy HTTP request as cURL to clipboard',
     inputSchema: { filePath: z.string() },
   },
+  {
+    name: 'http_to_code',
+    description:
+      'Generate code for an HTTP request block (fetch, axios, python, go, java, csharp, powershell). {{variables}} stay as environment-variable placeholders unless keepVariables is false',
+    inputSchema: {
+      filePath: z.string(),
+      language: z.enum(['fetch', 'axios', 'python', 'go', 'java', 'csharp', 'powershell']),
+      block: z.union([z.number(), z.string()]).optional(),
+      keepVariables: z.boolean().optional(),
+    },
+  },
   {
     name: 'http_list_envs',
     description: 'List project .env environments (keys only for secrets)',
@@ -4,9 +4,19 @@ import * as zlib from 'zlib';
 import { getFileTypeFromPath, sanitizeFileName, isAllowedExtension, getBaseFolderName, getProjectEnvRoot, listProjectEnvFileNames, getFileExtension } from './utils';
 import { isHttpRequestExtension } from './httpRequestExtensions';
 import { GistManager } from './gistManager';
+import { extractEnvSecrets } from './httpSecrets';
+import { HttpSecretStore } from './httpSecretStore';
 
 const MAX_CONTENT_SIZE = 50 * 1024 * 1024; // 50MB limit for safety
 
+/**
+ * File content as put in a link: secret-like `.env` values become `secret:NAME` references
+ * (the recipient enters them on first send) and secret values read this session are masked
+ */
+function toShareableContent(content: string, type: string | null): string {
+  return HttpSecretStore.getInstance().mask(type === 'env' ? extractEnvSecrets(content).content : content);
+}
+
 /**
  * Generates a shareable link for the specified file
  * @param filePath File path
@@ -123,7 +133,7 @@ export async function generateShareable(
     const sanitizedName = sanitizeFileName(fileName);
 
     // Compress and encode content
-    const compressedData = compressAndEncode(content);
+    const compressedData = compressAndEncode(toShareableContent(content, fileType));
 
     // Build shareable URL (fileType cannot be null here due to validation above)
     if (!fileType) {
@@ -276,7 +286,7 @@ export async function generateShareableWithPath(
     const sanitizedName = sanitizeFileName(fileNameWithoutExt);
 
     // Compress and encode content
-    const compressedData = compressAndEncode(content);
+    const compressedData = compressAndEncode(toShareableContent(content, fileType));
 
     // Build shareable URL with path
     const shareable = buildShareableUrlWithPath(fileType, relativePath, sanitizedName, compressedData);
@@ -569,7 +579,7 @@ export async function generateShareableForHttpFolderWithEnv(
       files.push({
         type: 'http',
         relativePath: relativePath,
-        content: content
+        content: toShareableContent(content, 'http')
       });
     }
 
@@ -584,7 +594,7 @@ export async function generateShareableForHttpFolderWithEnv(
         files.push({
           type: 'env',
           relativePath: fileName,
-          content: document.getText(),
+          content: toShareableContent(document.getText(), 'env'),
         });
       }
     }
@@ -1407,7 +1417,7 @@ export async function generateGistShareable(
 
     // Read file content (non-skill types)
     const document = await vscode.workspace.openTextDocument(uri);
-    const content = document.getText();
+    const content = toShareableContent(document.getText(), fileType);
 
     // Get file name with extension
     const fileName = path.basename(filePath);
@@ -1563,7 +1573,7 @@ export async function generateGistShareableForBundle(
       const httpFiles = await collectHttpFilesFromFolder(folderPath);
       for (const filePath of httpFiles) {
         const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
-        const content = document.getText();
+        const content = toShareableContent(document.getText(), 'http');
         const fileName = path.basename(filePath);
         files[fileName] = { content };
         fileMetadata.push({ name: fileName, type: 'http', size: content.length });
@@ -1577,7 +1587,7 @@ export async function generateGistShareableForBundle(
         for (const fileName of listProjectEnvFileNames(workspacePath)) {
           const envFilePath = path.join(getProjectEnvRoot(workspacePath), fileName);
           const document = await vscode.workspace.openTextDocument(vscode.Uri.file(envFilePath));
-          const content = document.getText();
+          const content = toShareableContent(document.getText(), 'env');
           files[fileName] = { content };
           fileMetadata.push({ name: fileName, type: 'env', size: content.length });
         }
@@ -1656,7 +1666,7 @@ export async function generateGistShareableForBundle(
         const httpFiles = await collectHttpFilesFromFolder(httpPath);
         for (const filePath of httpFiles) {
           const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
-          const content = document.getText();
+          const content = toShareableContent(document.getText(), 'http');
           const fileName = `http/${path.basename(filePath)}`;
           files[fileName] = { content };
           fileMetadata.push({ name: fileName, type: 'http', size: content.length });
@@ -212,7 +212,7 @@ export class UserHttpTreeProvider implements vscode.TreeDataProvider<HttpTreeEle
           startLine: block.startLine,
           endLine: block.endLine,
           sectionTitle:
-            block.kind === 'section' || block.kind === 'rest' ? block.title : undefined,
+            block.kind === 'section' || block.kind === 'rest' || block.kind === 'graphql' ? block.title : undefined,
           requestLabel: label,
           envName,
         };
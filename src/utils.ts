@@ -628,6 +628,24 @@ export function getHttpPath(workspacePath?: string, isPersonal: boolean = false)
   return path.join(workspacePath, `.${baseFolderName}`, 'http');
 }
 
+/**
+ * Gets the folder HTTP test reports are written to (`cursorToys.httpTestReportDirectory`
+ * under the workspace extension data folder; `..` segments are dropped)
+ * @param workspacePath Workspace path
+ */
+export function getHttpTestReportPath(workspacePath: string): string {
+  const config = vscode.workspace.getConfiguration('cursorToys');
+  const configured = config.get<string>('httpTestReportDirectory', 'http-reports');
+  const segments = configured
+    .split(/[\\/]+/)
+    .filter((segment) => segment && segment !== '.' && segment !== '..');
+  return path.join(
+    workspacePath,
+    `.${getExtensionDataFolderName()}`,
+    ...(segments.length > 0 ? segments : ['http-reports'])
+  );
+}
+
 /**
  * Gets the response file path for a given request file path
  * @param requestPath The path to the HTTP request file
@@ -641,6 +659,24 @@ export function getHttpResponsePath(requestPath: string): string {
   return path.join(dir, `${baseName}.${responseExt}`);
 }
 
+/**
+ * Gets the response file path of one request block (`<file>_<section title>.res`), as saved by
+ * Send Request from a CodeLens
+ * @param requestPath The path to the HTTP request file
+ * @param sectionTitle Title of the block; the file's response path when omitted
+ * @returns The path to the block's response sidecar file
+ */
+export function getHttpSectionResponsePath(requestPath: string, sectionTitle?: string): string {
+  const baseResponsePath = getHttpResponsePath(requestPath);
+  if (!sectionTitle) {
+    return baseResponsePath;
+  }
+  const responseExt = path.extname(baseResponsePath);
+  const baseFileName = path.basename(baseResponsePath, responseExt);
+  const sanitizedTitle = sectionTitle.replace(/[^a-zA-Z0-9]/g, '_').toLowerCase();
+  return path.join(path.dirname(baseResponsePath), `${baseFileName}_${sanitizedTitle}${responseExt}`);
+}
+
 /**
  * Returns the workspace root directory used for project .env files
  * @param workspacePath Workspace path
@@ -0,0 +1,551 @@
+/**
+ * Minimal YAML reader for API description files (OpenAPI / Swagger).
+ * Supports block mappings and sequences, flow collections, plain / quoted / block scalars,
+ * comments and anchors with aliases. Tags, complex keys and multiple documents are not
+ * supported (only the first document is read).
+ */
+
+interface YamlLine {
+  indent: number;
+  text: string;
+  lineNo: number;
+}
+
+export class YamlParseError extends Error {
+  constructor(message: string, line: number) {
+    super(`${message} (line ${line})`);
+    this.name = 'YamlParseError';
+  }
+}
+
+const KEY_RE = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"[\]{},?&*!|>%@`-][^#]*?|-[^\s#][^#]*?)\s*:(?=\s|$)/;
+const ANCHOR_RE = /^&([^\s[\]{},]+)\s*/;
+const ALIAS_RE = /^\*([^\s[\]{},]+)\s*$/;
+
+/**
+ * Parses YAML text into plain JSON values
+ * @throws YamlParseError on malformed input
+ */
+export function parseYaml(text: string): unknown {
+  const lines: YamlLine[] = [];
+  const raw = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  for (let i = 0; i < raw.length; i++) {
+    const line = raw[i];
+    if (i === 0 && /^%/.test(line)) {
+      continue;
+    }
+    if (/^---(\s|$)/.test(line)) {
+      if (lines.some((l) => !isBlankOrComment(l.text))) {
+        break;
+      }
+      const rest = line.slice(3).trim();
+      if (rest && !rest.startsWith('#')) {
+        lines.push({ indent: 0, text: rest, lineNo: i + 1 });
+      }
+      continue;
+    }
+    if (/^\.\.\.(\s|$)/.test(line)) {
+      break;
+    }
+    const indent = line.length - line.trimStart().length;
+    lines.push({ indent, text: line.slice(indent).replace(/\s+$/, ''), lineNo: i + 1 });
+  }
+  return new YamlReader(lines).readDocument();
+}
+
+function isBlankOrComment(text: string): boolean {
+  return text === '' || text.startsWith('#');
+}
+
+/**
+ * Removes a trailing ` # comment` outside of quotes
+ */
+function stripComment(text: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === '\\' && quote === '"') {
+        i++;
+      } else if (ch === quote) {
+        quote = null;
+      }
+    } else if (ch === '"' || ch === "'") {
+      if (i === 0 || /[\s[{,:]/.test(text[i - 1])) {
+        quote = ch;
+      }
+    } else if (ch === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text;
+}
+
+function coercePlainScalar(value: string): unknown {
+  if (/^(null|Null|NULL|~)?$/.test(value)) {
+    return null;
+  }
+  if (/^(true|True|TRUE)$/.test(value)) {
+    return true;
+  }
+  if (/^(false|False|FALSE)$/.test(value)) {
+    return false;
+  }
+  if (/^[-+]?\d+$/.test(value)) {
+    return parseInt(value, 10);
+  }
+  if (/^0x[0-9a-fA-F]+$/.test(value)) {
+    return parseInt(value, 16);
+  }
+  if (/^[-+]?(\d+\.\d*|\.\d+|\d+)([eE][-+]?\d+)?$/.test(value)) {
+    return parseFloat(value);
+  }
+  if (/^[-+]?\.(inf|Inf|INF)$/.test(value)) {
+    return value.startsWith('-') ? -Infinity : Infinity;
+  }
+  return value;
+}
+
+function unquoteDouble(body: string): string {
+  return body.replace(/\\(x[0-9a-fA-F]{2}|u[0-9a-fA-F]{4}|U[0-9a-fA-F]{8}|.)/g, (_m, esc: string) => {
+    switch (esc[0]) {
+      case 'n':
+        return '\n';
+      case 't':
+        return '\t';
+      case 'r':
+        return '\r';
+      case '0':
+        return '\0';
+      case 'x':
+      case 'u':
+      case 'U':
+        return String.fromCodePoint(parseInt(esc.slice(1), 16));
+      default:
+        return esc;
+    }
+  });
+}
+
+/**
+ * Folds a multi-line quoted or plain scalar: line breaks become spaces, blank lines newlines
+ */
+function foldLines(parts: string[]): string {
+  let out = '';
+  let pendingBreaks = 0;
+  for (const part of parts) {
+    const piece = part.trim();
+    if (piece === '') {
+      pendingBreaks++;
+      continue;
+    }
+    if (out) {
+      out += pendingBreaks > 0 ? '\n'.repeat(pendingBreaks) : ' ';
+    }
+    out += piece;
+    pendingBreaks = 0;
+  }
+  return out;
+}
+
+function keyText(rawKey: string): string {
+  if (rawKey.startsWith('"')) {
+    return unquoteDouble(rawKey.slice(1, -1));
+  }
+  if (rawKey.startsWith("'")) {
+    return rawKey.slice(1, -1).replace(/''/g, "'");
+  }
+  return rawKey.trim();
+}
+
+class YamlReader {
+  private index = 0;
+  private readonly anchors = new Map<string, unknown>();
+
+  constructor(private readonly lines: YamlLine[]) {}
+
+  readDocument(): unknown {
+    const value = this.readNode(-1);
+    this.skipBlank();
+    if (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      throw new YamlParseError(`Unexpected content '${line.text}'`, line.lineNo);
+    }
+    return value;
+  }
+
+  private skipBlank(): void {
+    while (this.index < this.lines.length && isBlankOrComment(this.lines[this.index].text)) {
+      this.index++;
+    }
+  }
+
+  private peek(): YamlLine | undefined {
+    this.skipBlank();
+    return this.lines[this.index];
+  }
+
+  /**
+   * Reads the node on the following lines indented deeper than `parentIndent`
+   */
+  private readNode(parentIndent: number): unknown {
+    const line = this.peek();
+    if (!line || line.indent <= parentIndent) {
+      return null;
+    }
+    if (line.text === '-' || line.text.startsWith('- ')) {
+      return this.readSequence(line.indent);
+    }
+    if (KEY_RE.test(line.text)) {
+      return this.readMapping(line.indent);
+    }
+    this.index++;
+    return this.readInlineValue(line.text, line, parentIndent);
+  }
+
+  private readSequence(indent: number): unknown[] {
+    const items: unknown[] = [];
+    for (;;) {
+      const line = this.peek();
+      if (!line || line.indent !== indent || !(line.text === '-' || line.text.startsWith('- '))) {
+        break;
+      }
+      const rest = line.text.slice(1);
+      const offset = rest.length - rest.trimStart().length + 1;
+      const content = rest.trim();
+      if (content === '' || content.startsWith('#')) {
+        this.index++;
+        items.push(this.readNode(indent));
+        continue;
+      }
+      // Re-read the item content as if it started on its own line
+      this.lines[this.index] = { indent: indent + offset, text: content, lineNo: line.lineNo };
+      items.push(this.readNode(indent));
+    }
+    return items;
+  }
+
+  private readMapping(indent: number): Record<string, unknown> {
+    const map: Record<string, unknown> = {};
+    for (;;) {
+      const line = this.peek();
+      if (!line || line.indent !== indent) {
+        if (line && line.indent > indent) {
+          throw new YamlParseError('Bad indentation', line.lineNo);
+        }
+        break;
+      }
+      const match = line.text.match(KEY_RE);
+      if (!match) {
+        break;
+      }
+      this.index++;
+      const key = keyText(match[1]);
+      const rest = line.text.slice(match[0].length).trim();
+      let value: unknown;
+      const anchor = rest.match(ANCHOR_RE);
+      const afterAnchor = anchor ? rest.slice(anchor[0].length) : rest;
+      if (isBlankOrComment(afterAnchor)) {
+        const next = this.peek();
+        // A sequence may sit at the same indent as its key
+        value =
+          next && next.indent === indent && (next.text === '-' || next.text.startsWith('- '))
+            ? this.readSequence(indent)
+            : this.readNode(indent);
+      } else {
+        value = this.readInlineValue(afterAnchor, line, indent);
+      }
+      if (anchor) {
+        this.anchors.set(anchor[1], value);
+      }
+      if (key === '<<' && value && typeof value === 'object' && !Array.isArray(value)) {
+        for (const [k, v] of Object.entries(value)) {
+          if (!(k in map)) {
+            map[k] = v;
+          }
+        }
+        continue;
+      }
+      map[key] = value;
+    }
+    return map;
+  }
+
+  /**
+   * Value written after `key:` / `- ` (or a bare scalar), plus its continuation lines
+   */
+  private readInlineValue(text: string, line: YamlLine, parentIndent: number): unknown {
+    const alias = text.match(ALIAS_RE);
+    if (alias) {
+      if (!this.anchors.has(alias[1])) {
+        throw new YamlParseError(`Unknown alias '*${alias[1]}'`, line.lineNo);
+      }
+      return this.anchors.get(alias[1]);
+    }
+    const anchor = text.match(ANCHOR_RE);
+    if (anchor) {
+      const value = this.readInlineValue(text.slice(anchor[0].length), line, parentIndent);
+      this.anchors.set(anchor[1], value);
+      return value;
+    }
+    if (/^[|>]/.test(text)) {
+      return this.readBlockScalar(stripComment(text), parentIndent);
+    }
+    if (text.startsWith('[') || text.startsWith('{')) {
+      let source = stripComment(text);
+      while (!isBalancedFlow(source)) {
+        const next = this.lines[this.index];
+        if (!next) {
+          throw new YamlParseError('Unterminated flow collection', line.lineNo);
+        }
+        this.index++;
+        source += ' ' + stripComment(next.text);
+      }
+      return new FlowReader(source, line.lineNo).read();
+    }
+    if (text.startsWith('"') || text.startsWith("'")) {
+      return this.readQuoted(text, line);
+    }
+    const parts = [stripComment(text)];
+    // Plain scalars continue on deeper-indented lines
+    while (this.index < this.lines.length) {
+      const next = this.lines[this.index];
+      if (next.text !== '' && (next.indent <= parentIndent || next.text.startsWith('#'))) {
+        break;
+      }
+      if (next.text === '' && !this.hasContinuation(parentIndent)) {
+        break;
+      }
+      parts.push(stripComment(next.text));
+      this.index++;
+    }
+    return parts.length === 1 ? coercePlainScalar(parts[0]) : foldLines(parts);
+  }
+
+  private hasContinuation(parentIndent: number): boolean {
+    for (let i = this.index; i < this.lines.length; i++) {
+      const next = this.lines[i];
+      if (next.text !== '') {
+        return next.indent > parentIndent && !next.text.startsWith('#');
+      }
+    }
+    return false;
+  }
+
+  private readQuoted(text: string, line: YamlLine): string {
+    const quote = text[0];
+    const parts: string[] = [];
+    let current = text.slice(1);
+    for (;;) {
+      const end = findClosingQuote(current, quote);
+      if (end >= 0) {
+        parts.push(current.slice(0, end));
+        const trailing = stripComment(current.slice(end + 1)).trim();
+        if (trailing) {
+          throw new YamlParseError(`Unexpected '${trailing}' after quoted scalar`, line.lineNo);
+        }
+        break;
+      }
+      parts.push(current);
+      const next = this.lines[this.index];
+      if (!next) {
+        throw new YamlParseError('Unterminated quoted scalar', line.lineNo);
+      }
+      this.index++;
+      current = next.text;
+    }
+    const folded = parts.length === 1 ? parts[0] : foldLines(parts);
+    return quote === '"' ? unquoteDouble(folded) : folded.replace(/''/g, "'");
+  }
+
+  private readBlockScalar(header: string, parentIndent: number): string {
+    const literal = header.startsWith('|');
+    const chomp = header.includes('-') ? 'strip' : header.includes('+') ? 'keep' : 'clip';
+    const explicitIndent = header.match(/\d/);
+    const collected: string[] = [];
+    let blockIndent = explicitIndent ? parentIndent + parseInt(explicitIndent[0], 10) : -1;
+    while (this.index < this.lines.length) {
+      const next = this.lines[this.index];
+      if (next.text === '') {
+        collected.push('');
+        this.index++;
+        continue;
+      }
+      if (next.indent <= parentIndent) {
+        break;
+      }
+      if (blockIndent < 0) {
+        blockIndent = next.indent;
+      }
+      if (next.indent < blockIndent) {
+        break;
+      }
+      collected.push(' '.repeat(next.indent - blockIndent) + next.text);
+      this.index++;
+    }
+    let trailingBlank = 0;
+    while (collected.length > 0 && collected[collected.length - 1] === '') {
+      collected.pop();
+      trailingBlank++;
+    }
+    let body: string;
+    if (literal) {
+      body = collected.join('\n');
+    } else {
+      body = '';
+      collected.forEach((part, i) => {
+        if (i === 0) {
+          body = part;
+        } else if (part === '' || part.startsWith(' ') || collected[i - 1] === '' || collected[i - 1].startsWith(' ')) {
+          body += '\n' + part;
+        } else {
+          body += ' ' + part;
+        }
+      });
+    }
+    if (chomp === 'strip' || body === '') {
+      return body;
+    }
+    return chomp === 'keep' ? body + '\n'.repeat(trailingBlank + 1) : body + '\n';
+  }
+}
+
+function findClosingQuote(text: string, quote: string): number {
+  for (let i = 0; i < text.length; i++) {
+    if (quote === '"' && text[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (text[i] === quote) {
+      if (quote === "'" && text[i + 1] === "'") {
+        i++;
+        continue;
+      }
+      return i;
+    }
+  }
+  return -1;
+}
+
+function isBalancedFlow(source: string): boolean {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (quote) {
+      if (ch === '\\' && quote === '"') {
+        i++;
+      } else if (ch === quote) {
+        quote = null;
+      }
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '[' || ch === '{') {
+      depth++;
+    } else if (ch === ']' || ch === '}') {
+      depth--;
+    }
+  }
+  return depth <= 0;
+}
+
+/**
+ * Reads `[a, b]` / `{ key: value }` flow collections
+ */
+class FlowReader {
+  private pos = 0;
+
+  constructor(private readonly source: string, private readonly lineNo: number) {}
+
+  read(): unknown {
+    const value = this.readValue();
+    this.skipSpace();
+    if (this.pos < this.source.length) {
+      throw new YamlParseError(`Unexpected '${this.source.slice(this.pos)}'`, this.lineNo);
+    }
+    return value;
+  }
+
+  private skipSpace(): void {
+    while (this.pos < this.source.length && /\s/.test(this.source[this.pos])) {
+      this.pos++;
+    }
+  }
+
+  private readValue(): unknown {
+    this.skipSpace();
+    const ch = this.source[this.pos];
+    if (ch === '[') {
+      return this.readList();
+    }
+    if (ch === '{') {
+      return this.readMap();
+    }
+    if (ch === '"' || ch === "'") {
+      const end = findClosingQuote(this.source.slice(this.pos + 1), ch);
+      if (end < 0) {
+        throw new YamlParseError('Unterminated quoted scalar', this.lineNo);
+      }
+      const body = this.source.slice(this.pos + 1, this.pos + 1 + end);
+      this.pos += end + 2;
+      return ch === '"' ? unquoteDouble(body) : body.replace(/''/g, "'");
+    }
+    const start = this.pos;
+    while (this.pos < this.source.length && !/[,\]}]/.test(this.source[this.pos])) {
+      if (this.source[this.pos] === ':' && /[\s,\]}]/.test(this.source[this.pos + 1] ?? ' ')) {
+        break;
+      }
+      this.pos++;
+    }
+    return coercePlainScalar(this.source.slice(start, this.pos).trim());
+  }
+
+  private readList(): unknown[] {
+    const items: unknown[] = [];
+    this.pos++;
+    for (;;) {
+      this.skipSpace();
+      if (this.source[this.pos] === ']') {
+        this.pos++;
+        return items;
+      }
+      items.push(this.readValue());
+      this.skipSpace();
+      const sep = this.source[this.pos++];
+      if (sep === ']') {
+        return items;
+      }
+      if (sep !== ',') {
+        throw new YamlParseError('Expected , or ] in flow sequence', this.lineNo);
+      }
+    }
+  }
+
+  private readMap(): Record<string, unknown> {
+    const map: Record<string, unknown> = {};
+    this.pos++;
+    for (;;) {
+      this.skipSpace();
+      if (this.source[this.pos] === '}') {
+        this.pos++;
+        return map;
+      }
+      const key = this.readValue();
+      this.skipSpace();
+      let value: unknown = null;
+      if (this.source[this.pos] === ':') {
+        this.pos++;
+        value = this.readValue();
+        this.skipSpace();
+      }
+      map[String(key)] = value;
+      const sep = this.source[this.pos++];
+      if (sep === '}') {
+        return map;
+      }
+      if (sep !== ',') {
+        throw new YamlParseError('Expected , or } in flow mapping', this.lineNo);
+      }
+    }
+  }
+}